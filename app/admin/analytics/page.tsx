@@ -1,32 +1,74 @@
 import { requireAdmin } from '@/lib/auth';
 import { Card } from '@/components/ui/card';
+import Link from 'next/link';
 import { Suspense } from 'react';
-import { getAdminDashboardAnalytics } from '@/lib/actions/analytics';
+import { getAdminDashboardAnalytics, getTagActivity } from '@/lib/actions/analytics';
+import { getCategories, getTagBySlug } from '@/lib/actions/tags';
 import { AnalyticsChart, MultiLineChart } from '@/components/admin/AnalyticsChart';
+import { AnalyticsTagFilter } from '@/components/admin/AnalyticsTagFilter';
 import { RealTimeAnalytics } from '@/components/admin/RealTimeAnalytics';
+import { PollTag } from '@/types/database';
 
 export const dynamic = 'force-dynamic';
 
-export default async function AdminAnalyticsPage() {
+interface AdminAnalyticsPageProps {
+  searchParams: Promise<{
+    tag?: string;
+  }>;
+}
+
+export default async function AdminAnalyticsPage({ searchParams }: AdminAnalyticsPageProps) {
   // This will redirect if not admin
   await requireAdmin();
-  
+
+  // Poll and vote figures can be limited to one tag
+  const { tag: tagSlug } = await searchParams;
+  const tag = tagSlug ? await getTagBySlug(tagSlug) : null;
+
   // Get analytics data
-  const analyticsData = await getAdminDashboardAnalytics();
-  
+  const [analyticsData, tagActivity, categories] = await Promise.all([
+    getAdminDashboardAnalytics(tag?.id),
+    getTagActivity(),
+    getCategories(),
+  ]);
+
+  // Categories first, then the busiest tags, then the selected tag if neither lists it
+  const filterTags = new Map<string, PollTag>();
+  for (const option of [
+    ...categories,
+    ...tagActivity.map(activity => ({ ...activity, id: activity.tag_id })),
+    ...(tag ? [tag] : []),
+  ]) {
+    if (!filterTags.has(option.slug)) {
+      filterTags.set(option.slug, { id: option.id, name: option.name, slug: option.slug, is_category: option.is_category });
+    }
+  }
+
   return (
     <div>
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-3xl font-bold">Analytics Dashboard</h1>
-        <p className="text-gray-500">
-          {new Date().toLocaleDateString('en-US', { 
-            weekday: 'long',
-            year: 'numeric', 
-            month: 'long', 
-            day: 'numeric' 
-          })}
-        </p>
+        <div className="flex items-center gap-4">
+          <AnalyticsTagFilter tags={[...filterTags.values()]} value={tag?.slug} />
+          <p className="text-gray-500">
+            {new Date().toLocaleDateString('en-US', {
+              weekday: 'long',
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric'
+            })}
+          </p>
+        </div>
       </div>
+
+      {tagSlug && !tag && (
+        <p className="mb-6 text-sm text-red-500">No tag matches &ldquo;{tagSlug}&rdquo;; showing all polls.</p>
+      )}
+      {tag && (
+        <p className="mb-6 text-sm text-gray-500">
+          Poll and vote figures only include polls tagged &ldquo;{tag.name}&rdquo;. User figures cover the whole platform.
+        </p>
+      )}
       
       {/* Main Analytics Chart */}
       <Card className="p-6">
@@ -147,6 +189,38 @@ export default async function AdminAnalyticsPage() {
           </div>
         </Card>
       </div>
+
+      {/* Tag Activity */}
+      <Card className="p-6 mt-8">
+        <h3 className="text-lg font-semibold mb-4">Top Tags (Last 30 Days)</h3>
+        {tagActivity.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tagged polls yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="pb-2 font-medium">Tag</th>
+                <th className="pb-2 font-medium text-right">New Polls</th>
+                <th className="pb-2 font-medium text-right">Votes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {tagActivity.map(activity => (
+                <tr key={activity.tag_id}>
+                  <td className="py-2">
+                    <Link href={`/admin/analytics?tag=${activity.slug}`} className="hover:underline">
+                      {activity.name}
+                    </Link>
+                    {activity.is_category && <span className="ml-2 text-xs text-muted-foreground">category</span>}
+                  </td>
+                  <td className="py-2 text-right">{activity.polls_count}</td>
+                  <td className="py-2 text-right">{activity.votes_count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Card>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { requireAdmin } from '@/lib/auth';
+import { getAdminTags } from '@/lib/actions/admin/tags';
+import { CategoryManager } from '@/components/admin/CategoryManager';
+
+export const dynamic = 'force-dynamic';
+
+export default async function CategoriesPage() {
+  // This will redirect if not admin
+  await requireAdmin();
+
+  const result = await getAdminTags();
+
+  if (!result.success) {
+    return (
+      <div>
+        <h1 className="text-3xl font-bold mb-4">Categories</h1>
+        <p className="text-red-500">Failed to load categories. Please try again later.</p>
+      </div>
+    );
+  }
+
+  return <CategoryManager categories={result.categories || []} popularTags={result.popularTags || []} />;
+}
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Eye, Trash2, BarChart3, AlertTriangle } from 'lucide-react';
 import Link from 'next/link';
+import { ExportPollMenu } from '@/components/polls/ExportPollMenu';
 
 export const dynamic = 'force-dynamic';
 
@@ -15,6 +16,7 @@ interface Poll {
   description: string;
   created_at: string;
   expires_at: string;
+  creator_id: string;
   is_active: boolean;
   allow_anonymous: boolean;
   profiles: {
@@ -34,6 +36,7 @@ interface RawPollData {
   description: string;
   created_at: string;
   expires_at: string;
+  creator_id: string;
   is_active: boolean;
   allow_anonymous: boolean;
   profiles: {
@@ -65,6 +68,7 @@ export default async function AdminPollsPage() {
       description,
       created_at,
       expires_at,
+      creator_id,
       is_active,
       allow_anonymous,
       profiles:creator_id (
@@ -206,9 +210,16 @@ export default async function AdminPollsPage() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      <div>
-                        <p className="font-medium">{poll.profiles?.full_name || 'Unknown'}</p>
-                        <p className="text-sm text-gray-500">@{poll.profiles?.username || 'unknown'}</p>
+                      <div className="flex items-center gap-2">
+                        <div>
+                          <p className="font-medium">{poll.profiles?.full_name || 'Unknown'}</p>
+                          <p className="text-sm text-gray-500">@{poll.profiles?.username || 'unknown'}</p>
+                        </div>
+                        {/* Zip of every poll by this creator */}
+                        <ExportPollMenu
+                          href={`/api/polls/export?userId=${poll.creator_id}`}
+                          title="Export all polls by this creator"
+                        />
                       </div>
                     </TableCell>
                     <TableCell>
@@ -252,7 +263,9 @@ export default async function AdminPollsPage() {
                           title="Delete functionality coming soon"
                         >
                           <Trash2 className="h-4 w-4" />
-                        </Button>                      </div>
+                        </Button>
+                        <ExportPollMenu href={`/api/polls/${poll.id}/export`} />
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))
@@ -24,6 +24,7 @@ interface Settings {
     require_password_complexity: boolean;
     max_login_attempts: number;
     enable_two_factor: boolean;
+    require_two_factor_for_admins?: boolean;
   };
 }
 
@@ -186,6 +187,10 @@ export default async function AdminSettingsPage() {
                 <p className="font-medium">Two-Factor Auth</p>
                 <p className="text-gray-500">{settings.security?.enable_two_factor ? 'Enabled' : 'Disabled'}</p>
               </div>
+              <div>
+                <p className="font-medium">Admin Two-Factor</p>
+                <p className="text-gray-500">{settings.security?.require_two_factor_for_admins ? 'Required' : 'Optional'}</p>
+              </div>
             </div>
             <Button variant="outline" className="mt-4">
               <Shield className="h-4 w-4 mr-2" />
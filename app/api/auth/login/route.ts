@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { createSupabaseServerClient, createSupabaseServiceClient } from '@/lib/supabase-server';
+import { getAccountLockout, isPasswordHookEnabled, recordFailedLogin, resetFailedLogins } from '@/lib/auth-policy';
+import { getSecuritySettings } from '@/lib/app-settings';
+import { getAccessTokenSessionId, getTwoFactorStatus, verifyTwoFactorLogin } from '@/lib/two-factor';
+import { consumeRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/client-ip';
 
 // Force dynamic rendering for API routes that use cookies
 export const dynamic = 'force-dynamic';
@@ -7,16 +12,22 @@ export const dynamic = 'force-dynamic';
 /**
  * Login API Route Handler
  * 
- * ⚠️  SECURITY NOTICE: This API route is LEGACY and currently UNUSED.
- * The application uses direct Supabase client authentication via AuthContext.
- * Consider removing this route to reduce attack surface.
- * 
  * Purpose: Authenticate users via email/password with comprehensive security
- * Usage: Currently not used by any components (legacy endpoint)
- * Security: Enhanced with validation, sanitization, and proper error handling
+ * Usage: Called by AuthContext.signIn; sets the Supabase session cookies
+ * Security: Enhanced with validation, sanitization, and proper error handling.
+ * Accounts are locked after `max_login_attempts` consecutive failures for
+ * `lockout_duration_minutes` (admin security settings); admins can unlock early.
+ * Sign-ins that bypass this route are only held to the lockout when the
+ * Supabase password verification hook is enabled (AUTH_PASSWORD_HOOK_ENABLED).
+ * Attempts from one IP address are also capped by the `login` rate limit.
+ * Two-factor: when the user has 2FA enabled, a request without `two_factor_code`
+ * is answered with TWO_FACTOR_REQUIRED and no session is kept; the client
+ * resubmits the credentials with the code. Wrong codes count towards the lockout.
+ * Only this route can mark a session as having passed 2FA; the database refuses
+ * requests from sessions that skipped it.
  * 
  * @route POST /api/auth/login
- * @param {NextRequest} request - Contains email and password in JSON body
+ * @param {NextRequest} request - Contains email, password and optional two_factor_code in JSON body
  * @returns {NextResponse} JSON response with authentication result
  */
 export async function POST(request: NextRequest) {
@@ -62,7 +73,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Extract and validate required fields
-    const { email, password } = body;
+    const { email, password, two_factor_code } = body;
 
     // Check for missing required fields
     if (!email && !password) {
@@ -192,20 +203,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Security monitoring and rate limiting preparation
-    const clientIP = request.headers.get('x-forwarded-for') || 
-                    request.headers.get('x-real-ip') || 
-                    'unknown';
+    // Security monitoring and rate limiting
+    const clientIP = getClientIp(request.headers);
     const userAgent = request.headers.get('user-agent') || 'unknown';
     const timestamp = new Date().toISOString();
 
     // Log authentication attempt for security monitoring (include user agent for security analysis)
     console.log(`[AUTH] Login attempt - Email: ${sanitizedEmail.substring(0, 3)}***, IP: ${clientIP}, UA: ${userAgent.substring(0, 50)}..., Time: ${timestamp}`);
 
-    // Create Supabase client for server-side authentication
+    // Security: Rate limit login attempts per client IP (per-account lockout is separate)
+    const rateLimit = await consumeRateLimit('login', clientIP);
+    if (!rateLimit.allowed) {
+      console.warn(`[AUTH] Login rate limit exceeded - IP: ${clientIP}`);
+      return NextResponse.json(
+        { 
+          error: 'Too many login attempts. Please try again later.',
+          code: 'RATE_LIMITED'
+        },
+        { 
+          status: 429, // Too Many Requests
+          headers: {
+            ...securityHeaders,
+            ...rateLimitHeaders(rateLimit)
+          }
+        }
+      );
+    }
+
+    // Create Supabase clients for server-side authentication; lockout
+    // bookkeeping needs the service role
     let supabase;
+    let serviceClient;
     try {
       supabase = await createSupabaseServerClient();
+      serviceClient = createSupabaseServiceClient();
     } catch (supabaseError) {
       console.error('[AUTH] Failed to create Supabase client:', supabaseError);
       return NextResponse.json(
@@ -220,6 +251,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Security: Refuse to authenticate locked accounts
+    const lockedUntil = await getAccountLockout(serviceClient, sanitizedEmail);
+    if (lockedUntil) {
+      console.warn(`[AUTH] Login blocked for locked account - Email: ${sanitizedEmail.substring(0, 3)}***, IP: ${clientIP}`);
+      return lockedResponse(lockedUntil, securityHeaders);
+    }
+
     // Attempt authentication with Supabase
     const { data, error } = await supabase.auth.signInWithPassword({
       email: sanitizedEmail,
@@ -231,6 +269,23 @@ export async function POST(request: NextRequest) {
       // Log failed attempt for security monitoring
       console.warn(`[AUTH] Failed login - Email: ${sanitizedEmail.substring(0, 3)}***, IP: ${clientIP}, Error: ${error.message}`);
       
+      // Security: Count wrong passwords towards the account lockout. With the
+      // password verification hook, Supabase Auth has already counted it and
+      // rejects locked accounts with its own message
+      if (isPasswordHookEnabled()) {
+        const hookLockout = await getAccountLockout(serviceClient, sanitizedEmail);
+        if (hookLockout) {
+          console.warn(`[AUTH] Account locked after repeated failures - Email: ${sanitizedEmail.substring(0, 3)}***, IP: ${clientIP}`);
+          return lockedResponse(hookLockout, securityHeaders);
+        }
+      } else if (error.message === 'Invalid login credentials') {
+        const newLockout = await recordFailedLogin(serviceClient, sanitizedEmail);
+        if (newLockout) {
+          console.warn(`[AUTH] Account locked after repeated failures - Email: ${sanitizedEmail.substring(0, 3)}***, IP: ${clientIP}`);
+          return lockedResponse(newLockout, securityHeaders);
+        }
+      }
+      
       // Handle specific Supabase error cases
       switch (error.message) {
         case 'Invalid login credentials':
@@ -329,6 +384,89 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Security: Second factor challenge for every account with 2FA enabled.
+    // Enrolled users are challenged even if the site setting was turned off
+    // later, as the database refuses their sessions until the factor passes.
+    let twoFactorSetupRequired = false;
+    const securitySettings = await getSecuritySettings();
+    
+    const twoFactor = await getTwoFactorStatus(supabase);
+    
+    if (!twoFactor) {
+      await supabase.auth.signOut({ scope: 'local' });
+      return NextResponse.json(
+        { 
+          error: 'Authentication service unavailable',
+          code: 'SERVICE_UNAVAILABLE'
+        },
+        { 
+          status: 503, // Service Unavailable
+          headers: securityHeaders 
+        }
+      );
+    }
+    
+    if (twoFactor.enabled) {
+      if (!two_factor_code || typeof two_factor_code !== 'string') {
+        // Password was correct; drop the session until the code is supplied
+        await supabase.auth.signOut({ scope: 'local' });
+        return NextResponse.json(
+          { 
+            error: 'Enter the code from your authenticator app',
+            code: 'TWO_FACTOR_REQUIRED',
+            two_factor_required: true
+          },
+          { 
+            status: 401, // Unauthorized
+            headers: securityHeaders 
+          }
+        );
+      }
+      
+      const sessionId = data.session ? getAccessTokenSessionId(data.session.access_token) : null;
+      const codeValid = sessionId !== null && await verifyTwoFactorLogin(
+        serviceClient,
+        data.user.id,
+        sessionId,
+        two_factor_code.trim().substring(0, 32)
+      );
+      
+      if (!codeValid) {
+        console.warn(`[AUTH] Invalid two-factor code - User: ${data.user.id}, IP: ${clientIP}`);
+        await supabase.auth.signOut({ scope: 'local' });
+        
+        const newLockout = await recordFailedLogin(serviceClient, sanitizedEmail);
+        if (newLockout) {
+          console.warn(`[AUTH] Account locked after repeated failures - Email: ${sanitizedEmail.substring(0, 3)}***, IP: ${clientIP}`);
+          return lockedResponse(newLockout, securityHeaders);
+        }
+        
+        return NextResponse.json(
+          { 
+            error: 'Invalid verification code',
+            code: 'INVALID_TWO_FACTOR_CODE',
+            two_factor_required: true
+          },
+          { 
+            status: 401, // Unauthorized
+            headers: securityHeaders 
+          }
+        );
+      }
+    } else if (securitySettings.enable_two_factor && securitySettings.require_two_factor_for_admins) {
+      // Admins may sign in but must enroll before using the admin panel
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', data.user.id)
+        .single();
+      
+      twoFactorSetupRequired = profile?.role === 'admin';
+    }
+
+    // Security: Successful login clears the failed attempt counter
+    await resetFailedLogins(supabase);
+
     // Prepare safe user data (exclude sensitive information)
     const safeUserData = {
       id: data.user.id,
@@ -348,6 +486,7 @@ export async function POST(request: NextRequest) {
       {
         message: 'Login successful',
         user: safeUserData,
+        two_factor_setup_required: twoFactorSetupRequired,
         timestamp: timestamp,
       },
       { 
@@ -401,6 +540,29 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Build the response for a locked account
+ * Returns 423 Locked with Retry-After set to the remaining lockout time
+ */
+function lockedResponse(lockedUntil: Date, securityHeaders: Record<string, string>) {
+  const retryAfterSeconds = Math.max(Math.ceil((lockedUntil.getTime() - Date.now()) / 1000), 1);
+
+  return NextResponse.json(
+    { 
+      error: 'Too many failed login attempts. Your account is temporarily locked.',
+      code: 'ACCOUNT_LOCKED',
+      locked_until: lockedUntil.toISOString(),
+    },
+    { 
+      status: 423, // Locked
+      headers: {
+        ...securityHeaders,
+        'Retry-After': retryAfterSeconds.toString(),
+      }
+    }
+  );
+}
+
 /**
  * Handle unsupported HTTP methods
  * Returns 405 Method Not Allowed for non-POST requests
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { validateRegistrationPolicy } from '@/lib/auth-policy';
 
 // Force dynamic rendering for API routes that use cookies
 export const dynamic = 'force-dynamic';
@@ -7,13 +8,10 @@ export const dynamic = 'force-dynamic';
 /**
  * Registration API Route Handler
  * 
- * ⚠️  SECURITY NOTICE: This API route is LEGACY and currently UNUSED.
- * The application uses direct Supabase client authentication via AuthContext.
- * Consider removing this route to reduce attack surface.
- * 
  * Purpose: Register new users with email/password
- * Usage: Currently not used by any components (legacy endpoint)
- * Security: Enhanced with comprehensive validation and sanitized responses
+ * Usage: Called by AuthContext.signUp so the admin policies are enforced server-side
+ * Security: Validates against the live `security` and `email_validation` settings
+ * (allowed domains, disposable domains, custom pattern, password length/complexity)
  * 
  * @route POST /api/auth/register
  * @param {NextRequest} request - Contains email and password in JSON body
@@ -42,22 +40,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Enhanced password security validation
-    if (password.length < 8) {
+    // Password length upper bound (prevent memory exhaustion attacks)
+    if (password.length > 128) {
       return NextResponse.json(
-        { error: 'Password must be at least 8 characters long' },
+        { error: 'Password is too long', code: 'PASSWORD_TOO_LONG' },
         { status: 400 }
       );
     }
 
-    // Password strength validation
-    const hasUpperCase = /[A-Z]/.test(password);
-    const hasLowerCase = /[a-z]/.test(password);
-    const hasNumbers = /\d/.test(password);
-
-    if (!hasUpperCase || !hasLowerCase || !hasNumbers) {
+    // Enforce the admin-configured email and password policy
+    const policyResult = await validateRegistrationPolicy(email.toLowerCase().trim(), password);
+    if (!policyResult.isValid) {
       return NextResponse.json(
-        { error: 'Password must contain at least one uppercase letter, one lowercase letter, and one number' },
+        { error: policyResult.error, code: policyResult.code },
         { status: 400 }
       );
     }
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+/**
+ * OpenAPI Document Route Handler
+ *
+ * Serves the OpenAPI 3.1 description of the /api/v1 polls API, generated
+ * from the request and response schemas the handlers validate with. A
+ * readable version is at /docs/api.
+ *
+ * @route GET /api/openapi.json
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin), {
+    headers: {
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'public, max-age=300',
+      // Let API tools and code generators load the document from other origins
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
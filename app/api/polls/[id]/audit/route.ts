@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { getResultsClient } from '@/lib/poll-results';
+import { getClientIp } from '@/lib/client-ip';
+import {
+  countByOption,
+  getVoteAuditLog,
+  tallyVoteEvents,
+  talliesMatch,
+  verifyVoteEventChain,
+  VOTE_EVENT_HASH_ALGORITHM,
+} from '@/lib/vote-audit';
+
+/**
+ * Vote Audit API Route Handler
+ *
+ * Publishes a poll's tamper-evident vote log: the hash chain head, and for
+ * viewers allowed to see results, the anonymized event list with a replayed
+ * tally. The response is self-contained so anyone can recompute the chain
+ * and tally independently and compare them with the published results.
+ *
+ * @route GET /api/polls/[id]/audit
+ */
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+const isValidUUID = (uuid: string): boolean => {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(uuid);
+};
+
+/**
+ * GET /api/polls/[id]/audit - Vote Audit Log
+ *
+ * @param request - NextRequest (client IP identifies anonymous voters for after_vote polls)
+ * @param params - Route parameters containing poll ID
+ * @returns Chain head, events, tallies and verification result
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = crypto.randomUUID();
+
+  const securityHeaders = {
+    'X-Content-Type-Options': 'nosniff',
+    'X-Frame-Options': 'DENY',
+    'Cache-Control': 'private, no-store',
+  };
+
+  try {
+    const { id: pollId } = await params;
+
+    if (!isValidUUID(pollId)) {
+      return NextResponse.json(
+        { error: 'Invalid poll ID format', code: 'INVALID_UUID_FORMAT' },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
+    const clientIP = getClientIp(request.headers);
+
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+    const voterIP = session ? undefined : clientIP;
+    const auditLog = await getVoteAuditLog(supabase, pollId, voterIP);
+
+    if (!auditLog) {
+      return NextResponse.json(
+        { error: 'Poll not found', code: 'POLL_NOT_FOUND' },
+        { status: 404, headers: securityHeaders }
+      );
+    }
+
+    const head = { sequence_number: auditLog.event_count, hash: auditLog.head_hash };
+
+    // Results are hidden from this viewer, so only the chain head is published
+    if (!auditLog.events) {
+      return NextResponse.json({
+        poll_id: pollId,
+        head,
+        events: null,
+        results_hidden: true,
+        hash_algorithm: VOTE_EVENT_HASH_ALGORITHM,
+      }, { headers: securityHeaders });
+    }
+
+    const { data: publishedVotes, error: votesError } = await getResultsClient(supabase, voterIP)
+      .from('votes')
+      .select('option_id, rank')
+      .eq('poll_id', pollId);
+
+    if (votesError) {
+      console.error(`[VOTE] Audit tally fetch failed - RequestID: ${requestId}, PollID: ${pollId}:`, votesError);
+      return NextResponse.json(
+        { error: 'Failed to load published results', code: 'AUDIT_FAILED' },
+        { status: 500, headers: securityHeaders }
+      );
+    }
+
+    const chain = verifyVoteEventChain(pollId, auditLog.events, auditLog.head_hash);
+    const recomputed = tallyVoteEvents(auditLog.events);
+    const published = countByOption(publishedVotes || []);
+    const tallyMatches = talliesMatch(recomputed, published);
+
+    if (!chain.valid || !tallyMatches) {
+      console.error(`[VOTE] Audit verification failed - RequestID: ${requestId}, PollID: ${pollId}, ChainValid: ${chain.valid}, BrokenAt: ${chain.brokenAt}, TallyMatches: ${tallyMatches}`);
+    }
+
+    return NextResponse.json({
+      poll_id: pollId,
+      head,
+      events: auditLog.events,
+      results_hidden: false,
+      hash_algorithm: VOTE_EVENT_HASH_ALGORITHM,
+      tally: {
+        published,
+        recomputed,
+      },
+      verification: {
+        chain_valid: chain.valid,
+        broken_at: chain.brokenAt,
+        tally_matches: tallyMatches,
+      },
+    }, { headers: securityHeaders });
+  } catch (error) {
+    console.error(`[VOTE] Audit error - RequestID: ${requestId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to load vote audit log', code: 'AUDIT_FAILED' },
+      { status: 500, headers: securityHeaders }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiAuthErrorResponse, authenticateRequest } from '@/lib/api-auth';
+import { getPollExportFileName, loadPollExport, serializePollExport } from '@/lib/poll-export';
+import { ExportPollQuerySchema, parseApiInput } from '@/lib/api-schemas';
+
+/**
+ * Poll Export API Route Handler
+ *
+ * Downloads a poll's per-option totals and per-vote timeline. Only the poll's
+ * creator and admins may export; voter IPs are never included and anonymous
+ * polls omit voter names (see lib/poll-export.ts).
+ *
+ * @route GET /api/polls/[id]/export?format=csv|json|xlsx
+ */
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+const isValidUUID = (uuid: string): boolean => {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(uuid);
+};
+
+/**
+ * GET /api/polls/[id]/export - Export Poll Results
+ *
+ * @param request - NextRequest with optional `format` query (default csv)
+ * @param params - Route parameters containing poll ID
+ * @returns File download or error details
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = crypto.randomUUID();
+
+  const securityHeaders = {
+    'X-Content-Type-Options': 'nosniff',
+    'X-Frame-Options': 'DENY',
+    'Cache-Control': 'private, no-store',
+  };
+
+  try {
+    const { id: pollId } = await params;
+
+    if (!isValidUUID(pollId)) {
+      return NextResponse.json(
+        { error: 'Invalid poll ID format', code: 'INVALID_UUID_FORMAT' },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
+    const query = parseApiInput(ExportPollQuerySchema, {
+      format: request.nextUrl.searchParams.get('format') || undefined,
+    });
+    if (!query.success) {
+      return NextResponse.json(
+        { error: query.error, code: query.code },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
+    const { format } = query.data;
+
+    const { supabase, userId } = await authenticateRequest(request, 'read');
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401, headers: securityHeaders }
+      );
+    }
+
+    const data = await loadPollExport(supabase, pollId);
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Poll not found', code: 'POLL_NOT_FOUND' },
+        { status: 404, headers: securityHeaders }
+      );
+    }
+
+    // Security: Only the creator or an admin may download vote timelines
+    if (data.poll.creator_id !== userId) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', userId)
+        .single();
+
+      if (profile?.role !== 'admin') {
+        console.warn(`[POLLS] Unauthorized export attempt - RequestID: ${requestId}, UserID: ${userId}, PollID: ${pollId}`);
+        return NextResponse.json(
+          { error: 'You can only export your own polls', code: 'UNAUTHORIZED_EXPORT' },
+          { status: 403, headers: securityHeaders }
+        );
+      }
+    }
+
+    const { body, contentType } = serializePollExport(data, format);
+    const fileName = getPollExportFileName(data, format);
+
+    console.log(`[POLLS] Poll exported - RequestID: ${requestId}, PollID: ${pollId}, Format: ${format}`);
+
+    return new NextResponse(typeof body === 'string' ? body : new Uint8Array(body), {
+      headers: {
+        ...securityHeaders,
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    const authResponse = apiAuthErrorResponse(error, securityHeaders);
+    if (authResponse) return authResponse;
+
+    console.error(`[POLLS] Export error - RequestID: ${requestId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to export poll', code: 'EXPORT_FAILED' },
+      { status: 500, headers: securityHeaders }
+    );
+  }
+}
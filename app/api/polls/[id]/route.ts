@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseServerClient } from '@/lib/supabase-server'; // Security: Use modern server client instead of legacy auth-helpers
+import { apiAuthErrorResponse, authenticateRequest } from '@/lib/api-auth';
+import { canViewPollResults, getResultsClient } from '@/lib/poll-results';
+import { getClientIp } from '@/lib/client-ip';
+import { emitWebhookEvent } from '@/lib/webhook-events';
+import { getPollAccessStatus } from '@/lib/poll-access';
+import { validatePollSchedule } from '@/lib/poll-schedule';
+import { applyPollEdit, PollEdit } from '@/lib/poll-revisions';
+import { POLL_TAG_COLUMNS, sortPollTags } from '@/lib/poll-tags';
+import { parseApiInput, sanitizeApiText, UpdatePollRequestSchema } from '@/lib/api-schemas';
+import { ApiPollDetail } from '@/types/database';
 
 /**
  * Individual Poll API Route Handler - Enterprise Security Implementation
@@ -11,9 +20,10 @@ import { createSupabaseServerClient } from '@/lib/supabase-server'; // Security:
  * - Input validation and sanitization for XSS prevention
  * - Rate limiting and abuse prevention
  * - Comprehensive audit logging
+ * - Request bodies validated against lib/api-schemas.ts (published at /api/openapi.json)
  * 
  * @route GET /api/polls/[id] - Fetch individual poll with vote counts
- * @route PUT /api/polls/[id] - Update poll (creator only)
+ * @route PUT /api/polls/[id] - Update poll (creator only; title, description and option edits are versioned)
  * @route DELETE /api/polls/[id] - Delete poll (creator only)
  */
 
@@ -24,11 +34,6 @@ interface RouteParams {
   }>;
 }
 
-// Security: Input sanitization utilities
-const sanitizeInput = (input: string): string => {
-  return input.replace(/[<>&'"]/g, '').trim();
-};
-
 // Security: Validate UUID format to prevent injection
 const isValidUUID = (uuid: string): boolean => {
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -42,6 +47,7 @@ const isValidUUID = (uuid: string): boolean => {
  * - UUID validation to prevent injection attacks
  * - Data leakage protection with selective field exposure
  * - Vote count calculation with privacy protection
+ * - Vote counts withheld when results_visibility hides them from the caller
  * - User vote tracking with authorization checks
  * - Comprehensive error handling and logging
  * 
@@ -57,7 +63,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     'X-Content-Type-Options': 'nosniff',
     'X-Frame-Options': 'DENY',
     'X-XSS-Protection': '1; mode=block',
-    'Cache-Control': 'public, max-age=30', // Cache for 30 seconds
+    'Cache-Control': 'private, max-age=30', // Per-viewer: results visibility and user votes vary
   };
 
   try {
@@ -79,12 +85,15 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Security: Create Supabase client with error handling
+    // Security: Authenticate by session cookie or API key (read scope)
     let supabase;
+    let userId: string | null;
     try {
-      supabase = await createSupabaseServerClient();
-    } catch (supabaseError) {
-      console.error(`[POLLS] Supabase client creation failed - RequestID: ${requestId}:`, supabaseError);
+      ({ supabase, userId } = await authenticateRequest(request, 'read'));
+    } catch (authError) {
+      const authResponse = apiAuthErrorResponse(authError, securityHeaders);
+      if (authResponse) return authResponse;
+      console.error(`[POLLS] Supabase client creation failed - RequestID: ${requestId}:`, authError);
       return NextResponse.json(
         { error: 'Database service unavailable', code: 'SERVICE_UNAVAILABLE' },
         { status: 503, headers: securityHeaders }
@@ -104,16 +113,34 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         creator_id,
         is_active,
         allow_multiple_choices,
+        poll_type,
+        results_visibility,
+        visibility,
+        status,
+        opens_at,
         expires_at,
         created_at,
         updated_at,
         creator:profiles(id, username, avatar_url),
-        options:poll_options(id, text, order_index)
+        options:poll_options(id, text, order_index),
+        tags(${POLL_TAG_COLUMNS})
       `)
       .eq('id', pollId)
       .single();
 
     if (error || !poll) {
+      // Security: RLS hides private polls from ineligible callers; report which case applies
+      const accessStatus = await getPollAccessStatus(supabase, pollId);
+      if (accessStatus === 'sign_in_required' || accessStatus === 'not_eligible') {
+        console.warn(`[POLLS] Private poll access denied - RequestID: ${requestId}, PollID: ${pollId}, Status: ${accessStatus}`);
+        return NextResponse.json(
+          accessStatus === 'sign_in_required'
+            ? { error: 'This poll is private. Please sign in with an eligible account.', code: 'PRIVATE_POLL_SIGN_IN_REQUIRED' }
+            : { error: 'You are not an eligible voter for this private poll', code: 'NOT_ELIGIBLE_VOTER' },
+          { status: accessStatus === 'sign_in_required' ? 401 : 403, headers: securityHeaders }
+        );
+      }
+
       console.warn(`[POLLS] Poll not found - RequestID: ${requestId}, PollID: ${pollId}`);
       return NextResponse.json(
         { error: 'Poll not found', code: 'POLL_NOT_FOUND' },
@@ -122,8 +149,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     }
 
     // Security: Check if poll is accessible (active or user is creator)
-    const { data: { session } } = await supabase.auth.getSession();
-    const isCreator = session?.user?.id === poll.creator_id;
+    const isCreator = !!userId && userId === poll.creator_id;
     
     if (!poll.is_active && !isCreator) {
       return NextResponse.json(
@@ -132,11 +158,17 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Security: Results may be hidden until the caller votes or the poll closes
+    const voterIP = userId ? undefined : getClientIp(request.headers);
+    const resultsVisible = await canViewPollResults(supabase, pollId, voterIP);
+
     // Security: Get vote counts with parameterized queries to prevent injection
-    const { data: voteCounts, error: voteError } = await supabase
-      .from('votes')
-      .select('option_id')
-      .eq('poll_id', pollId);
+    const { data: voteCounts, error: voteError } = resultsVisible
+      ? await getResultsClient(supabase, voterIP)
+        .from('votes')
+        .select('option_id')
+        .eq('poll_id', pollId)
+      : { data: null, error: null };
 
     if (voteError) {
       console.error(`[POLLS] Vote count fetch failed - RequestID: ${requestId}, PollID: ${pollId}:`, voteError);
@@ -148,17 +180,19 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       id: option.id,
       text: option.text,
       order_index: option.order_index,
-      vote_count: voteCounts?.filter((v: { option_id: string }) => v.option_id === option.id).length || 0,
+      vote_count: resultsVisible
+        ? voteCounts?.filter((v: { option_id: string }) => v.option_id === option.id).length || 0
+        : null,
     }));
 
     // Security: Check user votes only if authenticated
     let userVotes: string[] = [];
-    if (session?.user) {
+    if (userId) {
       const { data: votes, error: userVoteError } = await supabase
         .from('votes')
         .select('option_id')
         .eq('poll_id', pollId)
-        .eq('user_id', session.user.id);
+        .eq('user_id', userId);
       
       if (userVoteError) {
         console.error(`[POLLS] User vote fetch failed - RequestID: ${requestId}, PollID: ${pollId}:`, userVoteError);
@@ -169,13 +203,18 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     }
 
     // Security: Construct safe poll response
-    const pollWithData = {
+    const pollWithData: ApiPollDetail = {
       id: poll.id,
       title: poll.title,
       description: poll.description,
       creator_id: poll.creator_id,
       is_active: poll.is_active,
       allow_multiple_choices: poll.allow_multiple_choices,
+      poll_type: poll.poll_type,
+      results_visibility: poll.results_visibility,
+      visibility: poll.visibility,
+      status: poll.status,
+      opens_at: poll.opens_at,
       expires_at: poll.expires_at,
       created_at: poll.created_at,
       updated_at: poll.updated_at,
@@ -186,7 +225,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         // Security: Explicitly exclude sensitive creator data
       } : null,
       options: optionsWithCounts.sort((a, b) => a.order_index - b.order_index),
-      total_votes: voteCounts?.length || 0,
+      total_votes: resultsVisible ? voteCounts?.length || 0 : null,
+      results_hidden: !resultsVisible,
+      tags: sortPollTags(poll.tags),
       user_votes: userVotes,
       is_expired: poll.expires_at ? new Date(poll.expires_at) < new Date() : false,
     };
@@ -253,47 +294,28 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const { title, description, is_active, expires_at } = body;
-
-    // Security: Validate title if provided
-    if (title !== undefined) {
-      if (!title || typeof title !== 'string' || title.trim().length === 0) {
-        return NextResponse.json(
-          { error: 'Title must be a non-empty string', code: 'INVALID_TITLE' },
-          { status: 400, headers: securityHeaders }
-        );
-      }
-
-      if (title.length > 200) {
-        return NextResponse.json(
-          { error: 'Title must be 200 characters or less', code: 'TITLE_TOO_LONG' },
-          { status: 400, headers: securityHeaders }
-        );
-      }
-    }
-
-    // Security: Validate description if provided
-    if (description !== undefined && description !== null && typeof description === 'string' && description.length > 1000) {
+    // Security: Validate the body against the published request schema
+    const parsed = parseApiInput(UpdatePollRequestSchema, body);
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Description must be 1000 characters or less', code: 'DESCRIPTION_TOO_LONG' },
+        { error: parsed.error, code: parsed.code },
         { status: 400, headers: securityHeaders }
       );
     }
 
-    // Security: Validate expires_at if provided
-    if (expires_at && isNaN(Date.parse(expires_at))) {
+    const { title, description, options, is_active, expires_at, results_visibility, visibility, status, opens_at } = parsed.data;
+
+    const scheduleError = opens_at ? validatePollSchedule(opens_at, expires_at) : null;
+    if (scheduleError) {
       return NextResponse.json(
-        { error: 'Invalid expiration date format', code: 'INVALID_EXPIRATION_DATE' },
+        { error: scheduleError, code: 'INVALID_OPENS_AT' },
         { status: 400, headers: securityHeaders }
       );
     }
 
-    // Security: Create Supabase client
-    const supabase = await createSupabaseServerClient();
-
-    // Security: Get authenticated user
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session?.user) {
+    // Security: Authenticate by session cookie or API key (write scope)
+    const { supabase, userId } = await authenticateRequest(request, 'write');
+    if (!userId) {
       return NextResponse.json(
         { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
         { status: 401, headers: securityHeaders }
@@ -303,7 +325,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     // Security: Verify poll exists and user is creator
     const { data: existingPoll, error: fetchError } = await supabase
       .from('polls')
-      .select('id, creator_id, title')
+      .select('id, creator_id, title, status, is_active')
       .eq('id', pollId)
       .single();
 
@@ -314,20 +336,58 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    if (existingPoll.creator_id !== session.user.id) {
-      console.warn(`[POLLS] Unauthorized update attempt - RequestID: ${requestId}, UserID: ${session.user.id}, PollID: ${pollId}`);
+    if (existingPoll.creator_id !== userId) {
+      console.warn(`[POLLS] Unauthorized update attempt - RequestID: ${requestId}, UserID: ${userId}, PollID: ${pollId}`);
       return NextResponse.json(
         { error: 'You can only update your own polls', code: 'UNAUTHORIZED_UPDATE' },
         { status: 403, headers: securityHeaders }
       );
     }
 
+    // Published polls may already have votes, so they cannot go back to draft
+    if (status === 'draft' && existingPoll.status === 'published') {
+      return NextResponse.json(
+        { error: 'A published poll cannot be turned back into a draft', code: 'CANNOT_UNPUBLISH' },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
+    // Versioned edits: title, description and options are recorded as a revision
+    let revision = null;
+    if (title !== undefined || description !== undefined || options !== undefined) {
+      const edit: PollEdit = {};
+      if (title !== undefined) edit.title = sanitizeApiText(title);
+      if (description !== undefined) edit.description = description ? sanitizeApiText(description) : null;
+      if (options !== undefined) {
+        edit.options = options.map(option => ({
+          id: option.id,
+          text: sanitizeApiText(option.text),
+        }));
+      }
+
+      const editResult = await applyPollEdit(supabase, pollId, edit);
+      if (!editResult.success) {
+        return NextResponse.json(
+          { error: editResult.error, code: 'EDIT_FAILED' },
+          { status: 400, headers: securityHeaders }
+        );
+      }
+
+      revision = {
+        changed: editResult.changed,
+        revision_number: editResult.revisionNumber,
+        invalidated_votes: editResult.invalidatedVotes,
+      };
+    }
+
     // Security: Build update data with sanitization
     const updateData: Record<string, unknown> = {};
-    if (title !== undefined) updateData.title = sanitizeInput(title.trim());
-    if (description !== undefined) updateData.description = description ? sanitizeInput(description.trim()) : null;
     if (is_active !== undefined) updateData.is_active = Boolean(is_active);
     if (expires_at !== undefined) updateData.expires_at = expires_at || null;
+    if (results_visibility !== undefined) updateData.results_visibility = results_visibility;
+    if (visibility !== undefined) updateData.visibility = visibility;
+    if (status !== undefined) updateData.status = status;
+    if (opens_at !== undefined) updateData.opens_at = opens_at || null;
     updateData.updated_at = new Date().toISOString();
 
     // Security: Update poll
@@ -350,16 +410,28 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Publishing, closing and reopening are reported to webhooks
+    if (status === 'published' && existingPoll.status === 'draft') {
+      await emitWebhookEvent('poll.created', pollId, { userId });
+    }
+    if (is_active !== undefined && Boolean(is_active) !== existingPoll.is_active) {
+      await emitWebhookEvent(is_active ? 'poll.reopened' : 'poll.closed', pollId, { userId });
+    }
+
     // Security: Log update for audit trail
-    console.log(`[POLLS] Poll updated successfully - RequestID: ${requestId}, PollID: ${pollId}, UserID: ${session.user.id}`);
+    console.log(`[POLLS] Poll updated successfully - RequestID: ${requestId}, PollID: ${pollId}, UserID: ${userId}`);
 
     return NextResponse.json({
       message: 'Poll updated successfully',
       poll: updatedPoll,
+      revision,
       requestId
     }, { headers: securityHeaders });
 
   } catch (error) {
+    const authResponse = apiAuthErrorResponse(error, securityHeaders);
+    if (authResponse) return authResponse;
+
     console.error(`[POLLS] Unexpected error during poll update - RequestID: ${requestId}:`, error);
     return NextResponse.json(
       { error: 'Internal server error', code: 'INTERNAL_ERROR', requestId },
@@ -402,12 +474,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Security: Create Supabase client
-    const supabase = await createSupabaseServerClient();
-
-    // Security: Get authenticated user
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session?.user) {
+    // Security: Authenticate by session cookie or API key (write scope)
+    const { supabase, userId } = await authenticateRequest(request, 'write');
+    if (!userId) {
       return NextResponse.json(
         { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
         { status: 401, headers: securityHeaders }
@@ -428,8 +497,8 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    if (existingPoll.creator_id !== session.user.id) {
-      console.warn(`[POLLS] Unauthorized deletion attempt - RequestID: ${requestId}, UserID: ${session.user.id}, PollID: ${pollId}`);
+    if (existingPoll.creator_id !== userId) {
+      console.warn(`[POLLS] Unauthorized deletion attempt - RequestID: ${requestId}, UserID: ${userId}, PollID: ${pollId}`);
       return NextResponse.json(
         { error: 'You can only delete your own polls', code: 'UNAUTHORIZED_DELETION' },
         { status: 403, headers: securityHeaders }
@@ -465,7 +534,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
 
     // Security: Log deletion for audit trail
-    console.log(`[POLLS] Poll deleted successfully - RequestID: ${requestId}, PollID: ${pollId}, UserID: ${session.user.id}, HadVotes: ${hasVotes}`);
+    console.log(`[POLLS] Poll deleted successfully - RequestID: ${requestId}, PollID: ${pollId}, UserID: ${userId}, HadVotes: ${hasVotes}`);
 
     return NextResponse.json({
       message: 'Poll deleted successfully',
@@ -475,6 +544,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }, { headers: securityHeaders });
 
   } catch (error) {
+    const authResponse = apiAuthErrorResponse(error, securityHeaders);
+    if (authResponse) return authResponse;
+
     console.error(`[POLLS] Unexpected error during poll deletion - RequestID: ${requestId}:`, error);
     return NextResponse.json(
       { error: 'Internal server error', code: 'INTERNAL_ERROR', requestId },
@@ -11,18 +11,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseServerClient } from '@/lib/supabase-server';
-
-/**
- * Security Configuration for Voting
- */
-const VOTE_SECURITY_CONFIG = {
-  MAX_OPTIONS_PER_VOTE: 10,
-  RATE_LIMIT_WINDOW_MS: 60000, // 1 minute
-  RATE_LIMIT_MAX_VOTES: 3,
-  IP_VALIDATION_ENABLED: true,
-  AUDIT_LOGGING_ENABLED: true,
-} as const;
+import { apiAuthErrorResponse, authenticateRequest } from '@/lib/api-auth';
+import { getGeneralSettings } from '@/lib/app-settings';
+import { canViewPollResults, getResultsClient, getVoterVotes } from '@/lib/poll-results';
+import { getPollAccessStatus } from '@/lib/poll-access';
+import { isPollScheduled } from '@/lib/poll-schedule';
+import { consumeRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/client-ip';
+import { emitWebhookEvent } from '@/lib/webhook-events';
+import { buildBallots } from '@/lib/ranked-choice';
+import { parseApiInput, VoteRequestSchema } from '@/lib/api-schemas';
+import { VoteResponse } from '@/types/database';
 
 /**
  * Security utilities for vote processing
@@ -40,11 +39,7 @@ const VoteSecurity = {
    * Extracts and validates IP address from request headers
    */
   extractClientIP: (request: NextRequest): string => {
-    const forwardedFor = request.headers.get('x-forwarded-for');
-    const realIP = request.headers.get('x-real-ip');
-    const connIP = request.headers.get('x-forwarded-for');
-    
-    let clientIP = forwardedFor?.split(',')[0]?.trim() || realIP || connIP || '127.0.0.1';
+    let clientIP = getClientIp(request.headers);
     
     // Security: Validate IP format to prevent header injection
     const ipv4Regex = /^(\d{1,3}\.){3}\d{1,3}$/;
@@ -92,13 +87,6 @@ interface RouteParams {
   }>;
 }
 
-/**
- * Vote request body interface for validation
- */
-interface VoteRequestBody {
-  option_ids: string[];
-}
-
 /**
  * POST /api/polls/[id]/vote - Submit Vote
  * 
@@ -145,7 +133,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const requestFingerprint = VoteSecurity.generateRequestFingerprint(request);
 
     // Security: Parse and validate request body
-    let body: VoteRequestBody;
+    let body: unknown;
     try {
       body = await request.json();
     } catch {
@@ -155,42 +143,29 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const { option_ids } = body;
-
-    // Security: Validate option_ids array
-    if (!option_ids || !Array.isArray(option_ids) || option_ids.length === 0) {
+    // Security: Validate option ids and ballot size against the published request schema
+    const parsed = parseApiInput(VoteRequestSchema, body);
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'At least one option must be selected', code: 'NO_OPTIONS_SELECTED' },
+        { error: parsed.error, code: parsed.code },
         { status: 400, headers: securityHeaders }
       );
     }
 
-    // Security: Prevent DoS through excessive options
-    if (option_ids.length > VOTE_SECURITY_CONFIG.MAX_OPTIONS_PER_VOTE) {
-      return NextResponse.json(
-        { error: `Maximum ${VOTE_SECURITY_CONFIG.MAX_OPTIONS_PER_VOTE} options allowed`, code: 'TOO_MANY_OPTIONS' },
-        { status: 400, headers: securityHeaders }
-      );
-    }
-
-    // Security: Validate each option ID format
-    for (const optionId of option_ids) {
-      if (!optionId || typeof optionId !== 'string' || !VoteSecurity.isValidUUID(optionId)) {
-        return NextResponse.json(
-          { error: 'Invalid option ID format', code: 'INVALID_OPTION_ID' },
-          { status: 400, headers: securityHeaders }
-        );
-      }
-    }
+    const { option_ids } = parsed.data;
 
     // Security: Remove duplicate option IDs
     const uniqueOptionIds = Array.from(new Set(option_ids));
 
-    // Security: Create Supabase client with error handling
+    // Security: Authenticate by API key or session cookie (anonymous voters have neither)
     let supabase;
+    let userId: string | null;
     try {
-      supabase = await createSupabaseServerClient();
+      ({ supabase, userId } = await authenticateRequest(request, 'write'));
     } catch (supabaseError) {
+      const authResponse = apiAuthErrorResponse(supabaseError, securityHeaders);
+      if (authResponse) return authResponse;
+
       console.error(`[VOTE] Supabase client creation failed - RequestID: ${requestId}:`, supabaseError);
       return NextResponse.json(
         { error: 'Database service unavailable', code: 'SERVICE_UNAVAILABLE' },
@@ -204,11 +179,23 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Security: Fetch poll with comprehensive validation
     const { data: poll, error: pollError } = await supabase
       .from('polls')
-      .select('id, is_active, allow_multiple_choices, expires_at, creator_id')
+      .select('id, is_active, status, opens_at, allow_multiple_choices, poll_type, expires_at, creator_id')
       .eq('id', pollId)
       .single();
 
     if (pollError || !poll) {
+      // Security: RLS hides private polls from ineligible callers; report which case applies
+      const accessStatus = await getPollAccessStatus(supabase, pollId);
+      if (accessStatus === 'sign_in_required' || accessStatus === 'not_eligible') {
+        console.warn(`[VOTE] Private poll access denied - RequestID: ${requestId}, PollID: ${pollId}, Status: ${accessStatus}`);
+        return NextResponse.json(
+          accessStatus === 'sign_in_required'
+            ? { error: 'This poll is private. Please sign in with an eligible account.', code: 'PRIVATE_POLL_SIGN_IN_REQUIRED' }
+            : { error: 'You are not an eligible voter for this private poll', code: 'NOT_ELIGIBLE_VOTER' },
+          { status: accessStatus === 'sign_in_required' ? 401 : 403, headers: securityHeaders }
+        );
+      }
+
       console.warn(`[VOTE] Poll not found - RequestID: ${requestId}, PollID: ${pollId}`);
       return NextResponse.json(
         { error: 'Poll not found', code: 'POLL_NOT_FOUND' },
@@ -216,6 +203,21 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Security: Drafts and scheduled polls do not accept votes yet
+    if (poll.status === 'draft') {
+      return NextResponse.json(
+        { error: 'Poll has not been published', code: 'POLL_DRAFT' },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
+    if (isPollScheduled(poll)) {
+      return NextResponse.json(
+        { error: 'Voting has not opened yet', code: 'POLL_NOT_OPEN', opens_at: poll.opens_at },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
     // Security: Validate poll status
     if (!poll.is_active) {
       return NextResponse.json(
@@ -232,8 +234,26 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Open-ended polls have no options to vote for
+    if (poll.poll_type === 'text') {
+      return NextResponse.json(
+        { error: 'Text polls are answered with a written response', code: 'TEXT_POLL' },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
+    const isRanked = poll.poll_type === 'ranked';
+
+    // Security: Ranked ballots must not repeat an option
+    if (isRanked && uniqueOptionIds.length !== option_ids.length) {
+      return NextResponse.json(
+        { error: 'Each option can only be ranked once', code: 'DUPLICATE_RANK' },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
     // Security: Validate multiple choice rules
-    if (!poll.allow_multiple_choices && uniqueOptionIds.length > 1) {
+    if (!isRanked && !poll.allow_multiple_choices && uniqueOptionIds.length > 1) {
       return NextResponse.json(
         { error: 'This poll only allows one choice', code: 'SINGLE_CHOICE_ONLY' },
         { status: 400, headers: securityHeaders }
@@ -255,51 +275,52 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Security: Get authenticated user session
-    const { data: { session } } = await supabase.auth.getSession();
-
-    // Security: Comprehensive duplicate vote prevention
-    if (session?.user) {
-      // Authenticated user - check by user ID
-      const { data: existingUserVotes, error: userVoteError } = await supabase
-        .from('votes')
-        .select('id')
-        .eq('poll_id', pollId)
-        .eq('user_id', session.user.id)
-        .limit(1);
-
-      if (userVoteError) {
-        console.error(`[VOTE] User vote check failed - RequestID: ${requestId}:`, userVoteError);
+    // Security: Anonymous voting can be disabled by admins
+    if (!userId) {
+      const generalSettings = await getGeneralSettings();
+      if (!generalSettings.allow_anonymous_voting) {
+        console.warn(`[VOTE] Anonymous vote rejected - RequestID: ${requestId}, PollID: ${pollId}, IP: ${clientIP}`);
         return NextResponse.json(
-          { error: 'Vote validation failed', code: 'VOTE_VALIDATION_ERROR' },
-          { status: 500, headers: securityHeaders }
+          { error: 'Authentication required to vote', code: 'ANONYMOUS_VOTING_DISABLED' },
+          { status: 401, headers: securityHeaders }
         );
       }
+    }
 
-      if (existingUserVotes && existingUserVotes.length > 0) {
+    // Security: Rate limit votes per user, or per IP for anonymous voters
+    const rateLimit = await consumeRateLimit('vote', userId || clientIP);
+    if (!rateLimit.allowed) {
+      console.warn(`[VOTE] Rate limit exceeded - RequestID: ${requestId}, PollID: ${pollId}, UserID: ${userId || 'anonymous'}, IP: ${clientIP}`);
+      return NextResponse.json(
+        { error: 'Too many votes. Please try again later.', code: 'RATE_LIMIT_EXCEEDED' },
+        { status: 429, headers: { ...securityHeaders, ...rateLimitHeaders(rateLimit) } }
+      );
+    }
+
+    // Security: Comprehensive duplicate vote prevention
+    // (looked up through get_voter_votes so hidden results don't mask prior votes)
+    let existingVotes;
+    try {
+      existingVotes = await getVoterVotes(supabase, pollId, userId ? undefined : clientIP);
+    } catch (existingVoteError) {
+      console.error(`[VOTE] Existing vote check failed - RequestID: ${requestId}:`, existingVoteError);
+      return NextResponse.json(
+        { error: 'Vote validation failed', code: 'VOTE_VALIDATION_ERROR' },
+        { status: 500, headers: securityHeaders }
+      );
+    }
+
+    if (userId) {
+      // Authenticated user - checked by user ID
+      if (existingVotes.length > 0) {
         return NextResponse.json(
           { error: 'You have already voted on this poll', code: 'ALREADY_VOTED_USER' },
           { status: 400, headers: securityHeaders }
         );
       }
     } else {
-      // Anonymous user - check by IP address and fingerprint
-      const { data: existingIPVotes, error: ipVoteError } = await supabase
-        .from('votes')
-        .select('id')
-        .eq('poll_id', pollId)
-        .eq('ip_address', clientIP)
-        .limit(1);
-
-      if (ipVoteError) {
-        console.error(`[VOTE] IP vote check failed - RequestID: ${requestId}:`, ipVoteError);
-        return NextResponse.json(
-          { error: 'Vote validation failed', code: 'VOTE_VALIDATION_ERROR' },
-          { status: 500, headers: securityHeaders }
-        );
-      }
-
-      if (existingIPVotes && existingIPVotes.length > 0) {
+      // Anonymous user - checked by IP address
+      if (existingVotes.length > 0) {
         return NextResponse.json(
           { error: 'This IP address has already voted on this poll', code: 'ALREADY_VOTED_IP' },
           { status: 400, headers: securityHeaders }
@@ -308,12 +329,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     // Security: Create vote records with comprehensive tracking
-    const voteRecords = uniqueOptionIds.map((optionId: string) => ({
+    const voteRecords = uniqueOptionIds.map((optionId: string, index: number) => ({
       poll_id: pollId,
       option_id: optionId,
-      user_id: session?.user?.id || null,
-      ip_address: session?.user ? null : clientIP,
+      user_id: userId || null,
+      ip_address: userId ? null : clientIP,
       user_agent: userAgent,
+      rank: isRanked ? index + 1 : null,
       request_fingerprint: requestFingerprint,
       created_at: new Date().toISOString(),
     }));
@@ -331,11 +353,18 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Security: Fetch updated poll results with vote counts
-    const { data: voteCounts, error: countError } = await supabase
-      .from('votes')
-      .select('option_id')
-      .eq('poll_id', pollId);
+    await emitWebhookEvent('vote.cast', pollId, { userId: userId || undefined, voterIp: clientIP });
+
+    // Security: Fetch updated poll results with vote counts, unless this
+    // voter still may not see them (results_visibility)
+    const voterIP = userId ? undefined : clientIP;
+    const resultsVisible = await canViewPollResults(supabase, pollId, voterIP);
+    const { data: voteCounts, error: countError } = resultsVisible
+      ? await getResultsClient(supabase, voterIP)
+        .from('votes')
+        .select('option_id, user_id, ip_address, rank')
+        .eq('poll_id', pollId)
+      : { data: null, error: null };
 
     if (countError) {
       console.error(`[VOTE] Vote count fetch failed - RequestID: ${requestId}:`, countError);
@@ -344,12 +373,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // Security: Get current user votes for response
     let userVotes: string[] = [];
-    if (session?.user) {
+    if (userId) {
       const { data: votes, error: userVoteError } = await supabase
         .from('votes')
         .select('option_id')
         .eq('poll_id', pollId)
-        .eq('user_id', session.user.id);
+        .eq('user_id', userId);
       
       if (!userVoteError && votes) {
         userVotes = votes.map((v: { option_id: string }) => v.option_id);
@@ -358,17 +387,23 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // Security: Log successful vote for audit trail
     const processingTime = Date.now() - startTime;
-    console.log(`[VOTE] Vote recorded successfully - RequestID: ${requestId}, PollID: ${pollId}, UserID: ${session?.user?.id || 'anonymous'}, IP: ${clientIP}, ProcessingTime: ${processingTime}ms`);
+    console.log(`[VOTE] Vote recorded successfully - RequestID: ${requestId}, PollID: ${pollId}, UserID: ${userId || 'anonymous'}, IP: ${clientIP}, ProcessingTime: ${processingTime}ms`);
 
-    return NextResponse.json({
+    const response: VoteResponse = {
       message: 'Vote recorded successfully',
       requestId,
       poll_id: pollId,
       voted_options: uniqueOptionIds,
       user_votes: userVotes,
-      total_votes: voteCounts?.length || 0,
+      // Ranked polls store one row per ranked option, so count ballots
+      total_votes: resultsVisible
+        ? isRanked ? buildBallots(voteCounts || []).length : voteCounts?.length || 0
+        : null,
+      results_hidden: !resultsVisible,
       processing_time_ms: processingTime,
-    }, { headers: securityHeaders });
+    };
+
+    return NextResponse.json(response, { headers: { ...securityHeaders, ...rateLimitHeaders(rateLimit) } });
 
   } catch (error) {
     const processingTime = Date.now() - startTime;
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import {
+  getPollExportFileName,
+  isPollExportFormat,
+  loadPollExport,
+  BULK_EXPORT_BATCH_SIZE,
+  POLL_EXPORT_FORMATS,
+  serializePollExport,
+} from '@/lib/poll-export';
+import { createZip } from '@/lib/zip';
+
+/**
+ * Bulk Poll Export API Route Handler
+ *
+ * Downloads every poll a user created as a zip, one file per poll in the
+ * requested format. Users export their own polls; admins may pass `userId`
+ * to export someone else's.
+ *
+ * @route GET /api/polls/export?format=csv|json|xlsx[&userId=<uuid>]
+ */
+
+const isValidUUID = (uuid: string): boolean => {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(uuid);
+};
+
+/**
+ * GET /api/polls/export - Export All Polls As Zip
+ *
+ * @param request - NextRequest with optional `format` (default csv) and `userId` queries
+ * @returns Zip download or error details
+ */
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const securityHeaders = {
+    'X-Content-Type-Options': 'nosniff',
+    'X-Frame-Options': 'DENY',
+    'Cache-Control': 'private, no-store',
+  };
+
+  try {
+    const format = request.nextUrl.searchParams.get('format') || 'csv';
+    if (!isPollExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${POLL_EXPORT_FORMATS.join(', ')}`, code: 'INVALID_EXPORT_FORMAT' },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401, headers: securityHeaders }
+      );
+    }
+
+    const userId = request.nextUrl.searchParams.get('userId') || session.user.id;
+    if (!isValidUUID(userId)) {
+      return NextResponse.json(
+        { error: 'Invalid user ID format', code: 'INVALID_UUID_FORMAT' },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
+    // Security: Exporting another user's polls requires admin
+    if (userId !== session.user.id) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', session.user.id)
+        .single();
+
+      if (profile?.role !== 'admin') {
+        console.warn(`[POLLS] Unauthorized bulk export attempt - RequestID: ${requestId}, UserID: ${session.user.id}, TargetUserID: ${userId}`);
+        return NextResponse.json(
+          { error: 'You can only export your own polls', code: 'UNAUTHORIZED_EXPORT' },
+          { status: 403, headers: securityHeaders }
+        );
+      }
+    }
+
+    // Page through the user's polls so none are left out of the archive
+    const polls: { id: string }[] = [];
+    for (let offset = 0; ; offset += BULK_EXPORT_BATCH_SIZE) {
+      const { data: batch, error: pollsError } = await supabase
+        .from('polls')
+        .select('id')
+        .eq('creator_id', userId)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(offset, offset + BULK_EXPORT_BATCH_SIZE - 1);
+
+      if (pollsError) {
+        console.error(`[POLLS] Bulk export poll lookup failed - RequestID: ${requestId}:`, pollsError);
+        return NextResponse.json(
+          { error: 'Failed to load polls', code: 'DATABASE_ERROR' },
+          { status: 500, headers: securityHeaders }
+        );
+      }
+
+      polls.push(...(batch || []));
+      if (!batch || batch.length < BULK_EXPORT_BATCH_SIZE) break;
+    }
+
+    if (polls.length === 0) {
+      return NextResponse.json(
+        { error: 'There are no polls to export', code: 'NO_POLLS' },
+        { status: 404, headers: securityHeaders }
+      );
+    }
+
+    const files = [];
+    for (const { id } of polls) {
+      const data = await loadPollExport(supabase, id);
+      if (!data) continue;
+
+      files.push({
+        name: getPollExportFileName(data, format),
+        data: serializePollExport(data, format).body,
+      });
+    }
+
+    const archive = createZip(files);
+    const date = new Date().toISOString().slice(0, 10);
+
+    console.log(`[POLLS] Bulk export - RequestID: ${requestId}, UserID: ${userId}, Polls: ${files.length}, Format: ${format}`);
+
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        ...securityHeaders,
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="polls-${date}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error(`[POLLS] Bulk export error - RequestID: ${requestId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to export polls', code: 'EXPORT_FAILED' },
+      { status: 500, headers: securityHeaders }
+    );
+  }
+}
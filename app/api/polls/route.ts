@@ -1,5 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { getGeneralSettings, getDefaultPollExpiry } from '@/lib/app-settings';
+import { ApiPollSummary, PollTag, PollType, ResultsVisibility } from '@/types/database';
+import { canViewPollResults, getResultsClient } from '@/lib/poll-results';
+import { replaceEligibleVoters } from '@/lib/poll-access';
+import { validatePollSchedule } from '@/lib/poll-schedule';
+import { CreatePollRequestSchema, ListPollsQuerySchema, parseApiInput, sanitizeApiText } from '@/lib/api-schemas';
+import { consumeRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/client-ip';
+import { decodePollCursor, DEFAULT_POLL_LIST_LIMIT, listPollIds } from '@/lib/poll-listing';
+import { apiAuthErrorResponse, authenticateRequest } from '@/lib/api-auth';
+import { normalizeTagNames, POLL_TAG_COLUMNS, setPollTags, sortPollTags } from '@/lib/poll-tags';
+import { emitWebhookEvent } from '@/lib/webhook-events';
+import { countFirstPreferences } from '@/lib/ranked-choice';
 
 /**
  * Polls API Route Handler - Enterprise Security Implementation
@@ -11,8 +23,10 @@ import { createSupabaseServerClient } from '@/lib/supabase-server';
  * - Data leakage protection with selective field exposure
  * - SQL injection prevention through parameterized queries
  * - Comprehensive error handling with security logging
+ * - Session cookie or API key authentication (see lib/api-auth.ts)
+ * - Request bodies validated against lib/api-schemas.ts (published at /api/openapi.json)
  * 
- * @route GET /api/polls - Fetch paginated polls with security filtering
+ * @route GET /api/polls - Fetch cursor-paginated polls with server-side filters and sort
  * @route POST /api/polls - Create new poll with validation and authorization
  */
 
@@ -31,6 +45,8 @@ interface RawPollData {
   creator_id: string;
   is_active: boolean;
   allow_multiple_choices: boolean;
+  poll_type: PollType;
+  results_visibility: ResultsVisibility;
   expires_at?: string;
   created_at: string;
   updated_at: string;
@@ -40,62 +56,13 @@ interface RawPollData {
     username?: string;
     avatar_url?: string;
   }>;
+  tags?: PollTag[];
 }
 
 interface VoteData {
   option_id: string;
 }
 
-// Security: Input sanitization utilities
-const sanitizeInput = (input: string): string => {
-  return input.replace(/[<>&'"]/g, '').trim();
-};
-
-// Security: Rate limiting for poll creation
-const creationRateLimiter = {
-  attempts: new Map<string, { count: number; timestamp: number }>(),
-  maxAttempts: 5, // Max 5 polls per hour per user
-  windowMs: 60 * 60 * 1000, // 1 hour
-  
-  isRateLimited(userId: string): boolean {
-    const now = Date.now();
-    const record = this.attempts.get(userId);
-    
-    if (!record) return false;
-    
-    if (now - record.timestamp > this.windowMs) {
-      this.attempts.delete(userId);
-      return false;
-    }
-    
-    return record.count >= this.maxAttempts;
-  },
-  
-  recordAttempt(userId: string): void {
-    const now = Date.now();
-    const record = this.attempts.get(userId);
-    
-    if (!record || now - record.timestamp > this.windowMs) {
-      this.attempts.set(userId, { count: 1, timestamp: now });
-    } else {
-      record.count++;
-    }
-  }
-};
-
-// Security: Validate poll expiration date
-const validateExpirationDate = (expires_at: string): boolean => {
-  try {
-    const expirationDate = new Date(expires_at);
-    const now = new Date();
-    const maxFutureDate = new Date(now.getTime() + (365 * 24 * 60 * 60 * 1000)); // 1 year max
-    
-    return expirationDate > now && expirationDate <= maxFutureDate;
-  } catch {
-    return false;
-  }
-};
-
 /**
  * POST /api/polls - Create New Poll
  * 
@@ -142,105 +109,55 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { title, description, options, allow_multiple_choices, expires_at } = requestBody;
-
-    // Security: Input validation and sanitization
-    if (!title || typeof title !== 'string' || !title.trim()) {
-      return NextResponse.json(
-        { error: 'Poll title is required and must be a valid string', code: 'INVALID_TITLE' },
-        { status: 400, headers: securityHeaders }
-      );
-    }
-
-    // Security: Sanitize title and validate length
-    const sanitizedTitle = sanitizeInput(title).slice(0, 200); // Prevent buffer overflow
-    if (sanitizedTitle.length < 3) {
-      return NextResponse.json(
-        { error: 'Poll title must be at least 3 characters long', code: 'TITLE_TOO_SHORT' },
-        { status: 400, headers: securityHeaders }
-      );
-    }
-
-    // Security: Validate and sanitize description
-    let sanitizedDescription = null;
-    if (description) {
-      if (typeof description !== 'string') {
-        return NextResponse.json(
-          { error: 'Description must be a valid string', code: 'INVALID_DESCRIPTION' },
-          { status: 400, headers: securityHeaders }
-        );
-      }
-      sanitizedDescription = sanitizeInput(description).slice(0, 1000); // Limit description length
-    }
-
-    // Security: Validate options array
-    if (!options || !Array.isArray(options)) {
+    // Security: Validate the body against the published request schema
+    const parsed = parseApiInput(CreatePollRequestSchema, requestBody);
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Options must be a valid array', code: 'INVALID_OPTIONS_FORMAT' },
+        { error: parsed.error, code: parsed.code },
         { status: 400, headers: securityHeaders }
       );
     }
 
-    if (options.length < 2) {
+    const {
+      title,
+      description,
+      options,
+      poll_type,
+      allow_multiple_choices,
+      allow_write_in,
+      expires_at,
+      results_visibility,
+      visibility,
+      eligible_voters,
+      status,
+      opens_at,
+      tags,
+    } = parsed.data;
+
+    // Security: Sanitize text fields and enforce length limits
+    const sanitizedTitle = sanitizeApiText(title).slice(0, 200);
+    const sanitizedDescription = description ? sanitizeApiText(description).slice(0, 1000) : null;
+    const sanitizedOptions = options.map(option => sanitizeApiText(option).slice(0, 100));
+    const pollType = poll_type || 'standard';
+    const { names: tagNames } = normalizeTagNames((tags || []).map(sanitizeApiText));
+
+    const scheduleError = validatePollSchedule(opens_at, expires_at);
+    if (scheduleError) {
       return NextResponse.json(
-        { error: 'At least 2 poll options are required', code: 'INSUFFICIENT_OPTIONS' },
+        { error: scheduleError, code: 'INVALID_OPENS_AT' },
         { status: 400, headers: securityHeaders }
       );
     }
 
-    if (options.length > 10) {
-      return NextResponse.json(
-        { error: 'Maximum 10 options allowed', code: 'TOO_MANY_OPTIONS' },
-        { status: 400, headers: securityHeaders }
-      );
-    }
-
-    // Security: Validate and sanitize each option
-    const sanitizedOptions: string[] = [];
-    for (const option of options) {
-      if (!option || typeof option !== 'string') {
-        return NextResponse.json(
-          { error: 'All options must be valid strings', code: 'INVALID_OPTION_FORMAT' },
-          { status: 400, headers: securityHeaders }
-        );
-      }
-      
-      const sanitizedOption = sanitizeInput(option).slice(0, 100); // Limit option length
-      if (sanitizedOption.length < 1) {
-        return NextResponse.json(
-          { error: 'All options must have text', code: 'EMPTY_OPTION' },
-          { status: 400, headers: securityHeaders }
-        );
-      }
-      
-      sanitizedOptions.push(sanitizedOption);
-    }
-
-    // Security: Check for duplicate options
-    const uniqueOptions = [...new Set(sanitizedOptions)];
-    if (uniqueOptions.length !== sanitizedOptions.length) {
-      return NextResponse.json(
-        { error: 'Duplicate options are not allowed', code: 'DUPLICATE_OPTIONS' },
-        { status: 400, headers: securityHeaders }
-      );
-    }
-
-    // Security: Validate expiration date
-    if (expires_at) {
-      if (typeof expires_at !== 'string' || !validateExpirationDate(expires_at)) {
-        return NextResponse.json(
-          { error: 'Invalid expiration date format or date is too far in the future', code: 'INVALID_EXPIRATION' },
-          { status: 400, headers: securityHeaders }
-        );
-      }
-    }
-
-    // Security: Create Supabase client with error handling
+    // Security: Authenticate by session cookie or API key (write scope)
     let supabase;
+    let userId: string | null;
     try {
-      supabase = await createSupabaseServerClient();
-    } catch (supabaseError) {
-      console.error(`[POLLS] Supabase client creation failed - RequestID: ${requestId}:`, supabaseError);
+      ({ supabase, userId } = await authenticateRequest(request, 'write'));
+    } catch (authError) {
+      const authResponse = apiAuthErrorResponse(authError, securityHeaders);
+      if (authResponse) return authResponse;
+      console.error(`[POLLS] Supabase client creation failed - RequestID: ${requestId}:`, authError);
       return NextResponse.json(
         { error: 'Database service unavailable', code: 'SERVICE_UNAVAILABLE' },
         { status: 503, headers: securityHeaders }
@@ -248,9 +165,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Security: Authentication validation
-    const { data: { session }, error: authError } = await supabase.auth.getSession();
-    
-    if (authError || !session?.user) {
+    if (!userId) {
       console.warn(`[POLLS] Unauthorized poll creation attempt - RequestID: ${requestId}`);
       return NextResponse.json(
         { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
@@ -258,17 +173,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Security: Rate limiting check
-    if (creationRateLimiter.isRateLimited(session.user.id)) {
-      console.warn(`[POLLS] Rate limit exceeded - RequestID: ${requestId}, User: ${session.user.id}`);
+    // Security: Rate limiting check (admin-configured, shared across instances)
+    const rateLimit = await consumeRateLimit('poll_creation', userId);
+    if (!rateLimit.allowed) {
+      console.warn(`[POLLS] Rate limit exceeded - RequestID: ${requestId}, User: ${userId}`);
       return NextResponse.json(
         { error: 'Too many polls created. Please try again later.', code: 'RATE_LIMIT_EXCEEDED' },
-        { status: 429, headers: { ...securityHeaders, 'Retry-After': '3600' } }
+        { status: 429, headers: { ...securityHeaders, ...rateLimitHeaders(rateLimit) } }
+      );
+    }
+
+    // Security: Enforce the admin-configured poll limit per user
+    const generalSettings = await getGeneralSettings();
+    const { count: existingPolls, error: countError } = await supabase
+      .from('polls')
+      .select('id', { count: 'exact', head: true })
+      .eq('creator_id', userId);
+
+    if (countError) {
+      console.error(`[POLLS] Poll limit check failed - RequestID: ${requestId}:`, countError);
+      return NextResponse.json(
+        { error: 'Failed to verify poll limit', code: 'POLL_LIMIT_CHECK_FAILED' },
+        { status: 500, headers: securityHeaders }
+      );
+    }
+
+    if ((existingPolls || 0) >= generalSettings.max_polls_per_user) {
+      console.warn(`[POLLS] Poll limit reached - RequestID: ${requestId}, User: ${userId}, Limit: ${generalSettings.max_polls_per_user}`);
+      return NextResponse.json(
+        { error: `Maximum of ${generalSettings.max_polls_per_user} polls per user reached`, code: 'POLL_LIMIT_REACHED' },
+        { status: 403, headers: securityHeaders }
       );
     }
 
     // Security: Log poll creation attempt
-    console.log(`[POLLS] Poll creation attempt - RequestID: ${requestId}, User: ${session.user.id}, Title: "${sanitizedTitle.substring(0, 50)}"`);
+    console.log(`[POLLS] Poll creation attempt - RequestID: ${requestId}, User: ${userId}, Title: "${sanitizedTitle.substring(0, 50)}"`);
 
     // Security: Database transaction for data consistency
     try {
@@ -278,9 +217,15 @@ export async function POST(request: NextRequest) {
         .insert({
           title: sanitizedTitle,
           description: sanitizedDescription,
-          creator_id: session.user.id,
-          allow_multiple_choices: Boolean(allow_multiple_choices),
-          expires_at: expires_at || null,
+          creator_id: userId,
+          allow_multiple_choices: pollType === 'standard' ? Boolean(allow_multiple_choices) : false,
+          poll_type: pollType,
+          allow_write_in: Boolean(allow_write_in),
+          results_visibility: results_visibility || 'always',
+          visibility: visibility || 'public',
+          status: status || 'published',
+          opens_at: opens_at || null,
+          expires_at: expires_at || getDefaultPollExpiry(generalSettings, opens_at),
           // Security: Explicitly set security defaults
           is_active: true,
         })
@@ -295,16 +240,16 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Create poll options with sanitized data
+      // Create poll options with sanitized data (text polls have none)
       const pollOptions = sanitizedOptions.map((option, index) => ({
         poll_id: poll.id,
         text: option,
         order_index: index + 1,
       }));
 
-      const { error: optionsError } = await supabase
-        .from('poll_options')
-        .insert(pollOptions);
+      const { error: optionsError } = pollOptions.length > 0
+        ? await supabase.from('poll_options').insert(pollOptions)
+        : { error: null };
 
       if (optionsError) {
         console.error(`[POLLS] Poll options creation failed - RequestID: ${requestId}:`, optionsError);
@@ -318,8 +263,37 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Security: Record successful creation for rate limiting
-      creationRateLimiter.recordAttempt(session.user.id);
+      // Private polls start with the voters listed in the request
+      if (visibility === 'private' && eligible_voters?.length) {
+        const votersResult = await replaceEligibleVoters(supabase, poll.id, eligible_voters);
+
+        if (!votersResult.success) {
+          console.warn(`[POLLS] Eligible voters rejected - RequestID: ${requestId}: ${votersResult.error}`);
+          await supabase.from('polls').delete().eq('id', poll.id);
+          return NextResponse.json(
+            { error: votersResult.error || 'Failed to save eligible voters', code: 'INVALID_ELIGIBLE_VOTERS' },
+            { status: 400, headers: securityHeaders }
+          );
+        }
+      }
+
+      if (tagNames.length > 0) {
+        const tagsResult = await setPollTags(supabase, poll.id, tagNames);
+
+        if (!tagsResult.success) {
+          console.error(`[POLLS] Poll tags creation failed - RequestID: ${requestId}: ${tagsResult.error}`);
+          await supabase.from('polls').delete().eq('id', poll.id);
+          return NextResponse.json(
+            { error: tagsResult.error || 'Failed to save tags', code: 'TAGS_CREATION_FAILED' },
+            { status: 500, headers: securityHeaders }
+          );
+        }
+      }
+
+      // Drafts are announced when they are published
+      if (poll.status === 'published') {
+        await emitWebhookEvent('poll.created', poll.id, { userId });
+      }
 
       // Security: Fetch complete poll with selective field exposure
       const { data: completePoll, error: fetchError } = await supabase
@@ -331,11 +305,14 @@ export async function POST(request: NextRequest) {
           creator_id,
           is_active,
           allow_multiple_choices,
+          poll_type,
+          allow_write_in,
           expires_at,
           created_at,
           updated_at,
           creator:profiles(id, username, avatar_url),
-          options:poll_options(id, text, order_index)
+          options:poll_options(id, text, order_index),
+          tags(${POLL_TAG_COLUMNS})
         `)
         .eq('id', poll.id)
         .single();
@@ -349,13 +326,13 @@ export async function POST(request: NextRequest) {
       }
 
       // Security: Log successful creation
-      console.log(`[POLLS] Poll created successfully - RequestID: ${requestId}, PollID: ${poll.id}, User: ${session.user.id}`);
+      console.log(`[POLLS] Poll created successfully - RequestID: ${requestId}, PollID: ${poll.id}, User: ${userId}`);
 
       return NextResponse.json({
         message: 'Poll created successfully',
         poll: completePoll,
         requestId,
-      }, { headers: securityHeaders });
+      }, { headers: { ...securityHeaders, ...rateLimitHeaders(rateLimit) } });
 
     } catch (dbError) {
       console.error(`[POLLS] Database transaction failed - RequestID: ${requestId}:`, dbError);
@@ -378,7 +355,7 @@ export async function POST(request: NextRequest) {
  * GET /api/polls - Fetch Paginated Polls
  * 
  * Retrieves polls with comprehensive security controls:
- * - Input validation for pagination parameters
+ * - Input validation for cursor, filter and sort parameters
  * - SQL injection prevention through parameter sanitization
  * - Data leakage protection with selective field exposure
  * - Rate limiting for API abuse prevention
@@ -401,81 +378,111 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     
-    // Security: Validate and sanitize pagination parameters
-    let page = 1;
-    let limit = 10;
-    
-    const pageParam = searchParams.get('page');
-    const limitParam = searchParams.get('limit');
-    
-    if (pageParam) {
-      const parsedPage = parseInt(pageParam, 10);
-      if (isNaN(parsedPage) || parsedPage < 1 || parsedPage > 1000) {
-        return NextResponse.json(
-          { error: 'Invalid page parameter. Must be between 1 and 1000.', code: 'INVALID_PAGE' },
-          { status: 400, headers: securityHeaders }
-        );
-      }
-      page = parsedPage;
-    }
-    
-    if (limitParam) {
-      const parsedLimit = parseInt(limitParam, 10);
-      if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 50) {
-        return NextResponse.json(
-          { error: 'Invalid limit parameter. Must be between 1 and 50.', code: 'INVALID_LIMIT' },
-          { status: 400, headers: securityHeaders }
-        );
-      }
-      limit = parsedLimit;
-    }
-
-    // Security: Calculate offset with overflow protection
-    const offset = Math.max(0, (page - 1) * limit);
-    
-    // Security: Validate offset to prevent large queries
-    if (offset > 10000) {
+    // Security: Validate pagination and filter parameters
+    const query = parseApiInput(ListPollsQuerySchema, {
+      cursor: searchParams.get('cursor') || undefined,
+      limit: searchParams.get('limit') || undefined,
+      sort: searchParams.get('sort') || undefined,
+      status: searchParams.get('status') || undefined,
+      creator: searchParams.get('creator') || undefined,
+      mine: searchParams.get('mine') || undefined,
+      voted: searchParams.get('voted') || undefined,
+      created_after: searchParams.get('created_after') || undefined,
+      created_before: searchParams.get('created_before') || undefined,
+      q: searchParams.get('q') || undefined,
+      tag: searchParams.get('tag') || undefined,
+    });
+    if (!query.success) {
       return NextResponse.json(
-        { error: 'Page offset too large. Maximum offset is 10000.', code: 'OFFSET_TOO_LARGE' },
+        { error: query.error, code: query.code },
         { status: 400, headers: securityHeaders }
       );
     }
 
-    // Security: Create Supabase client with error handling
+    const { cursor, limit = DEFAULT_POLL_LIST_LIMIT, sort, status, creator, mine, voted } = query.data;
+
+    // Security: Authenticate by session cookie or API key (read scope)
     let supabase;
+    let userId: string | null;
     try {
-      supabase = await createSupabaseServerClient();
-    } catch (supabaseError) {
-      console.error(`[POLLS] Supabase client creation failed - RequestID: ${requestId}:`, supabaseError);
+      ({ supabase, userId } = await authenticateRequest(request, 'read'));
+      // Results and votes depend on who is asking (session or API key), so
+      // shared caches must not store them
+      if (userId) {
+        securityHeaders['Cache-Control'] = 'private, no-store';
+      }
+    } catch (authError) {
+      const authResponse = apiAuthErrorResponse(authError, securityHeaders);
+      if (authResponse) return authResponse;
+      console.error(`[POLLS] Supabase client creation failed - RequestID: ${requestId}:`, authError);
       return NextResponse.json(
         { error: 'Database service unavailable', code: 'SERVICE_UNAVAILABLE' },
         { status: 503, headers: securityHeaders }
       );
     }
 
+    // Security: Personal filters need a signed-in caller
+    if ((mine || voted) && !userId) {
+      return NextResponse.json(
+        { error: 'Authentication required to filter by your polls or votes', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401, headers: securityHeaders }
+      );
+    }
+
+    // Security: Identify anonymous voters for after_vote results visibility
+    const voterIP = userId ? undefined : getClientIp(request.headers);
+
     // Security: Log API access for monitoring
-    console.log(`[POLLS] Polls fetch request - RequestID: ${requestId}, Page: ${page}, Limit: ${limit}`);
+    console.log(`[POLLS] Polls fetch request - RequestID: ${requestId}, Sort: ${sort}, Status: ${status}, Limit: ${limit}`);
+
+    // Security: Filter, sort and paginate in the database (RLS applies)
+    let page;
+    try {
+      page = await listPollIds(supabase, {
+        sort,
+        status,
+        creator_id: creator,
+        mine,
+        voted,
+        created_after: query.data.created_after,
+        created_before: query.data.created_before,
+        search: query.data.q,
+        tag: query.data.tag,
+      }, {
+        cursor: cursor ? decodePollCursor(cursor, sort) : null,
+        limit,
+        viewerId: userId,
+      });
+    } catch (listError) {
+      console.error(`[POLLS] Polls fetch failed - RequestID: ${requestId}:`, listError);
+      return NextResponse.json(
+        { error: 'Failed to fetch polls', code: 'FETCH_FAILED' },
+        { status: 500, headers: securityHeaders }
+      );
+    }
 
     // Security: Fetch polls with selective field exposure and RLS protection
-    const { data: polls, error, count } = await supabase
-      .from('polls')
-      .select(`
-        id,
-        title,
-        description,
-        creator_id,
-        is_active,
-        allow_multiple_choices,
-        expires_at,
-        created_at,
-        updated_at,
-        creator:profiles(id, username, avatar_url),
-        options:poll_options(id, text, order_index),
-        votes(count)
-      `, { count: 'exact' })
-      .eq('is_active', true) // Security: Only show active polls
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+    const { data: polls, error } = page.ids.length > 0
+      ? await supabase
+        .from('polls')
+        .select(`
+          id,
+          title,
+          description,
+          creator_id,
+          is_active,
+          allow_multiple_choices,
+          poll_type,
+          results_visibility,
+          expires_at,
+          created_at,
+          updated_at,
+          creator:profiles(id, username, avatar_url),
+          options:poll_options(id, text, order_index),
+          tags(${POLL_TAG_COLUMNS})
+        `)
+        .in('id', page.ids)
+      : { data: [], error: null };
 
     if (error) {
       console.error(`[POLLS] Polls fetch failed - RequestID: ${requestId}:`, error);
@@ -485,22 +492,39 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Keep the listing order from list_polls
+    polls?.sort((a: RawPollData, b: RawPollData) => page.ids.indexOf(a.id) - page.ids.indexOf(b.id));
+
     // Security: Process vote counts safely to prevent data exposure
     const pollsWithCounts = await Promise.all(
-      polls?.map(async (poll: RawPollData) => {
+      polls?.map(async (poll: RawPollData): Promise<ApiPollSummary> => {
         try {
+          // Security: Withhold counts the caller isn't allowed to see yet
+          const resultsVisible = poll.results_visibility === 'always' ||
+            await canViewPollResults(supabase, poll.id, voterIP);
+
           // Security: Use parameterized query to prevent injection
-          const { data: voteCounts } = await supabase
-            .from('votes')
-            .select('option_id')
-            .eq('poll_id', poll.id);
+          const { data: voteCounts } = resultsVisible
+            ? await (poll.results_visibility === 'always' ? supabase : getResultsClient(supabase, voterIP))
+              .from('votes')
+              .select('option_id, user_id, ip_address, rank')
+              .eq('poll_id', poll.id)
+            : { data: null };
+
+          // Ranked polls store one row per ranked option; count ballots and
+          // first preferences as the poll page does
+          const ranked = resultsVisible && poll.poll_type === 'ranked'
+            ? countFirstPreferences(poll.options.map(option => option.id), voteCounts || [])
+            : null;
 
           // Security: Calculate vote counts without exposing individual votes
           const optionsWithCounts = poll.options.map((option: PollOption) => ({
             id: option.id,
             text: option.text,
             order_index: option.order_index,
-            vote_count: voteCounts?.filter((v: VoteData) => v.option_id === option.id).length || 0,
+            vote_count: resultsVisible
+              ? ranked?.tallies[option.id] ?? (voteCounts?.filter((v: VoteData) => v.option_id === option.id).length || 0)
+              : null,
           }));
 
           // Security: Safely extract creator data from array result
@@ -516,6 +540,7 @@ export async function GET(request: NextRequest) {
             creator_id: poll.creator_id,
             is_active: poll.is_active,
             allow_multiple_choices: poll.allow_multiple_choices,
+            results_visibility: poll.results_visibility,
             expires_at: poll.expires_at,
             created_at: poll.created_at,
             updated_at: poll.updated_at,
@@ -525,8 +550,10 @@ export async function GET(request: NextRequest) {
               avatar_url: creator.avatar_url
               // Security: Explicitly exclude sensitive creator data
             } : null,
-            options: optionsWithCounts.sort((a: PollOption, b: PollOption) => a.order_index - b.order_index),
-            total_votes: voteCounts?.length || 0,
+            options: optionsWithCounts.sort((a, b) => a.order_index - b.order_index),
+            total_votes: resultsVisible ? ranked?.totalBallots ?? (voteCounts?.length || 0) : null,
+            results_hidden: !resultsVisible,
+            tags: sortPollTags(poll.tags),
           };
         } catch (voteError) {
           console.error(`[POLLS] Vote count calculation failed for poll ${poll.id} - RequestID: ${requestId}:`, voteError);
@@ -544,6 +571,7 @@ export async function GET(request: NextRequest) {
             creator_id: poll.creator_id,
             is_active: poll.is_active,
             allow_multiple_choices: poll.allow_multiple_choices,
+            results_visibility: poll.results_visibility,
             expires_at: poll.expires_at,
             created_at: poll.created_at,
             updated_at: poll.updated_at,
@@ -554,11 +582,18 @@ export async function GET(request: NextRequest) {
             } : null,
             options: poll.options.map((option: PollOption) => ({ ...option, vote_count: 0 })),
             total_votes: 0,
+            results_hidden: false,
+            tags: sortPollTags(poll.tags),
           };
         }
       }) || []
     );
 
+    // Security: after_vote results shown to anonymous callers depend on their IP
+    if (pollsWithCounts.some(poll => poll.results_visibility === 'after_vote')) {
+      securityHeaders['Cache-Control'] = 'private, no-store';
+    }
+
     // Security: Log successful fetch
     console.log(`[POLLS] Polls fetched successfully - RequestID: ${requestId}, Count: ${polls?.length || 0}`);
 
@@ -566,12 +601,9 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       polls: pollsWithCounts,
       pagination: {
-        page,
         limit,
-        total: count || 0,
-        totalPages: Math.ceil((count || 0) / limit),
-        hasMore: (count || 0) > offset + limit,
-        hasPrevious: page > 1,
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
       },
       requestId,
     }, { headers: securityHeaders });
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiAuthErrorResponse, authenticateRequest } from '@/lib/api-auth';
+import { normalizeSearchQuery, searchPolls } from '@/lib/poll-search';
+import { parseApiInput, SearchPollsQuerySchema } from '@/lib/api-schemas';
+import { SearchPollsResponse } from '@/types/database';
+
+/**
+ * Poll Search API Route Handler
+ *
+ * Full-text search over listed polls, best matches first, with the matched
+ * words marked in the title and in fragments of the description and options
+ * (see lib/poll-search.ts). Backs the navbar search box.
+ *
+ * @route GET /api/polls/search?q=...&limit=8
+ */
+
+/**
+ * GET /api/polls/search - Search Polls
+ *
+ * @param request - NextRequest with `q` and optional `limit` query parameters
+ * @returns NextResponse with ranked results or error details
+ */
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  const securityHeaders = {
+    'X-Content-Type-Options': 'nosniff',
+    'X-Frame-Options': 'DENY',
+    'Cache-Control': 'public, max-age=60',
+  };
+
+  try {
+    const query = parseApiInput(SearchPollsQuerySchema, {
+      q: request.nextUrl.searchParams.get('q') ?? undefined,
+      limit: request.nextUrl.searchParams.get('limit') || undefined,
+    });
+    if (!query.success) {
+      return NextResponse.json(
+        { error: query.error, code: query.code },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
+    const { supabase, apiKeyId } = await authenticateRequest(request, 'read');
+    // Shared caches may store public responses to authorized requests
+    if (apiKeyId) {
+      securityHeaders['Cache-Control'] = 'private, no-store';
+    }
+
+    const searchQuery = normalizeSearchQuery(query.data.q) || '';
+    const results = await searchPolls(supabase, searchQuery, query.data.limit);
+
+    console.log(`[POLLS] Poll search - RequestID: ${requestId}, Results: ${results.length}`);
+
+    const response: SearchPollsResponse = { results, query: searchQuery, requestId };
+    return NextResponse.json(response, { headers: securityHeaders });
+  } catch (error) {
+    const authResponse = apiAuthErrorResponse(error, securityHeaders);
+    if (authResponse) return authResponse;
+
+    console.error(`[POLLS] Search error - RequestID: ${requestId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to search polls', code: 'SEARCH_FAILED', requestId },
+      { status: 500, headers: securityHeaders }
+    );
+  }
+}
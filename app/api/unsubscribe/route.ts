@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { applyUnsubscribeToken } from '@/lib/unsubscribe';
+
+/**
+ * One-Click Unsubscribe API Route Handler
+ *
+ * Target of the `List-Unsubscribe` header in notification emails. Mail
+ * clients POST `List-Unsubscribe=One-Click` here (RFC 8058) with the signed
+ * token in the query string; no session is needed. Only POST acts on the
+ * token, so link scanners fetching the URL cannot unsubscribe anyone.
+ *
+ * @route POST /api/unsubscribe?token=...
+ */
+
+const securityHeaders = {
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'Cache-Control': 'no-store',
+};
+
+/**
+ * POST /api/unsubscribe - Apply an unsubscribe token
+ *
+ * @param request - NextRequest with `token` in the query string, or in a form body
+ * @returns What the token unsubscribed from
+ */
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    let token = request.nextUrl.searchParams.get('token');
+
+    if (!token && request.headers.get('content-type')?.includes('application/x-www-form-urlencoded')) {
+      const form = await request.formData();
+      const value = form.get('token');
+      token = typeof value === 'string' ? value : null;
+    }
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing unsubscribe token', code: 'MISSING_TOKEN' },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
+    const supabase = await createSupabaseServerClient();
+    const result = await applyUnsubscribeToken(supabase, token);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Failed to unsubscribe', code: 'UNSUBSCRIBE_FAILED' },
+        { status: 500, headers: securityHeaders }
+      );
+    }
+
+    if (result === 'invalid') {
+      return NextResponse.json(
+        { error: 'This unsubscribe link is not valid', code: 'INVALID_TOKEN' },
+        { status: 400, headers: securityHeaders }
+      );
+    }
+
+    if (result === 'expired') {
+      return NextResponse.json(
+        { error: 'This unsubscribe link has expired', code: 'TOKEN_EXPIRED' },
+        { status: 410, headers: securityHeaders }
+      );
+    }
+
+    console.log(`[EMAIL] One-click unsubscribe - RequestID: ${requestId}, Result: ${result}`);
+
+    return NextResponse.json({ success: true, result }, { headers: securityHeaders });
+  } catch (error) {
+    console.error(`[EMAIL] Unsubscribe error - RequestID: ${requestId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to unsubscribe', code: 'UNSUBSCRIBE_FAILED' },
+      { status: 500, headers: securityHeaders }
+    );
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Public REST API v1 - Poll Export
+ *
+ * Shares its handler with /api/polls/[id]/export.
+ *
+ * @route GET /api/v1/polls/[id]/export?format=csv|json|xlsx - Download results (read scope)
+ */
+export { GET } from '@/app/api/polls/[id]/export/route';
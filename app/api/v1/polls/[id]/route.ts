@@ -0,0 +1,11 @@
+/**
+ * Public REST API v1 - Single Poll
+ *
+ * Shares its handlers with /api/polls/[id]. Close a poll with
+ * `PUT {"is_active": false}`.
+ *
+ * @route GET /api/v1/polls/[id] - Fetch a poll and its results (read scope)
+ * @route PUT /api/v1/polls/[id] - Update or close a poll (write scope)
+ * @route DELETE /api/v1/polls/[id] - Delete a poll (write scope)
+ */
+export { GET, PUT, DELETE } from '@/app/api/polls/[id]/route';
@@ -0,0 +1,9 @@
+/**
+ * Public REST API v1 - Voting
+ *
+ * Shares its handler with /api/polls/[id]/vote; the vote is cast as the
+ * API key's owner.
+ *
+ * @route POST /api/v1/polls/[id]/vote - Vote on a poll (write scope)
+ */
+export { POST } from '@/app/api/polls/[id]/vote/route';
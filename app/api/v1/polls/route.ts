@@ -0,0 +1,11 @@
+/**
+ * Public REST API v1 - Polls
+ *
+ * Versioned entry point for scripts, authenticated with a personal API key
+ * (`Authorization: Bearer polly_...`). Shares its handlers, validation and
+ * rate limits with /api/polls.
+ *
+ * @route GET /api/v1/polls - List polls (read scope)
+ * @route POST /api/v1/polls - Create a poll (write scope)
+ */
+export { GET, POST } from '@/app/api/polls/route';
@@ -0,0 +1,8 @@
+/**
+ * Public REST API v1 - Poll Search
+ *
+ * Shares its handler with /api/polls/search.
+ *
+ * @route GET /api/v1/polls/search?q=... - Full-text search over listed polls (read scope)
+ */
+export { GET } from '@/app/api/polls/search/route';
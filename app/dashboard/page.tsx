@@ -2,11 +2,13 @@ import { redirect } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { PlusCircle, BarChart3, Users, Vote, TrendingUp } from "lucide-react";
+import { PlusCircle, BarChart3, Users, Vote, TrendingUp, ClipboardList, Webhook } from "lucide-react";
 import Link from "next/link";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { getUserPolls, getUserStats } from "@/lib/actions/dashboard";
+import { getUserSurveys } from "@/lib/actions/survey";
 import { UserPollsList } from "@/components/dashboard/UserPollsList";
+import { UserSurveysList } from "@/components/dashboard/UserSurveysList";
 
 // Force dynamic rendering for this route since it uses cookies
 export const dynamic = 'force-dynamic';
@@ -22,9 +24,10 @@ export default async function DashboardPage() {
   }
 
   // Fetch user data and stats in parallel
-  const [userPolls, stats] = await Promise.all([
+  const [userPolls, stats, userSurveys] = await Promise.all([
     getUserPolls(),
     getUserStats(),
+    getUserSurveys(),
   ]);
 
   const user = session.user;
@@ -46,12 +49,26 @@ export default async function DashboardPage() {
               <p className="text-muted-foreground">Here&apos;s an overview of your polling activity</p>
             </div>
           </div>
-          <Link href="/polls/create">
-            <Button>
-              <PlusCircle className="mr-2 h-4 w-4" />
-              Create Poll
-            </Button>
-          </Link>
+          <div className="flex gap-2">
+            <Link href="/dashboard/webhooks">
+              <Button variant="outline">
+                <Webhook className="mr-2 h-4 w-4" />
+                Webhooks
+              </Button>
+            </Link>
+            <Link href="/surveys/create">
+              <Button variant="outline">
+                <ClipboardList className="mr-2 h-4 w-4" />
+                Create Survey
+              </Button>
+            </Link>
+            <Link href="/polls/create">
+              <Button>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Create Poll
+              </Button>
+            </Link>
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -131,6 +148,19 @@ export default async function DashboardPage() {
           </CardContent>
         </Card>
 
+        {/* Surveys */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Surveys</CardTitle>
+            <CardDescription>
+              Multi-question surveys with per-question results and completion rates
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <UserSurveysList surveys={userSurveys} />
+          </CardContent>
+        </Card>
+
         {/* Quick Actions */}
         <Card>
           <CardHeader>
@@ -0,0 +1,67 @@
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { getUserRole } from "@/lib/auth";
+import { getWebhookDeliveries, getWebhooks } from "@/lib/actions/webhooks";
+import { WebhookManager } from "@/components/dashboard/WebhookManager";
+import { WebhookDeliveryLog } from "@/components/dashboard/WebhookDeliveryLog";
+
+// Force dynamic rendering for this route since it uses cookies
+export const dynamic = 'force-dynamic';
+
+export default async function WebhooksPage() {
+  const supabase = await createSupabaseServerClient();
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect("/auth/login");
+  }
+
+  const [webhooks, deliveries, role] = await Promise.all([
+    getWebhooks(),
+    getWebhookDeliveries(),
+    getUserRole(),
+  ]);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <Link href="/dashboard">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to dashboard
+          </Button>
+        </Link>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Webhooks</CardTitle>
+            <CardDescription>
+              Receive your polls&apos; events as signed POST requests. Verify each request by computing
+              the HMAC-SHA256 of <code>{"{X-Polly-Timestamp}.{body}"}</code> with the webhook&apos;s secret
+              and comparing it to the <code>X-Polly-Signature</code> header.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WebhookManager webhooks={webhooks} currentUserId={session.user.id} isAdmin={role === 'admin'} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Delivery Log</CardTitle>
+            <CardDescription>
+              Recent deliveries. Failed attempts are retried with increasing delays for up to 10 attempts.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WebhookDeliveryLog deliveries={deliveries} webhooks={webhooks} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getOutboxEmail } from "@/lib/email-transport";
+
+export const dynamic = 'force-dynamic';
+
+interface DevEmailPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function DevEmailPage({ params }: DevEmailPageProps) {
+  if (process.env.NODE_ENV === 'production') {
+    notFound();
+  }
+
+  const { id } = await params;
+  const email = await getOutboxEmail(id);
+
+  if (!email) {
+    notFound();
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <Link href="/dev/emails">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to outbox
+          </Button>
+        </Link>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{email.subject}</CardTitle>
+            <CardDescription>
+              From {email.from} to {email.to} · {new Date(email.sentAt).toLocaleString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="html">
+              <TabsList>
+                <TabsTrigger value="html">HTML</TabsTrigger>
+                <TabsTrigger value="text">Text</TabsTrigger>
+              </TabsList>
+              <TabsContent value="html">
+                {/* Sandboxed so scripts or forms in a message cannot run */}
+                <iframe
+                  title="Email preview"
+                  srcDoc={email.html}
+                  sandbox=""
+                  className="w-full h-[700px] rounded-md border bg-white"
+                />
+              </TabsContent>
+              <TabsContent value="text">
+                <pre className="whitespace-pre-wrap rounded-md border bg-muted p-4 text-sm">
+                  {email.text || "This email has no plain-text part."}
+                </pre>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { Mail } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getEmailTransport, getOutboxDirectory, listOutboxEmails } from "@/lib/email-transport";
+
+// Reads the outbox directory on every request
+export const dynamic = 'force-dynamic';
+
+export default async function DevEmailsPage() {
+  if (process.env.NODE_ENV === 'production') {
+    notFound();
+  }
+
+  const emails = await listOutboxEmails();
+  const transport = getEmailTransport();
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Card className="max-w-5xl mx-auto">
+        <CardHeader>
+          <CardTitle>Email Outbox</CardTitle>
+          <CardDescription>
+            Mail written by the outbox transport to <code>{getOutboxDirectory()}</code>. The current
+            transport is <Badge variant="outline">{transport.name}</Badge>
+            {transport.name !== 'outbox' && <> — set <code>EMAIL_TRANSPORT=outbox</code> to capture mail here.</>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {emails.length === 0 ? (
+            <div className="text-center py-6">
+              <Mail className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No emails in the outbox yet.</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Type</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {emails.map(email => (
+                    <TableRow key={email.id}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {new Date(email.sentAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-sm">{email.to}</TableCell>
+                      <TableCell className="text-sm">
+                        <Link href={`/dev/emails/${email.id}`} className="hover:underline">
+                          {email.subject}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {email.tags?.find(tag => tag.name === 'type')?.value || "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import Link from 'next/link';
+import { ApiOperationCard } from '@/components/docs/ApiOperationCard';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { API_OPERATIONS, getApiSchemas } from '@/lib/openapi';
+
+export default function ApiReferencePage() {
+  const schemas = getApiSchemas();
+
+  return (
+    <div className="container py-8">
+      <h1 className="text-3xl font-bold mb-2">API Reference</h1>
+      <p className="text-muted-foreground mb-6">
+        Create, read, vote on and close polls from your own scripts. The machine-readable
+        OpenAPI document is at{' '}
+        <a href="/api/openapi.json" className="font-mono text-blue-600 hover:underline">/api/openapi.json</a>.
+      </p>
+
+      <div className="grid gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Authentication</CardTitle>
+            <CardDescription>
+              Every request acts as the owner of the API key, with the same validation and rate limits as the site
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <p>
+              Create a key in{' '}
+              <Link href="/settings/api-keys" className="text-blue-600 hover:underline">Settings → API Keys</Link>
+              {' '}and send it as a bearer token. Read keys can call the GET operations; read &amp; write keys can call all of them.
+            </p>
+            <pre className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs">
+              {'curl -H "Authorization: Bearer polly_..." https://your-site/api/v1/polls'}
+            </pre>
+            <p>
+              Errors are returned as JSON with a human-readable <code className="font-mono">error</code> and a
+              stable <code className="font-mono">code</code> to branch on.
+            </p>
+          </CardContent>
+        </Card>
+
+        {API_OPERATIONS.map(operation => (
+          <ApiOperationCard key={operation.operationId} operation={operation} />
+        ))}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Schemas</CardTitle>
+            <CardDescription>JSON Schema (draft 2020-12) for request and response bodies</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {Object.entries(schemas).map(([id, schema]) => (
+              <div key={id} id={`schema-${id}`} className="scroll-mt-20 space-y-2">
+                <h3 className="font-mono font-semibold">{id}</h3>
+                <pre className="max-h-96 overflow-auto rounded-md bg-muted p-3 font-mono text-xs">
+                  {JSON.stringify(schema, null, 2)}
+                </pre>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,8 @@
 
 import { redirect } from 'next/navigation';
 import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { getPollWithResults } from '@/lib/actions/poll';
+import { EditPollForm } from '@/components/polls/EditPollForm';
 
 interface PollEditPageProps {
   params: Promise<{ id: string }>;
@@ -15,8 +17,9 @@ interface PollEditPageProps {
 /**
  * Poll Edit Page
  * 
- * Placeholder for poll editing functionality. This page currently redirects
- * to the poll view page as editing is handled through other interfaces.
+ * Lets the creator edit the title, description and options. Edits are
+ * versioned (see lib/poll-revisions.ts), so the poll page shows an edit
+ * history and voters on removed options are asked to vote again.
  */
 export default async function EditPollPage({ params }: PollEditPageProps) {
   const resolvedParams = await params;
@@ -47,7 +50,15 @@ export default async function EditPollPage({ params }: PollEditPageProps) {
     redirect('/polls');
   }
 
-  // Redirect to poll view page for now
-  // TODO: Implement poll editing interface
-  redirect(`/polls/${pollId}`);
+  // Fetch options with vote counts so the form can warn before removing voted options
+  const pollWithResults = await getPollWithResults(pollId);
+  if (!pollWithResults) {
+    redirect('/polls');
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <EditPollForm poll={pollWithResults} />
+    </div>
+  );
 }
\ No newline at end of file
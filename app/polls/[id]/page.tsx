@@ -1,31 +1,85 @@
 import { notFound } from 'next/navigation';
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, ExternalLink } from "lucide-react";
+import { ArrowLeft, ExternalLink, Lock } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { VotingComponent } from "@/components/polls/VotingComponent";
 import { SharePollDialog } from "@/components/polls/SharePollDialog";
+import { PollHistory } from "@/components/polls/PollHistory";
+import { VoteInvalidationNotice } from "@/components/polls/VoteInvalidationNotice";
+import { TextAnswerModeration } from "@/components/polls/TextAnswerModeration";
 import { getPollWithResults, getUserVotesForPoll, checkIfUserCanVote } from "@/lib/actions/poll";
+import { redeemPollInvite } from "@/lib/actions/poll-access";
+import { getPollRevisions, getVoteInvalidations } from "@/lib/actions/poll-revisions";
+import { getTextAnswers, getUserTextAnswer } from "@/lib/actions/text-answers";
+import { getCurrentUser } from "@/lib/auth";
 
 interface PollDetailsPageProps {
   params: Promise<{
     id: string;
   }>;
+  searchParams: Promise<{
+    invite?: string;
+  }>;
 }
 
-export default async function PollDetailsPage({ params }: PollDetailsPageProps) {
+export default async function PollDetailsPage({ params, searchParams }: PollDetailsPageProps) {
   const { id: pollId } = await params;
+  const { invite } = await searchParams;
+
+  // Redeem an invite link first so a private poll is readable once accepted
+  const inviteResult = invite ? await redeemPollInvite(pollId, invite) : null;
 
   // Fetch poll data, user votes, and voting permissions in parallel
-  const [poll, userVotes, votePermission] = await Promise.all([
+  const [poll, userVotes, votePermission, revisions, invalidations, textAnswers, userTextAnswer, currentUser] = await Promise.all([
     getPollWithResults(pollId),
     getUserVotesForPoll(pollId),
     checkIfUserCanVote(pollId),
+    getPollRevisions(pollId),
+    getVoteInvalidations(pollId),
+    getTextAnswers(pollId),
+    getUserTextAnswer(pollId),
+    getCurrentUser(),
   ]);
 
   if (!poll) {
-    notFound();
+    if (votePermission.code === 'POLL_NOT_FOUND') {
+      notFound();
+    }
+
+    // Private poll the visitor is not eligible for: explain why
+    const loginHref = `/auth/login?redirectTo=${encodeURIComponent(
+      `/polls/${pollId}${invite ? `?invite=${encodeURIComponent(invite)}` : ''}`
+    )}`;
+
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Lock className="mr-2 h-5 w-5" />
+              Private poll
+            </CardTitle>
+            <CardDescription>
+              {inviteResult?.error || votePermission.reason}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex space-x-2">
+            {votePermission.code === 'PRIVATE_POLL_SIGN_IN_REQUIRED' && (
+              <Button asChild size="sm">
+                <Link href={loginHref}>Log in</Link>
+              </Button>
+            )}
+            <Button asChild variant="outline" size="sm">
+              <Link href="/polls">Browse polls</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
   }
 
+  const canModerate = !!currentUser && (currentUser.user.id === poll.creator_id || currentUser.role === 'admin');
   const pollUrl = `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/polls/${poll.id}`;
 
   return (
@@ -41,6 +95,7 @@ export default async function PollDetailsPage({ params }: PollDetailsPageProps)
           </Link>
           
           <div className="flex items-center space-x-2">
+            <PollHistory revisions={revisions} />
             <SharePollDialog poll={poll} />
             <Button variant="outline" size="sm" asChild>
               <a href={pollUrl} target="_blank" rel="noopener noreferrer">
@@ -51,13 +106,21 @@ export default async function PollDetailsPage({ params }: PollDetailsPageProps)
           </div>
         </div>
 
+        {/* Votes discarded by an edit that removed the voter's option */}
+        <VoteInvalidationNotice pollId={poll.id} invalidations={invalidations} />
+
         {/* Voting Component */}
         <VotingComponent 
           poll={poll}
           userVotes={userVotes}
           canVote={votePermission.canVote}
           voteReason={votePermission.reason}
+          textAnswers={textAnswers}
+          userTextAnswer={userTextAnswer}
         />
+
+        {/* Written answers awaiting the creator's review */}
+        {canModerate && <TextAnswerModeration poll={poll} answers={textAnswers} />}
       </div>
     </div>
   );
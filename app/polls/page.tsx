@@ -1,11 +1,30 @@
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import { PollList } from "@/components/polls/PollList";
+import { PollsList } from "@/components/polls/PollsList";
+import { CategoryNav } from "@/components/polls/CategoryNav";
 import { PlusCircle, BarChart3 } from "lucide-react";
-import { getAllPollsPublic } from "@/lib/actions/poll";
+import { listPolls } from "@/lib/actions/poll";
+import { getCategories } from "@/lib/actions/tags";
+import { normalizeSearchQuery } from "@/lib/poll-search";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
 
-export default async function PollsPage() {
-  const pollsData = await getAllPollsPublic(1, 20);
+interface PollsPageProps {
+  searchParams: Promise<{
+    q?: string;
+  }>;
+}
+
+export default async function PollsPage({ searchParams }: PollsPageProps) {
+  // Set by "See all results" in the navbar search
+  const { q } = await searchParams;
+  const search = normalizeSearchQuery(q) || "";
+
+  const supabase = await createSupabaseServerClient();
+  const [{ data: { session } }, firstPage, categories] = await Promise.all([
+    supabase.auth.getSession(),
+    listPolls({ search: search || undefined }),
+    getCategories(),
+  ]);
 
   return (
     <div className="min-h-screen bg-gray-50/50">
@@ -36,7 +55,8 @@ export default async function PollsPage() {
 
           {/* Polls List Container */}
           <div className="space-y-4">
-            <PollList polls={pollsData.polls} />
+            <CategoryNav categories={categories} />
+            <PollsList key={search} initialPage={firstPage} initialSearch={search} isSignedIn={!!session} />
           </div>
         </div>
       </div>
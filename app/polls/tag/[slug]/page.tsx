@@ -0,0 +1,62 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { PollsList } from "@/components/polls/PollsList";
+import { CategoryNav } from "@/components/polls/CategoryNav";
+import { ArrowLeft, Tag as TagIcon } from "lucide-react";
+import { listPolls } from "@/lib/actions/poll";
+import { getCategories, getTagBySlug } from "@/lib/actions/tags";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+interface TagPageProps {
+  params: Promise<{
+    slug: string;
+  }>;
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+  const { slug } = await params;
+  const tag = await getTagBySlug(slug);
+
+  if (!tag) {
+    notFound();
+  }
+
+  const supabase = await createSupabaseServerClient();
+  const [{ data: { session } }, firstPage, categories] = await Promise.all([
+    supabase.auth.getSession(),
+    listPolls({ tag: tag.slug }),
+    getCategories(),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-gray-50/50">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="space-y-8">
+          {/* Header */}
+          <div className="bg-white rounded-lg border shadow-sm p-6 space-y-3">
+            <Link href="/polls">
+              <Button variant="ghost" size="sm" className="-ml-2">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                All polls
+              </Button>
+            </Link>
+            <h1 className="text-3xl font-bold flex items-center text-gray-900">
+              <TagIcon className="mr-3 h-7 w-7 text-primary" />
+              {tag.name}
+            </h1>
+            <p className="text-muted-foreground text-base">
+              {tag.description || (tag.is_category ? `Polls in the “${tag.name}” category` : `Polls tagged “${tag.name}”`)}
+            </p>
+          </div>
+
+          {/* Polls List Container */}
+          <div className="space-y-4">
+            <CategoryNav categories={categories} activeSlug={tag.slug} />
+            <PollsList initialPage={firstPage} tag={tag.slug} isSignedIn={!!session} showCreateButton={false} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getApiKeys } from '@/lib/actions/api-keys';
+import { ApiKeyManager } from '@/components/settings/ApiKeyManager';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+// Force dynamic rendering - this page uses authentication and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+export default async function ApiKeySettingsPage() {
+  const supabase = await createSupabaseServerClient();
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect('/auth/login?redirectTo=/settings/api-keys');
+  }
+
+  const apiKeys = await getApiKeys();
+
+  return (
+    <div className="container py-8">
+      <h1 className="text-3xl font-bold mb-6">API Keys</h1>
+
+      <div className="grid gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Personal API Keys</CardTitle>
+            <CardDescription>
+              Create, read and close your polls from scripts with the REST API
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ApiKeyManager apiKeys={apiKeys} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Using the API</CardTitle>
+            <CardDescription>
+              Send your key as a bearer token. Requests act as you, with the same limits as the site.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <pre className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs">
+              {'curl -H "Authorization: Bearer polly_..." https://your-site/api/v1/polls'}
+            </pre>
+            <ul className="list-disc space-y-1 pl-5 text-muted-foreground">
+              <li><code className="font-mono">GET /api/v1/polls</code>, <code className="font-mono">GET /api/v1/polls/:id</code> and <code className="font-mono">GET /api/v1/polls/:id/export</code> need read access</li>
+              <li><code className="font-mono">POST /api/v1/polls</code>, <code className="font-mono">PUT</code> and <code className="font-mono">DELETE /api/v1/polls/:id</code> and <code className="font-mono">POST /api/v1/polls/:id/vote</code> need read &amp; write access</li>
+              <li>Close a poll with <code className="font-mono">PUT /api/v1/polls/:id</code> and the body <code className="font-mono">{'{"is_active": false}'}</code></li>
+            </ul>
+            <p>
+              See the <Link href="/docs/api" className="text-blue-600 hover:underline">API reference</Link> for
+              every operation, its parameters and error codes.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import NotificationSettingsForm from '@/components/settings/NotificationSettings
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import UserPollNotificationsTable from '@/components/settings/UserPollNotificationsTable';
+import { getNotificationChannels } from '@/lib/notifications';
 
 // Force dynamic rendering - this page uses authentication and cannot be statically generated
 export const dynamic = 'force-dynamic';
@@ -45,9 +46,9 @@ export default async function NotificationSettingsPage() {
       <div className="grid gap-6">
         <Card>
           <CardHeader>
-            <CardTitle>Email Notification Preferences</CardTitle>
+            <CardTitle>Notification Preferences</CardTitle>
             <CardDescription>
-              Customize how and when you receive email notifications
+              Customize how and when you receive email and in-app notifications
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -55,7 +56,8 @@ export default async function NotificationSettingsPage() {
               userId={session.user.id}
               initialValues={{
                 emailNotificationsEnabled: profile?.email_notifications_enabled ?? true,
-                notificationFrequency: profile?.notification_frequency ?? 'immediate'
+                notificationFrequency: profile?.notification_frequency ?? 'daily',
+                notificationChannels: getNotificationChannels(profile?.notification_channels)
               }}
             />
           </CardContent>
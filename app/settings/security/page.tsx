@@ -0,0 +1,66 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { redirect } from 'next/navigation';
+import { getTwoFactorSettings } from '@/lib/actions/two-factor';
+import TwoFactorSettings from '@/components/settings/TwoFactorSettings';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+// Force dynamic rendering - this page uses authentication and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+interface SecuritySettingsPageProps {
+  searchParams: Promise<{
+    /** `required` when an admin was sent here to enroll in 2FA */
+    setup?: string;
+  }>;
+}
+
+export default async function SecuritySettingsPage({ searchParams }: SecuritySettingsPageProps) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect('/auth/login?redirectTo=/settings/security');
+  }
+
+  const { setup } = await searchParams;
+  const twoFactor = await getTwoFactorSettings();
+  const setupRequired = setup === 'required' && twoFactor.requiredForRole && !twoFactor.status?.enabled;
+
+  return (
+    <div className="container py-8">
+      <h1 className="text-3xl font-bold mb-6">Security Settings</h1>
+
+      {setupRequired && (
+        <div className="mb-6 p-4 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+          Administrators must use two-factor authentication. Set it up below to open the admin panel.
+        </div>
+      )}
+
+      <div className="grid gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              Require a code from your authenticator app when signing in
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!twoFactor.success || !twoFactor.status ? (
+              <p className="text-sm text-red-600">{twoFactor.error || 'Unable to load two-factor settings'}</p>
+            ) : twoFactor.available || twoFactor.status.enabled ? (
+              <TwoFactorSettings
+                enabled={twoFactor.status.enabled}
+                recoveryCodesRemaining={twoFactor.status.recovery_codes_remaining}
+                required={twoFactor.requiredForRole ?? false}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Two-factor authentication is not available on this site.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
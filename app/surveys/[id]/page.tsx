@@ -0,0 +1,84 @@
+import { notFound } from 'next/navigation';
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, BarChart3, CheckCircle, Clock } from "lucide-react";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { SurveyStepper } from "@/components/surveys/SurveyStepper";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { getSurvey, getSurveyResponseStatus } from "@/lib/actions/survey";
+import { isSurveyOpen } from "@/lib/surveys";
+
+interface SurveyPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function SurveyPage({ params }: SurveyPageProps) {
+  const { id: surveyId } = await params;
+
+  const supabase = await createSupabaseServerClient();
+  const [survey, responseStatus, { data: { session } }] = await Promise.all([
+    getSurvey(surveyId),
+    getSurveyResponseStatus(surveyId),
+    supabase.auth.getSession(),
+  ]);
+
+  if (!survey) {
+    notFound();
+  }
+
+  const isCreator = session?.user.id === survey.creator_id;
+  const open = isSurveyOpen(survey);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Navigation */}
+        <div className="flex items-center justify-between">
+          <Link href={isCreator ? "/dashboard" : "/polls"}>
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              {isCreator ? "Back to dashboard" : "Back to polls"}
+            </Button>
+          </Link>
+
+          {isCreator && (
+            <Button variant="outline" size="sm" asChild>
+              <Link href={`/surveys/${survey.id}/results`}>
+                <BarChart3 className="mr-2 h-4 w-4" />
+                View results
+              </Link>
+            </Button>
+          )}
+        </div>
+
+        {responseStatus.completed_at ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <CheckCircle className="mr-2 h-5 w-5 text-green-500" />
+                {survey.title}
+              </CardTitle>
+              <CardDescription>
+                You completed this survey on {new Date(responseStatus.completed_at).toLocaleDateString()}.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : !open ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Clock className="mr-2 h-5 w-5" />
+                {survey.title}
+              </CardTitle>
+              <CardDescription>This survey is closed and no longer accepts responses.</CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <SurveyStepper survey={survey} />
+        )}
+      </div>
+    </div>
+  );
+}
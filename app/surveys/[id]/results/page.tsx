@@ -0,0 +1,68 @@
+import { notFound, redirect } from 'next/navigation';
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import { SurveyResults } from "@/components/surveys/SurveyResults";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { getSurveyResults } from "@/lib/actions/survey";
+
+// Force dynamic rendering for this route since it uses cookies
+export const dynamic = 'force-dynamic';
+
+interface SurveyResultsPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function SurveyResultsPage({ params }: SurveyResultsPageProps) {
+  const { id: surveyId } = await params;
+
+  const supabase = await createSupabaseServerClient();
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect(`/auth/login?redirectTo=${encodeURIComponent(`/surveys/${surveyId}/results`)}`);
+  }
+
+  const { success, results, error } = await getSurveyResults(surveyId);
+
+  if (error === 'Survey not found') {
+    notFound();
+  }
+
+  if (!success || !results) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+          {error || 'Failed to load survey results'}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <Link href="/dashboard">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to dashboard
+            </Button>
+          </Link>
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/surveys/${surveyId}`}>Open survey</Link>
+          </Button>
+        </div>
+
+        <div>
+          <h1 className="text-3xl font-bold">{results.title}</h1>
+          <p className="text-muted-foreground">Survey results</p>
+        </div>
+
+        <SurveyResults results={results} />
+      </div>
+    </div>
+  );
+}
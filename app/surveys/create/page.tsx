@@ -0,0 +1,11 @@
+"use client";
+
+import { CreateSurveyForm } from "@/components/surveys/CreateSurveyForm";
+
+export default function CreateSurveyPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <CreateSurveyForm />
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { checkUnsubscribeToken } from "@/lib/unsubscribe";
+import { UnsubscribeConfirm } from "@/components/settings/UnsubscribeConfirm";
+
+// Tokens are checked on every request
+export const dynamic = 'force-dynamic';
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{
+    token?: string;
+  }>;
+}
+
+export default async function UnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const { token } = await searchParams;
+
+  const supabase = await createSupabaseServerClient();
+  const info = token
+    ? await checkUnsubscribeToken(supabase, token)
+    : { status: 'invalid' as const, pollId: null, pollTitle: null };
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <Card className="max-w-lg mx-auto">
+        <CardHeader>
+          <CardTitle>Unsubscribe</CardTitle>
+          <CardDescription>
+            {info.status === 'valid'
+              ? "Choose which emails to stop. No sign-in needed."
+              : info.status === 'expired'
+                ? "This unsubscribe link has expired."
+                : "This unsubscribe link is not valid."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {info.status === 'valid' && token ? (
+            // A deleted poll leaves only the option to stop all emails
+            <UnsubscribeConfirm token={token} pollTitle={info.pollId ? info.pollTitle : null} />
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Sign in to choose which emails you receive from your notification settings.
+              </p>
+              <Link href="/settings/notifications">
+                <Button>Notification settings</Button>
+              </Link>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -9,12 +9,14 @@ import {
   BarChart3, 
   FileBarChart,
   Megaphone,
+  Tags,
 } from 'lucide-react';
 
 const navItems = [
   { name: 'Dashboard', href: '/admin/dashboard', icon: LayoutDashboard },
   { name: 'Users', href: '/admin/users', icon: Users },
   { name: 'Polls', href: '/admin/polls', icon: FileBarChart },
+  { name: 'Categories', href: '/admin/categories', icon: Tags },
   { name: 'Analytics', href: '/admin/analytics', icon: BarChart3 },
   { name: 'Settings', href: '/admin/settings', icon: Settings },
   { name: 'Announcements', href: '/admin/announcements', icon: Megaphone },
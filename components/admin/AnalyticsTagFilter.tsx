@@ -0,0 +1,43 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PollTag } from '@/types/database';
+
+const ALL_TAGS = 'all';
+
+interface AnalyticsTagFilterProps {
+  tags: PollTag[];
+  /** Slug of the tag the page is filtered by */
+  value?: string;
+}
+
+/**
+ * 🏷️ ANALYTICS TAG FILTER
+ *
+ * Limits the analytics page's poll and vote figures to one tag or category
+ * through the `tag` search param.
+ */
+export function AnalyticsTagFilter({ tags, value }: AnalyticsTagFilterProps) {
+  const router = useRouter();
+
+  const handleChange = (slug: string) => {
+    router.push(slug === ALL_TAGS ? '/admin/analytics' : `/admin/analytics?tag=${encodeURIComponent(slug)}`);
+  };
+
+  return (
+    <Select value={value || ALL_TAGS} onValueChange={handleChange}>
+      <SelectTrigger className="w-[200px]" aria-label="Filter by tag">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_TAGS}>All Polls</SelectItem>
+        {tags.map(tag => (
+          <SelectItem key={tag.id} value={tag.slug}>
+            {tag.name}{tag.is_category ? ' (category)' : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,339 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PlusIcon, Edit, Trash2 } from 'lucide-react';
+import { createAnnouncement, deleteAnnouncement, updateAnnouncement } from '@/lib/actions/admin/announcements';
+import {
+  ANNOUNCEMENT_AUDIENCE_LABELS,
+  AnnouncementInput,
+  getEffectiveAnnouncementStatus,
+} from '@/lib/announcements';
+import { Announcement, AnnouncementAudience, AnnouncementStatus } from '@/types/database';
+
+interface AnnouncementManagerProps {
+  announcements: Announcement[];
+}
+
+interface AnnouncementFormState {
+  title: string;
+  content: string;
+  status: AnnouncementStatus;
+  target_audience: AnnouncementAudience;
+  /** datetime-local values in the admin's timezone */
+  starts_at: string;
+  ends_at: string;
+}
+
+const EMPTY_FORM: AnnouncementFormState = {
+  title: '',
+  content: '',
+  status: 'draft',
+  target_audience: 'all',
+  starts_at: '',
+  ends_at: '',
+};
+
+// Status badge styling
+const STATUS_STYLES: Record<AnnouncementStatus | 'expired', string> = {
+  active: 'bg-green-500 text-white',
+  scheduled: 'bg-blue-500 text-white',
+  draft: 'bg-gray-500 text-white',
+  archived: 'bg-slate-500 text-white',
+  expired: 'bg-slate-400 text-white',
+};
+
+/**
+ * ISO timestamp to a datetime-local input value in local time
+ */
+const toLocalInput = (value: string | null): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+/**
+ * Format a date relative to today, e.g. "Yesterday" or "3 days ago"
+ */
+const formatRelativeDate = (value: string): string => {
+  const daysDifference = Math.floor((new Date(value).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+
+  if (daysDifference === 0) return 'Today';
+  if (daysDifference === -1) return 'Yesterday';
+  if (daysDifference < 0) return `${Math.abs(daysDifference)} days ago`;
+  return `in ${daysDifference} days`;
+};
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * 📣 ANNOUNCEMENT MANAGER
+ *
+ * Admin list of announcements with create, edit and delete. Scheduled
+ * announcements go live at their start date without further action; the
+ * badge shows the state visitors currently see.
+ */
+export function AnnouncementManager({ announcements }: AnnouncementManagerProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AnnouncementFormState>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (announcement: Announcement) => {
+    setEditingId(announcement.id);
+    setForm({
+      title: announcement.title,
+      content: announcement.content,
+      status: announcement.status,
+      target_audience: announcement.target_audience,
+      starts_at: toLocalInput(announcement.starts_at),
+      ends_at: toLocalInput(announcement.ends_at),
+    });
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const input: AnnouncementInput = {
+      title: form.title,
+      content: form.content,
+      status: form.status,
+      target_audience: form.target_audience,
+      starts_at: form.starts_at ? new Date(form.starts_at).toISOString() : null,
+      ends_at: form.ends_at ? new Date(form.ends_at).toISOString() : null,
+    };
+
+    startTransition(async () => {
+      const result = editingId
+        ? await updateAnnouncement(editingId, input)
+        : await createAnnouncement(input);
+
+      if (result.success) {
+        setDialogOpen(false);
+      } else {
+        setError(result.error || 'Failed to save announcement');
+      }
+    });
+  };
+
+  const handleDelete = (announcementId: string) => {
+    startTransition(async () => {
+      const result = await deleteAnnouncement(announcementId);
+      if (!result.success) {
+        console.error('Error deleting announcement:', result.error);
+      }
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Announcements</h1>
+        <Button className="flex items-center gap-2" onClick={openCreate}>
+          <PlusIcon className="h-4 w-4" />
+          <span>New Announcement</span>
+        </Button>
+      </div>
+
+      {announcements.length === 0 ? (
+        <p className="text-gray-500">No announcements yet. Create one to show a banner across the site.</p>
+      ) : (
+        <div className="space-y-4">
+          {announcements.map((announcement) => {
+            const effectiveStatus = getEffectiveAnnouncementStatus(announcement);
+
+            return (
+              <Card key={announcement.id} className="p-6">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <div className="flex items-center gap-3 mb-2">
+                      <h2 className="text-xl font-semibold">{announcement.title}</h2>
+                      <Badge className={STATUS_STYLES[effectiveStatus]}>
+                        {capitalize(effectiveStatus)}
+                      </Badge>
+                      <Badge variant="outline">
+                        {ANNOUNCEMENT_AUDIENCE_LABELS[announcement.target_audience]}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      Created {formatRelativeDate(announcement.created_at)}
+                      {announcement.starts_at && ` · Starts ${new Date(announcement.starts_at).toLocaleString()}`}
+                      {announcement.ends_at && ` · Ends ${new Date(announcement.ends_at).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openEdit(announcement)} disabled={isPending}>
+                      <Edit className="h-4 w-4" />
+                      <span className="sr-only">Edit</span>
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" size="sm" className="text-red-600 hover:bg-red-50" disabled={isPending}>
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this announcement?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            &ldquo;{announcement.title}&rdquo; will be removed for everyone. Archive it instead to keep a record.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleDelete(announcement.id)}
+                            className="bg-red-600 hover:bg-red-700"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+
+                <div className="mt-4 text-gray-700">
+                  <p className="whitespace-pre-line">{announcement.content}</p>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Announcement' : 'New Announcement'}</DialogTitle>
+            <DialogDescription>
+              Live announcements appear in a banner at the top of every page for the selected audience.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="announcement-title">Title</Label>
+              <Input
+                id="announcement-title"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                maxLength={200}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="announcement-content">Message</Label>
+              <Textarea
+                id="announcement-content"
+                value={form.content}
+                onChange={(e) => setForm({ ...form, content: e.target.value })}
+                maxLength={2000}
+                rows={4}
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="announcement-status">Status</Label>
+                <Select
+                  value={form.status}
+                  onValueChange={(value: AnnouncementStatus) => setForm({ ...form, status: value })}
+                >
+                  <SelectTrigger id="announcement-status" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="draft">Draft</SelectItem>
+                    <SelectItem value="scheduled">Scheduled</SelectItem>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="archived">Archived</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="announcement-audience">Audience</Label>
+                <Select
+                  value={form.target_audience}
+                  onValueChange={(value: AnnouncementAudience) => setForm({ ...form, target_audience: value })}
+                >
+                  <SelectTrigger id="announcement-audience" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ANNOUNCEMENT_AUDIENCE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="announcement-starts">
+                  {form.status === 'scheduled' ? 'Starts' : 'Starts (Optional)'}
+                </Label>
+                <Input
+                  id="announcement-starts"
+                  type="datetime-local"
+                  value={form.starts_at}
+                  onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                  required={form.status === 'scheduled'}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="announcement-ends">Ends (Optional)</Label>
+                <Input
+                  id="announcement-ends"
+                  type="datetime-local"
+                  value={form.ends_at}
+                  onChange={(e) => setForm({ ...form, ends_at: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? 'Saving...' : editingId ? 'Save Changes' : 'Create Announcement'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { PlusIcon, Edit, Trash2, ArrowUpCircle, ArrowDownCircle } from 'lucide-react';
+import { createCategory, deleteTag, setTagCategory, updateCategory } from '@/lib/actions/admin/tags';
+import { MAX_TAG_DESCRIPTION_LENGTH, MAX_TAG_NAME_LENGTH, slugifyTag } from '@/lib/poll-tags';
+import { Tag, TagSuggestion } from '@/types/database';
+
+interface CategoryManagerProps {
+  categories: Tag[];
+  popularTags: TagSuggestion[];
+}
+
+interface CategoryFormState {
+  name: string;
+  description: string;
+}
+
+const EMPTY_FORM: CategoryFormState = {
+  name: '',
+  description: '',
+};
+
+/**
+ * 🗂️ CATEGORY MANAGER
+ *
+ * Admin list of official categories with create, edit, demote and delete,
+ * plus the most used creator tags so popular ones can be promoted. Creating
+ * a category whose name matches an existing tag promotes that tag, keeping
+ * its polls.
+ */
+export function CategoryManager({ categories, popularTags }: CategoryManagerProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<CategoryFormState>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (category: Tag) => {
+    setEditingId(category.id);
+    setForm({
+      name: category.name,
+      description: category.description || '',
+    });
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const input = { name: form.name, description: form.description };
+
+    startTransition(async () => {
+      const result = editingId
+        ? await updateCategory(editingId, input)
+        : await createCategory(input);
+
+      if (result.success) {
+        setDialogOpen(false);
+      } else {
+        setError(result.error || 'Failed to save category');
+      }
+    });
+  };
+
+  const handleSetCategory = (tagId: string, isCategory: boolean) => {
+    startTransition(async () => {
+      const result = await setTagCategory(tagId, isCategory);
+      if (!result.success) {
+        console.error('Error updating tag:', result.error);
+      }
+    });
+  };
+
+  const handleDelete = (tagId: string) => {
+    startTransition(async () => {
+      const result = await deleteTag(tagId);
+      if (!result.success) {
+        console.error('Error deleting tag:', result.error);
+      }
+    });
+  };
+
+  const renderDeleteButton = (tag: Pick<Tag, 'id' | 'name'>) => (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm" className="text-red-600 hover:bg-red-50" disabled={isPending}>
+          <Trash2 className="h-4 w-4" />
+          <span className="sr-only">Delete</span>
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete this tag?</AlertDialogTitle>
+          <AlertDialogDescription>
+            &ldquo;{tag.name}&rdquo; will be removed from every poll that uses it. The polls themselves are kept.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => handleDelete(tag.id)}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Categories</h1>
+        <Button className="flex items-center gap-2" onClick={openCreate}>
+          <PlusIcon className="h-4 w-4" />
+          <span>New Category</span>
+        </Button>
+      </div>
+
+      {categories.length === 0 ? (
+        <p className="text-gray-500">No categories yet. Create one, or promote a popular tag below.</p>
+      ) : (
+        <div className="space-y-4">
+          {categories.map((category) => (
+            <Card key={category.id} className="p-6">
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="flex items-center gap-3 mb-2">
+                    <h2 className="text-xl font-semibold">{category.name}</h2>
+                    <Link href={`/polls/tag/${category.slug}`} className="text-sm text-blue-600 hover:underline">
+                      /polls/tag/{category.slug}
+                    </Link>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {category.description || 'No description'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEdit(category)} disabled={isPending}>
+                    <Edit className="h-4 w-4" />
+                    <span className="sr-only">Edit</span>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSetCategory(category.id, false)}
+                    disabled={isPending}
+                    title="Make this a regular tag again"
+                  >
+                    <ArrowDownCircle className="h-4 w-4" />
+                    <span className="sr-only">Demote to tag</span>
+                  </Button>
+                  {renderDeleteButton(category)}
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <h2 className="text-xl font-semibold mt-10 mb-4">Popular Tags</h2>
+      {popularTags.length === 0 ? (
+        <p className="text-gray-500">Tags that creators add to their polls will appear here.</p>
+      ) : (
+        <Card className="divide-y">
+          {popularTags.map((tag) => (
+            <div key={tag.id} className="flex items-center justify-between px-6 py-3">
+              <div className="flex items-center gap-3">
+                <Link href={`/polls/tag/${tag.slug}`} className="font-medium hover:underline">
+                  {tag.name}
+                </Link>
+                <Badge variant="outline">
+                  {tag.poll_count} {tag.poll_count === 1 ? 'poll' : 'polls'}
+                </Badge>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex items-center gap-2"
+                  onClick={() => handleSetCategory(tag.id, true)}
+                  disabled={isPending}
+                >
+                  <ArrowUpCircle className="h-4 w-4" />
+                  <span>Make Category</span>
+                </Button>
+                {renderDeleteButton(tag)}
+              </div>
+            </div>
+          ))}
+        </Card>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Category' : 'New Category'}</DialogTitle>
+            <DialogDescription>
+              Categories are listed above all polls and suggested first when creators add tags.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Name</Label>
+              <Input
+                id="category-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                maxLength={MAX_TAG_NAME_LENGTH}
+                required
+              />
+              {!editingId && form.name.trim() && (
+                <p className="text-xs text-gray-500">Page: /polls/tag/{slugifyTag(form.name) || '…'}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-description">Description (Optional)</Label>
+              <Textarea
+                id="category-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                maxLength={MAX_TAG_DESCRIPTION_LENGTH}
+                rows={3}
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? 'Saving...' : editingId ? 'Save Changes' : 'Create Category'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
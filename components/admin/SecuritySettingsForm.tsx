@@ -12,19 +12,25 @@ import Form from 'next/form';
 
 interface SecuritySettings {
   require_email_verification: boolean;
+  min_password_length: number;
+  require_password_complexity: boolean;
   max_login_attempts: number;
   lockout_duration_minutes: number;
   session_timeout_hours: number;
   enable_two_factor: boolean;
+  require_two_factor_for_admins: boolean;
 }
 
 export function SecuritySettingsForm({ initialSettings }: { initialSettings?: SecuritySettings }) {
   const [settings, setSettings] = useState<SecuritySettings>(initialSettings || {
     require_email_verification: true,
+    min_password_length: 8,
+    require_password_complexity: true,
     max_login_attempts: 5,
     lockout_duration_minutes: 30,
     session_timeout_hours: 24,
     enable_two_factor: false,
+    require_two_factor_for_admins: false,
   });
   
   // Use useActionState for form handling
@@ -46,10 +52,13 @@ export function SecuritySettingsForm({ initialSettings }: { initialSettings?: Se
   const handleFormAction = (formData: FormData) => {
     // Set form data with current state values
     formData.set('require_email_verification', settings.require_email_verification.toString());
+    formData.set('min_password_length', settings.min_password_length.toString());
+    formData.set('require_password_complexity', settings.require_password_complexity.toString());
     formData.set('max_login_attempts', settings.max_login_attempts.toString());
     formData.set('lockout_duration_minutes', settings.lockout_duration_minutes.toString());
     formData.set('session_timeout_hours', settings.session_timeout_hours.toString());
     formData.set('enable_two_factor', settings.enable_two_factor.toString());
+    formData.set('require_two_factor_for_admins', settings.require_two_factor_for_admins.toString());
     
     formAction(formData);
   };
@@ -79,6 +88,52 @@ export function SecuritySettingsForm({ initialSettings }: { initialSettings?: Se
           </p>
         </div>
         
+        <div className="space-y-2">
+          <Label htmlFor="min_password_length">Minimum Password Length</Label>
+          <Input 
+            id="min_password_length"
+            name="min_password_length"
+            type="number"
+            min="6"
+            max="128"
+            value={settings.min_password_length}
+            onChange={(e) => setSettings({ 
+              ...settings, 
+              min_password_length: parseInt(e.target.value) || 8
+            })}
+            required
+            aria-invalid={state?.errors?.min_password_length ? 'true' : 'false'}
+          />
+          {state?.errors?.min_password_length && (
+            <p className="text-sm text-red-600">{state.errors.min_password_length}</p>
+          )}
+          <p className="text-sm text-gray-500">
+            Minimum number of characters required for new passwords.
+          </p>
+        </div>
+        
+        <div className="space-y-2">
+          <Label htmlFor="require_password_complexity" className="flex items-center gap-2">
+            <span>Require Password Complexity</span>
+          </Label>
+          <div className="flex items-center gap-2">
+            <Switch 
+              id="require_password_complexity"
+              name="require_password_complexity"
+              checked={settings.require_password_complexity}
+              onCheckedChange={(checked) => {
+                setSettings({ ...settings, require_password_complexity: checked });
+              }}
+            />
+            <span className="text-sm text-gray-500">
+              {settings.require_password_complexity ? 'Enabled' : 'Disabled'}
+            </span>
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            When enabled, passwords must mix uppercase letters, lowercase letters and numbers.
+          </p>
+        </div>
+        
         <div className="space-y-2">
           <Label htmlFor="max_login_attempts">Maximum Login Attempts</Label>
           <Input 
@@ -172,6 +227,30 @@ export function SecuritySettingsForm({ initialSettings }: { initialSettings?: Se
             When enabled, users can set up two-factor authentication for their accounts.
           </p>
         </div>
+        
+        {settings.enable_two_factor && (
+          <div className="space-y-2">
+            <Label htmlFor="require_two_factor_for_admins" className="flex items-center gap-2">
+              <span>Require Two-Factor for Admins</span>
+            </Label>
+            <div className="flex items-center gap-2">
+              <Switch 
+                id="require_two_factor_for_admins"
+                name="require_two_factor_for_admins"
+                checked={settings.require_two_factor_for_admins}
+                onCheckedChange={(checked) => {
+                  setSettings({ ...settings, require_two_factor_for_admins: checked });
+                }}
+              />
+              <span className="text-sm text-gray-500">
+                {settings.require_two_factor_for_admins ? 'Required' : 'Optional'}
+              </span>
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              When required, admins must set up two-factor authentication before using the admin panel.
+            </p>
+          </div>
+        )}
       </div>
       
       <Button type="submit" disabled={isPending} className="flex gap-2">
@@ -25,8 +25,10 @@ import {
     Mail,
     Ban,
     CheckCircle,
+    Lock,
+    Unlock,
 } from 'lucide-react';
-import { updateUserRole } from '@/lib/actions/admin/users';
+import { updateUserRole, unlockUserAccount } from '@/lib/actions/admin/users';
 
 interface Profile {
     id: string;
@@ -37,6 +39,8 @@ interface Profile {
     role: string;
     created_at: string;
     avatar_url?: string;
+    failed_login_attempts?: number;
+    locked_until?: string | null;
 }
 
 interface UserManagementTableProps {
@@ -60,6 +64,24 @@ export function UserManagementTable({ users }: UserManagementTableProps) {
         }
     };
     
+    const handleUnlock = async (userId: string) => {
+        setLoading((prev) => ({ ...prev, [userId]: true }));
+        
+        try {
+            const result = await unlockUserAccount(userId);
+            if (!result.success) {
+                console.error('Error unlocking user account:', result.error);
+            }
+        } catch (error) {
+            console.error('Error unlocking user account:', error);
+        } finally {
+            setLoading((prev) => ({ ...prev, [userId]: false }));
+        }
+    };
+    
+    const isLocked = (user: Profile) => 
+        !!user.locked_until && new Date(user.locked_until) > new Date();
+    
     return (
         <div className="rounded-md border">
             <Table>
@@ -110,6 +132,12 @@ export function UserManagementTable({ users }: UserManagementTableProps) {
                                         {user.role}
                                     </span>
                                 </div>
+                                {isLocked(user) && (
+                                    <div className="flex items-center mt-1 text-xs text-red-600" title={`Locked until ${new Date(user.locked_until!).toLocaleString()}`}>
+                                        <Lock className="h-3 w-3 mr-1" />
+                                        Locked
+                                    </div>
+                                )}
                             </TableCell>
                             <TableCell>
                                 {new Date(user.created_at).toLocaleDateString()}
@@ -142,6 +170,16 @@ export function UserManagementTable({ users }: UserManagementTableProps) {
                                                 Make Admin
                                             </DropdownMenuItem>
                                         )}
+                                        {isLocked(user) && (
+                                            <DropdownMenuItem
+                                                onClick={() => handleUnlock(user.id)}
+                                                disabled={loading[user.id]}
+                                                className="text-green-600"
+                                            >
+                                                <Unlock className="h-4 w-4 mr-2" />
+                                                Unlock Account
+                                            </DropdownMenuItem>
+                                        )}
                                         <DropdownMenuItem>
                                             <Mail className="h-4 w-4 mr-2" />
                                             Email User (Coming Soon)
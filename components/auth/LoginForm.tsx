@@ -11,6 +11,9 @@ import { useAuth } from "@/context/AuthContext";
 import { useRouter } from "next/navigation";
 import { SuccessAnimation } from "@/components/ui/success-animation";
 
+// Where admins who must enroll in two-factor authentication are sent after signing in
+const TWO_FACTOR_SETUP_PATH = "/settings/security?setup=required";
+
 /**
  * 🔐 SECURE LOGIN FORM COMPONENT
  * 
@@ -120,6 +123,7 @@ import { useFormSecurity } from '@/lib/security';
  * STATE MANAGEMENT:
  * - email: User's email input (sanitized on change)
  * - password: User's password input (sanitized on change)
+ * - twoFactorCode: Authenticator or recovery code, asked for once the password is accepted
  * - error: Error message display state
  * - isLoading: Form submission loading state
  * 
@@ -143,6 +147,9 @@ export function LoginForm() {
   // All state variables use type-safe React hooks
   const [email, setEmail] = useState(''); // User email input
   const [password, setPassword] = useState(''); // User password input  
+  const [twoFactorCode, setTwoFactorCode] = useState(''); // Second factor code input
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false); // Whether the 2FA step is shown
+  const [twoFactorSetupRequired, setTwoFactorSetupRequired] = useState(false); // Admin must enroll in 2FA first
   const [error, setError] = useState<string | null>(null); // Error display state
   const [isLoading, setIsLoading] = useState(false); // Loading state for UX
   const [showSuccess, setShowSuccess] = useState(false); // Success animation state
@@ -163,7 +170,10 @@ export function LoginForm() {
       
       // Add a small delay to ensure UI transitions smoothly
       const redirectTimer = setTimeout(() => {
-        if (userRole === 'admin') {
+        if (twoFactorSetupRequired) {
+          console.log('[LOGIN] Redirecting to two-factor setup');
+          router.push(TWO_FACTOR_SETUP_PATH);
+        } else if (userRole === 'admin') {
           console.log('[LOGIN] Redirecting to admin dashboard');
           router.push('/admin/dashboard');
         } else {
@@ -174,7 +184,7 @@ export function LoginForm() {
       
       return () => clearTimeout(redirectTimer);
     }
-  }, [user, userRole, loading, router]);
+  }, [user, userRole, loading, router, twoFactorSetupRequired]);
   
   // 🔒 SECURITY UTILITIES
   // Using centralized form security hook for comprehensive protection
@@ -243,8 +253,32 @@ export function LoginForm() {
         return;
       }
 
+      // 🔑 TWO-FACTOR STEP: The code is required once the password was accepted
+      if (twoFactorRequired && !twoFactorCode.trim()) {
+        setError("Verification code is required");
+        setIsLoading(false);
+        return;
+      }
+
       // 🔐 AUTHENTICATION ATTEMPT via secure AuthContext
-      const { error, success, userId } = await signIn(sanitizedEmail, sanitizedPassword);
+      const {
+        error,
+        success,
+        userId,
+        twoFactorRequired: needsTwoFactor,
+        twoFactorSetupRequired: needsTwoFactorSetup,
+      } = await signIn(
+        sanitizedEmail,
+        sanitizedPassword,
+        twoFactorRequired ? twoFactorCode.trim() : undefined
+      );
+
+      // 🔑 Password accepted; ask for the authenticator code next
+      if (!error && needsTwoFactor) {
+        setTwoFactorRequired(true);
+        setIsLoading(false);
+        return;
+      }
 
       if (error) {
         // Rate limiting handled by useFormSecurity hook
@@ -258,6 +292,7 @@ export function LoginForm() {
       
       // Clear any previous errors
       setError(null);
+      setTwoFactorSetupRequired(needsTwoFactorSetup === true);
       
       // Hide form and show success animation for better UX
       setFormVisible(false);
@@ -271,7 +306,7 @@ export function LoginForm() {
         if (!loading) {
           console.log('[LOGIN] Manual redirect initiated');
           // Default to user dashboard, but useEffect should handle this more accurately
-          router.push('/dashboard');
+          router.push(needsTwoFactorSetup ? TWO_FACTOR_SETUP_PATH : '/dashboard');
         }
       }, 2500); // Longer timeout to accommodate the animation
       
@@ -295,7 +330,11 @@ export function LoginForm() {
           onComplete={() => {
             setShowSuccess(false);
             // Force redirect if not already redirected
-            router.push(userRole === 'admin' ? '/admin/dashboard' : '/dashboard');
+            router.push(
+              twoFactorSetupRequired
+                ? TWO_FACTOR_SETUP_PATH
+                : userRole === 'admin' ? '/admin/dashboard' : '/dashboard'
+            );
           }}
         />
       )}
@@ -311,7 +350,9 @@ export function LoginForm() {
         <CardHeader className="space-y-1">
           <CardTitle className="text-2xl font-bold">Sign In</CardTitle>
           <CardDescription>
-            Enter your credentials to access your account
+            {twoFactorRequired
+              ? 'Enter the 6-digit code from your authenticator app, or one of your recovery codes'
+              : 'Enter your credentials to access your account'}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -339,7 +380,7 @@ export function LoginForm() {
               maxLength={254} // 🛡️ SECURITY: Prevent buffer overflow (RFC 5321 limit)
               autoComplete="email" // Browser autofill support
               className="transition-all focus:scale-[1.02] duration-300"
-              disabled={isLoading || showSuccess}
+              disabled={isLoading || showSuccess || twoFactorRequired}
               required
             />
           </div>
@@ -356,20 +397,53 @@ export function LoginForm() {
               maxLength={128} // 🛡️ SECURITY: Prevent buffer overflow attacks
               autoComplete="current-password" // Browser autofill support
               className="transition-all focus:scale-[1.02] duration-300"
-              disabled={isLoading || showSuccess}
+              disabled={isLoading || showSuccess || twoFactorRequired}
               required
             />
           </div>
 
+          {/* 🔑 TWO-FACTOR INPUT: Shown after the password is accepted for 2FA accounts */}
+          {twoFactorRequired && (
+            <div className="space-y-2 animate-in fade-in-50 duration-300">
+              <Label htmlFor="two-factor-code">Verification Code</Label>
+              <Input
+                id="two-factor-code"
+                type="text"
+                inputMode="text"
+                placeholder="123456"
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(sanitize(e.target.value))}
+                maxLength={16}
+                autoComplete="one-time-code"
+                className="transition-all focus:scale-[1.02] duration-300 tracking-widest"
+                disabled={isLoading || showSuccess}
+                autoFocus
+                required
+              />
+              <button
+                type="button"
+                className="text-sm text-muted-foreground hover:underline"
+                onClick={() => {
+                  setTwoFactorRequired(false);
+                  setTwoFactorCode('');
+                  setError(null);
+                }}
+                disabled={isLoading || showSuccess}
+              >
+                Use a different account
+              </button>
+            </div>
+          )}
+
           {/* 🚀 SUBMIT BUTTON: Loading state and accessibility */}
           <LoadingButton 
             type="submit" 
             className="w-full animate-in fade-in-50 slide-in-from-bottom-3 duration-300 delay-200" 
             isLoading={isLoading} // Only use local loading state for the button
-            loadingText="Signing in..."
+            loadingText={twoFactorRequired ? "Verifying..." : "Signing in..."}
             disabled={showSuccess}
           >
-            Sign In
+            {twoFactorRequired ? 'Verify' : 'Sign In'}
           </LoadingButton>
 
           {/* 📱 VISUAL SEPARATOR: Clean UI design with animation */}
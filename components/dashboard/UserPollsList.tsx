@@ -5,11 +5,13 @@ import Link from "next/link";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSub, DropdownMenuSubContent, DropdownMenuSubTrigger, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { MoreHorizontal, Edit, Trash2, Eye, Share, Users, BarChart3, Clock, Play, Pause } from "lucide-react";
+import { MoreHorizontal, Edit, Trash2, Eye, Share, Users, BarChart3, Clock, Play, Pause, FilePen, CalendarClock, Send, Download } from "lucide-react";
 import { Poll } from "@/types/database";
-import { deletePoll, togglePollStatus, testPollAccess } from "@/lib/actions/dashboard";
+import { deletePoll, togglePollStatus, testPollAccess, publishPoll } from "@/lib/actions/dashboard";
+import { isPollScheduled } from "@/lib/poll-schedule";
+import { ExportPollMenu, EXPORT_FORMAT_LABELS } from "@/components/polls/ExportPollMenu";
 import { useRouter } from "next/navigation";
 
 interface UserPollsListProps {
@@ -98,6 +100,22 @@ export function UserPollsList({ polls }: UserPollsListProps) {
     });
   };
 
+  const handlePublish = (pollId: string) => {
+    startTransition(async () => {
+      const result = await publishPoll(pollId);
+      if (result.success) {
+        router.refresh();
+      } else {
+        console.error('Failed to publish poll:', result.error);
+        alert(`Failed to publish poll: ${result.error}`);
+      }
+    });
+  };
+
+  // Drafts and polls waiting for their opening time are listed separately
+  const upcomingPolls = polls.filter(poll => poll.status === 'draft' || isPollScheduled(poll));
+  const livePolls = polls.filter(poll => !upcomingPolls.includes(poll));
+
   if (polls.length === 0) {
     return (
       <div className="text-center py-8">
@@ -115,166 +133,226 @@ export function UserPollsList({ polls }: UserPollsListProps) {
     );
   }
 
-  return (
-    <div className="space-y-4">
-      {polls.map((poll) => {
-        const expired = isExpired(poll.expires_at);
-        
-        return (
-          <Card key={poll.id} className="hover:shadow-md transition-shadow">
-            <CardHeader>
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <CardTitle className="text-xl mb-2">
-                    <Link 
-                      href={`/polls/${poll.id}`}
-                      className="hover:text-primary transition-colors"
-                    >
-                      {poll.title}
+  const renderPollCard = (poll: Poll) => {
+    const expired = isExpired(poll.expires_at);
+    const isDraft = poll.status === 'draft';
+    const scheduled = isPollScheduled(poll);
+    
+    return (
+      <Card key={poll.id} className="hover:shadow-md transition-shadow">
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div className="flex-1">
+              <CardTitle className="text-xl mb-2">
+                <Link 
+                  href={`/polls/${poll.id}`}
+                  className="hover:text-primary transition-colors"
+                >
+                  {poll.title}
+                </Link>
+              </CardTitle>
+              {poll.description && (
+                <CardDescription className="text-base">
+                  {poll.description}
+                </CardDescription>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              <div className="flex flex-col items-end space-y-2">
+                {isDraft && (
+                  <Badge variant="secondary" className="bg-slate-100 text-slate-800">
+                    <FilePen className="mr-1 h-3 w-3" />
+                    Draft
+                  </Badge>
+                )}
+                {scheduled && poll.opens_at && (
+                  <Badge variant="secondary" className="bg-blue-100 text-blue-800">
+                    <CalendarClock className="mr-1 h-3 w-3" />
+                    Opens {formatDate(poll.opens_at)}
+                  </Badge>
+                )}
+                {expired && (
+                  <Badge variant="secondary" className="bg-red-100 text-red-800">
+                    <Clock className="mr-1 h-3 w-3" />
+                    Expired
+                  </Badge>
+                )}
+                {poll.is_active ? (
+                  <Badge variant="default" className="bg-green-100 text-green-800">
+                    <Play className="mr-1 h-3 w-3" />
+                    Active
+                  </Badge>
+                ) : (
+                  <Badge variant="secondary">
+                    <Pause className="mr-1 h-3 w-3" />
+                    Inactive
+                  </Badge>
+                )}
+                {poll.allow_multiple_choices && (
+                  <Badge variant="outline">
+                    Multiple Choice
+                  </Badge>
+                )}
+              </div>
+              
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" className="h-8 w-8 p-0">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem asChild>
+                    <Link href={`/polls/${poll.id}`}>
+                      <Eye className="mr-2 h-4 w-4" />
+                      View Poll
                     </Link>
-                  </CardTitle>
-                  {poll.description && (
-                    <CardDescription className="text-base">
-                      {poll.description}
-                    </CardDescription>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href={`/polls/${poll.id}/edit`}>
+                      <Edit className="mr-2 h-4 w-4" />
+                      Edit Poll
+                    </Link>
+                  </DropdownMenuItem>
+                  {isDraft && (
+                    <DropdownMenuItem
+                      onClick={() => handlePublish(poll.id)}
+                      disabled={isPending}
+                    >
+                      <Send className="mr-2 h-4 w-4" />
+                      {poll.opens_at && new Date(poll.opens_at) > new Date() ? 'Publish & Schedule' : 'Publish'}
+                    </DropdownMenuItem>
                   )}
-                </div>
-                <div className="flex items-center space-x-2">
-                  <div className="flex flex-col items-end space-y-2">
-                    {expired && (
-                      <Badge variant="secondary" className="bg-red-100 text-red-800">
-                        <Clock className="mr-1 h-3 w-3" />
-                        Expired
-                      </Badge>
-                    )}
+                  <DropdownMenuItem
+                    onClick={() => handleToggleStatus(poll.id, poll.is_active)}
+                    disabled={isPending}
+                  >
                     {poll.is_active ? (
-                      <Badge variant="default" className="bg-green-100 text-green-800">
-                        <Play className="mr-1 h-3 w-3" />
-                        Active
-                      </Badge>
+                      <>
+                        <Pause className="mr-2 h-4 w-4" />
+                        Deactivate
+                      </>
                     ) : (
-                      <Badge variant="secondary">
-                        <Pause className="mr-1 h-3 w-3" />
-                        Inactive
-                      </Badge>
-                    )}
-                    {poll.allow_multiple_choices && (
-                      <Badge variant="outline">
-                        Multiple Choice
-                      </Badge>
+                      <>
+                        <Play className="mr-2 h-4 w-4" />
+                        Activate
+                      </>
                     )}
-                  </div>
-                  
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="ghost" className="h-8 w-8 p-0">
-                        <MoreHorizontal className="h-4 w-4" />
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <DropdownMenuItem asChild>
-                        <Link href={`/polls/${poll.id}`}>
-                          <Eye className="mr-2 h-4 w-4" />
-                          View Poll
-                        </Link>
-                      </DropdownMenuItem>
-                      <DropdownMenuItem asChild>
-                        <Link href={`/polls/${poll.id}/edit`}>
-                          <Edit className="mr-2 h-4 w-4" />
-                          Edit Poll
-                        </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <Download className="mr-2 h-4 w-4" />
+                      Export Results
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {EXPORT_FORMAT_LABELS.map(({ format, label }) => (
+                        <DropdownMenuItem key={format} asChild>
+                          <a href={`/api/polls/${poll.id}/export?format=${format}`} download>
+                            {label}
+                          </a>
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuItem
+                    onClick={() => handleTestPollAccess(poll.id)}
+                  >
+                    🔍 Test Access
+                  </DropdownMenuItem>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete Poll
                       </DropdownMenuItem>
-                      <DropdownMenuItem
-                        onClick={() => handleToggleStatus(poll.id, poll.is_active)}
-                        disabled={isPending}
-                      >
-                        {poll.is_active ? (
-                          <>
-                            <Pause className="mr-2 h-4 w-4" />
-                            Deactivate
-                          </>
-                        ) : (
-                          <>
-                            <Play className="mr-2 h-4 w-4" />
-                            Activate
-                          </>
-                        )}
-                      </DropdownMenuItem>
-                      <DropdownMenuItem
-                        onClick={() => handleTestPollAccess(poll.id)}
-                      >
-                        🔍 Test Access
-                      </DropdownMenuItem>
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            Delete Poll
-                          </DropdownMenuItem>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              This action cannot be undone. This will permanently delete the poll
-                              &ldquo;{poll.title}&rdquo; and all associated votes.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              onClick={() => handleDelete(poll.id)}
-                              disabled={deletingId === poll.id}
-                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                            >
-                              {deletingId === poll.id ? "Deleting..." : "Delete"}
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                </div>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This action cannot be undone. This will permanently delete the poll
+                          &ldquo;{poll.title}&rdquo; and all associated votes.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleDelete(poll.id)}
+                          disabled={deletingId === poll.id}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          {deletingId === poll.id ? "Deleting..." : "Delete"}
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </div>
+        </CardHeader>
+        
+        <CardContent>
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <div className="flex items-center space-x-4">
+              <div className="flex items-center">
+                <Users className="mr-1 h-4 w-4" />
+                <span>{poll.total_votes || 0} votes</span>
               </div>
-            </CardHeader>
-            
-            <CardContent>
-              <div className="flex items-center justify-between text-sm text-gray-600">
-                <div className="flex items-center space-x-4">
-                  <div className="flex items-center">
-                    <Users className="mr-1 h-4 w-4" />
-                    <span>{poll.total_votes || 0} votes</span>
-                  </div>
-                  <div className="flex items-center">
-                    <BarChart3 className="mr-1 h-4 w-4" />
-                    <span>{poll.options.length} options</span>
-                  </div>
-                  <div className="flex items-center">
-                    <Clock className="mr-1 h-4 w-4" />
-                    <span>Created {formatTimeAgo(poll.created_at)}</span>
-                  </div>
-                </div>
-                
-                <div className="flex items-center space-x-2">
-                  <Button variant="outline" size="sm" asChild>
-                    <Link href={`/polls/${poll.id}`}>
-                      <Share className="mr-1 h-3 w-3" />
-                      Share
-                    </Link>
-                  </Button>
-                </div>
+              <div className="flex items-center">
+                <BarChart3 className="mr-1 h-4 w-4" />
+                <span>{poll.options.length} options</span>
               </div>
-              
-              {poll.expires_at && !expired && (
-                <div className="mt-2 text-xs text-amber-600">
-                  <Clock className="inline mr-1 h-3 w-3" />
-                  Expires {formatDate(poll.expires_at)}
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        );
-      })}
+              <div className="flex items-center">
+                <Clock className="mr-1 h-4 w-4" />
+                <span>Created {formatTimeAgo(poll.created_at)}</span>
+              </div>
+            </div>
+            
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/polls/${poll.id}`}>
+                  <Share className="mr-1 h-3 w-3" />
+                  Share
+                </Link>
+              </Button>
+            </div>
+          </div>
+          
+          {poll.expires_at && !expired && (
+            <div className="mt-2 text-xs text-amber-600">
+              <Clock className="inline mr-1 h-3 w-3" />
+              Expires {formatDate(poll.expires_at)}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Bulk export: every poll as a zip */}
+      <div className="flex justify-end">
+        <ExportPollMenu href="/api/polls/export" label="Export all" />
+      </div>
+
+      {/* Drafts & Scheduled: not yet open for voting */}
+      {upcomingPolls.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-muted-foreground">Drafts &amp; Scheduled</h3>
+          {upcomingPolls.map(renderPollCard)}
+        </div>
+      )}
+
+      {livePolls.length > 0 && (
+        <div className="space-y-4">
+          {upcomingPolls.length > 0 && (
+            <h3 className="text-sm font-medium text-muted-foreground">Published</h3>
+          )}
+          {livePolls.map(renderPollCard)}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,189 @@
+"use client";
+
+import { useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { MoreHorizontal, Eye, BarChart3, Play, Pause, Trash2, ClipboardList, Clock } from "lucide-react";
+import { deleteSurvey, toggleSurveyStatus } from "@/lib/actions/survey";
+import { isSurveyOpen } from "@/lib/surveys";
+import { SurveySummary } from "@/types/database";
+
+interface UserSurveysListProps {
+  surveys: SurveySummary[];
+}
+
+/**
+ * 📋 USER SURVEYS LIST
+ *
+ * Dashboard list of the user's surveys with response counts and the share
+ * of started responses that were completed.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/dashboard/page.tsx
+ */
+export function UserSurveysList({ surveys }: UserSurveysListProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleToggleStatus = (surveyId: string, isActive: boolean) => {
+    startTransition(async () => {
+      const result = await toggleSurveyStatus(surveyId, !isActive);
+      if (result.success) {
+        router.refresh();
+      } else {
+        alert(`Failed to update survey status: ${result.error}`);
+      }
+    });
+  };
+
+  const handleDelete = (surveyId: string) => {
+    startTransition(async () => {
+      const result = await deleteSurvey(surveyId);
+      if (result.success) {
+        router.refresh();
+      } else {
+        alert(`Failed to delete survey: ${result.error}`);
+      }
+    });
+  };
+
+  if (surveys.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <ClipboardList className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No surveys yet</h3>
+        <p className="text-muted-foreground mb-4">
+          Group several related questions into a single link
+        </p>
+        <Link href="/surveys/create">
+          <Button>Create Your First Survey</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {surveys.map(survey => {
+        const open = isSurveyOpen(survey);
+
+        return (
+          <div key={survey.id} className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <Link href={`/surveys/${survey.id}`} className="text-lg font-semibold hover:text-primary transition-colors">
+                  {survey.title}
+                </Link>
+                {survey.description && (
+                  <p className="text-sm text-muted-foreground">{survey.description}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {open ? (
+                  <Badge variant="default" className="bg-green-100 text-green-800">
+                    <Play className="mr-1 h-3 w-3" />
+                    Open
+                  </Badge>
+                ) : (
+                  <Badge variant="secondary">
+                    <Pause className="mr-1 h-3 w-3" />
+                    Closed
+                  </Badge>
+                )}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" className="h-8 w-8 p-0" aria-label={`Actions for ${survey.title}`}>
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem asChild>
+                      <Link href={`/surveys/${survey.id}`}>
+                        <Eye className="mr-2 h-4 w-4" />
+                        View Survey
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href={`/surveys/${survey.id}/results`}>
+                        <BarChart3 className="mr-2 h-4 w-4" />
+                        View Results
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => handleToggleStatus(survey.id, survey.is_active)}
+                      disabled={isPending}
+                    >
+                      {survey.is_active ? (
+                        <>
+                          <Pause className="mr-2 h-4 w-4" />
+                          Close
+                        </>
+                      ) : (
+                        <>
+                          <Play className="mr-2 h-4 w-4" />
+                          Reopen
+                        </>
+                      )}
+                    </DropdownMenuItem>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete Survey
+                        </DropdownMenuItem>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This action cannot be undone. This will permanently delete the survey
+                            &ldquo;{survey.title}&rdquo; and all of its responses.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleDelete(survey.id)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+              <span>{survey.question_count} questions</span>
+              <span>{survey.started} started</span>
+              <span>{survey.completed} completed</span>
+              {survey.expires_at && (
+                <span className="flex items-center">
+                  <Clock className="mr-1 h-4 w-4" />
+                  {new Date(survey.expires_at) > new Date() ? "Closes" : "Closed"}{" "}
+                  {new Date(survey.expires_at).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Completion rate</span>
+                <span>{survey.completion_rate}%</span>
+              </div>
+              <Progress value={survey.completion_rate} aria-label={`Completion rate ${survey.completion_rate}%`} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
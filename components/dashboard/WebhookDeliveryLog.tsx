@@ -0,0 +1,126 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RotateCcw } from "lucide-react";
+import { retryWebhookDelivery } from "@/lib/actions/webhooks";
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus } from "@/types/database";
+
+interface WebhookDeliveryLogProps {
+  deliveries: WebhookDelivery[];
+  webhooks: Webhook[];
+}
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  delivered: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+/**
+ * 📜 WEBHOOK DELIVERY LOG
+ *
+ * Recent webhook deliveries with their status, attempt count and the
+ * endpoint's last response. Failed deliveries can be queued again.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/dashboard/webhooks/page.tsx
+ */
+export function WebhookDeliveryLog({ deliveries, webhooks }: WebhookDeliveryLogProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const urls = new Map(webhooks.map(webhook => [webhook.id, webhook.url]));
+
+  const handleRetry = (deliveryId: string) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await retryWebhookDelivery(deliveryId);
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to retry delivery");
+      }
+    });
+  };
+
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No deliveries yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Queued</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Endpoint</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Last response</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries.map(delivery => (
+              <TableRow key={delivery.id}>
+                <TableCell className="whitespace-nowrap text-sm">
+                  {new Date(delivery.created_at).toLocaleString()}
+                </TableCell>
+                <TableCell className="font-mono text-xs">{delivery.event_type}</TableCell>
+                <TableCell className="max-w-[220px] truncate text-sm" title={urls.get(delivery.webhook_id)}>
+                  {urls.get(delivery.webhook_id) || "—"}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="secondary" className={STATUS_STYLES[delivery.status]}>
+                    {delivery.status}
+                  </Badge>
+                  {delivery.status === "pending" && delivery.attempt_count > 0 && (
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      Retrying {new Date(delivery.next_attempt_at).toLocaleTimeString()}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">{delivery.attempt_count}</TableCell>
+                <TableCell className="max-w-[240px] text-sm">
+                  {delivery.last_error ? (
+                    <span className="text-red-600">{delivery.last_error}</span>
+                  ) : delivery.response_status ? (
+                    <span>HTTP {delivery.response_status}</span>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {delivery.status === "failed" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRetry(delivery.id)}
+                      disabled={isPending}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Retry
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
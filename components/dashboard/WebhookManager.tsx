@@ -0,0 +1,335 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Check, Copy, Eye, EyeOff, Globe, Plus, RefreshCw, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import { createWebhook, deleteWebhook, rotateWebhookSecret, updateWebhook } from "@/lib/actions/webhooks";
+import { MAX_WEBHOOKS_PER_USER, WEBHOOK_EVENTS } from "@/lib/webhooks";
+import { Webhook, WebhookEvent } from "@/types/database";
+
+interface WebhookManagerProps {
+  webhooks: Webhook[];
+  currentUserId: string;
+  isAdmin: boolean;
+}
+
+/**
+ * 🪝 WEBHOOK MANAGER
+ *
+ * Registers webhook endpoints, chooses which poll events they receive, and
+ * shows the signing secret used to verify deliveries. Admins can also add
+ * global webhooks that receive events for every poll.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/dashboard/webhooks/page.tsx
+ * - Integrates with: lib/actions/webhooks.ts
+ */
+export function WebhookManager({ webhooks, currentUserId, isAdmin }: WebhookManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["poll.created", "vote.cast", "poll.closed"]);
+  const [isGlobal, setIsGlobal] = useState(false);
+
+  const ownCount = webhooks.filter(webhook => webhook.owner_id === currentUserId).length;
+
+  const toggleNewEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(checked ? [...events, event] : events.filter(e => e !== event));
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (events.length === 0) {
+      setError("Choose at least one event");
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await createWebhook({
+        url,
+        description,
+        events,
+        scope: isGlobal ? "global" : "own",
+      });
+
+      if (result.success) {
+        setUrl("");
+        setDescription("");
+        setIsGlobal(false);
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to add webhook");
+      }
+    });
+  };
+
+  const runAction = (action: () => Promise<{ success: boolean; error?: string }>, fallback: string) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || fallback);
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {webhooks.length === 0 ? (
+        <div className="text-center py-6">
+          <WebhookIcon className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No webhooks yet</h3>
+          <p className="text-muted-foreground">
+            Add an endpoint below to receive your polls&apos; events as they happen
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {webhooks.map(webhook => (
+            <WebhookRow
+              key={webhook.id}
+              webhook={webhook}
+              disabled={isPending}
+              onToggleActive={(isActive) =>
+                runAction(() => updateWebhook(webhook.id, { is_active: isActive }), "Failed to update webhook")
+              }
+              onToggleEvent={(event) => {
+                const next = webhook.events.includes(event)
+                  ? webhook.events.filter(e => e !== event)
+                  : [...webhook.events, event];
+                if (next.length === 0) {
+                  setError("A webhook needs at least one event; pause it instead");
+                  return;
+                }
+                runAction(() => updateWebhook(webhook.id, { events: next }), "Failed to update webhook");
+              }}
+              onRotate={() => runAction(() => rotateWebhookSecret(webhook.id), "Failed to rotate secret")}
+              onDelete={() => runAction(() => deleteWebhook(webhook.id), "Failed to delete webhook")}
+            />
+          ))}
+        </ul>
+      )}
+
+      {/* ➕ ADD WEBHOOK */}
+      {ownCount < MAX_WEBHOOKS_PER_USER && (
+        <form onSubmit={handleCreate} className="rounded-lg border p-4 space-y-4">
+          <h3 className="font-semibold">Add a webhook</h3>
+
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">Endpoint URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/hooks/polly"
+              maxLength={2000}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="webhook-description">Description (Optional)</Label>
+            <Input
+              id="webhook-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={200}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Events</Label>
+            {WEBHOOK_EVENTS.map(event => (
+              <div key={event.value} className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor={`event-${event.value}`}>
+                    {event.label} <span className="font-mono text-xs text-muted-foreground">{event.value}</span>
+                  </Label>
+                  <p className="text-sm text-gray-600">{event.description}</p>
+                </div>
+                <Switch
+                  id={`event-${event.value}`}
+                  checked={events.includes(event.value)}
+                  onCheckedChange={(checked: boolean) => toggleNewEvent(event.value, checked)}
+                />
+              </div>
+            ))}
+          </div>
+
+          {isAdmin && (
+            <div className="flex items-center justify-between border-t pt-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="webhook-global">Global webhook</Label>
+                <p className="text-sm text-gray-600">Receive events for every poll on the site, not just yours</p>
+              </div>
+              <Switch id="webhook-global" checked={isGlobal} onCheckedChange={setIsGlobal} />
+            </div>
+          )}
+
+          <Button type="submit" disabled={isPending || !url.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            {isPending ? "Adding..." : "Add Webhook"}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+interface WebhookRowProps {
+  webhook: Webhook;
+  disabled: boolean;
+  onToggleActive: (isActive: boolean) => void;
+  onToggleEvent: (event: WebhookEvent) => void;
+  onRotate: () => void;
+  onDelete: () => void;
+}
+
+/**
+ * One registered endpoint with its events, status and signing secret
+ */
+function WebhookRow({ webhook, disabled, onToggleActive, onToggleEvent, onRotate, onDelete }: WebhookRowProps) {
+  const [showSecret, setShowSecret] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const copySecret = async () => {
+    try {
+      await navigator.clipboard.writeText(webhook.secret);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <li className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="font-mono text-sm break-all">{webhook.url}</p>
+          {webhook.description && (
+            <p className="text-sm text-muted-foreground">{webhook.description}</p>
+          )}
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          {webhook.scope === "global" && (
+            <Badge variant="outline">
+              <Globe className="mr-1 h-3 w-3" />
+              Global
+            </Badge>
+          )}
+          <Switch
+            checked={webhook.is_active}
+            onCheckedChange={onToggleActive}
+            disabled={disabled}
+            aria-label={webhook.is_active ? "Pause webhook" : "Resume webhook"}
+          />
+          <span className="text-sm text-muted-foreground">{webhook.is_active ? "Active" : "Paused"}</span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {WEBHOOK_EVENTS.map(event => {
+          const subscribed = webhook.events.includes(event.value);
+          return (
+            <Button
+              key={event.value}
+              type="button"
+              size="sm"
+              variant={subscribed ? "default" : "outline"}
+              className="h-7 font-mono text-xs"
+              onClick={() => onToggleEvent(event.value)}
+              disabled={disabled}
+              aria-pressed={subscribed}
+              title={event.description}
+            >
+              {event.value}
+            </Button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <Input
+          value={showSecret ? webhook.secret : "•".repeat(32)}
+          readOnly
+          className="font-mono text-xs sm:flex-1"
+          aria-label="Signing secret"
+        />
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setShowSecret(!showSecret)} aria-label={showSecret ? "Hide secret" : "Show secret"}>
+            {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={copySecret} aria-label="Copy secret">
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button type="button" variant="outline" size="sm" disabled={disabled}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Rotate
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Rotate signing secret?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Deliveries will be signed with a new secret straight away. Update your endpoint
+                  with it to keep verifying signatures.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={onRotate}>Rotate</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button type="button" variant="outline" size="sm" disabled={disabled} aria-label="Delete webhook">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Events will no longer be sent to {webhook.url}, and its delivery log will be removed.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={onDelete}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+    </li>
+  );
+}
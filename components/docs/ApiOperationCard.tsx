@@ -0,0 +1,131 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ApiOperation, getOperationErrors, getOperationParameters } from "@/lib/openapi";
+import { cn } from "@/lib/utils";
+
+const METHOD_STYLES: Record<ApiOperation["method"], string> = {
+  get: "bg-blue-100 text-blue-800",
+  post: "bg-green-100 text-green-800",
+  put: "bg-amber-100 text-amber-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+interface ApiOperationCardProps {
+  operation: ApiOperation;
+}
+
+/**
+ * 📖 API OPERATION CARD
+ *
+ * One operation of the REST API reference: its method and path, required
+ * scope, parameters, request and response schemas, and the error codes it
+ * can return.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/docs/api/page.tsx
+ * - Data: lib/openapi.ts
+ */
+export function ApiOperationCard({ operation }: ApiOperationCardProps) {
+  const parameters = getOperationParameters(operation);
+  const errors = getOperationErrors(operation);
+
+  return (
+    <Card id={operation.operationId} className="scroll-mt-20">
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-2">
+          <span className={cn("rounded px-2 py-0.5 font-mono text-xs uppercase", METHOD_STYLES[operation.method])}>
+            {operation.method}
+          </span>
+          <code className="font-mono text-base">/api/v1{operation.path}</code>
+        </CardTitle>
+        <CardDescription>{operation.summary}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p>{operation.description}</p>
+
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline">API key scope: {operation.scope}</Badge>
+          <Badge variant="secondary">{operation.authRequired ? "Sign-in required" : "Anonymous allowed"}</Badge>
+        </div>
+
+        {parameters.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold">Parameters</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>In</TableHead>
+                  <TableHead>Schema</TableHead>
+                  <TableHead>Description</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {parameters.map(parameter => (
+                  <TableRow key={`${parameter.in}-${parameter.name}`}>
+                    <TableCell className="font-mono">
+                      {String(parameter.name)}
+                      {parameter.required === true && <span className="text-red-500">*</span>}
+                    </TableCell>
+                    <TableCell>{String(parameter.in)}</TableCell>
+                    <TableCell className="font-mono text-xs">{JSON.stringify(parameter.schema)}</TableCell>
+                    <TableCell className="text-muted-foreground">{String(parameter.description ?? "")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {operation.requestBody && (
+          <p>
+            <span className="font-semibold">Request body: </span>
+            <a href={`#schema-${operation.requestBody}`} className="font-mono text-blue-600 hover:underline">
+              {operation.requestBody}
+            </a>
+          </p>
+        )}
+
+        <p>
+          <span className="font-semibold">200: </span>
+          {operation.response.description}
+          {" — "}
+          {"schema" in operation.response ? (
+            <a href={`#schema-${operation.response.schema}`} className="font-mono text-blue-600 hover:underline">
+              {operation.response.schema}
+            </a>
+          ) : (
+            <span className="font-mono">{operation.response.contentTypes.join(", ")}</span>
+          )}
+        </p>
+
+        <div className="space-y-2">
+          <h3 className="font-semibold">Errors</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Status</TableHead>
+                <TableHead>Codes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {errors.map(([status, codes]) => (
+                <TableRow key={status}>
+                  <TableCell className="font-mono">{status}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {codes.map(code => (
+                        <code key={code} className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs">{code}</code>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
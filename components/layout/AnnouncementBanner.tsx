@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Megaphone, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/context/AuthContext";
+import { dismissAnnouncement, getActiveAnnouncements } from "@/lib/actions/announcements";
+import { Announcement } from "@/types/database";
+
+// Anonymous visitors keep their dismissals in this browser only
+const DISMISSED_STORAGE_KEY = "polly-dismissed-announcements";
+
+const readLocalDismissals = (): string[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(DISMISSED_STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * 📣 ANNOUNCEMENT BANNER
+ *
+ * Site-wide strip under the navbar showing the admin announcements that are
+ * live for the current visitor. Reloads when the user signs in or out, since
+ * the audience changes. Dismissals are saved to the account when signed in.
+ */
+export function AnnouncementBanner() {
+  const { user, loading } = useAuth();
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+
+  useEffect(() => {
+    if (loading) return;
+
+    let cancelled = false;
+    getActiveAnnouncements().then(active => {
+      if (cancelled) return;
+      const locallyDismissed = user ? [] : readLocalDismissals();
+      setAnnouncements(active.filter(announcement => !locallyDismissed.includes(announcement.id)));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, loading]);
+
+  const handleDismiss = async (announcementId: string) => {
+    setAnnouncements(current => current.filter(announcement => announcement.id !== announcementId));
+
+    if (user) {
+      const result = await dismissAnnouncement(announcementId);
+      if (!result.success) {
+        console.error("Failed to dismiss announcement:", result.error);
+      }
+    } else {
+      const dismissed = readLocalDismissals();
+      window.localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify([...dismissed, announcementId]));
+    }
+  };
+
+  if (announcements.length === 0) return null;
+
+  return (
+    <div className="border-b border-blue-200 bg-blue-50" role="region" aria-label="Announcements">
+      {announcements.map(announcement => (
+        <div key={announcement.id} className="container mx-auto flex items-start gap-3 px-4 py-2 text-sm text-blue-900">
+          <Megaphone className="h-4 w-4 mt-0.5 shrink-0" />
+          <p className="flex-1">
+            <span className="font-semibold">{announcement.title}</span>{" "}
+            <span className="whitespace-pre-line">{announcement.content}</span>
+          </p>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 text-blue-900 hover:bg-blue-100"
+            onClick={() => handleDismiss(announcement.id)}
+            aria-label={`Dismiss announcement: ${announcement.title}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -12,8 +12,10 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
-import { Menu, Home, PlusCircle, BarChart3, User, Settings, LogOut, Shield, Bell } from "lucide-react";
+import { Menu, Home, PlusCircle, BarChart3, User, Settings, LogOut, Shield, Bell, KeyRound, Code } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
+import { NotificationBell } from "@/components/layout/NotificationBell";
+import { PollSearch } from "@/components/layout/PollSearch";
 
 /**
  * 🧭 SECURE NAVIGATION COMPONENT
@@ -41,6 +43,8 @@ import { useAuth } from "@/context/AuthContext";
  * USAGE IN CODEBASE:
  * - Used in: app/layout.tsx (global navigation)
  * - Integrates with: context/AuthContext.tsx (authentication)
+ * - Notifications: components/layout/NotificationBell.tsx (in-app notification center)
+ * - Search: components/layout/PollSearch.tsx (full-text poll search with keyboard navigation)
  * - Navigation: Uses Next.js Link for client-side routing
  * - UI Components: shadcn/ui components for consistent design
  * 
@@ -152,6 +156,8 @@ export function Navbar() {
 
           {/* 👤 USER MENU / AUTHENTICATION SECTION: Context-aware user interface */}
           <div className="flex items-center space-x-4">
+            {/* 🔎 POLL SEARCH: Full-text search, "/" to focus */}
+            <PollSearch className="hidden md:block w-48 lg:w-64" />
             {/* 🛡️ ADMIN QUICK ACCESS: Standalone admin button for better visibility */}
             {session && userRole === 'admin' && (
               <Link href="/admin/dashboard">
@@ -161,6 +167,8 @@ export function Navbar() {
                 </Button>
               </Link>
             )}
+            {/* 🔔 NOTIFICATION CENTER: Unread in-app notifications */}
+            {session && user && <NotificationBell userId={user.id} />}
             {session ? (
               /* 🔐 AUTHENTICATED USER MENU: Dropdown with user actions */
               <DropdownMenu>
@@ -226,6 +234,20 @@ export function Navbar() {
                       Notification Settings
                     </Link>
                   </DropdownMenuItem>
+                  {/* 🔑 SECURITY SETTINGS: Two-factor authentication */}
+                  <DropdownMenuItem asChild>
+                    <Link href="/settings/security" className="flex items-center">
+                      <KeyRound className="mr-2 h-4 w-4" aria-hidden="true" />
+                      Security Settings
+                    </Link>
+                  </DropdownMenuItem>
+                  {/* 🧩 API KEYS: Personal keys for the REST API */}
+                  <DropdownMenuItem asChild>
+                    <Link href="/settings/api-keys" className="flex items-center">
+                      <Code className="mr-2 h-4 w-4" aria-hidden="true" />
+                      API Keys
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   {/* 🚪 LOGOUT ACTION: Secure user logout */}
                   <DropdownMenuItem 
@@ -280,6 +302,8 @@ export function Navbar() {
               </SheetTrigger>
               <SheetContent side="right" className="w-[300px] sm:w-[400px]">
                 <div className="flex flex-col space-y-4 mt-4">
+                  {/* 🔎 MOBILE SEARCH: Closes the menu after opening a result */}
+                  <PollSearch onNavigate={() => setIsSheetOpen(false)} />
                   {/* 🧭 MOBILE NAVIGATION LINKS: Full navigation for mobile */}
                   {navigation.map((item) => (
                     <Link
@@ -0,0 +1,112 @@
+"use client";
+
+import Link from "next/link";
+import { Bell, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useNotifications } from "@/lib/hooks/useNotifications";
+import { cn, formatRelativeTime } from "@/lib/utils";
+
+/**
+ * 🔔 NOTIFICATION BELL
+ *
+ * Navbar dropdown listing the signed-in user's latest in-app notifications,
+ * with an unread badge kept live by Supabase Realtime. Opening a
+ * notification marks it read; "Mark all read" clears the badge.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: components/layout/Navbar.tsx (signed-in users)
+ * - Data: lib/hooks/useNotifications.ts
+ */
+export function NotificationBell({ userId }: { userId: string }) {
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications(userId);
+  const badge = unreadCount > 9 ? "9+" : String(unreadCount);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications"}
+        >
+          <Bell className="h-5 w-5" aria-hidden="true" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+              {badge}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <div className="flex items-center justify-between px-2 py-1.5">
+          <p className="text-sm font-medium">Notifications</p>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={markAllRead}
+            >
+              <CheckCheck className="mr-1 h-3 w-3" aria-hidden="true" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+            You&apos;re all caught up
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                asChild
+                onSelect={() => markRead(notification.id)}
+              >
+                <Link
+                  href={notification.link || "/dashboard"}
+                  className="flex items-start gap-2 whitespace-normal"
+                >
+                  <span
+                    className={cn(
+                      "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                      notification.read_at ? "bg-transparent" : "bg-blue-500"
+                    )}
+                    aria-hidden="true"
+                  />
+                  <span className="flex flex-col gap-0.5">
+                    <span className={cn("text-sm", !notification.read_at && "font-medium")}>
+                      {notification.title}
+                    </span>
+                    {notification.body && (
+                      <span className="text-xs text-muted-foreground">{notification.body}</span>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      {formatRelativeTime(new Date(notification.created_at))}
+                    </span>
+                  </span>
+                </Link>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/settings/notifications" className="justify-center text-xs text-muted-foreground">
+            Notification settings
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
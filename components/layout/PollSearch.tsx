@@ -0,0 +1,230 @@
+"use client";
+
+import { useEffect, useId, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { HighlightSegment, PollSearchResult, SearchPollsResponse } from "@/types/database";
+
+const SEARCH_DEBOUNCE_MS = 200;
+const MIN_QUERY_LENGTH = 2;
+
+interface PollSearchProps {
+  className?: string;
+  /** Called after navigating to a result, e.g. to close the mobile menu */
+  onNavigate?: () => void;
+}
+
+function HighlightedText({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-100 px-0.5 text-foreground">{segment.text}</mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * 🔎 POLL SEARCH BOX
+ *
+ * Global search in the navbar. Results from /api/polls/search appear as
+ * you type, with matched words highlighted. Arrow keys move through the
+ * results, Enter opens the selected poll (or the full results on /polls),
+ * Escape closes the list, and "/" focuses the box from anywhere on the page.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: components/layout/Navbar.tsx (desktop bar and mobile menu)
+ * - Data: app/api/polls/search/route.ts
+ */
+export function PollSearch({ className, onNavigate }: PollSearchProps) {
+  const router = useRouter();
+  const listboxId = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<PollSearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const trimmedQuery = query.trim();
+
+  // Search as the user types, dropping responses for older queries
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/polls/search?q=${encodeURIComponent(trimmedQuery)}&limit=8`, {
+          signal: controller.signal,
+        });
+        const data: SearchPollsResponse | null = response.ok ? await response.json() : null;
+        setResults(data?.results || []);
+        setActiveIndex(-1);
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.error('[SEARCH] Poll search failed:', error);
+        setResults([]);
+      }
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [trimmedQuery]);
+
+  // "/" focuses the search box unless the user is already typing somewhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== "/" || event.metaKey || event.ctrlKey || event.altKey) return;
+
+      const target = event.target as HTMLElement | null;
+      if (target?.isContentEditable || target?.closest("input, textarea, select")) return;
+
+      event.preventDefault();
+      inputRef.current?.focus();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const navigate = (href: string) => {
+    setIsOpen(false);
+    setQuery("");
+    inputRef.current?.blur();
+    router.push(href);
+    onNavigate?.();
+  };
+
+  const openResult = (result: PollSearchResult) => navigate(`/polls/${result.id}`);
+
+  const showAllResults = () => {
+    if (trimmedQuery.length >= MIN_QUERY_LENGTH) {
+      navigate(`/polls?q=${encodeURIComponent(trimmedQuery)}`);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (results.length === 0 ? -1 : (index + 1) % results.length));
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        setActiveIndex(index => (results.length === 0 ? -1 : index <= 0 ? results.length - 1 : index - 1));
+        break;
+      case "Enter":
+        event.preventDefault();
+        if (isOpen && activeIndex >= 0 && results[activeIndex]) {
+          openResult(results[activeIndex]);
+        } else {
+          showAllResults();
+        }
+        break;
+      case "Escape":
+        if (isOpen) {
+          event.preventDefault();
+          setIsOpen(false);
+          setActiveIndex(-1);
+        } else {
+          inputRef.current?.blur();
+        }
+        break;
+    }
+  };
+
+  const showList = isOpen && trimmedQuery.length >= MIN_QUERY_LENGTH;
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" aria-hidden="true" />
+      <Input
+        ref={inputRef}
+        type="search"
+        role="combobox"
+        aria-label="Search polls"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listboxId}
+        aria-activedescendant={showList && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+        placeholder="Search polls..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        // Let clicks on a result land before the list closes
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        className="h-9 pl-9"
+        maxLength={100}
+      />
+
+      {showList && (
+        <div className="absolute left-0 right-0 top-full z-50 mt-1 min-w-[20rem] overflow-hidden rounded-md border bg-popover text-popover-foreground shadow-md">
+          <ul id={listboxId} role="listbox" aria-label="Poll search results" className="max-h-96 overflow-y-auto py-1">
+            {results.map((result, index) => (
+              <li
+                key={result.id}
+                id={optionId(index)}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => openResult(result)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  "cursor-pointer px-3 py-2 text-sm",
+                  index === activeIndex && "bg-accent text-accent-foreground"
+                )}
+              >
+                <p className="font-medium">
+                  <HighlightedText segments={result.title_highlight} />
+                </p>
+                {result.snippet.length > 0 && (
+                  <p className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">
+                    <HighlightedText segments={result.snippet} />
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+          {results.length === 0 && (
+            <p className="px-3 py-4 text-center text-sm text-muted-foreground">
+              {isSearching ? "Searching..." : "No polls found"}
+            </p>
+          )}
+          {results.length > 0 && (
+            <button
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={showAllResults}
+              className="w-full border-t px-3 py-2 text-left text-xs text-muted-foreground hover:bg-accent"
+            >
+              See all results for &quot;{trimmedQuery}&quot;
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
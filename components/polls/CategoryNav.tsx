@@ -0,0 +1,52 @@
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import { Tag } from "@/types/database";
+
+interface CategoryNavProps {
+  categories: Tag[];
+  /** Slug of the tag page being shown, if any */
+  activeSlug?: string;
+}
+
+const chipClassName = "rounded-full border px-3 py-1 text-sm transition-colors";
+
+/**
+ * 🗂️ CATEGORY NAV
+ *
+ * The admin-curated categories as chips above the poll listing, linking to
+ * each category's tag page. "All" goes back to the full listing.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/polls/page.tsx, app/polls/tag/[slug]/page.tsx
+ * - Data: lib/actions/tags.ts (getCategories)
+ */
+export function CategoryNav({ categories, activeSlug }: CategoryNavProps) {
+  if (categories.length === 0) return null;
+
+  return (
+    <nav aria-label="Categories" className="flex flex-wrap gap-2">
+      <Link
+        href="/polls"
+        aria-current={!activeSlug ? "page" : undefined}
+        className={cn(chipClassName, !activeSlug ? "border-primary bg-primary text-primary-foreground" : "bg-white hover:bg-accent")}
+      >
+        All
+      </Link>
+      {categories.map(category => {
+        const isActive = category.slug === activeSlug;
+
+        return (
+          <Link
+            key={category.id}
+            href={`/polls/tag/${category.slug}`}
+            aria-current={isActive ? "page" : undefined}
+            title={category.description || undefined}
+            className={cn(chipClassName, isActive ? "border-primary bg-primary text-primary-foreground" : "bg-white hover:bg-accent")}
+          >
+            {category.name}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
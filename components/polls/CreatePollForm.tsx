@@ -8,10 +8,14 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
-import { X, Plus, Calendar } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, Plus, Calendar, CalendarClock } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/context/AuthContext";
 import { createPoll } from "@/lib/actions/poll";
+import { MAX_TAGS_PER_POLL } from "@/lib/poll-tags";
+import { TagInput } from "./TagInput";
+import { PollStatus, PollType, PollVisibility, ResultsVisibility } from "@/types/database";
 
 /**
  * 📝 SECURE POLL CREATION FORM COMPONENT
@@ -118,6 +122,20 @@ interface CreatePollData {
   options: string[];
   /** Whether multiple choices are allowed */
   allow_multiple_choices: boolean;
+  /** Poll type: standard vote, ranked-choice (instant-runoff) or open-ended text */
+  poll_type: PollType;
+  /** Whether standard polls offer an "Other (please specify)" write-in */
+  allow_write_in: boolean;
+  /** Who can see results, and when */
+  results_visibility: ResultsVisibility;
+  /** Who can open the poll */
+  visibility: PollVisibility;
+  /** Eligible voters for private polls: emails or user ids, one per line */
+  eligible_voters: string;
+  /** Tag names; existing tags are matched by slug */
+  tags: string[];
+  /** Optional time voting opens; the poll is visible but closed until then */
+  opens_at?: string;
   /** Optional expiration date */
   expires_at?: string;
 }
@@ -134,6 +152,12 @@ export function CreatePollForm() {
     description: "",
     options: ["", ""], // Start with 2 empty options
     allow_multiple_choices: false,
+    poll_type: "standard",
+    allow_write_in: false,
+    results_visibility: "always",
+    visibility: "public",
+    eligible_voters: "",
+    tags: [],
   });
   
   // 🚨 ERROR STATE: Field-specific error messages
@@ -209,9 +233,9 @@ export function CreatePollForm() {
       newErrors.title = titleValidation.error!;
     }
 
-    // 📋 OPTIONS VALIDATION: Using secure validation function
+    // 📋 OPTIONS VALIDATION: Using secure validation function (text polls have none)
     const optionsValidation = validateOptions(pollData.options);
-    if (!optionsValidation.isValid) {
+    if (pollData.poll_type !== "text" && !optionsValidation.isValid) {
       newErrors.options = optionsValidation.error!;
     }
 
@@ -223,12 +247,19 @@ export function CreatePollForm() {
       }
     }
 
-    // 📅 EXPIRATION VALIDATION: Future date check
+    // 🗓️ OPENING VALIDATION: Future date check
+    if (pollData.opens_at && new Date(pollData.opens_at) <= new Date()) {
+      newErrors.opens_at = "Opening date must be in the future";
+    }
+
+    // 📅 EXPIRATION VALIDATION: Future date check, after the opening date
     if (pollData.expires_at) {
       const expirationDate = new Date(pollData.expires_at);
       const now = new Date();
       if (expirationDate <= now) {
         newErrors.expires_at = "Expiration date must be in the future";
+      } else if (pollData.opens_at && expirationDate <= new Date(pollData.opens_at)) {
+        newErrors.expires_at = "Expiration date must be after the opening date";
       }
     }
 
@@ -240,11 +271,9 @@ export function CreatePollForm() {
    * 🔐 SECURE FORM SUBMISSION HANDLER
    * 
    * Handles form submission with comprehensive security checks and validation
-   * @param e - Form submission event
+   * @param status - 'published' to go live (or schedule), 'draft' to save for later
    */
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
+  const submitPoll = async (status: PollStatus) => {
     // 🔒 AUTHENTICATION CHECK: Ensure user is logged in
     if (!user) {
       setErrors({ submit: "You must be logged in to create a poll" });
@@ -264,10 +293,20 @@ export function CreatePollForm() {
       const sanitizedData = {
         title: sanitizeInput(pollData.title).trim(),
         description: pollData.description ? sanitizeInput(pollData.description).trim() : undefined,
-        options: pollData.options
+        options: pollData.poll_type === "text" ? [] : pollData.options
           .map(opt => sanitizeInput(opt).trim())
           .filter(opt => opt.length > 0), // Remove empty options
-        allow_multiple_choices: pollData.allow_multiple_choices,
+        allow_multiple_choices: pollData.poll_type === "standard" ? pollData.allow_multiple_choices : false,
+        poll_type: pollData.poll_type,
+        allow_write_in: pollData.poll_type === "standard" ? pollData.allow_write_in : false,
+        results_visibility: pollData.results_visibility,
+        visibility: pollData.visibility,
+        eligible_voters: pollData.visibility === "private"
+          ? pollData.eligible_voters.split(/[\n,;]+/).map(entry => entry.trim()).filter(Boolean)
+          : undefined,
+        tags: pollData.tags.map(tag => sanitizeInput(tag).trim()).filter(Boolean),
+        status,
+        opens_at: pollData.opens_at ? new Date(pollData.opens_at).toISOString() : undefined,
         expires_at: pollData.expires_at || undefined,
       };
 
@@ -275,8 +314,8 @@ export function CreatePollForm() {
       const result = await createPoll(sanitizedData);
 
       if (result.success && result.pollId) {
-        // ✅ SUCCESS: Redirect to created poll
-        router.push(`/polls/${result.pollId}`);
+        // ✅ SUCCESS: Drafts go back to the dashboard, published polls open directly
+        router.push(status === "draft" ? "/dashboard" : `/polls/${result.pollId}`);
       } else {
         // ❌ FAILURE: Display user-friendly error
         setErrors({
@@ -294,6 +333,11 @@ export function CreatePollForm() {
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitPoll("published");
+  };
+
   // 🎨 COMPONENT RENDER: Secure poll creation form with comprehensive validation
   return (
     <Card className="w-full max-w-2xl mx-auto">
@@ -364,7 +408,23 @@ export function CreatePollForm() {
             )}
           </div>
 
-          {/* 📋 POLL OPTIONS INPUT: Dynamic options with validation */}
+          {/* 🏷️ POLL TAGS INPUT: Optional tags with autocomplete from existing tags */}
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags (Optional)</Label>
+            <TagInput
+              id="tags"
+              value={pollData.tags}
+              onChange={(tags) => setPollData({ ...pollData, tags })}
+              disabled={isLoading}
+              aria-describedby="tags-help"
+            />
+            <p id="tags-help" className="text-sm text-muted-foreground">
+              Up to {MAX_TAGS_PER_POLL} tags help people find your poll. Press Enter or a comma to add one.
+            </p>
+          </div>
+
+          {/* 📋 POLL OPTIONS INPUT: Dynamic options with validation (not used by text polls) */}
+          {pollData.poll_type !== "text" && (
           <div className="space-y-2">
             <Label>Options *</Label>
             {errors.options && (
@@ -418,29 +478,172 @@ export function CreatePollForm() {
               </Button>
             )}
           </div>
+          )}
 
           {/* ⚙️ POLL SETTINGS SECTION: Configuration options */}
           <div className="space-y-4 p-4 border rounded-lg bg-gray-50">
             <h3 className="font-medium">Poll Settings</h3>
             
-            {/* 🗳️ MULTIPLE CHOICE SETTING: Allow multiple selections */}
+            {/* 🏆 RANKED CHOICE SETTING: Instant-runoff voting */}
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
-                <Label htmlFor="multiple-choice">Allow Multiple Choices</Label>
+                <Label htmlFor="ranked-choice">Ranked Choice</Label>
                 <p className="text-sm text-gray-600">
-                  Let users select more than one option
+                  Voters rank the options and the winner is decided by instant-runoff
                 </p>
               </div>
               <Switch
-                id="multiple-choice"
-                checked={pollData.allow_multiple_choices}
-                onCheckedChange={(checked: boolean) => 
-                  setPollData({ ...pollData, allow_multiple_choices: checked })
+                id="ranked-choice"
+                checked={pollData.poll_type === "ranked"}
+                onCheckedChange={(checked: boolean) =>
+                  setPollData({ ...pollData, poll_type: checked ? "ranked" : "standard" })
                 }
-                aria-describedby="multiple-choice-description"
               />
             </div>
 
+            {/* ✍️ OPEN-ENDED SETTING: Voters write their own answer instead of picking options */}
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="text-answers">Open-ended Answers</Label>
+                <p className="text-sm text-gray-600">
+                  Voters write a free-text answer; you approve answers before they are shown
+                </p>
+              </div>
+              <Switch
+                id="text-answers"
+                checked={pollData.poll_type === "text"}
+                onCheckedChange={(checked: boolean) =>
+                  setPollData({ ...pollData, poll_type: checked ? "text" : "standard" })
+                }
+              />
+            </div>
+
+            {/* 📝 WRITE-IN SETTING: "Other (please specify)" choice on standard polls */}
+            {pollData.poll_type === "standard" && (
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="write-in">Allow Write-in</Label>
+                  <p className="text-sm text-gray-600">
+                    Add an &ldquo;Other (please specify)&rdquo; choice; you can merge similar answers into options
+                  </p>
+                </div>
+                <Switch
+                  id="write-in"
+                  checked={pollData.allow_write_in}
+                  onCheckedChange={(checked: boolean) =>
+                    setPollData({ ...pollData, allow_write_in: checked })
+                  }
+                />
+              </div>
+            )}
+
+            {/* 🗳️ MULTIPLE CHOICE SETTING: Allow multiple selections (standard polls only) */}
+            {pollData.poll_type === "standard" && (
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="multiple-choice">Allow Multiple Choices</Label>
+                  <p className="text-sm text-gray-600">
+                    Let users select more than one option
+                  </p>
+                </div>
+                <Switch
+                  id="multiple-choice"
+                  checked={pollData.allow_multiple_choices}
+                  onCheckedChange={(checked: boolean) => 
+                    setPollData({ ...pollData, allow_multiple_choices: checked })
+                  }
+                  aria-describedby="multiple-choice-description"
+                />
+              </div>
+            )}
+
+            {/* 🔐 POLL VISIBILITY SETTING: Listing and access control */}
+            <div className="space-y-2">
+              <Label htmlFor="poll-visibility">Visibility</Label>
+              <Select
+                value={pollData.visibility}
+                onValueChange={(value: PollVisibility) =>
+                  setPollData({ ...pollData, visibility: value })
+                }
+              >
+                <SelectTrigger id="poll-visibility" className="w-full bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="public">Public</SelectItem>
+                  <SelectItem value="unlisted">Unlisted (anyone with the link)</SelectItem>
+                  <SelectItem value="private">Private (invited voters only)</SelectItem>
+                </SelectContent>
+              </Select>
+              {pollData.visibility === "private" && (
+                <>
+                  <Textarea
+                    id="eligible-voters"
+                    value={pollData.eligible_voters}
+                    onChange={(e) => setPollData({ ...pollData, eligible_voters: e.target.value })}
+                    placeholder={"alice@example.com\nbob@example.com"}
+                    rows={3}
+                    aria-describedby="eligible-voters-help"
+                  />
+                  <p id="eligible-voters-help" className="text-sm text-gray-600">
+                    Emails or user ids of eligible voters, one per line. You can also share invite links after creating the poll.
+                  </p>
+                </>
+              )}
+            </div>
+
+            {/* 👁️ RESULTS VISIBILITY SETTING: Enforced server-side, not just hidden here */}
+            <div className="space-y-2">
+              <Label htmlFor="results-visibility">Results Visibility</Label>
+              <Select
+                value={pollData.results_visibility}
+                onValueChange={(value: ResultsVisibility) =>
+                  setPollData({ ...pollData, results_visibility: value })
+                }
+              >
+                <SelectTrigger id="results-visibility" className="w-full bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="always">Always visible</SelectItem>
+                  <SelectItem value="after_vote">After voting</SelectItem>
+                  <SelectItem value="after_close">After the poll closes</SelectItem>
+                  <SelectItem value="creator_only">Only me</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-600">
+                Choose who can see vote counts while the poll is running
+              </p>
+            </div>
+
+            {/* 🗓️ OPENING DATE SETTING: Optional scheduled opening */}
+            <div className="space-y-2">
+              <Label htmlFor="opens-at">
+                <CalendarClock className="inline mr-1 h-4 w-4" />
+                Opening Date (Optional)
+              </Label>
+              <Input
+                id="opens-at"
+                type="datetime-local"
+                value={pollData.opens_at || ""}
+                onChange={(e) => {
+                  setPollData({ ...pollData, opens_at: e.target.value });
+                  if (errors.opens_at) {
+                    setErrors({ ...errors, opens_at: "" });
+                  }
+                }}
+                min={new Date().toISOString().slice(0, 16)}
+                className={errors.opens_at ? "border-red-500" : ""}
+                aria-describedby={errors.opens_at ? "opens-error" : "opens-help"}
+              />
+              {errors.opens_at && (
+                <p id="opens-error" className="text-sm text-red-500">{errors.opens_at}</p>
+              )}
+              <p id="opens-help" className="text-sm text-gray-600">
+                The poll is visible before this time, but voting only starts once it opens
+              </p>
+            </div>
+
             {/* 📅 EXPIRATION DATE SETTING: Optional poll expiration */}
             <div className="space-y-2">
               <Label htmlFor="expires-at">
@@ -466,7 +669,7 @@ export function CreatePollForm() {
                 <p id="expires-error" className="text-sm text-red-500">{errors.expires_at}</p>
               )}
               <p id="expires-help" className="text-sm text-gray-600">
-                Leave empty for polls that never expire
+                Leave empty to use the site&apos;s default expiry period
               </p>
             </div>
           </div>
@@ -482,6 +685,16 @@ export function CreatePollForm() {
             >
               Cancel
             </Button>
+            {/* 💾 DRAFT BUTTON: Save without publishing */}
+            <Button
+              type="button"
+              variant="secondary"
+              className="flex-1"
+              onClick={() => submitPoll("draft")}
+              disabled={isLoading || !user}
+            >
+              Save as Draft
+            </Button>
             {/* 📤 SUBMIT BUTTON: Primary action with loading state */}
             <Button
               type="submit"
@@ -489,7 +702,7 @@ export function CreatePollForm() {
               disabled={isLoading || !user}
               aria-label={isLoading ? "Creating poll..." : "Create poll"}
             >
-              {isLoading ? "Creating..." : "Create Poll"}
+              {isLoading ? "Creating..." : pollData.opens_at ? "Schedule Poll" : "Create Poll"}
             </Button>
           </div>
         </form>
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertTriangle, ArrowDown, ArrowUp, Plus, X } from "lucide-react";
+import { updatePoll } from "@/lib/actions/poll-revisions";
+import { MAX_POLL_OPTIONS } from "@/lib/poll-revisions";
+import { Poll } from "@/types/database";
+
+interface EditPollFormProps {
+  poll: Poll;
+}
+
+interface EditableOption {
+  /** Existing option id; undefined for options added in this edit */
+  id?: string;
+  text: string;
+  /** Votes currently on the option (existing options only) */
+  voteCount: number;
+  /** Stable React key, since ids are missing for new options */
+  key: string;
+}
+
+/**
+ * ✏️ POLL EDIT FORM
+ *
+ * Edits a poll's title, description and options after creation. Every save
+ * is stored as a revision shown in the poll's public history. Renaming or
+ * reordering keeps votes; removing an option deletes its votes and asks the
+ * affected voters to vote again, so the form warns before that happens.
+ */
+export function EditPollForm({ poll }: EditPollFormProps) {
+  const router = useRouter();
+  const [title, setTitle] = useState(poll.title);
+  const [description, setDescription] = useState(poll.description || "");
+  const [options, setOptions] = useState<EditableOption[]>(
+    poll.options.map(option => ({
+      id: option.id,
+      text: option.text,
+      voteCount: option.vote_count || 0,
+      key: option.id,
+    }))
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const keptIds = new Set(options.map(option => option.id).filter(Boolean));
+  const removedOptions = poll.options.filter(option => !keptIds.has(option.id));
+  const removedVotes = removedOptions.reduce((total, option) => total + (option.vote_count || 0), 0);
+
+  const updateOption = (index: number, text: string) => {
+    setOptions(options.map((option, i) => (i === index ? { ...option, text } : option)));
+  };
+
+  const moveOption = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= options.length) return;
+    const reordered = [...options];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setOptions(reordered);
+  };
+
+  const removeOption = (index: number) => {
+    if (options.length <= 2) return;
+    setOptions(options.filter((_, i) => i !== index));
+  };
+
+  const addOption = () => {
+    if (options.length >= MAX_POLL_OPTIONS) return;
+    setOptions([...options, { text: "", voteCount: 0, key: `new-${Date.now()}` }]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    // Open-ended polls only edit their title and description
+    const isText = poll.poll_type === "text";
+    const trimmed = isText ? [] : options.map(option => option.text.trim());
+    if (!title.trim()) {
+      setError("Title is required");
+      return;
+    }
+    if (trimmed.some(text => !text)) {
+      setError("All options must have text");
+      return;
+    }
+    if (new Set(trimmed).size !== trimmed.length) {
+      setError("Duplicate options are not allowed");
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await updatePoll(poll.id, {
+        title: title.trim(),
+        description: description.trim() || null,
+        options: isText ? undefined : options.map(option => ({ id: option.id, text: option.text.trim() })),
+      });
+
+      if (result.success) {
+        router.push(`/polls/${poll.id}`);
+      } else {
+        setError(result.error || "Failed to update poll");
+      }
+    });
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="text-2xl">Edit Poll</CardTitle>
+        <CardDescription>
+          Changes are saved as a new revision and shown in the poll&apos;s edit history
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {error && (
+            <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-title">Poll Title</Label>
+            <Input
+              id="edit-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={200}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-description">Description (Optional)</Label>
+            <Textarea
+              id="edit-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={1000}
+              rows={3}
+            />
+          </div>
+
+          {/* 📋 OPTIONS: rename, reorder, add and remove (not used by text polls) */}
+          {poll.poll_type !== "text" && (
+          <div className="space-y-4">
+            <Label>Poll Options</Label>
+            <div className="space-y-3">
+              {options.map((option, index) => (
+                <div key={option.key} className="flex items-center space-x-2">
+                  <Badge variant="outline" className="min-w-[24px] h-6 text-xs">
+                    {index + 1}
+                  </Badge>
+                  <Input
+                    value={option.text}
+                    onChange={(e) => updateOption(index, e.target.value)}
+                    placeholder={`Option ${index + 1}`}
+                    className="flex-1"
+                    maxLength={200}
+                    aria-label={`Poll option ${index + 1}`}
+                  />
+                  {option.id && (
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {option.voteCount} {option.voteCount === 1 ? "vote" : "votes"}
+                    </span>
+                  )}
+                  <Button type="button" variant="ghost" size="sm" onClick={() => moveOption(index, -1)} disabled={index === 0} aria-label="Move up">
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => moveOption(index, 1)} disabled={index === options.length - 1} aria-label="Move down">
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  {options.length > 2 && (
+                    <Button type="button" variant="outline" size="sm" onClick={() => removeOption(index)} aria-label={`Remove option ${index + 1}`}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {options.length < MAX_POLL_OPTIONS && (
+              <Button type="button" variant="outline" onClick={addOption} className="w-full">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Option
+              </Button>
+            )}
+          </div>
+          )}
+
+          {/* ⚠️ REMOVAL WARNING: removed options take their votes with them */}
+          {removedOptions.length > 0 && (
+            <div className="flex items-start space-x-2 p-3 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                Removing {removedOptions.map(option => `“${option.text}”`).join(", ")}
+                {removedVotes > 0
+                  ? ` deletes ${removedVotes} ${removedVotes === 1 ? "vote" : "votes"}. Those voters will be notified and asked to vote again.`
+                  : "."}
+              </span>
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              onClick={() => router.back()}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" className="flex-1" disabled={isPending}>
+              {isPending ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
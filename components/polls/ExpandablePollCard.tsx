@@ -9,6 +9,7 @@ import { CalendarDays, Users, BarChart3, Clock, ChevronDown, ChevronUp, External
 import { Poll } from "@/types/database";
 import { VotingComponent } from "./VotingComponent";
 import { SharePollDialog } from "./SharePollDialog";
+import { PollTagBadges } from "./PollTagBadges";
 import { getUserVotesForPoll, checkIfUserCanVote, getPollWithResults } from "@/lib/actions/poll";
 
 interface ExpandablePollCardProps {
@@ -110,6 +111,7 @@ export function ExpandablePollCard({ poll: initialPoll }: ExpandablePollCardProp
                 {poll.description}
               </CardDescription>
             )}
+            <PollTagBadges tags={poll.tags} className="mt-2" />
           </div>
           <div className="flex flex-col items-end space-y-2">
             {expired && (
@@ -149,7 +151,7 @@ export function ExpandablePollCard({ poll: initialPoll }: ExpandablePollCardProp
           <div className="flex items-center space-x-4">
             <div className="flex items-center">
               <Users className="mr-1 h-4 w-4" />
-              <span>{poll.total_votes || 0} votes</span>
+              <span>{poll.results_hidden ? 'Results hidden' : `${poll.total_votes || 0} votes`}</span>
             </div>
             <div className="flex items-center">
               <BarChart3 className="mr-1 h-4 w-4" />
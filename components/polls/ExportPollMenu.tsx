@@ -0,0 +1,50 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+
+export const EXPORT_FORMAT_LABELS = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel (XLSX)" },
+  { format: "json", label: "JSON" },
+] as const;
+
+interface ExportPollMenuProps {
+  /** Export endpoint, e.g. /api/polls/{id}/export or /api/polls/export */
+  href: string;
+  /** Button label; omitted for an icon-only button */
+  label?: string;
+  /** Tooltip for the trigger button */
+  title?: string;
+}
+
+/**
+ * 📤 EXPORT POLL MENU
+ *
+ * Dropdown of download links for a poll export endpoint, one per format.
+ * Downloads are plain links so the browser handles the file and session cookie.
+ */
+export function ExportPollMenu({ href, label, title }: ExportPollMenuProps) {
+  const separator = href.includes("?") ? "&" : "?";
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" title={title || label || "Export results"}>
+          <Download className={label ? "mr-2 h-4 w-4" : "h-4 w-4"} />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMAT_LABELS.map(({ format, label: formatLabel }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={`${href}${separator}format=${format}`} download>
+              {formatLabel}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { History } from "lucide-react";
+import { diffPollRevisions, PollRevisionChange } from "@/lib/poll-revisions";
+import { PollRevision } from "@/types/database";
+
+interface PollHistoryProps {
+  revisions: PollRevision[];
+}
+
+const describeChange = (change: PollRevisionChange): string => {
+  switch (change.type) {
+    case 'title':
+      return `Title changed from “${change.from}” to “${change.to}”`;
+    case 'description':
+      if (!change.from) return 'Description added';
+      if (!change.to) return 'Description removed';
+      return 'Description changed';
+    case 'option_added':
+      return `Option added: “${change.text}”`;
+    case 'option_removed':
+      return `Option removed: “${change.text}” (its votes were discarded)`;
+    case 'option_renamed':
+      return `Option renamed from “${change.from}” to “${change.to}”`;
+    case 'options_reordered':
+      return 'Options reordered';
+  }
+};
+
+/**
+ * 🕓 POLL EDIT HISTORY
+ *
+ * "Edited" badge for polls changed after creation. Opens a dialog listing each
+ * revision, newest first, as a diff against the revision before it.
+ */
+export function PollHistory({ revisions }: PollHistoryProps) {
+  // Revision 0 is the original poll; nothing to show until there is an edit
+  if (revisions.length < 2) return null;
+
+  const edits = revisions.slice(1).map((revision, index) => ({
+    revision,
+    changes: diffPollRevisions(revisions[index].snapshot, revision.snapshot),
+  })).reverse();
+
+  const lastEdited = new Date(revisions[revisions.length - 1].created_at);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title={`Last edited ${lastEdited.toLocaleString()}`}>
+          <History className="mr-2 h-4 w-4" />
+          Edited
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>
+            This poll has been edited {edits.length} {edits.length === 1 ? "time" : "times"} since it was created.
+          </DialogDescription>
+        </DialogHeader>
+        <ol className="space-y-4">
+          {edits.map(({ revision, changes }) => (
+            <li key={revision.id} className="border-l-2 pl-3">
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant="outline">Revision {revision.revision_number}</Badge>
+                <span className="text-muted-foreground">
+                  {new Date(revision.created_at).toLocaleString()}
+                </span>
+              </div>
+              <ul className="mt-2 space-y-1 text-sm">
+                {changes.map((change, index) => (
+                  <li key={index}>{describeChange(change)}</li>
+                ))}
+              </ul>
+            </li>
+          ))}
+          <li className="border-l-2 pl-3 text-sm text-muted-foreground">
+            Created {new Date(revisions[0].created_at).toLocaleString()} with{" "}
+            {revisions[0].snapshot.options.map(option => `“${option.text}”`).join(", ")}
+          </li>
+        </ol>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+import Link from "next/link";
+import { Tag as TagIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { PollTag } from "@/types/database";
+
+interface PollTagBadgesProps {
+  tags?: PollTag[];
+  className?: string;
+}
+
+/**
+ * 🏷️ POLL TAG BADGES
+ *
+ * A poll's tags as links to their tag pages. Categories are filled,
+ * free-form tags outlined.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: components/polls/ExpandablePollCard.tsx, components/polls/VotingComponent.tsx
+ */
+export function PollTagBadges({ tags, className }: PollTagBadgesProps) {
+  if (!tags?.length) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-1.5", className)}>
+      {tags.map(tag => (
+        <Badge key={tag.id} variant={tag.is_category ? "secondary" : "outline"} asChild>
+          <Link href={`/polls/tag/${tag.slug}`}>
+            {tag.is_category && <TagIcon className="h-3 w-3" />}
+            {tag.name}
+          </Link>
+        </Badge>
+      ))}
+    </div>
+  );
+}
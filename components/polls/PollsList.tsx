@@ -1,160 +1,230 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { PollCard } from "./PollCard";
-import { Search, Filter, Plus } from "lucide-react";
+import { ExpandablePollCard } from "./ExpandablePollCard";
+import { BarChart3, Search, Filter, Plus } from "lucide-react";
 import Link from "next/link";
-import type { Poll } from "@/types";
+import { listPolls } from "@/lib/actions/poll";
+import type { PollListFilters, PollListPage, PollListSort, PollListStatus } from "@/types/database";
 
 interface PollsListProps {
-  polls: Poll[];
-  onVote?: (pollId: string, optionIds: string[]) => Promise<void>;
-  userVotes?: Record<string, string[]>;
-  isLoading?: boolean;
+  initialPage: PollListPage;
+  initialSearch?: string;
+  /** Tag slug every page is limited to, e.g. on a tag page */
+  tag?: string;
+  isSignedIn?: boolean;
   showCreateButton?: boolean;
 }
 
-type SortOption = "newest" | "oldest" | "mostVotes" | "expiringSoon";
-type FilterOption = "all" | "active" | "expired" | "myPolls";
+type ScopeOption = "all" | "mine" | "voted";
+type CreatedOption = "any" | "day" | "week" | "month";
 
-export function PollsList({ 
-  polls, 
-  onVote, 
-  userVotes = {}, 
-  isLoading = false,
-  showCreateButton = true 
+const SEARCH_DEBOUNCE_MS = 300;
+
+const CREATED_WITHIN_MS: Record<Exclude<CreatedOption, "any">, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * 📋 POLLS LIST
+ *
+ * The public poll listing. Full-text search, tag, status, scope, creation
+ * date and sort are applied on the server through `listPolls`; more polls
+ * load as the end of the list scrolls into view, using the cursor from the
+ * previous page.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/polls/page.tsx, app/polls/tag/[slug]/page.tsx
+ * - Integrates with: lib/actions/poll.ts (listPolls)
+ */
+export function PollsList({
+  initialPage,
+  initialSearch = "",
+  tag,
+  isSignedIn = false,
+  showCreateButton = true
 }: PollsListProps) {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [sortBy, setSortBy] = useState<SortOption>("newest");
-  const [filterBy, setFilterBy] = useState<FilterOption>("all");
-
-  const filteredAndSortedPolls = polls
-    .filter(poll => {
-      // Search filter
-      if (searchTerm) {
-        const searchLower = searchTerm.toLowerCase();
-        if (
-          !poll.title.toLowerCase().includes(searchLower) &&
-          !poll.description?.toLowerCase().includes(searchLower) &&
-          !poll.creator.username.toLowerCase().includes(searchLower)
-        ) {
-          return false;
-        }
-      }
+  const [searchTerm, setSearchTerm] = useState(initialSearch);
+  const [search, setSearch] = useState(initialSearch);
+  const [sortBy, setSortBy] = useState<PollListSort>("newest");
+  const [statusFilter, setStatusFilter] = useState<PollListStatus>("all");
+  const [scope, setScope] = useState<ScopeOption>("all");
+  const [createdWithin, setCreatedWithin] = useState<CreatedOption>("any");
 
-      // Status filter
-      if (filterBy === "active") {
-        return poll.isActive && (!poll.expiresAt || new Date(poll.expiresAt) > new Date());
-      }
-      if (filterBy === "expired") {
-        return !poll.isActive || (poll.expiresAt && new Date(poll.expiresAt) <= new Date());
-      }
-      // TODO: Implement myPolls filter when user context is available
-      // if (filterBy === "myPolls") {
-      //   return poll.creatorId === currentUserId;
-      // }
-
-      return true;
-    })
-    .sort((a, b) => {
-      switch (sortBy) {
-        case "oldest":
-          return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-        case "mostVotes":
-          return b.totalVotes - a.totalVotes;
-        case "expiringSoon":
-          if (!a.expiresAt && !b.expiresAt) return 0;
-          if (!a.expiresAt) return 1;
-          if (!b.expiresAt) return -1;
-          return new Date(a.expiresAt).getTime() - new Date(b.expiresAt).getTime();
-        case "newest":
-        default:
-          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  const [polls, setPolls] = useState(initialPage.polls);
+  const [nextCursor, setNextCursor] = useState(initialPage.nextCursor);
+  const [hasMore, setHasMore] = useState(initialPage.hasMore);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Responses for filters that have since changed are dropped
+  const requestIdRef = useRef(0);
+  const isFirstRender = useRef(true);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Search once typing pauses; fewer than two characters means no search
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const trimmed = searchTerm.trim();
+      setSearch(trimmed.length >= 2 ? trimmed : "");
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const buildFilters = useCallback((): PollListFilters => ({
+    search: search || undefined,
+    tag,
+    sort: sortBy,
+    status: statusFilter,
+    mine: scope === "mine",
+    voted: scope === "voted",
+    created_after: createdWithin === "any"
+      ? undefined
+      : new Date(Date.now() - CREATED_WITHIN_MS[createdWithin]).toISOString(),
+  }), [search, tag, sortBy, statusFilter, scope, createdWithin]);
+
+  // Start again from the first page whenever the filters change
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    listPolls(buildFilters()).then(page => {
+      if (requestId !== requestIdRef.current) return;
+      setPolls(page.polls);
+      setNextCursor(page.nextCursor);
+      setHasMore(page.hasMore);
+      setError(page.error || null);
+      setIsLoading(false);
+    });
+  }, [buildFilters]);
+
+  const loadMore = useCallback(() => {
+    if (!nextCursor || isLoading || isLoadingMore) return;
+
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+
+    listPolls(buildFilters(), nextCursor).then(page => {
+      if (requestId !== requestIdRef.current) return;
+      if (page.error) {
+        setError(page.error);
+        setHasMore(false);
+      } else {
+        // A poll can move between pages while vote counts change
+        setPolls(current => {
+          const seen = new Set(current.map(poll => poll.id));
+          return [...current, ...page.polls.filter(poll => !seen.has(poll.id))];
+        });
+        setNextCursor(page.nextCursor);
+        setHasMore(page.hasMore);
       }
+      setIsLoadingMore(false);
     });
+  }, [buildFilters, nextCursor, isLoading, isLoadingMore]);
 
-  const handleVote = async (pollId: string, optionIds: string[]) => {
-    if (onVote) {
-      await onVote(pollId, optionIds);
-    }
-  };
+  // Infinite scroll: load the next page when the end of the list is visible
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) {
+        loadMore();
+      }
+    }, { rootMargin: "200px" });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  const isFiltered = !!search || !!tag || statusFilter !== "all" || scope !== "all" || createdWithin !== "any";
 
   return (
     <div className="space-y-6">
-      {/* Header */}
-      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-        <div>
-          <h1 className="text-3xl font-bold">Polls</h1>
-          <p className="text-muted-foreground">
-            Discover and participate in community polls
-          </p>
-        </div>
-        {showCreateButton && (
-          <Link href="/polls/create">
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Create Poll
-            </Button>
-          </Link>
-        )}
-      </div>
-
       {/* Filters and Search */}
-      <div className="flex flex-col sm:flex-row gap-4">
+      <div className="flex flex-col gap-4">
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
             placeholder="Search polls..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10"
+            className="pl-10 bg-white"
+            aria-label="Search polls"
+            maxLength={100}
           />
         </div>
-        
-        <div className="flex gap-2">
-          <Select value={filterBy} onValueChange={(value: FilterOption) => setFilterBy(value)}>
-            <SelectTrigger className="w-[140px]">
+
+        <div className="flex flex-wrap gap-2">
+          <Select value={statusFilter} onValueChange={(value: PollListStatus) => setStatusFilter(value)}>
+            <SelectTrigger className="w-[140px] bg-white" aria-label="Status">
               <Filter className="h-4 w-4 mr-2" />
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Polls</SelectItem>
-              <SelectItem value="active">Active</SelectItem>
-              <SelectItem value="expired">Expired</SelectItem>
-              <SelectItem value="myPolls">My Polls</SelectItem>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="upcoming">Upcoming</SelectItem>
+              <SelectItem value="closed">Closed</SelectItem>
             </SelectContent>
           </Select>
 
-          <Select value={sortBy} onValueChange={(value: SortOption) => setSortBy(value)}>
-            <SelectTrigger className="w-[160px]">
+          {isSignedIn && (
+            <Select value={scope} onValueChange={(value: ScopeOption) => setScope(value)}>
+              <SelectTrigger className="w-[160px] bg-white" aria-label="Show">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everyone&apos;s Polls</SelectItem>
+                <SelectItem value="mine">My Polls</SelectItem>
+                <SelectItem value="voted">Voted On</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          <Select value={createdWithin} onValueChange={(value: CreatedOption) => setCreatedWithin(value)}>
+            <SelectTrigger className="w-[150px] bg-white" aria-label="Created">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any Time</SelectItem>
+              <SelectItem value="day">Past Day</SelectItem>
+              <SelectItem value="week">Past Week</SelectItem>
+              <SelectItem value="month">Past Month</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select value={sortBy} onValueChange={(value: PollListSort) => setSortBy(value)}>
+            <SelectTrigger className="w-[160px] bg-white" aria-label="Sort">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="newest">Newest First</SelectItem>
-              <SelectItem value="oldest">Oldest First</SelectItem>
-              <SelectItem value="mostVotes">Most Votes</SelectItem>
-              <SelectItem value="expiringSoon">Expiring Soon</SelectItem>
+              <SelectItem value="most_votes">Most Votes</SelectItem>
+              <SelectItem value="ending_soon">Ending Soon</SelectItem>
             </SelectContent>
           </Select>
         </div>
       </div>
 
-      {/* Stats */}
-      <div className="flex gap-4">
-        <Badge variant="secondary">
-          {filteredAndSortedPolls.length} polls
-        </Badge>
-        <Badge variant="outline">
-          {polls.filter(p => p.isActive).length} active
-        </Badge>
-        <Badge variant="outline">
-          {polls.reduce((sum, p) => sum + p.totalVotes, 0)} total votes
-        </Badge>
-      </div>
+      {error && (
+        <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
 
       {/* Polls List */}
       <div className="space-y-4">
@@ -163,34 +233,45 @@ export function PollsList({
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
             <p className="mt-2 text-muted-foreground">Loading polls...</p>
           </div>
-        ) : filteredAndSortedPolls.length === 0 ? (
-          <div className="text-center py-8">
-            <p className="text-muted-foreground">
-              {searchTerm || filterBy !== "all" 
-                ? "No polls found matching your criteria." 
-                : "No polls available yet."
-              }
-            </p>
-            {showCreateButton && !searchTerm && filterBy === "all" && (
-              <Link href="/polls/create">
-                <Button className="mt-4">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Create the First Poll
-                </Button>
-              </Link>
-            )}
-          </div>
+        ) : polls.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-center">
+                <BarChart3 className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <p className="text-gray-500 mb-4">
+                  {isFiltered
+                    ? "No polls found matching your criteria."
+                    : "No polls yet. Be the first to create a poll and start gathering opinions!"
+                  }
+                </p>
+                {showCreateButton && !isFiltered && (
+                  <Link href="/polls/create">
+                    <Button>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Create the First Poll
+                    </Button>
+                  </Link>
+                )}
+              </div>
+            </CardContent>
+          </Card>
         ) : (
-          filteredAndSortedPolls.map((poll) => (
-            <PollCard
-              key={poll.id}
-              poll={poll}
-              onVote={(optionIds) => handleVote(poll.id, optionIds)}
-              userVotes={userVotes[poll.id]}
-              isLoading={isLoading}
-            />
+          polls.map((poll) => (
+            <ExpandablePollCard key={poll.id} poll={poll} />
           ))
         )}
+
+        {!isLoading && hasMore && (
+          <div ref={sentinelRef} className="flex justify-center py-4">
+            {isLoadingMore ? (
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            ) : (
+              <Button variant="outline" onClick={loadMore}>
+                Load more
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
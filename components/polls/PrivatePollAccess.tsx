@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Copy, Check, Link2, RotateCcw } from "lucide-react";
+import {
+  createPollInviteLink,
+  getEligibleVoters,
+  resetPollInviteLinks,
+  updateEligibleVoters,
+} from "@/lib/actions/poll-access";
+
+interface PrivatePollAccessProps {
+  pollId: string;
+  /** Base URL used to build invite links */
+  baseUrl: string;
+}
+
+/**
+ * 🔐 PRIVATE POLL ACCESS MANAGER
+ *
+ * Creator-only controls shown in the share dialog of a private poll:
+ * - Generate a signed invite link (valid for 7 days) and copy it
+ * - Reset all invite links, revoking any that were shared
+ * - Edit the eligible-voter list (emails or user ids, one per line)
+ *
+ * Tokens are signed and verified in the database; this component only
+ * displays them. Users who already redeemed a link keep their access.
+ */
+export function PrivatePollAccess({ pollId, baseUrl }: PrivatePollAccessProps) {
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [inviteExpiresAt, setInviteExpiresAt] = useState<string | null>(null);
+  const [voterEntries, setVoterEntries] = useState("");
+  const [invitedCount, setInvitedCount] = useState(0);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  // 📋 LOAD VOTER LIST: Creator-managed entries are editable, invite redemptions are counted
+  useEffect(() => {
+    getEligibleVoters(pollId).then(result => {
+      if (!result.success || !result.voters) {
+        setError(result.error || "Failed to load eligible voters");
+        return;
+      }
+
+      const listed = result.voters.filter(voter => voter.added_via === "list");
+      setVoterEntries(listed.map(voter => voter.email || voter.user_id).join("\n"));
+      setInvitedCount(result.voters.length - listed.length);
+    });
+  }, [pollId]);
+
+  const handleCreateLink = () => {
+    setError(null);
+    setMessage(null);
+    startTransition(async () => {
+      const result = await createPollInviteLink(pollId);
+      if (result.success && result.token) {
+        setInviteUrl(`${baseUrl}/polls/${pollId}?invite=${result.token}`);
+        setInviteExpiresAt(result.expiresAt || null);
+      } else {
+        setError(result.error || "Failed to create invite link");
+      }
+    });
+  };
+
+  const handleResetLinks = () => {
+    setError(null);
+    setMessage(null);
+    startTransition(async () => {
+      const result = await resetPollInviteLinks(pollId);
+      if (result.success) {
+        setInviteUrl(null);
+        setInviteExpiresAt(null);
+        setMessage("All existing invite links have been revoked");
+      } else {
+        setError(result.error || "Failed to reset invite links");
+      }
+    });
+  };
+
+  const handleSaveVoters = () => {
+    setError(null);
+    setMessage(null);
+    startTransition(async () => {
+      const entries = voterEntries.split(/[\n,;]+/);
+      const result = await updateEligibleVoters(pollId, entries);
+      if (result.success) {
+        setMessage("Eligible voters saved");
+      } else {
+        setError(result.error || "Failed to save eligible voters");
+      }
+    });
+  };
+
+  const copyInviteUrl = async () => {
+    if (!inviteUrl) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* 🔗 INVITE LINK */}
+      <div className="space-y-2">
+        <Label htmlFor="invite-url">Invite link</Label>
+        {inviteUrl ? (
+          <>
+            <div className="flex space-x-2">
+              <Input id="invite-url" value={inviteUrl} readOnly className="flex-1" />
+              <Button size="sm" onClick={copyInviteUrl} className="shrink-0">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            {inviteExpiresAt && (
+              <p className="text-xs text-muted-foreground">
+                Expires {new Date(inviteExpiresAt).toLocaleString()}. Anyone who signs in with this link can vote.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Signed-in users who open an invite link are added to the eligible voters.
+          </p>
+        )}
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={handleCreateLink} disabled={isPending}>
+            <Link2 className="mr-2 h-4 w-4" />
+            {inviteUrl ? "New link" : "Create invite link"}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleResetLinks} disabled={isPending}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset links
+          </Button>
+        </div>
+      </div>
+
+      {/* 👥 ELIGIBLE VOTERS */}
+      <div className="space-y-2">
+        <Label htmlFor="eligible-voters">Eligible voters</Label>
+        <Textarea
+          id="eligible-voters"
+          value={voterEntries}
+          onChange={(e) => setVoterEntries(e.target.value)}
+          placeholder={"alice@example.com\nbob@example.com"}
+          rows={4}
+        />
+        <p className="text-xs text-muted-foreground">
+          Emails or user ids, one per line.
+          {invitedCount > 0 && ` ${invitedCount} more joined through invite links.`}
+        </p>
+        <Button size="sm" onClick={handleSaveVoters} disabled={isPending}>
+          Save voters
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-green-600">{message}</p>}
+    </div>
+  );
+}
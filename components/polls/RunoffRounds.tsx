@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Trophy, Play, ChevronLeft, ChevronRight } from "lucide-react";
+import { Poll } from "@/types/database";
+import { cn } from "@/lib/utils";
+
+/**
+ * 🏆 INSTANT-RUNOFF ROUNDS COMPONENT
+ *
+ * PURPOSE:
+ * Displays the round-by-round elimination of a ranked-choice poll. Rounds
+ * are stepped through automatically on mount (and can be replayed) so voters
+ * can see how ballots transfer as options are eliminated.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: components/polls/VotingComponent.tsx (ranked polls only)
+ * - Data source: poll.runoff from getPollWithResults (lib/actions/poll.ts)
+ */
+interface RunoffRoundsProps {
+  /** Ranked poll including its runoff result */
+  poll: Poll;
+}
+
+const ROUND_STEP_MS = 1500;
+
+export function RunoffRounds({ poll }: RunoffRoundsProps) {
+  const rounds = poll.runoff?.rounds || [];
+  const lastRound = Math.max(rounds.length - 1, 0);
+  const [currentRound, setCurrentRound] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+
+  // ▶️ PLAYBACK: Advance one round at a time until the final round is shown
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (currentRound >= lastRound) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setCurrentRound(round => round + 1), ROUND_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, currentRound, lastRound]);
+
+  if (!poll.runoff || rounds.length === 0) {
+    return null;
+  }
+
+  // Live updates can shorten the round list while a later round is shown
+  const shownRound = Math.min(currentRound, lastRound);
+  const round = rounds[shownRound];
+  const activeBallots = poll.runoff.total_ballots - round.exhausted;
+  const isFinalRound = shownRound === lastRound;
+  const winner = poll.options.find(option => option.id === poll.runoff?.winner_id);
+
+  // Options eliminated in any earlier round are shown as out of the race
+  const eliminatedBefore = new Set(
+    rounds.slice(0, shownRound).flatMap(r => r.eliminated)
+  );
+
+  return (
+    <div className="space-y-3 pt-4 border-t">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Instant-Runoff Results</h3>
+        <div className="flex items-center space-x-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setIsPlaying(false);
+              setCurrentRound(Math.max(shownRound - 1, 0));
+            }}
+            disabled={shownRound === 0}
+            aria-label="Previous round"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Round {round.round} of {rounds.length}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setIsPlaying(false);
+              setCurrentRound(r => Math.min(r + 1, lastRound));
+            }}
+            disabled={isFinalRound}
+            aria-label="Next round"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setCurrentRound(0);
+              setIsPlaying(true);
+            }}
+            disabled={isPlaying || rounds.length < 2}
+            aria-label="Replay elimination rounds"
+          >
+            <Play className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {poll.options.map(option => {
+          const isOut = eliminatedBefore.has(option.id);
+          const count = round.tallies[option.id] || 0;
+          const percentage = activeBallots > 0 ? Math.round((count / activeBallots) * 100) : 0;
+          const isEliminatedNow = round.eliminated.includes(option.id);
+          const isWinner = isFinalRound && option.id === poll.runoff?.winner_id;
+
+          return (
+            <div
+              key={option.id}
+              className={cn(
+                "relative overflow-hidden rounded-md border px-3 py-2 text-sm transition-all",
+                isOut && "opacity-40",
+                isWinner && "border-green-500 bg-green-50"
+              )}
+            >
+              <div
+                className="absolute inset-0 bg-muted/40 transition-all duration-700"
+                style={{ width: `${isOut ? 0 : percentage}%` }}
+              />
+              <div className="relative flex items-center justify-between">
+                <span className={cn("font-medium", isOut && "line-through")}>{option.text}</span>
+                <div className="flex items-center space-x-2">
+                  {isEliminatedNow && (
+                    <Badge variant="secondary" className="bg-red-100 text-red-800">
+                      Eliminated
+                    </Badge>
+                  )}
+                  {isWinner && (
+                    <Badge variant="secondary" className="bg-green-100 text-green-800">
+                      <Trophy className="mr-1 h-3 w-3" />
+                      Winner
+                    </Badge>
+                  )}
+                  {!isOut && (
+                    <span>{count} ({percentage}%)</span>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {round.exhausted > 0 && `${round.exhausted} exhausted ballot${round.exhausted === 1 ? '' : 's'}. `}
+        {isFinalRound && (winner
+          ? `${winner.text} wins with a majority of ${activeBallots} active ballots.`
+          : 'No winner could be determined - the remaining options are tied.')}
+      </p>
+    </div>
+  );
+}
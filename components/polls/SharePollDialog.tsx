@@ -8,6 +8,8 @@ import { Label } from "@/components/ui/label";
 import { Share, Copy, Check } from "lucide-react";
 import { Poll } from "@/types/database";
 import { QRCodeSVG } from "qrcode.react";
+import { useAuth } from "@/context/AuthContext";
+import { PrivatePollAccess } from "@/components/polls/PrivatePollAccess";
 
 interface SharePollDialogProps {
   poll: Poll;
@@ -15,7 +17,11 @@ interface SharePollDialogProps {
 
 export function SharePollDialog({ poll }: SharePollDialogProps) {
   const [copied, setCopied] = useState(false);
-  const pollUrl = `${process.env.NEXT_PUBLIC_SITE_URL || window.location.origin}/polls/${poll.id}`;
+  const { user, userRole } = useAuth();
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || window.location.origin;
+  const pollUrl = `${baseUrl}/polls/${poll.id}`;
+  const isPrivate = poll.visibility === 'private';
+  const canManageAccess = isPrivate && (user?.id === poll.creator_id || userRole === 'admin');
 
   const copyToClipboard = async () => {
     try {
@@ -36,11 +42,13 @@ export function SharePollDialog({ poll }: SharePollDialogProps) {
         </Button>
       </DialogTrigger>
       
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Share Poll</DialogTitle>
           <DialogDescription>
-            Share this poll with others so they can vote
+            {isPrivate
+              ? 'This poll is private: only eligible voters and invite link holders can open it'
+              : 'Share this poll with others so they can vote'}
           </DialogDescription>
         </DialogHeader>
         
@@ -65,6 +73,11 @@ export function SharePollDialog({ poll }: SharePollDialogProps) {
             </div>
           </div>
 
+          {/* Private poll invite links and voter list */}
+          {canManageAccess && (
+            <PrivatePollAccess pollId={poll.id} baseUrl={baseUrl} />
+          )}
+
           {/* QR Code */}
           <div className="space-y-2">
             <Label>QR Code</Label>
@@ -89,7 +102,7 @@ export function SharePollDialog({ poll }: SharePollDialogProps) {
             )}
             <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
               <span>{poll.options.length} options</span>
-              <span>{poll.total_votes || 0} votes</span>
+              <span>{poll.results_hidden ? 'Results hidden' : `${poll.total_votes || 0} votes`}</span>
             </div>
           </div>
         </div>
@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useId, useRef, useState } from "react";
+import { Tag as TagIcon, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { getTagSuggestions } from "@/lib/actions/tags";
+import { MAX_TAG_NAME_LENGTH, MAX_TAGS_PER_POLL, slugifyTag } from "@/lib/poll-tags";
+import type { TagSuggestion } from "@/types/database";
+
+const SUGGESTION_DEBOUNCE_MS = 200;
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+  "aria-describedby"?: string;
+}
+
+/**
+ * 🏷️ TAG INPUT
+ *
+ * Chips for a poll's tags with autocomplete from existing tags. Enter or a
+ * comma adds what was typed (or the highlighted suggestion), Backspace in an
+ * empty box removes the last tag. Names that slugify to an existing tag
+ * join it instead of creating a duplicate.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: components/polls/CreatePollForm.tsx
+ * - Data: lib/actions/tags.ts (getTagSuggestions)
+ */
+export function TagInput({ id, value, onChange, disabled, ...props }: TagInputProps) {
+  const listboxId = useId();
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const requestIdRef = useRef(0);
+
+  const chosenSlugs = new Set(value.map(slugifyTag));
+  const isFull = value.length >= MAX_TAGS_PER_POLL;
+  const visibleSuggestions = suggestions.filter(tag => !chosenSlugs.has(tag.slug));
+
+  // Suggest once typing pauses; an empty box suggests categories and popular tags
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const requestId = ++requestIdRef.current;
+    const timeout = setTimeout(async () => {
+      const results = await getTagSuggestions(query.trim());
+      if (requestId !== requestIdRef.current) return;
+      setSuggestions(results);
+      setActiveIndex(-1);
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [query, isOpen]);
+
+  const addTag = (name: string) => {
+    const trimmed = name.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_NAME_LENGTH);
+    const slug = slugifyTag(trimmed);
+    setQuery("");
+    setActiveIndex(-1);
+
+    if (!slug || chosenSlugs.has(slug) || isFull) return;
+
+    // Use the existing tag's spelling when the name matches one
+    const existing = suggestions.find(tag => tag.slug === slug);
+    onChange([...value, existing ? existing.name : trimmed]);
+  };
+
+  const removeTag = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (visibleSuggestions.length === 0 ? -1 : (index + 1) % visibleSuggestions.length));
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        setActiveIndex(index => (visibleSuggestions.length === 0 ? -1 : index <= 0 ? visibleSuggestions.length - 1 : index - 1));
+        break;
+      case "Enter":
+      case ",":
+        if (activeIndex >= 0 && visibleSuggestions[activeIndex]) {
+          event.preventDefault();
+          addTag(visibleSuggestions[activeIndex].name);
+        } else if (query.trim()) {
+          event.preventDefault();
+          addTag(query);
+        } else if (event.key === ",") {
+          event.preventDefault();
+        }
+        break;
+      case "Backspace":
+        if (!query && value.length > 0) {
+          removeTag(value.length - 1);
+        }
+        break;
+      case "Escape":
+        if (isOpen) {
+          event.preventDefault();
+          setIsOpen(false);
+          setActiveIndex(-1);
+        }
+        break;
+    }
+  };
+
+  const showList = isOpen && !isFull && visibleSuggestions.length > 0;
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+  return (
+    <div className="relative">
+      <div
+        className={cn(
+          "flex min-h-9 flex-wrap items-center gap-1.5 rounded-md border bg-transparent px-2 py-1.5 shadow-xs",
+          disabled && "opacity-50"
+        )}
+      >
+        {value.map((tag, index) => (
+          <Badge key={slugifyTag(tag)} variant="secondary" className="gap-1">
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(index)}
+              disabled={disabled}
+              className="rounded-sm hover:text-destructive"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          id={id}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showList}
+          aria-controls={listboxId}
+          aria-activedescendant={showList && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+          aria-describedby={props["aria-describedby"]}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          // Let clicks on a suggestion land before the list closes
+          onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+          onKeyDown={handleKeyDown}
+          placeholder={isFull ? `Up to ${MAX_TAGS_PER_POLL} tags` : value.length === 0 ? "Add tags..." : ""}
+          disabled={disabled || isFull}
+          maxLength={MAX_TAG_NAME_LENGTH}
+          className="h-7 min-w-[8rem] flex-1 border-0 px-1 shadow-none focus-visible:ring-0"
+        />
+      </div>
+
+      {showList && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label="Tag suggestions"
+          className="absolute left-0 right-0 top-full z-50 mt-1 max-h-64 overflow-y-auto rounded-md border bg-popover py-1 text-popover-foreground shadow-md"
+        >
+          {visibleSuggestions.map((tag, index) => (
+            <li
+              key={tag.id}
+              id={optionId(index)}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag.name)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                "flex cursor-pointer items-center justify-between px-3 py-2 text-sm",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              <span className="flex items-center gap-1.5">
+                {tag.is_category && <TagIcon className="h-3 w-3 text-muted-foreground" />}
+                {tag.name}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {tag.poll_count} {tag.poll_count === 1 ? "poll" : "polls"}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
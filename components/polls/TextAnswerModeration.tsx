@@ -0,0 +1,252 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, X, GitMerge, ShieldCheck } from "lucide-react";
+import { mergeWriteIns, moderateTextAnswers } from "@/lib/actions/text-answers";
+import { groupWriteIns, WriteInGroup } from "@/lib/text-answers";
+import { Poll, PollTextAnswer, TextAnswerStatus } from "@/types/database";
+
+interface TextAnswerModerationProps {
+  poll: Poll;
+  /** Every answer on the poll, as returned to its creator */
+  answers: PollTextAnswer[];
+}
+
+const NEW_OPTION = "__new__";
+
+/**
+ * 🛡️ TEXT ANSWER MODERATION
+ *
+ * Lets the poll creator approve or reject written answers before they are
+ * shown, and merge groups of similar "Other" write-ins into an existing or
+ * new option, which turns them into votes.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/polls/[id]/page.tsx (creators and admins only)
+ * - Integrates with: lib/actions/text-answers.ts
+ */
+export function TextAnswerModeration({ poll, answers }: TextAnswerModerationProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const pending = answers.filter(answer => answer.status === "pending");
+  const approved = answers.filter(answer => answer.status === "approved");
+  const rejected = answers.filter(answer => answer.status === "rejected");
+  const mergeable = groupWriteIns(
+    answers.filter(answer => answer.kind === "write_in" && answer.status !== "merged" && answer.status !== "rejected")
+  );
+
+  const handleModerate = (answerIds: string[], status: Exclude<TextAnswerStatus, "merged">) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await moderateTextAnswers(poll.id, answerIds, status);
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to update answers");
+      }
+    });
+  };
+
+  const handleMerge = (group: WriteInGroup, target: { optionId: string } | { newOptionText: string }) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await mergeWriteIns(poll.id, group.answers.map(answer => answer.id), target);
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to merge write-ins");
+      }
+    });
+  };
+
+  if (answers.length === 0) {
+    return null;
+  }
+
+  const renderAnswers = (list: PollTextAnswer[], actions: Exclude<TextAnswerStatus, "merged">[]) => (
+    <ul className="space-y-2">
+      {list.map(answer => (
+        <li key={answer.id} className="flex items-start justify-between gap-4 rounded-md border p-3 text-sm">
+          <div className="space-y-1">
+            <p>{answer.text}</p>
+            <p className="text-xs text-muted-foreground">
+              {answer.kind === "write_in" ? "Write-in" : "Answer"} · {new Date(answer.created_at).toLocaleString()}
+            </p>
+          </div>
+          <div className="flex shrink-0 items-center gap-1">
+            {actions.includes("approved") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleModerate([answer.id], "approved")}
+                disabled={isPending}
+                aria-label={`Approve "${answer.text}"`}
+              >
+                <Check className="h-4 w-4" />
+              </Button>
+            )}
+            {actions.includes("rejected") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleModerate([answer.id], "rejected")}
+                disabled={isPending}
+                aria-label={`Reject "${answer.text}"`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="mr-2 h-5 w-5" />
+          Written answers
+        </CardTitle>
+        <CardDescription>
+          Only approved answers are shown to voters.
+          {poll.allow_write_in && " Merge similar write-ins into an option to count them as votes."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">
+              Waiting for review <Badge variant="secondary">{pending.length}</Badge>
+            </h3>
+            {pending.length > 1 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleModerate(pending.map(answer => answer.id), "approved")}
+                disabled={isPending}
+              >
+                Approve all
+              </Button>
+            )}
+          </div>
+          {pending.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing to review.</p>
+          ) : (
+            renderAnswers(pending, ["approved", "rejected"])
+          )}
+        </section>
+
+        {poll.allow_write_in && mergeable.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">Similar write-ins</h3>
+            <ul className="space-y-3">
+              {mergeable.map(group => (
+                <WriteInGroupRow
+                  key={group.key}
+                  group={group}
+                  poll={poll}
+                  disabled={isPending}
+                  onMerge={target => handleMerge(group, target)}
+                />
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {approved.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">
+              Approved <Badge variant="secondary">{approved.length}</Badge>
+            </h3>
+            {renderAnswers(approved, ["rejected"])}
+          </section>
+        )}
+
+        {rejected.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">
+              Rejected <Badge variant="secondary">{rejected.length}</Badge>
+            </h3>
+            {renderAnswers(rejected, ["approved"])}
+          </section>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface WriteInGroupRowProps {
+  group: WriteInGroup;
+  poll: Poll;
+  disabled: boolean;
+  onMerge: (target: { optionId: string } | { newOptionText: string }) => void;
+}
+
+/**
+ * One group of similar write-ins with its merge target picker
+ */
+function WriteInGroupRow({ group, poll, disabled, onMerge }: WriteInGroupRowProps) {
+  const [target, setTarget] = useState<string>(NEW_OPTION);
+  const [newOptionText, setNewOptionText] = useState(group.label);
+
+  const canMerge = target !== NEW_OPTION || newOptionText.trim().length > 0;
+
+  return (
+    <li className="rounded-md border p-3 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-4">
+        <span className="font-medium">{group.label}</span>
+        <Badge variant="outline">{group.answers.length} {group.answers.length === 1 ? "voter" : "voters"}</Badge>
+      </div>
+      {group.answers.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          {Array.from(new Set(group.answers.map(answer => answer.text))).join(" · ")}
+        </p>
+      )}
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <Select value={target} onValueChange={setTarget}>
+          <SelectTrigger className="sm:w-56" aria-label={`Merge target for "${group.label}"`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NEW_OPTION}>New option</SelectItem>
+            {poll.options.map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.text}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {target === NEW_OPTION && (
+          <Input
+            value={newOptionText}
+            onChange={(e) => setNewOptionText(e.target.value)}
+            maxLength={200}
+            aria-label="New option text"
+          />
+        )}
+        <Button
+          size="sm"
+          onClick={() => onMerge(target === NEW_OPTION ? { newOptionText } : { optionId: target })}
+          disabled={disabled || !canMerge}
+        >
+          <GitMerge className="mr-2 h-4 w-4" />
+          Merge
+        </Button>
+      </div>
+    </li>
+  );
+}
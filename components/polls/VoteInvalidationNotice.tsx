@@ -0,0 +1,49 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, X } from "lucide-react";
+import { acknowledgeVoteInvalidations } from "@/lib/actions/poll-revisions";
+import { PollVoteInvalidation } from "@/types/database";
+
+interface VoteInvalidationNoticeProps {
+  pollId: string;
+  invalidations: PollVoteInvalidation[];
+}
+
+/**
+ * ⚠️ VOTE INVALIDATION NOTICE
+ *
+ * Tells a voter that the option they picked was removed when the poll was
+ * edited, so their vote no longer counts. Cleared by voting again or dismissing.
+ */
+export function VoteInvalidationNotice({ pollId, invalidations }: VoteInvalidationNoticeProps) {
+  const [dismissed, setDismissed] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  if (dismissed || invalidations.length === 0) return null;
+
+  const optionTexts = [...new Set(invalidations.map(invalidation => invalidation.option_text))];
+
+  const handleDismiss = () => {
+    startTransition(async () => {
+      const result = await acknowledgeVoteInvalidations(pollId);
+      if (result.success) {
+        setDismissed(true);
+      }
+    });
+  };
+
+  return (
+    <div className="flex items-start space-x-2 p-3 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md">
+      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+      <span className="flex-1">
+        The creator removed {optionTexts.map(text => `“${text}”`).join(", ")} from this poll, so your
+        vote was discarded. Please vote again.
+      </span>
+      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={handleDismiss} disabled={isPending} aria-label="Dismiss">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
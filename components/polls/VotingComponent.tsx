@@ -4,10 +4,20 @@ import { useState, useTransition } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, Circle, Users, Clock, AlertCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle, Circle, Users, Clock, AlertCircle, ArrowUp, ArrowDown, EyeOff, CalendarClock, Bell, MessageSquare } from "lucide-react";
 import { submitVote, removeVote } from "@/lib/actions/vote";
-import { Poll } from "@/types/database";
+import { followPoll } from "@/lib/actions/settings";
+import { isPollScheduled } from "@/lib/poll-schedule";
+import { MAX_TEXT_ANSWER_LENGTH } from "@/lib/text-answers";
+import { useAuth } from "@/context/AuthContext";
+import { Poll, PollTextAnswer, ResultsVisibility } from "@/types/database";
 import { cn } from "@/lib/utils";
+import { RunoffRounds } from "@/components/polls/RunoffRounds";
+import { PollTagBadges } from "@/components/polls/PollTagBadges";
+import { AnimatedNumber } from "@/components/ui/animated-number";
+import { useLivePollResults } from "@/lib/hooks/useLivePollResults";
 
 /**
  * 🗳️ SECURE VOTING COMPONENT
@@ -23,6 +33,9 @@ import { cn } from "@/lib/utils";
  * - Input validation and sanitization for vote data
  * - Proper error handling without information disclosure
  * - Real-time UI feedback with loading states
+ * - Live results via Supabase Realtime, with polling fallback (useLivePollResults)
+ * - Counts, bars and runoff rounds omitted while the poll's results are hidden
+ * - Written answers (text polls and "Other" write-ins) listed only once approved
  * 
  * VULNERABILITY PREVENTION:
  * - Double voting prevention
@@ -55,7 +68,7 @@ import { cn } from "@/lib/utils";
 interface VotingComponentProps {
   /** Poll data object with options and configuration */
   poll: Poll;
-  /** Array of option IDs the user has already voted for */
+  /** Array of option IDs the user has already voted for (in rank order for ranked polls) */
   userVotes: string[];
   /** Boolean indicating if the user is authorized to vote */
   canVote: boolean;
@@ -63,6 +76,10 @@ interface VotingComponentProps {
   voteReason?: string;
   /** Callback function for real-time vote updates (optimistic UI) */
   onVoteChange?: (newVotes: string[]) => void;
+  /** Written answers visible to the viewer (approved ones are listed) */
+  textAnswers?: PollTextAnswer[];
+  /** The viewer's own written answer or write-in, if any */
+  userTextAnswer?: PollTextAnswer | null;
 }
 
 /**
@@ -70,7 +87,15 @@ interface VotingComponentProps {
  * 
  * Main component that handles all voting functionality with security measures
  */
-export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteChange }: VotingComponentProps) {
+export function VotingComponent({
+  poll: initialPoll,
+  userVotes,
+  canVote,
+  voteReason,
+  onVoteChange,
+  textAnswers = [],
+  userTextAnswer = null,
+}: VotingComponentProps) {
   // 📊 COMPONENT STATE MANAGEMENT
   // selectedOptions: Current user selections (local state for optimistic updates)
   const [selectedOptions, setSelectedOptions] = useState<string[]>(userVotes);
@@ -80,12 +105,56 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
   const [error, setError] = useState<string | null>(null);
   // success: Success message display state
   const [success, setSuccess] = useState<string | null>(null);
+  // answerText: Written answer on text polls, or the "Other" write-in
+  const [answerText, setAnswerText] = useState(userTextAnswer?.text ?? "");
+  // writeInSelected: Whether the "Other (please specify)" choice is picked
+  const [writeInSelected, setWriteInSelected] = useState(userTextAnswer?.kind === "write_in");
 
   // 🔒 SECURITY VALIDATIONS
   // Check if poll has expired (server-side validation supplemented client-side)
-  const isExpired = poll.expires_at && new Date(poll.expires_at) < new Date();
+  const isExpired = initialPoll.expires_at && new Date(initialPoll.expires_at) < new Date();
+  // Scheduled polls are visible before voting opens
+  const isScheduled = isPollScheduled(initialPoll);
+  const { user } = useAuth();
+  const [isFollowing, setIsFollowing] = useState(false);
+
+  // 📡 LIVE RESULTS: Counts update as votes arrive while the poll is open
+  const { poll, mode: liveMode, refresh } = useLivePollResults(initialPoll, {
+    enabled: initialPoll.is_active && !isExpired,
+  });
+  // Ranked polls treat the selection as an ordered ballot
+  const isRanked = poll.poll_type === 'ranked';
+  // Text polls have no options; voters write an answer instead
+  const isText = poll.poll_type === 'text';
+  const allowWriteIn = !isText && poll.allow_write_in === true;
+  const approvedAnswers = textAnswers.filter(answer => answer.status === 'approved');
+  // Whether the current input is enough to submit
+  const hasChoice = isText
+    ? answerText.trim().length > 0
+    : selectedOptions.length > 0 || (writeInSelected && answerText.trim().length > 0);
+  const hasVoted = userVotes.length > 0 || userTextAnswer !== null;
   // Calculate total votes for display (prevent division by zero)
   const totalVotes = poll.total_votes || 0;
+  // Counts are withheld server-side when the poll's results_visibility hides them
+  const resultsHidden = poll.results_hidden === true;
+
+  /**
+   * 🔔 FOLLOW HANDLER
+   *
+   * Subscribes the signed-in user to the email sent when a scheduled poll opens
+   */
+  const handleFollow = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await followPoll(poll.id);
+      if (result.success) {
+        setIsFollowing(true);
+        setSuccess("We'll email you when voting opens");
+      } else {
+        setError(result.error || "Failed to follow poll");
+      }
+    });
+  };
 
   /**
    * 🔒 SECURE OPTION SELECTION HANDLER
@@ -109,8 +178,15 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
     setError(null);
     setSuccess(null);
 
-    // 🗳️ VOTING LOGIC: Handle single vs multiple choice
-    if (poll.allow_multiple_choices) {
+    // 🗳️ VOTING LOGIC: Handle ranked, single and multiple choice
+    if (isRanked) {
+      // Ranked: append to the end of the ballot, or remove if already ranked
+      const newSelection = selectedOptions.includes(optionId)
+        ? selectedOptions.filter(id => id !== optionId)
+        : [...selectedOptions, optionId];
+      setSelectedOptions(newSelection);
+      onVoteChange?.(newSelection);
+    } else if (poll.allow_multiple_choices) {
       // Multiple choice: toggle selection (add/remove from array)
       const newSelection = selectedOptions.includes(optionId) 
         ? selectedOptions.filter(id => id !== optionId)
@@ -121,10 +197,53 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
       // Single choice: replace selection (array with single item)
       const newSelection = [optionId];
       setSelectedOptions(newSelection);
+      setWriteInSelected(false); // Picking an option replaces the write-in
       onVoteChange?.(newSelection); // Optimistic UI update
     }
   };
 
+  /**
+   * 📝 WRITE-IN SELECTION HANDLER
+   *
+   * Toggles the "Other (please specify)" choice; on single choice polls it
+   * replaces any selected option
+   */
+  const handleWriteInSelect = () => {
+    if (!canVote || isExpired || !poll.is_active) return;
+
+    setError(null);
+    setSuccess(null);
+
+    if (!poll.allow_multiple_choices) {
+      setSelectedOptions([]);
+      onVoteChange?.([]);
+      setWriteInSelected(true);
+    } else {
+      setWriteInSelected(!writeInSelected);
+    }
+  };
+
+  /**
+   * 🔀 RANKED BALLOT REORDER HANDLER
+   * 
+   * Moves a ranked option one place up or down the ballot
+   * 
+   * @param optionId - ID of the ranked option to move
+   * @param direction - -1 to move up (higher preference), 1 to move down
+   */
+  const handleMoveRank = (optionId: string, direction: -1 | 1) => {
+    if (!canVote || isExpired || !poll.is_active) return;
+
+    const index = selectedOptions.indexOf(optionId);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= selectedOptions.length) return;
+
+    const newSelection = [...selectedOptions];
+    [newSelection[index], newSelection[target]] = [newSelection[target], newSelection[index]];
+    setSelectedOptions(newSelection);
+    onVoteChange?.(newSelection);
+  };
+
   /**
    * 🔐 SECURE VOTE SUBMISSION HANDLER
    * 
@@ -146,9 +265,9 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
    * - Poll expiration enforcement
    */
   const handleSubmitVote = () => {
-    // 🔍 CLIENT VALIDATION: Ensure user has made a selection
-    if (selectedOptions.length === 0) {
-      setError("Please select at least one option");
+    // 🔍 CLIENT VALIDATION: Ensure user has made a selection or written an answer
+    if (!hasChoice) {
+      setError(isText ? "Please write your answer" : "Please select at least one option");
       return;
     }
 
@@ -162,12 +281,19 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
     startTransition(async () => {
       try {
         // 📤 SERVER ACTION: Submit vote with full server-side validation
-        const result = await submitVote(poll.id, selectedOptions);
+        const optionIds = isText ? [] : selectedOptions;
+        const written = isText || writeInSelected ? answerText : undefined;
+        const result = await submitVote(poll.id, optionIds, written);
         
         if (result.success) {
           // ✅ SUCCESS: Update parent component and user feedback
-          onVoteChange?.(selectedOptions);
-          setSuccess("Vote submitted successfully!");
+          onVoteChange?.(optionIds);
+          refresh(); // Show the new vote without waiting for the realtime event
+          setSuccess(
+            written !== undefined
+              ? "Thanks! Your answer will be shown once the poll creator approves it."
+              : "Vote submitted successfully!"
+          );
           setError(null);
         } else {
           // ❌ FAILURE: Display user-friendly error (no sensitive data)
@@ -215,6 +341,7 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
           const newVotes = selectedOptions.filter(id => id !== optionId);
           setSelectedOptions(newVotes);
           onVoteChange?.(newVotes);
+          refresh();
           setSuccess("Vote removed successfully!");
           setError(null);
         } else {
@@ -250,6 +377,22 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
     return Math.round((voteCount / totalVotes) * 100);
   };
 
+  /**
+   * Explains when hidden results become visible for the poll's visibility mode
+   */
+  const getHiddenResultsMessage = (visibility?: ResultsVisibility) => {
+    switch (visibility) {
+      case 'after_vote':
+        return 'Results will be shown after you vote.';
+      case 'after_close':
+        return 'Results will be shown after the poll closes.';
+      case 'creator_only':
+        return 'Only the poll creator can see the results.';
+      default:
+        return 'Results are not available.';
+    }
+  };
+
   // 🎨 COMPONENT RENDER: Secure voting interface with comprehensive validation
   return (
     <Card className="w-full">
@@ -262,6 +405,7 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
               /* 📄 POLL DESCRIPTION: Safe rendering of user content */
               <p className="text-muted-foreground mb-4">{poll.description}</p>
             )}
+            <PollTagBadges tags={poll.tags} className="mb-4" />
           </div>
           <div className="flex flex-col items-end space-y-2">
             {/* 🚫 INACTIVE POLL INDICATOR: Clear visual feedback for poll status */}
@@ -277,6 +421,25 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
                 Expired
               </Badge>
             )}
+            {/* 🗓️ SCHEDULED INDICATOR: Voting has not opened yet */}
+            {isScheduled && poll.opens_at && (
+              <Badge variant="secondary" className="bg-blue-100 text-blue-800">
+                <CalendarClock className="mr-1 h-3 w-3" />
+                Opens {new Date(poll.opens_at).toLocaleString()}
+              </Badge>
+            )}
+            {/* 🏆 RANKED CHOICE INDICATOR: User guidance for ranked ballots */}
+            {isRanked && (
+              <Badge variant="outline">
+                Ranked Choice
+              </Badge>
+            )}
+            {/* ✍️ OPEN-ENDED INDICATOR: Voters write their own answer */}
+            {isText && (
+              <Badge variant="outline">
+                Open-ended
+              </Badge>
+            )}
             {/* 🗳️ MULTIPLE CHOICE INDICATOR: User guidance for voting behavior */}
             {poll.allow_multiple_choices && (
               <Badge variant="outline">
@@ -290,9 +453,28 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
         <div className="flex items-center space-x-4 text-sm text-muted-foreground">
           <div className="flex items-center">
             <Users className="mr-1 h-4 w-4" />
-            {/* 🔢 VOTE COUNT: Display total votes with proper formatting */}
-            <span>{totalVotes} votes</span>
+            {/* 🔢 VOTE COUNT: Animates as live votes arrive */}
+            {resultsHidden ? (
+              <span>Results hidden</span>
+            ) : isText ? (
+              <span>{approvedAnswers.length} approved answers</span>
+            ) : (
+              <span><AnimatedNumber value={totalVotes} /> {isRanked ? 'ballots' : 'votes'}</span>
+            )}
           </div>
+          {/* 📡 LIVE INDICATOR: How results are being kept up to date */}
+          {liveMode === 'realtime' && (
+            <div className="flex items-center text-green-600">
+              <span className="mr-1.5 h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+              <span>Live</span>
+            </div>
+          )}
+          {liveMode === 'polling' && (
+            <div className="flex items-center" title="Live updates unavailable; refreshing periodically">
+              <span className="mr-1.5 h-2 w-2 rounded-full bg-amber-500" />
+              <span>Auto-refreshing</span>
+            </div>
+          )}
           {/* ⏰ EXPIRATION DATE: Show when poll expires (if still active) */}
           {poll.expires_at && !isExpired && (
             <div className="flex items-center">
@@ -328,12 +510,58 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
           </div>
         )}
 
+        {/* 🔔 OPENING REMINDER: Let signed-in users follow a scheduled poll */}
+        {isScheduled && user && !isFollowing && (
+          <Button variant="outline" size="sm" onClick={handleFollow} disabled={isPending}>
+            <Bell className="mr-2 h-4 w-4" />
+            Notify me when it opens
+          </Button>
+        )}
+
+        {/* 🙈 HIDDEN RESULTS NOTICE: Explain when results will become visible */}
+        {resultsHidden && (
+          <div className="flex items-center space-x-2 p-3 text-sm text-muted-foreground bg-muted/40 border rounded-md">
+            <EyeOff className="h-4 w-4" />
+            <span>{getHiddenResultsMessage(poll.results_visibility)}</span>
+          </div>
+        )}
+
+        {/* 🏆 RANKING GUIDANCE: Explain how to order a ranked ballot */}
+        {isRanked && canVote && poll.is_active && !isExpired && (
+          <p className="text-sm text-muted-foreground">
+            Click options in order of preference, then use the arrows to adjust your ranking.
+          </p>
+        )}
+
+        {/* ✍️ WRITTEN ANSWER: Text polls take a single free-text answer */}
+        {isText && canVote && poll.is_active && !isExpired && (
+          <div className="space-y-2">
+            <Textarea
+              value={answerText}
+              onChange={(e) => setAnswerText(e.target.value)}
+              placeholder="Write your answer"
+              maxLength={MAX_TEXT_ANSWER_LENGTH}
+              rows={4}
+              disabled={isPending}
+              aria-label="Your answer"
+            />
+            <p className="text-xs text-muted-foreground text-right">
+              {answerText.length}/{MAX_TEXT_ANSWER_LENGTH}
+            </p>
+            {userTextAnswer?.status === 'pending' && (
+              <p className="text-sm text-muted-foreground">Your answer is waiting for approval.</p>
+            )}
+          </div>
+        )}
+
         {/* 🗳️ POLL OPTIONS SECTION: Secure voting interface with visual feedback */}
+        {!isText && (
         <div className="space-y-3">
           {poll.options.map((option) => {
             // 🔍 OPTION STATE CALCULATION: Determine current state and permissions
             const isSelected = selectedOptions.includes(option.id);
             const hasUserVote = userVotes.includes(option.id);
+            const rank = isRanked ? selectedOptions.indexOf(option.id) + 1 : 0;
             const votePercentage = getVotePercentage(option.vote_count || 0);
             const canSelectOption = canVote && poll.is_active && !isExpired;
 
@@ -356,20 +584,32 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
                     handleOptionSelect(option.id);
                   }
                 }}
-                aria-label={`Vote for ${option.text}. Current votes: ${option.vote_count || 0} (${votePercentage}%)`}
+                aria-label={
+                  resultsHidden
+                    ? `${isRanked ? 'Rank' : 'Vote for'} ${option.text}`
+                    : isRanked
+                      ? `Rank ${option.text}. First choices: ${option.vote_count || 0} (${votePercentage}%)`
+                      : `Vote for ${option.text}. Current votes: ${option.vote_count || 0} (${votePercentage}%)`
+                }
               >
                 {/* 📊 PROGRESS BACKGROUND: Visual representation of vote percentage */}
-                <div 
-                  className="absolute inset-0 bg-muted/30 transition-all duration-300"
-                  style={{ width: `${votePercentage}%` }}
-                />
+                {!resultsHidden && (
+                  <div 
+                    className="absolute inset-0 bg-muted/30 transition-[width] duration-700 ease-out"
+                    style={{ width: `${votePercentage}%` }}
+                  />
+                )}
                 
                 {/* 🎯 OPTION CONTENT: Interactive voting interface with accessibility */}
                 <div className="relative flex items-center justify-between">
                   <div className="flex items-center space-x-3 flex-1">
                     {/* 🔘 SELECTION INDICATOR: Visual feedback for voting state */}
-                    {canSelectOption ? (
-                      isSelected || hasUserVote ? (
+                    {isRanked && rank > 0 ? (
+                      <Badge className="h-5 min-w-[20px] justify-center px-1 text-xs">
+                        {rank}
+                      </Badge>
+                    ) : canSelectOption ? (
+                      isSelected || (!isRanked && hasUserVote) ? (
                         <CheckCircle className="h-5 w-5 text-primary" />
                       ) : (
                         <Circle className="h-5 w-5 text-muted-foreground" />
@@ -384,9 +624,41 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
                   
                   <div className="flex items-center space-x-3">
                     {/* 📊 VOTE STATISTICS: Current vote count and percentage */}
-                    <span className="text-sm font-medium">
-                      {option.vote_count || 0} votes ({votePercentage}%)
-                    </span>
+                    {!resultsHidden && (
+                      <span className="text-sm font-medium">
+                        <AnimatedNumber value={option.vote_count || 0} /> {isRanked ? 'first choices' : 'votes'} ({votePercentage}%)
+                      </span>
+                    )}
+
+                    {/* 🔀 RANK CONTROLS: Reorder a ranked ballot */}
+                    {isRanked && rank > 0 && canSelectOption && (
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation(); // Prevent toggling the option when reordering
+                            handleMoveRank(option.id, -1);
+                          }}
+                          disabled={isPending || rank === 1}
+                          aria-label={`Move ${option.text} up`}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleMoveRank(option.id, 1);
+                          }}
+                          disabled={isPending || rank === selectedOptions.length}
+                          aria-label={`Move ${option.text} down`}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
                     
                     {/* 🗑️ REMOVE VOTE BUTTON: Available for multiple choice polls */}
                     {hasUserVote && canVote && poll.allow_multiple_choices && (
@@ -408,20 +680,97 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
               </div>
             );
           })}
+
+          {/* 📝 WRITE-IN CHOICE: "Other (please specify)" with a free-text field */}
+          {allowWriteIn && (() => {
+            const canSelectOption = canVote && poll.is_active && !isExpired;
+
+            return (
+              <div
+                className={cn(
+                  "rounded-lg border p-4 space-y-3 transition-all",
+                  canSelectOption && "hover:border-primary/50",
+                  writeInSelected && "border-primary bg-primary/5",
+                  !canSelectOption && "opacity-60"
+                )}
+              >
+                <div
+                  className={cn("flex items-center space-x-3", canSelectOption ? "cursor-pointer" : "cursor-not-allowed")}
+                  role="button"
+                  tabIndex={canSelectOption ? 0 : -1}
+                  onClick={() => canSelectOption && handleWriteInSelect()}
+                  onKeyDown={(e) => {
+                    if ((e.key === 'Enter' || e.key === ' ') && canSelectOption) {
+                      e.preventDefault();
+                      handleWriteInSelect();
+                    }
+                  }}
+                  aria-label="Other (please specify)"
+                >
+                  {canSelectOption ? (
+                    writeInSelected ? (
+                      <CheckCircle className="h-5 w-5 text-primary" />
+                    ) : (
+                      <Circle className="h-5 w-5 text-muted-foreground" />
+                    )
+                  ) : (
+                    <div className="h-5 w-5" />
+                  )}
+                  <span className="font-medium text-foreground">Other (please specify)</span>
+                </div>
+                {writeInSelected && canSelectOption && (
+                  <Input
+                    value={answerText}
+                    onChange={(e) => setAnswerText(e.target.value)}
+                    placeholder="Your answer"
+                    maxLength={MAX_TEXT_ANSWER_LENGTH}
+                    disabled={isPending}
+                    aria-label="Other answer"
+                  />
+                )}
+                {userTextAnswer?.kind === 'write_in' && userTextAnswer.status === 'pending' && (
+                  <p className="text-sm text-muted-foreground">Your answer is waiting for approval.</p>
+                )}
+              </div>
+            );
+          })()}
         </div>
+        )}
+
+        {/* 💬 APPROVED ANSWERS: Written answers the creator has approved */}
+        {!resultsHidden && (isText || allowWriteIn) && approvedAnswers.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="flex items-center text-sm font-semibold">
+              <MessageSquare className="mr-2 h-4 w-4" />
+              {isText ? "Answers" : "Other answers"}
+            </h3>
+            <ul className="space-y-2">
+              {approvedAnswers.map(answer => (
+                <li key={answer.id} className="rounded-md border bg-muted/20 p-3 text-sm">
+                  {answer.text}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* 🏆 INSTANT-RUNOFF ROUNDS: Round-by-round elimination for ranked polls */}
+        {isRanked && !resultsHidden && poll.runoff && poll.runoff.total_ballots > 0 && (
+          <RunoffRounds poll={poll} />
+        )}
 
         {/* 🎯 PRIMARY VOTE SUBMISSION BUTTON: Main action for voting */}
         {canVote && poll.is_active && !isExpired && (
           <div className="pt-4">
             <Button 
               onClick={handleSubmitVote}
-              disabled={isPending || selectedOptions.length === 0}
+              disabled={isPending || !hasChoice}
               className="w-full"
               size="lg"
               aria-label={
-                selectedOptions.length === 0 
-                  ? "Select an option to vote" 
-                  : userVotes.length > 0 
+                !hasChoice
+                  ? isText ? "Write an answer to submit" : "Select an option to vote"
+                  : hasVoted
                     ? "Update your vote" 
                     : "Submit your vote"
               }
@@ -429,10 +778,14 @@ export function VotingComponent({ poll, userVotes, canVote, voteReason, onVoteCh
               {/* 🔄 DYNAMIC BUTTON TEXT: Context-aware button labeling */}
               {isPending ? (
                 "Submitting..."
-              ) : selectedOptions.length === 0 ? (
-                "Select an option to vote"
-              ) : userVotes.length > 0 ? (
+              ) : !hasChoice ? (
+                isText ? "Write an answer to submit" : "Select an option to vote"
+              ) : isText ? (
+                hasVoted ? "Update Answer" : "Submit Answer"
+              ) : hasVoted ? (
                 "Update Vote"
+              ) : isRanked ? (
+                "Submit Ranking"
               ) : (
                 "Submit Vote"
               )}
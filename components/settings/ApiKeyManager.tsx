@@ -0,0 +1,218 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Check, Code, Copy, Plus } from "lucide-react";
+import { createApiKey, revokeApiKey } from "@/lib/actions/api-keys";
+import { API_KEY_ACCESS_LEVELS, MAX_API_KEYS_PER_USER } from "@/lib/api-keys";
+import { formatRelativeTime } from "@/lib/utils";
+import { ApiKey } from "@/types/database";
+
+interface ApiKeyManagerProps {
+  apiKeys: ApiKey[];
+}
+
+/**
+ * 🔑 API KEY MANAGER
+ *
+ * Creates personal API keys for the /api/v1 routes, shows each new key once
+ * so it can be copied, and revokes keys that are no longer needed.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/settings/api-keys/page.tsx
+ * - Integrates with: lib/actions/api-keys.ts
+ */
+export function ApiKeyManager({ apiKeys }: ApiKeyManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState("");
+  const [access, setAccess] = useState<"read" | "write">("read");
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const activeCount = apiKeys.filter(apiKey => !apiKey.revoked_at).length;
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const result = await createApiKey({ name, access });
+
+      if (result.success && result.key) {
+        setName("");
+        setNewKey(result.key);
+        setCopied(false);
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to create API key");
+      }
+    });
+  };
+
+  const handleRevoke = (keyId: string) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await revokeApiKey(keyId);
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || "Failed to revoke API key");
+      }
+    });
+  };
+
+  const copyKey = async () => {
+    if (!newKey) return;
+    try {
+      await navigator.clipboard.writeText(newKey);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {newKey && (
+        <div className="rounded-lg border border-green-200 bg-green-50 p-4 space-y-3">
+          <p className="text-sm font-medium text-green-800">
+            Copy your new API key now. You won&apos;t be able to see it again.
+          </p>
+          <div className="flex gap-2">
+            <Input value={newKey} readOnly className="font-mono text-xs bg-white" aria-label="New API key" />
+            <Button type="button" variant="outline" size="sm" onClick={copyKey} aria-label="Copy API key">
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setNewKey(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      {apiKeys.length === 0 ? (
+        <div className="text-center py-6">
+          <Code className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No API keys yet</h3>
+          <p className="text-muted-foreground">
+            Create a key below to manage your polls from scripts
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {apiKeys.map(apiKey => (
+            <li key={apiKey.id} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="font-medium">{apiKey.name}</p>
+                  {apiKey.scopes.map(scope => (
+                    <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>
+                  ))}
+                  {apiKey.revoked_at && <Badge variant="secondary">Revoked</Badge>}
+                </div>
+                <p className="font-mono text-xs text-muted-foreground">{apiKey.key_prefix}…</p>
+                <p className="text-xs text-muted-foreground">
+                  Created {formatRelativeTime(new Date(apiKey.created_at))}
+                  {" · "}
+                  {apiKey.last_used_at ? `Last used ${formatRelativeTime(new Date(apiKey.last_used_at))}` : "Never used"}
+                </p>
+              </div>
+              {!apiKey.revoked_at && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button type="button" variant="outline" size="sm" disabled={isPending}>
+                      Revoke
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Revoke &quot;{apiKey.name}&quot;?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Scripts using this key will stop working straight away. This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => handleRevoke(apiKey.id)}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Revoke
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* ➕ CREATE API KEY */}
+      {activeCount < MAX_API_KEYS_PER_USER && (
+        <form onSubmit={handleCreate} className="rounded-lg border p-4 space-y-4">
+          <h3 className="font-semibold">Create an API key</h3>
+
+          <div className="space-y-2">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input
+              id="api-key-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Nightly report script"
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="api-key-access">Access</Label>
+            <Select
+              value={access}
+              onValueChange={value => {
+                if (value === "read" || value === "write") {
+                  setAccess(value);
+                }
+              }}
+            >
+              <SelectTrigger id="api-key-access" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {API_KEY_ACCESS_LEVELS.map(level => (
+                  <SelectItem key={level.value} value={level.value}>
+                    {level.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-600">
+              {API_KEY_ACCESS_LEVELS.find(level => level.value === access)?.description}
+            </p>
+          </div>
+
+          <Button type="submit" disabled={isPending || !name.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            {isPending ? "Creating..." : "Create API Key"}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -6,20 +6,31 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import toast from 'react-hot-toast';
 import { updateNotificationSettings } from '@/lib/actions/settings';
+import {
+  APP_NOTIFICATION_TYPES,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPE_LABELS,
+  NotificationChannels,
+  isNotificationChannel,
+} from '@/lib/notifications';
 
 interface NotificationSettingsFormProps {
   userId: string;
   initialValues: {
     emailNotificationsEnabled: boolean;
     notificationFrequency: string;
+    notificationChannels: NotificationChannels;
   };
 }
 
 interface NotificationFormValues {
   emailNotificationsEnabled: boolean;
   notificationFrequency: string;
+  notificationChannels: NotificationChannels;
 }
 
 export default function NotificationSettingsForm({ userId, initialValues }: NotificationSettingsFormProps) {
@@ -29,6 +40,7 @@ export default function NotificationSettingsForm({ userId, initialValues }: Noti
   });
 
   const emailNotificationsEnabled = watch('emailNotificationsEnabled');
+  const notificationChannels = watch('notificationChannels');
 
   const onSubmit = async (data: NotificationFormValues) => {
     try {
@@ -37,7 +49,8 @@ export default function NotificationSettingsForm({ userId, initialValues }: Noti
       const result = await updateNotificationSettings({
         userId,
         emailNotificationsEnabled: data.emailNotificationsEnabled,
-        notificationFrequency: data.notificationFrequency
+        notificationFrequency: data.notificationFrequency,
+        notificationChannels: data.notificationChannels
       });
       
       if (result.success) {
@@ -85,21 +98,21 @@ export default function NotificationSettingsForm({ userId, initialValues }: Noti
               className="space-y-2"
             >
               <div className="flex items-center space-x-2">
-                <RadioGroupItem value="immediate" id="immediate" />
-                <Label htmlFor="immediate" className="cursor-pointer">
+                <RadioGroupItem value="instant" id="instant" />
+                <Label htmlFor="instant" className="cursor-pointer">
                   Immediate — Send notifications as soon as they&apos;re available
                 </Label>
               </div>
               <div className="flex items-center space-x-2">
                 <RadioGroupItem value="daily" id="daily" />
                 <Label htmlFor="daily" className="cursor-pointer">
-                  Daily Digest — Combine notifications into a single daily email
+                  Daily Digest — One email a day with new votes, closing polls and results
                 </Label>
               </div>
               <div className="flex items-center space-x-2">
                 <RadioGroupItem value="weekly" id="weekly" />
                 <Label htmlFor="weekly" className="cursor-pointer">
-                  Weekly Summary — Receive a weekly roundup of poll activity
+                  Weekly Summary — One email a week with new votes, closing polls and results
                 </Label>
               </div>
             </RadioGroup>
@@ -107,6 +120,43 @@ export default function NotificationSettingsForm({ userId, initialValues }: Noti
         </div>
       )}
 
+      <div className="space-y-4 border-t pt-4 mt-4">
+        <div className="space-y-0.5">
+          <Label className="text-base">Notification Types</Label>
+          <p className="text-sm text-muted-foreground">
+            Choose how each kind of notification reaches you. In-app notifications appear under the bell in the navigation bar.
+            {!emailNotificationsEnabled && ' Email notifications are currently turned off.'}
+          </p>
+        </div>
+        {APP_NOTIFICATION_TYPES.map(type => (
+          <div key={type} className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor={`channel-${type}`}>{NOTIFICATION_TYPE_LABELS[type].label}</Label>
+              <p className="text-sm text-muted-foreground">{NOTIFICATION_TYPE_LABELS[type].description}</p>
+            </div>
+            <Select
+              value={notificationChannels[type]}
+              onValueChange={value => {
+                if (isNotificationChannel(value)) {
+                  setValue('notificationChannels', { ...notificationChannels, [type]: value });
+                }
+              }}
+            >
+              <SelectTrigger id={`channel-${type}`} className="w-40 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NOTIFICATION_CHANNELS.map(channel => (
+                  <SelectItem key={channel} value={channel}>
+                    {NOTIFICATION_CHANNEL_LABELS[channel]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
       <Button type="submit" disabled={isSubmitting}>
         {isSubmitting ? "Saving..." : "Save Settings"}
       </Button>
@@ -0,0 +1,269 @@
+'use client';
+
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Copy, ShieldCheck, ShieldOff } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from '@/lib/actions/two-factor';
+
+interface TwoFactorSettingsProps {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+  /** Whether the site requires 2FA for this user's role */
+  required: boolean;
+}
+
+type Step = 'idle' | 'enrolling' | 'recovery-codes';
+
+/**
+ * 🔑 TWO-FACTOR SETTINGS
+ *
+ * Lets a user enroll an authenticator app (QR code + manual secret), confirm
+ * it with a code, and save their recovery codes. Once enabled, recovery codes
+ * can be regenerated and 2FA turned off, both of which require a current code.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/settings/security/page.tsx
+ * - Server actions: lib/actions/two-factor.ts
+ */
+export default function TwoFactorSettings({ enabled, recoveryCodesRemaining, required }: TwoFactorSettingsProps) {
+  const [isEnabled, setIsEnabled] = useState(enabled);
+  const [step, setStep] = useState<Step>('idle');
+  const [secret, setSecret] = useState<string | null>(null);
+  const [otpauthUri, setOtpauthUri] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleStartEnrollment = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await beginTwoFactorEnrollment();
+
+      if (!result.success || !result.secret || !result.otpauthUri) {
+        throw new Error(result.error || 'Failed to start enrollment');
+      }
+
+      setSecret(result.secret);
+      setOtpauthUri(result.otpauthUri);
+      setCode('');
+      setStep('enrolling');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start enrollment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const result = await confirmTwoFactorEnrollment(code);
+
+      if (!result.success || !result.recoveryCodes) {
+        throw new Error(result.error || 'Failed to confirm enrollment');
+      }
+
+      setIsEnabled(true);
+      setSecret(null);
+      setOtpauthUri(null);
+      setRecoveryCodes(result.recoveryCodes);
+      setCode('');
+      setStep('recovery-codes');
+      toast.success('Two-factor authentication is now enabled', { icon: '🔐' });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to confirm enrollment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await regenerateRecoveryCodes(code);
+
+      if (!result.success || !result.recoveryCodes) {
+        throw new Error(result.error || 'Failed to regenerate recovery codes');
+      }
+
+      setRecoveryCodes(result.recoveryCodes);
+      setCode('');
+      setStep('recovery-codes');
+      toast.success('New recovery codes generated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to regenerate recovery codes');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await disableTwoFactor(code);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to disable two-factor authentication');
+      }
+
+      setIsEnabled(false);
+      setCode('');
+      setStep('idle');
+      toast.success('Two-factor authentication has been turned off');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to disable two-factor authentication');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Failed to copy recovery codes');
+    }
+  };
+
+  // Recovery codes are only ever shown right after they are generated
+  if (step === 'recovery-codes') {
+    return (
+      <div className="space-y-4">
+        <div className="space-y-1">
+          <p className="font-medium">Save your recovery codes</p>
+          <p className="text-sm text-muted-foreground">
+            Each code can be used once to sign in if you lose access to your authenticator app.
+            Store them somewhere safe &mdash; they won&apos;t be shown again.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-2 p-4 bg-muted rounded-lg font-mono text-sm">
+          {recoveryCodes.map(recoveryCode => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={copyRecoveryCodes}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy Codes
+          </Button>
+          <Button type="button" onClick={() => setStep('idle')}>
+            I&apos;ve Saved My Codes
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'enrolling' && secret && otpauthUri) {
+    return (
+      <form onSubmit={handleConfirmEnrollment} className="space-y-4">
+        <div className="space-y-2">
+          <Label>1. Scan this QR code with your authenticator app</Label>
+          <div className="flex justify-center p-4 bg-white border rounded-lg">
+            <QRCodeSVG
+              value={otpauthUri}
+              size={200}
+              level="M"
+              includeMargin={true}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground text-center">
+            Can&apos;t scan it? Enter this key manually: <span className="font-mono break-all">{secret}</span>
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="enroll-code">2. Enter the 6-digit code from the app</Label>
+          <Input
+            id="enroll-code"
+            value={code}
+            onChange={e => setCode(e.target.value.replace(/\D/g, ''))}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            placeholder="123456"
+            className="tracking-widest"
+            required
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button type="submit" disabled={isSubmitting || code.length !== 6}>
+            {isSubmitting ? 'Verifying...' : 'Verify and Enable'}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setStep('idle')} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  if (!isEnabled) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <ShieldOff className="h-5 w-5 text-muted-foreground" />
+          <span className="font-medium">Two-factor authentication is off</span>
+        </div>
+        {required && (
+          <div className="p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+            Your role requires two-factor authentication. Set it up to continue using the admin panel.
+          </div>
+        )}
+        <p className="text-sm text-muted-foreground">
+          Protect your account with a code from an authenticator app such as Google Authenticator,
+          1Password or Authy in addition to your password.
+        </p>
+        <Button type="button" onClick={handleStartEnrollment} disabled={isSubmitting}>
+          {isSubmitting ? 'Starting...' : 'Set Up Two-Factor Authentication'}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="h-5 w-5 text-green-600" />
+        <span className="font-medium">Two-factor authentication is on</span>
+        <Badge variant="secondary">{recoveryCodesRemaining} recovery codes left</Badge>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="manage-code">Authenticator code</Label>
+        <Input
+          id="manage-code"
+          value={code}
+          onChange={e => setCode(e.target.value.trim())}
+          autoComplete="one-time-code"
+          maxLength={16}
+          placeholder="123456"
+          className="tracking-widest max-w-xs"
+        />
+        <p className="text-sm text-muted-foreground">
+          Enter a current code to generate new recovery codes or turn off two-factor authentication.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" onClick={handleRegenerateCodes} disabled={isSubmitting || !code}>
+          Generate New Recovery Codes
+        </Button>
+        {!required && (
+          <Button type="button" variant="destructive" onClick={handleDisable} disabled={isSubmitting || !code}>
+            Turn Off
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
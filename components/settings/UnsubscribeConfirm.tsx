@@ -0,0 +1,90 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2 } from "lucide-react";
+import { unsubscribeWithToken } from "@/lib/actions/unsubscribe";
+import { UnsubscribeResult } from "@/lib/unsubscribe";
+
+interface UnsubscribeConfirmProps {
+  token: string;
+  /** Title of the poll the link is for, or null for all-email links */
+  pollTitle: string | null;
+}
+
+/**
+ * 📭 UNSUBSCRIBE CONFIRMATION
+ *
+ * Lets someone who followed an email's unsubscribe link stop that poll's
+ * emails or every email, without signing in.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/unsubscribe/page.tsx
+ * - Integrates with: lib/actions/unsubscribe.ts
+ */
+export function UnsubscribeConfirm({ token, pollTitle }: UnsubscribeConfirmProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<UnsubscribeResult | null>(null);
+
+  const handleUnsubscribe = (allEmails: boolean) => {
+    setError(null);
+    startTransition(async () => {
+      const response = await unsubscribeWithToken(token, allEmails);
+      if (response.success && response.result) {
+        setResult(response.result);
+      } else {
+        setError(response.error || "Failed to unsubscribe");
+      }
+    });
+  };
+
+  if (result) {
+    return (
+      <div className="space-y-4 text-center">
+        <CheckCircle2 className="h-12 w-12 text-green-600 mx-auto" />
+        <p>
+          {result === "unsubscribed_all"
+            ? "You won't receive any more notification emails."
+            : <>You won&apos;t receive any more emails about &ldquo;{pollTitle}&rdquo;.</>}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Changed your mind? You can turn emails back on in your{" "}
+          <Link href="/settings/notifications" className="underline">notification settings</Link>.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <p>
+        {pollTitle
+          ? <>Stop receiving emails about &ldquo;{pollTitle}&rdquo;?</>
+          : "Stop receiving all notification emails from Polly?"}
+      </p>
+
+      <div className="flex flex-col gap-2 sm:flex-row">
+        {pollTitle && (
+          <Button onClick={() => handleUnsubscribe(false)} disabled={isPending}>
+            {isPending ? "Unsubscribing..." : "Unsubscribe from this poll"}
+          </Button>
+        )}
+        <Button
+          variant={pollTitle ? "outline" : "default"}
+          onClick={() => handleUnsubscribe(true)}
+          disabled={isPending}
+        >
+          {isPending && !pollTitle ? "Unsubscribing..." : "Unsubscribe from all emails"}
+        </Button>
+      </div>
+    </div>
+  );
+}
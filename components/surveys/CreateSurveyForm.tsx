@@ -0,0 +1,293 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { X, Plus, Calendar, ArrowUp, ArrowDown } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { createSurvey } from "@/lib/actions/survey";
+import { MAX_POLL_OPTIONS } from "@/lib/poll-revisions";
+import { MAX_SURVEY_QUESTIONS, SurveyQuestionInput, validateSurvey } from "@/lib/surveys";
+
+const emptyQuestion = (): SurveyQuestionInput => ({
+  text: "",
+  options: ["", ""],
+  allow_multiple_choices: false,
+  is_required: true,
+});
+
+/**
+ * 📋 SURVEY CREATION FORM
+ *
+ * Builds a survey out of several questions, each with its own options and
+ * single/multiple choice rule. Questions can be reordered and marked
+ * optional. The whole survey is validated with the same rules the server
+ * applies before anything is saved.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/surveys/create/page.tsx
+ * - Integrates with: lib/actions/survey.ts (createSurvey)
+ */
+export function CreateSurveyForm() {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [questions, setQuestions] = useState<SurveyQuestionInput[]>([emptyQuestion(), emptyQuestion()]);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+  const { user } = useAuth();
+
+  const updateQuestion = (index: number, changes: Partial<SurveyQuestionInput>) => {
+    setQuestions(current => current.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+    setError(null);
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= questions.length) return;
+
+    const reordered = [...questions];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setQuestions(reordered);
+  };
+
+  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
+    const options = [...questions[questionIndex].options];
+    options[optionIndex] = value;
+    updateQuestion(questionIndex, { options });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user) {
+      setError("You must be logged in to create a survey");
+      return;
+    }
+
+    const input = {
+      title: title.trim(),
+      description: description.trim() || undefined,
+      expires_at: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+      questions: questions.map(question => ({
+        ...question,
+        text: question.text.trim(),
+        options: question.options.map(option => option.trim()),
+      })),
+    };
+
+    const validationError = validateSurvey(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError(null);
+    startTransition(async () => {
+      const result = await createSurvey(input);
+
+      if (result.success && result.surveyId) {
+        router.push(`/surveys/${result.surveyId}`);
+      } else {
+        setError(result.error || "Failed to create survey. Please try again.");
+      }
+    });
+  };
+
+  return (
+    <Card className="w-full max-w-3xl mx-auto">
+      <CardHeader>
+        <CardTitle>Create a Survey</CardTitle>
+        <CardDescription>
+          Ask several related questions behind one link. Respondents answer them step by step and submit once.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {error && (
+            <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="survey-title">Survey Title *</Label>
+            <Input
+              id="survey-title"
+              placeholder="e.g. Team offsite feedback"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={200}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="survey-description">Description (Optional)</Label>
+            <Textarea
+              id="survey-description"
+              placeholder="Tell respondents what the survey is about..."
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              maxLength={1000}
+            />
+          </div>
+
+          {/* ❓ QUESTIONS: each with its own options and choice rules */}
+          <div className="space-y-4">
+            <Label>Questions *</Label>
+            {questions.map((question, questionIndex) => (
+              <div key={questionIndex} className="space-y-4 p-4 border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="shrink-0">Q{questionIndex + 1}</Badge>
+                  <Input
+                    placeholder={`Question ${questionIndex + 1}`}
+                    value={question.text}
+                    onChange={(e) => updateQuestion(questionIndex, { text: e.target.value })}
+                    maxLength={500}
+                    aria-label={`Question ${questionIndex + 1}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveQuestion(questionIndex, -1)}
+                    disabled={questionIndex === 0}
+                    aria-label={`Move question ${questionIndex + 1} up`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveQuestion(questionIndex, 1)}
+                    disabled={questionIndex === questions.length - 1}
+                    aria-label={`Move question ${questionIndex + 1} down`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  {questions.length > 2 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setQuestions(questions.filter((_, i) => i !== questionIndex))}
+                      aria-label={`Remove question ${questionIndex + 1}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+
+                <div className="space-y-2 pl-4">
+                  {question.options.map((option, optionIndex) => (
+                    <div key={optionIndex} className="flex items-center gap-2">
+                      <Input
+                        placeholder={`Option ${optionIndex + 1}`}
+                        value={option}
+                        onChange={(e) => updateOption(questionIndex, optionIndex, e.target.value)}
+                        maxLength={200}
+                        aria-label={`Question ${questionIndex + 1} option ${optionIndex + 1}`}
+                      />
+                      {question.options.length > 2 && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => updateQuestion(questionIndex, {
+                            options: question.options.filter((_, i) => i !== optionIndex),
+                          })}
+                          aria-label={`Remove option ${optionIndex + 1} from question ${questionIndex + 1}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                  {question.options.length < MAX_POLL_OPTIONS && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateQuestion(questionIndex, { options: [...question.options, ""] })}
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Option ({question.options.length}/{MAX_POLL_OPTIONS})
+                    </Button>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-6 pl-4">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`question-${questionIndex}-multiple`}
+                      checked={question.allow_multiple_choices}
+                      onCheckedChange={(checked: boolean) =>
+                        updateQuestion(questionIndex, { allow_multiple_choices: checked })
+                      }
+                    />
+                    <Label htmlFor={`question-${questionIndex}-multiple`} className="font-normal">
+                      Allow multiple choices
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`question-${questionIndex}-required`}
+                      checked={question.is_required}
+                      onCheckedChange={(checked: boolean) => updateQuestion(questionIndex, { is_required: checked })}
+                    />
+                    <Label htmlFor={`question-${questionIndex}-required`} className="font-normal">
+                      Required
+                    </Label>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            {questions.length < MAX_SURVEY_QUESTIONS && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setQuestions([...questions, emptyQuestion()])}
+                className="w-full"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Question ({questions.length}/{MAX_SURVEY_QUESTIONS})
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="survey-expires" className="flex items-center">
+              <Calendar className="mr-2 h-4 w-4" />
+              Closes (Optional)
+            </Label>
+            <Input
+              id="survey-expires"
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-4">
+            <Button type="button" variant="outline" onClick={() => router.back()} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" className="flex-1" disabled={isPending}>
+              {isPending ? "Creating Survey..." : "Create Survey"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { SurveyResults as SurveyResultsData } from "@/types/database";
+
+interface SurveyResultsProps {
+  results: SurveyResultsData;
+}
+
+/**
+ * 📊 SURVEY RESULTS
+ *
+ * Completion stats followed by one breakdown per question. Percentages are
+ * of the completed responses that answered the question, so optional
+ * questions and multiple-choice questions read correctly.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/surveys/[id]/results/page.tsx
+ */
+export function SurveyResults({ results }: SurveyResultsProps) {
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Started</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{results.started}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Completed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{results.completed}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Completion Rate</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="text-2xl font-bold">{results.completion_rate}%</div>
+            <Progress value={results.completion_rate} aria-label="Completion rate" />
+          </CardContent>
+        </Card>
+      </div>
+
+      {results.questions.map(question => (
+        <Card key={question.question_id}>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <CardTitle className="text-lg">
+                {question.position}. {question.text}
+              </CardTitle>
+              <div className="flex gap-2 shrink-0">
+                {question.allow_multiple_choices && <Badge variant="outline">Multiple Choice</Badge>}
+                {!question.is_required && <Badge variant="secondary">Optional</Badge>}
+              </div>
+            </div>
+            <CardDescription>
+              {question.respondents} {question.respondents === 1 ? "response" : "responses"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {question.options.map(option => {
+              const percentage = question.respondents > 0
+                ? Math.round((option.count / question.respondents) * 100)
+                : 0;
+
+              return (
+                <div key={option.id} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>{option.text}</span>
+                    <span className="text-muted-foreground">
+                      {option.count} ({percentage}%)
+                    </span>
+                  </div>
+                  <Progress value={percentage} aria-label={`${option.text}: ${percentage}%`} />
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
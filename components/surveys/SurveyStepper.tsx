@@ -0,0 +1,212 @@
+"use client";
+
+import { useRef, useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle, Circle, ArrowLeft, ArrowRight, Send } from "lucide-react";
+import { startSurvey, submitSurveyResponse } from "@/lib/actions/survey";
+import { validateSurveyAnswer } from "@/lib/surveys";
+import { Survey, SurveyAnswer } from "@/types/database";
+import { cn } from "@/lib/utils";
+
+interface SurveyStepperProps {
+  survey: Survey;
+}
+
+/**
+ * 🪜 SURVEY STEPPER
+ *
+ * Takes the place of VotingComponent for surveys: one question per step
+ * with Back/Next, then a review step where every answer is submitted at
+ * once. Nothing is stored until the final submit, apart from noting that
+ * the respondent started (on their first selection) for completion stats.
+ *
+ * USAGE IN CODEBASE:
+ * - Used in: app/surveys/[id]/page.tsx
+ * - Integrates with: lib/actions/survey.ts (startSurvey, submitSurveyResponse)
+ */
+export function SurveyStepper({ survey }: SurveyStepperProps) {
+  const [step, setStep] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, string[]>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const startRecorded = useRef(false);
+
+  const questions = survey.questions;
+  const isReview = step === questions.length;
+  const question = questions[step];
+  const selected = question ? answers[question.id] || [] : [];
+
+  const handleSelect = (optionId: string) => {
+    if (!question) return;
+
+    if (!startRecorded.current) {
+      startRecorded.current = true;
+      startSurvey(survey.id).then(result => {
+        if (!result.success) {
+          console.error("Failed to record survey start:", result.error);
+        }
+      });
+    }
+
+    const next = question.allow_multiple_choices
+      ? selected.includes(optionId)
+        ? selected.filter(id => id !== optionId)
+        : [...selected, optionId]
+      : [optionId];
+
+    setAnswers({ ...answers, [question.id]: next });
+    setError(null);
+  };
+
+  const handleNext = () => {
+    const stepError = validateSurveyAnswer(question, selected);
+    if (stepError) {
+      setError(stepError);
+      return;
+    }
+    setError(null);
+    setStep(step + 1);
+  };
+
+  const handleBack = () => {
+    setError(null);
+    setStep(Math.max(0, step - 1));
+  };
+
+  const handleSubmit = () => {
+    const submission: SurveyAnswer[] = questions
+      .map(q => ({ question_id: q.id, option_ids: answers[q.id] || [] }))
+      .filter(answer => answer.option_ids.length > 0);
+
+    setError(null);
+    startTransition(async () => {
+      const result = await submitSurveyResponse(survey.id, submission);
+      if (result.success) {
+        setSubmitted(true);
+      } else {
+        setError(result.error || "Failed to submit survey");
+      }
+    });
+  };
+
+  if (submitted) {
+    return (
+      <Card className="w-full">
+        <CardContent className="py-12 text-center">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Thanks for completing the survey!</h2>
+          <p className="text-muted-foreground">Your answers to all {questions.length} questions were recorded.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-2xl">{survey.title}</CardTitle>
+        {survey.description && <CardDescription>{survey.description}</CardDescription>}
+        <div className="space-y-2 pt-2">
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>{isReview ? "Review your answers" : `Question ${step + 1} of ${questions.length}`}</span>
+            <span>{Math.round((step / questions.length) * 100)}%</span>
+          </div>
+          <Progress value={(step / questions.length) * 100} aria-label="Survey progress" />
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md" role="alert">
+            {error}
+          </div>
+        )}
+
+        {isReview ? (
+          <ol className="space-y-4">
+            {questions.map((q, index) => {
+              const chosen = q.options.filter(option => (answers[q.id] || []).includes(option.id));
+              return (
+                <li key={q.id} className="flex items-start justify-between gap-4 border-b pb-3">
+                  <div>
+                    <p className="font-medium">{index + 1}. {q.text}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {chosen.length > 0 ? chosen.map(option => option.text).join(", ") : "Skipped"}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setStep(index)} disabled={isPending}>
+                    Change
+                  </Button>
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <h2 className="text-lg font-semibold">{question.text}</h2>
+              <div className="flex gap-2 shrink-0">
+                {question.allow_multiple_choices && <Badge variant="outline">Multiple Choice</Badge>}
+                {!question.is_required && <Badge variant="secondary">Optional</Badge>}
+              </div>
+            </div>
+
+            <div className="space-y-3" role={question.allow_multiple_choices ? "group" : "radiogroup"}>
+              {question.options.map(option => {
+                const isSelected = selected.includes(option.id);
+                return (
+                  <div
+                    key={option.id}
+                    className={cn(
+                      "flex items-center space-x-3 rounded-lg border p-4 cursor-pointer transition-all hover:border-primary/50",
+                      isSelected && "border-primary bg-primary/5"
+                    )}
+                    onClick={() => handleSelect(option.id)}
+                    role={question.allow_multiple_choices ? "checkbox" : "radio"}
+                    aria-checked={isSelected}
+                    tabIndex={0}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" || e.key === " ") {
+                        e.preventDefault();
+                        handleSelect(option.id);
+                      }
+                    }}
+                  >
+                    {isSelected ? (
+                      <CheckCircle className="h-5 w-5 text-primary" />
+                    ) : (
+                      <Circle className="h-5 w-5 text-muted-foreground" />
+                    )}
+                    <span className="font-medium">{option.text}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={handleBack} disabled={step === 0 || isPending}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          {isReview ? (
+            <Button onClick={handleSubmit} disabled={isPending}>
+              <Send className="mr-2 h-4 w-4" />
+              {isPending ? "Submitting..." : "Submit Survey"}
+            </Button>
+          ) : (
+            <Button onClick={handleNext}>
+              {step === questions.length - 1 ? "Review" : "Next"}
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+interface AnimatedNumberProps {
+  /** Target value; changes are tweened from the previously shown value */
+  value: number;
+  /** Tween duration in milliseconds */
+  duration?: number;
+  className?: string;
+}
+
+/**
+ * Renders an integer that counts up or down to its new value when it changes
+ */
+export function AnimatedNumber({ value, duration = 600, className }: AnimatedNumberProps) {
+  const [displayValue, setDisplayValue] = useState(value);
+  const displayRef = useRef(value);
+
+  useEffect(() => {
+    const from = displayRef.current;
+    if (from === value) return;
+
+    let frame: number;
+    const start = performance.now();
+
+    const step = (now: number) => {
+      const progress = Math.min((now - start) / duration, 1);
+      // Ease-out cubic so the count settles gently
+      const eased = 1 - Math.pow(1 - progress, 3);
+      const next = Math.round(from + (value - from) * eased);
+
+      displayRef.current = next;
+      setDisplayValue(next);
+
+      if (progress < 1) {
+        frame = requestAnimationFrame(step);
+      }
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [value, duration]);
+
+  return <span className={className}>{displayValue}</span>;
+}
@@ -2,7 +2,7 @@
 
 import { createContext, useContext, useEffect, useState } from 'react';
 import { createClient } from '@/lib/supabase';
-import type { User, Session, AuthError, AuthChangeEvent } from '@supabase/supabase-js';
+import type { User, Session, AuthChangeEvent } from '@supabase/supabase-js';
 
 /**
  * User profile type definition
@@ -35,6 +35,7 @@ interface UserProfile {
  * 
  * ARCHITECTURE:
  * - Uses Supabase Auth with client-side state management
+ * - Sign in / sign up go through /api/auth routes so admin policies apply
  * - Implements React Context pattern for global auth state
  * - Integrates with server-side auth validation via cookies
  * 
@@ -58,12 +59,17 @@ interface AuthContextType {
    * Authenticate user with email and password
    * @param email - User's email address (will be sanitized)
    * @param password - User's password (will be validated)
-   * @returns Promise with error message or null on success, plus success flag and userId on success
+   * @param twoFactorCode - Authenticator or recovery code, once the server has asked for one
+   * @returns Promise with error message or null on success, plus success flag and userId on success.
+   * `twoFactorRequired` is set when the account needs a second factor to finish signing in;
+   * `twoFactorSetupRequired` when an admin must enroll in 2FA before using the admin panel.
    */
-  signIn: (email: string, password: string) => Promise<{ 
+  signIn: (email: string, password: string, twoFactorCode?: string) => Promise<{ 
     error: string | null;
     success?: boolean;
     userId?: string | undefined;
+    twoFactorRequired?: boolean;
+    twoFactorSetupRequired?: boolean;
   }>;
   /** 
    * Register new user with email and password
@@ -115,29 +121,6 @@ const validatePassword = (password: string): boolean => {
   return password.length >= 6 && password.length <= 128;
 };
 
-/**
- * Sanitizes authentication error messages to prevent information disclosure
- * This is critical for preventing user enumeration attacks and limiting
- * information available to potential attackers.
- * 
- * @param error - Raw Supabase authentication error
- * @returns Safe, user-friendly error message
- */
-const sanitizeAuthError = (error: AuthError): string => {
-  // Map specific Supabase errors to safe, generic messages
-  const errorMessageMap: Record<string, string> = {
-    'Invalid login credentials': 'Invalid email or password',
-    'Email not confirmed': 'Please confirm your email address before signing in',
-    'User already registered': 'An account with this email already exists',
-    'signup_disabled': 'Registration is currently unavailable',
-    'too_many_requests': 'Too many attempts. Please try again later',
-    'weak_password': 'Password does not meet security requirements',
-  };
-
-  // Return mapped message or generic fallback
-  return errorMessageMap[error.message] || 'Authentication failed. Please try again.';
-};
-
 /**
  * 🛡️ CLIENT-SIDE RATE LIMITING
  * Implements basic client-side rate limiting to reduce server load
@@ -426,9 +409,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
    * 
    * @param email - User's email address
    * @param password - User's password
+   * @param twoFactorCode - Second factor code for accounts with 2FA enabled
    * @returns Promise with sanitized error message or null on success
    */
-  const signIn = async (email: string, password: string) => {
+  const signIn = async (email: string, password: string, twoFactorCode?: string) => {
     const supabase = createClient();
     
     try {
@@ -458,31 +442,52 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       console.log('[AUTH] Sign in attempt for email:', sanitizedEmail);
 
-      // 🔐 Attempt authentication
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email: sanitizedEmail,
-        password,
+      // 🔐 Attempt authentication through the login route so the server can
+      // enforce the account lockout policy; it sets the session cookies
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: sanitizedEmail, password, two_factor_code: twoFactorCode }),
       });
+      const result = await response.json().catch(() => ({}));
       
-      if (error) {
+      // 🔑 Correct password, but the account needs its second factor first
+      if (result.code === 'TWO_FACTOR_REQUIRED') {
+        setLoading(false);
+        return { error: null, twoFactorRequired: true };
+      }
+      
+      if (!response.ok) {
         // Record failed attempt for rate limiting
         rateLimiter.recordAttempt(rateLimitKey);
         
-        console.error('[AUTH] Sign in failed:', error.message);
+        console.error('[AUTH] Sign in failed:', result.code || response.status);
+        setLoading(false);
         
-        // Loading state will be set to false by the auth state change listener
-        // Return sanitized error message
-        return { error: sanitizeAuthError(error) };
+        // The route already returns safe, user-facing messages
+        return { 
+          error: result.error || 'Authentication failed. Please try again.',
+          twoFactorRequired: result.two_factor_required === true
+        };
+      }
+      
+      // 🔄 Pick up the session the server stored in cookies
+      const { data: { session: newSession } } = await supabase.auth.getSession();
+      if (newSession?.user) {
+        setSession(newSession);
+        setUser(newSession.user);
+        await fetchUserProfile(newSession.user.id);
       }
+      setLoading(false);
       
       console.log('[AUTH] Sign in successful');
-      // The loading state will be updated by the onAuthStateChange listener
       
       // Return success with user information
       return { 
         error: null,
         success: true,
-        userId: data?.user?.id
+        userId: result.user?.id as string | undefined,
+        twoFactorSetupRequired: result.two_factor_setup_required === true
       };
       
     } catch (error) {
@@ -507,8 +512,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
    * @returns Promise with sanitized error message or null on success
    */
   const signUp = async (email: string, password: string) => {
-    const supabase = createClient();
-    
     try {
       // Set loading state for UI feedback
       setLoading(true);
@@ -536,20 +539,24 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       console.log('[AUTH] Sign up attempt for email:', sanitizedEmail);
 
-      // 🔐 Attempt registration
-      const { error } = await supabase.auth.signUp({
-        email: sanitizedEmail,
-        password,
+      // 🔐 Attempt registration through the register route, which applies
+      // the admin email validation and password policies
+      const response = await fetch('/api/auth/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: sanitizedEmail, password }),
       });
       
-      if (error) {
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        
         // Record failed attempt for rate limiting
         rateLimiter.recordAttempt(rateLimitKey);
         
-        console.error('[AUTH] Sign up failed:', error.message);
+        console.error('[AUTH] Sign up failed:', result.code || response.status);
         setLoading(false);
-        // Return sanitized error message
-        return { error: sanitizeAuthError(error) };
+        // The route already returns safe, user-facing messages
+        return { error: result.error || 'Registration failed. Please try again.' };
       }
       
       console.log('[AUTH] Sign up successful - verification email sent');
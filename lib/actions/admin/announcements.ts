@@ -0,0 +1,155 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { requireAdmin } from '@/lib/auth';
+import { revalidatePath } from 'next/cache';
+import { AnnouncementInput, validateAnnouncement } from '@/lib/announcements';
+import { Announcement } from '@/types/database';
+
+/**
+ * Normalise form input into the columns stored on an announcement
+ */
+const toAnnouncementRow = (input: AnnouncementInput) => ({
+  title: input.title.trim(),
+  content: input.content.trim(),
+  status: input.status,
+  target_audience: input.target_audience,
+  starts_at: input.starts_at ? new Date(input.starts_at).toISOString() : null,
+  ends_at: input.ends_at ? new Date(input.ends_at).toISOString() : null,
+});
+
+/**
+ * Lists all announcements, newest first
+ * @returns Announcements or an error message
+ */
+export async function getAnnouncements(): Promise<{ success: boolean; announcements?: Announcement[]; error?: string }> {
+  try {
+    await requireAdmin();
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('announcements')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching announcements:', error);
+      return { success: false, error: 'Failed to load announcements' };
+    }
+
+    return { success: true, announcements: data || [] };
+  } catch (error) {
+    console.error('Error in getAnnouncements:', error);
+    return { success: false, error: 'Failed to load announcements' };
+  }
+}
+
+/**
+ * Creates an announcement
+ * @param input - Title, message, status, audience and optional schedule
+ * @returns Success with the new announcement, or an error message
+ */
+export async function createAnnouncement(
+  input: AnnouncementInput
+): Promise<{ success: boolean; announcement?: Announcement; error?: string }> {
+  try {
+    const { user } = await requireAdmin();
+
+    const validationError = validateAnnouncement(input);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('announcements')
+      .insert({ ...toAnnouncementRow(input), created_by: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating announcement:', error);
+      return { success: false, error: 'Failed to create announcement' };
+    }
+
+    revalidatePath('/admin/announcements');
+
+    return { success: true, announcement: data };
+  } catch (error) {
+    console.error('Error in createAnnouncement:', error);
+    return { success: false, error: 'Failed to create announcement' };
+  }
+}
+
+/**
+ * Updates an announcement, including moving it between states
+ * @param announcementId - The announcement to update
+ * @param input - The complete new values
+ * @returns Success with the updated announcement, or an error message
+ */
+export async function updateAnnouncement(
+  announcementId: string,
+  input: AnnouncementInput
+): Promise<{ success: boolean; announcement?: Announcement; error?: string }> {
+  try {
+    await requireAdmin();
+
+    const validationError = validateAnnouncement(input);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('announcements')
+      .update(toAnnouncementRow(input))
+      .eq('id', announcementId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating announcement:', error);
+      return { success: false, error: 'Failed to update announcement' };
+    }
+
+    revalidatePath('/admin/announcements');
+
+    return { success: true, announcement: data };
+  } catch (error) {
+    console.error('Error in updateAnnouncement:', error);
+    return { success: false, error: 'Failed to update announcement' };
+  }
+}
+
+/**
+ * Deletes an announcement and its dismissals
+ * @param announcementId - The announcement to delete
+ * @returns Success or error message
+ */
+export async function deleteAnnouncement(announcementId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireAdmin();
+
+    const supabase = await createSupabaseServerClient();
+
+    const { error } = await supabase
+      .from('announcements')
+      .delete()
+      .eq('id', announcementId);
+
+    if (error) {
+      console.error('Error deleting announcement:', error);
+      return { success: false, error: 'Failed to delete announcement' };
+    }
+
+    revalidatePath('/admin/announcements');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteAnnouncement:', error);
+    return { success: false, error: 'Failed to delete announcement' };
+  }
+}
@@ -3,6 +3,7 @@
 import { createSupabaseServerClient } from '@/lib/supabase-server';
 import { requireAdmin } from '@/lib/auth';
 import { revalidatePath } from 'next/cache';
+import { invalidateAppSettingsCache } from '@/lib/app-settings';
 
 /**
  * Updates application settings in the database
@@ -26,6 +27,9 @@ export async function updateAppSettings(key: string, value: Record<string, unkno
       throw new Error(`Failed to update setting: ${error.message}`);
     }
     
+    // Make sure enforcement picks up the new values immediately
+    invalidateAppSettingsCache();
+    
     // Revalidate admin settings page
     revalidatePath('/admin/settings');
     
@@ -215,14 +219,21 @@ export async function updateSecuritySettings(
     
     // Extract and validate form data
     const require_email_verification = formData.get('require_email_verification') as string;
+    const min_password_length = formData.get('min_password_length') as string;
+    const require_password_complexity = formData.get('require_password_complexity') as string;
     const max_login_attempts = formData.get('max_login_attempts') as string;
     const lockout_duration_minutes = formData.get('lockout_duration_minutes') as string;
     const session_timeout_hours = formData.get('session_timeout_hours') as string;
     const enable_two_factor = formData.get('enable_two_factor') as string;
+    const require_two_factor_for_admins = formData.get('require_two_factor_for_admins') as string;
     
     const errors: Record<string, string> = {};
     
     // Validate numeric fields
+    if (!min_password_length || isNaN(parseInt(min_password_length)) || parseInt(min_password_length) < 6 || parseInt(min_password_length) > 128) {
+      errors.min_password_length = 'Valid number between 6 and 128 required';
+    }
+    
     if (!max_login_attempts || isNaN(parseInt(max_login_attempts)) || parseInt(max_login_attempts) < 1) {
       errors.max_login_attempts = 'Valid number greater than 0 required';
     }
@@ -245,10 +256,13 @@ export async function updateSecuritySettings(
     
     const securitySettings = {
       require_email_verification: require_email_verification === 'true',
+      min_password_length: parseInt(min_password_length),
+      require_password_complexity: require_password_complexity === 'true',
       max_login_attempts: parseInt(max_login_attempts),
       lockout_duration_minutes: parseInt(lockout_duration_minutes),
       session_timeout_hours: parseInt(session_timeout_hours),
       enable_two_factor: enable_two_factor === 'true',
+      require_two_factor_for_admins: enable_two_factor === 'true' && require_two_factor_for_admins === 'true',
     };
     
     await updateAppSettings('security', securitySettings);
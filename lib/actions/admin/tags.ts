@@ -0,0 +1,216 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { requireAdmin } from '@/lib/auth';
+import { revalidatePath } from 'next/cache';
+import { CategoryInput, slugifyTag, suggestTags, validateCategory } from '@/lib/poll-tags';
+import { Tag, TagSuggestion } from '@/types/database';
+
+const POPULAR_TAG_COUNT = 20;
+
+/**
+ * Refresh the pages that show categories
+ */
+function revalidateTagPages() {
+  revalidatePath('/admin/categories');
+  revalidatePath('/polls');
+}
+
+/**
+ * Lists the categories and the most used tags that are not categories yet
+ * @returns Categories and popular tags, or an error message
+ */
+export async function getAdminTags(): Promise<{
+  success: boolean;
+  categories?: Tag[];
+  popularTags?: TagSuggestion[];
+  error?: string;
+}> {
+  try {
+    await requireAdmin();
+
+    const supabase = await createSupabaseServerClient();
+
+    const [{ data: categories, error }, suggestions] = await Promise.all([
+      supabase
+        .from('tags')
+        .select('*')
+        .eq('is_category', true)
+        .order('name'),
+      suggestTags(supabase, '', POPULAR_TAG_COUNT),
+    ]);
+
+    if (error) {
+      console.error('Error fetching categories:', error);
+      return { success: false, error: 'Failed to load categories' };
+    }
+
+    return {
+      success: true,
+      categories: categories || [],
+      popularTags: suggestions.filter(tag => !tag.is_category),
+    };
+  } catch (error) {
+    console.error('Error in getAdminTags:', error);
+    return { success: false, error: 'Failed to load categories' };
+  }
+}
+
+/**
+ * Creates a category. An existing tag with the same slug is promoted
+ * instead, so its polls move into the category.
+ * @param input - Name and optional description
+ * @returns Success with the category, or an error message
+ */
+export async function createCategory(
+  input: CategoryInput
+): Promise<{ success: boolean; category?: Tag; error?: string }> {
+  try {
+    const { user } = await requireAdmin();
+
+    const validationError = validateCategory(input);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const supabase = await createSupabaseServerClient();
+    const row = {
+      name: input.name.trim(),
+      slug: slugifyTag(input.name),
+      description: input.description?.trim() || null,
+      is_category: true,
+    };
+
+    const { data: existing } = await supabase
+      .from('tags')
+      .select('id, is_category')
+      .eq('slug', row.slug)
+      .maybeSingle();
+
+    if (existing?.is_category) {
+      return { success: false, error: 'A category with this name already exists' };
+    }
+
+    const { data, error } = existing
+      ? await supabase.from('tags').update(row).eq('id', existing.id).select().single()
+      : await supabase.from('tags').insert({ ...row, created_by: user.id }).select().single();
+
+    if (error) {
+      console.error('Error creating category:', error);
+      return { success: false, error: 'Failed to create category' };
+    }
+
+    revalidateTagPages();
+
+    return { success: true, category: data };
+  } catch (error) {
+    console.error('Error in createCategory:', error);
+    return { success: false, error: 'Failed to create category' };
+  }
+}
+
+/**
+ * Renames a category or changes its description. The slug, and so the
+ * tag page URL, stays the same.
+ * @param tagId - The category to update
+ * @param input - The complete new values
+ * @returns Success with the updated category, or an error message
+ */
+export async function updateCategory(
+  tagId: string,
+  input: CategoryInput
+): Promise<{ success: boolean; category?: Tag; error?: string }> {
+  try {
+    await requireAdmin();
+
+    const validationError = validateCategory(input);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('tags')
+      .update({
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+      })
+      .eq('id', tagId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating category:', error);
+      return { success: false, error: 'Failed to update category' };
+    }
+
+    revalidateTagPages();
+
+    return { success: true, category: data };
+  } catch (error) {
+    console.error('Error in updateCategory:', error);
+    return { success: false, error: 'Failed to update category' };
+  }
+}
+
+/**
+ * Promotes a tag to a category, or demotes a category back to a plain tag
+ * @param tagId - The tag to change
+ * @param isCategory - Whether it should be a category
+ * @returns Success or error message
+ */
+export async function setTagCategory(tagId: string, isCategory: boolean): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireAdmin();
+
+    const supabase = await createSupabaseServerClient();
+
+    const { error } = await supabase
+      .from('tags')
+      .update({ is_category: isCategory })
+      .eq('id', tagId);
+
+    if (error) {
+      console.error('Error changing tag category:', error);
+      return { success: false, error: 'Failed to update tag' };
+    }
+
+    revalidateTagPages();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in setTagCategory:', error);
+    return { success: false, error: 'Failed to update tag' };
+  }
+}
+
+/**
+ * Deletes a tag and removes it from every poll
+ * @param tagId - The tag to delete
+ * @returns Success or error message
+ */
+export async function deleteTag(tagId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireAdmin();
+
+    const supabase = await createSupabaseServerClient();
+
+    const { error } = await supabase
+      .from('tags')
+      .delete()
+      .eq('id', tagId);
+
+    if (error) {
+      console.error('Error deleting tag:', error);
+      return { success: false, error: 'Failed to delete tag' };
+    }
+
+    revalidateTagPages();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteTag:', error);
+    return { success: false, error: 'Failed to delete tag' };
+  }
+}
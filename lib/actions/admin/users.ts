@@ -82,4 +82,40 @@ export async function deleteUser(userId: string) {
       error: error.message || 'An error occurred deleting the user account' 
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Unlocks a user account that was locked after repeated failed logins
+ * @param userId - The profile ID of the user to unlock
+ * @returns Success or error message
+ */
+export async function unlockUserAccount(userId: string) {
+  try {
+    // Ensure the current user is admin
+    await requireAdmin();
+    
+    const supabase = await createSupabaseServerClient();
+    
+    // Clear the lockout and failed attempt counter
+    const { error } = await supabase
+      .from('profiles')
+      .update({ failed_login_attempts: 0, locked_until: null })
+      .eq('id', userId);
+    
+    if (error) {
+      console.error('Error unlocking user account:', error);
+      return { success: false, error: error.message };
+    }
+    
+    // Revalidate the users page to reflect changes
+    revalidatePath('/admin/users');
+    
+    return { success: true };
+  } catch (error) {
+    console.error('Error in unlockUserAccount:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'An error occurred unlocking the user account' 
+    };
+  }
+}
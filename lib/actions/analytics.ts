@@ -33,6 +33,15 @@ export interface AnalyticsData {
   };
 }
 
+export interface TagActivity {
+  tag_id: string;
+  name: string;
+  slug: string;
+  is_category: boolean;
+  polls_count: number;
+  votes_count: number;
+}
+
 /**
  * Calculate percentage change between two numbers
  */
@@ -43,11 +52,20 @@ function calculatePercentageChange(current: number, previous: number): string {
 }
 
 /**
- * Get analytics for dashboard including trends and period data
+ * Get analytics for dashboard including trends and period data.
+ * With a tag id, poll and vote figures only count that tag's polls.
  */
-export async function getAdminDashboardAnalytics(): Promise<AnalyticsData> {
+export async function getAdminDashboardAnalytics(tagId?: string): Promise<AnalyticsData> {
   const supabase = await createSupabaseServerClient();
 
+  // Poll and vote counts, optionally limited to polls with the tag
+  const countPolls = () => tagId
+    ? supabase.from('polls').select('id, poll_tags!inner(tag_id)', { count: 'exact', head: true }).eq('poll_tags.tag_id', tagId)
+    : supabase.from('polls').select('*', { count: 'exact', head: true });
+  const countVotes = () => tagId
+    ? supabase.from('votes').select('poll_id, polls!inner(poll_tags!inner(tag_id))', { count: 'exact', head: true }).eq('polls.poll_tags.tag_id', tagId)
+    : supabase.from('votes').select('*', { count: 'exact', head: true });
+
   // Set date ranges
   const now = new Date();
   const thirtyDaysAgo = new Date(now);
@@ -67,6 +85,23 @@ export async function getAdminDashboardAnalytics(): Promise<AnalyticsData> {
   if (totalCountsError) {
     console.error('Error fetching total counts:', totalCountsError);
   }
+
+  let pollsTotal: number = totalCounts?.polls_count || 0;
+  let activePollsTotal: number = totalCounts?.active_polls_count || 0;
+  let votesTotal: number = totalCounts?.votes_count || 0;
+
+  // The platform totals cover every poll, so count the tag's polls directly
+  if (tagId) {
+    const [{ count: tagPolls }, { count: tagActivePolls }, { count: tagVotes }] = await Promise.all([
+      countPolls(),
+      countPolls().eq('is_active', true),
+      countVotes(),
+    ]);
+
+    pollsTotal = tagPolls || 0;
+    activePollsTotal = tagActivePolls || 0;
+    votesTotal = tagVotes || 0;
+  }
   
   // Active polls count is now included in the stored procedure result
 
@@ -84,28 +119,20 @@ export async function getAdminDashboardAnalytics(): Promise<AnalyticsData> {
     .gte('created_at', sixtyDaysAgoStr) as { count: number };
 
   // Get recent polls
-  const { count: recentPolls } = await supabase
-    .from('polls')
-    .select('*', { count: 'exact', head: true })
+  const { count: recentPolls } = await countPolls()
     .gte('created_at', thirtyDaysAgoStr) as { count: number };
 
   // Get previous period polls
-  const { count: previousPeriodPolls } = await supabase
-    .from('polls')
-    .select('*', { count: 'exact', head: true })
+  const { count: previousPeriodPolls } = await countPolls()
     .lt('created_at', thirtyDaysAgoStr)
     .gte('created_at', sixtyDaysAgoStr) as { count: number };
 
   // Get recent votes
-  const { count: recentVotes } = await supabase
-    .from('votes')
-    .select('*', { count: 'exact', head: true })
+  const { count: recentVotes } = await countVotes()
     .gte('created_at', thirtyDaysAgoStr) as { count: number };
 
   // Get previous period votes
-  const { count: previousPeriodVotes } = await supabase
-    .from('votes')
-    .select('*', { count: 'exact', head: true })
+  const { count: previousPeriodVotes } = await countVotes()
     .lt('created_at', thirtyDaysAgoStr)
     .gte('created_at', sixtyDaysAgoStr) as { count: number };
 
@@ -136,9 +163,7 @@ export async function getAdminDashboardAnalytics(): Promise<AnalyticsData> {
     });
     
     // Get polls for this week
-    const { count: weeklyPolls } = await supabase
-      .from('polls')
-      .select('*', { count: 'exact', head: true })
+    const { count: weeklyPolls } = await countPolls()
       .gte('created_at', weekStart.toISOString())
       .lt('created_at', weekEnd.toISOString()) as { count: number };
     
@@ -148,9 +173,7 @@ export async function getAdminDashboardAnalytics(): Promise<AnalyticsData> {
     });
     
     // Get votes for this week
-    const { count: weeklyVotes } = await supabase
-      .from('votes')
-      .select('*', { count: 'exact', head: true })
+    const { count: weeklyVotes } = await countVotes()
       .gte('created_at', weekStart.toISOString())
       .lt('created_at', weekEnd.toISOString()) as { count: number };
     
@@ -186,15 +209,41 @@ export async function getAdminDashboardAnalytics(): Promise<AnalyticsData> {
       byPeriod: usersByWeek.reverse() // Show oldest to newest
     },
     polls: {
-      total: totalCounts?.polls_count || 0,
-      active: totalCounts?.active_polls_count || 0,
+      total: pollsTotal,
+      active: activePollsTotal,
       trend: pollsTrend,
       byPeriod: pollsByWeek.reverse()
     },
     votes: {
-      total: totalCounts?.votes_count || 0,
+      total: votesTotal,
       trend: votesTrend,
       byPeriod: votesByWeek.reverse()
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Tags with the most votes in the last 30 days, for the analytics page
+ */
+export async function getTagActivity(limit: number = 10): Promise<TagActivity[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const since = new Date();
+  since.setDate(since.getDate() - 30);
+
+  const { data, error } = await supabase.rpc('get_tag_stats', {
+    since: since.toISOString(),
+    result_limit: limit,
+  });
+
+  if (error) {
+    console.error('Error fetching tag activity:', error);
+    return [];
+  }
+
+  return (data || []).map((row: TagActivity) => ({
+    ...row,
+    polls_count: Number(row.polls_count),
+    votes_count: Number(row.votes_count),
+  }));
+}
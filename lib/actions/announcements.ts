@@ -0,0 +1,79 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { getEffectiveAnnouncementStatus } from '@/lib/announcements';
+import { Announcement } from '@/types/database';
+
+/**
+ * Get the announcements currently shown to this visitor, minus the ones they
+ * dismissed. Audience and schedule are applied by the announcements RLS policy.
+ */
+export async function getActiveAnnouncements(): Promise<Announcement[]> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const { data: announcements, error } = await supabase
+      .from('announcements')
+      .select('*')
+      .in('status', ['active', 'scheduled'])
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching active announcements:', error);
+      return [];
+    }
+
+    // Admins can read every announcement, so keep only the live ones
+    const live = (announcements || []).filter(
+      (announcement: Announcement) => getEffectiveAnnouncementStatus(announcement) === 'active'
+    );
+
+    if (!session || live.length === 0) {
+      return live;
+    }
+
+    const { data: dismissals } = await supabase
+      .from('announcement_dismissals')
+      .select('announcement_id')
+      .eq('user_id', session.user.id)
+      .in('announcement_id', live.map(announcement => announcement.id));
+
+    const dismissed = new Set((dismissals || []).map(dismissal => dismissal.announcement_id));
+    return live.filter(announcement => !dismissed.has(announcement.id));
+  } catch (error) {
+    console.error('Error fetching active announcements:', error);
+    return [];
+  }
+}
+
+/**
+ * Hide an announcement for the signed-in user
+ */
+export async function dismissAnnouncement(announcementId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const { error } = await supabase
+      .from('announcement_dismissals')
+      .upsert(
+        { announcement_id: announcementId, user_id: session.user.id },
+        { onConflict: 'announcement_id,user_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Error dismissing announcement:', error);
+      return { success: false, error: 'Failed to dismiss announcement' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error dismissing announcement:', error);
+    return { success: false, error: 'Failed to dismiss announcement' };
+  }
+}
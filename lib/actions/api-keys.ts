@@ -0,0 +1,127 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { revalidatePath } from 'next/cache';
+import { sanitizeInput } from '@/lib/utils';
+import { generateApiKey } from '@/lib/api-auth';
+import { API_KEY_ACCESS_LEVELS, MAX_API_KEYS_PER_USER } from '@/lib/api-keys';
+import { ApiKey } from '@/types/database';
+
+/**
+ * Get the current user's API keys, newest first. Key hashes are never sent
+ * to the browser.
+ */
+export async function getApiKeys(): Promise<ApiKey[]> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('id, user_id, name, key_prefix, scopes, last_used_at, revoked_at, created_at')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching API keys:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return [];
+  }
+}
+
+/**
+ * Create an API key. The returned key is the only time it is available in
+ * plain text.
+ */
+export async function createApiKey(input: {
+  name: string;
+  access: 'read' | 'write';
+}): Promise<{ success: boolean; key?: string; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in to create an API key' };
+    }
+
+    const name = input.name ? sanitizeInput(input.name.trim()).slice(0, 100) : '';
+    if (!name) {
+      return { success: false, error: 'Give the key a name' };
+    }
+
+    const accessLevel = API_KEY_ACCESS_LEVELS.find(level => level.value === input.access);
+    if (!accessLevel) {
+      return { success: false, error: 'Invalid access level' };
+    }
+
+    const { count } = await supabase
+      .from('api_keys')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', session.user.id)
+      .is('revoked_at', null);
+
+    if ((count || 0) >= MAX_API_KEYS_PER_USER) {
+      return { success: false, error: `You can have up to ${MAX_API_KEYS_PER_USER} active API keys` };
+    }
+
+    const { key, prefix, hash } = generateApiKey();
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .insert({
+        user_id: session.user.id,
+        name,
+        key_prefix: prefix,
+        key_hash: hash,
+        scopes: accessLevel.scopes,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error creating API key:', error);
+      return { success: false, error: 'Failed to create API key' };
+    }
+
+    console.log(`[API] API key created - ID: ${data.id}, Scopes: ${accessLevel.scopes.join(',')}`);
+    revalidatePath('/settings/api-keys');
+
+    return { success: true, key };
+  } catch (error) {
+    console.error('Error in createApiKey:', error);
+    return { success: false, error: 'Failed to create API key' };
+  }
+}
+
+/**
+ * Revoke one of the current user's API keys. Requests using it fail straight
+ * away.
+ */
+export async function revokeApiKey(keyId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data: revoked, error } = await supabase.rpc('revoke_api_key', { key_uuid: keyId });
+
+    if (error) {
+      console.error('Error revoking API key:', error);
+      return { success: false, error: 'Failed to revoke API key' };
+    }
+
+    if (!revoked) {
+      return { success: false, error: 'API key not found' };
+    }
+
+    console.log(`[API] API key revoked - ID: ${keyId}`);
+    revalidatePath('/settings/api-keys');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in revokeApiKey:', error);
+    return { success: false, error: 'Failed to revoke API key' };
+  }
+}
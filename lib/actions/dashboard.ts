@@ -2,6 +2,7 @@
 
 import { createSupabaseServerClient } from '@/lib/supabase-server';
 import { Poll } from '@/types/database';
+import { emitWebhookEvent } from '@/lib/webhook-events';
 
 // Test function to debug specific poll access
 export async function testPollAccess(pollId: string) {
@@ -101,6 +102,9 @@ export async function getUserPolls() {
         creator: undefined,
         is_active: pollData.is_active,
         allow_multiple_choices: pollData.allow_multiple_choices,
+        visibility: pollData.visibility || 'public',
+        status: pollData.status || 'published',
+        opens_at: pollData.opens_at,
         expires_at: pollData.expires_at,
         created_at: pollData.created_at,
         updated_at: pollData.updated_at,
@@ -280,6 +284,9 @@ export async function togglePollStatus(pollId: string, isActive: boolean) {
     }
 
     console.log('[TOGGLE_POLL] Poll status updated successfully');
+
+    await emitWebhookEvent(isActive ? 'poll.reopened' : 'poll.closed', pollId, { userId: session.user.id });
+
     return { success: true };
   } catch (error) {
     console.error('Error updating poll status:', error);
@@ -289,3 +296,61 @@ export async function togglePollStatus(pollId: string, isActive: boolean) {
     };
   }
 }
+
+/**
+ * Publish a draft poll. If it has an opening time in the future it becomes
+ * scheduled, otherwise it is open for voting immediately.
+ */
+export async function publishPoll(pollId: string) {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    // Get the authenticated user
+    const { data: { session }, error: authError } = await supabase.auth.getSession();
+    
+    if (authError || !session) {
+      throw new Error('Authentication required');
+    }
+
+    // Verify the poll belongs to the current user and is still a draft
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('creator_id, status')
+      .eq('id', pollId)
+      .single();
+
+    if (pollError || !poll) {
+      throw new Error('Poll not found');
+    }
+
+    if (poll.creator_id !== session.user.id) {
+      throw new Error('Unauthorized: You can only publish your own polls');
+    }
+
+    if (poll.status !== 'draft') {
+      throw new Error('This poll has already been published');
+    }
+
+    const { error: updateError } = await supabase
+      .from('polls')
+      .update({ status: 'published', updated_at: new Date().toISOString() })
+      .eq('id', pollId);
+
+    if (updateError) {
+      console.error('[PUBLISH_POLL] Update error:', updateError);
+      throw new Error(`Failed to publish poll: ${updateError.message}`);
+    }
+
+    console.log('[PUBLISH_POLL] Poll published:', pollId);
+
+    await emitWebhookEvent('poll.created', pollId, { userId: session.user.id });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error publishing poll:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to publish poll'
+    };
+  }
+}
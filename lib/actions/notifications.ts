@@ -0,0 +1,83 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { AppNotification } from '@/types/database';
+
+const NOTIFICATION_LIST_LIMIT = 20;
+
+/**
+ * Get the signed-in user's latest notifications and how many are unread
+ */
+export async function getNotifications(): Promise<{ notifications: AppNotification[]; unreadCount: number }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { notifications: [], unreadCount: 0 };
+    }
+
+    const [{ data: notifications, error }, { count, error: countError }] = await Promise.all([
+      supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', session.user.id)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIST_LIMIT),
+      supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', session.user.id)
+        .is('read_at', null),
+    ]);
+
+    if (error || countError) {
+      console.error('Error fetching notifications:', error || countError);
+      return { notifications: [], unreadCount: 0 };
+    }
+
+    return { notifications: (notifications || []) as AppNotification[], unreadCount: count ?? 0 };
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return { notifications: [], unreadCount: 0 };
+  }
+}
+
+/**
+ * Mark one notification as read
+ */
+export async function markNotificationRead(notificationId: string): Promise<{ success: boolean; error?: string }> {
+  return markRead([notificationId]);
+}
+
+/**
+ * Mark all of the signed-in user's notifications as read
+ */
+export async function markAllNotificationsRead(): Promise<{ success: boolean; error?: string }> {
+  return markRead(null);
+}
+
+async function markRead(notificationIds: string[] | null): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const { error } = await supabase.rpc('mark_notifications_read', {
+      notification_ids: notificationIds,
+    });
+
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+      return { success: false, error: 'Failed to update notifications' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    return { success: false, error: 'Failed to update notifications' };
+  }
+}
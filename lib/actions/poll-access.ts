@@ -0,0 +1,189 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { replaceEligibleVoters } from '@/lib/poll-access';
+import { PollVoter } from '@/types/database';
+import { revalidatePath } from 'next/cache';
+
+const INVITE_VALID_HOURS = 24 * 7;
+
+const INVITE_ERRORS: Record<string, string> = {
+  invalid: 'This invite link is not valid. It may have been reset by the poll creator.',
+  expired: 'This invite link has expired. Ask the poll creator for a new one.',
+  sign_in_required: 'Please log in to use this invite link',
+  not_found: 'Poll not found',
+};
+
+/**
+ * Create a signed invite link token for a private poll (creator or admin only).
+ * The token is signed in the database with a per-poll secret.
+ */
+export async function createPollInviteLink(pollId: string): Promise<{
+  success: boolean;
+  error?: string;
+  token?: string;
+  expiresAt?: string;
+}> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const { data: token, error } = await supabase.rpc('create_poll_invite_token', {
+      poll_uuid: pollId,
+      valid_hours: INVITE_VALID_HOURS,
+    });
+
+    if (error || !token) {
+      console.error('Error creating poll invite link:', error);
+      return { success: false, error: error?.message || 'Failed to create invite link' };
+    }
+
+    const expiresAt = new Date(Number(String(token).split('.')[0]) * 1000).toISOString();
+
+    return { success: true, token, expiresAt };
+  } catch (error) {
+    console.error('Error creating poll invite link:', error);
+    return { success: false, error: 'Failed to create invite link' };
+  }
+}
+
+/**
+ * Revoke every outstanding invite link for a poll (creator or admin only)
+ */
+export async function resetPollInviteLinks(pollId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const { error } = await supabase.rpc('reset_poll_invite_links', { poll_uuid: pollId });
+
+    if (error) {
+      console.error('Error resetting poll invite links:', error);
+      return { success: false, error: error.message || 'Failed to reset invite links' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error resetting poll invite links:', error);
+    return { success: false, error: 'Failed to reset invite links' };
+  }
+}
+
+/**
+ * Redeem an invite token, adding the signed-in user to the poll's voter list
+ */
+export async function redeemPollInvite(pollId: string, token: string): Promise<{
+  success: boolean;
+  error?: string;
+  status?: string;
+}> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data: status, error } = await supabase.rpc('redeem_poll_invite', {
+      poll_uuid: pollId,
+      token,
+    });
+
+    if (error || !status) {
+      console.error('Error redeeming poll invite:', error);
+      return { success: false, error: 'Failed to redeem invite link' };
+    }
+
+    if (status !== 'accepted') {
+      return { success: false, error: INVITE_ERRORS[status] || 'Failed to redeem invite link', status };
+    }
+
+    return { success: true, status };
+  } catch (error) {
+    console.error('Error redeeming poll invite:', error);
+    return { success: false, error: 'Failed to redeem invite link' };
+  }
+}
+
+/**
+ * Get a private poll's eligible voters (creator or admin only, enforced by RLS)
+ */
+export async function getEligibleVoters(pollId: string): Promise<{
+  success: boolean;
+  error?: string;
+  voters?: PollVoter[];
+}> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data: voters, error } = await supabase
+      .from('poll_voters')
+      .select('*')
+      .eq('poll_id', pollId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching eligible voters:', error);
+      return { success: false, error: 'Failed to load eligible voters' };
+    }
+
+    return { success: true, voters: voters || [] };
+  } catch (error) {
+    console.error('Error fetching eligible voters:', error);
+    return { success: false, error: 'Failed to load eligible voters' };
+  }
+}
+
+/**
+ * Replace a private poll's eligible-voter list with the given emails / user ids
+ */
+export async function updateEligibleVoters(pollId: string, entries: string[]): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('creator_id')
+      .eq('id', pollId)
+      .single();
+
+    if (pollError || !poll) {
+      return { success: false, error: 'Poll not found' };
+    }
+
+    if (poll.creator_id !== session.user.id) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', session.user.id)
+        .single();
+
+      if (profile?.role !== 'admin') {
+        return { success: false, error: 'Only the poll creator can manage eligible voters' };
+      }
+    }
+
+    const result = await replaceEligibleVoters(supabase, pollId, entries);
+
+    if (result.success) {
+      revalidatePath(`/polls/${pollId}`);
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error updating eligible voters:', error);
+    return { success: false, error: 'Failed to update eligible voters' };
+  }
+}
@@ -0,0 +1,121 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { applyPollEdit, PollEdit, PollEditResult } from '@/lib/poll-revisions';
+import { PollRevision, PollVoteInvalidation } from '@/types/database';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Edit a poll's title, description or options, recording a new revision
+ */
+export async function updatePoll(pollId: string, edit: PollEdit): Promise<PollEditResult> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in to edit a poll' };
+    }
+
+    const result = await applyPollEdit(supabase, pollId, edit);
+
+    if (result.success && result.changed) {
+      console.log(`[POLLS] Poll edited - PollID: ${pollId}, Revision: ${result.revisionNumber}, InvalidatedVotes: ${result.invalidatedVotes}`);
+      revalidatePath(`/polls/${pollId}`);
+      revalidatePath('/dashboard');
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error updating poll:', error);
+    return { success: false, error: 'Failed to update poll' };
+  }
+}
+
+/**
+ * Get a poll's edit history, oldest first. Empty when it was never edited.
+ */
+export async function getPollRevisions(pollId: string): Promise<PollRevision[]> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('poll_revisions')
+      .select('*')
+      .eq('poll_id', pollId)
+      .order('revision_number', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching poll revisions:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching poll revisions:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the current user's votes on a poll that were removed by an edit and not yet acknowledged
+ */
+export async function getVoteInvalidations(pollId: string): Promise<PollVoteInvalidation[]> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('poll_vote_invalidations')
+      .select('*')
+      .eq('poll_id', pollId)
+      .eq('user_id', session.user.id)
+      .is('acknowledged_at', null)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching vote invalidations:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching vote invalidations:', error);
+    return [];
+  }
+}
+
+/**
+ * Mark the current user's vote invalidations on a poll as seen
+ */
+export async function acknowledgeVoteInvalidations(pollId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const { error } = await supabase
+      .from('poll_vote_invalidations')
+      .update({ acknowledged_at: new Date().toISOString() })
+      .eq('poll_id', pollId)
+      .eq('user_id', session.user.id)
+      .is('acknowledged_at', null);
+
+    if (error) {
+      console.error('Error acknowledging vote invalidations:', error);
+      return { success: false, error: 'Failed to dismiss notice' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error acknowledging vote invalidations:', error);
+    return { success: false, error: 'Failed to dismiss notice' };
+  }
+}
@@ -2,26 +2,62 @@
 
 import { createSupabaseServerClient } from '@/lib/supabase-server';
 import { headers } from 'next/headers';
-import { Poll, PollOption } from '@/types/database';
+import { Poll, PollListFilters, PollListPage, PollOption, PollStatus, PollType, PollVisibility, ResultsVisibility } from '@/types/database';
 import { PollInterestTracker } from '@/lib/poll-interest-tracker';
+import { buildBallots, countFirstPreferences, tallyInstantRunoff } from '@/lib/ranked-choice';
+import { getGeneralSettings, getDefaultPollExpiry } from '@/lib/app-settings';
+import { canViewPollResults, getResultsClient, getVoterVotes, isResultsVisibility } from '@/lib/poll-results';
+import {
+  getPollAccessStatus,
+  isPollVisibility,
+  replaceEligibleVoters,
+  VoteEligibilityCode,
+} from '@/lib/poll-access';
+import { isPollScheduled, isPollStatus, validatePollSchedule } from '@/lib/poll-schedule';
+import { decodePollCursor, DEFAULT_POLL_LIST_LIMIT, isPollListSort, isPollListStatus, listPollIds } from '@/lib/poll-listing';
+import { isTagSlug, normalizeTagNames, POLL_TAG_COLUMNS, setPollTags, sortPollTags } from '@/lib/poll-tags';
+import { MAX_SEARCH_QUERY_LENGTH, MIN_SEARCH_QUERY_LENGTH, normalizeSearchQuery } from '@/lib/poll-search';
+import { consumeRateLimit, formatRetryAfter } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/client-ip';
+import { emitWebhookEvent } from '@/lib/webhook-events';
 
 export async function createPoll(formData: {
   title: string;
   description?: string;
   options: string[];
   allow_multiple_choices: boolean;
+  poll_type?: PollType;
+  allow_write_in?: boolean;
+  results_visibility?: ResultsVisibility;
+  visibility?: PollVisibility;
+  eligible_voters?: string[];
+  status?: PollStatus;
+  opens_at?: string;
   expires_at?: string;
+  tags?: string[];
 }) {
   try {
     const { title, description, options, allow_multiple_choices, expires_at } = formData;
+    const pollType = formData.poll_type || 'standard';
+    const resultsVisibility = formData.results_visibility || 'always';
+    const visibility = formData.visibility || 'public';
+    const status = formData.status || 'published';
+    const opensAt = formData.opens_at || null;
 
     // Validation
     if (!title?.trim()) {
       throw new Error('Poll title is required');
     }
 
-    if (!options || !Array.isArray(options) || options.length < 2) {
-      throw new Error('At least 2 poll options are required');
+    if (pollType !== 'standard' && pollType !== 'ranked' && pollType !== 'text') {
+      throw new Error('Invalid poll type');
+    }
+
+    // Text polls collect written answers instead of votes on options
+    const isText = pollType === 'text';
+
+    if (!Array.isArray(options) || (isText ? options.length > 0 : options.length < 2)) {
+      throw new Error(isText ? 'Text polls do not have options' : 'At least 2 poll options are required');
     }
 
     if (options.length > 10) {
@@ -34,6 +70,32 @@ export async function createPoll(formData: {
       throw new Error('All options must have text');
     }
 
+    if (formData.allow_write_in && pollType !== 'standard') {
+      throw new Error('Write-in answers are only available on standard polls');
+    }
+
+    if (!isResultsVisibility(resultsVisibility)) {
+      throw new Error('Invalid results visibility');
+    }
+
+    if (!isPollVisibility(visibility)) {
+      throw new Error('Invalid poll visibility');
+    }
+
+    if (!isPollStatus(status)) {
+      throw new Error('Invalid poll status');
+    }
+
+    const scheduleError = validatePollSchedule(opensAt, expires_at);
+    if (scheduleError) {
+      throw new Error(scheduleError);
+    }
+
+    const { names: tagNames, error: tagsError } = normalizeTagNames(formData.tags || []);
+    if (tagsError) {
+      throw new Error(tagsError);
+    }
+
     const supabase = await createSupabaseServerClient();
 
     // Get the authenticated user
@@ -43,6 +105,27 @@ export async function createPoll(formData: {
       throw new Error('Authentication required');
     }
 
+    // Enforce the admin-configured poll limit
+    const generalSettings = await getGeneralSettings();
+    const { count: existingPolls, error: countError } = await supabase
+      .from('polls')
+      .select('id', { count: 'exact', head: true })
+      .eq('creator_id', session.user.id);
+
+    if (countError) {
+      throw new Error('Failed to verify poll limit');
+    }
+
+    if ((existingPolls || 0) >= generalSettings.max_polls_per_user) {
+      throw new Error(`You have reached the maximum of ${generalSettings.max_polls_per_user} polls`);
+    }
+
+    // Apply the shared poll creation rate limit
+    const rateLimit = await consumeRateLimit('poll_creation', session.user.id);
+    if (!rateLimit.allowed) {
+      throw new Error(`You are creating polls too quickly. Please try again in ${formatRetryAfter(rateLimit)}.`);
+    }
+
     // Create the poll
     const { data: poll, error: pollError } = await supabase
       .from('polls')
@@ -50,8 +133,15 @@ export async function createPoll(formData: {
         title: title.trim(),
         description: description?.trim() || null,
         creator_id: session.user.id,
-        allow_multiple_choices: allow_multiple_choices || false,
-        expires_at: expires_at || null,
+        // Ranked ballots order every option, so multiple choice does not apply
+        allow_multiple_choices: pollType === 'standard' ? allow_multiple_choices || false : false,
+        poll_type: pollType,
+        allow_write_in: formData.allow_write_in || false,
+        results_visibility: resultsVisibility,
+        visibility,
+        status,
+        opens_at: opensAt,
+        expires_at: expires_at || getDefaultPollExpiry(generalSettings, opensAt),
       })
       .select()
       .single();
@@ -62,27 +152,53 @@ export async function createPoll(formData: {
     }
 
     // Create poll options
-    const pollOptions = validOptions.map((option, index) => ({
-      poll_id: poll.id,
-      text: option.trim(),
-      order_index: index + 1,
-    }));
+    if (!isText) {
+      const pollOptions = validOptions.map((option, index) => ({
+        poll_id: poll.id,
+        text: option.trim(),
+        order_index: index + 1,
+      }));
+
+      const { error: optionsError } = await supabase
+        .from('poll_options')
+        .insert(pollOptions);
+
+      if (optionsError) {
+        console.error('Poll options creation error:', optionsError);
+        // Clean up the poll if options failed to create
+        await supabase.from('polls').delete().eq('id', poll.id);
+        
+        throw new Error('Failed to create poll options');
+      }
+    }
 
-    const { error: optionsError } = await supabase
-      .from('poll_options')
-      .insert(pollOptions);
+    // Private polls start with the voters the creator listed
+    if (visibility === 'private' && formData.eligible_voters?.length) {
+      const votersResult = await replaceEligibleVoters(supabase, poll.id, formData.eligible_voters);
 
-    if (optionsError) {
-      console.error('Poll options creation error:', optionsError);
-      // Clean up the poll if options failed to create
-      await supabase.from('polls').delete().eq('id', poll.id);
-      
-      throw new Error('Failed to create poll options');
+      if (!votersResult.success) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        throw new Error(votersResult.error || 'Failed to save eligible voters');
+      }
+    }
+
+    if (tagNames.length > 0) {
+      const tagsResult = await setPollTags(supabase, poll.id, tagNames);
+
+      if (!tagsResult.success) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        throw new Error(tagsResult.error || 'Failed to save tags');
+      }
     }
     
     // Track creator's interest in the poll for notifications
     await PollInterestTracker.trackCreatorInterest(session.user.id, poll.id);
 
+    // Drafts are announced when they are published
+    if (status === 'published') {
+      await emitWebhookEvent('poll.created', poll.id, { userId: session.user.id });
+    }
+
     return { success: true, pollId: poll.id };
   } catch (error) {
     console.error('Error creating poll:', error);
@@ -99,7 +215,8 @@ export async function getPollWithResults(pollId: string) {
       .from('polls')
       .select(`
         *,
-        creator:profiles(*)
+        creator:profiles(*),
+        tags(${POLL_TAG_COLUMNS})
       `)
       .eq('id', pollId)
       .single();
@@ -108,8 +225,20 @@ export async function getPollWithResults(pollId: string) {
       return null;
     }
 
+    // Results may be withheld until the viewer votes, the poll closes, or
+    // entirely for non-creators (see results_visibility)
+    const headersList = await headers();
+    const clientIp = getClientIp(headersList);
+    const { data: { session } } = await supabase.auth.getSession();
+    const voterIp = session ? undefined : clientIp;
+    const resultsVisible = await canViewPollResults(supabase, pollId, voterIp);
+
+    // Anonymous voters can't be recognised by RLS, so once they may see the
+    // results their counts are read with the client that checked it
+    const resultsClient = resultsVisible ? getResultsClient(supabase, voterIp) : supabase;
+
     // Get poll options with vote counts
-    const { data: optionsData, error: optionsError } = await supabase
+    const { data: optionsData, error: optionsError } = await resultsClient
       .from('poll_options')
       .select(`
         *,
@@ -122,12 +251,6 @@ export async function getPollWithResults(pollId: string) {
       throw new Error('Failed to fetch poll options');
     }
 
-    // Get total vote count
-    const { count: totalVotes } = await supabase
-      .from('votes')
-      .select('*', { count: 'exact', head: true })
-      .eq('poll_id', pollId);
-
     // Transform options to include vote counts
     const optionsWithCounts: PollOption[] = optionsData?.map(option => ({
       id: option.id,
@@ -135,9 +258,43 @@ export async function getPollWithResults(pollId: string) {
       text: option.text,
       order_index: option.order_index,
       created_at: option.created_at,
-      vote_count: option.votes?.[0]?.count || 0,
+      vote_count: resultsVisible ? option.votes?.[0]?.count || 0 : 0,
     })) || [];
 
+    // Get total vote count
+    let total = 0;
+    if (resultsVisible) {
+      const { count: totalVotes } = await resultsClient
+        .from('votes')
+        .select('*', { count: 'exact', head: true })
+        .eq('poll_id', pollId);
+      total = totalVotes || 0;
+    }
+
+    // Ranked polls store one row per ranked option, so raw counts are replaced
+    // by first-preference counts and the instant-runoff elimination rounds
+    let runoff: Poll['runoff'];
+
+    if (resultsVisible && pollData.poll_type === 'ranked') {
+      const { data: rankedVotes, error: rankedError } = await resultsClient
+        .from('votes')
+        .select('option_id, user_id, ip_address, rank')
+        .eq('poll_id', pollId);
+
+      if (rankedError) {
+        throw new Error('Failed to fetch ranked ballots');
+      }
+
+      const ballots = buildBallots(rankedVotes || []);
+      runoff = tallyInstantRunoff(optionsWithCounts.map(option => option.id), ballots);
+      total = runoff.total_ballots;
+
+      const firstRound = runoff.rounds[0];
+      optionsWithCounts.forEach(option => {
+        option.vote_count = firstRound?.tallies[option.id] || 0;
+      });
+    }
+
     const poll: Poll = {
       id: pollData.id,
       title: pollData.title,
@@ -146,11 +303,21 @@ export async function getPollWithResults(pollId: string) {
       creator: pollData.creator,
       is_active: pollData.is_active,
       allow_multiple_choices: pollData.allow_multiple_choices,
+      poll_type: pollData.poll_type || 'standard',
+      allow_write_in: pollData.allow_write_in || false,
+      results_visibility: pollData.results_visibility || 'always',
+      visibility: pollData.visibility || 'public',
+      status: pollData.status || 'published',
+      opens_at: pollData.opens_at,
       expires_at: pollData.expires_at,
+      edited_at: pollData.edited_at,
       created_at: pollData.created_at,
       updated_at: pollData.updated_at,
       options: optionsWithCounts,
-      total_votes: totalVotes || 0,
+      total_votes: total,
+      runoff,
+      results_hidden: !resultsVisible,
+      tags: sortPollTags(pollData.tags),
     };
 
     return poll;
@@ -169,205 +336,214 @@ export async function getUserVotesForPoll(pollId: string) {
     const { data: { session } } = await supabase.auth.getSession();
     
     // Get user's IP address for anonymous voting
-    const forwardedFor = headersList.get('x-forwarded-for');
-    const realIp = headersList.get('x-real-ip');
-    const clientIp = forwardedFor?.split(',')[0]?.trim() || realIp || 'unknown';
-
-    let votesQuery = supabase
-      .from('votes')
-      .select('option_id')
-      .eq('poll_id', pollId);
-
-    if (session?.user) {
-      votesQuery = votesQuery.eq('user_id', session.user.id);
-    } else {
-      votesQuery = votesQuery.eq('ip_address', clientIp);
-    }
+    const clientIp = getClientIp(headersList);
 
-    const { data: votes } = await votesQuery;
+    // Looked up by user when signed in, otherwise by IP
+    const votes = await getVoterVotes(supabase, pollId, session?.user ? undefined : clientIp);
     
-    return votes?.map(vote => vote.option_id) || [];
+    // Ranked ballots are returned in preference order
+    return votes
+      .sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0))
+      .map(vote => vote.option_id);
   } catch (error) {
     console.error('Error fetching user votes:', error);
     return [];
   }
 }
 
-export async function checkIfUserCanVote(pollId: string) {
+export async function checkIfUserCanVote(pollId: string): Promise<{
+  canVote: boolean;
+  reason: string;
+  code: VoteEligibilityCode;
+  hasVoted?: boolean;
+}> {
   try {
     const supabase = await createSupabaseServerClient();
     
     // Check if poll exists and is active
     const { data: poll, error: pollError } = await supabase
       .from('polls')
-      .select('is_active, expires_at, allow_multiple_choices')
+      .select('is_active, status, opens_at, expires_at, allow_multiple_choices, poll_type')
       .eq('id', pollId)
       .single();
 
     if (pollError || !poll) {
-      return { canVote: false, reason: 'Poll not found' };
+      // RLS hides private polls from ineligible users; ask why
+      const accessStatus = await getPollAccessStatus(supabase, pollId);
+
+      if (accessStatus === 'sign_in_required') {
+        return {
+          canVote: false,
+          reason: 'This poll is private. Log in with an invited account or open your invite link to vote.',
+          code: 'PRIVATE_POLL_SIGN_IN_REQUIRED',
+        };
+      }
+
+      if (accessStatus === 'not_eligible') {
+        return {
+          canVote: false,
+          reason: 'This poll is private and your account is not on its list of eligible voters',
+          code: 'NOT_ELIGIBLE_VOTER',
+        };
+      }
+
+      return { canVote: false, reason: 'Poll not found', code: 'POLL_NOT_FOUND' };
+    }
+
+    if (poll.status === 'draft') {
+      return { canVote: false, reason: 'This poll is a draft. Publish it to start accepting votes.', code: 'POLL_DRAFT' };
+    }
+
+    if (isPollScheduled(poll)) {
+      return { canVote: false, reason: 'Voting has not opened yet', code: 'POLL_NOT_OPEN' };
     }
 
     if (!poll.is_active) {
-      return { canVote: false, reason: 'Poll is not active' };
+      return { canVote: false, reason: 'Poll is not active', code: 'POLL_INACTIVE' };
     }
 
     if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
-      return { canVote: false, reason: 'Poll has expired' };
+      return { canVote: false, reason: 'Poll has expired', code: 'POLL_EXPIRED' };
+    }
+
+    // Check whether anonymous visitors are allowed to vote
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) {
+      const generalSettings = await getGeneralSettings();
+      if (!generalSettings.allow_anonymous_voting) {
+        return { canVote: false, reason: 'Please log in to vote on this poll', code: 'ANONYMOUS_VOTING_DISABLED' };
+      }
     }
 
-    // Check if user has already voted (for single-choice polls)
-    if (!poll.allow_multiple_choices) {
+    // Check if user has already voted (for single-choice and ranked polls)
+    if (!poll.allow_multiple_choices || poll.poll_type === 'ranked') {
       const userVotes = await getUserVotesForPoll(pollId);
       if (userVotes.length > 0) {
-        return { canVote: true, reason: 'Can change vote', hasVoted: true };
+        return { canVote: true, reason: 'Can change vote', code: 'CAN_CHANGE_VOTE', hasVoted: true };
       }
     }
 
-    return { canVote: true, reason: 'Can vote' };
+    return { canVote: true, reason: 'Can vote', code: 'CAN_VOTE' };
   } catch (error) {
     console.error('Error checking voting permissions:', error);
-    return { canVote: false, reason: 'Error checking permissions' };
+    return { canVote: false, reason: 'Error checking permissions', code: 'PERMISSION_CHECK_FAILED' };
   }
 }
 
-export async function getAllPollsPublic(page: number = 1, limit: number = 10) {
+/**
+ * One page of the public poll listing, filtered and sorted in the database.
+ * Pass the previous page's `nextCursor` to continue; changing the filters or
+ * sort starts again without a cursor.
+ */
+export async function listPolls(
+  filters: PollListFilters = {},
+  cursor?: string | null,
+  limit: number = DEFAULT_POLL_LIST_LIMIT
+): Promise<PollListPage & { error?: string }> {
+  const emptyPage: PollListPage = { polls: [], nextCursor: null, hasMore: false };
+
   try {
-    const { createClient } = await import('@supabase/supabase-js');
-    
-    // Create a public client without cookies for static rendering
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-    );
-    
-    const offset = (page - 1) * limit;
+    const sort = filters.sort || 'newest';
+    if (!isPollListSort(sort) || (filters.status && !isPollListStatus(filters.status))) {
+      return { ...emptyPage, error: 'Invalid listing filters' };
+    }
 
-    // Get polls with creator information and basic stats
-    const { data: pollsData, error: pollsError, count } = await supabase
-      .from('polls')
-      .select(`
-        *,
-        creator:profiles(*),
-        poll_options(count),
-        votes(count)
-      `, { count: 'exact' })
-      .eq('is_active', true)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+    if ((filters.created_after && isNaN(Date.parse(filters.created_after))) ||
+        (filters.created_before && isNaN(Date.parse(filters.created_before)))) {
+      return { ...emptyPage, error: 'Invalid date range' };
+    }
 
-    if (pollsError) {
-      throw new Error('Failed to fetch polls');
+    if (filters.search && !normalizeSearchQuery(filters.search)) {
+      return { ...emptyPage, error: `Search for ${MIN_SEARCH_QUERY_LENGTH} to ${MAX_SEARCH_QUERY_LENGTH} characters` };
     }
 
-    // Transform the data to include vote counts
-    const transformedPolls: Poll[] = await Promise.all(
-      pollsData?.map(async (pollData) => {
-        // Get options with vote counts for this poll
-        const { data: optionsData } = await supabase
-          .from('poll_options')
-          .select(`
-            *,
-            votes(count)
-          `)
-          .eq('poll_id', pollData.id)
-          .order('order_index');
-
-        const optionsWithCounts: PollOption[] = optionsData?.map(option => ({
-          id: option.id,
-          poll_id: option.poll_id,
-          text: option.text,
-          order_index: option.order_index,
-          created_at: option.created_at,
-          vote_count: option.votes?.[0]?.count || 0,
-        })) || [];
+    if (filters.tag && !isTagSlug(filters.tag)) {
+      return { ...emptyPage, error: 'Invalid tag' };
+    }
 
-        // Calculate total votes for this poll
-        const totalVotes = optionsWithCounts.reduce((sum, option) => sum + (option.vote_count || 0), 0);
+    const after = cursor ? decodePollCursor(cursor, sort) : null;
+    if (cursor && !after) {
+      return { ...emptyPage, error: 'Invalid cursor' };
+    }
 
-        return {
-          id: pollData.id,
-          title: pollData.title,
-          description: pollData.description,
-          creator_id: pollData.creator_id,
-          creator: pollData.creator,
-          is_active: pollData.is_active,
-          allow_multiple_choices: pollData.allow_multiple_choices,
-          expires_at: pollData.expires_at,
-          created_at: pollData.created_at,
-          updated_at: pollData.updated_at,
-          options: optionsWithCounts,
-          total_votes: totalVotes,
-        };
-      }) || []
-    );
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
 
-    return {
-      polls: transformedPolls,
-      total: count || 0,
-      page,
-      limit,
-      hasMore: (count || 0) > offset + limit,
-    };
-  } catch (error) {
-    console.error('Error fetching polls:', error);
-    return {
-      polls: [],
-      total: 0,
-      page,
+    if ((filters.mine || filters.voted) && !session?.user) {
+      return { ...emptyPage, error: 'Please log in to filter by your polls and votes' };
+    }
+
+    const { ids, nextCursor, hasMore } = await listPollIds(supabase, { ...filters, sort }, {
+      cursor: after,
       limit,
-      hasMore: false,
-    };
-  }
-}
+      viewerId: session?.user.id,
+    });
 
-// Authenticated version of getAllPolls for dashboard and user-specific data
-export async function getAllPolls(page: number = 1, limit: number = 10) {
-  try {
-    const supabase = await createSupabaseServerClient();
-    const offset = (page - 1) * limit;
+    if (ids.length === 0) {
+      return emptyPage;
+    }
 
-    // Get polls with creator information and basic stats
-    const { data: pollsData, error: pollsError, count } = await supabase
-      .from('polls')
-      .select(`
-        *,
-        creator:profiles(*),
-        poll_options(count),
-        votes(count)
-      `, { count: 'exact' })
-      .eq('is_active', true)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+    const [{ data: pollsData, error: pollsError }, { data: optionsData }] = await Promise.all([
+      supabase
+        .from('polls')
+        .select(`*, creator:profiles(*), tags(${POLL_TAG_COLUMNS})`)
+        .in('id', ids),
+      supabase
+        .from('poll_options')
+        .select(`
+          *,
+          votes(count)
+        `)
+        .in('poll_id', ids)
+        .order('order_index'),
+    ]);
 
     if (pollsError) {
       throw new Error('Failed to fetch polls');
     }
 
-    // Transform the data to include vote counts
-    const transformedPolls: Poll[] = await Promise.all(
-      pollsData?.map(async (pollData) => {
-        // Get options with vote counts for this poll
-        const { data: optionsData } = await supabase
-          .from('poll_options')
-          .select(`
-            *,
-            votes(count)
-          `)
-          .eq('poll_id', pollData.id)
-          .order('order_index');
-
-        const optionsWithCounts: PollOption[] = optionsData?.map(option => ({
-          id: option.id,
-          poll_id: option.poll_id,
-          text: option.text,
-          order_index: option.order_index,
-          created_at: option.created_at,
-          vote_count: option.votes?.[0]?.count || 0,
-        })) || [];
+    const pollsById = new Map((pollsData || []).map(pollData => [pollData.id, pollData]));
+
+    // Keep the listing order from list_polls
+    const polls: Poll[] = await Promise.all(
+      ids.filter(id => pollsById.has(id)).map(async id => {
+        const pollData = pollsById.get(id);
+
+        // Counts are withheld when the viewer may not see this poll's results
+        const resultsVisible = !pollData.results_visibility || pollData.results_visibility === 'always'
+          || await canViewPollResults(supabase, pollData.id);
+
+        const optionsWithCounts: PollOption[] = (optionsData || [])
+          .filter(option => option.poll_id === pollData.id)
+          .map(option => ({
+            id: option.id,
+            poll_id: option.poll_id,
+            text: option.text,
+            order_index: option.order_index,
+            created_at: option.created_at,
+            vote_count: resultsVisible ? option.votes?.[0]?.count || 0 : 0,
+          }));
 
         // Calculate total votes for this poll
-        const totalVotes = optionsWithCounts.reduce((sum, option) => sum + (option.vote_count || 0), 0);
+        let totalVotes = optionsWithCounts.reduce((sum, option) => sum + (option.vote_count || 0), 0);
+
+        // Ranked polls store one row per ranked option; count ballots and
+        // first preferences as the poll page does
+        if (resultsVisible && pollData.poll_type === 'ranked') {
+          const { data: rankedVotes } = await supabase
+            .from('votes')
+            .select('option_id, user_id, ip_address, rank')
+            .eq('poll_id', pollData.id);
+
+          const { tallies, totalBallots } = countFirstPreferences(
+            optionsWithCounts.map(option => option.id),
+            rankedVotes || []
+          );
+          optionsWithCounts.forEach(option => {
+            option.vote_count = tallies[option.id];
+          });
+          totalVotes = totalBallots;
+        }
 
         return {
           id: pollData.id,
@@ -377,30 +553,25 @@ export async function getAllPolls(page: number = 1, limit: number = 10) {
           creator: pollData.creator,
           is_active: pollData.is_active,
           allow_multiple_choices: pollData.allow_multiple_choices,
+          poll_type: pollData.poll_type || 'standard',
+          results_visibility: pollData.results_visibility || 'always',
+          visibility: pollData.visibility || 'public',
+          status: pollData.status || 'published',
+          opens_at: pollData.opens_at,
           expires_at: pollData.expires_at,
           created_at: pollData.created_at,
           updated_at: pollData.updated_at,
           options: optionsWithCounts,
           total_votes: totalVotes,
+          results_hidden: !resultsVisible,
+          tags: sortPollTags(pollData.tags),
         };
-      }) || []
+      })
     );
 
-    return {
-      polls: transformedPolls,
-      total: count || 0,
-      page,
-      limit,
-      hasMore: (count || 0) > offset + limit,
-    };
+    return { polls, nextCursor, hasMore };
   } catch (error) {
     console.error('Error fetching polls:', error);
-    return {
-      polls: [],
-      total: 0,
-      page,
-      limit,
-      hasMore: false,
-    };
+    return { ...emptyPage, error: 'Failed to load polls' };
   }
 }
@@ -2,17 +2,21 @@
 
 import { createSupabaseServerClient } from '@/lib/supabase-server';
 import { PollInterestTracker } from '@/lib/poll-interest-tracker';
+import { APP_NOTIFICATION_TYPES, isNotificationChannel } from '@/lib/notifications';
 
 interface NotificationSettingsUpdate {
   userId: string;
   emailNotificationsEnabled: boolean;
   notificationFrequency: string;
+  // Email, in-app, both or none per notification type
+  notificationChannels?: Record<string, string>;
 }
 
 export async function updateNotificationSettings({
   userId,
   emailNotificationsEnabled,
-  notificationFrequency
+  notificationFrequency,
+  notificationChannels
 }: NotificationSettingsUpdate) {
   try {
     const supabase = await createSupabaseServerClient();
@@ -24,14 +28,30 @@ export async function updateNotificationSettings({
     if (!session || session.user.id !== userId) {
       return { success: false, error: 'Unauthorized' };
     }
+
+    if (!['instant', 'daily', 'weekly'].includes(notificationFrequency)) {
+      return { success: false, error: 'Invalid notification frequency' };
+    }
+
+    const update: Record<string, unknown> = {
+      email_notifications_enabled: emailNotificationsEnabled,
+      notification_frequency: notificationFrequency
+    };
+
+    if (notificationChannels) {
+      const invalid = Object.entries(notificationChannels).some(([type, channel]) =>
+        !(APP_NOTIFICATION_TYPES as string[]).includes(type) || !isNotificationChannel(channel)
+      );
+      if (invalid) {
+        return { success: false, error: 'Invalid notification channel' };
+      }
+      update.notification_channels = notificationChannels;
+    }
     
     // Update the profile with new notification settings
     const { error } = await supabase
       .from('profiles')
-      .update({
-        email_notifications_enabled: emailNotificationsEnabled,
-        notification_frequency: notificationFrequency
-      })
+      .update(update)
       .eq('id', userId);
     
     if (error) {
@@ -83,4 +103,33 @@ export async function updatePollNotificationPreference({
       error: error instanceof Error ? error.message : 'Unknown error' 
     };
   }
-}
\ No newline at end of file
+}
+/**
+ * Follow a poll so the current user is emailed about it (e.g. when a
+ * scheduled poll opens). Existing creator/voter interests are re-enabled
+ * rather than replaced.
+ */
+export async function followPoll(pollId: string) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in to follow a poll' };
+    }
+
+    const existingInterest = await PollInterestTracker.getUserPollInterest(session.user.id, pollId);
+
+    if (existingInterest) {
+      return await PollInterestTracker.updateNotificationPreference(session.user.id, pollId, true);
+    }
+
+    return await PollInterestTracker.followPoll(session.user.id, pollId);
+  } catch (error) {
+    console.error('Error following poll:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,534 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { getUserRole } from '@/lib/auth';
+import { getGeneralSettings } from '@/lib/app-settings';
+import { consumeRateLimit, formatRetryAfter } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/client-ip';
+import { SurveyInput, getCompletionRate, isSurveyOpen, validateSurvey, validateSurveyAnswers } from '@/lib/surveys';
+import {
+  Survey,
+  SurveyAnswer,
+  SurveyQuestion,
+  SurveyQuestionOption,
+  SurveyResponseStatus,
+  SurveyResults,
+  SurveySummary,
+} from '@/types/database';
+
+// A survey_questions row with its options, as selected by getSurvey
+type SurveyQuestionRow = Omit<SurveyQuestion, 'options'> & {
+  survey_question_options: SurveyQuestionOption[] | null;
+};
+
+// A surveys row with its question count and responses, as selected by getUserSurveys
+interface SurveySummaryRow {
+  id: string;
+  title: string;
+  description: string | null;
+  is_active: boolean;
+  expires_at: string | null;
+  created_at: string;
+  survey_questions: { count: number }[] | null;
+  survey_responses: { completed_at: string | null }[] | null;
+}
+
+/**
+ * IP address and user agent of the current request, used to identify
+ * anonymous respondents
+ */
+const getRespondent = async () => {
+  const headersList = await headers();
+
+  return {
+    clientIp: getClientIp(headersList),
+    userAgent: headersList.get('user-agent') || 'unknown',
+  };
+};
+
+/**
+ * Create a survey with all of its questions and options.
+ * If any part fails to save the survey is removed again.
+ */
+export async function createSurvey(input: SurveyInput): Promise<{ success: boolean; surveyId?: string; error?: string }> {
+  try {
+    const validationError = validateSurvey(input);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const supabase = await createSupabaseServerClient();
+    const { data: { session }, error: authError } = await supabase.auth.getSession();
+
+    if (authError || !session) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    // Surveys share the poll creation rate limit
+    const rateLimit = await consumeRateLimit('poll_creation', session.user.id);
+    if (!rateLimit.allowed) {
+      return {
+        success: false,
+        error: `You are creating polls too quickly. Please try again in ${formatRetryAfter(rateLimit)}.`,
+      };
+    }
+
+    const { data: survey, error: surveyError } = await supabase
+      .from('surveys')
+      .insert({
+        title: input.title.trim(),
+        description: input.description?.trim() || null,
+        creator_id: session.user.id,
+        expires_at: input.expires_at ? new Date(input.expires_at).toISOString() : null,
+      })
+      .select('id')
+      .single();
+
+    if (surveyError || !survey) {
+      console.error('Survey creation error:', surveyError);
+      return { success: false, error: 'Failed to create survey' };
+    }
+
+    const { data: questions, error: questionsError } = await supabase
+      .from('survey_questions')
+      .insert(input.questions.map((question, index) => ({
+        survey_id: survey.id,
+        position: index + 1,
+        text: question.text.trim(),
+        allow_multiple_choices: question.allow_multiple_choices,
+        is_required: question.is_required,
+      })))
+      .select('id, position');
+
+    if (questionsError || !questions) {
+      console.error('Survey questions creation error:', questionsError);
+      await supabase.from('surveys').delete().eq('id', survey.id);
+      return { success: false, error: 'Failed to create survey questions' };
+    }
+
+    const questionIds = new Map(questions.map(question => [question.position, question.id]));
+    const options = input.questions.flatMap((question, index) =>
+      question.options.map((option, optionIndex) => ({
+        question_id: questionIds.get(index + 1),
+        text: option.trim(),
+        order_index: optionIndex + 1,
+      }))
+    );
+
+    const { error: optionsError } = await supabase
+      .from('survey_question_options')
+      .insert(options);
+
+    if (optionsError) {
+      console.error('Survey options creation error:', optionsError);
+      await supabase.from('surveys').delete().eq('id', survey.id);
+      return { success: false, error: 'Failed to create survey options' };
+    }
+
+    revalidatePath('/dashboard');
+
+    return { success: true, surveyId: survey.id };
+  } catch (error) {
+    console.error('Error in createSurvey:', error);
+    return { success: false, error: 'Failed to create survey' };
+  }
+}
+
+/**
+ * Get a survey with its questions and options in order
+ */
+export async function getSurvey(surveyId: string): Promise<Survey | null> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('surveys')
+      .select(`
+        *,
+        survey_questions(
+          *,
+          survey_question_options(*)
+        )
+      `)
+      .eq('id', surveyId)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    const { survey_questions, ...survey } = data;
+    const questionRows: SurveyQuestionRow[] = survey_questions || [];
+
+    const questions: SurveyQuestion[] = questionRows.map(({ survey_question_options, ...question }) => ({
+      ...question,
+      options: [...(survey_question_options || [])].sort((a, b) => a.order_index - b.order_index),
+    }));
+
+    return {
+      ...survey,
+      description: survey.description ?? undefined,
+      expires_at: survey.expires_at ?? undefined,
+      questions: questions.sort((a, b) => a.position - b.position),
+    };
+  } catch (error) {
+    console.error('Error fetching survey:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether the current visitor has started or completed a survey
+ */
+export async function getSurveyResponseStatus(surveyId: string): Promise<SurveyResponseStatus> {
+  const emptyStatus: SurveyResponseStatus = { started_at: null, completed_at: null };
+
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+    const { clientIp } = await getRespondent();
+
+    const { data, error } = await supabase.rpc('get_survey_response_status', {
+      survey_uuid: surveyId,
+      voter_ip: session?.user ? null : clientIp,
+    });
+
+    if (error) {
+      console.error('Error fetching survey response status:', error);
+      return emptyStatus;
+    }
+
+    return data || emptyStatus;
+  } catch (error) {
+    console.error('Error fetching survey response status:', error);
+    return emptyStatus;
+  }
+}
+
+/**
+ * Record that the visitor started answering, for completion-rate stats
+ */
+export async function startSurvey(surveyId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+    const { clientIp, userAgent } = await getRespondent();
+
+    if (!session?.user && clientIp === 'unknown') {
+      return { success: false, error: 'Could not identify respondent' };
+    }
+
+    const { error } = await supabase.rpc('start_survey_response', {
+      survey_uuid: surveyId,
+      voter_ip: session?.user ? null : clientIp,
+      voter_user_agent: userAgent,
+    });
+
+    if (error) {
+      console.error('Error starting survey response:', error);
+      return { success: false, error: 'Failed to start survey' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in startSurvey:', error);
+    return { success: false, error: 'Failed to start survey' };
+  }
+}
+
+/**
+ * Submit every answer to a survey in one go. The database stores all of
+ * them and completes the response, or stores nothing.
+ */
+export async function submitSurveyResponse(
+  surveyId: string,
+  answers: SurveyAnswer[]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+    const { clientIp, userAgent } = await getRespondent();
+
+    // Anonymous voting can be switched off by admins; it covers surveys too
+    if (!session?.user) {
+      const generalSettings = await getGeneralSettings();
+      if (!generalSettings.allow_anonymous_voting) {
+        return { success: false, error: 'You must be logged in to answer this survey' };
+      }
+      if (clientIp === 'unknown') {
+        return { success: false, error: 'Could not identify respondent' };
+      }
+    }
+
+    const survey = await getSurvey(surveyId);
+    if (!survey) {
+      return { success: false, error: 'Survey not found' };
+    }
+
+    if (!isSurveyOpen(survey)) {
+      return { success: false, error: 'This survey is closed' };
+    }
+
+    // Drop unanswered optional questions before validating
+    const submitted = answers.filter(answer => answer.option_ids.length > 0);
+    const validationError = validateSurveyAnswers(survey, submitted);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const rateLimit = await consumeRateLimit('vote', session?.user?.id || clientIp);
+    if (!rateLimit.allowed) {
+      return {
+        success: false,
+        error: `You are voting too quickly. Please try again in ${formatRetryAfter(rateLimit)}.`,
+      };
+    }
+
+    const { error } = await supabase.rpc('submit_survey_response', {
+      survey_uuid: surveyId,
+      answers: submitted,
+      voter_ip: session?.user ? null : clientIp,
+      voter_user_agent: userAgent,
+    });
+
+    if (error) {
+      console.error('Error submitting survey response:', error);
+      // Validation and duplicate-response errors raised by the function are safe to show
+      const isUserError = error.code === '22023' || error.code === '23505' || error.code === 'P0002';
+      return { success: false, error: isUserError ? error.message : 'Failed to submit survey' };
+    }
+
+    revalidatePath(`/surveys/${surveyId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in submitSurveyResponse:', error);
+    return { success: false, error: 'Failed to submit survey' };
+  }
+}
+
+/**
+ * Per-question results and completion stats. Only the creator and admins
+ * can read survey answers.
+ */
+export async function getSurveyResults(
+  surveyId: string
+): Promise<{ success: boolean; results?: SurveyResults; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const survey = await getSurvey(surveyId);
+    if (!survey) {
+      return { success: false, error: 'Survey not found' };
+    }
+
+    if (survey.creator_id !== session.user.id && (await getUserRole()) !== 'admin') {
+      return { success: false, error: 'Only the survey creator can view its results' };
+    }
+
+    const { data: responses, error: responsesError } = await supabase
+      .from('survey_responses')
+      .select('id, completed_at')
+      .eq('survey_id', surveyId);
+
+    if (responsesError) {
+      console.error('Error fetching survey responses:', responsesError);
+      return { success: false, error: 'Failed to load survey results' };
+    }
+
+    const completedIds = new Set(
+      (responses || []).filter(response => response.completed_at).map(response => response.id)
+    );
+
+    const { data: answers, error: answersError } = await supabase
+      .from('survey_answers')
+      .select('response_id, question_id, option_id')
+      .in('question_id', survey.questions.map(question => question.id));
+
+    if (answersError) {
+      console.error('Error fetching survey answers:', answersError);
+      return { success: false, error: 'Failed to load survey results' };
+    }
+
+    const optionCounts = new Map<string, number>();
+    const questionRespondents = new Map<string, Set<string>>();
+
+    for (const answer of answers || []) {
+      if (!completedIds.has(answer.response_id)) continue;
+
+      optionCounts.set(answer.option_id, (optionCounts.get(answer.option_id) || 0) + 1);
+      const respondents = questionRespondents.get(answer.question_id) || new Set<string>();
+      respondents.add(answer.response_id);
+      questionRespondents.set(answer.question_id, respondents);
+    }
+
+    const started = responses?.length || 0;
+
+    return {
+      success: true,
+      results: {
+        survey_id: survey.id,
+        title: survey.title,
+        started,
+        completed: completedIds.size,
+        completion_rate: getCompletionRate(started, completedIds.size),
+        questions: survey.questions.map(question => ({
+          question_id: question.id,
+          position: question.position,
+          text: question.text,
+          allow_multiple_choices: question.allow_multiple_choices,
+          is_required: question.is_required,
+          respondents: questionRespondents.get(question.id)?.size || 0,
+          options: question.options.map(option => ({
+            id: option.id,
+            text: option.text,
+            count: optionCounts.get(option.id) || 0,
+          })),
+        })),
+      },
+    };
+  } catch (error) {
+    console.error('Error in getSurveyResults:', error);
+    return { success: false, error: 'Failed to load survey results' };
+  }
+}
+
+/**
+ * The current user's surveys with response counts for the dashboard
+ */
+export async function getUserSurveys(): Promise<SurveySummary[]> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session }, error: authError } = await supabase.auth.getSession();
+
+    if (authError || !session) {
+      throw new Error('Authentication required');
+    }
+
+    const { data, error } = await supabase
+      .from('surveys')
+      .select(`
+        id,
+        title,
+        description,
+        is_active,
+        expires_at,
+        created_at,
+        survey_questions(count),
+        survey_responses(completed_at)
+      `)
+      .eq('creator_id', session.user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error('Failed to fetch surveys');
+    }
+
+    const rows: SurveySummaryRow[] = data || [];
+
+    return rows.map(survey => {
+      const responses = survey.survey_responses || [];
+      const completed = responses.filter(response => response.completed_at).length;
+
+      return {
+        id: survey.id,
+        title: survey.title,
+        description: survey.description ?? undefined,
+        is_active: survey.is_active,
+        expires_at: survey.expires_at ?? undefined,
+        created_at: survey.created_at,
+        question_count: survey.survey_questions?.[0]?.count || 0,
+        started: responses.length,
+        completed,
+        completion_rate: getCompletionRate(responses.length, completed),
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching user surveys:', error);
+    return [];
+  }
+}
+
+/**
+ * Open or close a survey for new responses (creator or admin)
+ */
+export async function toggleSurveyStatus(
+  surveyId: string,
+  isActive: boolean
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    // RLS limits the update to the creator and admins
+    const { data, error } = await supabase
+      .from('surveys')
+      .update({ is_active: isActive })
+      .eq('id', surveyId)
+      .select('id');
+
+    if (error) {
+      console.error('Error updating survey status:', error);
+      return { success: false, error: 'Failed to update survey status' };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'You can only modify your own surveys' };
+    }
+
+    revalidatePath('/dashboard');
+    revalidatePath(`/surveys/${surveyId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in toggleSurveyStatus:', error);
+    return { success: false, error: 'Failed to update survey status' };
+  }
+}
+
+/**
+ * Delete a survey with its questions and responses (creator or admin)
+ */
+export async function deleteSurvey(surveyId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const { data, error } = await supabase
+      .from('surveys')
+      .delete()
+      .eq('id', surveyId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting survey:', error);
+      return { success: false, error: 'Failed to delete survey' };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'You can only delete your own surveys' };
+    }
+
+    revalidatePath('/dashboard');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteSurvey:', error);
+    return { success: false, error: 'Failed to delete survey' };
+  }
+}
@@ -0,0 +1,75 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { DEFAULT_TAG_SUGGESTIONS, isTagSlug, suggestTags } from '@/lib/poll-tags';
+import { Tag, TagSuggestion } from '@/types/database';
+
+/**
+ * Autocomplete suggestions for the tag input on the create poll form
+ */
+export async function getTagSuggestions(
+  prefix: string,
+  limit: number = DEFAULT_TAG_SUGGESTIONS
+): Promise<TagSuggestion[]> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    return await suggestTags(supabase, prefix, limit);
+  } catch (error) {
+    console.error('Error fetching tag suggestions:', error);
+    return [];
+  }
+}
+
+/**
+ * The official categories, alphabetically
+ */
+export async function getCategories(): Promise<Tag[]> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('tags')
+      .select('*')
+      .eq('is_category', true)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching categories:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    return [];
+  }
+}
+
+/**
+ * Look up a tag by its slug, for the tag page
+ */
+export async function getTagBySlug(slug: string): Promise<Tag | null> {
+  if (!isTagSlug(slug)) {
+    return null;
+  }
+
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('tags')
+      .select('*')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching tag:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching tag:', error);
+    return null;
+  }
+}
@@ -0,0 +1,167 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { revalidatePath } from 'next/cache';
+import { TEXT_ANSWER_COLUMNS, cleanTextAnswer, removeTextAnswer } from '@/lib/text-answers';
+import { PollTextAnswer, TextAnswerStatus } from '@/types/database';
+
+/**
+ * Get the open-ended answers the current user may read on a poll: every
+ * answer for the creator and admins, otherwise the approved ones (while the
+ * results are visible) and the user's own
+ */
+export async function getTextAnswers(pollId: string): Promise<PollTextAnswer[]> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('poll_text_answers')
+      .select(TEXT_ANSWER_COLUMNS)
+      .eq('poll_id', pollId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching text answers:', error);
+      return [];
+    }
+
+    return (data || []) as PollTextAnswer[];
+  } catch (error) {
+    console.error('Error fetching text answers:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the signed-in voter's own unmerged answer, if any
+ */
+export async function getUserTextAnswer(pollId: string): Promise<PollTextAnswer | null> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.user) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('poll_text_answers')
+      .select(TEXT_ANSWER_COLUMNS)
+      .eq('poll_id', pollId)
+      .eq('user_id', session.user.id)
+      .neq('status', 'merged')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching user text answer:', error);
+      return null;
+    }
+
+    return data as PollTextAnswer | null;
+  } catch (error) {
+    console.error('Error fetching user text answer:', error);
+    return null;
+  }
+}
+
+/**
+ * Approve, reject or reset answers on a poll (creator or admin)
+ */
+export async function moderateTextAnswers(
+  pollId: string,
+  answerIds: string[],
+  status: Exclude<TextAnswerStatus, 'merged'>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (answerIds.length === 0) {
+      return { success: false, error: 'No answers selected' };
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { error } = await supabase.rpc('moderate_text_answers', {
+      poll_uuid: pollId,
+      answer_ids: answerIds,
+      new_status: status,
+    });
+
+    if (error) {
+      console.error('Error moderating text answers:', error);
+      const isUserError = error.code === '22023' || error.code === '42501' || error.code === 'P0002';
+      return { success: false, error: isUserError ? error.message : 'Failed to update answers' };
+    }
+
+    revalidatePath(`/polls/${pollId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in moderateTextAnswers:', error);
+    return { success: false, error: 'Failed to update answers' };
+  }
+}
+
+/**
+ * Merge a group of write-ins into an existing option, or into a new option
+ * added to the poll, turning each write-in into a vote for it
+ */
+export async function mergeWriteIns(
+  pollId: string,
+  answerIds: string[],
+  target: { optionId: string } | { newOptionText: string }
+): Promise<{ success: boolean; optionId?: string; merged?: number; error?: string }> {
+  try {
+    if (answerIds.length === 0) {
+      return { success: false, error: 'No write-ins selected' };
+    }
+
+    const newOptionText = 'newOptionText' in target ? cleanTextAnswer(target.newOptionText).slice(0, 200) : null;
+    if (newOptionText === '') {
+      return { success: false, error: 'Option text is required' };
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase.rpc('merge_write_ins', {
+      poll_uuid: pollId,
+      answer_ids: answerIds,
+      target_option: 'optionId' in target ? target.optionId : null,
+      new_option_text: newOptionText,
+    });
+
+    if (error) {
+      console.error('Error merging write-ins:', error);
+      const isUserError = error.code === '22023' || error.code === '42501' || error.code === 'P0002';
+      return { success: false, error: isUserError ? error.message : 'Failed to merge write-ins' };
+    }
+
+    revalidatePath(`/polls/${pollId}`);
+
+    return { success: true, optionId: data?.option_id, merged: data?.merged ?? 0 };
+  } catch (error) {
+    console.error('Error in mergeWriteIns:', error);
+    return { success: false, error: 'Failed to merge write-ins' };
+  }
+}
+
+/**
+ * Withdraw the current voter's answer
+ */
+export async function withdrawTextAnswer(pollId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.user) {
+      return { success: false, error: 'You must be logged in to withdraw an answer' };
+    }
+
+    await removeTextAnswer(supabase, pollId, session.user.id);
+
+    revalidatePath(`/polls/${pollId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in withdrawTextAnswer:', error);
+    return { success: false, error: 'Failed to withdraw answer' };
+  }
+}
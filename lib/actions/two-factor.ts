@@ -0,0 +1,215 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { getGeneralSettings, getSecuritySettings } from '@/lib/app-settings';
+import { buildOtpauthUri, getTwoFactorStatus, toBase32, TwoFactorStatus } from '@/lib/two-factor';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Get the current user's 2FA status along with the site-wide 2FA settings
+ */
+export async function getTwoFactorSettings(): Promise<{
+  success: boolean;
+  error?: string;
+  available?: boolean;
+  requiredForRole?: boolean;
+  status?: TwoFactorStatus;
+}> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const [securitySettings, status, { data: profile }] = await Promise.all([
+      getSecuritySettings(),
+      getTwoFactorStatus(supabase),
+      supabase.from('profiles').select('role').eq('id', session.user.id).single(),
+    ]);
+
+    if (!status) {
+      return { success: false, error: 'Unable to load two-factor status' };
+    }
+
+    return {
+      success: true,
+      available: securitySettings.enable_two_factor,
+      requiredForRole: securitySettings.enable_two_factor &&
+        securitySettings.require_two_factor_for_admins &&
+        profile?.role === 'admin',
+      status,
+    };
+  } catch (error) {
+    console.error('Error loading two-factor settings:', error);
+    return { success: false, error: 'Failed to load two-factor settings' };
+  }
+}
+
+/**
+ * Start enrolling an authenticator app.
+ * Returns the secret and otpauth URI to show as a QR code; nothing is enabled
+ * until the user confirms a code from the app.
+ */
+export async function beginTwoFactorEnrollment(): Promise<{
+  success: boolean;
+  error?: string;
+  secret?: string;
+  otpauthUri?: string;
+}> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const securitySettings = await getSecuritySettings();
+    if (!securitySettings.enable_two_factor) {
+      return { success: false, error: 'Two-factor authentication is not enabled on this site' };
+    }
+
+    const { data: hexSecret, error } = await supabase.rpc('begin_two_factor_enrollment');
+
+    if (error || !hexSecret) {
+      console.error('Error starting two-factor enrollment:', error);
+      return { success: false, error: error?.message || 'Failed to start enrollment' };
+    }
+
+    const generalSettings = await getGeneralSettings();
+    const secret = toBase32(Buffer.from(hexSecret as string, 'hex'));
+
+    return {
+      success: true,
+      secret,
+      otpauthUri: buildOtpauthUri(secret, session.user.email || session.user.id, generalSettings.app_name),
+    };
+  } catch (error) {
+    console.error('Error starting two-factor enrollment:', error);
+    return { success: false, error: 'Failed to start enrollment' };
+  }
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app.
+ * Returns the recovery codes, which are only shown this once.
+ */
+export async function confirmTwoFactorEnrollment(code: string): Promise<{
+  success: boolean;
+  error?: string;
+  recoveryCodes?: string[];
+}> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const { data: recoveryCodes, error } = await supabase.rpc('confirm_two_factor_enrollment', {
+      code: code.trim(),
+    });
+
+    if (error) {
+      console.error('Error confirming two-factor enrollment:', error);
+      return { success: false, error: 'Failed to confirm enrollment' };
+    }
+
+    if (!recoveryCodes) {
+      return { success: false, error: 'Invalid verification code' };
+    }
+
+    revalidatePath('/settings/security');
+
+    return { success: true, recoveryCodes: recoveryCodes as string[] };
+  } catch (error) {
+    console.error('Error confirming two-factor enrollment:', error);
+    return { success: false, error: 'Failed to confirm enrollment' };
+  }
+}
+
+/**
+ * Replace the recovery codes; requires a current authenticator code
+ */
+export async function regenerateRecoveryCodes(code: string): Promise<{
+  success: boolean;
+  error?: string;
+  recoveryCodes?: string[];
+}> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const { data: recoveryCodes, error } = await supabase.rpc('regenerate_two_factor_recovery_codes', {
+      code: code.trim(),
+    });
+
+    if (error) {
+      console.error('Error regenerating recovery codes:', error);
+      return { success: false, error: 'Failed to regenerate recovery codes' };
+    }
+
+    if (!recoveryCodes) {
+      return { success: false, error: 'Invalid verification code' };
+    }
+
+    revalidatePath('/settings/security');
+
+    return { success: true, recoveryCodes: recoveryCodes as string[] };
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    return { success: false, error: 'Failed to regenerate recovery codes' };
+  }
+}
+
+/**
+ * Turn off 2FA; requires a current authenticator or recovery code.
+ * Admins cannot turn it off while the site requires it for their role.
+ */
+export async function disableTwoFactor(code: string): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in' };
+    }
+
+    const [securitySettings, { data: profile }] = await Promise.all([
+      getSecuritySettings(),
+      supabase.from('profiles').select('role').eq('id', session.user.id).single(),
+    ]);
+
+    if (securitySettings.enable_two_factor && securitySettings.require_two_factor_for_admins && profile?.role === 'admin') {
+      return { success: false, error: 'Two-factor authentication is required for admin accounts' };
+    }
+
+    const { data: disabled, error } = await supabase.rpc('disable_two_factor', { code: code.trim() });
+
+    if (error) {
+      console.error('Error disabling two-factor authentication:', error);
+      return { success: false, error: 'Failed to disable two-factor authentication' };
+    }
+
+    if (!disabled) {
+      return { success: false, error: 'Invalid verification code' };
+    }
+
+    revalidatePath('/settings/security');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error);
+    return { success: false, error: 'Failed to disable two-factor authentication' };
+  }
+}
@@ -0,0 +1,35 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { applyUnsubscribeToken, UnsubscribeResult } from '@/lib/unsubscribe';
+
+/**
+ * Apply an unsubscribe link from an email. Works without signing in; the
+ * signed token identifies the user.
+ */
+export async function unsubscribeWithToken(
+  token: string,
+  allEmails: boolean = false
+): Promise<{ success: boolean; result?: UnsubscribeResult; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const result = await applyUnsubscribeToken(supabase, token, allEmails === true);
+
+    if (!result) {
+      return { success: false, error: 'Failed to unsubscribe' };
+    }
+
+    if (result === 'invalid') {
+      return { success: false, error: 'This unsubscribe link is not valid' };
+    }
+
+    if (result === 'expired') {
+      return { success: false, error: 'This unsubscribe link has expired. Manage your emails from your notification settings instead.' };
+    }
+
+    return { success: true, result };
+  } catch (error) {
+    console.error('Error in unsubscribeWithToken:', error);
+    return { success: false, error: 'Failed to unsubscribe' };
+  }
+}
@@ -4,8 +4,23 @@ import { createSupabaseServerClient } from '@/lib/supabase-server';
 import { headers } from 'next/headers';
 import { revalidatePath } from 'next/cache';
 import { PollInterestTracker } from '@/lib/poll-interest-tracker';
+import { getGeneralSettings } from '@/lib/app-settings';
+import { getVoterVotes } from '@/lib/poll-results';
+import { isPollScheduled } from '@/lib/poll-schedule';
+import { consumeRateLimit, formatRetryAfter } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/client-ip';
+import { cleanTextAnswer, removeTextAnswer, replaceTextAnswer } from '@/lib/text-answers';
+import { emitWebhookEvent } from '@/lib/webhook-events';
 
-export async function submitVote(pollId: string, optionIds: string[]) {
+/**
+ * Submit a vote for a poll.
+ *
+ * For ranked-choice polls `optionIds` is the voter's ballot in preference
+ * order (first entry = first choice) and replaces any previous ballot.
+ * `textAnswer` is the written answer on a text poll, or the "Other" write-in
+ * on polls that allow one; it is stored for the creator to moderate.
+ */
+export async function submitVote(pollId: string, optionIds: string[], textAnswer?: string) {
   try {
     const supabase = await createSupabaseServerClient();
     const headersList = await headers();
@@ -14,17 +29,29 @@ export async function submitVote(pollId: string, optionIds: string[]) {
     const { data: { session } } = await supabase.auth.getSession();
     
     // Get user's IP address for anonymous voting
-    const forwardedFor = headersList.get('x-forwarded-for');
-    const realIp = headersList.get('x-real-ip');
-    const clientIp = forwardedFor?.split(',')[0]?.trim() || realIp || 'unknown';
+    const clientIp = getClientIp(headersList);
     
     // Get user agent for additional tracking
     const userAgent = headersList.get('user-agent') || 'unknown';
 
+    // Anonymous voting can be switched off by admins
+    if (!session?.user) {
+      const generalSettings = await getGeneralSettings();
+      if (!generalSettings.allow_anonymous_voting) {
+        throw new Error('You must be logged in to vote');
+      }
+    }
+
+    // Rate limit by account, or by IP address for anonymous voters
+    const rateLimit = await consumeRateLimit('vote', session?.user?.id || clientIp);
+    if (!rateLimit.allowed) {
+      throw new Error(`You are voting too quickly. Please try again in ${formatRetryAfter(rateLimit)}.`);
+    }
+
     // First, get the poll to check if it exists and is active
     const { data: poll, error: pollError } = await supabase
       .from('polls')
-      .select('id, is_active, allow_multiple_choices, expires_at')
+      .select('id, is_active, status, opens_at, allow_multiple_choices, allow_write_in, poll_type, expires_at')
       .eq('id', pollId)
       .single();
 
@@ -32,6 +59,14 @@ export async function submitVote(pollId: string, optionIds: string[]) {
       throw new Error('Poll not found');
     }
 
+    if (poll.status === 'draft') {
+      throw new Error('This poll has not been published yet');
+    }
+
+    if (isPollScheduled(poll)) {
+      throw new Error('Voting has not opened yet');
+    }
+
     if (!poll.is_active) {
       throw new Error('This poll is no longer active');
     }
@@ -41,41 +76,76 @@ export async function submitVote(pollId: string, optionIds: string[]) {
       throw new Error('This poll has expired');
     }
 
-    // Validate option IDs belong to this poll
-    const { data: validOptions, error: optionsError } = await supabase
-      .from('poll_options')
-      .select('id')
-      .eq('poll_id', pollId)
-      .in('id', optionIds);
+    const isRanked = poll.poll_type === 'ranked';
+    const isText = poll.poll_type === 'text';
+    const answerText = textAnswer === undefined ? null : cleanTextAnswer(textAnswer);
 
-    if (optionsError || !validOptions || validOptions.length !== optionIds.length) {
-      throw new Error('Invalid poll options selected');
+    if (answerText === '' || (isText && !answerText)) {
+      throw new Error('Please write your answer');
     }
 
-    // Check if multiple choices are allowed
-    if (!poll.allow_multiple_choices && optionIds.length > 1) {
-      throw new Error('Multiple choices are not allowed for this poll');
+    if (isText && optionIds.length > 0) {
+      throw new Error('This poll only accepts written answers');
     }
 
-    // Check if user has already voted
-    let existingVotesQuery = supabase
-      .from('votes')
-      .select('id, option_id')
-      .eq('poll_id', pollId);
+    if (!isText && answerText && !poll.allow_write_in) {
+      throw new Error('Write-in answers are not allowed for this poll');
+    }
 
-    if (session?.user) {
-      // For authenticated users, check by user_id
-      existingVotesQuery = existingVotesQuery.eq('user_id', session.user.id);
-    } else {
-      // For anonymous users, check by IP address
-      existingVotesQuery = existingVotesQuery.eq('ip_address', clientIp);
+    if (!isText && optionIds.length === 0 && !answerText) {
+      throw new Error('Please select at least one option');
+    }
+
+    // Text polls have no options or votes; the answer replaces any earlier one
+    if (isText && answerText) {
+      const saved = await replaceTextAnswer(supabase, {
+        pollId,
+        kind: 'text',
+        text: answerText,
+        userId: session?.user?.id || null,
+        clientIp,
+        userAgent,
+      });
+
+      if (!saved.success) {
+        throw new Error(saved.error);
+      }
+
+      revalidatePath(`/polls/${pollId}`);
+      return { success: true };
     }
 
-    const { data: existingVotes } = await existingVotesQuery;
+    // A ranked ballot may list each option only once
+    if (isRanked && new Set(optionIds).size !== optionIds.length) {
+      throw new Error('Each option can only be ranked once');
+    }
+
+    // Validate option IDs belong to this poll
+    if (optionIds.length > 0) {
+      const { data: validOptions, error: optionsError } = await supabase
+        .from('poll_options')
+        .select('id')
+        .eq('poll_id', pollId)
+        .in('id', optionIds);
+
+      if (optionsError || !validOptions || validOptions.length !== optionIds.length) {
+        throw new Error('Invalid poll options selected');
+      }
+    }
+
+    // Check if multiple choices are allowed; a write-in counts as a choice
+    if (!isRanked && !poll.allow_multiple_choices && optionIds.length + (answerText ? 1 : 0) > 1) {
+      throw new Error('Multiple choices are not allowed for this poll');
+    }
+
+    // Check if user has already voted (by user_id, or by IP address for
+    // anonymous users); this works even when the poll's results are hidden
+    const existingVotes = await getVoterVotes(supabase, pollId, session?.user ? undefined : clientIp);
 
     if (existingVotes && existingVotes.length > 0) {
-      // If poll doesn't allow multiple choices and user has voted, remove existing votes
-      if (!poll.allow_multiple_choices) {
+      // If poll doesn't allow multiple choices (or is ranked) and user has voted,
+      // remove existing votes so the new ballot replaces them
+      if (!poll.allow_multiple_choices || isRanked) {
         const { error: deleteError } = await supabase
           .from('votes')
           .delete()
@@ -97,25 +167,64 @@ export async function submitVote(pollId: string, optionIds: string[]) {
     }
 
     // Insert new votes
-    const votesToInsert = optionIds.map(optionId => ({
-      poll_id: pollId,
-      option_id: optionId,
-      user_id: session?.user?.id || null,
-      ip_address: session?.user ? null : clientIp,
-      user_agent: userAgent,
-    }));
-
-    const { error: insertError } = await supabase
-      .from('votes')
-      .insert(votesToInsert);
+    if (optionIds.length > 0) {
+      const votesToInsert = optionIds.map((optionId, index) => ({
+        poll_id: pollId,
+        option_id: optionId,
+        user_id: session?.user?.id || null,
+        ip_address: session?.user ? null : clientIp,
+        user_agent: userAgent,
+        rank: isRanked ? index + 1 : null,
+      }));
 
-    if (insertError) {
-      throw new Error('Failed to submit vote');
+      const { error: insertError } = await supabase
+        .from('votes')
+        .insert(votesToInsert);
+
+      if (insertError) {
+        // The database keeps one vote per voter on single choice polls
+        if (insertError.code === '23505') {
+          throw new Error('You have already voted in this poll');
+        }
+        throw new Error('Failed to submit vote');
+      }
+    }
+
+    // The write-in replaces the voter's previous one; on single choice polls
+    // picking a listed option withdraws it
+    if (answerText) {
+      const saved = await replaceTextAnswer(supabase, {
+        pollId,
+        kind: 'write_in',
+        text: answerText,
+        userId: session?.user?.id || null,
+        clientIp,
+        userAgent,
+      });
+
+      if (!saved.success) {
+        throw new Error(saved.error);
+      }
+    } else if (poll.allow_write_in && !poll.allow_multiple_choices && session?.user) {
+      await removeTextAnswer(supabase, pollId, session.user.id);
     }
 
     // Track voter interest for email notifications (only for registered users)
     if (session?.user?.id) {
       await PollInterestTracker.trackVoterInterest(session.user.id, pollId);
+
+      // Voting again resolves any "your vote was removed" notice from a poll edit
+      await supabase
+        .from('poll_vote_invalidations')
+        .update({ acknowledged_at: new Date().toISOString() })
+        .eq('poll_id', pollId)
+        .eq('user_id', session.user.id)
+        .is('acknowledged_at', null);
+    }
+
+    // A write-in alone is not a vote until the creator merges it
+    if (optionIds.length > 0) {
+      await emitWebhookEvent('vote.cast', pollId, { userId: session?.user?.id, voterIp: clientIp });
     }
 
     // Revalidate the poll page to show updated results
@@ -140,9 +249,7 @@ export async function removeVote(pollId: string, optionId: string) {
     const { data: { session } } = await supabase.auth.getSession();
     
     // Get user's IP address for anonymous voting
-    const forwardedFor = headersList.get('x-forwarded-for');
-    const realIp = headersList.get('x-real-ip');
-    const clientIp = forwardedFor?.split(',')[0]?.trim() || realIp || 'unknown';
+    const clientIp = getClientIp(headersList);
 
     let deleteQuery = supabase
       .from('votes')
@@ -0,0 +1,366 @@
+'use server';
+
+import { randomBytes } from 'crypto';
+import { lookup } from 'dns/promises';
+import { createSupabaseServerClient, createSupabaseServiceClient } from '@/lib/supabase-server';
+import { revalidatePath } from 'next/cache';
+import { sanitizeInput } from '@/lib/utils';
+import {
+  getWebhookHost,
+  isIpAddress,
+  isLocalWebhookHost,
+  isPublicAddress,
+  isWebhookEvent,
+  MAX_WEBHOOKS_PER_USER,
+  validateWebhookUrl,
+} from '@/lib/webhooks';
+import { Webhook, WebhookDelivery, WebhookEvent, WebhookScope } from '@/types/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * Generate a signing secret for a webhook
+ */
+function generateWebhookSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Validate an event selection, returning the de-duplicated list
+ */
+function parseEvents(events: unknown): WebhookEvent[] | null {
+  if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEvent)) {
+    return null;
+  }
+  return Array.from(new Set(events));
+}
+
+/**
+ * Resolve an endpoint's host and check that every address it has is
+ * public, so names like 127.0.0.1.nip.io cannot point deliveries at a
+ * private network. The webhook-deliveries function checks again before
+ * each delivery, as DNS can change after registration.
+ */
+async function validateWebhookHost(url: string): Promise<string | null> {
+  const host = getWebhookHost(url);
+  if (isIpAddress(host) || (isLocalWebhookHost(host) && process.env.NODE_ENV !== 'production')) {
+    return null;
+  }
+
+  try {
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return 'URLs must point to a public host';
+    }
+  } catch {
+    return 'The URL\'s host could not be found';
+  }
+
+  return null;
+}
+
+/**
+ * Whether the current user may change a webhook: their own, or a global
+ * one while they are an admin. Webhooks are written with the service
+ * client, so this stands in for row level security.
+ */
+async function canManageWebhook(supabase: SupabaseServerClient, webhookId: string): Promise<boolean> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return false;
+  }
+
+  const { data: webhook } = await supabase
+    .from('webhooks')
+    .select('owner_id, scope')
+    .eq('id', webhookId)
+    .maybeSingle();
+
+  if (!webhook) {
+    return false;
+  }
+  if (webhook.owner_id === session.user.id && webhook.scope === 'own') {
+    return true;
+  }
+
+  const { data: isAdmin } = await supabase.rpc('is_admin');
+  return webhook.scope === 'global' && isAdmin === true;
+}
+
+/**
+ * Get the current user's webhooks, plus every global webhook for admins
+ */
+export async function getWebhooks(): Promise<Webhook[]> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('webhooks')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching webhooks:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the most recent deliveries for the webhooks the user can see
+ */
+export async function getWebhookDeliveries(limit: number = 50): Promise<WebhookDelivery[]> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(Math.min(Math.max(limit, 1), 200));
+
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return [];
+  }
+}
+
+/**
+ * Register a webhook. Global webhooks receive every poll's events and can
+ * only be created by admins.
+ */
+export async function createWebhook(input: {
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  scope?: WebhookScope;
+}): Promise<{ success: boolean; webhook?: Webhook; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'You must be logged in to add a webhook' };
+    }
+
+    const url = input.url?.trim();
+    const urlError = validateWebhookUrl(url) ?? (await validateWebhookHost(url));
+    if (urlError) {
+      return { success: false, error: urlError };
+    }
+
+    const events = parseEvents(input.events);
+    if (!events) {
+      return { success: false, error: 'Choose at least one event' };
+    }
+
+    const scope = input.scope || 'own';
+    if (scope !== 'own' && scope !== 'global') {
+      return { success: false, error: 'Invalid webhook scope' };
+    }
+    if (scope === 'global') {
+      const { data: isAdmin } = await supabase.rpc('is_admin');
+      if (isAdmin !== true) {
+        return { success: false, error: 'Only admins can add global webhooks' };
+      }
+    }
+
+    const { count } = await supabase
+      .from('webhooks')
+      .select('id', { count: 'exact', head: true })
+      .eq('owner_id', session.user.id);
+
+    if ((count || 0) >= MAX_WEBHOOKS_PER_USER) {
+      return { success: false, error: `You can register up to ${MAX_WEBHOOKS_PER_USER} webhooks` };
+    }
+
+    const description = input.description ? sanitizeInput(input.description.trim()).slice(0, 200) : null;
+
+    // Webhooks can only be written with the service role, after the URL checks above
+    const serviceClient = createSupabaseServiceClient();
+    const { data, error } = await serviceClient
+      .from('webhooks')
+      .insert({
+        owner_id: session.user.id,
+        scope,
+        url,
+        description: description || null,
+        events,
+        secret: generateWebhookSecret(),
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating webhook:', error);
+      return { success: false, error: 'Failed to add webhook' };
+    }
+
+    console.log(`[WEBHOOKS] Webhook added - ID: ${data.id}, Scope: ${scope}, Events: ${events.join(',')}`);
+    revalidatePath('/dashboard/webhooks');
+
+    return { success: true, webhook: data };
+  } catch (error) {
+    console.error('Error in createWebhook:', error);
+    return { success: false, error: 'Failed to add webhook' };
+  }
+}
+
+/**
+ * Change a webhook's events or pause and resume it
+ */
+export async function updateWebhook(
+  webhookId: string,
+  changes: { events?: WebhookEvent[]; is_active?: boolean }
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const update: { events?: WebhookEvent[]; is_active?: boolean } = {};
+
+    if (changes.events !== undefined) {
+      const events = parseEvents(changes.events);
+      if (!events) {
+        return { success: false, error: 'Choose at least one event' };
+      }
+      update.events = events;
+    }
+
+    if (changes.is_active !== undefined) {
+      update.is_active = changes.is_active === true;
+    }
+
+    if (!(await canManageWebhook(supabase, webhookId))) {
+      return { success: false, error: 'Webhook not found' };
+    }
+
+    const serviceClient = createSupabaseServiceClient();
+    const { data, error } = await serviceClient
+      .from('webhooks')
+      .update(update)
+      .eq('id', webhookId)
+      .select('id');
+
+    if (error) {
+      console.error('Error updating webhook:', error);
+      return { success: false, error: 'Failed to update webhook' };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Webhook not found' };
+    }
+
+    revalidatePath('/dashboard/webhooks');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in updateWebhook:', error);
+    return { success: false, error: 'Failed to update webhook' };
+  }
+}
+
+/**
+ * Replace a webhook's signing secret. Deliveries still queued are signed with
+ * the new secret when they are sent.
+ */
+export async function rotateWebhookSecret(webhookId: string): Promise<{ success: boolean; secret?: string; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    if (!(await canManageWebhook(supabase, webhookId))) {
+      return { success: false, error: 'Webhook not found' };
+    }
+
+    const secret = generateWebhookSecret();
+    const serviceClient = createSupabaseServiceClient();
+    const { data, error } = await serviceClient
+      .from('webhooks')
+      .update({ secret })
+      .eq('id', webhookId)
+      .select('id');
+
+    if (error) {
+      console.error('Error rotating webhook secret:', error);
+      return { success: false, error: 'Failed to rotate secret' };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Webhook not found' };
+    }
+
+    console.log(`[WEBHOOKS] Secret rotated - ID: ${webhookId}`);
+    revalidatePath('/dashboard/webhooks');
+
+    return { success: true, secret };
+  } catch (error) {
+    console.error('Error in rotateWebhookSecret:', error);
+    return { success: false, error: 'Failed to rotate secret' };
+  }
+}
+
+/**
+ * Remove a webhook along with its delivery log
+ */
+export async function deleteWebhook(webhookId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { data, error } = await supabase
+      .from('webhooks')
+      .delete()
+      .eq('id', webhookId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting webhook:', error);
+      return { success: false, error: 'Failed to delete webhook' };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Webhook not found' };
+    }
+
+    console.log(`[WEBHOOKS] Webhook deleted - ID: ${webhookId}`);
+    revalidatePath('/dashboard/webhooks');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteWebhook:', error);
+    return { success: false, error: 'Failed to delete webhook' };
+  }
+}
+
+/**
+ * Queue a failed delivery for another round of attempts
+ */
+export async function retryWebhookDelivery(deliveryId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createSupabaseServerClient();
+
+    const { error } = await supabase.rpc('retry_webhook_delivery', { delivery_uuid: deliveryId });
+
+    if (error) {
+      console.error('Error retrying webhook delivery:', error);
+      const isUserError = error.code === '22023' || error.code === 'P0002';
+      return { success: false, error: isUserError ? error.message : 'Failed to retry delivery' };
+    }
+
+    revalidatePath('/dashboard/webhooks');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in retryWebhookDelivery:', error);
+    return { success: false, error: 'Failed to retry delivery' };
+  }
+}
@@ -0,0 +1,109 @@
+import { Announcement, AnnouncementAudience, AnnouncementStatus } from '@/types/database';
+
+/**
+ * 📣 ANNOUNCEMENTS
+ *
+ * Shared rules for admin announcements. The announcements SELECT policy
+ * decides what each visitor sees; these helpers validate admin input and
+ * describe an announcement's effective state for the admin list.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/actions/admin/announcements.ts, lib/actions/announcements.ts
+ * - components/admin/AnnouncementManager.tsx
+ */
+
+export const ANNOUNCEMENT_STATUSES: AnnouncementStatus[] = ['draft', 'scheduled', 'active', 'archived'];
+
+export const ANNOUNCEMENT_AUDIENCES: AnnouncementAudience[] = ['all', 'registered', 'admins'];
+
+export const ANNOUNCEMENT_AUDIENCE_LABELS: Record<AnnouncementAudience, string> = {
+  all: 'All Users',
+  registered: 'Registered Users',
+  admins: 'Admins',
+};
+
+export interface AnnouncementInput {
+  title: string;
+  content: string;
+  status: AnnouncementStatus;
+  target_audience: AnnouncementAudience;
+  starts_at?: string | null;
+  ends_at?: string | null;
+}
+
+/**
+ * Check whether a value is a valid announcement status
+ */
+export function isAnnouncementStatus(value: unknown): value is AnnouncementStatus {
+  return typeof value === 'string' && (ANNOUNCEMENT_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a valid target audience
+ */
+export function isAnnouncementAudience(value: unknown): value is AnnouncementAudience {
+  return typeof value === 'string' && (ANNOUNCEMENT_AUDIENCES as string[]).includes(value);
+}
+
+/**
+ * Validate an announcement before saving.
+ * Returns an error message, or null when the input is valid.
+ */
+export function validateAnnouncement(input: AnnouncementInput): string | null {
+  if (typeof input.title !== 'string' || !input.title.trim()) {
+    return 'Title is required';
+  }
+  if (input.title.trim().length > 200) {
+    return 'Title must be 200 characters or less';
+  }
+
+  if (typeof input.content !== 'string' || !input.content.trim()) {
+    return 'Message is required';
+  }
+  if (input.content.trim().length > 2000) {
+    return 'Message must be 2000 characters or less';
+  }
+
+  if (!isAnnouncementStatus(input.status)) {
+    return 'Invalid status';
+  }
+  if (!isAnnouncementAudience(input.target_audience)) {
+    return 'Invalid target audience';
+  }
+
+  const startsAt = input.starts_at ? new Date(input.starts_at) : null;
+  const endsAt = input.ends_at ? new Date(input.ends_at) : null;
+
+  if (startsAt && isNaN(startsAt.getTime())) {
+    return 'Invalid start date';
+  }
+  if (endsAt && isNaN(endsAt.getTime())) {
+    return 'Invalid end date';
+  }
+  if (input.status === 'scheduled' && !startsAt) {
+    return 'Scheduled announcements need a start date';
+  }
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    return 'End date must be after the start date';
+  }
+
+  return null;
+}
+
+/**
+ * The state visitors experience: scheduled announcements past their start
+ * date are live, and live ones past their end date have expired
+ */
+export function getEffectiveAnnouncementStatus(
+  announcement: Pick<Announcement, 'status' | 'starts_at' | 'ends_at'>
+): AnnouncementStatus | 'expired' {
+  const now = new Date();
+  const started = announcement.status === 'active'
+    || (announcement.status === 'scheduled' && !!announcement.starts_at && new Date(announcement.starts_at) <= now);
+
+  if (started && announcement.ends_at && new Date(announcement.ends_at) <= now) {
+    return 'expired';
+  }
+
+  return started ? 'active' : announcement.status;
+}
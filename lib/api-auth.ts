@@ -0,0 +1,150 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, createSupabaseTokenClient } from '@/lib/supabase-server';
+import { API_KEY_DISPLAY_LENGTH, API_KEY_PREFIX } from '@/lib/api-keys';
+import { ApiKeyScope } from '@/types/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * 🔐 API REQUEST AUTHENTICATION
+ *
+ * Resolves who is calling a poll API route. Requests with an
+ * `Authorization: Bearer polly_...` header are authenticated by API key:
+ * the key's SHA-256 hash is looked up with `authenticate_api_key`, and the
+ * route gets a client carrying a short-lived JWT for the key's owner
+ * (signed with SUPABASE_JWT_SECRET), so RLS applies exactly as it does for
+ * the owner's browser session. Other requests use the session cookie.
+ *
+ * USAGE IN CODEBASE:
+ * - app/api/polls routes (and the app/api/v1 routes built on them)
+ * - lib/actions/api-keys.ts (generateApiKey)
+ */
+
+// Long enough for one request, short enough to be useless if it leaks
+const ACCESS_TOKEN_TTL_SECONDS = 5 * 60;
+
+export interface RequestAuth {
+  supabase: SupabaseServerClient;
+  /** The signed-in user or API key owner; null for anonymous requests */
+  userId: string | null;
+  /** Set when the request was authenticated with an API key */
+  apiKeyId: string | null;
+}
+
+/**
+ * Authentication failure to report to the caller as-is
+ */
+export class ApiAuthError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message);
+    this.name = 'ApiAuthError';
+  }
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new API key. Only the hash and display prefix are stored; the
+ * key itself is shown to the user once.
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, prefix: key.slice(0, API_KEY_DISPLAY_LENGTH), hash: hashApiKey(key) };
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Sign an HS256 access token for a user, in the shape Supabase Auth issues.
+ * The api_key_id claim marks it as an API key token, which the database
+ * treats as having passed two-factor authentication.
+ */
+function signAccessToken(secret: string, userId: string, email: string | null, apiKeyId: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({
+    aud: 'authenticated',
+    role: 'authenticated',
+    sub: userId,
+    email: email ?? undefined,
+    api_key_id: apiKeyId,
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL_SECONDS,
+  }));
+  const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Authenticate a poll API request by API key or session cookie. Keys must
+ * carry `scope`; cookie sessions can do anything the user can.
+ *
+ * @throws ApiAuthError for malformed, unknown or revoked keys (401) and keys
+ *         without the scope (403)
+ * @throws Error when the database is unavailable
+ */
+export async function authenticateRequest(request: NextRequest, scope: ApiKeyScope): Promise<RequestAuth> {
+  const authorization = request.headers.get('authorization');
+
+  if (!authorization) {
+    const supabase = await createSupabaseServerClient();
+    const { data: { session } } = await supabase.auth.getSession();
+    return { supabase, userId: session?.user?.id ?? null, apiKeyId: null };
+  }
+
+  const key = authorization.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!key || !key.startsWith(API_KEY_PREFIX)) {
+    throw new ApiAuthError('Invalid API key', 401, 'INVALID_API_KEY');
+  }
+
+  const jwtSecret = process.env.SUPABASE_JWT_SECRET;
+  if (!jwtSecret) {
+    console.error('[API] SUPABASE_JWT_SECRET is not set; API keys cannot be used');
+    throw new ApiAuthError('API keys are not enabled on this server', 503, 'API_KEYS_UNAVAILABLE');
+  }
+
+  const { data, error } = await createSupabaseTokenClient().rpc('authenticate_api_key', {
+    api_key_hash: hashApiKey(key),
+  });
+
+  if (error) {
+    throw new Error(`API key lookup failed: ${error.message}`);
+  }
+
+  const apiKey = Array.isArray(data) ? data[0] : null;
+  if (!apiKey) {
+    throw new ApiAuthError('Invalid API key', 401, 'INVALID_API_KEY');
+  }
+
+  if (!apiKey.scopes?.includes(scope)) {
+    console.warn(`[API] API key ${apiKey.api_key_id} is missing the ${scope} scope`);
+    throw new ApiAuthError(`This API key does not have the ${scope} scope`, 403, 'INSUFFICIENT_SCOPE');
+  }
+
+  return {
+    supabase: createSupabaseTokenClient(signAccessToken(jwtSecret, apiKey.user_id, apiKey.email, apiKey.api_key_id)),
+    userId: apiKey.user_id,
+    apiKeyId: apiKey.api_key_id,
+  };
+}
+
+/**
+ * The JSON error response for an authentication failure thrown by
+ * authenticateRequest, or null for any other error
+ */
+export function apiAuthErrorResponse(error: unknown, headers: Record<string, string>): NextResponse | null {
+  if (!(error instanceof ApiAuthError)) {
+    return null;
+  }
+
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.status, headers }
+  );
+}
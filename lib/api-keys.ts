@@ -0,0 +1,37 @@
+import { ApiKeyScope } from '@/types/database';
+
+/**
+ * 🔑 API KEYS
+ *
+ * Personal keys for calling the /api/v1 routes from scripts, sent as
+ * `Authorization: Bearer polly_...`. Read keys can list and fetch polls and
+ * results; write keys can also create, update, close and delete polls and
+ * vote. Keys are hashed at rest (see lib/api-auth.ts) and revoked from the
+ * API keys settings page.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/api-auth.ts, lib/actions/api-keys.ts
+ * - components/settings/ApiKeyManager.tsx
+ */
+
+export const API_KEY_PREFIX = 'polly_';
+
+// Characters of a key kept in the database so users can tell keys apart
+export const API_KEY_DISPLAY_LENGTH = API_KEY_PREFIX.length + 6;
+
+export const MAX_API_KEYS_PER_USER = 10;
+
+export const API_KEY_ACCESS_LEVELS: { value: 'read' | 'write'; scopes: ApiKeyScope[]; label: string; description: string }[] = [
+  {
+    value: 'read',
+    scopes: ['read'],
+    label: 'Read only',
+    description: 'List and fetch polls and their results',
+  },
+  {
+    value: 'write',
+    scopes: ['read', 'write'],
+    label: 'Read & write',
+    description: 'Also create, edit, close and delete your polls, and vote',
+  },
+];
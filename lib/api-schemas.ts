@@ -0,0 +1,469 @@
+import { z } from 'zod';
+import { RESULTS_VISIBILITY_OPTIONS } from '@/lib/poll-results';
+import { POLL_VISIBILITY_OPTIONS } from '@/lib/poll-access';
+import { POLL_STATUSES } from '@/lib/poll-schedule';
+import { MAX_POLL_OPTIONS } from '@/lib/poll-revisions';
+import { POLL_EXPORT_FORMATS } from '@/lib/poll-export';
+import { decodePollCursor, MAX_POLL_LIST_LIMIT, POLL_LIST_SORTS, POLL_LIST_STATUSES } from '@/lib/poll-listing';
+import { MAX_SEARCH_QUERY_LENGTH, MAX_SEARCH_RESULTS, MIN_SEARCH_QUERY_LENGTH, normalizeSearchQuery } from '@/lib/poll-search';
+import { isTagSlug, MAX_TAG_NAME_LENGTH, MAX_TAGS_PER_POLL, normalizeTagNames } from '@/lib/poll-tags';
+import { PollType } from '@/types/database';
+
+/**
+ * 📘 POLLS API SCHEMAS
+ *
+ * Request and response bodies of the polls REST API, declared once with
+ * zod. Route handlers validate requests with `parseApiInput`, lib/openapi.ts
+ * turns the registered schemas into the OpenAPI document, and
+ * types/database.ts re-exports the inferred types.
+ *
+ * Validation failures report a key of VALIDATION_ERRORS as their zod
+ * message; `parseApiInput` maps the first one to the `{ error, code }` pair
+ * the handlers have always returned.
+ *
+ * USAGE IN CODEBASE:
+ * - app/api/polls routes (POST/GET, search GET, [id] GET/PUT, [id]/vote POST, [id]/export GET)
+ * - lib/openapi.ts, types/database.ts
+ */
+
+/** Schemas that become `components/schemas` entries for request bodies */
+export const apiRequestSchemas = z.registry<{ id: string; description?: string }>();
+
+/** Schemas that become `components/schemas` entries for response bodies */
+export const apiResponseSchemas = z.registry<{ id: string; description?: string }>();
+
+const POLL_TYPES: PollType[] = ['standard', 'ranked', 'text'];
+
+const MAX_CREATE_TITLE_LENGTH = 200;
+const MAX_CREATE_OPTION_LENGTH = 100;
+const MAX_EXPIRY_DAYS = 365;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+const VALIDATION_ERRORS = {
+  invalidBody: { code: 'INVALID_BODY', message: 'Request body must be a JSON object' },
+
+  // POST /polls
+  titleRequired: { code: 'INVALID_TITLE', message: 'Poll title is required and must be a valid string' },
+  titleTooShort: { code: 'TITLE_TOO_SHORT', message: 'Poll title must be at least 3 characters long' },
+  descriptionInvalid: { code: 'INVALID_DESCRIPTION', message: 'Description must be a valid string' },
+  optionsFormat: { code: 'INVALID_OPTIONS_FORMAT', message: 'Options must be a valid array' },
+  optionsTooFew: { code: 'INSUFFICIENT_OPTIONS', message: 'At least 2 poll options are required' },
+  optionsTooMany: { code: 'TOO_MANY_OPTIONS', message: `Maximum ${MAX_POLL_OPTIONS} options allowed` },
+  optionFormat: { code: 'INVALID_OPTION_FORMAT', message: 'All options must be valid strings' },
+  optionEmpty: { code: 'EMPTY_OPTION', message: 'All options must have text' },
+  optionsDuplicate: { code: 'DUPLICATE_OPTIONS', message: 'Duplicate options are not allowed' },
+  allowMultipleInvalid: { code: 'INVALID_ALLOW_MULTIPLE_CHOICES', message: 'allow_multiple_choices must be true or false' },
+  pollTypeInvalid: { code: 'INVALID_POLL_TYPE', message: `Poll type must be one of: ${POLL_TYPES.join(', ')}` },
+  textPollOptions: { code: 'TEXT_POLL_OPTIONS', message: 'Text polls do not have options' },
+  writeInInvalid: { code: 'INVALID_ALLOW_WRITE_IN', message: 'allow_write_in must be true or false' },
+  writeInNotStandard: { code: 'INVALID_ALLOW_WRITE_IN', message: 'Write-in answers are only available on standard polls' },
+  expirationInvalid: { code: 'INVALID_EXPIRATION', message: 'Invalid expiration date format or date is too far in the future' },
+  resultsVisibilityInvalid: { code: 'INVALID_RESULTS_VISIBILITY', message: `Results visibility must be one of: ${RESULTS_VISIBILITY_OPTIONS.join(', ')}` },
+  visibilityInvalid: { code: 'INVALID_VISIBILITY', message: `Visibility must be one of: ${POLL_VISIBILITY_OPTIONS.join(', ')}` },
+  eligibleVotersInvalid: { code: 'INVALID_ELIGIBLE_VOTERS', message: 'Eligible voters must be an array of emails or user ids' },
+  statusInvalid: { code: 'INVALID_STATUS', message: 'Status must be draft or published' },
+  opensAtInvalid: { code: 'INVALID_OPENS_AT', message: 'Invalid opening date' },
+  tagsInvalid: { code: 'INVALID_TAGS', message: `Tags must be an array of at most ${MAX_TAGS_PER_POLL} names of up to ${MAX_TAG_NAME_LENGTH} characters, each with letters or numbers` },
+
+  // PUT /polls/[id]
+  editTitleRequired: { code: 'INVALID_TITLE', message: 'Title must be a non-empty string' },
+  editTitleTooLong: { code: 'TITLE_TOO_LONG', message: 'Title must be 200 characters or less' },
+  editDescriptionTooLong: { code: 'DESCRIPTION_TOO_LONG', message: 'Description must be 1000 characters or less' },
+  editOptionsTooFew: { code: 'INVALID_OPTIONS', message: 'At least 2 poll options are required' },
+  editOptionsTooMany: { code: 'INVALID_OPTIONS', message: `Maximum ${MAX_POLL_OPTIONS} options allowed` },
+  editOptionText: { code: 'INVALID_OPTIONS', message: 'All options must have text' },
+  editOptionTooLong: { code: 'INVALID_OPTIONS', message: 'Options must be 200 characters or less' },
+  editOptionId: { code: 'INVALID_OPTIONS', message: 'Invalid option id' },
+  isActiveInvalid: { code: 'INVALID_IS_ACTIVE', message: 'is_active must be true or false' },
+  editExpirationInvalid: { code: 'INVALID_EXPIRATION_DATE', message: 'Invalid expiration date format' },
+
+  // POST /polls/[id]/vote
+  voteNoOptions: { code: 'NO_OPTIONS_SELECTED', message: 'At least one option must be selected' },
+  voteTooManyOptions: { code: 'TOO_MANY_OPTIONS', message: `Maximum ${MAX_POLL_OPTIONS} options allowed` },
+  voteOptionId: { code: 'INVALID_OPTION_ID', message: 'Invalid option ID format' },
+
+  // GET /polls/[id]/export
+  exportFormatInvalid: { code: 'INVALID_EXPORT_FORMAT', message: `Format must be one of: ${POLL_EXPORT_FORMATS.join(', ')}` },
+
+  // GET /polls
+  cursorInvalid: { code: 'INVALID_CURSOR', message: 'Invalid cursor. Use nextCursor from the previous page with the same sort.' },
+  limitInvalid: { code: 'INVALID_LIMIT', message: `Invalid limit parameter. Must be between 1 and ${MAX_POLL_LIST_LIMIT}.` },
+  sortInvalid: { code: 'INVALID_SORT', message: `Sort must be one of: ${POLL_LIST_SORTS.join(', ')}` },
+  listStatusInvalid: { code: 'INVALID_STATUS', message: `Status must be one of: ${POLL_LIST_STATUSES.join(', ')}` },
+  creatorInvalid: { code: 'INVALID_CREATOR', message: 'Creator must be a user id' },
+  listFlagInvalid: { code: 'INVALID_FILTER', message: 'mine and voted must be true or false' },
+  dateRangeInvalid: { code: 'INVALID_DATE_RANGE', message: 'created_after and created_before must be ISO 8601 dates' },
+  tagInvalid: { code: 'INVALID_TAG', message: 'Tag must be a tag slug, e.g. climate-change' },
+
+  // GET /polls/search (q is also a GET /polls filter)
+  searchQueryInvalid: { code: 'INVALID_QUERY', message: `Search query must be ${MIN_SEARCH_QUERY_LENGTH} to ${MAX_SEARCH_QUERY_LENGTH} characters` },
+  searchLimitInvalid: { code: 'INVALID_LIMIT', message: `Invalid limit parameter. Must be between 1 and ${MAX_SEARCH_RESULTS}.` },
+} satisfies Record<string, { code: string; message: string }>;
+
+type ValidationErrorKey = keyof typeof VALIDATION_ERRORS;
+
+/**
+ * zod error option reporting one of VALIDATION_ERRORS
+ */
+function fail(key: ValidationErrorKey) {
+  return { error: key };
+}
+
+/**
+ * Remove HTML-sensitive characters from user-supplied text
+ */
+export function sanitizeApiText(input: string): string {
+  return input.replace(/[<>&'"]/g, '').trim();
+}
+
+function isValidExpiration(expiresAt: string): boolean {
+  const expirationDate = new Date(expiresAt);
+  const now = new Date();
+  const maxFutureDate = new Date(now.getTime() + MAX_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+  return expirationDate > now && expirationDate <= maxFutureDate;
+}
+
+export type ApiParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; code: string };
+
+/**
+ * Validate a request body or query against one of the schemas below,
+ * returning the first failure as an API error message and code
+ */
+export function parseApiInput<T extends z.ZodType>(schema: T, input: unknown): ApiParseResult<z.output<T>> {
+  const result = schema.safeParse(input);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const key = result.error.issues[0]?.message;
+  const failure = key && Object.hasOwn(VALIDATION_ERRORS, key)
+    ? VALIDATION_ERRORS[key as ValidationErrorKey]
+    : null;
+
+  return failure
+    ? { success: false, error: failure.message, code: failure.code }
+    : { success: false, error: 'Invalid request', code: 'INVALID_REQUEST' };
+}
+
+const resultsVisibilitySchema = z.enum(RESULTS_VISIBILITY_OPTIONS, fail('resultsVisibilityInvalid'))
+  .meta({ description: 'Who can see vote counts; creators and admins always can' });
+const visibilitySchema = z.enum(POLL_VISIBILITY_OPTIONS, fail('visibilityInvalid'))
+  .meta({ description: 'Unlisted polls are left out of listings; private polls are limited to eligible voters' });
+const statusSchema = z.enum(POLL_STATUSES, fail('statusInvalid'))
+  .meta({ description: 'Drafts are only visible to their creator' });
+const opensAtSchema = z.string(fail('opensAtInvalid'))
+  .meta({ description: 'ISO 8601 time voting opens; must be in the future and before expires_at' });
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+const listFlagSchema = z.enum(['true', 'false'], fail('listFlagInvalid'))
+  .transform(value => value === 'true');
+const listDateSchema = z.string(fail('dateRangeInvalid'))
+  .refine(date => !isNaN(Date.parse(date)), fail('dateRangeInvalid'));
+
+const searchQuerySchema = z.string(fail('searchQueryInvalid'))
+  .refine(query => normalizeSearchQuery(query) !== null, fail('searchQueryInvalid'))
+  .meta({ description: 'Words to search for in titles, descriptions and options; each matches the start of a word' });
+
+export const ListPollsQuerySchema = z.object({
+  cursor: z.string(fail('cursorInvalid'))
+    .max(500, fail('cursorInvalid'))
+    .optional()
+    .meta({ description: 'pagination.nextCursor from the previous page; omit for the first page' }),
+  limit: z.coerce.number(fail('limitInvalid'))
+    .int(fail('limitInvalid'))
+    .min(1, fail('limitInvalid'))
+    .max(MAX_POLL_LIST_LIMIT, fail('limitInvalid'))
+    .optional()
+    .meta({ description: 'Polls per page (default 10)' }),
+  sort: z.enum(POLL_LIST_SORTS, fail('sortInvalid'))
+    .default('newest')
+    .meta({ description: 'ending_soon lists open deadlines soonest first, then polls without one, and leaves out closed polls' }),
+  status: z.enum(POLL_LIST_STATUSES, fail('listStatusInvalid'))
+    .default('all')
+    .meta({ description: 'open: voting now; upcoming: scheduled to open; closed: closed by the creator or past expires_at' }),
+  creator: z.string(fail('creatorInvalid'))
+    .regex(UUID_PATTERN, fail('creatorInvalid'))
+    .optional()
+    .meta({ description: 'Only polls created by this user id' }),
+  mine: listFlagSchema.optional()
+    .meta({ description: 'Only polls created by the caller (sign-in required)' }),
+  voted: listFlagSchema.optional()
+    .meta({ description: 'Only polls the caller has voted on (sign-in required)' }),
+  created_after: listDateSchema.optional()
+    .meta({ description: 'Only polls created at or after this ISO 8601 time' }),
+  created_before: listDateSchema.optional()
+    .meta({ description: 'Only polls created before this ISO 8601 time' }),
+  q: searchQuerySchema.optional(),
+  tag: z.string(fail('tagInvalid'))
+    .refine(isTagSlug, fail('tagInvalid'))
+    .optional()
+    .meta({ description: 'Only polls with this tag or category (its slug)' }),
+}).refine(query => !query.cursor || decodePollCursor(query.cursor, query.sort) !== null, fail('cursorInvalid'));
+
+export const SearchPollsQuerySchema = z.object({
+  q: searchQuerySchema,
+  limit: z.coerce.number(fail('searchLimitInvalid'))
+    .int(fail('searchLimitInvalid'))
+    .min(1, fail('searchLimitInvalid'))
+    .max(MAX_SEARCH_RESULTS, fail('searchLimitInvalid'))
+    .optional()
+    .meta({ description: 'Maximum results (default 8)' }),
+}, fail('searchQueryInvalid'));
+
+export const ExportPollQuerySchema = z.object({
+  format: z.enum(POLL_EXPORT_FORMATS, fail('exportFormatInvalid'))
+    .default('csv')
+    .meta({ description: 'File format' }),
+});
+
+export const CreatePollRequestSchema = z.object({
+  title: z.string(fail('titleRequired'))
+    .refine(title => title.trim().length > 0, fail('titleRequired'))
+    .refine(title => sanitizeApiText(title).slice(0, MAX_CREATE_TITLE_LENGTH).length >= 3, fail('titleTooShort'))
+    .meta({ description: `HTML-sensitive characters are removed and the title is cut to ${MAX_CREATE_TITLE_LENGTH} characters` }),
+  description: z.string(fail('descriptionInvalid'))
+    .nullish()
+    .meta({ description: 'Cut to 1000 characters' }),
+  options: z.array(
+    z.string(fail('optionFormat'))
+      .min(1, fail('optionFormat'))
+      .refine(option => sanitizeApiText(option).length > 0, fail('optionEmpty')),
+    fail('optionsFormat')
+  )
+    .max(MAX_POLL_OPTIONS, fail('optionsTooMany'))
+    .refine(options => {
+      const texts = options.map(option => sanitizeApiText(option).slice(0, MAX_CREATE_OPTION_LENGTH));
+      return new Set(texts).size === texts.length;
+    }, fail('optionsDuplicate'))
+    .meta({ description: `Option texts in display order, each cut to ${MAX_CREATE_OPTION_LENGTH} characters; at least 2, or none for text polls` }),
+  poll_type: z.enum(POLL_TYPES, fail('pollTypeInvalid'))
+    .optional()
+    .meta({ description: 'standard (default): pick one or more options; ranked: order the options; text: written answers, no options' }),
+  allow_multiple_choices: z.boolean(fail('allowMultipleInvalid'))
+    .optional()
+    .meta({ description: 'Standard polls only; ignored for ranked and text polls' }),
+  allow_write_in: z.boolean(fail('writeInInvalid'))
+    .optional()
+    .meta({ description: 'Standard polls only: add an "Other (please specify)" choice' }),
+  expires_at: z.string(fail('expirationInvalid'))
+    .refine(expiresAt => !expiresAt || isValidExpiration(expiresAt), fail('expirationInvalid'))
+    .nullish()
+    .meta({ description: `ISO 8601 time the poll closes, at most ${MAX_EXPIRY_DAYS} days ahead; defaults to the site setting` }),
+  results_visibility: resultsVisibilitySchema.optional(),
+  visibility: visibilitySchema.optional(),
+  eligible_voters: z.array(z.string(fail('eligibleVotersInvalid')), fail('eligibleVotersInvalid'))
+    .optional()
+    .meta({ description: 'Emails or user ids allowed to vote on a private poll' }),
+  status: statusSchema.optional(),
+  opens_at: opensAtSchema.nullish(),
+  tags: z.array(z.string(fail('tagsInvalid')), fail('tagsInvalid'))
+    .refine(tags => !normalizeTagNames(tags).error, fail('tagsInvalid'))
+    .optional()
+    .meta({ description: 'Tag names; new tags are created, and names matching an existing tag\'s slug use that tag' }),
+}, fail('invalidBody'))
+  .refine(body => body.poll_type !== 'text' || body.options.length === 0, fail('textPollOptions'))
+  .refine(body => body.poll_type === 'text' || body.options.length >= 2, fail('optionsTooFew'))
+  .refine(body => !body.allow_write_in || (body.poll_type ?? 'standard') === 'standard', fail('writeInNotStandard'))
+  .register(apiRequestSchemas, { id: 'CreatePollRequest' });
+
+export const UpdatePollRequestSchema = z.object({
+  title: z.string(fail('editTitleRequired'))
+    .refine(title => title.trim().length > 0, fail('editTitleRequired'))
+    .max(200, fail('editTitleTooLong'))
+    .optional(),
+  description: z.string(fail('descriptionInvalid'))
+    .max(1000, fail('editDescriptionTooLong'))
+    .nullish(),
+  options: z.array(
+    z.object({
+      id: z.string(fail('editOptionId')).optional()
+        .meta({ description: 'Id of an existing option to keep; omit for a new option' }),
+      text: z.string(fail('editOptionText'))
+        .refine(text => text.trim().length > 0, fail('editOptionText'))
+        .max(200, fail('editOptionTooLong')),
+    }, fail('editOptionText')),
+    fail('editOptionsTooFew')
+  )
+    .min(2, fail('editOptionsTooFew'))
+    .max(MAX_POLL_OPTIONS, fail('editOptionsTooMany'))
+    .optional()
+    .meta({ description: 'The full new option list. Votes for removed options are invalidated and the edit is recorded as a revision' }),
+  is_active: z.boolean(fail('isActiveInvalid')).optional()
+    .meta({ description: 'Set to false to close the poll, or true to reopen it' }),
+  expires_at: z.string(fail('editExpirationInvalid'))
+    .refine(expiresAt => !expiresAt || !isNaN(Date.parse(expiresAt)), fail('editExpirationInvalid'))
+    .nullish(),
+  results_visibility: resultsVisibilitySchema.optional(),
+  visibility: visibilitySchema.optional(),
+  status: statusSchema.optional()
+    .meta({ description: 'A published poll cannot go back to draft' }),
+  opens_at: opensAtSchema.nullish(),
+}, fail('invalidBody')).register(apiRequestSchemas, { id: 'UpdatePollRequest' });
+
+export const VoteRequestSchema = z.object({
+  option_ids: z.array(
+    z.string(fail('voteOptionId')).regex(UUID_PATTERN, fail('voteOptionId')),
+    fail('voteNoOptions')
+  )
+    .min(1, fail('voteNoOptions'))
+    .max(MAX_POLL_OPTIONS, fail('voteTooManyOptions'))
+    .meta({ description: 'Chosen option ids; for ranked polls, every ranked option from first to last preference' }),
+}, fail('invalidBody')).register(apiRequestSchemas, { id: 'VoteRequest' });
+
+// ---------------------------------------------------------------------------
+// Responses
+// ---------------------------------------------------------------------------
+
+export const ApiErrorSchema = z.object({
+  error: z.string().meta({ description: 'Human-readable message' }),
+  code: z.string().meta({ description: 'Stable UPPER_SNAKE_CASE error code' }),
+  requestId: z.string().optional(),
+}).register(apiResponseSchemas, { id: 'Error' });
+
+const PollCreatorSchema = z.object({
+  id: z.string(),
+  username: z.string().nullish(),
+  avatar_url: z.string().nullish(),
+}).register(apiResponseSchemas, { id: 'PollCreator' });
+
+export const PollTagSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  slug: z.string().meta({ description: 'Use as the tag filter of GET /polls' }),
+  is_category: z.boolean().meta({ description: 'True for official categories curated by admins' }),
+}).register(apiResponseSchemas, { id: 'PollTag' });
+
+export const PollOptionResultSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  order_index: z.number().int(),
+  vote_count: z.number().int().nullable()
+    .meta({ description: 'null while results_visibility hides counts from the caller' }),
+}).register(apiResponseSchemas, { id: 'PollOptionResult' });
+
+export const PollSummarySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().nullish(),
+  creator_id: z.string(),
+  is_active: z.boolean(),
+  allow_multiple_choices: z.boolean(),
+  results_visibility: z.enum(RESULTS_VISIBILITY_OPTIONS),
+  expires_at: z.string().nullish(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  creator: PollCreatorSchema.nullable(),
+  options: z.array(PollOptionResultSchema),
+  total_votes: z.number().int().nullable(),
+  results_hidden: z.boolean(),
+  tags: z.array(PollTagSchema).meta({ description: 'Categories first, then by name' }),
+}).register(apiResponseSchemas, { id: 'PollSummary' });
+
+export const PollDetailSchema = PollSummarySchema.extend({
+  poll_type: z.enum(POLL_TYPES),
+  visibility: z.enum(POLL_VISIBILITY_OPTIONS),
+  status: z.enum(POLL_STATUSES),
+  opens_at: z.string().nullish(),
+  user_votes: z.array(z.string()).meta({ description: "Option ids the caller voted for" }),
+  is_expired: z.boolean(),
+}).register(apiResponseSchemas, { id: 'PollDetail' });
+
+export const ListPollsResponseSchema = z.object({
+  polls: z.array(PollSummarySchema),
+  pagination: z.object({
+    limit: z.number().int(),
+    nextCursor: z.string().nullable().meta({ description: 'Pass as cursor to get the next page; null on the last page' }),
+    hasMore: z.boolean(),
+  }),
+  requestId: z.string(),
+}).register(apiResponseSchemas, { id: 'ListPollsResponse' });
+
+export const HighlightSegmentSchema = z.object({
+  text: z.string(),
+  match: z.boolean().meta({ description: 'True for text that matched the query' }),
+}).register(apiResponseSchemas, { id: 'HighlightSegment' });
+
+export const PollSearchResultSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  created_at: z.string(),
+  expires_at: z.string().nullish(),
+  rank: z.number().meta({ description: 'Relevance; higher is better' }),
+  title_highlight: z.array(HighlightSegmentSchema).meta({ description: 'The title, split around matched words' }),
+  snippet: z.array(HighlightSegmentSchema)
+    .meta({ description: 'Matching fragments of the description and options; empty when only the title matched' }),
+}).register(apiResponseSchemas, { id: 'PollSearchResult' });
+
+export const SearchPollsResponseSchema = z.object({
+  results: z.array(PollSearchResultSchema),
+  query: z.string(),
+  requestId: z.string(),
+}).register(apiResponseSchemas, { id: 'SearchPollsResponse' });
+
+export const PollResponseSchema = z.object({
+  poll: PollDetailSchema,
+  requestId: z.string(),
+}).register(apiResponseSchemas, { id: 'PollResponse' });
+
+export const CreatePollResponseSchema = z.object({
+  message: z.string(),
+  poll: z.object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string().nullish(),
+    creator_id: z.string(),
+    is_active: z.boolean(),
+    allow_multiple_choices: z.boolean(),
+    poll_type: z.enum(POLL_TYPES),
+    allow_write_in: z.boolean(),
+    expires_at: z.string().nullish(),
+    created_at: z.string(),
+    updated_at: z.string(),
+    creator: PollCreatorSchema.nullable(),
+    options: z.array(z.object({ id: z.string(), text: z.string(), order_index: z.number().int() })),
+    tags: z.array(PollTagSchema),
+  }),
+  requestId: z.string(),
+}).register(apiResponseSchemas, { id: 'CreatePollResponse' });
+
+export const UpdatePollResponseSchema = z.object({
+  message: z.string(),
+  poll: z.looseObject({
+    id: z.string(),
+    title: z.string(),
+    is_active: z.boolean(),
+    creator: PollCreatorSchema.nullable(),
+    options: z.array(z.looseObject({ id: z.string(), text: z.string(), order_index: z.number().int() })),
+  }).meta({ description: 'The updated poll row with its creator and options' }),
+  revision: z.object({
+    changed: z.boolean().optional(),
+    revision_number: z.number().int().nullish(),
+    invalidated_votes: z.number().int().optional(),
+  }).nullable().meta({ description: 'Set when the title, description or options were edited' }),
+  requestId: z.string(),
+}).register(apiResponseSchemas, { id: 'UpdatePollResponse' });
+
+export const DeletePollResponseSchema = z.object({
+  message: z.string(),
+  requestId: z.string(),
+  deleted_poll_id: z.string(),
+  had_votes: z.boolean(),
+}).register(apiResponseSchemas, { id: 'DeletePollResponse' });
+
+export const VoteResponseSchema = z.object({
+  message: z.string(),
+  requestId: z.string(),
+  poll_id: z.string(),
+  voted_options: z.array(z.string()),
+  user_votes: z.array(z.string()),
+  total_votes: z.number().int().nullable(),
+  results_hidden: z.boolean(),
+  processing_time_ms: z.number(),
+}).register(apiResponseSchemas, { id: 'VoteResponse' });
@@ -0,0 +1,173 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+
+/**
+ * ⚙️ APPLICATION SETTINGS LOADER
+ *
+ * Typed, cached access to the admin-managed `app_settings` rows for server
+ * code (Server Actions and API routes). Values are read through the
+ * `get_app_setting` database function so the checks also work for regular
+ * users and anonymous voters, merged over defaults so a missing or partial
+ * row never breaks enforcement, and cached in memory for a short period.
+ *
+ * USAGE IN CODEBASE:
+ * - Read by: lib/actions/poll.ts, lib/actions/vote.ts, app/api/polls routes,
+ *   app/api/auth routes (via lib/auth-policy.ts), lib/rate-limit.ts
+ * - Invalidated by: lib/actions/admin/settings.ts (updateAppSettings)
+ */
+
+export interface GeneralSettings {
+  app_name: string;
+  max_polls_per_user: number;
+  allow_anonymous_voting: boolean;
+  default_poll_expiry_days: number;
+}
+
+export interface SecuritySettings {
+  min_password_length: number;
+  require_password_complexity: boolean;
+  require_email_verification: boolean;
+  max_login_attempts: number;
+  lockout_duration_minutes: number;
+  session_timeout_hours: number;
+  enable_two_factor: boolean;
+  require_two_factor_for_admins: boolean;
+}
+
+export interface EmailValidationSettings {
+  allowed_domains: string[];
+  block_disposable: boolean;
+  custom_regex?: string | null;
+}
+
+export interface RateLimitRule {
+  max_requests: number;
+  window_seconds: number;
+}
+
+export interface RateLimitSettings {
+  poll_creation: RateLimitRule;
+  vote: RateLimitRule;
+  login: RateLimitRule;
+}
+
+export interface AppSettings {
+  general: GeneralSettings;
+  security: SecuritySettings;
+  email_validation: EmailValidationSettings;
+  rate_limits: RateLimitSettings;
+}
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  general: {
+    app_name: 'Polling App',
+    max_polls_per_user: 50,
+    allow_anonymous_voting: true,
+    default_poll_expiry_days: 30,
+  },
+  security: {
+    min_password_length: 8,
+    require_password_complexity: true,
+    require_email_verification: true,
+    max_login_attempts: 5,
+    lockout_duration_minutes: 30,
+    session_timeout_hours: 24,
+    enable_two_factor: false,
+    require_two_factor_for_admins: false,
+  },
+  email_validation: {
+    allowed_domains: [],
+    block_disposable: true,
+    custom_regex: null,
+  },
+  rate_limits: {
+    poll_creation: { max_requests: 5, window_seconds: 60 * 60 },
+    vote: { max_requests: 3, window_seconds: 60 },
+    login: { max_requests: 10, window_seconds: 15 * 60 },
+  },
+};
+
+const SETTINGS_CACHE_TTL_MS = 60 * 1000; // 1 minute
+
+const settingsCache = new Map<keyof AppSettings, { value: unknown; expiresAt: number }>();
+
+/**
+ * Get a typed settings group, falling back to defaults for missing fields
+ */
+export async function getAppSetting<K extends keyof AppSettings>(key: K): Promise<AppSettings[K]> {
+  const cached = settingsCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value as AppSettings[K];
+  }
+
+  let stored: Partial<AppSettings[K]> | null = null;
+
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase.rpc('get_app_setting', { setting_key: key });
+
+    if (error) {
+      console.error(`Error loading app setting "${key}":`, error);
+    } else {
+      stored = data;
+    }
+  } catch (error) {
+    console.error(`Error loading app setting "${key}":`, error);
+  }
+
+  const value = { ...DEFAULT_APP_SETTINGS[key], ...(stored || {}) } as AppSettings[K];
+  settingsCache.set(key, { value, expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS });
+
+  return value;
+}
+
+/**
+ * Get the general settings (poll limits, anonymous voting, default expiry)
+ */
+export async function getGeneralSettings(): Promise<GeneralSettings> {
+  return getAppSetting('general');
+}
+
+/**
+ * Get the security settings (password policy, login lockout, 2FA)
+ */
+export async function getSecuritySettings(): Promise<SecuritySettings> {
+  return getAppSetting('security');
+}
+
+/**
+ * Get the email validation rules applied at registration
+ */
+export async function getEmailValidationSettings(): Promise<EmailValidationSettings> {
+  return getAppSetting('email_validation');
+}
+
+/**
+ * Get the request rate limits (poll creation, voting, login)
+ */
+export async function getRateLimitSettings(): Promise<RateLimitSettings> {
+  return getAppSetting('rate_limits');
+}
+
+/**
+ * Drop cached settings so the next read reflects an admin update
+ */
+export function invalidateAppSettingsCache(key?: keyof AppSettings): void {
+  if (key) {
+    settingsCache.delete(key);
+  } else {
+    settingsCache.clear();
+  }
+}
+
+/**
+ * Calculate the default expiry date for a new poll, or null when disabled.
+ * Scheduled polls count from their opening time rather than from now.
+ */
+export function getDefaultPollExpiry(settings: GeneralSettings, opensAt?: string | null): string | null {
+  if (!settings.default_poll_expiry_days || settings.default_poll_expiry_days <= 0) {
+    return null;
+  }
+
+  const start = opensAt ? new Date(opensAt).getTime() : Date.now();
+  return new Date(start + settings.default_poll_expiry_days * 24 * 60 * 60 * 1000).toISOString();
+}
@@ -0,0 +1,174 @@
+import {
+  EmailValidationSettings,
+  SecuritySettings,
+  getEmailValidationSettings,
+  getSecuritySettings,
+} from '@/lib/app-settings';
+import { isDisposableEmailDomain } from '@/lib/disposable-email-domains';
+import { createSupabaseServerClient, createSupabaseServiceClient } from '@/lib/supabase-server';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+type SupabaseServiceClient = ReturnType<typeof createSupabaseServiceClient>;
+
+/**
+ * 🛡️ AUTHENTICATION POLICY ENFORCEMENT
+ *
+ * Applies the admin-managed `security` and `email_validation` settings to
+ * registration and login. Validators return a code alongside the message so
+ * API routes can keep their `{ error, code }` response shape.
+ *
+ * USAGE IN CODEBASE:
+ * - app/api/auth/register/route.ts (email + password policy)
+ * - app/api/auth/login/route.ts (account lockout)
+ *
+ * Lockout state lives on `profiles` and is maintained by SECURITY DEFINER
+ * functions (see 20261019092000_account_lockout.sql). Checking and recording
+ * lockouts by email is granted to service_role only, so those helpers take
+ * the service client; otherwise anyone could lock out any account or probe
+ * which emails are registered.
+ *
+ * Supabase Auth can enforce the same lockout for every sign-in through the
+ * password verification hook (20261019125000_password_verification_hook.sql).
+ * Set `AUTH_PASSWORD_HOOK_ENABLED=true` once it is enabled so the login route
+ * stops counting the failures the hook already counts.
+ */
+
+export interface PolicyResult {
+  isValid: boolean;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * Validate an email address against the email validation settings
+ */
+export function validateEmailPolicy(email: string, settings: EmailValidationSettings): PolicyResult {
+  const domain = email.split('@')[1]?.toLowerCase() || '';
+
+  const allowedDomains = (settings.allowed_domains || []).map(d => d.toLowerCase().trim()).filter(Boolean);
+  if (allowedDomains.length > 0 && !allowedDomains.includes(domain)) {
+    return {
+      isValid: false,
+      error: 'Registration is restricted to approved email domains',
+      code: 'EMAIL_DOMAIN_NOT_ALLOWED',
+    };
+  }
+
+  if (settings.block_disposable && isDisposableEmailDomain(domain)) {
+    return {
+      isValid: false,
+      error: 'Disposable email addresses are not allowed',
+      code: 'DISPOSABLE_EMAIL',
+    };
+  }
+
+  if (settings.custom_regex) {
+    try {
+      if (!new RegExp(settings.custom_regex).test(email)) {
+        return {
+          isValid: false,
+          error: 'This email address is not allowed',
+          code: 'EMAIL_PATTERN_MISMATCH',
+        };
+      }
+    } catch {
+      // An invalid pattern should never lock everyone out of registration
+      console.error('[AUTH] Invalid custom email regex in app settings:', settings.custom_regex);
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validate a password against the security settings
+ */
+export function validatePasswordPolicy(password: string, settings: SecuritySettings): PolicyResult {
+  if (password.length < settings.min_password_length) {
+    return {
+      isValid: false,
+      error: `Password must be at least ${settings.min_password_length} characters long`,
+      code: 'PASSWORD_TOO_SHORT',
+    };
+  }
+
+  if (settings.require_password_complexity) {
+    const hasUpperCase = /[A-Z]/.test(password);
+    const hasLowerCase = /[a-z]/.test(password);
+    const hasNumbers = /\d/.test(password);
+
+    if (!hasUpperCase || !hasLowerCase || !hasNumbers) {
+      return {
+        isValid: false,
+        error: 'Password must contain at least one uppercase letter, one lowercase letter, and one number',
+        code: 'PASSWORD_TOO_WEAK',
+      };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validate registration details against the live policy
+ */
+export async function validateRegistrationPolicy(email: string, password: string): Promise<PolicyResult> {
+  const [emailSettings, securitySettings] = await Promise.all([
+    getEmailValidationSettings(),
+    getSecuritySettings(),
+  ]);
+
+  const emailResult = validateEmailPolicy(email, emailSettings);
+  if (!emailResult.isValid) {
+    return emailResult;
+  }
+
+  return validatePasswordPolicy(password, securitySettings);
+}
+
+/**
+ * Whether Supabase Auth counts wrong passwords through the password verification hook
+ */
+export function isPasswordHookEnabled(): boolean {
+  return process.env.AUTH_PASSWORD_HOOK_ENABLED === 'true';
+}
+
+/**
+ * Get the lockout expiry for an account, or null when it is not locked
+ */
+export async function getAccountLockout(supabase: SupabaseServiceClient, email: string): Promise<Date | null> {
+  const { data, error } = await supabase.rpc('get_account_lockout', { user_email: email });
+
+  if (error) {
+    console.error('[AUTH] Lockout check failed:', error);
+    return null;
+  }
+
+  return data ? new Date(data) : null;
+}
+
+/**
+ * Record a failed login; returns the lockout expiry if the account is now locked.
+ * The attempt limit and lockout duration come from the security settings.
+ */
+export async function recordFailedLogin(supabase: SupabaseServiceClient, email: string): Promise<Date | null> {
+  const { data, error } = await supabase.rpc('record_failed_login', { user_email: email });
+
+  if (error) {
+    console.error('[AUTH] Failed to record login failure:', error);
+    return null;
+  }
+
+  return data ? new Date(data) : null;
+}
+
+/**
+ * Reset the failed login counter for the user signed in on this client
+ */
+export async function resetFailedLogins(supabase: SupabaseServerClient): Promise<void> {
+  const { error } = await supabase.rpc('reset_failed_logins');
+
+  if (error) {
+    console.error('[AUTH] Failed to reset login failures:', error);
+  }
+}
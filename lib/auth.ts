@@ -2,10 +2,14 @@
 
 import { createSupabaseServerClient } from '@/lib/supabase-server';
 import { redirect } from 'next/navigation';
+import { getSecuritySettings } from '@/lib/app-settings';
+import { getTwoFactorStatus } from '@/lib/two-factor';
 
 /**
  * Verifies that the current user has admin privileges
- * If not, redirects to unauthorized page or login
+ * If not, redirects to unauthorized page or login.
+ * When the security settings require 2FA for admins, admins without it are
+ * sent to set it up, and sessions that skipped the 2FA challenge are refused.
  */
 export async function requireAdmin() {
   const supabase = await createSupabaseServerClient();
@@ -27,6 +31,23 @@ export async function requireAdmin() {
     redirect('/unauthorized');
   }
   
+  const securitySettings = await getSecuritySettings();
+  if (securitySettings.enable_two_factor && securitySettings.require_two_factor_for_admins) {
+    const twoFactor = await getTwoFactorStatus(supabase);
+    
+    if (!twoFactor) {
+      redirect('/unauthorized');
+    }
+    
+    if (!twoFactor.enabled) {
+      redirect('/settings/security?setup=required');
+    }
+    
+    if (!twoFactor.session_verified) {
+      redirect('/unauthorized');
+    }
+  }
+  
   // Return both user and profile data for convenience
   return { user: session.user, profile };
 }
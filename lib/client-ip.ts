@@ -0,0 +1,26 @@
+/**
+ * 🌐 CLIENT IP ADDRESS
+ *
+ * Works out the client's IP address from the headers set by the proxy in
+ * front of the app. Clients can send their own `x-forwarded-for` and the
+ * proxy appends the address it saw to the end, so only the last entry can
+ * be trusted; leftmost entries must never key rate limits or identify
+ * anonymous voters.
+ *
+ * USAGE IN CODEBASE:
+ * - app/api/auth/login (login rate limit)
+ * - app/api/polls, app/api/polls/[id], app/api/polls/[id]/vote and
+ *   app/api/polls/[id]/audit routes
+ * - lib/actions/poll.ts, lib/actions/vote.ts, lib/actions/survey.ts
+ */
+
+/**
+ * The address appended by the proxy: the last `x-forwarded-for` entry,
+ * then `x-real-ip`, otherwise `'unknown'`
+ */
+export function getClientIp(headers: Headers): string {
+  const forwardedFor = headers.get('x-forwarded-for');
+  const proxyAppended = forwardedFor?.split(',').map(entry => entry.trim()).filter(Boolean).pop();
+
+  return proxyAppended || headers.get('x-real-ip')?.trim() || 'unknown';
+}
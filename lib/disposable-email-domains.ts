@@ -0,0 +1,85 @@
+/**
+ * Bundled list of well-known disposable / temporary email providers.
+ *
+ * Used by lib/auth-policy.ts when the `block_disposable` email validation
+ * setting is enabled. Subdomains of these domains are blocked as well.
+ */
+export const DISPOSABLE_EMAIL_DOMAINS: ReadonlySet<string> = new Set([
+  '10minutemail.com',
+  '10minutemail.net',
+  '20minutemail.com',
+  '33mail.com',
+  'anonbox.net',
+  'burnermail.io',
+  'discard.email',
+  'discardmail.com',
+  'dispostable.com',
+  'dropmail.me',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'fakemail.net',
+  'getairmail.com',
+  'getnada.com',
+  'guerrillamail.biz',
+  'guerrillamail.com',
+  'guerrillamail.de',
+  'guerrillamail.info',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'guerrillamailblock.com',
+  'harakirimail.com',
+  'inboxbear.com',
+  'incognitomail.org',
+  'jetable.org',
+  'mailcatch.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailinator.net',
+  'mailinator2.com',
+  'mailnesia.com',
+  'mailpoof.com',
+  'mailsac.com',
+  'mintemail.com',
+  'mohmal.com',
+  'moakt.com',
+  'mytemp.email',
+  'mytrashmail.com',
+  'nada.email',
+  'sharklasers.com',
+  'spam4.me',
+  'spambox.us',
+  'spamgourmet.com',
+  'temp-mail.io',
+  'temp-mail.org',
+  'tempail.com',
+  'tempinbox.com',
+  'tempmail.com',
+  'tempmail.dev',
+  'tempmail.net',
+  'tempmailo.com',
+  'tempr.email',
+  'throwawaymail.com',
+  'trash-mail.com',
+  'trashmail.com',
+  'trashmail.de',
+  'trashmail.net',
+  'wegwerfmail.de',
+  'yopmail.com',
+  'yopmail.fr',
+  'yopmail.net',
+]);
+
+/**
+ * Check whether an email domain (or one of its parent domains) is disposable
+ */
+export function isDisposableEmailDomain(domain: string): boolean {
+  const parts = domain.toLowerCase().split('.');
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    if (DISPOSABLE_EMAIL_DOMAINS.has(parts.slice(i).join('.'))) {
+      return true;
+    }
+  }
+
+  return false;
+}
@@ -1,9 +1,34 @@
-import { resend, emailConfig, EmailNotificationResult, EmailTemplateData } from '@/lib/resend';
+import { emailConfig, DigestEmailData, EmailNotificationResult, EmailTemplateData } from '@/lib/resend';
+import { sendEmail } from '@/lib/email-transport';
+import { createUnsubscribeLinks } from '@/lib/unsubscribe';
+import { createInAppNotification, getNotificationChannels, NotificationChannels, sendsEmail, sendsInApp } from '@/lib/notifications';
 import { generatePollExpiringEmail, generatePollExpiredEmail } from '@/lib/email-templates/poll-notifications';
+import { generateDigestEmail } from '@/lib/email-templates/digest';
 import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { AppNotificationType } from '@/types/database';
 
 export type NotificationType = 'expiring_24h' | 'expiring_2h' | 'expired';
 
+export type NotificationFrequency = 'instant' | 'daily' | 'weekly';
+
+/**
+ * Digest section each notification type is listed under
+ */
+const DIGEST_ITEM_TYPES: Record<NotificationType, 'closing_soon' | 'results'> = {
+  expiring_24h: 'closing_soon',
+  expiring_2h: 'closing_soon',
+  expired: 'results',
+};
+
+/**
+ * Notification center type each email notification type is filed under
+ */
+const APP_NOTIFICATION_TYPES: Record<NotificationType, AppNotificationType> = {
+  expiring_24h: 'poll_closing',
+  expiring_2h: 'poll_closing',
+  expired: 'poll_results',
+};
+
 export interface NotificationData {
   userId: string;
   pollId: string;
@@ -31,10 +56,23 @@ export class EmailNotificationService {
   }
 
   /**
-   * Send a poll expiration notification
+   * Send a poll expiration notification, or queue it for the user's next
+   * digest when they chose daily or weekly emails. The notification is also
+   * added to the user's notification center unless they turned that off.
    */
   async sendPollExpirationNotification(data: NotificationData): Promise<EmailNotificationResult> {
     try {
+      const { frequency, channels } = await this.getNotificationPreferences(data.userId);
+      const channel = channels[APP_NOTIFICATION_TYPES[data.notificationType]];
+
+      if (sendsInApp(channel)) {
+        await this.createInAppNotification(data);
+      }
+
+      if (!sendsEmail(channel)) {
+        return { success: true, messageId: 'email_disabled' };
+      }
+
       // Check if notification was already sent
       const alreadySent = await this.wasNotificationSent(
         data.userId, 
@@ -46,11 +84,21 @@ export class EmailNotificationService {
         return { success: true, messageId: 'already_sent' };
       }
 
+      if (frequency !== 'instant') {
+        const queued = await this.queueDigestItem(data);
+        return queued
+          ? { success: true, messageId: 'queued_for_digest' }
+          : { success: false, error: 'Failed to queue digest notification' };
+      }
+
+      // Every email carries a one-click link that stops this poll's emails
+      const unsubscribe = await createUnsubscribeLinks(await this.getSupabase(), data.userId, data.pollId);
+
       // Generate email content based on type
-      const emailContent = this.generateEmailContent(data);
+      const emailContent = this.generateEmailContent(data, unsubscribe?.pageUrl);
       
-      // Send email via Resend
-      const result = await resend.emails.send({
+      // Send email via the configured transport
+      const result = await sendEmail({
         from: emailConfig.from,
         to: data.userEmail,
         subject: emailContent.subject,
@@ -61,18 +109,18 @@ export class EmailNotificationService {
           { name: 'type', value: 'poll_notification' },
           { name: 'notification_type', value: data.notificationType },
           { name: 'poll_id', value: data.pollId }
-        ]
+        ],
+        headers: unsubscribe?.headers
       });
 
-      if (result.error) {
-        console.error('Resend email error:', result.error);
-        return { success: false, error: result.error.message };
+      if (!result.success) {
+        return result;
       }
 
       // Track notification as sent
-      await this.trackNotificationSent(data, result.data?.id);
+      await this.trackNotificationSent(data, result.messageId);
 
-      return { success: true, messageId: result.data?.id };
+      return result;
     } catch (error) {
       console.error('Email notification error:', error);
       return { 
@@ -82,16 +130,47 @@ export class EmailNotificationService {
     }
   }
 
+  /**
+   * Send a daily or weekly digest summarising a user's poll activity
+   */
+  async sendDigestEmail(userId: string, userEmail: string, data: DigestEmailData): Promise<EmailNotificationResult> {
+    try {
+      const unsubscribe = await createUnsubscribeLinks(await this.getSupabase(), userId);
+      const emailContent = generateDigestEmail({ ...data, unsubscribeUrl: unsubscribe?.pageUrl });
+
+      return await sendEmail({
+        from: emailConfig.from,
+        to: userEmail,
+        subject: emailContent.subject,
+        html: emailContent.html,
+        text: emailContent.text,
+        replyTo: emailConfig.replyTo,
+        tags: [
+          { name: 'type', value: 'digest' },
+          { name: 'frequency', value: data.frequency }
+        ],
+        headers: unsubscribe?.headers
+      });
+    } catch (error) {
+      console.error('Digest email error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Generate email content based on notification type
    */
-  private generateEmailContent(data: NotificationData) {
+  private generateEmailContent(data: NotificationData, unsubscribeUrl?: string) {
     const templateData: EmailTemplateData = {
       pollTitle: data.pollTitle,
       pollUrl: data.pollUrl,
       userName: data.userName,
       expiresAt: data.expiresAt.toLocaleDateString(),
-      timeUntilExpiry: this.getTimeUntilExpiry(data.expiresAt, data.notificationType)
+      timeUntilExpiry: this.getTimeUntilExpiry(data.expiresAt, data.notificationType),
+      unsubscribeUrl
     };
 
     switch (data.notificationType) {
@@ -151,6 +230,86 @@ export class EmailNotificationService {
     }
   }
 
+  /**
+   * Get how often a user wants notification emails and which channels they
+   * chose for each notification type
+   */
+  private async getNotificationPreferences(
+    userId: string
+  ): Promise<{ frequency: NotificationFrequency; channels: NotificationChannels }> {
+    try {
+      const supabase = await this.getSupabase();
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('notification_frequency, notification_channels')
+        .eq('id', userId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching notification preferences:', error);
+        return { frequency: 'instant', channels: getNotificationChannels(null) };
+      }
+
+      return {
+        frequency: data?.notification_frequency === 'daily' || data?.notification_frequency === 'weekly'
+          ? data.notification_frequency
+          : 'instant',
+        channels: getNotificationChannels(data?.notification_channels),
+      };
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+      return { frequency: 'instant', channels: getNotificationChannels(null) };
+    }
+  }
+
+  /**
+   * Add a poll notification to the user's notification center. Each
+   * notification is created once, however often this runs.
+   */
+  private async createInAppNotification(data: NotificationData): Promise<void> {
+    const closing = data.notificationType !== 'expired';
+
+    await createInAppNotification(await this.getSupabase(), {
+      userId: data.userId,
+      type: APP_NOTIFICATION_TYPES[data.notificationType],
+      pollId: data.pollId,
+      title: closing ? `"${data.pollTitle}" closes soon` : `Results are in for "${data.pollTitle}"`,
+      body: closing
+        ? `Voting closes ${this.getTimeUntilExpiry(data.expiresAt, data.notificationType)}`
+        : 'Voting has ended',
+      link: `/polls/${data.pollId}`,
+      dedupeKey: `${data.notificationType}:${data.pollId}`,
+    });
+  }
+
+  /**
+   * Queue a notification for the user's next digest. Queuing the same
+   * notification twice is a no-op.
+   */
+  private async queueDigestItem(data: NotificationData): Promise<boolean> {
+    try {
+      const supabase = await this.getSupabase();
+      const { error } = await supabase
+        .from('notification_digest_items')
+        .upsert({
+          user_id: data.userId,
+          poll_id: data.pollId,
+          item_type: DIGEST_ITEM_TYPES[data.notificationType],
+          notification_type: data.notificationType,
+        }, { onConflict: 'user_id,poll_id,notification_type', ignoreDuplicates: true });
+
+      if (error) {
+        console.error('Error queueing digest item:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error queueing digest item:', error);
+      return false;
+    }
+  }
+
   /**
    * Track that a notification was sent
    */
@@ -0,0 +1,149 @@
+import { DigestEmailData, DigestPollItem } from '@/lib/resend';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderSectionHtml(emoji: string, heading: string, items: DigestPollItem[]): string {
+  if (items.length === 0) return '';
+
+  return `
+            <h2><span class="emoji">${emoji}</span>${heading}</h2>
+            ${items.map(item => `
+            <div class="poll-info">
+              <a href="${item.pollUrl}"><strong>${escapeHtml(item.pollTitle)}</strong></a>
+              <p>${escapeHtml(item.detail)}</p>
+            </div>`).join('')}
+  `;
+}
+
+function renderSectionText(heading: string, items: DigestPollItem[]): string {
+  if (items.length === 0) return '';
+
+  return `
+      ${heading}
+${items.map(item => `      - ${item.pollTitle}: ${item.detail} (${item.pollUrl})`).join('\n')}
+  `;
+}
+
+/**
+ * One summary email covering a user's queued poll notifications and the new
+ * votes on their own polls since their previous digest
+ */
+export function generateDigestEmail(data: DigestEmailData) {
+  const { userName, frequency, newVotes, opened, closingSoon, results } = data;
+  const settingsUrl = `${process.env.NEXT_PUBLIC_APP_URL}/settings/notifications`;
+  const unsubscribeUrl = data.unsubscribeUrl || settingsUrl;
+  const period = frequency === 'weekly' ? 'week' : 'day';
+  const title = frequency === 'weekly' ? 'Your Weekly Poll Summary' : 'Your Daily Poll Digest';
+  const total = newVotes.length + opened.length + closingSoon.length + results.length;
+
+  return {
+    subject: `📬 ${title}: ${total} ${total === 1 ? 'update' : 'updates'}`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${title}</title>
+          <style>
+            body {
+              font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+              line-height: 1.6;
+              color: #333;
+              max-width: 600px;
+              margin: 0 auto;
+              padding: 20px;
+            }
+            .header {
+              background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+              color: white;
+              padding: 30px 20px;
+              border-radius: 10px 10px 0 0;
+              text-align: center;
+            }
+            .content {
+              background: #ffffff;
+              padding: 30px 20px;
+              border: 1px solid #e1e5e9;
+              border-top: none;
+            }
+            .content h2 {
+              font-size: 18px;
+              margin: 24px 0 8px;
+            }
+            .footer {
+              background: #f8f9fa;
+              padding: 20px;
+              border-radius: 0 0 10px 10px;
+              border: 1px solid #e1e5e9;
+              border-top: none;
+              text-align: center;
+              font-size: 14px;
+              color: #6c757d;
+            }
+            .poll-info {
+              background: #f8f9fa;
+              padding: 12px 16px;
+              border-radius: 8px;
+              margin: 8px 0;
+              border-left: 4px solid #667eea;
+            }
+            .poll-info a {
+              color: #333;
+              text-decoration: none;
+            }
+            .poll-info p {
+              margin: 4px 0 0;
+              font-size: 14px;
+              color: #6c757d;
+            }
+            .emoji {
+              font-size: 20px;
+              margin-right: 8px;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <h1><span class="emoji">📬</span>${title}</h1>
+          </div>
+
+          <div class="content">
+            <p>Hi ${escapeHtml(userName)}!</p>
+
+            <p>Here's what happened with your polls this ${period}.</p>
+            ${renderSectionHtml('🗳️', 'New votes on your polls', newVotes)}
+            ${renderSectionHtml('🚀', 'Now open for voting', opened)}
+            ${renderSectionHtml('⏰', 'Closing soon', closingSoon)}
+            ${renderSectionHtml('📊', 'Results published', results)}
+          </div>
+
+          <div class="footer">
+            <p>
+              <strong>Polly App</strong> - Making decision-making collaborative<br>
+              You're receiving a ${frequency} digest.
+              <a href="${settingsUrl}" style="color: #6c757d;">Change how often you hear from us</a> | 
+              <a href="${unsubscribeUrl}" style="color: #6c757d;">Unsubscribe from all emails</a>
+            </p>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `
+      Hi ${userName}!
+
+      Here's what happened with your polls this ${period}.
+      ${renderSectionText('New votes on your polls', newVotes)}${renderSectionText('Now open for voting', opened)}${renderSectionText('Closing soon', closingSoon)}${renderSectionText('Results published', results)}
+      ---
+      Polly App - Making decision-making collaborative
+      Manage notifications: ${settingsUrl}
+      Unsubscribe from all emails: ${unsubscribeUrl}
+    `
+  };
+}
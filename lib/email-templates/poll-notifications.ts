@@ -2,6 +2,7 @@ import { EmailTemplateData } from '@/lib/resend';
 
 export function generatePollExpiringEmail(data: EmailTemplateData) {
   const { pollTitle, pollUrl, userName, timeUntilExpiry } = data;
+  const unsubscribeUrl = data.unsubscribeUrl || `${process.env.NEXT_PUBLIC_APP_URL}/settings/notifications`;
   
   return {
     subject: `⏰ Poll "${pollTitle}" expires ${timeUntilExpiry}`,
@@ -108,7 +109,7 @@ export function generatePollExpiringEmail(data: EmailTemplateData) {
           <div class="footer">
             <p>
               <strong>Polly App</strong> - Making decision-making collaborative<br>
-              <a href="${pollUrl}/unsubscribe" style="color: #6c757d;">Unsubscribe from this poll</a> | 
+              <a href="${unsubscribeUrl}" style="color: #6c757d;">Unsubscribe from this poll</a> | 
               <a href="${process.env.NEXT_PUBLIC_APP_URL}/settings/notifications" style="color: #6c757d;">Manage all notifications</a>
             </p>
           </div>
@@ -124,7 +125,7 @@ export function generatePollExpiringEmail(data: EmailTemplateData) {
       
       ---
       Polly App - Making decision-making collaborative
-      Unsubscribe: ${pollUrl}/unsubscribe
+      Unsubscribe: ${unsubscribeUrl}
       Manage notifications: ${process.env.NEXT_PUBLIC_APP_URL}/settings/notifications
     `
   };
@@ -132,6 +133,7 @@ export function generatePollExpiringEmail(data: EmailTemplateData) {
 
 export function generatePollExpiredEmail(data: EmailTemplateData) {
   const { pollTitle, pollUrl, userName } = data;
+  const unsubscribeUrl = data.unsubscribeUrl || `${process.env.NEXT_PUBLIC_APP_URL}/settings/notifications`;
   
   return {
     subject: `📊 Poll Results: "${pollTitle}" has ended`,
@@ -224,6 +226,7 @@ export function generatePollExpiredEmail(data: EmailTemplateData) {
           <div class="footer">
             <p>
               <strong>Polly App</strong> - Making decision-making collaborative<br>
+              <a href="${unsubscribeUrl}" style="color: #6c757d;">Unsubscribe from this poll</a> | 
               <a href="${process.env.NEXT_PUBLIC_APP_URL}/settings/notifications" style="color: #6c757d;">Manage notifications</a>
             </p>
           </div>
@@ -239,6 +242,7 @@ export function generatePollExpiredEmail(data: EmailTemplateData) {
       
       ---
       Polly App - Making decision-making collaborative
+      Unsubscribe: ${unsubscribeUrl}
       Manage notifications: ${process.env.NEXT_PUBLIC_APP_URL}/settings/notifications
     `
   };
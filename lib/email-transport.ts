@@ -0,0 +1,455 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import net from 'net';
+import tls from 'tls';
+import { Resend } from 'resend';
+import { EmailNotificationResult } from '@/lib/resend';
+
+/**
+ * ✉️ EMAIL TRANSPORT
+ *
+ * Every email the app sends goes through a pluggable transport, chosen with
+ * `EMAIL_TRANSPORT`:
+ * - `resend`: the Resend API (`RESEND_API_KEY`)
+ * - `smtp`: any SMTP server (`SMTP_HOST`, `SMTP_PORT`, `SMTP_SECURE`,
+ *   `SMTP_USER`, `SMTP_PASSWORD`), upgrading with STARTTLS when offered;
+ *   servers without TLS are refused unless `SMTP_REQUIRE_TLS=false`
+ * - `outbox`: writes each message as an `.eml` file to `EMAIL_OUTBOX_DIR`
+ *   (default `.email-outbox`) so notifications can run offline; sent mail
+ *   can be previewed at /dev/emails in development
+ *
+ * Without `EMAIL_TRANSPORT`, Resend is used in production or whenever an
+ * API key is configured, and the outbox otherwise. Supabase edge functions
+ * run outside Node and still call Resend directly.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/email-notification-service.ts
+ * - app/dev/emails (outbox preview)
+ */
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  replyTo?: string;
+  tags?: { name: string; value: string }[];
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Delivery backend for outgoing email
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailNotificationResult>;
+}
+
+/**
+ * A message saved by the outbox transport
+ */
+export interface OutboxEmail extends EmailMessage {
+  id: string;
+  sentAt: string;
+}
+
+const generateMessageId = (from: string): string => {
+  const domain = extractAddress(from).split('@')[1] || 'localhost';
+  return `${Date.now()}.${randomBytes(8).toString('hex')}@${domain}`;
+};
+
+// Header values come from user input (poll titles end up in subjects)
+const headerValue = (value: string): string => value.replace(/[\r\n]+/g, ' ').trim();
+
+const extractAddress = (value: string): string => {
+  const match = value.match(/<([^>]+)>/);
+  return headerValue(match ? match[1] : value);
+};
+
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const base64Body = (value: string): string =>
+  Buffer.from(value, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+
+/**
+ * Render a message as RFC 5322 text with plain-text and HTML alternatives
+ */
+export function buildMimeMessage(message: EmailMessage, messageId: string, date: Date = new Date()): string {
+  const boundary = `polly-${randomBytes(12).toString('hex')}`;
+  const headers = [
+    `From: ${headerValue(message.from)}`,
+    `To: ${headerValue(message.to)}`,
+    ...(message.replyTo ? [`Reply-To: ${headerValue(message.replyTo)}`] : []),
+    `Subject: ${encodeHeader(headerValue(message.subject))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    ...(message.tags?.length
+      ? [`X-Polly-Tags: ${headerValue(message.tags.map(tag => `${tag.name}=${tag.value}`).join('; '))}`]
+      : []),
+    ...Object.entries(message.headers || {})
+      .filter(([name]) => /^[A-Za-z0-9-]+$/.test(name))
+      .map(([name, value]) => `${name}: ${headerValue(value)}`),
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+
+  const parts = [
+    ...(message.text ? [{ type: 'text/plain', body: message.text }] : []),
+    { type: 'text/html', body: message.html },
+  ].map(part => [
+    `--${boundary}`,
+    `Content-Type: ${part.type}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(part.body),
+  ].join('\r\n'));
+
+  return `${headers.join('\r\n')}\r\n\r\n${parts.join('\r\n')}\r\n--${boundary}--\r\n`;
+}
+
+/**
+ * Transport backed by the Resend API
+ */
+export class ResendEmailTransport implements EmailTransport {
+  readonly name = 'resend';
+  private client: Resend | null = null;
+
+  async send(message: EmailMessage): Promise<EmailNotificationResult> {
+    if (!process.env.RESEND_API_KEY) {
+      return { success: false, error: 'RESEND_API_KEY environment variable is required' };
+    }
+
+    this.client ??= new Resend(process.env.RESEND_API_KEY);
+
+    const result = await this.client.emails.send({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      replyTo: message.replyTo,
+      tags: message.tags,
+      headers: message.headers,
+    });
+
+    if (result.error) {
+      return { success: false, error: result.error.message };
+    }
+
+    return { success: true, messageId: result.data?.id };
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP conversation. Replies are read line by line; a reply ends at the
+ * line with a space (not a dash) after its status code.
+ */
+class SmtpSession {
+  private buffer = '';
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(30000, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      this.flush();
+    });
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    if (this.pending) {
+      const { reject } = this.pending;
+      this.pending = null;
+      reject(this.failure);
+    }
+  }
+
+  private flush() {
+    if (!this.pending) return;
+
+    const lines = this.buffer.split('\r\n');
+    for (let i = 0; i < lines.length - 1; i++) {
+      if (/^\d{3}( |$)/.test(lines[i])) {
+        const replyLines = lines.slice(0, i + 1);
+        this.buffer = lines.slice(i + 1).join('\r\n');
+        const { resolve } = this.pending;
+        this.pending = null;
+        resolve({ code: Number(lines[i].slice(0, 3)), lines: replyLines.map(line => line.slice(4)) });
+        return;
+      }
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  /**
+   * Send a command and check the reply code. Errors name only the verb (or
+   * the given label) so credentials and message bodies never reach the logs.
+   */
+  async command(line: string, expected: number[], label: string = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+
+    return reply;
+  }
+
+  async startTls(host: string): Promise<void> {
+    // The TLS socket takes over reading, timeouts and errors from here on
+    this.socket.setTimeout(0);
+    for (const event of ['data', 'error', 'close', 'timeout']) {
+      this.socket.removeAllListeners(event);
+    }
+
+    const secureSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: this.socket, servername: host }, () => resolve(upgraded));
+      upgraded.once('error', reject);
+    });
+
+    this.socket = secureSocket;
+    this.buffer = '';
+    this.attach(secureSocket);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+/**
+ * Transport that talks to an SMTP server directly
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  constructor(
+    private options: {
+      host: string;
+      port: number;
+      secure: boolean;
+      /** Refuse to send, or to authenticate, over a connection without TLS */
+      requireTls: boolean;
+      user?: string;
+      password?: string;
+    } = {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: Number(process.env.SMTP_PORT) || (process.env.SMTP_SECURE === 'true' ? 465 : 587),
+      secure: process.env.SMTP_SECURE === 'true',
+      requireTls: process.env.SMTP_REQUIRE_TLS !== 'false',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    }
+  ) {}
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const socket: net.Socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailNotificationResult> {
+    const { host, secure, requireTls, user, password } = this.options;
+    const messageId = generateMessageId(message.from);
+    let session: SmtpSession | null = null;
+
+    try {
+      session = new SmtpSession(await this.connect());
+      const greeting = await session.read();
+      if (greeting.code !== 220) {
+        throw new Error(`SMTP greeting failed: ${greeting.code} ${greeting.lines.join(' ')}`);
+      }
+
+      let hello = await session.command('EHLO polly', [250]);
+      let encrypted = secure;
+
+      if (!secure && hello.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await session.command('STARTTLS', [220]);
+        await session.startTls(host);
+        hello = await session.command('EHLO polly', [250]);
+        encrypted = true;
+      }
+
+      // Credentials and messages must never cross the network in plain text
+      // unless TLS has been explicitly made optional
+      if (!encrypted && requireTls) {
+        throw new Error('SMTP server does not support STARTTLS; set SMTP_SECURE=true or SMTP_REQUIRE_TLS=false');
+      }
+
+      if (user && password) {
+        const auth = hello.lines.find(line => /^AUTH\b/i.test(line)) || '';
+        if (/\bPLAIN\b/i.test(auth) || !/\bLOGIN\b/i.test(auth)) {
+          const token = Buffer.from(`\0${user}\0${password}`, 'utf8').toString('base64');
+          await session.command(`AUTH PLAIN ${token}`, [235]);
+        } else {
+          await session.command('AUTH LOGIN', [334]);
+          await session.command(Buffer.from(user, 'utf8').toString('base64'), [334], 'AUTH LOGIN username');
+          await session.command(Buffer.from(password, 'utf8').toString('base64'), [235], 'AUTH LOGIN password');
+        }
+      }
+
+      await session.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+      await session.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+      await session.command('DATA', [354]);
+
+      // Lines starting with a dot are doubled so they cannot end the data early
+      const data = buildMimeMessage(message, messageId).replace(/^\./gm, '..');
+      await session.command(`${data}.`, [250], 'message');
+      await session.command('QUIT', [221]).catch(() => undefined);
+
+      return { success: true, messageId };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'SMTP delivery failed' };
+    } finally {
+      session?.close();
+    }
+  }
+}
+
+/**
+ * Transport that saves each message to a local directory instead of
+ * sending it: `<id>.eml` holds the raw message and `<id>.json` the fields
+ * used by the preview page.
+ */
+export class OutboxEmailTransport implements EmailTransport {
+  readonly name = 'outbox';
+
+  constructor(private directory: string = getOutboxDirectory()) {}
+
+  async send(message: EmailMessage): Promise<EmailNotificationResult> {
+    try {
+      const sentAt = new Date();
+      const id = `${sentAt.getTime()}-${randomBytes(4).toString('hex')}`;
+
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(
+        path.join(this.directory, `${id}.eml`),
+        buildMimeMessage(message, generateMessageId(message.from), sentAt)
+      );
+
+      const saved: OutboxEmail = { ...message, id, sentAt: sentAt.toISOString() };
+      await fs.writeFile(path.join(this.directory, `${id}.json`), JSON.stringify(saved, null, 2));
+
+      return { success: true, messageId: id };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to write email' };
+    }
+  }
+}
+
+export function getOutboxDirectory(): string {
+  return path.resolve(process.env.EMAIL_OUTBOX_DIR || '.email-outbox');
+}
+
+/**
+ * Messages saved by the outbox transport, newest first
+ */
+export async function listOutboxEmails(limit: number = 100): Promise<OutboxEmail[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getOutboxDirectory());
+  } catch {
+    return [];
+  }
+
+  const ids = files
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.slice(0, -'.json'.length))
+    .sort()
+    .reverse()
+    .slice(0, limit);
+
+  const emails = await Promise.all(ids.map(id => getOutboxEmail(id)));
+  return emails.filter((email): email is OutboxEmail => email !== null);
+}
+
+export async function getOutboxEmail(id: string): Promise<OutboxEmail | null> {
+  // Ids are generated by OutboxEmailTransport; anything else could escape the directory
+  if (!/^\d+-[0-9a-f]+$/.test(id)) return null;
+
+  try {
+    const content = await fs.readFile(path.join(getOutboxDirectory(), `${id}.json`), 'utf8');
+    return JSON.parse(content) as OutboxEmail;
+  } catch {
+    return null;
+  }
+}
+
+const createDefaultTransport = (): EmailTransport => {
+  switch (process.env.EMAIL_TRANSPORT) {
+    case 'smtp':
+      return new SmtpEmailTransport();
+    case 'outbox':
+      return new OutboxEmailTransport();
+    case 'resend':
+      return new ResendEmailTransport();
+    default:
+      return process.env.RESEND_API_KEY || process.env.NODE_ENV === 'production'
+        ? new ResendEmailTransport()
+        : new OutboxEmailTransport();
+  }
+};
+
+let emailTransport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  emailTransport ??= createDefaultTransport();
+  return emailTransport;
+}
+
+/**
+ * Replace the transport, e.g. with an in-memory one in tests
+ */
+export function setEmailTransport(transport: EmailTransport): void {
+  emailTransport = transport;
+}
+
+/**
+ * Send a message through the configured transport. Failures are returned,
+ * not thrown.
+ */
+export async function sendEmail(message: EmailMessage): Promise<EmailNotificationResult> {
+  const transport = getEmailTransport();
+
+  try {
+    const result = await transport.send(message);
+    if (!result.success) {
+      console.error(`[EMAIL] ${transport.name} failed to send "${message.subject}":`, result.error);
+    }
+    return result;
+  } catch (error) {
+    console.error(`[EMAIL] ${transport.name} failed to send "${message.subject}":`, error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createClient } from '@/lib/supabase';
+import { getPollWithResults } from '@/lib/actions/poll';
+import { Poll } from '@/types/database';
+
+/**
+ * How live results are currently being kept up to date:
+ * - connecting: waiting for the realtime channel
+ * - realtime: refreshed on vote inserts and delete broadcasts pushed by Supabase Realtime
+ * - polling: realtime is unavailable, results are re-fetched on an interval
+ * - off: live updates are disabled (e.g. the poll has closed)
+ */
+export type LiveResultsMode = 'connecting' | 'realtime' | 'polling' | 'off';
+
+const POLLING_INTERVAL_MS = 10000;
+const CONNECT_TIMEOUT_MS = 10000;
+// Bursts of votes (e.g. a ranked ballot is several rows) trigger a single refresh
+const REFRESH_DEBOUNCE_MS = 400;
+
+/**
+ * Hook that keeps a poll's results live.
+ * Subscribes to vote changes for the poll and re-fetches the results (so
+ * ranked polls get a recomputed runoff), falling back to interval polling
+ * whenever the realtime channel is unavailable.
+ */
+export function useLivePollResults(initialPoll: Poll, { enabled = true }: { enabled?: boolean } = {}) {
+  const [poll, setPoll] = useState<Poll>(initialPoll);
+  const [mode, setMode] = useState<LiveResultsMode>(enabled ? 'connecting' : 'off');
+  const debounceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pollId = initialPoll.id;
+
+  // Server-rendered data wins when the page is refreshed
+  useEffect(() => {
+    setPoll(initialPoll);
+  }, [initialPoll]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const latest = await getPollWithResults(pollId);
+      if (latest) {
+        setPoll(latest);
+      }
+    } catch (error) {
+      console.error('Error refreshing live poll results:', error);
+    }
+  }, [pollId]);
+
+  const scheduleRefresh = useCallback(() => {
+    if (debounceTimer.current) {
+      clearTimeout(debounceTimer.current);
+    }
+    debounceTimer.current = setTimeout(refresh, REFRESH_DEBOUNCE_MS);
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setMode('off');
+      return;
+    }
+
+    const supabase = createClient();
+    let pollingInterval: ReturnType<typeof setInterval> | null = null;
+    // Removing the channel on cleanup reports CLOSED; don't start polling then
+    let disposed = false;
+
+    const startPolling = () => {
+      if (pollingInterval || disposed) return;
+      setMode('polling');
+      pollingInterval = setInterval(() => {
+        // Skip background tabs; they catch up when realtime reconnects or on the next tick
+        if (document.visibilityState === 'visible') {
+          refresh();
+        }
+      }, POLLING_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (pollingInterval) {
+        clearInterval(pollingInterval);
+        pollingInterval = null;
+      }
+    };
+
+    // Fall back to polling if the channel never connects
+    const connectTimeout = setTimeout(startPolling, CONNECT_TIMEOUT_MS);
+
+    const channel = supabase
+      .channel(`poll-votes:${pollId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'votes', filter: `poll_id=eq.${pollId}` },
+        scheduleRefresh
+      )
+      .on(
+        // Deletes can't be filtered by poll; a database trigger broadcasts
+        // them on this poll's topic instead
+        'broadcast',
+        { event: 'vote_deleted' },
+        scheduleRefresh
+      )
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          clearTimeout(connectTimeout);
+          stopPolling();
+          setMode('realtime');
+          // Catch up on anything missed while connecting or polling
+          scheduleRefresh();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          clearTimeout(connectTimeout);
+          startPolling();
+        }
+      });
+
+    return () => {
+      disposed = true;
+      clearTimeout(connectTimeout);
+      stopPolling();
+      if (debounceTimer.current) {
+        clearTimeout(debounceTimer.current);
+      }
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, pollId, refresh, scheduleRefresh]);
+
+  return { poll, mode, refresh };
+}
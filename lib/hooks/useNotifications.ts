@@ -0,0 +1,132 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createClient } from '@/lib/supabase';
+import { getNotifications, markAllNotificationsRead, markNotificationRead } from '@/lib/actions/notifications';
+import { AppNotification } from '@/types/database';
+
+const POLLING_INTERVAL_MS = 60000;
+const CONNECT_TIMEOUT_MS = 10000;
+// A vote bumps the creator's notification and can arrive in bursts
+const REFRESH_DEBOUNCE_MS = 400;
+
+/**
+ * Hook that keeps the signed-in user's notification center up to date.
+ * Subscribes to changes on their notifications and re-fetches the list and
+ * unread count, falling back to interval polling whenever the realtime
+ * channel is unavailable. Pass null while signed out.
+ */
+export function useNotifications(userId: string | null) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const debounceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const latest = await getNotifications();
+      setNotifications(latest.notifications);
+      setUnreadCount(latest.unreadCount);
+    } catch (error) {
+      console.error('Error refreshing notifications:', error);
+    }
+  }, []);
+
+  const scheduleRefresh = useCallback(() => {
+    if (debounceTimer.current) {
+      clearTimeout(debounceTimer.current);
+    }
+    debounceTimer.current = setTimeout(refresh, REFRESH_DEBOUNCE_MS);
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    const supabase = createClient();
+    let pollingInterval: ReturnType<typeof setInterval> | null = null;
+    // Removing the channel on cleanup reports CLOSED; don't start polling then
+    let disposed = false;
+
+    const startPolling = () => {
+      if (pollingInterval || disposed) return;
+      pollingInterval = setInterval(() => {
+        if (document.visibilityState === 'visible') {
+          refresh();
+        }
+      }, POLLING_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (pollingInterval) {
+        clearInterval(pollingInterval);
+        pollingInterval = null;
+      }
+    };
+
+    refresh();
+    const connectTimeout = setTimeout(startPolling, CONNECT_TIMEOUT_MS);
+
+    // Inserts are new notifications; updates are new votes added to an
+    // unread notification or reads from another tab
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        scheduleRefresh
+      )
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          clearTimeout(connectTimeout);
+          stopPolling();
+          // Catch up on anything missed while connecting or polling
+          scheduleRefresh();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          clearTimeout(connectTimeout);
+          startPolling();
+        }
+      });
+
+    return () => {
+      disposed = true;
+      clearTimeout(connectTimeout);
+      stopPolling();
+      if (debounceTimer.current) {
+        clearTimeout(debounceTimer.current);
+      }
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refresh, scheduleRefresh]);
+
+  const markRead = useCallback(async (notificationId: string) => {
+    const target = notifications.find(notification => notification.id === notificationId);
+    if (!target || target.read_at) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications(current => current.map(notification =>
+      notification.id === notificationId ? { ...notification, read_at: readAt } : notification
+    ));
+    setUnreadCount(current => Math.max(0, current - 1));
+
+    const result = await markNotificationRead(notificationId);
+    if (!result.success) {
+      refresh();
+    }
+  }, [notifications, refresh]);
+
+  const markAllRead = useCallback(async () => {
+    const readAt = new Date().toISOString();
+    setNotifications(current => current.map(notification => ({ ...notification, read_at: notification.read_at ?? readAt })));
+    setUnreadCount(0);
+
+    const result = await markAllNotificationsRead();
+    if (!result.success) {
+      refresh();
+    }
+  }, [refresh]);
+
+  return { notifications, unreadCount, refresh, markRead, markAllRead };
+}
@@ -0,0 +1,133 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { AppNotificationType, NotificationChannel } from '@/types/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * 🔔 NOTIFICATION CENTER
+ *
+ * Every notification type can reach a user by email, in the app, both or
+ * not at all. The choice is stored per type in
+ * `profiles.notification_channels`; types missing from it use both.
+ * In-app notifications are rows in `notifications`, created through the
+ * `create_notification` database function (which applies the in-app
+ * choice) or, for new votes, by a trigger on `votes`.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/email-notification-service.ts
+ * - lib/actions/notifications.ts, lib/actions/settings.ts
+ * - lib/hooks/useNotifications.ts, components/layout/NotificationBell.tsx
+ * - components/settings/NotificationSettingsForm.tsx
+ */
+
+export const APP_NOTIFICATION_TYPES: AppNotificationType[] = [
+  'new_vote',
+  'poll_opened',
+  'poll_closing',
+  'poll_results',
+  'vote_removed',
+];
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['both', 'email', 'in_app', 'none'];
+
+export const DEFAULT_NOTIFICATION_CHANNEL: NotificationChannel = 'both';
+
+export const NOTIFICATION_TYPE_LABELS: Record<AppNotificationType, { label: string; description: string }> = {
+  new_vote: {
+    label: 'New votes',
+    description: 'Someone voted on one of your polls. Emails arrive as part of your digest.',
+  },
+  poll_opened: {
+    label: 'Poll opened',
+    description: 'A scheduled poll you follow is open for voting',
+  },
+  poll_closing: {
+    label: 'Closing soon',
+    description: 'A poll you follow closes within 24 hours',
+  },
+  poll_results: {
+    label: 'Results',
+    description: 'A poll you follow has ended and its results are in',
+  },
+  vote_removed: {
+    label: 'Vote removed',
+    description: 'An edit to a poll removed the option you voted for',
+  },
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  both: 'Email & in-app',
+  email: 'Email only',
+  in_app: 'In-app only',
+  none: 'Off',
+};
+
+export type NotificationChannels = Record<AppNotificationType, NotificationChannel>;
+
+export interface InAppNotificationInput {
+  userId: string;
+  type: AppNotificationType;
+  pollId: string | null;
+  title: string;
+  body?: string;
+  /** App-relative path opened when the notification is clicked */
+  link?: string;
+  /** Identifies the event, so creating the same notification twice is a no-op */
+  dedupeKey?: string;
+}
+
+/**
+ * Check whether a value is a valid notification channel
+ */
+export function isNotificationChannel(value: unknown): value is NotificationChannel {
+  return typeof value === 'string' && (NOTIFICATION_CHANNELS as string[]).includes(value);
+}
+
+/**
+ * Read a profile's notification_channels column, filling in the default
+ * for missing or unknown entries
+ */
+export function getNotificationChannels(value: unknown): NotificationChannels {
+  const stored = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+
+  return Object.fromEntries(
+    APP_NOTIFICATION_TYPES.map(type => [
+      type,
+      isNotificationChannel(stored[type]) ? stored[type] : DEFAULT_NOTIFICATION_CHANNEL,
+    ])
+  ) as NotificationChannels;
+}
+
+export function sendsEmail(channel: NotificationChannel): boolean {
+  return channel === 'email' || channel === 'both';
+}
+
+export function sendsInApp(channel: NotificationChannel): boolean {
+  return channel === 'in_app' || channel === 'both';
+}
+
+/**
+ * Create an in-app notification. The database skips it when the user turned
+ * the type's in-app channel off. Returns false when the call fails.
+ */
+export async function createInAppNotification(
+  supabase: SupabaseServerClient,
+  input: InAppNotificationInput
+): Promise<boolean> {
+  const { error } = await supabase.rpc('create_notification', {
+    user_uuid: input.userId,
+    notification_type: input.type,
+    poll_uuid: input.pollId,
+    notification_title: input.title,
+    notification_body: input.body ?? null,
+    notification_link: input.link ?? null,
+    event_key: input.dedupeKey ?? null,
+  });
+
+  if (error) {
+    console.error(`Error creating ${input.type} notification for user ${input.userId}:`, error);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,365 @@
+import { z } from 'zod';
+import {
+  apiRequestSchemas,
+  apiResponseSchemas,
+  ExportPollQuerySchema,
+  ListPollsQuerySchema,
+  SearchPollsQuerySchema,
+} from '@/lib/api-schemas';
+import { ApiKeyScope } from '@/types/database';
+
+/**
+ * 📖 OPENAPI DOCUMENT
+ *
+ * Describes the public /api/v1 polls API. Operations are listed here with
+ * their error codes; request and response bodies come from the zod schemas
+ * in lib/api-schemas.ts, so the document cannot drift from the validation
+ * the handlers run.
+ *
+ * USAGE IN CODEBASE:
+ * - app/api/openapi.json/route.ts (served document)
+ * - app/docs/api/page.tsx (reference page)
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export type ApiMethod = 'get' | 'post' | 'put' | 'delete';
+
+export interface ApiOperation {
+  method: ApiMethod;
+  path: string;
+  operationId: string;
+  summary: string;
+  description: string;
+  /** Scope an API key needs to call the operation */
+  scope: ApiKeyScope;
+  /** False when anonymous callers are allowed too */
+  authRequired: boolean;
+  query?: z.ZodObject;
+  requestBody?: string;
+  response: { schema: string; description: string } | { contentTypes: string[]; description: string };
+  /** Error codes the operation can return, by HTTP status */
+  errors: Record<number, string[]>;
+}
+
+// Every operation authenticates the same way (see lib/api-auth.ts)
+const AUTH_ERRORS: Record<number, string[]> = {
+  401: ['INVALID_API_KEY'],
+  403: ['INSUFFICIENT_SCOPE'],
+  500: ['INTERNAL_ERROR'],
+  503: ['API_KEYS_UNAVAILABLE'],
+};
+
+const ERROR_STATUS_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Not authenticated',
+  403: 'Not allowed',
+  404: 'Not found',
+  429: 'Rate limit exceeded; see the RateLimit-* headers',
+  500: 'Server error',
+  503: 'Service unavailable',
+};
+
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/polls',
+    operationId: 'listPolls',
+    summary: 'List polls',
+    description: 'Active, published, public polls, filtered and sorted on the server. Pages are linked by cursor: pass pagination.nextCursor back with the same filters to continue. Vote counts are null where results_visibility hides them from the caller.',
+    scope: 'read',
+    authRequired: false,
+    query: ListPollsQuerySchema,
+    response: { schema: 'ListPollsResponse', description: 'A page of polls' },
+    errors: {
+      400: ['INVALID_CURSOR', 'INVALID_LIMIT', 'INVALID_SORT', 'INVALID_STATUS', 'INVALID_CREATOR', 'INVALID_FILTER', 'INVALID_DATE_RANGE', 'INVALID_QUERY', 'INVALID_TAG'],
+      401: ['AUTHENTICATION_REQUIRED'],
+      500: ['FETCH_FAILED'],
+      503: ['SERVICE_UNAVAILABLE'],
+    },
+  },
+  {
+    method: 'get',
+    path: '/polls/search',
+    operationId: 'searchPolls',
+    summary: 'Search polls',
+    description: 'Full-text search over the titles, descriptions and options of listed polls, best matches first. Each word matches the start of a word, so partial words work.',
+    scope: 'read',
+    authRequired: false,
+    query: SearchPollsQuerySchema,
+    response: { schema: 'SearchPollsResponse', description: 'Ranked results with matched words marked' },
+    errors: {
+      400: ['INVALID_QUERY', 'INVALID_LIMIT'],
+      500: ['SEARCH_FAILED'],
+    },
+  },
+  {
+    method: 'post',
+    path: '/polls',
+    operationId: 'createPoll',
+    summary: 'Create a poll',
+    description: 'Creates a poll owned by the caller. Subject to the poll creation rate limit and the per-user poll limit.',
+    scope: 'write',
+    authRequired: true,
+    requestBody: 'CreatePollRequest',
+    response: { schema: 'CreatePollResponse', description: 'The created poll' },
+    errors: {
+      400: [
+        'INVALID_CONTENT_TYPE', 'INVALID_JSON', 'INVALID_BODY', 'INVALID_TITLE', 'TITLE_TOO_SHORT',
+        'INVALID_DESCRIPTION', 'INVALID_OPTIONS_FORMAT', 'INSUFFICIENT_OPTIONS', 'TOO_MANY_OPTIONS',
+        'INVALID_OPTION_FORMAT', 'EMPTY_OPTION', 'DUPLICATE_OPTIONS', 'INVALID_ALLOW_MULTIPLE_CHOICES',
+        'INVALID_POLL_TYPE', 'TEXT_POLL_OPTIONS', 'INVALID_ALLOW_WRITE_IN', 'INVALID_EXPIRATION', 'INVALID_RESULTS_VISIBILITY', 'INVALID_VISIBILITY', 'INVALID_ELIGIBLE_VOTERS',
+        'INVALID_STATUS', 'INVALID_OPENS_AT', 'INVALID_TAGS',
+      ],
+      401: ['AUTHENTICATION_REQUIRED'],
+      403: ['POLL_LIMIT_REACHED'],
+      429: ['RATE_LIMIT_EXCEEDED'],
+      500: ['POLL_LIMIT_CHECK_FAILED', 'POLL_CREATION_FAILED', 'OPTIONS_CREATION_FAILED', 'TAGS_CREATION_FAILED', 'FETCH_FAILED', 'DATABASE_ERROR'],
+      503: ['SERVICE_UNAVAILABLE'],
+    },
+  },
+  {
+    method: 'get',
+    path: '/polls/{id}',
+    operationId: 'getPoll',
+    summary: 'Get a poll and its results',
+    description: 'Closed polls are only returned to their creator. Private polls require an eligible caller.',
+    scope: 'read',
+    authRequired: false,
+    response: { schema: 'PollResponse', description: 'The poll' },
+    errors: {
+      400: ['INVALID_POLL_ID', 'INVALID_UUID_FORMAT'],
+      401: ['PRIVATE_POLL_SIGN_IN_REQUIRED'],
+      403: ['NOT_ELIGIBLE_VOTER', 'POLL_INACTIVE'],
+      404: ['POLL_NOT_FOUND'],
+      503: ['SERVICE_UNAVAILABLE'],
+    },
+  },
+  {
+    method: 'put',
+    path: '/polls/{id}',
+    operationId: 'updatePoll',
+    summary: 'Update or close a poll',
+    description: 'Creator only. Send only the fields to change; `{"is_active": false}` closes the poll. Title, description and option edits are recorded as a revision.',
+    scope: 'write',
+    authRequired: true,
+    requestBody: 'UpdatePollRequest',
+    response: { schema: 'UpdatePollResponse', description: 'The updated poll' },
+    errors: {
+      400: [
+        'INVALID_UUID_FORMAT', 'INVALID_JSON', 'INVALID_BODY', 'INVALID_TITLE', 'TITLE_TOO_LONG',
+        'INVALID_DESCRIPTION', 'DESCRIPTION_TOO_LONG', 'INVALID_OPTIONS', 'INVALID_IS_ACTIVE',
+        'INVALID_EXPIRATION_DATE', 'INVALID_RESULTS_VISIBILITY', 'INVALID_VISIBILITY', 'INVALID_STATUS',
+        'INVALID_OPENS_AT', 'CANNOT_UNPUBLISH', 'EDIT_FAILED',
+      ],
+      401: ['AUTHENTICATION_REQUIRED'],
+      403: ['UNAUTHORIZED_UPDATE'],
+      404: ['POLL_NOT_FOUND'],
+      500: ['UPDATE_FAILED'],
+    },
+  },
+  {
+    method: 'delete',
+    path: '/polls/{id}',
+    operationId: 'deletePoll',
+    summary: 'Delete a poll',
+    description: 'Creator only. Deletes the poll with its options and votes.',
+    scope: 'write',
+    authRequired: true,
+    response: { schema: 'DeletePollResponse', description: 'The poll was deleted' },
+    errors: {
+      400: ['INVALID_UUID_FORMAT'],
+      401: ['AUTHENTICATION_REQUIRED'],
+      403: ['UNAUTHORIZED_DELETION'],
+      404: ['POLL_NOT_FOUND'],
+      500: ['POLL_DELETION_FAILED'],
+    },
+  },
+  {
+    method: 'post',
+    path: '/polls/{id}/vote',
+    operationId: 'vote',
+    summary: 'Vote on a poll',
+    description: 'Casts a vote as the caller, or as an anonymous voter identified by IP when the site allows it. Subject to the vote rate limit.',
+    scope: 'write',
+    authRequired: false,
+    requestBody: 'VoteRequest',
+    response: { schema: 'VoteResponse', description: 'The vote was recorded' },
+    errors: {
+      400: [
+        'INVALID_POLL_ID', 'INVALID_JSON', 'INVALID_BODY', 'NO_OPTIONS_SELECTED', 'TOO_MANY_OPTIONS',
+        'INVALID_OPTION_ID', 'POLL_DRAFT', 'POLL_NOT_OPEN', 'POLL_INACTIVE', 'POLL_EXPIRED', 'TEXT_POLL',
+        'DUPLICATE_RANK', 'SINGLE_CHOICE_ONLY', 'INVALID_OPTIONS', 'ALREADY_VOTED_USER', 'ALREADY_VOTED_IP',
+      ],
+      401: ['ANONYMOUS_VOTING_DISABLED', 'PRIVATE_POLL_SIGN_IN_REQUIRED'],
+      403: ['NOT_ELIGIBLE_VOTER'],
+      404: ['POLL_NOT_FOUND'],
+      429: ['RATE_LIMIT_EXCEEDED'],
+      500: ['VOTE_VALIDATION_ERROR', 'VOTE_INSERTION_FAILED'],
+      503: ['SERVICE_UNAVAILABLE'],
+    },
+  },
+  {
+    method: 'get',
+    path: '/polls/{id}/export',
+    operationId: 'exportPoll',
+    summary: 'Export poll results',
+    description: 'Creator or admin only. Per-option totals and a per-vote timeline; voter IPs are never included.',
+    scope: 'read',
+    authRequired: true,
+    query: ExportPollQuerySchema,
+    response: {
+      contentTypes: ['text/csv', 'application/json', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+      description: 'The export file, as an attachment',
+    },
+    errors: {
+      400: ['INVALID_UUID_FORMAT', 'INVALID_EXPORT_FORMAT'],
+      401: ['AUTHENTICATION_REQUIRED'],
+      403: ['UNAUTHORIZED_EXPORT'],
+      404: ['POLL_NOT_FOUND'],
+      500: ['EXPORT_FAILED'],
+    },
+  },
+];
+
+/**
+ * Error codes for an operation, including the shared authentication errors
+ */
+export function getOperationErrors(operation: ApiOperation): [number, string[]][] {
+  const statuses = new Set([...Object.keys(AUTH_ERRORS), ...Object.keys(operation.errors)].map(Number));
+
+  return Array.from(statuses)
+    .sort((a, b) => a - b)
+    .map(status => [status, [...(operation.errors[status] || []), ...(AUTH_ERRORS[status] || [])]]);
+}
+
+/**
+ * JSON Schemas for every registered request and response body, keyed by
+ * their component name
+ */
+export function getApiSchemas(): Record<string, JsonSchema> {
+  const uri = (id: string) => `#/components/schemas/${id}`;
+  // Requests are described as accepted (unknown fields are ignored), responses as sent
+  const requests = z.toJSONSchema(apiRequestSchemas, { io: 'input', uri }).schemas;
+  const responses = z.toJSONSchema(apiResponseSchemas, { io: 'output', uri }).schemas;
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [id, schema] of Object.entries({ ...requests, ...responses })) {
+    // Components inherit the document's dialect and are addressed by name
+    const component: JsonSchema = { ...schema };
+    delete component.$schema;
+    delete component.$id;
+    schemas[id] = component;
+  }
+
+  return schemas;
+}
+
+/**
+ * OpenAPI parameters for an operation: the poll id in its path, plus the
+ * fields of its query schema
+ */
+export function getOperationParameters(operation: ApiOperation): JsonSchema[] {
+  const parameters: JsonSchema[] = operation.path.includes('{id}')
+    ? [{ name: 'id', in: 'path', required: true, description: 'Poll id', schema: { type: 'string', format: 'uuid' } }]
+    : [];
+
+  if (operation.query) {
+    const query = z.toJSONSchema(operation.query, { io: 'input' }) as {
+      properties: Record<string, JsonSchema>;
+      required?: string[];
+    };
+
+    for (const [name, { description, ...schema }] of Object.entries(query.properties)) {
+      parameters.push({
+        name,
+        in: 'query',
+        required: query.required?.includes(name) ?? false,
+        description,
+        schema,
+      });
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * Build the OpenAPI 3.1 document for the /api/v1 routes
+ *
+ * @param origin - Site origin for the `servers` entry, e.g. https://polly.example.com
+ */
+export function buildOpenApiDocument(origin?: string): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const operation of API_OPERATIONS) {
+    const parameters = getOperationParameters(operation);
+
+    const responses: Record<string, JsonSchema> = {
+      200: 'schema' in operation.response
+        ? {
+          description: operation.response.description,
+          content: { 'application/json': { schema: { $ref: `#/components/schemas/${operation.response.schema}` } } },
+        }
+        : {
+          description: operation.response.description,
+          content: Object.fromEntries(operation.response.contentTypes.map(type => [type, { schema: { type: 'string', format: 'binary' } }])),
+        },
+    };
+
+    for (const [status, codes] of getOperationErrors(operation)) {
+      responses[status] = {
+        description: `${ERROR_STATUS_DESCRIPTIONS[status] || 'Error'}. Codes: ${codes.join(', ')}`,
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+      };
+    }
+
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: {
+        operationId: operation.operationId,
+        summary: operation.summary,
+        description: operation.description,
+        'x-api-key-scope': operation.scope,
+        security: operation.authRequired
+          ? [{ apiKey: [] }, { session: [] }]
+          : [{ apiKey: [] }, { session: [] }, {}],
+        ...(parameters.length > 0 && { parameters }),
+        ...(operation.requestBody && {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: `#/components/schemas/${operation.requestBody}` } } },
+          },
+        }),
+        responses,
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Polly API',
+      version: '1.0.0',
+      description: 'Create, read, vote on and close polls. Authenticate with a personal API key from Settings → API Keys, sent as `Authorization: Bearer polly_...`. Read keys can call GET operations; read & write keys can call everything.',
+    },
+    servers: [{ url: `${origin || ''}/api/v1` }],
+    paths,
+    components: {
+      schemas: getApiSchemas(),
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Personal API key (polly_...) with the scope listed on each operation as x-api-key-scope',
+        },
+        session: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'sb-access-token',
+          description: 'Supabase session cookie, for requests from the signed-in web app',
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,180 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { validateEmail } from '@/lib/utils';
+import { PollVisibility } from '@/types/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * 🔐 POLL ACCESS
+ *
+ * Server-side helpers for poll visibility and private-poll voter lists. Access
+ * rules live in the database (polls RLS and `get_poll_access_status`); these
+ * wrappers surface the reason for a denial and manage the eligible-voter list.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/actions/poll.ts, lib/actions/poll-access.ts
+ * - app/api/polls and app/api/polls/[id] routes
+ */
+
+export const POLL_VISIBILITY_OPTIONS: PollVisibility[] = ['public', 'unlisted', 'private'];
+
+export const MAX_ELIGIBLE_VOTERS = 500;
+
+/**
+ * Result of `get_poll_access_status` for the current caller
+ */
+export type PollAccessStatus = 'granted' | 'not_found' | 'sign_in_required' | 'not_eligible';
+
+/**
+ * Machine-readable outcome of `checkIfUserCanVote`
+ */
+export type VoteEligibilityCode =
+  | 'CAN_VOTE'
+  | 'CAN_CHANGE_VOTE'
+  | 'POLL_NOT_FOUND'
+  | 'POLL_INACTIVE'
+  | 'POLL_EXPIRED'
+  | 'POLL_DRAFT'
+  | 'POLL_NOT_OPEN'
+  | 'PRIVATE_POLL_SIGN_IN_REQUIRED'
+  | 'NOT_ELIGIBLE_VOTER'
+  | 'ANONYMOUS_VOTING_DISABLED'
+  | 'PERMISSION_CHECK_FAILED';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+/**
+ * Check whether a value is a valid poll visibility
+ */
+export function isPollVisibility(value: unknown): value is PollVisibility {
+  return typeof value === 'string' && (POLL_VISIBILITY_OPTIONS as string[]).includes(value);
+}
+
+/**
+ * Get whether the current caller may open a poll, and why not.
+ * Returns null when the status could not be determined.
+ */
+export async function getPollAccessStatus(
+  supabase: SupabaseServerClient,
+  pollId: string
+): Promise<PollAccessStatus | null> {
+  const { data, error } = await supabase.rpc('get_poll_access_status', { poll_uuid: pollId });
+
+  if (error) {
+    console.error('Error checking poll access:', error);
+    return null;
+  }
+
+  return data as PollAccessStatus;
+}
+
+/**
+ * Split eligible-voter entries into normalised emails and user ids.
+ * Entries that are neither are returned as invalid.
+ */
+export function parseEligibleVoters(entries: string[]): {
+  emails: string[];
+  userIds: string[];
+  invalid: string[];
+} {
+  const emails = new Set<string>();
+  const userIds = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const rawEntry of entries) {
+    const entry = rawEntry.trim();
+    if (!entry) continue;
+
+    if (UUID_REGEX.test(entry)) {
+      userIds.add(entry.toLowerCase());
+    } else if (validateEmail(entry) && entry.length <= 254) {
+      emails.add(entry.toLowerCase());
+    } else {
+      invalid.push(entry);
+    }
+  }
+
+  return { emails: [...emails], userIds: [...userIds], invalid };
+}
+
+/**
+ * Replace a poll's creator-managed voter list.
+ * Voters who joined through an invite link are kept.
+ */
+export async function replaceEligibleVoters(
+  supabase: SupabaseServerClient,
+  pollId: string,
+  entries: string[]
+): Promise<{ success: boolean; error?: string }> {
+  const { emails, userIds, invalid } = parseEligibleVoters(entries);
+
+  if (invalid.length > 0) {
+    return { success: false, error: `Not an email address or user id: ${invalid.slice(0, 3).join(', ')}` };
+  }
+
+  if (emails.length + userIds.length > MAX_ELIGIBLE_VOTERS) {
+    return { success: false, error: `A poll can have at most ${MAX_ELIGIBLE_VOTERS} eligible voters` };
+  }
+
+  // Unknown user ids would fail the foreign key; report them instead
+  if (userIds.length > 0) {
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id')
+      .in('id', userIds);
+
+    if (profilesError) {
+      return { success: false, error: 'Failed to verify user ids' };
+    }
+
+    const knownIds = new Set((profiles || []).map(profile => profile.id));
+    const unknownIds = userIds.filter(id => !knownIds.has(id));
+    if (unknownIds.length > 0) {
+      return { success: false, error: `Unknown user id: ${unknownIds.slice(0, 3).join(', ')}` };
+    }
+  }
+
+  const { error: deleteError } = await supabase
+    .from('poll_voters')
+    .delete()
+    .eq('poll_id', pollId)
+    .eq('added_via', 'list');
+
+  if (deleteError) {
+    console.error('Error clearing eligible voters:', deleteError);
+    return { success: false, error: 'Failed to update eligible voters' };
+  }
+
+  // Users who already joined through an invite keep their existing entry
+  const { data: invited, error: invitedError } = await supabase
+    .from('poll_voters')
+    .select('user_id')
+    .eq('poll_id', pollId)
+    .eq('added_via', 'invite');
+
+  if (invitedError) {
+    console.error('Error loading invited voters:', invitedError);
+    return { success: false, error: 'Failed to update eligible voters' };
+  }
+
+  const invitedIds = new Set((invited || []).map(voter => voter.user_id));
+  const rows = [
+    ...userIds
+      .filter(userId => !invitedIds.has(userId))
+      .map(userId => ({ poll_id: pollId, user_id: userId, added_via: 'list' })),
+    ...emails.map(email => ({ poll_id: pollId, email, added_via: 'list' })),
+  ];
+
+  if (rows.length > 0) {
+    const { error: insertError } = await supabase
+      .from('poll_voters')
+      .insert(rows);
+
+    if (insertError) {
+      console.error('Error saving eligible voters:', insertError);
+      return { success: false, error: 'Failed to update eligible voters' };
+    }
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,252 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { createXlsx, XlsxCell } from '@/lib/xlsx';
+import { PollType } from '@/types/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * 📤 POLL EXPORT
+ *
+ * Builds downloadable poll results: per-option totals plus a per-vote
+ * timeline, serialised as CSV, JSON or XLSX.
+ *
+ * ANONYMITY:
+ * - IP addresses and user agents are never exported
+ * - Votes cast without an account are listed as "Anonymous"
+ * - Polls marked `allow_anonymous` omit voter names entirely
+ *
+ * Callers are responsible for checking that the viewer is the poll's creator
+ * or an admin; the votes RLS policy only guarantees they can read results.
+ *
+ * USAGE IN CODEBASE:
+ * - app/api/polls/[id]/export (single poll)
+ * - app/api/polls/export (zip of all a user's polls)
+ */
+
+export type PollExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const POLL_EXPORT_FORMATS: PollExportFormat[] = ['csv', 'json', 'xlsx'];
+
+// Poll ids looked up per query by the bulk export, which pages through them all
+export const BULK_EXPORT_BATCH_SIZE = 100;
+
+export interface PollExportTotal {
+  option: string;
+  votes: number;
+  percentage: number;
+}
+
+export interface PollExportVote {
+  voted_at: string;
+  option: string;
+  rank: number | null;
+  voter: string;
+}
+
+export interface PollExport {
+  poll: {
+    id: string;
+    title: string;
+    description: string | null;
+    poll_type: PollType;
+    creator_id: string;
+    is_active: boolean;
+    anonymous: boolean;
+    created_at: string;
+    expires_at: string | null;
+  };
+  /** Ranked polls count first-choice votes */
+  totals: PollExportTotal[];
+  total_votes: number;
+  timeline: PollExportVote[];
+  exported_at: string;
+}
+
+const CONTENT_TYPES: Record<PollExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Check whether a value is a supported export format
+ */
+export function isPollExportFormat(value: unknown): value is PollExportFormat {
+  return typeof value === 'string' && (POLL_EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Load a poll's totals and vote timeline. Returns null when the poll is not
+ * visible to the caller.
+ */
+export async function loadPollExport(
+  supabase: SupabaseServerClient,
+  pollId: string
+): Promise<PollExport | null> {
+  const { data: poll, error: pollError } = await supabase
+    .from('polls')
+    .select(`
+      id,
+      title,
+      description,
+      poll_type,
+      creator_id,
+      is_active,
+      allow_anonymous,
+      created_at,
+      expires_at,
+      poll_options (
+        id,
+        text,
+        order_index
+      )
+    `)
+    .eq('id', pollId)
+    .single();
+
+  if (pollError || !poll) {
+    return null;
+  }
+
+  const { data: votes, error: votesError } = await supabase
+    .from('votes')
+    .select('option_id, user_id, rank, created_at')
+    .eq('poll_id', pollId)
+    .order('created_at', { ascending: true });
+
+  if (votesError) {
+    throw new Error('Failed to load votes');
+  }
+
+  const anonymous = poll.allow_anonymous === true;
+  const isRanked = poll.poll_type === 'ranked';
+  const options = [...(poll.poll_options || [])].sort((a, b) => a.order_index - b.order_index);
+  const optionText = new Map(options.map(option => [option.id, option.text]));
+
+  // Voter names are only looked up when the poll isn't anonymous
+  const usernames = new Map<string, string>();
+  const voterIds = anonymous
+    ? []
+    : [...new Set((votes || []).map(vote => vote.user_id).filter((id): id is string => !!id))];
+
+  if (voterIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, username')
+      .in('id', voterIds);
+
+    for (const profile of profiles || []) {
+      usernames.set(profile.id, profile.username);
+    }
+  }
+
+  const counts = new Map<string, number>();
+  for (const vote of votes || []) {
+    if (isRanked && vote.rank !== null && vote.rank !== 1) continue;
+    counts.set(vote.option_id, (counts.get(vote.option_id) || 0) + 1);
+  }
+  const totalVotes = [...counts.values()].reduce((sum, count) => sum + count, 0);
+
+  return {
+    poll: {
+      id: poll.id,
+      title: poll.title,
+      description: poll.description ?? null,
+      poll_type: isRanked ? 'ranked' : 'standard',
+      creator_id: poll.creator_id,
+      is_active: poll.is_active,
+      anonymous,
+      created_at: poll.created_at,
+      expires_at: poll.expires_at ?? null,
+    },
+    totals: options.map(option => {
+      const optionVotes = counts.get(option.id) || 0;
+      return {
+        option: option.text,
+        votes: optionVotes,
+        percentage: totalVotes > 0 ? Math.round((optionVotes / totalVotes) * 1000) / 10 : 0,
+      };
+    }),
+    total_votes: totalVotes,
+    timeline: (votes || []).map(vote => ({
+      voted_at: vote.created_at,
+      option: optionText.get(vote.option_id) || 'Unknown option',
+      rank: isRanked ? vote.rank ?? null : null,
+      voter: anonymous || !vote.user_id
+        ? 'Anonymous'
+        : usernames.get(vote.user_id) || 'Unknown user',
+    })),
+    exported_at: new Date().toISOString(),
+  };
+}
+
+const escapeCsv = (value: XlsxCell): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  // Prefix formula-like values so spreadsheet apps don't evaluate them
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+function totalsRows(data: PollExport): XlsxCell[][] {
+  return [
+    ['Option', data.poll.poll_type === 'ranked' ? 'First-choice votes' : 'Votes', 'Percentage'],
+    ...data.totals.map(total => [total.option, total.votes, total.percentage]),
+  ];
+}
+
+function timelineRows(data: PollExport): XlsxCell[][] {
+  const isRanked = data.poll.poll_type === 'ranked';
+  return [
+    ['Voted at', 'Option', ...(isRanked ? ['Rank'] : []), 'Voter'],
+    ...data.timeline.map(vote => [
+      vote.voted_at,
+      vote.option,
+      ...(isRanked ? [vote.rank] : []),
+      vote.voter,
+    ]),
+  ];
+}
+
+/**
+ * Serialise an export. CSV files hold the totals table, a blank line, then
+ * the vote timeline; XLSX workbooks put each on its own sheet.
+ */
+export function serializePollExport(data: PollExport, format: PollExportFormat): {
+  body: string | Buffer;
+  contentType: string;
+} {
+  switch (format) {
+    case 'json':
+      return { body: JSON.stringify(data, null, 2), contentType: CONTENT_TYPES.json };
+    case 'xlsx':
+      return {
+        body: createXlsx([
+          { name: 'Totals', rows: totalsRows(data) },
+          { name: 'Votes', rows: timelineRows(data) },
+        ]),
+        contentType: CONTENT_TYPES.xlsx,
+      };
+    case 'csv':
+    default: {
+      const toCsv = (rows: XlsxCell[][]) => rows.map(row => row.map(escapeCsv).join(',')).join('\r\n');
+      return {
+        body: `${toCsv(totalsRows(data))}\r\n\r\n${toCsv(timelineRows(data))}\r\n`,
+        contentType: CONTENT_TYPES.csv,
+      };
+    }
+  }
+}
+
+/**
+ * File name for an exported poll, e.g. "lunch-vote-3f2a9c1d.csv"
+ */
+export function getPollExportFileName(data: PollExport, extension: string): string {
+  const slug = data.poll.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+
+  return `${slug || 'poll'}-${data.poll.id.slice(0, 8)}.${extension}`;
+}
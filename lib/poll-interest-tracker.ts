@@ -25,7 +25,7 @@ export class PollInterestTracker {
           interest_type: interest.interestType,
           email_notifications_enabled: interest.emailNotificationsEnabled ?? true,
         }, {
-          onConflict: 'user_id,poll_id,interest_type'
+          onConflict: 'user_id,poll_id'
         });
 
       if (error) {
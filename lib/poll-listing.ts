@@ -0,0 +1,149 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { normalizeSearchQuery } from '@/lib/poll-search';
+import { PollListFilters, PollListSort, PollListStatus } from '@/types/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * 📜 POLL LISTING
+ *
+ * Cursor pagination for the public poll listing. `list_polls` filters and
+ * sorts in the database and returns one page of poll ids; the last row's
+ * sort key is handed back as an opaque cursor, so polls created while
+ * someone scrolls never shift or repeat later pages.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/actions/poll.ts (listPolls, behind components/polls/PollsList.tsx)
+ * - app/api/polls/route.ts (GET)
+ */
+
+export const POLL_LIST_SORTS: PollListSort[] = ['newest', 'most_votes', 'ending_soon'];
+
+export const POLL_LIST_STATUSES: PollListStatus[] = ['all', 'open', 'upcoming', 'closed'];
+
+export const DEFAULT_POLL_LIST_LIMIT = 10;
+
+export const MAX_POLL_LIST_LIMIT = 50;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+/**
+ * Decoded cursor: the sort it belongs to, and the last poll's id and sort key
+ */
+export interface PollCursor {
+  s: PollListSort;
+  id: string;
+  t: string | null; // created_at for 'newest', expires_at for 'ending_soon'
+  v: number | null; // vote count for 'most_votes'
+}
+
+interface ListedPollRow {
+  poll_id: string;
+  created_at: string;
+  expires_at: string | null;
+  vote_count: number;
+}
+
+/**
+ * Check whether a value is a valid listing sort
+ */
+export function isPollListSort(value: unknown): value is PollListSort {
+  return typeof value === 'string' && (POLL_LIST_SORTS as string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a valid listing status filter
+ */
+export function isPollListStatus(value: unknown): value is PollListStatus {
+  return typeof value === 'string' && (POLL_LIST_STATUSES as string[]).includes(value);
+}
+
+function encodePollCursor(sort: PollListSort, row: ListedPollRow): string {
+  const cursor: PollCursor = {
+    s: sort,
+    id: row.poll_id,
+    t: sort === 'newest' ? row.created_at : sort === 'ending_soon' ? row.expires_at : null,
+    v: sort === 'most_votes' ? Number(row.vote_count) : null,
+  };
+
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from a previous page. Returns null if it is malformed or
+ * was issued for a different sort.
+ */
+export function decodePollCursor(cursor: string, sort: PollListSort): PollCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!parsed || typeof parsed !== 'object') return null;
+
+    const { s, id, t, v } = parsed as Record<string, unknown>;
+    if (s !== sort || typeof id !== 'string' || !UUID_PATTERN.test(id)) return null;
+
+    const time = typeof t === 'string' && !isNaN(Date.parse(t)) ? t : null;
+    const votes = typeof v === 'number' && Number.isInteger(v) && v >= 0 ? v : null;
+
+    if (sort === 'newest' && !time) return null;
+    if (sort === 'most_votes' && votes === null) return null;
+    if (sort === 'ending_soon' && t !== null && !time) return null;
+
+    return { s: sort, id, t: time, v: votes };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch one page of listed poll ids, in listing order.
+ *
+ * `mine` and `voted` refer to `viewerId`; without one they match nothing.
+ * Pass a cursor already checked with `decodePollCursor`.
+ */
+export async function listPollIds(
+  supabase: SupabaseServerClient,
+  filters: PollListFilters,
+  options: { cursor?: PollCursor | null; limit?: number; viewerId?: string | null } = {}
+): Promise<{ ids: string[]; nextCursor: string | null; hasMore: boolean }> {
+  const sort = filters.sort || 'newest';
+  const limit = Math.min(Math.max(options.limit || DEFAULT_POLL_LIST_LIMIT, 1), MAX_POLL_LIST_LIMIT);
+  const viewerId = options.viewerId || null;
+
+  if ((filters.mine || filters.voted) && !viewerId) {
+    return { ids: [], nextCursor: null, hasMore: false };
+  }
+
+  const after = options.cursor && options.cursor.s === sort ? options.cursor : null;
+
+  // One extra row tells us whether another page follows
+  const { data, error } = await supabase.rpc('list_polls', {
+    sort_by: sort,
+    status_filter: filters.status || 'all',
+    creator_uuid: filters.mine ? viewerId : filters.creator_id || null,
+    voted_only: !!filters.voted,
+    created_after: filters.created_after || null,
+    created_before: filters.created_before || null,
+    search_query: normalizeSearchQuery(filters.search),
+    tag_slug: filters.tag || null,
+    after_id: after?.id ?? null,
+    after_time: after?.t ?? null,
+    after_votes: after?.v ?? null,
+    page_size: limit + 1,
+  });
+
+  if (error) {
+    console.error('[POLLS] Poll listing failed:', error);
+    throw new Error('Failed to list polls');
+  }
+
+  const rows: ListedPollRow[] = data || [];
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    ids: page.map(row => row.poll_id),
+    nextCursor: hasMore && last ? encodePollCursor(sort, last) : null,
+    hasMore,
+  };
+}
@@ -0,0 +1,85 @@
+import { createSupabaseServerClient, createSupabaseServiceClient } from '@/lib/supabase-server';
+import { ResultsVisibility } from '@/types/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * 📊 POLL RESULTS ACCESS
+ *
+ * Server-side helpers for the per-poll `results_visibility` setting. The rules
+ * live in the `can_view_poll_results` database function (the votes RLS
+ * policy and the poll_results view use the same rules without an IP).
+ * Anonymous voters are recognised by IP for `after_vote` polls; the database
+ * only accepts an IP from the service role, so checks and vote reads for
+ * them go through the service client. Pass `voterIp` only for anonymous
+ * viewers.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/actions/poll.ts, lib/actions/vote.ts
+ * - app/api/polls, app/api/polls/[id], app/api/polls/[id]/vote and
+ *   app/api/polls/[id]/audit routes
+ */
+
+export const RESULTS_VISIBILITY_OPTIONS: ResultsVisibility[] = ['always', 'after_vote', 'after_close', 'creator_only'];
+
+/**
+ * Check whether a value is a valid results visibility mode
+ */
+export function isResultsVisibility(value: unknown): value is ResultsVisibility {
+  return typeof value === 'string' && (RESULTS_VISIBILITY_OPTIONS as string[]).includes(value);
+}
+
+function knownVoterIp(voterIp?: string): string | null {
+  return voterIp && voterIp !== 'unknown' ? voterIp : null;
+}
+
+/**
+ * The client to check and read a poll's results with: the viewer's own
+ * client, or the service client for an anonymous viewer identified by IP.
+ * Only read votes with it once canViewPollResults has allowed it.
+ */
+export function getResultsClient(supabase: SupabaseServerClient, voterIp?: string): SupabaseServerClient {
+  return knownVoterIp(voterIp) ? createSupabaseServiceClient() : supabase;
+}
+
+/**
+ * Check whether the current viewer may see a poll's results
+ */
+export async function canViewPollResults(
+  supabase: SupabaseServerClient,
+  pollId: string,
+  voterIp?: string
+): Promise<boolean> {
+  const { data, error } = await getResultsClient(supabase, voterIp).rpc('can_view_poll_results', {
+    poll_uuid: pollId,
+    voter_ip: knownVoterIp(voterIp),
+  });
+
+  if (error) {
+    console.error('Error checking poll results visibility:', error);
+    return false;
+  }
+
+  return data === true;
+}
+
+/**
+ * Get the current voter's own votes on a poll (by user, or by IP when anonymous).
+ * Works regardless of results visibility, so duplicate-vote checks stay accurate.
+ */
+export async function getVoterVotes(
+  supabase: SupabaseServerClient,
+  pollId: string,
+  voterIp?: string
+): Promise<{ id: string; option_id: string; rank: number | null }[]> {
+  const { data, error } = await getResultsClient(supabase, voterIp).rpc('get_voter_votes', {
+    poll_uuid: pollId,
+    voter_ip: knownVoterIp(voterIp),
+  });
+
+  if (error) {
+    throw new Error('Failed to fetch existing votes');
+  }
+
+  return data || [];
+}
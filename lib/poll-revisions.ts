@@ -0,0 +1,190 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { PollRevisionSnapshot } from '@/types/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * 📝 POLL REVISIONS
+ *
+ * Versioned poll edits. All changes go through the `apply_poll_edit`
+ * database function, which snapshots the poll into `poll_revisions`, deletes
+ * votes on removed options and records the affected voters. These helpers
+ * validate edits, call the function and diff revisions for display.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/actions/poll-revisions.ts
+ * - app/api/polls/[id] route (PUT)
+ * - components/polls/PollHistory.tsx (diffs)
+ */
+
+export const MAX_POLL_OPTIONS = 10;
+
+/**
+ * An option in an edit: existing options keep their id, new ones have none
+ */
+export interface PollOptionEdit {
+  id?: string;
+  text: string;
+}
+
+export interface PollEdit {
+  title?: string;
+  description?: string | null;
+  /** Complete ordered option list; existing options left out are removed */
+  options?: PollOptionEdit[];
+}
+
+export interface PollEditResult {
+  success: boolean;
+  error?: string;
+  changed?: boolean;
+  revisionNumber?: number | null;
+  invalidatedVotes?: number;
+}
+
+export type PollRevisionChange =
+  | { type: 'title'; from: string; to: string }
+  | { type: 'description'; from: string | null; to: string | null }
+  | { type: 'option_added'; text: string }
+  | { type: 'option_removed'; text: string }
+  | { type: 'option_renamed'; from: string; to: string }
+  | { type: 'options_reordered' };
+
+/**
+ * Validate an edit's shape before sending it to the database.
+ * Returns an error message, or null when the edit is valid.
+ */
+export function validatePollEdit(edit: PollEdit): string | null {
+  if (edit.title !== undefined) {
+    if (typeof edit.title !== 'string' || !edit.title.trim()) {
+      return 'Title must be a non-empty string';
+    }
+    if (edit.title.length > 200) {
+      return 'Title must be 200 characters or less';
+    }
+  }
+
+  if (edit.description !== undefined && edit.description !== null) {
+    if (typeof edit.description !== 'string' || edit.description.length > 1000) {
+      return 'Description must be 1000 characters or less';
+    }
+  }
+
+  if (edit.options !== undefined) {
+    if (!Array.isArray(edit.options) || edit.options.length < 2) {
+      return 'At least 2 poll options are required';
+    }
+    if (edit.options.length > MAX_POLL_OPTIONS) {
+      return `Maximum ${MAX_POLL_OPTIONS} options allowed`;
+    }
+    for (const option of edit.options) {
+      if (!option || typeof option.text !== 'string' || !option.text.trim()) {
+        return 'All options must have text';
+      }
+      if (option.text.length > 200) {
+        return 'Options must be 200 characters or less';
+      }
+      if (option.id !== undefined && typeof option.id !== 'string') {
+        return 'Invalid option id';
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply an edit through `apply_poll_edit` (creator or admin only)
+ */
+export async function applyPollEdit(
+  supabase: SupabaseServerClient,
+  pollId: string,
+  edit: PollEdit
+): Promise<PollEditResult> {
+  const validationError = validatePollEdit(edit);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  // Open-ended polls have no options to edit
+  if (edit.options !== undefined) {
+    const { data: poll } = await supabase
+      .from('polls')
+      .select('poll_type')
+      .eq('id', pollId)
+      .maybeSingle();
+
+    if (poll?.poll_type === 'text') {
+      return { success: false, error: 'Open-ended polls do not have options' };
+    }
+  }
+
+  const { data, error } = await supabase.rpc('apply_poll_edit', {
+    poll_uuid: pollId,
+    new_title: edit.title ?? null,
+    new_description: edit.description === undefined ? null : edit.description ?? '',
+    new_options: edit.options
+      ? edit.options.map(option => (option.id ? { id: option.id, text: option.text } : { text: option.text }))
+      : null,
+  });
+
+  if (error) {
+    console.error('Error applying poll edit:', error);
+    // Validation and permission errors raised by the function are safe to show
+    const isUserError = error.code === '22023' || error.code === '42501' || error.code === 'P0002';
+    return { success: false, error: isUserError ? error.message : 'Failed to update poll' };
+  }
+
+  return {
+    success: true,
+    changed: data?.changed === true,
+    revisionNumber: data?.revision_number ?? null,
+    invalidatedVotes: data?.invalidated_votes ?? 0,
+  };
+}
+
+/**
+ * List what changed between two revisions. Options are matched by id, so a
+ * rename keeps its votes while a remove-and-add does not.
+ */
+export function diffPollRevisions(
+  previous: PollRevisionSnapshot,
+  next: PollRevisionSnapshot
+): PollRevisionChange[] {
+  const changes: PollRevisionChange[] = [];
+
+  if (previous.title !== next.title) {
+    changes.push({ type: 'title', from: previous.title, to: next.title });
+  }
+
+  if ((previous.description || null) !== (next.description || null)) {
+    changes.push({ type: 'description', from: previous.description || null, to: next.description || null });
+  }
+
+  const previousOptions = new Map(previous.options.map(option => [option.id, option]));
+  const nextIds = new Set(next.options.map(option => option.id));
+
+  for (const option of previous.options) {
+    if (!nextIds.has(option.id)) {
+      changes.push({ type: 'option_removed', text: option.text });
+    }
+  }
+
+  for (const option of next.options) {
+    const before = previousOptions.get(option.id);
+    if (!before) {
+      changes.push({ type: 'option_added', text: option.text });
+    } else if (before.text !== option.text) {
+      changes.push({ type: 'option_renamed', from: before.text, to: option.text });
+    }
+  }
+
+  // Compare the relative order of options present in both revisions
+  const keptBefore = previous.options.filter(option => nextIds.has(option.id)).map(option => option.id);
+  const keptAfter = next.options.filter(option => previousOptions.has(option.id)).map(option => option.id);
+  if (keptBefore.some((id, index) => keptAfter[index] !== id)) {
+    changes.push({ type: 'options_reordered' });
+  }
+
+  return changes;
+}
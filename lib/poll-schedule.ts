@@ -0,0 +1,48 @@
+import { PollStatus } from '@/types/database';
+
+/**
+ * 🗓️ POLL SCHEDULING
+ *
+ * Helpers for draft polls and scheduled opening (`status` / `opens_at`).
+ * The database enforces the same rules in the votes INSERT policy; these keep
+ * the app's messages and validation in line with it.
+ */
+
+export const POLL_STATUSES: PollStatus[] = ['draft', 'published'];
+
+/**
+ * Check whether a value is a valid poll status
+ */
+export function isPollStatus(value: unknown): value is PollStatus {
+  return typeof value === 'string' && (POLL_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Whether a published poll is still waiting for its scheduled opening time
+ */
+export function isPollScheduled(poll: { status?: PollStatus | null; opens_at?: string | null }): boolean {
+  return poll.status !== 'draft' && !!poll.opens_at && new Date(poll.opens_at) > new Date();
+}
+
+/**
+ * Validate a requested opening time against the poll's expiry.
+ * Returns an error message, or null when the schedule is valid.
+ */
+export function validatePollSchedule(opensAt?: string | null, expiresAt?: string | null): string | null {
+  if (!opensAt) return null;
+
+  const opens = new Date(opensAt);
+  if (isNaN(opens.getTime())) {
+    return 'Invalid opening date';
+  }
+
+  if (opens <= new Date()) {
+    return 'Opening date must be in the future';
+  }
+
+  if (expiresAt && new Date(expiresAt) <= opens) {
+    return 'Expiration date must be after the opening date';
+  }
+
+  return null;
+}
@@ -0,0 +1,101 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { HighlightSegment, PollSearchResult } from '@/types/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * 🔎 POLL SEARCH
+ *
+ * Full-text search over poll titles, descriptions and option texts, backed
+ * by the `search_vector` column and `search_polls` (ranked matches with
+ * highlighted fragments). Each typed word matches the start of a word, so
+ * results can be shown while someone types.
+ *
+ * USAGE IN CODEBASE:
+ * - app/api/polls/search/route.ts (GET)
+ * - lib/actions/poll.ts and lib/poll-listing.ts (the listing's `search` filter)
+ */
+
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+
+export const MAX_SEARCH_QUERY_LENGTH = 100;
+
+export const DEFAULT_SEARCH_RESULTS = 8;
+
+export const MAX_SEARCH_RESULTS = 20;
+
+const HIGHLIGHT_START = '<mark>';
+const HIGHLIGHT_END = '</mark>';
+
+interface SearchPollRow {
+  poll_id: string;
+  title: string;
+  created_at: string;
+  expires_at: string | null;
+  rank: number;
+  title_highlight: string | null;
+  snippet: string | null;
+}
+
+/**
+ * Split a `ts_headline` fragment into plain and matched segments, so it can
+ * be rendered as text instead of HTML
+ */
+export function toHighlightSegments(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+
+  for (const [index, part] of headline.split(HIGHLIGHT_START).entries()) {
+    const [matched, rest] = index === 0 ? [null, part] : splitOnce(part, HIGHLIGHT_END);
+    if (matched) segments.push({ text: matched, match: true });
+    if (rest) segments.push({ text: rest, match: false });
+  }
+
+  return segments;
+}
+
+function splitOnce(text: string, separator: string): [string, string] {
+  const at = text.indexOf(separator);
+  return at === -1 ? [text, ''] : [text.slice(0, at), text.slice(at + separator.length)];
+}
+
+/**
+ * Trim a search query and check its length. Returns null when it is too
+ * short to search for or too long.
+ */
+export function normalizeSearchQuery(query: string | null | undefined): string | null {
+  const trimmed = query?.trim().replace(/\s+/g, ' ') || '';
+  return trimmed.length >= MIN_SEARCH_QUERY_LENGTH && trimmed.length <= MAX_SEARCH_QUERY_LENGTH
+    ? trimmed
+    : null;
+}
+
+/**
+ * Ranked search across listed polls (active, published and public)
+ */
+export async function searchPolls(
+  supabase: SupabaseServerClient,
+  query: string,
+  limit: number = DEFAULT_SEARCH_RESULTS
+): Promise<PollSearchResult[]> {
+  const { data, error } = await supabase.rpc('search_polls', {
+    search_query: query,
+    result_limit: Math.min(Math.max(limit, 1), MAX_SEARCH_RESULTS),
+  });
+
+  if (error) {
+    console.error('[POLLS] Poll search failed:', error);
+    throw new Error('Failed to search polls');
+  }
+
+  const rows: SearchPollRow[] = data || [];
+
+  return rows.map(row => ({
+    id: row.poll_id,
+    title: row.title,
+    created_at: row.created_at,
+    expires_at: row.expires_at,
+    rank: row.rank,
+    title_highlight: toHighlightSegments(row.title_highlight || row.title),
+    snippet: row.snippet ? toHighlightSegments(row.snippet) : [],
+  }));
+}
@@ -0,0 +1,175 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { PollTag, TagSuggestion } from '@/types/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * 🏷️ POLL TAGS
+ *
+ * Free-form tags that creators attach to polls, plus the official
+ * categories admins curate from them. A tag is identified by its slug, so
+ * spellings that slugify the same way share one tag and one tag page.
+ * `set_poll_tags` creates missing tags and replaces a poll's tags in one
+ * call; `suggest_tags` powers autocomplete.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/actions/poll.ts (createPoll, listPolls) and lib/actions/tags.ts
+ * - lib/actions/admin/tags.ts (category management)
+ * - app/api/polls/route.ts (POST tags, GET tag filter)
+ */
+
+export const MAX_TAGS_PER_POLL = 5;
+
+export const MAX_TAG_NAME_LENGTH = 40;
+
+export const MAX_TAG_DESCRIPTION_LENGTH = 200;
+
+export const DEFAULT_TAG_SUGGESTIONS = 8;
+
+const TAG_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Columns embedded with a poll, e.g. `select('*, tags(...)')`
+export const POLL_TAG_COLUMNS = 'id, name, slug, is_category';
+
+/**
+ * Turn a tag name into its URL slug ("Climate Change!" -> "climate-change").
+ * Mirrors `tag_slug` in the database.
+ */
+export function slugifyTag(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_TAG_NAME_LENGTH)
+    .replace(/-+$/, '');
+}
+
+/**
+ * Check whether a value is a well-formed tag slug
+ */
+export function isTagSlug(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_TAG_NAME_LENGTH && TAG_SLUG_PATTERN.test(value);
+}
+
+/**
+ * Trim tag names and drop duplicates (by slug), keeping the first spelling.
+ * Returns an error for names without letters or numbers, names that are too
+ * long, or more than `MAX_TAGS_PER_POLL` tags.
+ */
+export function normalizeTagNames(names: string[]): { names: string[]; error?: string } {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+
+  for (const raw of names) {
+    const name = raw.trim().replace(/\s+/g, ' ');
+    if (!name) continue;
+
+    if (name.length > MAX_TAG_NAME_LENGTH) {
+      return { names: [], error: `Tags can be at most ${MAX_TAG_NAME_LENGTH} characters` };
+    }
+
+    const slug = slugifyTag(name);
+    if (!slug) {
+      return { names: [], error: `"${name}" is not a valid tag; use letters or numbers` };
+    }
+
+    if (!seen.has(slug)) {
+      seen.add(slug);
+      normalized.push(name);
+    }
+  }
+
+  if (normalized.length > MAX_TAGS_PER_POLL) {
+    return { names: [], error: `A poll can have at most ${MAX_TAGS_PER_POLL} tags` };
+  }
+
+  return { names: normalized };
+}
+
+export interface CategoryInput {
+  name: string;
+  description?: string | null;
+}
+
+/**
+ * Validate a category before saving.
+ * Returns an error message, or null when the input is valid.
+ */
+export function validateCategory(input: CategoryInput): string | null {
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    return 'Name is required';
+  }
+  if (input.name.trim().length > MAX_TAG_NAME_LENGTH) {
+    return `Name must be ${MAX_TAG_NAME_LENGTH} characters or less`;
+  }
+  if (!slugifyTag(input.name)) {
+    return 'Name must contain letters or numbers';
+  }
+  if (input.description && input.description.trim().length > MAX_TAG_DESCRIPTION_LENGTH) {
+    return `Description must be ${MAX_TAG_DESCRIPTION_LENGTH} characters or less`;
+  }
+  return null;
+}
+
+/**
+ * Replace a poll's tags, creating any that do not exist yet.
+ * Pass names already checked with `normalizeTagNames`.
+ */
+export async function setPollTags(
+  supabase: SupabaseServerClient,
+  pollId: string,
+  names: string[]
+): Promise<{ success: boolean; tags?: PollTag[]; error?: string }> {
+  const { data, error } = await supabase.rpc('set_poll_tags', {
+    poll_uuid: pollId,
+    tag_names: names,
+  });
+
+  if (error) {
+    console.error('[POLLS] Failed to set poll tags:', error);
+    return { success: false, error: 'Failed to save tags' };
+  }
+
+  const tags: PollTag[] = (data || []).map((tag: PollTag) => ({
+    id: tag.id,
+    name: tag.name,
+    slug: tag.slug,
+    is_category: tag.is_category,
+  }));
+
+  return { success: true, tags };
+}
+
+/**
+ * Tags starting with `prefix`, categories first and then by how many
+ * listed polls use them. An empty prefix returns the most used tags.
+ */
+export async function suggestTags(
+  supabase: SupabaseServerClient,
+  prefix: string,
+  limit: number = DEFAULT_TAG_SUGGESTIONS
+): Promise<TagSuggestion[]> {
+  const { data, error } = await supabase.rpc('suggest_tags', {
+    search_prefix: prefix.trim().slice(0, MAX_TAG_NAME_LENGTH),
+    result_limit: limit,
+  });
+
+  if (error) {
+    console.error('[POLLS] Tag suggestions failed:', error);
+    throw new Error('Failed to load tag suggestions');
+  }
+
+  return (data || []).map((tag: TagSuggestion) => ({
+    ...tag,
+    poll_count: Number(tag.poll_count),
+  }));
+}
+
+/**
+ * Sort a poll's tags for display: categories first, then by name
+ */
+export function sortPollTags(tags: PollTag[] | null | undefined): PollTag[] {
+  return [...(tags || [])].sort((a, b) =>
+    a.is_category === b.is_category ? a.name.localeCompare(b.name) : a.is_category ? -1 : 1
+  );
+}
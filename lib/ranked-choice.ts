@@ -0,0 +1,127 @@
+import { RunoffResult, RunoffRound } from '@/types/database';
+
+/**
+ * A single ranked vote row as stored in the votes table
+ */
+export interface RankedVoteRow {
+  option_id: string;
+  user_id?: string | null;
+  ip_address?: string | null;
+  rank?: number | null;
+}
+
+/**
+ * Group ranked vote rows into ballots (one ordered list of option IDs per voter)
+ */
+export function buildBallots(rows: RankedVoteRow[]): string[][] {
+  const ballots = new Map<string, RankedVoteRow[]>();
+
+  for (const row of rows) {
+    const voterKey = row.user_id ? `user:${row.user_id}` : `ip:${row.ip_address || 'unknown'}`;
+    const ballot = ballots.get(voterKey) || [];
+    ballot.push(row);
+    ballots.set(voterKey, ballot);
+  }
+
+  return Array.from(ballots.values()).map(ballot =>
+    ballot
+      .sort((a, b) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER))
+      .map(row => row.option_id)
+  );
+}
+
+/**
+ * Count each ballot once, towards its highest-ranked option that still
+ * exists. These are the first-round tallies of tallyInstantRunoff, for
+ * listings that show counts without the full runoff.
+ */
+export function countFirstPreferences(
+  optionIds: string[],
+  rows: RankedVoteRow[]
+): { tallies: Record<string, number>; totalBallots: number } {
+  const options = new Set(optionIds);
+  const tallies: Record<string, number> = {};
+  optionIds.forEach(id => {
+    tallies[id] = 0;
+  });
+
+  const ballots = buildBallots(rows);
+  for (const ballot of ballots) {
+    const choice = ballot.find(id => options.has(id));
+    if (choice) {
+      tallies[choice]++;
+    }
+  }
+
+  return { tallies, totalBallots: ballots.length };
+}
+
+/**
+ * Run an instant-runoff tally over a set of ballots.
+ *
+ * Each round counts every ballot towards its highest-ranked option that is
+ * still in the race. An option with a majority of the non-exhausted ballots
+ * wins; otherwise the option(s) with the fewest ballots are eliminated and
+ * the next round begins. If every remaining option is tied for last place
+ * the tally stops without a winner.
+ */
+export function tallyInstantRunoff(optionIds: string[], ballots: string[][]): RunoffResult {
+  const remaining = new Set(optionIds);
+  const rounds: RunoffRound[] = [];
+  let winnerId: string | null = null;
+
+  while (remaining.size > 0) {
+    const tallies: Record<string, number> = {};
+    remaining.forEach(id => {
+      tallies[id] = 0;
+    });
+
+    let exhausted = 0;
+    for (const ballot of ballots) {
+      const choice = ballot.find(id => remaining.has(id));
+      if (choice) {
+        tallies[choice]++;
+      } else {
+        exhausted++;
+      }
+    }
+
+    const round: RunoffRound = {
+      round: rounds.length + 1,
+      tallies,
+      eliminated: [],
+      exhausted,
+    };
+    rounds.push(round);
+
+    const activeBallots = ballots.length - exhausted;
+    const counts = Object.values(tallies);
+    const highest = Math.max(...counts);
+    const lowest = Math.min(...counts);
+
+    // No ballots left to count
+    if (activeBallots === 0) {
+      break;
+    }
+
+    // Majority winner, or last option standing
+    if (highest * 2 > activeBallots || remaining.size === 1) {
+      winnerId = Object.keys(tallies).find(id => tallies[id] === highest) || null;
+      break;
+    }
+
+    // Every remaining option is tied - no winner can be determined
+    if (highest === lowest) {
+      break;
+    }
+
+    round.eliminated = Object.keys(tallies).filter(id => tallies[id] === lowest);
+    round.eliminated.forEach(id => remaining.delete(id));
+  }
+
+  return {
+    rounds,
+    winner_id: winnerId,
+    total_ballots: ballots.length,
+  };
+}
@@ -0,0 +1,197 @@
+import { createSupabaseServiceClient } from '@/lib/supabase-server';
+import { DEFAULT_APP_SETTINGS, getRateLimitSettings, RateLimitRule, RateLimitSettings } from '@/lib/app-settings';
+
+/**
+ * 🚦 RATE LIMITING
+ *
+ * Sliding-window rate limits shared by every route and Server Action. Each
+ * limit is identified by name (`poll_creation`, `vote`, `login`) with its
+ * size and window read from the admin-managed `rate_limits` app setting, and
+ * is applied per key (a user id or client IP). Hits are kept in a pluggable
+ * store: the Postgres store (default) persists them in `rate_limit_hits` so
+ * limits survive deploys and hold across instances; the in-memory store is
+ * for local development and single-instance setups (`RATE_LIMIT_STORE=memory`).
+ *
+ * USAGE IN CODEBASE:
+ * - app/api/polls route (POST), app/api/polls/[id]/vote route, app/api/auth/login route
+ * - lib/actions/poll.ts (createPoll), lib/actions/vote.ts (submitVote)
+ */
+
+export type RateLimitName = keyof RateLimitSettings;
+
+/**
+ * Outcome of recording a hit in a store
+ */
+export interface RateLimitHit {
+  allowed: boolean;
+  /** Hits in the current window, including this one when allowed */
+  count: number;
+  /** Milliseconds until the oldest hit in the window expires */
+  resetAfterMs: number;
+}
+
+/**
+ * Storage backend for rate limit hits. `hit` must check and record
+ * atomically so concurrent requests cannot exceed the limit.
+ */
+export interface RateLimitStore {
+  hit(bucket: string, windowMs: number, maxHits: number): Promise<RateLimitHit>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  windowSeconds: number;
+  /** Seconds until a slot frees up in the window */
+  resetSeconds: number;
+}
+
+// Bound memory use when many distinct keys (e.g. IPs) hit the store
+const MEMORY_STORE_MAX_BUCKETS = 10000;
+
+/**
+ * Per-process store: fast, but resets on restart and is not shared
+ * between instances
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { hits: number[]; windowMs: number }>();
+
+  async hit(bucket: string, windowMs: number, maxHits: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const hits = (this.buckets.get(bucket)?.hits || []).filter(timestamp => timestamp > now - windowMs);
+
+    const allowed = hits.length < maxHits;
+    if (allowed) {
+      hits.push(now);
+    }
+
+    this.buckets.set(bucket, { hits, windowMs });
+    if (this.buckets.size > MEMORY_STORE_MAX_BUCKETS) {
+      this.prune(now);
+    }
+
+    return { allowed, count: hits.length, resetAfterMs: Math.max(hits[0] + windowMs - now, 0) };
+  }
+
+  /** Drop buckets whose newest hit has left its window */
+  private prune(now: number): void {
+    for (const [bucket, { hits, windowMs }] of this.buckets) {
+      if (!hits.length || hits[hits.length - 1] <= now - windowMs) {
+        this.buckets.delete(bucket);
+      }
+    }
+  }
+}
+
+/**
+ * Store backed by the `rate_limit_hit` database function. The function
+ * takes the bucket and limits from its caller, so it is granted to the
+ * service role only and called through the service client.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async hit(bucket: string, windowMs: number, maxHits: number): Promise<RateLimitHit> {
+    const supabase = createSupabaseServiceClient();
+    const { data, error } = await supabase.rpc('rate_limit_hit', {
+      bucket_key: bucket,
+      window_ms: windowMs,
+      max_hits: maxHits,
+    });
+
+    if (error) {
+      throw new Error(`rate_limit_hit failed: ${error.message}`);
+    }
+
+    return {
+      allowed: data?.allowed === true,
+      count: Number(data?.count) || 0,
+      resetAfterMs: Number(data?.reset_after_ms) || 0,
+    };
+  }
+}
+
+const createDefaultStore = (): RateLimitStore =>
+  process.env.RATE_LIMIT_STORE === 'memory' ? new MemoryRateLimitStore() : new PostgresRateLimitStore();
+
+let rateLimitStore: RateLimitStore = createDefaultStore();
+
+// Used when the configured store is unreachable so limits still apply per instance
+const fallbackStore = new MemoryRateLimitStore();
+
+/**
+ * Replace the store, e.g. with a Redis-backed implementation
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
+
+/**
+ * Use the configured rule, or the default when the stored one is incomplete
+ */
+const resolveRule = (rule: Partial<RateLimitRule> | undefined, fallback: RateLimitRule): RateLimitRule => {
+  const maxRequests = Number(rule?.max_requests);
+  const windowSeconds = Number(rule?.window_seconds);
+
+  return {
+    max_requests: Number.isInteger(maxRequests) && maxRequests > 0 ? maxRequests : fallback.max_requests,
+    window_seconds: Number.isInteger(windowSeconds) && windowSeconds > 0 ? windowSeconds : fallback.window_seconds,
+  };
+};
+
+/**
+ * Record a request against a named limit for a key (user id or IP).
+ * The request counts only when it is allowed, so blocked retries do not
+ * extend the wait.
+ */
+export async function consumeRateLimit(name: RateLimitName, key: string): Promise<RateLimitResult> {
+  const settings = await getRateLimitSettings();
+  const rule = resolveRule(settings[name], DEFAULT_APP_SETTINGS.rate_limits[name]);
+  const bucket = `${name}:${key}`;
+  const windowMs = rule.window_seconds * 1000;
+
+  let hit: RateLimitHit;
+  try {
+    hit = await rateLimitStore.hit(bucket, windowMs, rule.max_requests);
+  } catch (error) {
+    console.error('[RATE_LIMIT] Store unavailable, using in-memory fallback:', error);
+    hit = await fallbackStore.hit(bucket, windowMs, rule.max_requests);
+  }
+
+  return {
+    allowed: hit.allowed,
+    limit: rule.max_requests,
+    remaining: Math.max(rule.max_requests - hit.count, 0),
+    windowSeconds: rule.window_seconds,
+    resetSeconds: Math.ceil(hit.resetAfterMs / 1000),
+  };
+}
+
+/**
+ * Standard `RateLimit-*` response headers, plus `Retry-After` when blocked
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': result.resetSeconds.toString(),
+    'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`,
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = Math.max(result.resetSeconds, 1).toString();
+  }
+
+  return headers;
+}
+
+/**
+ * Human-readable wait for error messages, e.g. "5 minutes"
+ */
+export function formatRetryAfter(result: RateLimitResult): string {
+  const seconds = Math.max(result.resetSeconds, 1);
+  if (seconds < 60) {
+    return `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+}
@@ -1,12 +1,4 @@
-import { Resend } from 'resend';
-
-if (!process.env.RESEND_API_KEY) {
-  throw new Error('RESEND_API_KEY environment variable is required');
-}
-
-export const resend = new Resend(process.env.RESEND_API_KEY);
-
-// Email template configurations
+// Sender addresses for every email transport (see lib/email-transport.ts)
 export const emailConfig = {
   from: process.env.FROM_EMAIL || 'notifications@yourdomain.com',
   replyTo: process.env.REPLY_TO_EMAIL || 'support@yourdomain.com',
@@ -19,10 +11,30 @@ export interface EmailTemplateData {
   userName: string;
   expiresAt: string;
   timeUntilExpiry: string;
+  /** Signed link that stops this poll's emails (see lib/unsubscribe.ts) */
+  unsubscribeUrl?: string;
 }
 
 export interface EmailNotificationResult {
   success: boolean;
   messageId?: string;
   error?: string;
-}
\ No newline at end of file
+}
+
+export interface DigestPollItem {
+  pollTitle: string;
+  pollUrl: string;
+  /** Short status line, e.g. "5 new votes" or "Closes in 2 hours" */
+  detail: string;
+}
+
+export interface DigestEmailData {
+  userName: string;
+  frequency: 'daily' | 'weekly';
+  newVotes: DigestPollItem[];
+  opened: DigestPollItem[];
+  closingSoon: DigestPollItem[];
+  results: DigestPollItem[];
+  /** Signed link that stops all notification emails */
+  unsubscribeUrl?: string;
+}
@@ -101,8 +101,8 @@ interface PollResultRow {
   option_id: string;
   option_text: string;
   order_index: number;
-  vote_count: number;
-  total_votes: number;
+  vote_count: number | null;
+  total_votes: number | null;
 }
 
 /**
@@ -201,6 +201,91 @@ export async function createSupabaseServerClient() {
   );
 }
 
+/**
+ * 🔑 COOKIE-LESS SERVER CLIENT
+ *
+ * Creates a server client that ignores the request's cookies, for requests
+ * authenticated some other way (API keys). Without an access token it acts
+ * as an anonymous visitor; with one, PostgREST and RLS see the token's user.
+ *
+ * @param accessToken - Signed user JWT sent as the Authorization header
+ * @returns Supabase client with no session storage
+ * @throws Error if environment variables are invalid
+ */
+export function createSupabaseTokenClient(accessToken?: string) {
+  const { supabaseUrl, supabaseAnonKey } = validateServerEnvironmentVariables();
+
+  return createServerClient(
+    supabaseUrl,
+    supabaseAnonKey,
+    {
+      cookies: {
+        getAll() {
+          return [];
+        },
+        setAll() {},
+      },
+      global: {
+        headers: {
+          'x-application-name': 'polly-app-server',
+          'x-client-version': '2.0.0',
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+        },
+      },
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+        detectSessionInUrl: false,
+      },
+    }
+  );
+}
+
+/**
+ * 🗝️ SERVICE ROLE CLIENT
+ *
+ * Creates a client authenticated with the service role key, which bypasses
+ * RLS and can call functions granted only to `service_role` (login lockout,
+ * rate limits, two-factor verification). Server-only: never pass it or its
+ * results to client components, and only use it for the narrow calls that
+ * need it.
+ *
+ * @returns Supabase client acting as service_role, with no session storage
+ * @throws Error if environment variables or the service role key are missing
+ */
+export function createSupabaseServiceClient() {
+  const { supabaseUrl } = validateServerEnvironmentVariables();
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!serviceRoleKey) {
+    throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY environment variable');
+  }
+
+  return createServerClient(
+    supabaseUrl,
+    serviceRoleKey,
+    {
+      cookies: {
+        getAll() {
+          return [];
+        },
+        setAll() {},
+      },
+      global: {
+        headers: {
+          'x-application-name': 'polly-app-server',
+          'x-client-version': '2.0.0',
+        },
+      },
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+        detectSessionInUrl: false,
+      },
+    }
+  );
+}
+
 /**
  * 📊 SECURE POLL RETRIEVAL WITH RESULTS
  * 
@@ -271,7 +356,9 @@ export async function getPollWithResults(pollId: string): Promise<Poll | null> {
       expires_at: firstRow.expires_at,
       created_at: firstRow.created_at,
       updated_at: firstRow.updated_at,
-      total_votes: firstRow.total_votes,
+      total_votes: firstRow.total_votes ?? 0,
+      // The database function returns NULL counts when results are hidden from the caller
+      results_hidden: firstRow.total_votes === null,
       options: []
     };
     
@@ -0,0 +1,152 @@
+import { MAX_POLL_OPTIONS } from '@/lib/poll-revisions';
+import { Survey, SurveyAnswer, SurveyQuestion } from '@/types/database';
+
+/**
+ * 📋 SURVEYS
+ *
+ * Shared rules for multi-question surveys. `submit_survey_response` enforces
+ * the answer rules in the database so a response is stored whole or not at
+ * all; these helpers validate the same rules up front for form feedback and
+ * decide whether a survey is open.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/actions/survey.ts
+ * - components/surveys/CreateSurveyForm.tsx, components/surveys/SurveyStepper.tsx
+ */
+
+export const MAX_SURVEY_QUESTIONS = 20;
+
+export interface SurveyQuestionInput {
+  text: string;
+  options: string[];
+  allow_multiple_choices: boolean;
+  is_required: boolean;
+}
+
+export interface SurveyInput {
+  title: string;
+  description?: string;
+  expires_at?: string;
+  questions: SurveyQuestionInput[];
+}
+
+/**
+ * Validate a new survey before saving.
+ * Returns an error message, or null when the input is valid.
+ */
+export function validateSurvey(input: SurveyInput): string | null {
+  if (typeof input.title !== 'string' || !input.title.trim()) {
+    return 'Survey title is required';
+  }
+  if (input.title.trim().length > 200) {
+    return 'Title must be 200 characters or less';
+  }
+  if (input.description && input.description.trim().length > 1000) {
+    return 'Description must be 1000 characters or less';
+  }
+
+  if (input.expires_at) {
+    const expiresAt = new Date(input.expires_at);
+    if (isNaN(expiresAt.getTime())) {
+      return 'Invalid expiration date';
+    }
+    if (expiresAt <= new Date()) {
+      return 'Expiration date must be in the future';
+    }
+  }
+
+  if (!Array.isArray(input.questions) || input.questions.length < 2) {
+    return 'A survey needs at least 2 questions';
+  }
+  if (input.questions.length > MAX_SURVEY_QUESTIONS) {
+    return `Maximum ${MAX_SURVEY_QUESTIONS} questions allowed`;
+  }
+
+  for (const [index, question] of input.questions.entries()) {
+    const label = `Question ${index + 1}`;
+
+    if (typeof question.text !== 'string' || !question.text.trim()) {
+      return `${label} needs text`;
+    }
+    if (question.text.trim().length > 500) {
+      return `${label} must be 500 characters or less`;
+    }
+
+    const options = Array.isArray(question.options) ? question.options.map(option => option?.trim()) : [];
+    if (options.length < 2) {
+      return `${label} needs at least 2 options`;
+    }
+    if (options.length > MAX_POLL_OPTIONS) {
+      return `${label} can have at most ${MAX_POLL_OPTIONS} options`;
+    }
+    if (options.some(option => !option)) {
+      return `All options in ${label.toLowerCase()} must have text`;
+    }
+    if (options.some(option => option.length > 200)) {
+      return `Options in ${label.toLowerCase()} must be 200 characters or less`;
+    }
+    if (new Set(options).size !== options.length) {
+      return `${label} has duplicate options`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check one question's answer against its choice rules.
+ * Returns an error message, or null when the answer is acceptable.
+ */
+export function validateSurveyAnswer(question: SurveyQuestion, optionIds: string[]): string | null {
+  if (question.is_required && optionIds.length === 0) {
+    return 'This question is required';
+  }
+  if (!question.allow_multiple_choices && optionIds.length > 1) {
+    return 'Choose only one option';
+  }
+
+  const validIds = new Set(question.options.map(option => option.id));
+  if (optionIds.some(id => !validIds.has(id))) {
+    return 'Invalid option selected';
+  }
+
+  return null;
+}
+
+/**
+ * Check every answer in a submission. Returns the first problem, naming the
+ * question, or null when the whole response can be submitted.
+ */
+export function validateSurveyAnswers(survey: Survey, answers: SurveyAnswer[]): string | null {
+  const answersByQuestion = new Map(answers.map(answer => [answer.question_id, answer.option_ids]));
+
+  if (answersByQuestion.size !== answers.length) {
+    return 'Each question can only be answered once';
+  }
+  if (answers.some(answer => !survey.questions.some(question => question.id === answer.question_id))) {
+    return 'Answers must refer to questions in this survey';
+  }
+
+  for (const question of survey.questions) {
+    const error = validateSurveyAnswer(question, answersByQuestion.get(question.id) || []);
+    if (error) {
+      return `Question ${question.position}: ${error}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a survey still accepts responses
+ */
+export function isSurveyOpen(survey: Pick<Survey, 'is_active' | 'expires_at'>): boolean {
+  return survey.is_active && (!survey.expires_at || new Date(survey.expires_at) > new Date());
+}
+
+/**
+ * Completed responses as a whole-number percentage of started ones
+ */
+export function getCompletionRate(started: number, completed: number): number {
+  return started > 0 ? Math.round((completed / started) * 100) : 0;
+}
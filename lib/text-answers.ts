@@ -0,0 +1,129 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { sanitizeInput } from '@/lib/utils';
+import { PollTextAnswer, TextAnswerKind } from '@/types/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * ✍️ TEXT ANSWERS
+ *
+ * Open-ended answers: the single answer on a `text` poll, or the
+ * "Other (please specify)" write-in on polls with `allow_write_in`. Answers
+ * are stored sanitized in `poll_text_answers` and wait for the creator's
+ * moderation; similar write-ins can be grouped and merged into an option
+ * with the `merge_write_ins` database function.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/actions/vote.ts (submitting), lib/actions/text-answers.ts (moderation)
+ * - components/polls/VotingComponent.tsx, components/polls/TextAnswerModeration.tsx
+ */
+
+export const MAX_TEXT_ANSWER_LENGTH = 500;
+
+// Columns safe to return to anyone allowed to read an answer
+export const TEXT_ANSWER_COLUMNS = 'id, poll_id, user_id, kind, text, status, merged_option_id, moderated_at, created_at';
+
+/**
+ * Write-ins that read the same once case, spacing and punctuation are ignored
+ */
+export interface WriteInGroup {
+  key: string;
+  /** Text of the earliest answer in the group, used as the suggested option name */
+  label: string;
+  answers: PollTextAnswer[];
+}
+
+/**
+ * Sanitize an answer for storage. Returns an empty string when nothing is left.
+ */
+export function cleanTextAnswer(text: string): string {
+  return sanitizeInput(text.replace(/\s+/g, ' ').trim()).slice(0, MAX_TEXT_ANSWER_LENGTH);
+}
+
+/**
+ * Key used to group similar write-ins
+ */
+export function normalizeWriteIn(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/&[a-z0-9#]+;/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Group write-ins by their normalized text, largest groups first
+ */
+export function groupWriteIns(answers: PollTextAnswer[]): WriteInGroup[] {
+  const groups = new Map<string, WriteInGroup>();
+
+  const byAge = [...answers].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  for (const answer of byAge) {
+    const key = normalizeWriteIn(answer.text) || answer.text;
+    const group = groups.get(key);
+    if (group) {
+      group.answers.push(answer);
+    } else {
+      groups.set(key, { key, label: answer.text, answers: [answer] });
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.answers.length - a.answers.length);
+}
+
+/**
+ * Store a voter's answer, replacing their earlier unmerged one.
+ * Anonymous voters are identified by IP address and cannot replace an answer.
+ */
+export async function replaceTextAnswer(
+  supabase: SupabaseServerClient,
+  answer: {
+    pollId: string;
+    kind: TextAnswerKind;
+    text: string;
+    userId: string | null;
+    clientIp: string;
+    userAgent: string;
+  }
+): Promise<{ success: boolean; error?: string }> {
+  if (answer.userId) {
+    await removeTextAnswer(supabase, answer.pollId, answer.userId);
+  }
+
+  const { error } = await supabase
+    .from('poll_text_answers')
+    .insert({
+      poll_id: answer.pollId,
+      user_id: answer.userId,
+      ip_address: answer.userId ? null : answer.clientIp,
+      user_agent: answer.userAgent,
+      kind: answer.kind,
+      text: answer.text,
+    });
+
+  if (error) {
+    console.error('Error saving text answer:', error);
+    return {
+      success: false,
+      error: error.code === '23505' ? 'You have already answered this poll' : 'Failed to save your answer',
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Withdraw a signed-in voter's answer that has not been merged into a vote
+ */
+export async function removeTextAnswer(supabase: SupabaseServerClient, pollId: string, userId: string) {
+  const { error } = await supabase
+    .from('poll_text_answers')
+    .delete()
+    .eq('poll_id', pollId)
+    .eq('user_id', userId)
+    .neq('status', 'merged');
+
+  if (error) {
+    console.error('Error removing text answer:', error);
+  }
+}
@@ -0,0 +1,122 @@
+import { createSupabaseServerClient, createSupabaseServiceClient } from '@/lib/supabase-server';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+type SupabaseServiceClient = ReturnType<typeof createSupabaseServiceClient>;
+
+/**
+ * 🔑 TWO-FACTOR AUTHENTICATION (TOTP)
+ *
+ * Thin wrappers around the 2FA database functions plus the helpers needed to
+ * hand a secret to an authenticator app. Codes are generated and verified in
+ * the database (see 20261019093000_two_factor_auth.sql); the secret only
+ * leaves it once, while enrollment is pending. Login verification is
+ * granted to service_role only and wrong codes are rate limited in the
+ * database; sessions that skip it are refused by every PostgREST request
+ * (see 20261019118000_two_factor_enforcement.sql).
+ *
+ * USAGE IN CODEBASE:
+ * - app/api/auth/login/route.ts (login challenge)
+ * - lib/actions/two-factor.ts (enrollment and management)
+ * - lib/auth.ts (admin requirement)
+ */
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  session_verified: boolean;
+  recovery_codes_remaining: number;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as RFC 4648 base32 without padding (the format authenticator apps expect)
+ */
+export function toBase32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Build the otpauth:// URI rendered as a QR code during enrollment
+ */
+export function buildOtpauthUri(base32Secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret: base32Secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: '6',
+    period: '30',
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Get the 2FA state of the user signed in on this client, or null if it could not be loaded
+ */
+export async function getTwoFactorStatus(supabase: SupabaseServerClient): Promise<TwoFactorStatus | null> {
+  const { data, error } = await supabase.rpc('get_two_factor_status').single();
+
+  if (error || !data) {
+    console.error('[AUTH] Failed to load two-factor status:', error);
+    return null;
+  }
+
+  return data as TwoFactorStatus;
+}
+
+/**
+ * Read the Supabase session id from an access token, which the login route
+ * has just received from Supabase Auth
+ */
+export function getAccessTokenSessionId(accessToken: string): string | null {
+  try {
+    const payload = JSON.parse(Buffer.from(accessToken.split('.')[1] || '', 'base64url').toString('utf8'));
+    return typeof payload.session_id === 'string' ? payload.session_id : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a TOTP or recovery code for a user who just signed in with their password.
+ * On success the session is recorded as having passed 2FA. Needs the service
+ * client; wrong codes count towards a pause on further checks.
+ */
+export async function verifyTwoFactorLogin(
+  serviceClient: SupabaseServiceClient,
+  userId: string,
+  sessionId: string,
+  code: string
+): Promise<boolean> {
+  const { data, error } = await serviceClient.rpc('verify_two_factor_login', {
+    target_user_id: userId,
+    target_session_id: sessionId,
+    code,
+  });
+
+  if (error) {
+    console.error('[AUTH] Two-factor verification failed:', error);
+    return false;
+  }
+
+  return data === true;
+}
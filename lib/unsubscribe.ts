@@ -0,0 +1,125 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * 📭 UNSUBSCRIBE LINKS
+ *
+ * Notification emails carry a signed, expiring token that turns off the
+ * poll's emails (or all emails) without signing in. Tokens are created and
+ * verified by the database (`create_unsubscribe_token`,
+ * `check_unsubscribe_token`, `unsubscribe_with_token`), which holds the
+ * per-user signing secrets.
+ *
+ * Each email links to the /unsubscribe confirmation page and sends RFC 8058
+ * `List-Unsubscribe` and `List-Unsubscribe-Post` headers pointing at
+ * POST /api/unsubscribe, so mail clients can unsubscribe in one click.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/email-notification-service.ts
+ * - app/unsubscribe/page.tsx, app/api/unsubscribe/route.ts
+ * - lib/actions/unsubscribe.ts
+ */
+
+export type UnsubscribeTokenStatus = 'valid' | 'invalid' | 'expired';
+
+export type UnsubscribeResult = 'unsubscribed' | 'unsubscribed_all' | 'invalid' | 'expired';
+
+export interface UnsubscribeLinks {
+  /** Confirmation page shown to people who click the link in the email */
+  pageUrl: string;
+  /** One-click endpoint for mail clients */
+  oneClickUrl: string;
+  headers: Record<string, string>;
+}
+
+export interface UnsubscribeTokenInfo {
+  status: UnsubscribeTokenStatus;
+  /** The poll the token unsubscribes from, or null for all emails */
+  pollId: string | null;
+  pollTitle: string | null;
+}
+
+/**
+ * Build the email links and headers for an unsubscribe token
+ */
+export function getUnsubscribeLinks(token: string): UnsubscribeLinks {
+  const query = `token=${encodeURIComponent(token)}`;
+  const oneClickUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/unsubscribe?${query}`;
+
+  return {
+    pageUrl: `${process.env.NEXT_PUBLIC_APP_URL}/unsubscribe?${query}`,
+    oneClickUrl,
+    headers: {
+      'List-Unsubscribe': `<${oneClickUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  };
+}
+
+/**
+ * Create unsubscribe links for a poll's emails, or for all emails when no
+ * poll is given. Returns null when a token cannot be created, in which case
+ * emails fall back to the settings page.
+ */
+export async function createUnsubscribeLinks(
+  supabase: SupabaseServerClient,
+  userId: string,
+  pollId: string | null = null
+): Promise<UnsubscribeLinks | null> {
+  const { data, error } = await supabase.rpc('create_unsubscribe_token', {
+    user_uuid: userId,
+    poll_uuid: pollId,
+  });
+
+  if (error || !data) {
+    console.error(`Error creating unsubscribe token for user ${userId}:`, error);
+    return null;
+  }
+
+  return getUnsubscribeLinks(data);
+}
+
+/**
+ * Look up what a token would unsubscribe from, without acting on it
+ */
+export async function checkUnsubscribeToken(
+  supabase: SupabaseServerClient,
+  token: string
+): Promise<UnsubscribeTokenInfo> {
+  const { data, error } = await supabase.rpc('check_unsubscribe_token', { token });
+  const row = Array.isArray(data) ? data[0] : data;
+
+  if (error || !row) {
+    if (error) console.error('Error checking unsubscribe token:', error);
+    return { status: 'invalid', pollId: null, pollTitle: null };
+  }
+
+  return {
+    status: row.status,
+    pollId: row.poll_id ?? null,
+    pollTitle: row.poll_title ?? null,
+  };
+}
+
+/**
+ * Apply a token, turning off the poll's emails or, with `allEmails`, every
+ * email for the token's user. Returns null when the database call fails.
+ */
+export async function applyUnsubscribeToken(
+  supabase: SupabaseServerClient,
+  token: string,
+  allEmails: boolean = false
+): Promise<UnsubscribeResult | null> {
+  const { data, error } = await supabase.rpc('unsubscribe_with_token', {
+    token,
+    all_emails: allEmails,
+  });
+
+  if (error) {
+    console.error('Error applying unsubscribe token:', error);
+    return null;
+  }
+
+  return data as UnsubscribeResult;
+}
@@ -158,47 +158,3 @@ export function generateCsrfToken(): string {
   return Math.random().toString(36).substring(2, 15) + 
          Math.random().toString(36).substring(2, 15);
 }
-
-/**
- * 🔐 RATE LIMIT HELPER
- * 
- * Simple in-memory rate limiting for client-side operations.
- * Use to protect against brute force attacks on forms.
- * 
- * @param key - Unique identifier for the operation (e.g., "login", "vote")
- * @param limit - Maximum attempts allowed
- * @param windowMs - Time window in milliseconds
- * @returns Boolean indicating if operation should be allowed
- */
-const rateLimits: Record<string, {attempts: number, resetTime: number}> = {};
-
-export function checkRateLimit(key: string, limit = 5, windowMs = 60000): boolean {
-  const now = Date.now();
-  
-  // Clean up expired entries (limit to prevent DoS)
-  const keys = Object.keys(rateLimits);
-  if (keys.length > 1000) {
-    keys.forEach(k => {
-      if (now > rateLimits[k].resetTime) {
-        delete rateLimits[k];
-      }
-    });
-  }
-  
-  // Initialize or reset expired entry
-  if (!rateLimits[key] || now > rateLimits[key].resetTime) {
-    rateLimits[key] = {
-      attempts: 1,
-      resetTime: now + windowMs
-    };
-    return true;
-  }
-  
-  // Check against limit before incrementing
-  if (rateLimits[key].attempts >= limit) {
-    return false;
-  }
-  
-  rateLimits[key].attempts++;
-  return true;
-}
\ No newline at end of file
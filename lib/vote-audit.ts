@@ -0,0 +1,155 @@
+import { createHash } from 'crypto';
+import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { getResultsClient } from '@/lib/poll-results';
+import { VoteAuditLog, VoteEvent } from '@/types/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+/**
+ * 🔗 VOTE AUDIT LOG
+ *
+ * Every vote added or removed is appended to `vote_events` by a database
+ * trigger, chained per poll with SHA-256 so that changing, dropping or
+ * reordering any event changes the chain head. These helpers load a poll's
+ * log, recompute the chain and replay the events into a tally that can be
+ * compared with the published results. Anyone can run the same checks on
+ * the JSON served by GET /api/polls/[id]/audit.
+ *
+ * USAGE IN CODEBASE:
+ * - app/api/polls/[id]/audit route
+ */
+
+export const VOTE_EVENT_GENESIS_HASH = '0'.repeat(64);
+
+export const VOTE_EVENT_HASH_ALGORITHM =
+  'sha256(prev_hash|poll_id|sequence_number|event_type|voter_hash|option_id|rank|reason|occurred_at), ' +
+  'fields joined with "|", empty string for a null rank or reason, first prev_hash is 64 zeros';
+
+export interface VoteTallyEntry {
+  option_id: string;
+  votes: number;
+}
+
+export interface VoteChainVerification {
+  valid: boolean;
+  /** Sequence number of the first event that does not match, if any */
+  brokenAt: number | null;
+}
+
+/**
+ * Hash of one event, as computed by the `vote_event_hash` database function
+ */
+export function hashVoteEvent(pollId: string, event: VoteEvent, prevHash: string): string {
+  const input = [
+    prevHash,
+    pollId,
+    event.sequence_number,
+    event.event_type,
+    event.voter_hash,
+    event.option_id,
+    event.rank ?? '',
+    event.reason ?? '',
+    event.occurred_at,
+  ].join('|');
+
+  return createHash('sha256').update(input, 'utf8').digest('hex');
+}
+
+/**
+ * Recompute a poll's chain from its first event and check it ends at the head
+ */
+export function verifyVoteEventChain(pollId: string, events: VoteEvent[], headHash: string): VoteChainVerification {
+  let prevHash = VOTE_EVENT_GENESIS_HASH;
+
+  for (const [index, event] of events.entries()) {
+    const valid = event.sequence_number === index + 1
+      && event.prev_hash === prevHash
+      && hashVoteEvent(pollId, event, prevHash) === event.hash;
+
+    if (!valid) {
+      return { valid: false, brokenAt: event.sequence_number };
+    }
+    prevHash = event.hash;
+  }
+
+  if (prevHash !== headHash) {
+    return { valid: false, brokenAt: events.length + 1 };
+  }
+
+  return { valid: true, brokenAt: null };
+}
+
+/**
+ * Replay events into the set of votes still standing and count them per
+ * option. Ranked ballots count first choices only, like the exports.
+ */
+export function tallyVoteEvents(events: VoteEvent[]): VoteTallyEntry[] {
+  const standing = new Map<string, { optionId: string; rank: number | null; count: number }>();
+
+  for (const event of events) {
+    const key = `${event.voter_hash}|${event.option_id}|${event.rank ?? ''}`;
+    const entry = standing.get(key) || { optionId: event.option_id, rank: event.rank, count: 0 };
+    entry.count += event.event_type === 'cast' || event.event_type === 'changed' ? 1 : -1;
+    standing.set(key, entry);
+  }
+
+  const votes: { option_id: string; rank: number | null }[] = [];
+  for (const { optionId, rank, count } of standing.values()) {
+    for (let i = 0; i < count; i++) {
+      votes.push({ option_id: optionId, rank });
+    }
+  }
+
+  return countByOption(votes);
+}
+
+/**
+ * Count vote rows per option (first choices only for ranked ballots),
+ * sorted by option id so tallies compare directly
+ */
+export function countByOption(votes: { option_id: string; rank: number | null }[]): VoteTallyEntry[] {
+  const counts = new Map<string, number>();
+
+  for (const vote of votes) {
+    if (vote.rank !== null && vote.rank !== 1) continue;
+    counts.set(vote.option_id, (counts.get(vote.option_id) || 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .map(([option_id, votes]) => ({ option_id, votes }))
+    .sort((a, b) => a.option_id.localeCompare(b.option_id));
+}
+
+/**
+ * Check two tallies list the same options with the same counts
+ */
+export function talliesMatch(a: VoteTallyEntry[], b: VoteTallyEntry[]): boolean {
+  return a.length === b.length && a.every((entry, index) =>
+    entry.option_id === b[index].option_id && entry.votes === b[index].votes
+  );
+}
+
+/**
+ * Load a poll's chain head, plus its events when the viewer may see results.
+ * Pass `voterIp` only for anonymous viewers (see lib/poll-results.ts).
+ * Returns null when the poll does not exist or is not accessible.
+ */
+export async function getVoteAuditLog(
+  supabase: SupabaseServerClient,
+  pollId: string,
+  voterIp?: string
+): Promise<VoteAuditLog | null> {
+  const { data, error } = await getResultsClient(supabase, voterIp).rpc('get_vote_audit', {
+    poll_uuid: pollId,
+    voter_ip: voterIp && voterIp !== 'unknown' ? voterIp : null,
+  });
+
+  if (error) {
+    if (error.code === 'P0002') {
+      return null;
+    }
+    throw new Error(`Failed to load vote audit log: ${error.message}`);
+  }
+
+  return data as VoteAuditLog;
+}
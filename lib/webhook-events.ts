@@ -0,0 +1,53 @@
+import { createSupabaseServiceClient } from '@/lib/supabase-server';
+import { WebhookEvent } from '@/types/database';
+
+/**
+ * 🪝 WEBHOOK EVENTS
+ *
+ * Server-side reporting of poll events to webhooks (see lib/webhooks.ts).
+ * `enqueue_webhook_event` builds the payload itself and is granted to the
+ * service role only, so events are reported with the service client on
+ * behalf of the user who acted, or the request IP for anonymous voters.
+ *
+ * USAGE IN CODEBASE:
+ * - lib/actions/poll.ts (createPoll), lib/actions/vote.ts (submitVote),
+ *   lib/actions/dashboard.ts (togglePollStatus, publishPoll)
+ * - app/api/polls (POST), app/api/polls/[id] (PUT) and
+ *   app/api/polls/[id]/vote (POST) routes, shared with /api/v1
+ */
+
+/**
+ * Who caused an event: a signed-in user (or API key owner), or an
+ * anonymous voter identified by IP
+ */
+export interface WebhookActor {
+  userId?: string;
+  voterIp?: string;
+}
+
+/**
+ * Queue a poll event for its subscribed webhooks. Failures are logged and
+ * never affect the action that triggered the event.
+ */
+export async function emitWebhookEvent(event: WebhookEvent, pollId: string, actor: WebhookActor): Promise<void> {
+  try {
+    const serviceClient = createSupabaseServiceClient();
+    const { data, error } = await serviceClient.rpc('enqueue_webhook_event', {
+      event_name: event,
+      poll_uuid: pollId,
+      actor_id: actor.userId ?? null,
+      voter_ip: actor.userId ? null : actor.voterIp ?? null,
+    });
+
+    if (error) {
+      console.error(`[WEBHOOKS] Failed to queue ${event} for poll ${pollId}:`, error);
+      return;
+    }
+
+    if (data > 0) {
+      console.log(`[WEBHOOKS] Queued ${event} - PollID: ${pollId}, Deliveries: ${data}`);
+    }
+  } catch (error) {
+    console.error(`[WEBHOOKS] Failed to queue ${event} for poll ${pollId}:`, error);
+  }
+}
@@ -0,0 +1,237 @@
+import { WebhookEvent } from '@/types/database';
+
+/**
+ * 🪝 WEBHOOKS
+ *
+ * Poll lifecycle events delivered to user-registered endpoints. Events are
+ * queued in the `webhook_deliveries` outbox by the `enqueue_webhook_event`
+ * database function (see lib/webhook-events.ts) and sent by the
+ * `webhook-deliveries` edge function, which signs each request and retries
+ * failures with exponential backoff.
+ *
+ * Each request carries:
+ * - `X-Polly-Event`: the event name
+ * - `X-Polly-Delivery`: the delivery id (stable across retries)
+ * - `X-Polly-Timestamp`: unix seconds when the attempt was made
+ * - `X-Polly-Signature`: `sha256=` + hex HMAC-SHA256 of `${timestamp}.${body}`
+ *   keyed with the webhook's secret
+ *
+ * Events are queued wherever polls are published, voted on or closed and
+ * reopened: the Server Actions in lib/actions/poll.ts, vote.ts and
+ * dashboard.ts, and the /api/polls, /api/polls/[id] and
+ * /api/polls/[id]/vote routes (also serving /api/v1).
+ *
+ * USAGE IN CODEBASE:
+ * - lib/webhook-events.ts (emitWebhookEvent)
+ * - lib/actions/webhooks.ts, components/dashboard/WebhookManager.tsx
+ */
+
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string; description: string }[] = [
+  { value: 'poll.created', label: 'Poll created', description: 'A poll is published' },
+  { value: 'vote.cast', label: 'Vote cast', description: 'A vote is cast or changed' },
+  { value: 'poll.closing_soon', label: 'Closing soon', description: 'A poll closes within 24 hours' },
+  { value: 'poll.closed', label: 'Poll closed', description: 'A poll is closed or expires' },
+  { value: 'poll.reopened', label: 'Poll reopened', description: 'A closed poll is reopened' },
+];
+
+export const MAX_WEBHOOKS_PER_USER = 10;
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.some(event => event.value === value);
+}
+
+// IPv4 ranges that are not on the public internet: this host, private and
+// shared (CGNAT) networks, link-local (cloud metadata), benchmarking,
+// documentation, multicast and reserved
+const NON_PUBLIC_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+/**
+ * Parse a dotted-quad IPv4 address into a 32-bit number
+ */
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+/**
+ * Parse an IPv6 address (with `::` and an optional trailing IPv4 part)
+ * into its eight 16-bit groups
+ */
+function parseIpv6(address: string): number[] | null {
+  const halves = address.replace(/%.*$/, '').split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const parseGroups = (half: string): number[] | null => {
+    if (!half) return [];
+    const groups: number[] = [];
+    const parts = half.split(':');
+    for (const [index, part] of parts.entries()) {
+      if (index === parts.length - 1 && part.includes('.')) {
+        const ipv4 = parseIpv4(part);
+        if (ipv4 === null) return null;
+        groups.push(Math.floor(ipv4 / 0x10000), ipv4 % 0x10000);
+      } else if (/^[0-9a-f]{1,4}$/i.test(part)) {
+        groups.push(parseInt(part, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const head = parseGroups(halves[0]);
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : [];
+  if (!head || !tail) {
+    return null;
+  }
+
+  if (halves.length === 1) {
+    return head.length === 8 ? head : null;
+  }
+  const missing = 8 - head.length - tail.length;
+  return missing >= 1 ? [...head, ...new Array(missing).fill(0), ...tail] : null;
+}
+
+const isPublicIpv4 = (ipv4: number): boolean =>
+  !NON_PUBLIC_IPV4_RANGES.some(([base, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(ipv4 / size) === Math.floor((parseIpv4(base) as number) / size);
+  });
+
+// Wildcard DNS names that resolve to the address they spell out, such as
+// 127.0.0.1.nip.io or 10-0-0-1.sslip.io
+const embedsNonPublicIpv4 = (host: string): boolean =>
+  (host.match(/\d{1,3}[.-]\d{1,3}[.-]\d{1,3}[.-]\d{1,3}/g) || []).some(match => {
+    const ipv4 = parseIpv4(match.replace(/-/g, '.'));
+    return ipv4 !== null && !isPublicIpv4(ipv4);
+  });
+
+/**
+ * Whether a string is an IPv4 or IPv6 address
+ */
+export function isIpAddress(address: string): boolean {
+  return parseIpv4(address) !== null || parseIpv6(address) !== null;
+}
+
+/**
+ * Whether an IP address is on the public internet. IPv6 addresses that
+ * carry an IPv4 address (IPv4-mapped and -compatible, NAT64, 6to4) are
+ * judged by that address, so ::ffff:127.0.0.1 is not public.
+ */
+export function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4 !== null) {
+    return isPublicIpv4(ipv4);
+  }
+
+  const groups = parseIpv6(address);
+  if (!groups) {
+    return false;
+  }
+
+  const embeddedIpv4 = (high: number, low: number) => isPublicIpv4(high * 0x10000 + low);
+  const [first, second] = groups;
+
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    // ::, ::1, IPv4-compatible and IPv4-mapped
+    return embeddedIpv4(groups[6], groups[7]);
+  }
+  if (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return embeddedIpv4(groups[6], groups[7]);
+  }
+  if (first === 0x2002) {
+    return embeddedIpv4(groups[1], groups[2]);
+  }
+
+  return !(
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xffc0) === 0xfec0 || // site-local
+    (first & 0xff00) === 0xff00 || // multicast
+    (first === 0x2001 && second === 0) || // Teredo
+    (first === 0x2001 && second === 0xdb8) // documentation
+  );
+}
+
+/**
+ * The host an endpoint URL points at, without IPv6 brackets or a trailing dot
+ */
+export function getWebhookHost(url: string): string {
+  return new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+}
+
+/**
+ * Hosts on this machine, which development setups may use to test receivers
+ */
+export function isLocalWebhookHost(host: string): boolean {
+  return host === 'localhost' || host.endsWith('.localhost') || host === '127.0.0.1' || host === '::1';
+}
+
+/**
+ * Validate an endpoint URL. Endpoints must use HTTPS and may not point at
+ * this machine or a private network; plain HTTP to localhost is allowed in
+ * development for testing receivers. Only IP addresses written in the URL
+ * are checked here; names are resolved and checked by the createWebhook
+ * action and again before each delivery.
+ */
+export function validateWebhookUrl(url: string): string | null {
+  if (!url || url.length > 2000) {
+    return 'Enter a URL of at most 2000 characters';
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Enter a valid URL';
+  }
+
+  if (parsed.username || parsed.password) {
+    return 'URLs must not contain credentials';
+  }
+
+  const host = getWebhookHost(url);
+  const isLocal = isLocalWebhookHost(host);
+
+  if (isLocal && process.env.NODE_ENV !== 'production') {
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? null : 'URLs must use HTTPS';
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return 'URLs must use HTTPS';
+  }
+
+  const isPrivate = isIpAddress(host)
+    ? !isPublicAddress(host)
+    : isLocal ||
+      !host.includes('.') ||
+      host.endsWith('.local') ||
+      host.endsWith('.internal') ||
+      embedsNonPublicIpv4(host);
+
+  if (isPrivate) {
+    return 'URLs must point to a public host';
+  }
+
+  return null;
+}
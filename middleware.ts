@@ -81,13 +81,14 @@ export async function middleware(request: NextRequest) {
   );
 
   // This will refresh session if expired - required for Server Components
-  const {
+  let {
     data: { session },
   } = await supabase.auth.getSession();
 
   // Protected routes that require authentication
   const protectedRoutes = [
     '/polls/create',
+    '/surveys/create',
     '/dashboard',
   ];
 
@@ -96,6 +97,20 @@ export async function middleware(request: NextRequest) {
     request.nextUrl.pathname.startsWith(route)
   );
 
+  // Security: A session that skipped the second factor (signed in outside the
+  // login route) is refused by the database; sign it out instead of using it
+  if (isProtectedRoute && session) {
+    const { data: twoFactor } = await supabase.rpc('get_two_factor_status').single<{
+      enabled: boolean;
+      session_verified: boolean;
+    }>();
+
+    if (twoFactor?.enabled && !twoFactor.session_verified) {
+      await supabase.auth.signOut({ scope: 'local' });
+      session = null;
+    }
+  }
+
   // If accessing a protected route without a session, redirect to login
   if (isProtectedRoute && !session) {
     // Don't redirect non-idempotent requests to a page that can't accept them
@@ -113,6 +128,11 @@ export async function middleware(request: NextRequest) {
     }
     
     const response = NextResponse.redirect(redirectUrl);
+
+    // Carry over cookie changes, such as a sign-out above
+    supabaseResponse.cookies.getAll().forEach(cookie => {
+      response.cookies.set(cookie);
+    });
     
     // Apply security headers to redirect response
     Object.entries(securityHeaders).forEach(([key, value]) => {
@@ -130,5 +150,6 @@ export const config = {
   matcher: [
     '/dashboard/:path*',
     '/polls/create/:path*',
+    '/surveys/create/:path*',
   ],
 };
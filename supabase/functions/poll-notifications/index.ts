@@ -22,7 +22,8 @@ declare const Deno: {
 };
 
 interface NotificationRequest {
-  type?: 'manual' | 'cron';
+  /** 'digest' sends the daily and weekly digests instead of per-poll emails */
+  type?: 'manual' | 'cron' | 'digest';
   pollId?: string;
 }
 
@@ -33,8 +34,53 @@ interface EmailNotification {
   userName: string;
   pollTitle: string;
   pollUrl: string;
-  expiresAt: Date;
-  notificationType: 'expiring_24h' | 'expiring_2h' | 'expired';
+  expiresAt: Date | null;
+  notificationType: NotificationType;
+  /** Options removed by an edit, for 'vote_removed' emails */
+  removedOptions?: string[];
+  unsubscribe?: UnsubscribeLinks | null;
+}
+
+interface UnsubscribeLinks {
+  /** Confirmation page linked from the email body */
+  pageUrl: string;
+  /** RFC 8058 one-click endpoint used in the List-Unsubscribe header */
+  oneClickUrl: string;
+}
+
+type NotificationType = 'opened' | 'expiring_24h' | 'expiring_2h' | 'expired' | 'vote_removed';
+
+/** Notification center types, each sent by the channels the user picked */
+type AppNotificationType = 'poll_opened' | 'poll_closing' | 'poll_results' | 'new_vote' | 'vote_removed';
+
+type NotificationChannel = 'email' | 'in_app' | 'both' | 'none';
+
+const APP_NOTIFICATION_TYPES: Record<NotificationType, AppNotificationType> = {
+  opened: 'poll_opened',
+  expiring_24h: 'poll_closing',
+  expiring_2h: 'poll_closing',
+  expired: 'poll_results',
+  vote_removed: 'vote_removed',
+};
+
+type DigestItemType = 'opened' | 'closing_soon' | 'results';
+
+interface DigestPollItem {
+  pollTitle: string;
+  pollUrl: string;
+  detail: string;
+}
+
+interface DigestEmail {
+  userId: string;
+  userEmail: string;
+  userName: string;
+  frequency: 'daily' | 'weekly';
+  newVotes: DigestPollItem[];
+  opened: DigestPollItem[];
+  closingSoon: DigestPollItem[];
+  results: DigestPollItem[];
+  unsubscribe?: UnsubscribeLinks | null;
 }
 
 const corsHeaders = {
@@ -57,27 +103,57 @@ Deno.serve(async (req) => {
 
     // Parse request body
     const { type = 'manual', pollId }: NotificationRequest = await req.json().catch(() => ({}));
+
+    if (type === 'digest') {
+      console.log('Starting notification digests');
+      const digestsSent = await sendDigests(supabaseClient);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          digestsSent,
+          timestamp: new Date().toISOString(),
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
     
     console.log(`Starting poll notifications check - Type: ${type}, Poll ID: ${pollId || 'all'}`);
 
-    // Get polls that need notifications
-    const pollsToCheck = await getPollsNeedingNotifications(supabaseClient, pollId);
+    // Get polls that need notifications: scheduled polls that just opened,
+    // then polls approaching or past their expiry
+    const openedPolls = await getPollsOpenedRecently(supabaseClient, pollId);
+    const expiringPolls = await getPollsNeedingNotifications(supabaseClient, pollId);
+    const pollsToCheck = [
+      ...openedPolls.map((poll: any) => ({ poll, notificationType: 'opened' as NotificationType })),
+      ...expiringPolls.map((poll: any) => ({ poll, notificationType: getNotificationType(poll.expires_at) })),
+    ];
     console.log(`Found ${pollsToCheck.length} polls needing notifications`);
 
     let totalNotificationsSent = 0;
     const results = [];
 
-    for (const poll of pollsToCheck) {
+    for (const { poll, notificationType } of pollsToCheck) {
       try {
-        // Determine notification type based on time until expiry
-        const notificationType = getNotificationType(poll.expires_at);
         if (!notificationType) continue;
 
+        // Webhooks are queued even when no one has opted in to emails
+        await queueWebhookEvent(supabaseClient, poll.id, notificationType);
+
         // Get users to notify for this poll
-        const usersToNotify = await getUsersToNotify(supabaseClient, poll.id);
+        const usersToNotify = await getUsersToNotify(supabaseClient, poll.id, notificationType);
         console.log(`Poll "${poll.title}": ${usersToNotify.length} users to notify`);
 
         for (const user of usersToNotify) {
+          if (user.inApp) {
+            await createInAppNotification(supabaseClient, user.userId, poll, notificationType);
+          }
+
+          if (!user.email) continue;
+
           // Check if notification was already sent
           const alreadySent = await wasNotificationSent(
             supabaseClient, 
@@ -91,6 +167,12 @@ Deno.serve(async (req) => {
             continue;
           }
 
+          // Daily and weekly subscribers get this in their next digest instead
+          if (user.frequency !== 'instant') {
+            await queueDigestItem(supabaseClient, user.userId, poll.id, notificationType);
+            continue;
+          }
+
           // Send notification
           const notificationData: EmailNotification = {
             userId: user.userId,
@@ -99,8 +181,9 @@ Deno.serve(async (req) => {
             userName: user.userName,
             pollTitle: poll.title,
             pollUrl: `${Deno.env.get('APP_URL')}/polls/${poll.id}`,
-            expiresAt: new Date(poll.expires_at),
+            expiresAt: poll.expires_at ? new Date(poll.expires_at) : null,
             notificationType,
+            unsubscribe: await createUnsubscribeLinks(supabaseClient, user.userId, poll.id),
           };
 
           const emailResult = await sendEmailNotification(notificationData);
@@ -133,6 +216,11 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Voters whose option was removed by a poll edit. These are tracked on
+    // poll_vote_invalidations.emailed_at rather than email_notifications,
+    // since one poll can be edited (and a voter affected) more than once.
+    totalNotificationsSent += await sendVoteRemovedNotifications(supabaseClient, pollId);
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -177,7 +265,8 @@ async function getPollsNeedingNotifications(supabase: any, specificPollId?: stri
     .from('polls')
     .select('id, title, expires_at, creator_id')
     .not('expires_at', 'is', null)
-    .eq('is_active', true);
+    .eq('is_active', true)
+    .eq('status', 'published');
 
   if (specificPollId) {
     query = query.eq('id', specificPollId);
@@ -196,6 +285,477 @@ async function getPollsNeedingNotifications(supabase: any, specificPollId?: stri
   return polls || [];
 }
 
+/**
+ * Get scheduled polls whose opening time passed within the last day.
+ * Drafts are skipped; they are announced once published and opened.
+ */
+async function getPollsOpenedRecently(supabase: any, specificPollId?: string) {
+  const now = new Date();
+  const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+
+  let query = supabase
+    .from('polls')
+    .select('id, title, opens_at, expires_at, creator_id')
+    .eq('is_active', true)
+    .eq('status', 'published')
+    .gte('opens_at', dayAgo.toISOString())
+    .lte('opens_at', now.toISOString());
+
+  if (specificPollId) {
+    query = query.eq('id', specificPollId);
+  }
+
+  const { data: polls, error } = await query;
+
+  if (error) {
+    console.error('Error fetching opened polls:', error);
+    return [];
+  }
+
+  return polls || [];
+}
+
+/**
+ * Email voters whose votes were discarded because an edit removed their option
+ */
+async function sendVoteRemovedNotifications(supabase: any, specificPollId?: string): Promise<number> {
+  let query = supabase
+    .from('poll_vote_invalidations')
+    .select(`
+      id,
+      poll_id,
+      user_id,
+      option_text,
+      polls ( title ),
+      profiles ( email, full_name, username, email_notifications_enabled, notification_channels )
+    `)
+    .is('emailed_at', null)
+    .is('acknowledged_at', null);
+
+  if (specificPollId) {
+    query = query.eq('poll_id', specificPollId);
+  }
+
+  const { data: invalidations, error } = await query;
+
+  if (error) {
+    console.error('Error fetching vote invalidations:', error);
+    return 0;
+  }
+
+  // One email per voter and poll, listing every removed option they had picked
+  const grouped = new Map<string, any[]>();
+  for (const invalidation of invalidations || []) {
+    const key = `${invalidation.user_id}:${invalidation.poll_id}`;
+    grouped.set(key, [...(grouped.get(key) || []), invalidation]);
+  }
+
+  let sent = 0;
+  for (const group of grouped.values()) {
+    const first = group[0];
+    const profile = first.profiles;
+    const ids = group.map((invalidation: any) => invalidation.id);
+    const removedOptions = [...new Set<string>(group.map((invalidation: any) => invalidation.option_text))];
+    const channel = getNotificationChannel(profile?.notification_channels, 'vote_removed');
+
+    if (first.polls && (channel === 'in_app' || channel === 'both')) {
+      await createInAppNotification(supabase, first.user_id, { id: first.poll_id, title: first.polls.title }, 'vote_removed', {
+        body: `The poll was edited and no longer includes ${removedOptions.map(option => `"${option}"`).join(', ')}. You can vote again.`,
+        // One notification per edit, keyed by the edit's first invalidation
+        dedupeKey: `vote_removed:${ids[0]}`,
+      });
+    }
+
+    if (profile?.email && profile.email_notifications_enabled && first.polls && (channel === 'email' || channel === 'both')) {
+      const emailResult = await sendEmailNotification({
+        userId: first.user_id,
+        pollId: first.poll_id,
+        userEmail: profile.email,
+        userName: profile.full_name || profile.username || 'User',
+        pollTitle: first.polls.title,
+        pollUrl: `${Deno.env.get('APP_URL')}/polls/${first.poll_id}`,
+        expiresAt: null,
+        notificationType: 'vote_removed',
+        removedOptions,
+        unsubscribe: await createUnsubscribeLinks(supabase, first.user_id, first.poll_id),
+      });
+
+      if (!emailResult.success) {
+        console.error(`❌ Failed to send vote_removed notification to ${profile.email}:`, emailResult.error);
+        continue;
+      }
+
+      sent++;
+      console.log(`✅ Sent vote_removed notification to ${profile.email}`);
+    }
+
+    // Opted-out voters are marked too, so they are not reconsidered every run
+    await supabase
+      .from('poll_vote_invalidations')
+      .update({ emailed_at: new Date().toISOString() })
+      .in('id', ids);
+  }
+
+  return sent;
+}
+
+/**
+ * Create signed links that stop a poll's emails, or every email when pollId
+ * is null. Emails are still sent without them if token creation fails.
+ */
+async function createUnsubscribeLinks(
+  supabase: any,
+  userId: string,
+  pollId: string | null
+): Promise<UnsubscribeLinks | null> {
+  const { data, error } = await supabase.rpc('create_unsubscribe_token', {
+    user_uuid: userId,
+    poll_uuid: pollId,
+  });
+
+  if (error || !data) {
+    console.error(`Error creating unsubscribe token for user ${userId}:`, error);
+    return null;
+  }
+
+  const query = `token=${encodeURIComponent(data)}`;
+  return {
+    pageUrl: `${Deno.env.get('APP_URL')}/unsubscribe?${query}`,
+    oneClickUrl: `${Deno.env.get('APP_URL')}/api/unsubscribe?${query}`,
+  };
+}
+
+function getUnsubscribeHeaders(links?: UnsubscribeLinks | null): Record<string, string> | undefined {
+  if (!links) return undefined;
+
+  return {
+    'List-Unsubscribe': `<${links.oneClickUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
+function generateUnsubscribeFooterHTML(links: UnsubscribeLinks | null | undefined, label: string): string {
+  const settingsUrl = `${Deno.env.get('APP_URL')}/settings/notifications`;
+
+  return `
+        <p style="margin-top: 20px; font-size: 14px; color: #6c757d; text-align: center;">
+          ${links ? `<a href="${links.pageUrl}" style="color: #6c757d;">${label}</a> | ` : ''}
+          <a href="${settingsUrl}" style="color: #6c757d;">Manage notifications</a>
+        </p>`;
+}
+
+function generateUnsubscribeFooterText(links: UnsubscribeLinks | null | undefined, label: string): string {
+  const settingsUrl = `${Deno.env.get('APP_URL')}/settings/notifications`;
+
+  return `${links ? `${label}: ${links.pageUrl}\n    ` : ''}Manage notifications: ${settingsUrl}`;
+}
+
+/**
+ * The channel a user picked for a notification type (see
+ * profiles.notification_channels); types they never set use both
+ */
+function getNotificationChannel(channels: any, type: AppNotificationType): NotificationChannel {
+  const channel = channels && typeof channels === 'object' ? channels[type] : undefined;
+  return channel === 'email' || channel === 'in_app' || channel === 'none' ? channel : 'both';
+}
+
+/**
+ * Add a poll notification to a user's notification center. The database
+ * creates each notification once, so repeated runs are harmless.
+ */
+async function createInAppNotification(
+  supabase: any,
+  userId: string,
+  poll: { id: string; title: string },
+  notificationType: NotificationType,
+  options: { body?: string; dedupeKey?: string } = {}
+) {
+  const titles: Record<NotificationType, string> = {
+    opened: `"${poll.title}" is open for voting`,
+    expiring_24h: `"${poll.title}" closes soon`,
+    expiring_2h: `"${poll.title}" closes soon`,
+    expired: `Results are in for "${poll.title}"`,
+    vote_removed: `Your vote on "${poll.title}" was removed`,
+  };
+  const bodies: Partial<Record<NotificationType, string>> = {
+    opened: 'Voting is open',
+    expiring_24h: 'Voting closes in 24 hours',
+    expiring_2h: 'Voting closes in 2 hours',
+    expired: 'Voting has ended',
+  };
+
+  const { error } = await supabase.rpc('create_notification', {
+    user_uuid: userId,
+    notification_type: APP_NOTIFICATION_TYPES[notificationType],
+    poll_uuid: poll.id,
+    notification_title: titles[notificationType],
+    notification_body: options.body ?? bodies[notificationType] ?? null,
+    notification_link: `/polls/${poll.id}`,
+    event_key: options.dedupeKey ?? `${notificationType}:${poll.id}`,
+  });
+
+  if (error) {
+    console.error(`Error creating ${notificationType} notification for user ${userId}:`, error);
+  }
+}
+
+/**
+ * Queue the webhook event matching a notification: 'poll.closing_soon' ahead
+ * of expiry and 'poll.closed' once expired. The database ignores repeats, so
+ * this is safe to call on every run.
+ */
+async function queueWebhookEvent(supabase: any, pollId: string, notificationType: NotificationType) {
+  const event = notificationType === 'expired'
+    ? 'poll.closed'
+    : notificationType === 'expiring_24h' || notificationType === 'expiring_2h'
+      ? 'poll.closing_soon'
+      : null;
+
+  if (!event) return;
+
+  const { error } = await supabase.rpc('enqueue_webhook_event', {
+    event_name: event,
+    poll_uuid: pollId,
+  });
+
+  if (error) {
+    console.error(`Error queueing ${event} webhook for poll ${pollId}:`, error);
+  }
+}
+
+/**
+ * Queue a notification for a daily or weekly subscriber's next digest.
+ * Each notification is queued once, so repeated runs are harmless.
+ */
+async function queueDigestItem(
+  supabase: any,
+  userId: string,
+  pollId: string,
+  notificationType: NotificationType
+) {
+  const itemType: DigestItemType = notificationType === 'expired'
+    ? 'results'
+    : notificationType === 'opened'
+      ? 'opened'
+      : 'closing_soon';
+
+  const { error } = await supabase
+    .from('notification_digest_items')
+    .upsert({
+      user_id: userId,
+      poll_id: pollId,
+      item_type: itemType,
+      notification_type: notificationType,
+    }, { onConflict: 'user_id,poll_id,notification_type', ignoreDuplicates: true });
+
+  if (error) {
+    console.error(`Error queueing ${notificationType} digest item for user ${userId}:`, error);
+  }
+}
+
+const DIGEST_PERIOD_HOURS = { daily: 24, weekly: 24 * 7 };
+
+// Cron runs drift, so a digest becomes due a few hours before a full period
+const DIGEST_SLACK_HOURS = 4;
+
+const DIGEST_STAGES: DigestItemType[] = ['opened', 'closing_soon', 'results'];
+
+/**
+ * Send every due daily and weekly digest. A digest covers the user's queued
+ * items plus new votes on their polls since their previous digest; users
+ * with nothing to report are skipped. Users who switched back to instant
+ * emails get their leftover items in one last daily digest.
+ */
+async function sendDigests(supabase: any): Promise<number> {
+  const now = new Date();
+
+  const { data: pending, error: pendingError } = await supabase
+    .from('notification_digest_items')
+    .select('user_id')
+    .is('digested_at', null);
+
+  if (pendingError) {
+    console.error('Error fetching pending digest items:', pendingError);
+    return 0;
+  }
+
+  const profileColumns = 'id, email, full_name, username, email_notifications_enabled, notification_frequency, notification_channels, last_digest_sent_at';
+
+  const { data: subscribers, error: subscribersError } = await supabase
+    .from('profiles')
+    .select(profileColumns)
+    .in('notification_frequency', ['daily', 'weekly']);
+
+  if (subscribersError) {
+    console.error('Error fetching digest subscribers:', subscribersError);
+    return 0;
+  }
+
+  const profiles = new Map<string, any>((subscribers || []).map((profile: any) => [profile.id, profile]));
+  const pendingUserIds = new Set<string>((pending || []).map((item: any) => item.user_id));
+  const leftoverUserIds = [...pendingUserIds].filter(userId => !profiles.has(userId));
+
+  if (leftoverUserIds.length > 0) {
+    const { data: leftovers, error } = await supabase
+      .from('profiles')
+      .select(profileColumns)
+      .in('id', leftoverUserIds);
+
+    if (error) {
+      console.error('Error fetching profiles with leftover digest items:', error);
+    }
+    for (const profile of leftovers || []) {
+      profiles.set(profile.id, profile);
+    }
+  }
+
+  let sent = 0;
+  for (const profile of profiles.values()) {
+    try {
+      // Opted-out users' items are cleared so they are not reconsidered every run
+      if (!profile.email || !profile.email_notifications_enabled) {
+        if (pendingUserIds.has(profile.id)) {
+          await supabase
+            .from('notification_digest_items')
+            .update({ digested_at: now.toISOString() })
+            .eq('user_id', profile.id)
+            .is('digested_at', null);
+        }
+        continue;
+      }
+
+      const frequency: 'daily' | 'weekly' = profile.notification_frequency === 'weekly' ? 'weekly' : 'daily';
+      const periodMs = DIGEST_PERIOD_HOURS[frequency] * 60 * 60 * 1000;
+      const lastSent = profile.last_digest_sent_at ? new Date(profile.last_digest_sent_at) : null;
+
+      if (lastSent && now.getTime() - lastSent.getTime() < periodMs - DIGEST_SLACK_HOURS * 60 * 60 * 1000) {
+        continue;
+      }
+
+      const since = lastSent ?? new Date(now.getTime() - periodMs);
+      const digest = await buildDigest(supabase, profile, frequency, since);
+
+      if (!digest) continue;
+
+      digest.email.unsubscribe = await createUnsubscribeLinks(supabase, profile.id, null);
+      const emailResult = await sendDigestEmail(digest.email);
+
+      if (!emailResult.success) {
+        console.error(`❌ Failed to send ${frequency} digest to ${profile.email}:`, emailResult.error);
+        continue;
+      }
+
+      if (digest.itemIds.length > 0) {
+        await supabase
+          .from('notification_digest_items')
+          .update({ digested_at: now.toISOString() })
+          .in('id', digest.itemIds);
+      }
+
+      await supabase
+        .from('profiles')
+        .update({ last_digest_sent_at: now.toISOString() })
+        .eq('id', profile.id);
+
+      sent++;
+      console.log(`✅ Sent ${frequency} digest to ${profile.email}`);
+    } catch (error) {
+      console.error(`Error sending digest to user ${profile.id}:`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Collect a user's digest contents, or null when there is nothing to report.
+ * Each poll is listed once, under the furthest stage it has reached.
+ */
+async function buildDigest(
+  supabase: any,
+  profile: any,
+  frequency: 'daily' | 'weekly',
+  since: Date
+): Promise<{ email: DigestEmail; itemIds: string[] } | null> {
+  const appUrl = Deno.env.get('APP_URL');
+
+  const { data: items, error: itemsError } = await supabase
+    .from('notification_digest_items')
+    .select('id, poll_id, item_type, polls ( title, expires_at )')
+    .eq('user_id', profile.id)
+    .is('digested_at', null)
+    .order('created_at', { ascending: true });
+
+  if (itemsError) {
+    console.error(`Error fetching digest items for user ${profile.id}:`, itemsError);
+    return null;
+  }
+
+  // New votes are left out for users who only want them in the app
+  const voteChannel = getNotificationChannel(profile.notification_channels, 'new_vote');
+  const { data: activity, error: activityError } = voteChannel === 'email' || voteChannel === 'both'
+    ? await supabase.rpc('get_digest_vote_activity', {
+      user_uuid: profile.id,
+      since: since.toISOString(),
+    })
+    : { data: [], error: null };
+
+  if (activityError) {
+    console.error(`Error fetching vote activity for user ${profile.id}:`, activityError);
+    return null;
+  }
+
+  const latestByPoll = new Map<string, any>();
+  for (const item of items || []) {
+    if (!item.polls) continue;
+    const current = latestByPoll.get(item.poll_id);
+    if (!current || DIGEST_STAGES.indexOf(item.item_type) >= DIGEST_STAGES.indexOf(current.item_type)) {
+      latestByPoll.set(item.poll_id, item);
+    }
+  }
+
+  const toPollItem = (item: any, detail: string): DigestPollItem => ({
+    pollTitle: item.polls.title,
+    pollUrl: `${appUrl}/polls/${item.poll_id}`,
+    detail,
+  });
+  const latest = [...latestByPoll.values()];
+
+  const email: DigestEmail = {
+    userId: profile.id,
+    userEmail: profile.email,
+    userName: profile.full_name || profile.username || 'User',
+    frequency,
+    newVotes: (activity || []).map((row: any) => ({
+      pollTitle: row.poll_title,
+      pollUrl: `${appUrl}/polls/${row.poll_id}`,
+      detail: `${row.new_voters} new ${Number(row.new_voters) === 1 ? 'vote' : 'votes'}`,
+    })),
+    opened: latest
+      .filter(item => item.item_type === 'opened')
+      .map(item => toPollItem(item, 'Voting is open')),
+    closingSoon: latest
+      .filter(item => item.item_type === 'closing_soon')
+      .map(item => toPollItem(item, item.polls.expires_at ? `Closes ${formatDigestDate(item.polls.expires_at)}` : 'Closing soon')),
+    results: latest
+      .filter(item => item.item_type === 'results')
+      .map(item => toPollItem(item, 'Voting has ended and the results are in')),
+  };
+
+  const total = email.newVotes.length + email.opened.length + email.closingSoon.length + email.results.length;
+  if (total === 0) return null;
+
+  return { email, itemIds: (items || []).map((item: any) => item.id) };
+}
+
+function formatDigestDate(value: string): string {
+  return `${new Date(value).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  })} UTC`;
+}
+
 /**
  * Determine notification type based on time until expiry
  */
@@ -217,23 +777,27 @@ function getNotificationType(expiresAt: string): 'expiring_24h' | 'expiring_2h'
 }
 
 /**
- * Get users who should be notified about a poll
+ * Get users who should be notified about a poll, with the channels each one
+ * gets this notification type by. In-app notifications ignore the email
+ * switches; the in-app channel choice is applied by create_notification.
  */
-async function getUsersToNotify(supabase: any, pollId: string) {
+async function getUsersToNotify(supabase: any, pollId: string, notificationType: NotificationType) {
   const { data: interests, error } = await supabase
     .from('poll_interests')
     .select(`
       user_id,
       interest_type,
+      email_notifications_enabled,
       profiles (
         email,
         full_name,
         username,
-        email_notifications_enabled
+        email_notifications_enabled,
+        notification_frequency,
+        notification_channels
       )
     `)
-    .eq('poll_id', pollId)
-    .eq('email_notifications_enabled', true);
+    .eq('poll_id', pollId);
 
   if (error) {
     console.error('Error fetching user interests:', error);
@@ -253,9 +817,13 @@ async function getUsersToNotify(supabase: any, pollId: string) {
     const emailNotificationsEnabled = profile.email_notifications_enabled;
     const fullName = profile.full_name;
     const username = profile.username;
+    const channel = getNotificationChannel(profile.notification_channels, APP_NOTIFICATION_TYPES[notificationType]);
+    const inApp = channel === 'in_app' || channel === 'both';
+    const sendEmail = (channel === 'email' || channel === 'both')
+      && !!email && emailNotificationsEnabled && interest.email_notifications_enabled;
     
-    // Skip if required fields are missing
-    if (!email || !emailNotificationsEnabled) {
+    // Skip if there is nothing to send
+    if (!inApp && !sendEmail) {
       continue;
     }
     
@@ -263,6 +831,9 @@ async function getUsersToNotify(supabase: any, pollId: string) {
       userId: interest.user_id,
       userEmail: email,
       userName: fullName || username || 'User',
+      frequency: profile.notification_frequency || 'instant',
+      email: sendEmail,
+      inApp,
     });
   }
   
@@ -322,7 +893,8 @@ async function sendEmailNotification(data: EmailNotification) {
           { name: 'type', value: 'poll_notification' },
           { name: 'notification_type', value: data.notificationType },
           { name: 'poll_id', value: data.pollId }
-        ]
+        ],
+        headers: getUnsubscribeHeaders(data.unsubscribe),
       }),
     });
 
@@ -349,7 +921,19 @@ async function sendEmailNotification(data: EmailNotification) {
 function generateEmailContent(data: EmailNotification) {
   const timeUntilExpiry = getTimeUntilExpiryText(data.expiresAt, data.notificationType);
   
-  if (data.notificationType === 'expired') {
+  if (data.notificationType === 'vote_removed') {
+    return {
+      subject: `🗳️ Please vote again: "${data.pollTitle}" was edited`,
+      html: generateVoteRemovedEmailHTML(data),
+      text: generateVoteRemovedEmailText(data),
+    };
+  } else if (data.notificationType === 'opened') {
+    return {
+      subject: `🗳️ Voting is open: "${data.pollTitle}"`,
+      html: generateOpenedEmailHTML(data),
+      text: generateOpenedEmailText(data),
+    };
+  } else if (data.notificationType === 'expired') {
     return {
       subject: `📊 Poll Results: "${data.pollTitle}" has ended`,
       html: generateExpiredEmailHTML(data),
@@ -364,7 +948,7 @@ function generateEmailContent(data: EmailNotification) {
   }
 }
 
-function getTimeUntilExpiryText(expiresAt: Date, type: string): string {
+function getTimeUntilExpiryText(expiresAt: Date | null, type: string): string {
   switch (type) {
     case 'expiring_24h': return 'in 24 hours';
     case 'expiring_2h': return 'in 2 hours';
@@ -445,6 +1029,7 @@ function generateExpiringEmailHTML(data: EmailNotification, timeUntilExpiry: str
             </a>
           </div>
         </div>
+        ${generateUnsubscribeFooterHTML(data.unsubscribe, 'Unsubscribe from this poll')}
       </body>
     </html>
   `;
@@ -460,6 +1045,168 @@ function generateExpiringEmailText(data: EmailNotification, timeUntilExpiry: str
     
     ---
     Polly App - Making decision-making collaborative
+    ${generateUnsubscribeFooterText(data.unsubscribe, 'Unsubscribe from this poll')}
+  `;
+}
+
+function generateOpenedEmailHTML(data: EmailNotification): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Poll Now Open</title>
+        <style>
+          body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 30px 20px;
+            border-radius: 10px 10px 0 0;
+            text-align: center;
+          }
+          .content {
+            background: #ffffff;
+            padding: 30px 20px;
+            border: 1px solid #e1e5e9;
+            border-top: none;
+          }
+          .button {
+            display: inline-block;
+            padding: 15px 30px;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white !important;
+            text-decoration: none;
+            border-radius: 8px;
+            font-weight: 600;
+            margin: 20px 0;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>🗳️ Voting Is Open!</h1>
+        </div>
+        
+        <div class="content">
+          <p>Hi ${data.userName}!</p>
+          
+          <p>The poll "${data.pollTitle}" you're following is now open for voting.</p>
+          ${data.expiresAt ? `<p><strong>Closes:</strong> ${data.expiresAt.toUTCString()}</p>` : ''}
+          
+          <div style="text-align: center;">
+            <a href="${data.pollUrl}" class="button">
+              🗳️ Vote Now
+            </a>
+          </div>
+        </div>
+        ${generateUnsubscribeFooterHTML(data.unsubscribe, 'Unsubscribe from this poll')}
+      </body>
+    </html>
+  `;
+}
+
+function generateOpenedEmailText(data: EmailNotification): string {
+  return `
+    Hi ${data.userName}!
+    
+    The poll "${data.pollTitle}" you're following is now open for voting.
+    
+    Cast your vote: ${data.pollUrl}
+    
+    ---
+    Polly App - Making decision-making collaborative
+    ${generateUnsubscribeFooterText(data.unsubscribe, 'Unsubscribe from this poll')}
+  `;
+}
+
+function generateVoteRemovedEmailHTML(data: EmailNotification): string {
+  const removed = (data.removedOptions || []).map(option => `"${option}"`).join(', ');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Your Vote Was Removed</title>
+        <style>
+          body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background: linear-gradient(135deg, #f59e0b 0%, #d97706 100%);
+            color: white;
+            padding: 30px 20px;
+            border-radius: 10px 10px 0 0;
+            text-align: center;
+          }
+          .content {
+            background: #ffffff;
+            padding: 30px 20px;
+            border: 1px solid #e1e5e9;
+            border-top: none;
+          }
+          .button {
+            display: inline-block;
+            padding: 15px 30px;
+            background: linear-gradient(135deg, #f59e0b 0%, #d97706 100%);
+            color: white !important;
+            text-decoration: none;
+            border-radius: 8px;
+            font-weight: 600;
+            margin: 20px 0;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>🗳️ Please Vote Again</h1>
+        </div>
+        
+        <div class="content">
+          <p>Hi ${data.userName}!</p>
+          
+          <p>The creator of "${data.pollTitle}" removed ${removed} from the poll, so your vote no longer counts.</p>
+          
+          <p>You can see what changed in the poll's edit history.</p>
+          
+          <div style="text-align: center;">
+            <a href="${data.pollUrl}" class="button">
+              🗳️ Vote Again
+            </a>
+          </div>
+        </div>
+        ${generateUnsubscribeFooterHTML(data.unsubscribe, 'Unsubscribe from this poll')}
+      </body>
+    </html>
+  `;
+}
+
+function generateVoteRemovedEmailText(data: EmailNotification): string {
+  const removed = (data.removedOptions || []).map(option => `"${option}"`).join(', ');
+
+  return `
+    Hi ${data.userName}!
+    
+    The creator of "${data.pollTitle}" removed ${removed} from the poll, so your vote no longer counts.
+    
+    Vote again: ${data.pollUrl}
+    
+    ---
+    Polly App - Making decision-making collaborative
+    ${generateUnsubscribeFooterText(data.unsubscribe, 'Unsubscribe from this poll')}
   `;
 }
 
@@ -520,6 +1267,7 @@ function generateExpiredEmailHTML(data: EmailNotification): string {
             </a>
           </div>
         </div>
+        ${generateUnsubscribeFooterHTML(data.unsubscribe, 'Unsubscribe from this poll')}
       </body>
     </html>
   `;
@@ -535,6 +1283,171 @@ function generateExpiredEmailText(data: EmailNotification): string {
     
     ---
     Polly App - Making decision-making collaborative
+    ${generateUnsubscribeFooterText(data.unsubscribe, 'Unsubscribe from this poll')}
+  `;
+}
+
+/**
+ * Send a digest email using Resend
+ */
+async function sendDigestEmail(data: DigestEmail) {
+  try {
+    const resendApiKey = Deno.env.get('RESEND_API_KEY');
+    if (!resendApiKey) {
+      throw new Error('RESEND_API_KEY not configured');
+    }
+
+    const total = data.newVotes.length + data.opened.length + data.closingSoon.length + data.results.length;
+    const title = data.frequency === 'weekly' ? 'Your Weekly Poll Summary' : 'Your Daily Poll Digest';
+
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${resendApiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: Deno.env.get('FROM_EMAIL') || 'notifications@yourdomain.com',
+        to: data.userEmail,
+        subject: `📬 ${title}: ${total} ${total === 1 ? 'update' : 'updates'}`,
+        html: generateDigestEmailHTML(data, title),
+        text: generateDigestEmailText(data),
+        tags: [
+          { name: 'type', value: 'digest' },
+          { name: 'frequency', value: data.frequency }
+        ],
+        headers: getUnsubscribeHeaders(data.unsubscribe),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Resend API error: ${error}`);
+    }
+
+    const result = await response.json();
+    return { success: true, messageId: result.id };
+
+  } catch (error) {
+    console.error('Digest sending error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function generateDigestSectionHTML(emoji: string, heading: string, items: DigestPollItem[]): string {
+  if (items.length === 0) return '';
+
+  return `
+          <h2>${emoji} ${heading}</h2>
+          ${items.map(item => `
+          <div class="poll-info">
+            <a href="${item.pollUrl}"><strong>${escapeHtml(item.pollTitle)}</strong></a>
+            <p>${escapeHtml(item.detail)}</p>
+          </div>`).join('')}
+  `;
+}
+
+function generateDigestEmailHTML(data: DigestEmail, title: string): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${title}</title>
+        <style>
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 30px 20px;
+            border-radius: 10px 10px 0 0;
+            text-align: center;
+          }
+          .content {
+            background: #ffffff;
+            padding: 30px 20px;
+            border: 1px solid #e1e5e9;
+            border-top: none;
+          }
+          .content h2 {
+            font-size: 18px;
+            margin: 24px 0 8px;
+          }
+          .poll-info {
+            background: #f8f9fa;
+            padding: 12px 16px;
+            border-radius: 8px;
+            margin: 8px 0;
+            border-left: 4px solid #667eea;
+          }
+          .poll-info a {
+            color: #333;
+            text-decoration: none;
+          }
+          .poll-info p {
+            margin: 4px 0 0;
+            font-size: 14px;
+            color: #6c757d;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>📬 ${title}</h1>
+        </div>
+
+        <div class="content">
+          <p>Hi ${escapeHtml(data.userName)}!</p>
+
+          <p>Here's what happened with your polls this ${data.frequency === 'weekly' ? 'week' : 'day'}.</p>
+          ${generateDigestSectionHTML('🗳️', 'New votes on your polls', data.newVotes)}
+          ${generateDigestSectionHTML('🚀', 'Now open for voting', data.opened)}
+          ${generateDigestSectionHTML('⏰', 'Closing soon', data.closingSoon)}
+          ${generateDigestSectionHTML('📊', 'Results published', data.results)}
+
+          <p style="margin-top: 30px; font-size: 14px; color: #6c757d;">
+            You're receiving a ${data.frequency} digest.
+            <a href="${Deno.env.get('APP_URL')}/settings/notifications" style="color: #6c757d;">Change how often you hear from us</a>
+          </p>
+        </div>
+        ${generateUnsubscribeFooterHTML(data.unsubscribe, 'Unsubscribe from all emails')}
+      </body>
+    </html>
+  `;
+}
+
+function generateDigestEmailText(data: DigestEmail): string {
+  const section = (heading: string, items: DigestPollItem[]) => items.length === 0
+    ? ''
+    : `\n    ${heading}\n${items.map(item => `    - ${item.pollTitle}: ${item.detail} (${item.pollUrl})`).join('\n')}\n`;
+
+  return `
+    Hi ${data.userName}!
+
+    Here's what happened with your polls this ${data.frequency === 'weekly' ? 'week' : 'day'}.
+    ${section('New votes on your polls', data.newVotes)}${section('Now open for voting', data.opened)}${section('Closing soon', data.closingSoon)}${section('Results published', data.results)}
+    ---
+    Polly App - Making decision-making collaborative
+    ${generateUnsubscribeFooterText(data.unsubscribe, 'Unsubscribe from all emails')}
   `;
 }
 
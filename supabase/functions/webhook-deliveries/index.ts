@@ -0,0 +1,338 @@
+// @ts-check
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * @fileoverview Supabase Edge Function for Webhook Deliveries
+ *
+ * Sends queued webhook deliveries (the webhook_deliveries outbox). Each run
+ * leases a batch of due deliveries with claim_webhook_deliveries, POSTs them
+ * signed with the webhook's secret and records the outcome with
+ * record_webhook_attempt, which schedules retries with exponential backoff.
+ *
+ * Endpoint hosts are resolved before each request and deliveries to
+ * private, loopback or link-local addresses are refused, whatever the URL
+ * looked like when it was registered. Set WEBHOOK_ALLOW_PRIVATE_HOSTS=true
+ * to deliver to local receivers during development.
+ *
+ * Runs every minute from crontab.json.
+ */
+
+// Define Deno types for TypeScript
+declare const Deno: {
+  env: {
+    get: (key: string) => string | undefined;
+  };
+  serve: (handler: (req: Request) => Promise<Response>) => void;
+  resolveDns: (query: string, recordType: 'A' | 'AAAA') => Promise<string[]>;
+};
+
+interface ClaimedDelivery {
+  delivery_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempt_count: number;
+  url: string;
+  secret: string;
+}
+
+interface AttemptResult {
+  succeeded: boolean;
+  status: number | null;
+  error: string | null;
+}
+
+const BATCH_SIZE = 25;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// IPv4 ranges that are not on the public internet (see lib/webhooks.ts)
+const NON_PUBLIC_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const { data, error } = await supabaseClient.rpc('claim_webhook_deliveries', { batch_size: BATCH_SIZE });
+
+    if (error) {
+      throw new Error(`Failed to claim deliveries: ${error.message}`);
+    }
+
+    const deliveries = (data || []) as ClaimedDelivery[];
+    console.log(`Claimed ${deliveries.length} webhook deliveries`);
+
+    let delivered = 0;
+    for (const delivery of deliveries) {
+      const result = await sendDelivery(delivery);
+
+      const { error: recordError } = await supabaseClient.rpc('record_webhook_attempt', {
+        delivery_uuid: delivery.delivery_id,
+        succeeded: result.succeeded,
+        http_status: result.status,
+        error_message: result.error,
+      });
+
+      if (recordError) {
+        console.error(`Error recording attempt for delivery ${delivery.delivery_id}:`, recordError);
+      }
+
+      if (result.succeeded) {
+        delivered++;
+        console.log(`✅ Delivered ${delivery.event_type} (${delivery.delivery_id})`);
+      } else {
+        console.error(`❌ Delivery ${delivery.delivery_id} attempt ${delivery.attempt_count} failed: ${result.error}`);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        claimed: deliveries.length,
+        delivered,
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('Edge function error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
+
+/**
+ * POST one delivery. Any 2xx response counts as delivered; redirects are
+ * not followed, so endpoints must be registered with their final URL.
+ */
+async function sendDelivery(delivery: ClaimedDelivery): Promise<AttemptResult> {
+  const body = JSON.stringify({ id: delivery.delivery_id, ...delivery.payload });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = await sign(delivery.secret, `${timestamp}.${body}`);
+
+  const hostError = await checkHost(delivery.url);
+  if (hostError) {
+    return { succeeded: false, status: null, error: hostError };
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Polly-Webhooks/1.0',
+        'X-Polly-Event': delivery.event_type,
+        'X-Polly-Delivery': delivery.delivery_id,
+        'X-Polly-Timestamp': timestamp,
+        'X-Polly-Signature': `sha256=${signature}`,
+      },
+      body,
+      redirect: 'manual',
+      signal: controller.signal,
+    });
+
+    // The response body is not needed; release the connection
+    await response.body?.cancel();
+
+    if (response.ok) {
+      return { succeeded: true, status: response.status, error: null };
+    }
+
+    return { succeeded: false, status: response.status, error: `Endpoint responded with HTTP ${response.status}` };
+  } catch (error) {
+    const message = error instanceof Error && error.name === 'AbortError'
+      ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds`
+      : error instanceof Error ? error.message : 'Request failed';
+
+    return { succeeded: false, status: null, error: message };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Resolve an endpoint's host and refuse it unless every address is public.
+ * Returns the reason a delivery may not be sent, or null.
+ */
+async function checkHost(url: string): Promise<string | null> {
+  if (Deno.env.get('WEBHOOK_ALLOW_PRIVATE_HOSTS') === 'true') {
+    return null;
+  }
+
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  } catch {
+    return 'Invalid endpoint URL';
+  }
+
+  let addresses: string[];
+  if (parseIpv4(host) !== null || parseIpv6(host) !== null) {
+    addresses = [host];
+  } else {
+    const results = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+    addresses = results.flatMap(result => (result.status === 'fulfilled' ? result.value : []));
+  }
+
+  if (addresses.length === 0) {
+    return `Could not resolve ${host}`;
+  }
+  if (!addresses.every(isPublicAddress)) {
+    return `Refused to deliver to ${host}: it resolves to a private address`;
+  }
+
+  return null;
+}
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function parseIpv6(address: string): number[] | null {
+  const halves = address.replace(/%.*$/, '').split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const parseGroups = (half: string): number[] | null => {
+    if (!half) return [];
+    const groups: number[] = [];
+    const parts = half.split(':');
+    for (const [index, part] of parts.entries()) {
+      if (index === parts.length - 1 && part.includes('.')) {
+        const ipv4 = parseIpv4(part);
+        if (ipv4 === null) return null;
+        groups.push(Math.floor(ipv4 / 0x10000), ipv4 % 0x10000);
+      } else if (/^[0-9a-f]{1,4}$/i.test(part)) {
+        groups.push(parseInt(part, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const head = parseGroups(halves[0]);
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : [];
+  if (!head || !tail) {
+    return null;
+  }
+
+  if (halves.length === 1) {
+    return head.length === 8 ? head : null;
+  }
+  const missing = 8 - head.length - tail.length;
+  return missing >= 1 ? [...head, ...new Array(missing).fill(0), ...tail] : null;
+}
+
+function isPublicIpv4(ipv4: number): boolean {
+  return !NON_PUBLIC_IPV4_RANGES.some(([base, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(ipv4 / size) === Math.floor((parseIpv4(base) as number) / size);
+  });
+}
+
+/**
+ * Whether an IP address is on the public internet; IPv6 addresses that
+ * carry an IPv4 address (mapped, compatible, NAT64, 6to4) are judged by it
+ */
+function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4 !== null) {
+    return isPublicIpv4(ipv4);
+  }
+
+  const groups = parseIpv6(address);
+  if (!groups) {
+    return false;
+  }
+
+  const embeddedIpv4 = (high: number, low: number) => isPublicIpv4(high * 0x10000 + low);
+  const [first, second] = groups;
+
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return embeddedIpv4(groups[6], groups[7]);
+  }
+  if (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return embeddedIpv4(groups[6], groups[7]);
+  }
+  if (first === 0x2002) {
+    return embeddedIpv4(groups[1], groups[2]);
+  }
+
+  return !(
+    (first & 0xfe00) === 0xfc00 ||
+    (first & 0xffc0) === 0xfe80 ||
+    (first & 0xffc0) === 0xfec0 ||
+    (first & 0xff00) === 0xff00 ||
+    (first === 0x2001 && second === 0) ||
+    (first === 0x2001 && second === 0xdb8)
+  );
+}
+
+/**
+ * Hex HMAC-SHA256 of a message
+ */
+async function sign(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,28 @@
+-- Ranked-choice (instant-runoff) poll support
+
+-- Poll type: 'standard' polls keep the existing single/multiple choice behaviour,
+-- 'ranked' polls store one row per ranked option with its preference rank
+ALTER TABLE public.polls
+ADD COLUMN IF NOT EXISTS poll_type TEXT NOT NULL DEFAULT 'standard'
+  CHECK (poll_type IN ('standard', 'ranked'));
+
+-- Preference rank on each ballot row (1 = first choice, NULL for standard polls)
+ALTER TABLE public.votes
+ADD COLUMN IF NOT EXISTS rank INTEGER CHECK (rank IS NULL OR rank >= 1);
+
+-- A ranked ballot spans several rows per voter, so the one-row-per-user
+-- constraint is replaced by one row per user per option
+ALTER TABLE public.votes DROP CONSTRAINT IF EXISTS votes_poll_id_user_id_key;
+ALTER TABLE public.votes
+ADD CONSTRAINT votes_poll_id_user_id_option_id_key UNIQUE (poll_id, user_id, option_id);
+
+-- Each rank can only be used once per ballot
+CREATE UNIQUE INDEX IF NOT EXISTS idx_votes_user_rank
+  ON public.votes(poll_id, user_id, rank)
+  WHERE rank IS NOT NULL AND user_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_votes_ip_rank
+  ON public.votes(poll_id, ip_address, rank)
+  WHERE rank IS NOT NULL AND user_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_polls_poll_type ON public.polls(poll_type);
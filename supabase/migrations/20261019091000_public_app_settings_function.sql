@@ -0,0 +1,20 @@
+-- Allow server code running as any user to read application settings
+-- app_settings stays admin-only under RLS; this function exposes a single
+-- setting's JSON value so policies (poll limits, anonymous voting, expiry
+-- defaults) can be enforced for regular users and anonymous voters
+CREATE OR REPLACE FUNCTION public.get_app_setting(setting_key TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN (
+    SELECT value FROM public.app_settings
+    WHERE key = setting_key
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_app_setting(TEXT) TO anon, authenticated;
@@ -0,0 +1,92 @@
+-- Account lockout after repeated failed logins
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Login attempts happen before the user is authenticated, so these helpers
+-- run as SECURITY DEFINER and are keyed by email. Unknown emails are ignored
+-- so the functions never reveal whether an account exists.
+
+-- Returns the lockout expiry for an email, or NULL when not locked
+CREATE OR REPLACE FUNCTION public.get_account_lockout(user_email TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN (
+    SELECT locked_until FROM public.profiles
+    WHERE lower(email) = lower(user_email)
+    AND locked_until > NOW()
+  );
+END;
+$$;
+
+-- Records a failed login and locks the account once the configured
+-- max_login_attempts is reached. Limits are read from app_settings here
+-- rather than passed in, so callers cannot choose their own lockout policy.
+-- Returns the lockout expiry when the account is (now) locked, otherwise NULL.
+CREATE OR REPLACE FUNCTION public.record_failed_login(user_email TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  security_settings JSONB;
+  max_attempts INTEGER;
+  lockout_minutes INTEGER;
+  new_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT value INTO security_settings FROM public.app_settings WHERE key = 'security';
+  max_attempts := COALESCE((security_settings->>'max_login_attempts')::INTEGER, 5);
+  lockout_minutes := COALESCE((security_settings->>'lockout_duration_minutes')::INTEGER, 30);
+
+  UPDATE public.profiles
+  SET
+    -- Start counting again once a previous lockout has expired
+    failed_login_attempts = CASE
+      WHEN locked_until IS NOT NULL AND locked_until <= NOW() THEN 1
+      ELSE failed_login_attempts + 1
+    END,
+    locked_until = CASE
+      WHEN locked_until IS NOT NULL AND locked_until <= NOW() THEN NULL
+      ELSE locked_until
+    END
+  WHERE lower(email) = lower(user_email);
+
+  UPDATE public.profiles
+  SET locked_until = NOW() + make_interval(mins => lockout_minutes)
+  WHERE lower(email) = lower(user_email)
+  AND failed_login_attempts >= max_attempts
+  AND locked_until IS NULL
+  RETURNING locked_until INTO new_locked_until;
+
+  RETURN COALESCE(new_locked_until, public.get_account_lockout(user_email));
+END;
+$$;
+
+-- Clears the failed attempt counter for the signed-in user after a successful login
+CREATE OR REPLACE FUNCTION public.reset_failed_logins()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET failed_login_attempts = 0, locked_until = NULL
+  WHERE id = auth.uid();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_account_lockout(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_failed_login(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reset_failed_logins() TO authenticated;
+
+-- Seed the lockout duration used by the security settings form
+UPDATE public.app_settings
+SET value = value || '{"lockout_duration_minutes": 30}'::JSONB
+WHERE key = 'security' AND NOT value ? 'lockout_duration_minutes';
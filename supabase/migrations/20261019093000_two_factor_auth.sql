@@ -0,0 +1,315 @@
+-- TOTP two-factor authentication
+--
+-- Secrets are generated and verified inside the database and are never
+-- returned once enrollment is confirmed, so a session obtained with only the
+-- password cannot read them. The table has RLS enabled without policies; all
+-- access goes through the SECURITY DEFINER functions below, keyed by auth.uid().
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS public.user_two_factor (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  secret BYTEA NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  recovery_code_hashes TEXT[] NOT NULL DEFAULT '{}',
+  -- Last accepted TOTP time step, so a code cannot be replayed
+  last_used_step BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  enabled_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.user_two_factor ENABLE ROW LEVEL SECURITY;
+
+-- Sessions that completed the second factor (Supabase JWT session_id claim)
+CREATE TABLE IF NOT EXISTS public.two_factor_sessions (
+  session_id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  verified_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_sessions_user_id ON public.two_factor_sessions(user_id);
+
+ALTER TABLE public.two_factor_sessions ENABLE ROW LEVEL SECURITY;
+
+-- RFC 6238 TOTP (SHA-1, 6 digits) for a given 30 second time step
+CREATE OR REPLACE FUNCTION public.totp_code(secret BYTEA, time_step BIGINT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  hash BYTEA;
+  byte_offset INTEGER;
+  binary_code BIGINT;
+BEGIN
+  hash := hmac(int8send(time_step), secret, 'sha1');
+  byte_offset := get_byte(hash, 19) & 15;
+  binary_code :=
+    ((get_byte(hash, byte_offset) & 127)::BIGINT << 24) |
+    (get_byte(hash, byte_offset + 1)::BIGINT << 16) |
+    (get_byte(hash, byte_offset + 2)::BIGINT << 8) |
+    get_byte(hash, byte_offset + 3)::BIGINT;
+
+  RETURN lpad((binary_code % 1000000)::TEXT, 6, '0');
+END;
+$$;
+
+-- Checks a TOTP code for a user, allowing one step of clock drift.
+-- Accepted steps are recorded so each code works only once.
+CREATE OR REPLACE FUNCTION public.check_totp_code(target_user_id UUID, code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  factor RECORD;
+  current_step BIGINT := floor(extract(epoch FROM NOW()) / 30)::BIGINT;
+  candidate_step BIGINT;
+BEGIN
+  IF code IS NULL OR code !~ '^\d{6}$' THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO factor FROM public.user_two_factor
+  WHERE user_id = target_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  FOR candidate_step IN current_step - 1 .. current_step + 1 LOOP
+    IF candidate_step > COALESCE(factor.last_used_step, 0)
+       AND public.totp_code(factor.secret, candidate_step) = code THEN
+      UPDATE public.user_two_factor
+      SET last_used_step = candidate_step
+      WHERE user_id = target_user_id;
+      RETURN true;
+    END IF;
+  END LOOP;
+
+  RETURN false;
+END;
+$$;
+
+-- Generates a fresh set of recovery codes, storing only their hashes
+CREATE OR REPLACE FUNCTION public.generate_two_factor_recovery_codes(target_user_id UUID)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  codes TEXT[] := '{}';
+  raw_code TEXT;
+BEGIN
+  FOR i IN 1..10 LOOP
+    raw_code := upper(encode(gen_random_bytes(5), 'hex'));
+    codes := codes || (substr(raw_code, 1, 5) || '-' || substr(raw_code, 6, 5));
+  END LOOP;
+
+  UPDATE public.user_two_factor
+  SET recovery_code_hashes = ARRAY(
+    SELECT encode(digest(replace(c, '-', ''), 'sha256'), 'hex') FROM unnest(codes) AS c
+  )
+  WHERE user_id = target_user_id;
+
+  RETURN codes;
+END;
+$$;
+
+-- Marks the caller's current session as having passed the second factor
+CREATE OR REPLACE FUNCTION public.mark_two_factor_session()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_session_id UUID := (auth.jwt() ->> 'session_id')::UUID;
+BEGIN
+  IF current_session_id IS NOT NULL THEN
+    INSERT INTO public.two_factor_sessions (session_id, user_id)
+    VALUES (current_session_id, auth.uid())
+    ON CONFLICT (session_id) DO UPDATE SET verified_at = NOW();
+  END IF;
+END;
+$$;
+
+-- Returns the caller's 2FA state
+CREATE OR REPLACE FUNCTION public.get_two_factor_status()
+RETURNS TABLE (
+  enabled BOOLEAN,
+  session_verified BOOLEAN,
+  recovery_codes_remaining INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COALESCE(f.enabled, false),
+    EXISTS (
+      SELECT 1 FROM public.two_factor_sessions s
+      WHERE s.user_id = auth.uid()
+      AND s.session_id = (auth.jwt() ->> 'session_id')::UUID
+    ),
+    COALESCE(cardinality(f.recovery_code_hashes), 0)
+  FROM (SELECT auth.uid() AS id) u
+  LEFT JOIN public.user_two_factor f ON f.user_id = u.id;
+END;
+$$;
+
+-- Starts (or restarts) enrollment and returns the new secret as hex.
+-- Only allowed while 2FA is not yet enabled for the caller.
+CREATE OR REPLACE FUNCTION public.begin_two_factor_enrollment()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  new_secret BYTEA := gen_random_bytes(20);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.user_two_factor WHERE user_id = auth.uid() AND enabled) THEN
+    RAISE EXCEPTION 'Two-factor authentication is already enabled';
+  END IF;
+
+  INSERT INTO public.user_two_factor (user_id, secret)
+  VALUES (auth.uid(), new_secret)
+  ON CONFLICT (user_id) DO UPDATE
+  SET secret = EXCLUDED.secret, last_used_step = NULL, recovery_code_hashes = '{}', created_at = NOW();
+
+  RETURN encode(new_secret, 'hex');
+END;
+$$;
+
+-- Confirms enrollment with a code from the authenticator app.
+-- Returns the recovery codes (shown once), or NULL when the code is wrong.
+CREATE OR REPLACE FUNCTION public.confirm_two_factor_enrollment(code TEXT)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.user_two_factor WHERE user_id = auth.uid() AND NOT enabled) THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT public.check_totp_code(auth.uid(), code) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.user_two_factor
+  SET enabled = true, enabled_at = NOW()
+  WHERE user_id = auth.uid();
+
+  PERFORM public.mark_two_factor_session();
+
+  RETURN public.generate_two_factor_recovery_codes(auth.uid());
+END;
+$$;
+
+-- Verifies a TOTP or recovery code for the caller's enabled factor.
+-- Recovery codes are single use. A successful check marks the session verified.
+CREATE OR REPLACE FUNCTION public.verify_two_factor_code(code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  normalized_code TEXT := upper(regexp_replace(COALESCE(code, ''), '[\s-]', '', 'g'));
+  code_hash TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.user_two_factor WHERE user_id = auth.uid() AND enabled) THEN
+    RETURN false;
+  END IF;
+
+  IF normalized_code ~ '^\d{6}$' THEN
+    IF NOT public.check_totp_code(auth.uid(), normalized_code) THEN
+      RETURN false;
+    END IF;
+  ELSE
+    code_hash := encode(digest(normalized_code, 'sha256'), 'hex');
+
+    UPDATE public.user_two_factor
+    SET recovery_code_hashes = array_remove(recovery_code_hashes, code_hash)
+    WHERE user_id = auth.uid()
+    AND code_hash = ANY(recovery_code_hashes);
+
+    IF NOT FOUND THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  PERFORM public.mark_two_factor_session();
+  RETURN true;
+END;
+$$;
+
+-- Replaces the recovery codes; requires a current TOTP code
+CREATE OR REPLACE FUNCTION public.regenerate_two_factor_recovery_codes(code TEXT)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.user_two_factor WHERE user_id = auth.uid() AND enabled) THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT public.check_totp_code(auth.uid(), code) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN public.generate_two_factor_recovery_codes(auth.uid());
+END;
+$$;
+
+-- Turns 2FA off; requires a current TOTP or recovery code
+CREATE OR REPLACE FUNCTION public.disable_two_factor(code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.verify_two_factor_code(code) THEN
+    RETURN false;
+  END IF;
+
+  DELETE FROM public.user_two_factor WHERE user_id = auth.uid();
+  DELETE FROM public.two_factor_sessions WHERE user_id = auth.uid();
+  RETURN true;
+END;
+$$;
+
+-- Internal helpers take a user id, so they must not be callable directly
+REVOKE ALL ON FUNCTION public.totp_code(BYTEA, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.check_totp_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.generate_two_factor_recovery_codes(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.mark_two_factor_session() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.get_two_factor_status() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.begin_two_factor_enrollment() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_two_factor_enrollment(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_two_factor_code(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.regenerate_two_factor_recovery_codes(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.disable_two_factor(TEXT) TO authenticated;
+
+-- Seed the admin requirement used by the security settings form
+UPDATE public.app_settings
+SET value = value || '{"require_two_factor_for_admins": false}'::JSONB
+WHERE key = 'security' AND NOT value ? 'require_two_factor_for_admins';
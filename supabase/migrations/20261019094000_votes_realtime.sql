@@ -0,0 +1,19 @@
+-- Broadcast vote changes for live poll results
+-- Votes are already readable by everyone under RLS, so the realtime payloads
+-- expose nothing new. Delete events cannot be filtered server-side, so the
+-- full old row is replicated to let clients match deletes by poll_id.
+
+ALTER TABLE public.votes REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'votes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.votes;
+  END IF;
+END;
+$$;
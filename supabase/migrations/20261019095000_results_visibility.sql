@@ -0,0 +1,195 @@
+-- Per-poll results visibility
+--
+-- 'always'       results are public (existing behaviour)
+-- 'after_vote'   results are shown to people who have voted, and to everyone once the poll closes
+-- 'after_close'  results are shown once the poll is closed or expired
+-- 'creator_only' only the poll creator (and admins) can see results
+--
+-- Enforced in the database: the votes SELECT policy, the poll_results view and
+-- get_poll_with_results all go through can_view_poll_results.
+
+ALTER TABLE public.polls
+ADD COLUMN IF NOT EXISTS results_visibility TEXT NOT NULL DEFAULT 'always'
+  CHECK (results_visibility IN ('always', 'after_vote', 'after_close', 'creator_only'));
+
+-- Whether the caller may see results for a poll. Anonymous voters are
+-- identified by IP, which only server code knows, so it is passed in.
+CREATE OR REPLACE FUNCTION public.can_view_poll_results(poll_uuid UUID, voter_ip TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll RECORD;
+  is_closed BOOLEAN;
+BEGIN
+  SELECT creator_id, is_active, expires_at, results_visibility
+  INTO target_poll
+  FROM public.polls
+  WHERE id = poll_uuid;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF target_poll.results_visibility = 'always'
+     OR target_poll.creator_id = auth.uid()
+     OR public.is_admin() THEN
+    RETURN true;
+  END IF;
+
+  is_closed := NOT COALESCE(target_poll.is_active, true)
+    OR (target_poll.expires_at IS NOT NULL AND target_poll.expires_at <= NOW());
+
+  CASE target_poll.results_visibility
+    WHEN 'after_close' THEN
+      RETURN is_closed;
+    WHEN 'after_vote' THEN
+      RETURN is_closed OR EXISTS (
+        SELECT 1 FROM public.votes v
+        WHERE v.poll_id = poll_uuid
+        AND (
+          (auth.uid() IS NOT NULL AND v.user_id = auth.uid())
+          OR (auth.uid() IS NULL AND voter_ip IS NOT NULL AND v.user_id IS NULL AND host(v.ip_address) = voter_ip)
+        )
+      );
+    ELSE
+      RETURN false;
+  END CASE;
+END;
+$$;
+
+-- The caller's own votes on a poll (by user, or by IP for anonymous voters).
+-- Lets duplicate-vote checks work even when the poll's results are hidden.
+CREATE OR REPLACE FUNCTION public.get_voter_votes(poll_uuid UUID, voter_ip TEXT DEFAULT NULL)
+RETURNS TABLE (id UUID, option_id UUID, rank INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RETURN QUERY
+    SELECT v.id, v.option_id, v.rank FROM public.votes v
+    WHERE v.poll_id = poll_uuid AND v.user_id = auth.uid();
+  ELSIF voter_ip IS NOT NULL THEN
+    RETURN QUERY
+    SELECT v.id, v.option_id, v.rank FROM public.votes v
+    WHERE v.poll_id = poll_uuid AND v.user_id IS NULL AND host(v.ip_address) = voter_ip;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_view_poll_results(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_voter_votes(UUID, TEXT) TO anon, authenticated;
+
+-- Individual votes are only readable when the poll's results are.
+-- Realtime applies this policy to each subscriber of the votes publication
+-- (20261019094000_votes_realtime.sql), so live payloads expose nothing a
+-- client could not already read. Because votes has RLS enabled, DELETE
+-- payloads carry only the primary key and can't be matched to a poll.
+DROP POLICY IF EXISTS "Votes are viewable by everyone" ON public.votes;
+CREATE POLICY "Votes are viewable when results are visible" ON public.votes
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR public.can_view_poll_results(poll_id)
+  );
+
+-- Only list polls whose results the caller may see
+CREATE OR REPLACE VIEW public.poll_results AS
+SELECT
+  p.id as poll_id,
+  p.title,
+  p.description,
+  p.creator_id,
+  p.is_active,
+  p.allow_multiple_choices,
+  p.created_at as poll_created_at,
+  po.id as option_id,
+  po.text as option_text,
+  po.order_index,
+  COALESCE(vote_counts.vote_count, 0) as vote_count,
+  COALESCE(total_votes.total, 0) as total_poll_votes,
+  p.results_visibility
+FROM public.polls p
+LEFT JOIN public.poll_options po ON p.id = po.poll_id
+LEFT JOIN (
+  SELECT
+    option_id,
+    COUNT(*) as vote_count
+  FROM public.votes
+  GROUP BY option_id
+) vote_counts ON po.id = vote_counts.option_id
+LEFT JOIN (
+  SELECT
+    poll_id,
+    COUNT(*) as total
+  FROM public.votes
+  GROUP BY poll_id
+) total_votes ON p.id = total_votes.poll_id
+WHERE public.can_view_poll_results(p.id)
+ORDER BY p.created_at DESC, po.order_index ASC;
+
+-- Hidden results come back with NULL counts
+CREATE OR REPLACE FUNCTION get_poll_with_results(poll_uuid UUID)
+RETURNS TABLE(
+  poll_id UUID,
+  title TEXT,
+  description TEXT,
+  creator_id UUID,
+  creator_email TEXT,
+  creator_username TEXT,
+  is_active BOOLEAN,
+  allow_multiple_choices BOOLEAN,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  option_id UUID,
+  option_text TEXT,
+  order_index INTEGER,
+  vote_count BIGINT,
+  total_votes BIGINT
+) AS $$
+DECLARE
+  results_visible BOOLEAN := public.can_view_poll_results(poll_uuid);
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.creator_id,
+    pr.email,
+    pr.username,
+    p.is_active,
+    p.allow_multiple_choices,
+    p.expires_at,
+    p.created_at,
+    p.updated_at,
+    po.id,
+    po.text,
+    po.order_index,
+    CASE WHEN results_visible THEN COALESCE(v.vote_count, 0::bigint) END,
+    CASE WHEN results_visible THEN COALESCE(tv.total, 0::bigint) END
+  FROM public.polls p
+  LEFT JOIN public.profiles pr ON p.creator_id = pr.id
+  LEFT JOIN public.poll_options po ON p.id = po.poll_id
+  LEFT JOIN (
+    SELECT votes.option_id, COUNT(*) as vote_count
+    FROM public.votes
+    GROUP BY votes.option_id
+  ) v ON po.id = v.option_id
+  LEFT JOIN (
+    SELECT votes.poll_id, COUNT(*) as total
+    FROM public.votes
+    GROUP BY votes.poll_id
+  ) tv ON p.id = tv.poll_id
+  WHERE p.id = poll_uuid
+  ORDER BY po.order_index ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE INDEX IF NOT EXISTS idx_votes_poll_id_ip_address ON public.votes(poll_id, ip_address);
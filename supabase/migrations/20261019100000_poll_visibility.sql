@@ -0,0 +1,373 @@
+-- Poll visibility: public, unlisted and private polls
+--
+-- 'public'   listed and readable by everyone (existing behaviour)
+-- 'unlisted' readable by anyone with the link, but left out of poll listings
+-- 'private'  readable and voteable only by the creator, admins and eligible
+--            voters: users on the poll's voter list (by user id or email) or
+--            signed-in users who redeemed a signed invite link
+--
+-- Invite tokens are "<expiry epoch>.<hex HMAC-SHA256>" signed with a per-poll
+-- secret that never leaves the database. Resetting the secret revokes every
+-- outstanding link; voters who already redeemed one stay on the list.
+
+ALTER TABLE public.polls
+ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'public'
+  CHECK (visibility IN ('public', 'unlisted', 'private'));
+
+CREATE INDEX IF NOT EXISTS idx_polls_visibility ON public.polls(visibility);
+
+-- Eligible voters for private polls
+CREATE TABLE IF NOT EXISTS public.poll_voters (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  email TEXT,
+  -- 'list' entries are managed by the creator, 'invite' entries come from redeemed links
+  added_via TEXT NOT NULL DEFAULT 'list' CHECK (added_via IN ('list', 'invite')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((user_id IS NULL) <> (email IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_poll_voters_poll_user
+  ON public.poll_voters(poll_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_poll_voters_poll_email
+  ON public.poll_voters(poll_id, lower(email)) WHERE email IS NOT NULL;
+
+ALTER TABLE public.poll_voters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Poll creators and admins can manage voter lists" ON public.poll_voters
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.polls
+      WHERE polls.id = poll_voters.poll_id
+      AND polls.creator_id = auth.uid()
+    ) OR public.is_admin()
+  );
+
+CREATE POLICY "Users can view their own voter entries" ON public.poll_voters
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Per-poll invite signing secrets (RLS on, no policies: functions only)
+CREATE TABLE IF NOT EXISTS public.poll_invite_secrets (
+  poll_id UUID PRIMARY KEY REFERENCES public.polls(id) ON DELETE CASCADE,
+  secret BYTEA NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.poll_invite_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Whether the caller is on a poll's voter list
+CREATE OR REPLACE FUNCTION public.is_poll_voter(poll_uuid UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.poll_voters v
+    WHERE v.poll_id = poll_uuid
+    AND (
+      v.user_id = auth.uid()
+      OR (v.email IS NOT NULL AND lower(v.email) = lower(auth.email()))
+    )
+  );
+$$;
+
+-- Why the caller can or cannot open a poll:
+-- 'granted', 'not_found', 'sign_in_required' or 'not_eligible'.
+-- Private polls report their existence to callers who are denied so the app
+-- can explain the denial; poll ids are random UUIDs.
+CREATE OR REPLACE FUNCTION public.get_poll_access_status(poll_uuid UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll RECORD;
+BEGIN
+  SELECT creator_id, visibility INTO target_poll
+  FROM public.polls
+  WHERE id = poll_uuid;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF target_poll.visibility <> 'private'
+     OR target_poll.creator_id = auth.uid()
+     OR public.is_admin()
+     OR public.is_poll_voter(poll_uuid) THEN
+    RETURN 'granted';
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN 'sign_in_required';
+  END IF;
+
+  RETURN 'not_eligible';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_poll(poll_uuid UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.get_poll_access_status(poll_uuid) = 'granted';
+$$;
+
+-- Signature for an invite token expiring at the given epoch
+CREATE OR REPLACE FUNCTION public.poll_invite_signature(poll_uuid UUID, expires_epoch BIGINT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT encode(hmac(poll_uuid::TEXT || ':' || expires_epoch::TEXT, s.secret, 'sha256'), 'hex')
+  FROM public.poll_invite_secrets s
+  WHERE s.poll_id = poll_uuid;
+$$;
+
+-- Creates a signed invite link token for a poll (creator or admin only)
+CREATE OR REPLACE FUNCTION public.create_poll_invite_token(poll_uuid UUID, valid_hours INTEGER DEFAULT 168)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  expires_epoch BIGINT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE id = poll_uuid
+    AND (creator_id = auth.uid() OR public.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Only the poll creator can create invite links';
+  END IF;
+
+  IF valid_hours IS NULL OR valid_hours < 1 OR valid_hours > 8760 THEN
+    RAISE EXCEPTION 'Invite links must be valid for between 1 hour and 1 year';
+  END IF;
+
+  INSERT INTO public.poll_invite_secrets (poll_id, secret)
+  VALUES (poll_uuid, gen_random_bytes(32))
+  ON CONFLICT (poll_id) DO NOTHING;
+
+  expires_epoch := floor(extract(epoch FROM NOW()))::BIGINT + valid_hours * 3600;
+
+  RETURN expires_epoch::TEXT || '.' || public.poll_invite_signature(poll_uuid, expires_epoch);
+END;
+$$;
+
+-- Revokes every outstanding invite link for a poll (creator or admin only)
+CREATE OR REPLACE FUNCTION public.reset_poll_invite_links(poll_uuid UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE id = poll_uuid
+    AND (creator_id = auth.uid() OR public.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Only the poll creator can reset invite links';
+  END IF;
+
+  DELETE FROM public.poll_invite_secrets WHERE poll_id = poll_uuid;
+END;
+$$;
+
+-- Redeems an invite token, adding the signed-in caller to the voter list.
+-- Returns 'accepted', 'invalid', 'expired', 'sign_in_required' or 'not_found'.
+CREATE OR REPLACE FUNCTION public.redeem_poll_invite(poll_uuid UUID, token TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expires_epoch BIGINT;
+  expected_signature TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.polls WHERE id = poll_uuid) THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF token IS NULL OR token !~ '^[0-9]{1,12}\.[0-9a-f]{64}$' THEN
+    RETURN 'invalid';
+  END IF;
+
+  expires_epoch := split_part(token, '.', 1)::BIGINT;
+  expected_signature := public.poll_invite_signature(poll_uuid, expires_epoch);
+
+  IF expected_signature IS NULL OR expected_signature <> split_part(token, '.', 2) THEN
+    RETURN 'invalid';
+  END IF;
+
+  IF expires_epoch < extract(epoch FROM NOW()) THEN
+    RETURN 'expired';
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN 'sign_in_required';
+  END IF;
+
+  IF public.get_poll_access_status(poll_uuid) <> 'granted' THEN
+    INSERT INTO public.poll_voters (poll_id, user_id, added_via)
+    VALUES (poll_uuid, auth.uid(), 'invite')
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN 'accepted';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.poll_invite_signature(UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.is_poll_voter(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_poll_access_status(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.can_access_poll(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_poll_invite_token(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reset_poll_invite_links(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_poll_invite(UUID, TEXT) TO anon, authenticated;
+
+-- Private polls are hidden from everyone who is not eligible. Options follow
+-- their poll, and the votes INSERT policy already requires the poll to be
+-- readable, so ineligible users cannot vote either.
+DROP POLICY IF EXISTS "Polls are viewable by everyone" ON public.polls;
+CREATE POLICY "Polls are viewable by eligible users" ON public.polls
+  FOR SELECT USING (
+    visibility <> 'private'
+    OR auth.uid() = creator_id
+    OR public.is_admin()
+    OR public.is_poll_voter(id)
+  );
+
+DROP POLICY IF EXISTS "Poll options are viewable by everyone" ON public.poll_options;
+CREATE POLICY "Poll options are viewable with their poll" ON public.poll_options
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.polls
+      WHERE polls.id = poll_options.poll_id
+    )
+  );
+
+-- Results of a private poll are never visible to someone who cannot open it
+CREATE OR REPLACE FUNCTION public.can_view_poll_results(poll_uuid UUID, voter_ip TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll RECORD;
+  is_closed BOOLEAN;
+BEGIN
+  IF NOT public.can_access_poll(poll_uuid) THEN
+    RETURN false;
+  END IF;
+
+  SELECT creator_id, is_active, expires_at, results_visibility
+  INTO target_poll
+  FROM public.polls
+  WHERE id = poll_uuid;
+
+  IF target_poll.results_visibility = 'always'
+     OR target_poll.creator_id = auth.uid()
+     OR public.is_admin() THEN
+    RETURN true;
+  END IF;
+
+  is_closed := NOT COALESCE(target_poll.is_active, true)
+    OR (target_poll.expires_at IS NOT NULL AND target_poll.expires_at <= NOW());
+
+  CASE target_poll.results_visibility
+    WHEN 'after_close' THEN
+      RETURN is_closed;
+    WHEN 'after_vote' THEN
+      RETURN is_closed OR EXISTS (
+        SELECT 1 FROM public.votes v
+        WHERE v.poll_id = poll_uuid
+        AND (
+          (auth.uid() IS NOT NULL AND v.user_id = auth.uid())
+          OR (auth.uid() IS NULL AND voter_ip IS NOT NULL AND v.user_id IS NULL AND host(v.ip_address) = voter_ip)
+        )
+      );
+    ELSE
+      RETURN false;
+  END CASE;
+END;
+$$;
+
+-- get_poll_with_results runs as its owner, so it checks access itself
+CREATE OR REPLACE FUNCTION get_poll_with_results(poll_uuid UUID)
+RETURNS TABLE(
+  poll_id UUID,
+  title TEXT,
+  description TEXT,
+  creator_id UUID,
+  creator_email TEXT,
+  creator_username TEXT,
+  is_active BOOLEAN,
+  allow_multiple_choices BOOLEAN,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  option_id UUID,
+  option_text TEXT,
+  order_index INTEGER,
+  vote_count BIGINT,
+  total_votes BIGINT
+) AS $$
+DECLARE
+  results_visible BOOLEAN := public.can_view_poll_results(poll_uuid);
+BEGIN
+  IF NOT public.can_access_poll(poll_uuid) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.creator_id,
+    pr.email,
+    pr.username,
+    p.is_active,
+    p.allow_multiple_choices,
+    p.expires_at,
+    p.created_at,
+    p.updated_at,
+    po.id,
+    po.text,
+    po.order_index,
+    CASE WHEN results_visible THEN COALESCE(v.vote_count, 0::bigint) END,
+    CASE WHEN results_visible THEN COALESCE(tv.total, 0::bigint) END
+  FROM public.polls p
+  LEFT JOIN public.profiles pr ON p.creator_id = pr.id
+  LEFT JOIN public.poll_options po ON p.id = po.poll_id
+  LEFT JOIN (
+    SELECT votes.option_id, COUNT(*) as vote_count
+    FROM public.votes
+    GROUP BY votes.option_id
+  ) v ON po.id = v.option_id
+  LEFT JOIN (
+    SELECT votes.poll_id, COUNT(*) as total
+    FROM public.votes
+    GROUP BY votes.poll_id
+  ) tv ON p.id = tv.poll_id
+  WHERE p.id = poll_uuid
+  ORDER BY po.order_index ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,80 @@
+-- Draft polls and scheduled opening
+--
+-- status 'draft'     only the creator (and admins) can see the poll; nobody can vote
+-- status 'published' the poll is live, subject to opens_at
+-- opens_at           optional time before which a published poll is visible but
+--                    not open for voting. The poll-notifications edge function
+--                    emails followers once it passes.
+
+ALTER TABLE public.polls
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published'
+  CHECK (status IN ('draft', 'published')),
+ADD COLUMN IF NOT EXISTS opens_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_polls_status ON public.polls(status);
+CREATE INDEX IF NOT EXISTS idx_polls_opens_at ON public.polls(opens_at) WHERE opens_at IS NOT NULL;
+
+-- Drafts are hidden from everyone but their creator and admins
+DROP POLICY IF EXISTS "Polls are viewable by eligible users" ON public.polls;
+CREATE POLICY "Polls are viewable by eligible users" ON public.polls
+  FOR SELECT USING (
+    auth.uid() = creator_id
+    OR public.is_admin()
+    OR (
+      status = 'published'
+      AND (visibility <> 'private' OR public.is_poll_voter(id))
+    )
+  );
+
+-- Votes are only accepted once a poll is published and open
+DROP POLICY IF EXISTS "Anyone can vote on active polls" ON public.votes;
+CREATE POLICY "Anyone can vote on open polls" ON public.votes
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.polls
+      WHERE polls.id = votes.poll_id
+      AND polls.is_active = true
+      AND polls.status = 'published'
+      AND (polls.opens_at IS NULL OR polls.opens_at <= NOW())
+      AND (polls.expires_at IS NULL OR polls.expires_at > NOW())
+    )
+  );
+
+-- Drafts read as missing to anyone but their creator and admins
+CREATE OR REPLACE FUNCTION public.get_poll_access_status(poll_uuid UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll RECORD;
+BEGIN
+  SELECT creator_id, visibility, status INTO target_poll
+  FROM public.polls
+  WHERE id = poll_uuid;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF target_poll.creator_id = auth.uid() OR public.is_admin() THEN
+    RETURN 'granted';
+  END IF;
+
+  IF target_poll.status = 'draft' THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF target_poll.visibility <> 'private' OR public.is_poll_voter(poll_uuid) THEN
+    RETURN 'granted';
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN 'sign_in_required';
+  END IF;
+
+  RETURN 'not_eligible';
+END;
+$$;
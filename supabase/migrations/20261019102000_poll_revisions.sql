@@ -0,0 +1,226 @@
+-- Versioned poll edits
+--
+-- apply_poll_edit() is the single entry point for changing a poll's title,
+-- description or options once it exists. Every change is recorded in
+-- poll_revisions as a full snapshot (the original poll is kept as revision 0),
+-- so the poll page can show a diffable history. Votes on removed options are
+-- deleted, and the registered voters who cast them are recorded in
+-- poll_vote_invalidations: the poll page asks them to vote again and the
+-- poll-notifications edge function emails them.
+
+ALTER TABLE public.polls
+ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.poll_revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  revision_number INTEGER NOT NULL,
+  editor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- { title, description, options: [{ id, text, order_index }] }
+  snapshot JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (poll_id, revision_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.poll_vote_invalidations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  revision_id UUID REFERENCES public.poll_revisions(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  option_text TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  -- Set when the voter votes again or dismisses the notice
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  -- Set by the poll-notifications edge function
+  emailed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_poll_revisions_poll_id ON public.poll_revisions(poll_id, revision_number);
+CREATE INDEX IF NOT EXISTS idx_poll_vote_invalidations_user ON public.poll_vote_invalidations(user_id, poll_id);
+CREATE INDEX IF NOT EXISTS idx_poll_vote_invalidations_unsent ON public.poll_vote_invalidations(created_at)
+  WHERE emailed_at IS NULL;
+
+ALTER TABLE public.poll_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_vote_invalidations ENABLE ROW LEVEL SECURITY;
+
+-- History is public to anyone who can open the poll; rows are only written by apply_poll_edit
+CREATE POLICY "Poll revisions are viewable with their poll" ON public.poll_revisions
+  FOR SELECT USING (public.can_access_poll(poll_id));
+
+CREATE POLICY "Users can view their own vote invalidations" ON public.poll_vote_invalidations
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can acknowledge their own vote invalidations" ON public.poll_vote_invalidations
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Option renames and reorders must go through apply_poll_edit so they are versioned
+DROP POLICY IF EXISTS "Poll creators and admins can update poll options" ON public.poll_options;
+
+-- Snapshot of the versioned parts of a poll
+CREATE OR REPLACE FUNCTION public.poll_revision_snapshot(poll_uuid UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'title', p.title,
+    'description', p.description,
+    'options', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object('id', o.id, 'text', o.text, 'order_index', o.order_index)
+        ORDER BY o.order_index, o.created_at
+      )
+      FROM public.poll_options o
+      WHERE o.poll_id = p.id
+    ), '[]'::jsonb)
+  )
+  FROM public.polls p
+  WHERE p.id = poll_uuid;
+$$;
+
+-- Edit a poll (creator or admin). NULL arguments leave that part unchanged;
+-- an empty description clears it. new_options is the complete ordered list:
+-- [{ "id": <existing option id>, "text": ... } | { "text": ... }]. Existing
+-- options left out of the list are removed together with their votes.
+CREATE OR REPLACE FUNCTION public.apply_poll_edit(
+  poll_uuid UUID,
+  new_title TEXT DEFAULT NULL,
+  new_description TEXT DEFAULT NULL,
+  new_options JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll RECORD;
+  before_snapshot JSONB;
+  after_snapshot JSONB;
+  kept_ids UUID[] := '{}';
+  removed_voters JSONB := '[]'::jsonb;
+  invalidated_count INTEGER := 0;
+  option_entry JSONB;
+  option_position INTEGER := 1;
+  next_revision INTEGER;
+  new_revision_id UUID;
+BEGIN
+  SELECT id, creator_id, created_at INTO target_poll
+  FROM public.polls
+  WHERE id = poll_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF target_poll.creator_id IS DISTINCT FROM auth.uid() AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only the poll creator can edit this poll' USING ERRCODE = '42501';
+  END IF;
+
+  before_snapshot := public.poll_revision_snapshot(poll_uuid);
+
+  IF new_title IS NOT NULL THEN
+    IF length(trim(new_title)) = 0 THEN
+      RAISE EXCEPTION 'Title cannot be empty' USING ERRCODE = '22023';
+    END IF;
+    UPDATE public.polls SET title = trim(new_title) WHERE id = poll_uuid;
+  END IF;
+
+  IF new_description IS NOT NULL THEN
+    UPDATE public.polls SET description = NULLIF(trim(new_description), '') WHERE id = poll_uuid;
+  END IF;
+
+  IF new_options IS NOT NULL THEN
+    IF jsonb_typeof(new_options) <> 'array' OR jsonb_array_length(new_options) < 2 THEN
+      RAISE EXCEPTION 'A poll needs at least two options' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(new_options) entry
+      WHERE length(trim(COALESCE(entry->>'text', ''))) = 0
+    ) THEN
+      RAISE EXCEPTION 'Options cannot be empty' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT COALESCE(array_agg((entry->>'id')::uuid), '{}') INTO kept_ids
+    FROM jsonb_array_elements(new_options) entry
+    WHERE entry->>'id' IS NOT NULL;
+
+    IF cardinality(kept_ids) <> (SELECT count(DISTINCT kept.option_id)::int FROM unnest(kept_ids) AS kept(option_id))
+       OR EXISTS (
+         SELECT 1 FROM unnest(kept_ids) AS kept(option_id)
+         WHERE NOT EXISTS (
+           SELECT 1 FROM public.poll_options o WHERE o.id = kept.option_id AND o.poll_id = poll_uuid
+         )
+       ) THEN
+      RAISE EXCEPTION 'Options must belong to this poll and appear once' USING ERRCODE = '22023';
+    END IF;
+
+    -- Capture voters on removed options before the cascade deletes their votes
+    SELECT
+      COALESCE(jsonb_agg(DISTINCT jsonb_build_object('user_id', v.user_id, 'option_text', o.text))
+        FILTER (WHERE v.user_id IS NOT NULL), '[]'::jsonb),
+      count(v.id)
+    INTO removed_voters, invalidated_count
+    FROM public.votes v
+    JOIN public.poll_options o ON o.id = v.option_id
+    WHERE v.poll_id = poll_uuid
+    AND NOT (o.id = ANY(kept_ids));
+
+    DELETE FROM public.poll_options
+    WHERE poll_id = poll_uuid
+    AND NOT (id = ANY(kept_ids));
+
+    FOR option_entry IN SELECT value FROM jsonb_array_elements(new_options) LOOP
+      IF option_entry->>'id' IS NOT NULL THEN
+        UPDATE public.poll_options
+        SET text = trim(option_entry->>'text'), order_index = option_position
+        WHERE id = (option_entry->>'id')::uuid;
+      ELSE
+        INSERT INTO public.poll_options (poll_id, text, order_index)
+        VALUES (poll_uuid, trim(option_entry->>'text'), option_position);
+      END IF;
+      option_position := option_position + 1;
+    END LOOP;
+  END IF;
+
+  after_snapshot := public.poll_revision_snapshot(poll_uuid);
+
+  IF after_snapshot = before_snapshot THEN
+    RETURN jsonb_build_object('changed', false, 'revision_number', NULL, 'invalidated_votes', 0);
+  END IF;
+
+  -- The first edit also records the poll as it was created
+  IF NOT EXISTS (SELECT 1 FROM public.poll_revisions WHERE poll_id = poll_uuid) THEN
+    INSERT INTO public.poll_revisions (poll_id, revision_number, editor_id, snapshot, created_at)
+    VALUES (poll_uuid, 0, target_poll.creator_id, before_snapshot, target_poll.created_at);
+  END IF;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO next_revision
+  FROM public.poll_revisions
+  WHERE poll_id = poll_uuid;
+
+  INSERT INTO public.poll_revisions (poll_id, revision_number, editor_id, snapshot)
+  VALUES (poll_uuid, next_revision, auth.uid(), after_snapshot)
+  RETURNING id INTO new_revision_id;
+
+  INSERT INTO public.poll_vote_invalidations (poll_id, revision_id, user_id, option_text)
+  SELECT poll_uuid, new_revision_id, voter.user_id, voter.option_text
+  FROM jsonb_to_recordset(removed_voters) AS voter(user_id UUID, option_text TEXT);
+
+  UPDATE public.polls SET edited_at = NOW() WHERE id = poll_uuid;
+
+  RETURN jsonb_build_object(
+    'changed', true,
+    'revision_number', next_revision,
+    'invalidated_votes', invalidated_count
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.poll_revision_snapshot(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.apply_poll_edit(UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_poll_edit(UUID, TEXT, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,107 @@
+-- Persistent sliding-window rate limiting
+--
+-- Each allowed request is logged as a row in rate_limit_hits under a bucket
+-- key such as 'vote:203.0.113.7' or 'poll_creation:<user id>'. A request is
+-- allowed when fewer than max_hits rows for its bucket fall inside the last
+-- window. The limits themselves live in app_settings ('rate_limits') and are
+-- read by the application; see lib/rate-limit.ts.
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_hits (
+  id BIGSERIAL PRIMARY KEY,
+  bucket TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_bucket_created_at
+  ON public.rate_limit_hits(bucket, created_at);
+
+-- Only reachable through rate_limit_hit()
+ALTER TABLE public.rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+-- Records a hit against a bucket if it is under its limit.
+-- Requests are rate limited before the caller is known (logins, anonymous
+-- votes), so this runs as SECURITY DEFINER. Calling it directly only ever
+-- adds hits, at most max_hits per window, so it cannot be used to lift a limit.
+-- Returns { allowed, count, reset_after_ms } where count includes this hit
+-- when allowed, and reset_after_ms is how long until the oldest hit in the
+-- window expires and frees a slot.
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(bucket_key TEXT, window_ms INTEGER, max_hits INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  window_start TIMESTAMP WITH TIME ZONE;
+  hit_count INTEGER;
+  oldest TIMESTAMP WITH TIME ZONE;
+  is_allowed BOOLEAN;
+BEGIN
+  IF bucket_key IS NULL OR length(bucket_key) = 0 OR length(bucket_key) > 200 THEN
+    RAISE EXCEPTION 'Invalid rate limit bucket' USING ERRCODE = '22023';
+  END IF;
+
+  IF window_ms IS NULL OR window_ms <= 0 OR max_hits IS NULL OR max_hits <= 0 THEN
+    RAISE EXCEPTION 'Invalid rate limit' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialise concurrent requests for the same bucket across instances
+  PERFORM pg_advisory_xact_lock(hashtext('rate_limit:' || bucket_key));
+
+  window_start := NOW() - make_interval(secs => window_ms / 1000.0);
+
+  DELETE FROM public.rate_limit_hits
+  WHERE bucket = bucket_key AND created_at <= window_start;
+
+  SELECT count(*), min(created_at) INTO hit_count, oldest
+  FROM public.rate_limit_hits
+  WHERE bucket = bucket_key;
+
+  is_allowed := hit_count < max_hits;
+
+  IF is_allowed THEN
+    INSERT INTO public.rate_limit_hits (bucket) VALUES (bucket_key);
+    hit_count := hit_count + 1;
+    oldest := COALESCE(oldest, NOW());
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allowed', is_allowed,
+    'count', hit_count,
+    'reset_after_ms', GREATEST(
+      ceil(EXTRACT(EPOCH FROM (oldest - window_start)) * 1000),
+      0
+    )::BIGINT
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rate_limit_hit(TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+-- Buckets that stop receiving traffic are only pruned by this sweep.
+-- Run periodically (e.g. from pg_cron) with the longest configured window.
+CREATE OR REPLACE FUNCTION public.prune_rate_limit_hits(older_than INTERVAL DEFAULT INTERVAL '1 day')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  removed INTEGER;
+BEGIN
+  DELETE FROM public.rate_limit_hits WHERE created_at < NOW() - older_than;
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  RETURN removed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.prune_rate_limit_hits(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Default limits, editable by admins
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('rate_limits', '{
+    "poll_creation": { "max_requests": 5, "window_seconds": 3600 },
+    "vote": { "max_requests": 3, "window_seconds": 60 },
+    "login": { "max_requests": 10, "window_seconds": 900 }
+  }', 'Request rate limits per user or IP address')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,306 @@
+-- Append-only vote audit log with a hash chain per poll
+--
+-- Every insert and delete on votes is recorded in vote_events:
+--   cast         a vote row was added
+--   changed      a vote row was added by a voter whose previous ballot they
+--                retracted (re-voting replaces the old ballot)
+--   retracted    a voter removed their own vote
+--   invalidated  a vote was removed by someone else: its option was removed
+--                by a poll edit, the poll or voter account was deleted, or an
+--                admin deleted it (see reason)
+--
+-- Events are anonymized: voters appear only as a salted hash, stable within
+-- one poll. Each event's hash covers the previous event's hash, so altering,
+-- dropping or reordering any event changes the chain head. Anyone who can see
+-- a poll's results can download its events and recompute both the chain and
+-- the tally (GET /api/polls/[id]/audit, lib/vote-audit.ts).
+--
+-- Hash input, joined with '|':
+--   prev_hash, poll_id, sequence_number, event_type, voter_hash, option_id,
+--   rank (or ''), reason (or ''), occurred_at
+-- The first event's prev_hash is 64 zeros.
+
+-- Per-poll chain state. No foreign key: the log outlives deleted polls.
+CREATE TABLE IF NOT EXISTS public.vote_event_chains (
+  poll_id UUID PRIMARY KEY,
+  -- Secret per poll so voter hashes cannot be matched to user ids or IPs
+  salt TEXT NOT NULL DEFAULT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+  head_hash TEXT NOT NULL DEFAULT repeat('0', 64),
+  event_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.vote_events (
+  id BIGSERIAL PRIMARY KEY,
+  poll_id UUID NOT NULL,
+  sequence_number INTEGER NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('cast', 'changed', 'retracted', 'invalidated')),
+  voter_hash TEXT NOT NULL,
+  option_id UUID NOT NULL,
+  rank INTEGER,
+  reason TEXT CHECK (reason IS NULL OR reason IN ('option_removed', 'poll_deleted', 'voter_deleted', 'removed_by_admin')),
+  -- UTC timestamp exactly as hashed (millisecond ISO 8601)
+  occurred_at TEXT NOT NULL,
+  prev_hash TEXT NOT NULL,
+  hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (poll_id, sequence_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vote_events_poll_voter ON public.vote_events(poll_id, voter_hash, sequence_number DESC);
+
+-- Only reachable through the functions below
+ALTER TABLE public.vote_event_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vote_events ENABLE ROW LEVEL SECURITY;
+
+-- Events can never be changed or removed, not even by the table owner
+CREATE OR REPLACE FUNCTION public.prevent_vote_event_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'vote_events is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS vote_events_append_only ON public.vote_events;
+CREATE TRIGGER vote_events_append_only
+  BEFORE UPDATE OR DELETE ON public.vote_events
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_vote_event_changes();
+
+DROP TRIGGER IF EXISTS vote_events_no_truncate ON public.vote_events;
+CREATE TRIGGER vote_events_no_truncate
+  BEFORE TRUNCATE ON public.vote_events
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_vote_event_changes();
+
+CREATE OR REPLACE FUNCTION public.vote_event_hash(
+  prev_hash TEXT,
+  poll_uuid UUID,
+  sequence_number INTEGER,
+  event_type TEXT,
+  voter_hash TEXT,
+  option_uuid UUID,
+  vote_rank INTEGER,
+  reason TEXT,
+  occurred_at TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(
+    prev_hash || '|' || poll_uuid::TEXT || '|' || sequence_number::TEXT || '|' ||
+    event_type || '|' || voter_hash || '|' || option_uuid::TEXT || '|' ||
+    COALESCE(vote_rank::TEXT, '') || '|' || COALESCE(reason, '') || '|' || occurred_at,
+    'UTF8'
+  )), 'hex');
+$$;
+
+-- Appends one event to a poll's chain. The chain row is locked so concurrent
+-- votes get consecutive sequence numbers. An added vote is logged as
+-- 'changed' when it follows the voter's own retraction (or another 'changed'
+-- row of the same ballot, i.e. in the same transaction).
+CREATE OR REPLACE FUNCTION public.append_vote_event(
+  poll_uuid UUID,
+  new_event_type TEXT,
+  voter_key TEXT,
+  option_uuid UUID,
+  vote_rank INTEGER,
+  event_reason TEXT,
+  event_time TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  chain RECORD;
+  voter TEXT;
+  last_event RECORD;
+  next_sequence INTEGER;
+  event_occurred_at TEXT;
+  event_hash TEXT;
+BEGIN
+  INSERT INTO public.vote_event_chains (poll_id)
+  VALUES (poll_uuid)
+  ON CONFLICT (poll_id) DO NOTHING;
+
+  SELECT salt, head_hash, event_count INTO chain
+  FROM public.vote_event_chains
+  WHERE poll_id = poll_uuid
+  FOR UPDATE;
+
+  voter := encode(sha256(convert_to(chain.salt || ':' || voter_key, 'UTF8')), 'hex');
+
+  IF new_event_type = 'cast' THEN
+    SELECT event_type, created_at INTO last_event
+    FROM public.vote_events
+    WHERE poll_id = poll_uuid AND voter_hash = voter
+    ORDER BY sequence_number DESC
+    LIMIT 1;
+
+    IF last_event.event_type = 'retracted'
+       OR (last_event.event_type = 'changed' AND last_event.created_at = NOW()) THEN
+      new_event_type := 'changed';
+    END IF;
+  END IF;
+
+  next_sequence := chain.event_count + 1;
+  event_occurred_at := to_char(event_time AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"');
+  event_hash := public.vote_event_hash(
+    chain.head_hash, poll_uuid, next_sequence, new_event_type, voter,
+    option_uuid, vote_rank, event_reason, event_occurred_at
+  );
+
+  INSERT INTO public.vote_events (
+    poll_id, sequence_number, event_type, voter_hash, option_id, rank,
+    reason, occurred_at, prev_hash, hash
+  ) VALUES (
+    poll_uuid, next_sequence, new_event_type, voter, option_uuid, vote_rank,
+    event_reason, event_occurred_at, chain.head_hash, event_hash
+  );
+
+  UPDATE public.vote_event_chains
+  SET head_hash = event_hash, event_count = next_sequence, updated_at = NOW()
+  WHERE poll_id = poll_uuid;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.append_vote_event(UUID, TEXT, TEXT, UUID, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Logs vote inserts and deletes, working out why a vote was deleted
+CREATE OR REPLACE FUNCTION public.log_vote_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  vote_row public.votes%ROWTYPE;
+  logged_event_type TEXT := 'retracted';
+  event_reason TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    vote_row := NEW;
+    logged_event_type := 'cast';
+  ELSE
+    vote_row := OLD;
+
+    -- Cascaded deletes run after the parent row is gone
+    IF NOT EXISTS (SELECT 1 FROM public.polls WHERE id = OLD.poll_id) THEN
+      event_reason := 'poll_deleted';
+    ELSIF NOT EXISTS (SELECT 1 FROM public.poll_options WHERE id = OLD.option_id) THEN
+      event_reason := 'option_removed';
+    ELSIF OLD.user_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = OLD.user_id) THEN
+      event_reason := 'voter_deleted';
+    ELSIF (OLD.user_id IS NOT NULL AND OLD.user_id IS DISTINCT FROM auth.uid())
+       OR (OLD.user_id IS NULL AND auth.uid() IS NOT NULL) THEN
+      event_reason := 'removed_by_admin';
+    END IF;
+
+    IF event_reason IS NOT NULL THEN
+      logged_event_type := 'invalidated';
+    END IF;
+  END IF;
+
+  PERFORM public.append_vote_event(
+    vote_row.poll_id,
+    logged_event_type,
+    COALESCE('user:' || vote_row.user_id::TEXT, 'ip:' || host(vote_row.ip_address), 'unknown'),
+    vote_row.option_id,
+    vote_row.rank,
+    event_reason
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.log_vote_event() FROM PUBLIC, anon, authenticated;
+
+-- Seed each existing poll's chain with its current votes, oldest first
+DO $$
+DECLARE
+  existing_vote RECORD;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.vote_events) THEN
+    FOR existing_vote IN
+      SELECT * FROM public.votes
+      ORDER BY poll_id, created_at, rank NULLS FIRST, id
+    LOOP
+      PERFORM public.append_vote_event(
+        existing_vote.poll_id,
+        'cast',
+        COALESCE('user:' || existing_vote.user_id::TEXT, 'ip:' || host(existing_vote.ip_address), 'unknown'),
+        existing_vote.option_id,
+        existing_vote.rank,
+        NULL,
+        COALESCE(existing_vote.created_at, NOW())
+      );
+    END LOOP;
+  END IF;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS votes_log_event ON public.votes;
+CREATE TRIGGER votes_log_event
+  AFTER INSERT OR DELETE ON public.votes
+  FOR EACH ROW EXECUTE FUNCTION public.log_vote_event();
+
+-- Chain head and, when the caller may see results, the anonymized event list.
+-- Deleted polls stay auditable by admins.
+-- Returns { poll_id, event_count, head_hash, events } with events NULL when hidden.
+CREATE OR REPLACE FUNCTION public.get_vote_audit(poll_uuid UUID, voter_ip TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  show_events BOOLEAN;
+  chain RECORD;
+  events JSONB;
+BEGIN
+  IF public.can_access_poll(poll_uuid) THEN
+    show_events := public.can_view_poll_results(poll_uuid, voter_ip);
+  ELSIF public.is_admin()
+     AND NOT EXISTS (SELECT 1 FROM public.polls WHERE id = poll_uuid)
+     AND EXISTS (SELECT 1 FROM public.vote_event_chains WHERE poll_id = poll_uuid) THEN
+    show_events := true;
+  ELSE
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT head_hash, event_count INTO chain
+  FROM public.vote_event_chains
+  WHERE poll_id = poll_uuid;
+
+  IF show_events THEN
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'sequence_number', e.sequence_number,
+      'event_type', e.event_type,
+      'voter_hash', e.voter_hash,
+      'option_id', e.option_id,
+      'rank', e.rank,
+      'reason', e.reason,
+      'occurred_at', e.occurred_at,
+      'prev_hash', e.prev_hash,
+      'hash', e.hash
+    ) ORDER BY e.sequence_number), '[]'::JSONB)
+    INTO events
+    FROM public.vote_events e
+    WHERE e.poll_id = poll_uuid;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'poll_id', poll_uuid,
+    'event_count', COALESCE(chain.event_count, 0),
+    'head_hash', COALESCE(chain.head_hash, repeat('0', 64)),
+    'events', events
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_vote_audit(UUID, TEXT) TO anon, authenticated;
@@ -0,0 +1,65 @@
+-- Site-wide announcements managed by admins
+--
+-- status 'draft'      only admins see it
+-- status 'scheduled'  goes live at starts_at
+-- status 'active'     live now
+-- status 'archived'   retired; kept for reference
+-- An announcement is live while active (or scheduled and past starts_at) and
+-- before ends_at, and is shown only to its target_audience.
+
+CREATE TABLE IF NOT EXISTS public.announcements (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 2000),
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'scheduled', 'active', 'archived')),
+  target_audience TEXT NOT NULL DEFAULT 'all'
+    CHECK (target_audience IN ('all', 'registered', 'admins')),
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (status <> 'scheduled' OR starts_at IS NOT NULL),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_announcements_status ON public.announcements(status);
+
+CREATE TRIGGER update_announcements_updated_at
+  BEFORE UPDATE ON public.announcements
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Signed-in users hide announcements individually
+CREATE TABLE IF NOT EXISTS public.announcement_dismissals (
+  announcement_id UUID REFERENCES public.announcements(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  dismissed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (announcement_id, user_id)
+);
+
+ALTER TABLE public.announcements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.announcement_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage announcements" ON public.announcements
+  FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+CREATE POLICY "Live announcements are viewable by their audience" ON public.announcements
+  FOR SELECT USING (
+    (
+      status = 'active'
+      OR (status = 'scheduled' AND starts_at <= NOW())
+    )
+    AND (ends_at IS NULL OR ends_at > NOW())
+    AND (
+      target_audience = 'all'
+      OR (target_audience = 'registered' AND auth.uid() IS NOT NULL)
+      OR (target_audience = 'admins' AND public.is_admin())
+    )
+  );
+
+CREATE POLICY "Users can view their own dismissals" ON public.announcement_dismissals
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can dismiss announcements" ON public.announcement_dismissals
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,320 @@
+-- Multi-question surveys
+--
+-- A survey groups several questions behind one link. Each question has its
+-- own options and single/multiple choice rule, and may be optional.
+-- Respondents get one survey_responses row, created when they start
+-- answering (start_survey_response) and completed when every answer is
+-- submitted together (submit_survey_response). Started-but-unfinished rows
+-- give the creator a completion rate.
+
+CREATE TABLE IF NOT EXISTS public.surveys (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  description TEXT,
+  creator_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  is_active BOOLEAN DEFAULT TRUE NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.survey_questions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  survey_id UUID REFERENCES public.surveys(id) ON DELETE CASCADE NOT NULL,
+  position INTEGER NOT NULL,
+  text TEXT NOT NULL CHECK (char_length(text) BETWEEN 1 AND 500),
+  allow_multiple_choices BOOLEAN DEFAULT FALSE NOT NULL,
+  is_required BOOLEAN DEFAULT TRUE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (survey_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.survey_question_options (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  question_id UUID REFERENCES public.survey_questions(id) ON DELETE CASCADE NOT NULL,
+  text TEXT NOT NULL CHECK (char_length(text) BETWEEN 1 AND 200),
+  order_index INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.survey_responses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  survey_id UUID REFERENCES public.surveys(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ip_address INET, -- For anonymous respondents
+  user_agent TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  CHECK (user_id IS NOT NULL OR ip_address IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS public.survey_answers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  response_id UUID REFERENCES public.survey_responses(id) ON DELETE CASCADE NOT NULL,
+  question_id UUID REFERENCES public.survey_questions(id) ON DELETE CASCADE NOT NULL,
+  option_id UUID REFERENCES public.survey_question_options(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (response_id, option_id)
+);
+
+-- One response per account, and per IP address for anonymous respondents
+CREATE UNIQUE INDEX IF NOT EXISTS idx_survey_responses_user
+  ON public.survey_responses(survey_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_survey_responses_ip
+  ON public.survey_responses(survey_id, ip_address) WHERE user_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_surveys_creator_id ON public.surveys(creator_id);
+CREATE INDEX IF NOT EXISTS idx_survey_question_options_question_id ON public.survey_question_options(question_id);
+CREATE INDEX IF NOT EXISTS idx_survey_answers_question_id ON public.survey_answers(question_id);
+
+CREATE TRIGGER update_surveys_updated_at
+  BEFORE UPDATE ON public.surveys
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.surveys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.survey_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.survey_question_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.survey_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.survey_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Surveys are viewable by everyone" ON public.surveys
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can create surveys" ON public.surveys
+  FOR INSERT WITH CHECK (auth.uid() = creator_id);
+
+CREATE POLICY "Survey creators and admins can update surveys" ON public.surveys
+  FOR UPDATE USING (auth.uid() = creator_id OR public.is_admin());
+
+CREATE POLICY "Survey creators and admins can delete surveys" ON public.surveys
+  FOR DELETE USING (auth.uid() = creator_id OR public.is_admin());
+
+CREATE POLICY "Survey questions are viewable by everyone" ON public.survey_questions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Survey creators can add questions" ON public.survey_questions
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.surveys s WHERE s.id = survey_id AND s.creator_id = auth.uid())
+  );
+
+CREATE POLICY "Survey options are viewable by everyone" ON public.survey_question_options
+  FOR SELECT USING (true);
+
+CREATE POLICY "Survey creators can add options" ON public.survey_question_options
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.survey_questions q
+      JOIN public.surveys s ON s.id = q.survey_id
+      WHERE q.id = question_id AND s.creator_id = auth.uid()
+    )
+  );
+
+-- Responses and answers are only written by the functions below
+CREATE POLICY "Survey responses are viewable by respondent, creator and admins" ON public.survey_responses
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR public.is_admin()
+    OR EXISTS (SELECT 1 FROM public.surveys s WHERE s.id = survey_id AND s.creator_id = auth.uid())
+  );
+
+CREATE POLICY "Survey answers are viewable by creator and admins" ON public.survey_answers
+  FOR SELECT USING (
+    public.is_admin()
+    OR EXISTS (
+      SELECT 1 FROM public.survey_questions q
+      JOIN public.surveys s ON s.id = q.survey_id
+      WHERE q.id = question_id AND s.creator_id = auth.uid()
+    )
+  );
+
+-- The caller's response row, created on first use. Signed-in respondents are
+-- identified by account, anonymous ones by IP address.
+CREATE OR REPLACE FUNCTION public.survey_response_for_voter(
+  survey_uuid UUID,
+  voter_ip TEXT,
+  voter_user_agent TEXT
+)
+RETURNS public.survey_responses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_survey RECORD;
+  response public.survey_responses;
+BEGIN
+  SELECT id, is_active, expires_at INTO target_survey
+  FROM public.surveys
+  WHERE id = survey_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Survey not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT target_survey.is_active OR (target_survey.expires_at IS NOT NULL AND target_survey.expires_at < NOW()) THEN
+    RAISE EXCEPTION 'This survey is closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    INSERT INTO public.survey_responses (survey_id, user_id, user_agent)
+    VALUES (survey_uuid, auth.uid(), voter_user_agent)
+    ON CONFLICT (survey_id, user_id) WHERE user_id IS NOT NULL DO NOTHING;
+
+    SELECT * INTO response FROM public.survey_responses
+    WHERE survey_id = survey_uuid AND user_id = auth.uid()
+    FOR UPDATE;
+  ELSE
+    IF voter_ip IS NULL THEN
+      RAISE EXCEPTION 'Could not identify respondent' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.survey_responses (survey_id, ip_address, user_agent)
+    VALUES (survey_uuid, voter_ip::inet, voter_user_agent)
+    ON CONFLICT (survey_id, ip_address) WHERE user_id IS NULL DO NOTHING;
+
+    SELECT * INTO response FROM public.survey_responses
+    WHERE survey_id = survey_uuid AND user_id IS NULL AND host(ip_address) = voter_ip
+    FOR UPDATE;
+  END IF;
+
+  RETURN response;
+END;
+$$;
+
+-- Record that the caller started a survey; returns their progress
+CREATE OR REPLACE FUNCTION public.start_survey_response(
+  survey_uuid UUID,
+  voter_ip TEXT DEFAULT NULL,
+  voter_user_agent TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  response public.survey_responses;
+BEGIN
+  response := public.survey_response_for_voter(survey_uuid, voter_ip, voter_user_agent);
+  RETURN jsonb_build_object('started_at', response.started_at, 'completed_at', response.completed_at);
+END;
+$$;
+
+-- The caller's progress on a survey without recording a start
+CREATE OR REPLACE FUNCTION public.get_survey_response_status(survey_uuid UUID, voter_ip TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object('started_at', r.started_at, 'completed_at', r.completed_at)
+  FROM public.survey_responses r
+  WHERE r.survey_id = survey_uuid
+  AND (
+    (auth.uid() IS NOT NULL AND r.user_id = auth.uid())
+    OR (auth.uid() IS NULL AND voter_ip IS NOT NULL AND r.user_id IS NULL AND host(r.ip_address) = voter_ip)
+  );
+$$;
+
+-- Submit every answer to a survey at once. answers is
+-- [{ "question_id": ..., "option_ids": [...] }]; optional questions may be
+-- left out or sent with no options. Either all answers are stored and the
+-- response is completed, or nothing changes.
+CREATE OR REPLACE FUNCTION public.submit_survey_response(
+  survey_uuid UUID,
+  answers JSONB,
+  voter_ip TEXT DEFAULT NULL,
+  voter_user_agent TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  response public.survey_responses;
+  missing_position INTEGER;
+BEGIN
+  IF jsonb_typeof(answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be a list' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(answers) entry
+    WHERE jsonb_typeof(entry->'option_ids') IS DISTINCT FROM 'array'
+    OR NOT EXISTS (
+      SELECT 1 FROM public.survey_questions q
+      WHERE q.id::text = entry->>'question_id' AND q.survey_id = survey_uuid
+    )
+  ) THEN
+    RAISE EXCEPTION 'Answers must refer to questions in this survey' USING ERRCODE = '22023';
+  END IF;
+
+  IF (SELECT count(DISTINCT entry->>'question_id') FROM jsonb_array_elements(answers) entry)
+     <> jsonb_array_length(answers) THEN
+    RAISE EXCEPTION 'Each question can only be answered once' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(answers) entry
+    CROSS JOIN LATERAL jsonb_array_elements_text(entry->'option_ids') AS selected(option_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.survey_question_options o
+      WHERE o.id::text = selected.option_id AND o.question_id::text = entry->>'question_id'
+    )
+  ) OR EXISTS (
+    SELECT 1 FROM jsonb_array_elements(answers) entry
+    WHERE (SELECT count(DISTINCT value) FROM jsonb_array_elements_text(entry->'option_ids'))
+      <> jsonb_array_length(entry->'option_ids')
+  ) THEN
+    RAISE EXCEPTION 'Selected options must belong to their question and appear once' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(answers) entry
+    JOIN public.survey_questions q ON q.id::text = entry->>'question_id'
+    WHERE NOT q.allow_multiple_choices AND jsonb_array_length(entry->'option_ids') > 1
+  ) THEN
+    RAISE EXCEPTION 'Multiple choices are not allowed for this question' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT q.position INTO missing_position
+  FROM public.survey_questions q
+  WHERE q.survey_id = survey_uuid
+  AND q.is_required
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(answers) entry
+    WHERE entry->>'question_id' = q.id::text AND jsonb_array_length(entry->'option_ids') > 0
+  )
+  ORDER BY q.position
+  LIMIT 1;
+
+  IF missing_position IS NOT NULL THEN
+    RAISE EXCEPTION 'Question % is required', missing_position USING ERRCODE = '22023';
+  END IF;
+
+  response := public.survey_response_for_voter(survey_uuid, voter_ip, voter_user_agent);
+
+  IF response.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already completed this survey' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.survey_answers (response_id, question_id, option_id)
+  SELECT response.id, (entry->>'question_id')::uuid, selected.option_id::uuid
+  FROM jsonb_array_elements(answers) entry
+  CROSS JOIN LATERAL jsonb_array_elements_text(entry->'option_ids') AS selected(option_id);
+
+  UPDATE public.survey_responses
+  SET completed_at = NOW(), user_agent = COALESCE(voter_user_agent, user_agent)
+  WHERE id = response.id;
+
+  RETURN response.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.survey_response_for_voter(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_survey_response(UUID, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_survey_response_status(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_survey_response(UUID, JSONB, TEXT, TEXT) TO anon, authenticated;
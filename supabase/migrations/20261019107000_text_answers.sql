@@ -0,0 +1,274 @@
+-- Open-ended answers
+--
+-- poll_type 'text' polls have no options; each voter writes one answer.
+-- Standard polls with allow_write_in get an "Other (please specify)" choice
+-- whose text is stored here instead of as a vote. Every answer starts as
+-- 'pending' and is moderated by the poll creator: 'approved' answers are
+-- shown with the results, 'rejected' ones are hidden, and write-ins can be
+-- 'merged' into a real option, which turns each of them into a vote.
+
+ALTER TABLE public.polls DROP CONSTRAINT IF EXISTS polls_poll_type_check;
+ALTER TABLE public.polls
+ADD CONSTRAINT polls_poll_type_check CHECK (poll_type IN ('standard', 'ranked', 'text'));
+
+ALTER TABLE public.polls
+ADD COLUMN IF NOT EXISTS allow_write_in BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE public.polls DROP CONSTRAINT IF EXISTS polls_allow_write_in_check;
+ALTER TABLE public.polls
+ADD CONSTRAINT polls_allow_write_in_check CHECK (NOT allow_write_in OR poll_type = 'standard');
+
+CREATE TABLE IF NOT EXISTS public.poll_text_answers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ip_address INET, -- For anonymous voters
+  user_agent TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('text', 'write_in')),
+  text TEXT NOT NULL CHECK (char_length(text) BETWEEN 1 AND 500),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'merged')),
+  -- The option a write-in was merged into
+  merged_option_id UUID REFERENCES public.poll_options(id) ON DELETE SET NULL,
+  moderated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CHECK (user_id IS NOT NULL OR ip_address IS NOT NULL)
+);
+
+-- One open answer per voter per poll; merged write-ins have become votes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_poll_text_answers_user
+  ON public.poll_text_answers(poll_id, user_id)
+  WHERE user_id IS NOT NULL AND status <> 'merged';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_poll_text_answers_ip
+  ON public.poll_text_answers(poll_id, ip_address)
+  WHERE user_id IS NULL AND status <> 'merged';
+
+CREATE INDEX IF NOT EXISTS idx_poll_text_answers_poll_status ON public.poll_text_answers(poll_id, status);
+
+ALTER TABLE public.poll_text_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Text answers are viewable by author, creator, admins and with results" ON public.poll_text_answers
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR public.is_admin()
+    OR EXISTS (SELECT 1 FROM public.polls p WHERE p.id = poll_id AND p.creator_id = auth.uid())
+    OR (status = 'approved' AND public.can_view_poll_results(poll_id))
+  );
+
+CREATE POLICY "Anyone can answer open polls" ON public.poll_text_answers
+  FOR INSERT WITH CHECK (
+    status = 'pending'
+    AND merged_option_id IS NULL
+    AND moderated_at IS NULL
+    AND (user_id IS NULL OR user_id = auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.polls p
+      WHERE p.id = poll_id
+      AND p.is_active = true
+      AND p.status = 'published'
+      AND (p.opens_at IS NULL OR p.opens_at <= NOW())
+      AND (p.expires_at IS NULL OR p.expires_at > NOW())
+      AND (
+        (kind = 'text' AND p.poll_type = 'text')
+        OR (kind = 'write_in' AND p.allow_write_in)
+      )
+    )
+  );
+
+-- Voters may withdraw an answer until it has been merged into a vote
+CREATE POLICY "Users can delete their own text answers" ON public.poll_text_answers
+  FOR DELETE USING (auth.uid() = user_id AND status <> 'merged');
+
+-- Writing an answer counts as voting for 'after_vote' results
+CREATE OR REPLACE FUNCTION public.can_view_poll_results(poll_uuid UUID, voter_ip TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll RECORD;
+  is_closed BOOLEAN;
+BEGIN
+  IF NOT public.can_access_poll(poll_uuid) THEN
+    RETURN false;
+  END IF;
+
+  SELECT creator_id, is_active, expires_at, results_visibility
+  INTO target_poll
+  FROM public.polls
+  WHERE id = poll_uuid;
+
+  IF target_poll.results_visibility = 'always'
+     OR target_poll.creator_id = auth.uid()
+     OR public.is_admin() THEN
+    RETURN true;
+  END IF;
+
+  is_closed := NOT COALESCE(target_poll.is_active, true)
+    OR (target_poll.expires_at IS NOT NULL AND target_poll.expires_at <= NOW());
+
+  CASE target_poll.results_visibility
+    WHEN 'after_close' THEN
+      RETURN is_closed;
+    WHEN 'after_vote' THEN
+      RETURN is_closed OR EXISTS (
+        SELECT 1 FROM public.votes v
+        WHERE v.poll_id = poll_uuid
+        AND (
+          (auth.uid() IS NOT NULL AND v.user_id = auth.uid())
+          OR (auth.uid() IS NULL AND voter_ip IS NOT NULL AND v.user_id IS NULL AND host(v.ip_address) = voter_ip)
+        )
+      ) OR EXISTS (
+        SELECT 1 FROM public.poll_text_answers a
+        WHERE a.poll_id = poll_uuid
+        AND (
+          (auth.uid() IS NOT NULL AND a.user_id = auth.uid())
+          OR (auth.uid() IS NULL AND voter_ip IS NOT NULL AND a.user_id IS NULL AND host(a.ip_address) = voter_ip)
+        )
+      );
+    ELSE
+      RETURN false;
+  END CASE;
+END;
+$$;
+
+-- Set the moderation status of answers on one poll (creator or admin).
+-- Merging is done with merge_write_ins instead.
+CREATE OR REPLACE FUNCTION public.moderate_text_answers(
+  poll_uuid UUID,
+  answer_ids UUID[],
+  new_status TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll RECORD;
+  updated_count INTEGER;
+BEGIN
+  IF new_status NOT IN ('pending', 'approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid moderation status' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id, creator_id INTO target_poll FROM public.polls WHERE id = poll_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF target_poll.creator_id IS DISTINCT FROM auth.uid() AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only the poll creator can moderate answers' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.poll_text_answers
+  SET status = new_status, moderated_at = NOW()
+  WHERE poll_id = poll_uuid
+  AND id = ANY(answer_ids)
+  AND status <> 'merged';
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
+
+-- Merge a group of write-ins into an option (creator or admin). Pass either
+-- target_option (an existing option) or new_option_text, which adds the
+-- option through apply_poll_edit so it shows in the poll's history. Each
+-- write-in becomes a vote for the option from the same voter.
+-- Returns { option_id, merged }.
+CREATE OR REPLACE FUNCTION public.merge_write_ins(
+  poll_uuid UUID,
+  answer_ids UUID[],
+  target_option UUID DEFAULT NULL,
+  new_option_text TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll RECORD;
+  option_uuid UUID := target_option;
+  existing_options JSONB;
+  merged_count INTEGER;
+BEGIN
+  SELECT id, creator_id, allow_write_in INTO target_poll
+  FROM public.polls
+  WHERE id = poll_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF target_poll.creator_id IS DISTINCT FROM auth.uid() AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only the poll creator can merge write-ins' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT target_poll.allow_write_in THEN
+    RAISE EXCEPTION 'This poll does not accept write-ins' USING ERRCODE = '22023';
+  END IF;
+
+  IF (target_option IS NULL) = (NULLIF(trim(COALESCE(new_option_text, '')), '') IS NULL) THEN
+    RAISE EXCEPTION 'Choose an existing option or name a new one' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.poll_text_answers
+    WHERE poll_id = poll_uuid AND id = ANY(answer_ids) AND kind = 'write_in' AND status <> 'merged'
+  ) THEN
+    RAISE EXCEPTION 'No write-ins to merge' USING ERRCODE = '22023';
+  END IF;
+
+  IF option_uuid IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.poll_options WHERE id = option_uuid AND poll_id = poll_uuid) THEN
+      RAISE EXCEPTION 'Option must belong to this poll' USING ERRCODE = '22023';
+    END IF;
+  ELSE
+    SELECT COALESCE(jsonb_agg(jsonb_build_object('id', o.id, 'text', o.text) ORDER BY o.order_index, o.created_at), '[]'::jsonb)
+    INTO existing_options
+    FROM public.poll_options o
+    WHERE o.poll_id = poll_uuid;
+
+    IF jsonb_array_length(existing_options) >= 10 THEN
+      RAISE EXCEPTION 'This poll already has the maximum of 10 options' USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM public.apply_poll_edit(
+      poll_uuid,
+      NULL,
+      NULL,
+      existing_options || jsonb_build_array(jsonb_build_object('text', new_option_text))
+    );
+
+    SELECT id INTO option_uuid
+    FROM public.poll_options
+    WHERE poll_id = poll_uuid
+    ORDER BY order_index DESC, created_at DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.votes (poll_id, option_id, user_id, ip_address, user_agent)
+  SELECT poll_uuid, option_uuid, a.user_id, CASE WHEN a.user_id IS NULL THEN a.ip_address END, a.user_agent
+  FROM public.poll_text_answers a
+  WHERE a.poll_id = poll_uuid AND a.id = ANY(answer_ids) AND a.kind = 'write_in' AND a.status <> 'merged'
+  ON CONFLICT DO NOTHING;
+
+  UPDATE public.poll_text_answers
+  SET status = 'merged', merged_option_id = option_uuid, moderated_at = NOW()
+  WHERE poll_id = poll_uuid AND id = ANY(answer_ids) AND kind = 'write_in' AND status <> 'merged';
+
+  GET DIAGNOSTICS merged_count = ROW_COUNT;
+  RETURN jsonb_build_object('option_id', option_uuid, 'merged', merged_count);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.moderate_text_answers(UUID, UUID[], TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.moderate_text_answers(UUID, UUID[], TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.merge_write_ins(UUID, UUID[], UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_write_ins(UUID, UUID[], UUID, TEXT) TO authenticated;
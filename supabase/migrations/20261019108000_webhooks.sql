@@ -0,0 +1,339 @@
+-- Outgoing webhooks
+--
+-- Creators register endpoints that receive their own polls' events; admins
+-- can also register 'global' endpoints that receive events for every poll.
+-- Events are written to webhook_deliveries (an outbox) by
+-- enqueue_webhook_event, which builds the payload itself so callers cannot
+-- forge one. The webhook-deliveries edge function claims due deliveries,
+-- POSTs them signed with the endpoint's secret (HMAC-SHA256) and records
+-- each attempt; failures are retried with exponential backoff.
+
+CREATE TABLE IF NOT EXISTS public.webhooks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  scope TEXT NOT NULL DEFAULT 'own' CHECK (scope IN ('own', 'global')),
+  url TEXT NOT NULL CHECK (url ~ '^https?://' AND char_length(url) <= 2000),
+  description TEXT CHECK (char_length(description) <= 200),
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['poll.created', 'vote.cast', 'poll.closing_soon', 'poll.closed', 'poll.reopened']
+  ),
+  -- Signing key shown to the owner so they can verify deliveries
+  secret TEXT NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_owner ON public.webhooks(owner_id);
+
+CREATE TRIGGER update_webhooks_updated_at
+  BEFORE UPDATE ON public.webhooks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  webhook_id UUID REFERENCES public.webhooks(id) ON DELETE CASCADE NOT NULL,
+  event_type TEXT NOT NULL,
+  -- Identifies the occurrence, so reporting the same event twice is a no-op
+  dedupe_key TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (webhook_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON public.webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook
+  ON public.webhook_deliveries(webhook_id, created_at DESC);
+
+ALTER TABLE public.webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their webhooks, admins global ones" ON public.webhooks
+  FOR SELECT USING (owner_id = auth.uid() OR (scope = 'global' AND public.is_admin()));
+
+CREATE POLICY "Users can create webhooks, admins global ones" ON public.webhooks
+  FOR INSERT WITH CHECK (owner_id = auth.uid() AND (scope = 'own' OR public.is_admin()));
+
+CREATE POLICY "Users can update their webhooks, admins global ones" ON public.webhooks
+  FOR UPDATE USING (owner_id = auth.uid() OR (scope = 'global' AND public.is_admin()))
+  WITH CHECK ((owner_id = auth.uid() AND scope = 'own') OR (scope = 'global' AND public.is_admin()));
+
+CREATE POLICY "Users can delete their webhooks, admins global ones" ON public.webhooks
+  FOR DELETE USING (owner_id = auth.uid() OR (scope = 'global' AND public.is_admin()));
+
+-- Deliveries are written only by the functions below
+CREATE POLICY "Delivery log is viewable with its webhook" ON public.webhook_deliveries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.webhooks w
+      WHERE w.id = webhook_id
+      AND (w.owner_id = auth.uid() OR (w.scope = 'global' AND public.is_admin()))
+    )
+  );
+
+-- Queue an event for every active webhook subscribed to it: the poll
+-- creator's own webhooks and admins' global ones. Creators and admins report
+-- poll.created, poll.closed and poll.reopened; voters report their own
+-- vote.cast (anonymous voters by voter_ip); poll.closing_soon and expiry
+-- closes come from the poll-notifications edge function (service role).
+-- Returns the number of deliveries queued.
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(
+  event_name TEXT,
+  poll_uuid UUID,
+  voter_ip TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll RECORD;
+  is_service BOOLEAN := COALESCE(auth.role() = 'service_role', false);
+  is_manager BOOLEAN;
+  latest_vote_id UUID;
+  event_key TEXT;
+  event_payload JSONB;
+  queued_count INTEGER;
+BEGIN
+  SELECT id, title, creator_id, poll_type, status, is_active, opens_at, expires_at, updated_at
+  INTO target_poll
+  FROM public.polls
+  WHERE id = poll_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  is_manager := is_service OR target_poll.creator_id = auth.uid() OR public.is_admin();
+
+  event_payload := jsonb_build_object(
+    'event', event_name,
+    'occurred_at', NOW(),
+    'poll', jsonb_build_object(
+      'id', target_poll.id,
+      'title', target_poll.title,
+      'poll_type', target_poll.poll_type,
+      'status', target_poll.status,
+      'is_active', target_poll.is_active,
+      'opens_at', target_poll.opens_at,
+      'expires_at', target_poll.expires_at,
+      'total_votes', (
+        SELECT COUNT(DISTINCT COALESCE(v.user_id::TEXT, host(v.ip_address)))
+        FROM public.votes v
+        WHERE v.poll_id = poll_uuid
+      )
+    )
+  );
+
+  CASE event_name
+    WHEN 'poll.created' THEN
+      IF NOT is_manager THEN
+        RAISE EXCEPTION 'Only the poll creator can report this event' USING ERRCODE = '42501';
+      END IF;
+      IF target_poll.status <> 'published' THEN
+        RAISE EXCEPTION 'Drafts are reported once published' USING ERRCODE = '22023';
+      END IF;
+      event_key := 'poll.created:' || poll_uuid;
+
+    WHEN 'poll.closed' THEN
+      IF NOT is_manager THEN
+        RAISE EXCEPTION 'Only the poll creator can report this event' USING ERRCODE = '42501';
+      END IF;
+      IF NOT target_poll.is_active THEN
+        event_key := 'poll.closed:' || poll_uuid || ':' || extract(epoch FROM target_poll.updated_at);
+      ELSIF target_poll.expires_at IS NOT NULL AND target_poll.expires_at <= NOW() THEN
+        event_key := 'poll.closed:' || poll_uuid || ':expired:' || extract(epoch FROM target_poll.expires_at);
+      ELSE
+        RAISE EXCEPTION 'Poll is still open' USING ERRCODE = '22023';
+      END IF;
+
+    WHEN 'poll.reopened' THEN
+      IF NOT is_manager THEN
+        RAISE EXCEPTION 'Only the poll creator can report this event' USING ERRCODE = '42501';
+      END IF;
+      IF NOT target_poll.is_active THEN
+        RAISE EXCEPTION 'Poll is closed' USING ERRCODE = '22023';
+      END IF;
+      event_key := 'poll.reopened:' || poll_uuid || ':' || extract(epoch FROM target_poll.updated_at);
+
+    WHEN 'poll.closing_soon' THEN
+      IF NOT is_service THEN
+        RAISE EXCEPTION 'This event is reported by the scheduler' USING ERRCODE = '42501';
+      END IF;
+      IF target_poll.expires_at IS NULL OR target_poll.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'Poll is not closing' USING ERRCODE = '22023';
+      END IF;
+      event_key := 'poll.closing_soon:' || poll_uuid || ':' || extract(epoch FROM target_poll.expires_at);
+
+    WHEN 'vote.cast' THEN
+      -- The caller's latest ballot; voters are never identified in the payload
+      SELECT v.id INTO latest_vote_id
+      FROM public.votes v
+      WHERE v.poll_id = poll_uuid
+      AND (
+        (auth.uid() IS NOT NULL AND v.user_id = auth.uid())
+        OR (auth.uid() IS NULL AND voter_ip IS NOT NULL AND v.user_id IS NULL AND host(v.ip_address) = voter_ip)
+      )
+      ORDER BY v.created_at DESC
+      LIMIT 1;
+
+      IF latest_vote_id IS NULL THEN
+        RAISE EXCEPTION 'No vote to report' USING ERRCODE = '22023';
+      END IF;
+
+      event_key := 'vote.cast:' || latest_vote_id;
+      event_payload := event_payload || jsonb_build_object('vote', jsonb_build_object(
+        'option_ids', (
+          SELECT COALESCE(jsonb_agg(v.option_id ORDER BY v.rank NULLS LAST, v.created_at), '[]'::jsonb)
+          FROM public.votes v
+          WHERE v.poll_id = poll_uuid
+          AND (
+            (auth.uid() IS NOT NULL AND v.user_id = auth.uid())
+            OR (auth.uid() IS NULL AND v.user_id IS NULL AND host(v.ip_address) = voter_ip)
+          )
+        )
+      ));
+
+    ELSE
+      RAISE EXCEPTION 'Unknown webhook event' USING ERRCODE = '22023';
+  END CASE;
+
+  INSERT INTO public.webhook_deliveries (webhook_id, event_type, dedupe_key, payload)
+  SELECT w.id, event_name, event_key, event_payload
+  FROM public.webhooks w
+  WHERE w.is_active
+  AND event_name = ANY(w.events)
+  AND (
+    (w.scope = 'own' AND w.owner_id = target_poll.creator_id)
+    OR (w.scope = 'global' AND EXISTS (
+      SELECT 1 FROM public.profiles p WHERE p.id = w.owner_id AND p.role = 'admin'
+    ))
+  )
+  ON CONFLICT (webhook_id, dedupe_key) DO NOTHING;
+
+  GET DIAGNOSTICS queued_count = ROW_COUNT;
+  RETURN queued_count;
+END;
+$$;
+
+-- Lease up to batch_size due deliveries to the dispatcher. A leased delivery
+-- is not due again for five minutes, so a crashed run is retried later.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(batch_size INTEGER DEFAULT 25)
+RETURNS TABLE (
+  delivery_id UUID,
+  event_type TEXT,
+  payload JSONB,
+  attempt_count INTEGER,
+  url TEXT,
+  secret TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+    FROM public.webhook_deliveries d
+    JOIN public.webhooks w ON w.id = d.webhook_id
+    WHERE d.status = 'pending'
+    AND d.next_attempt_at <= NOW()
+    AND w.is_active
+    ORDER BY d.next_attempt_at
+    LIMIT LEAST(GREATEST(batch_size, 1), 100)
+    FOR UPDATE OF d SKIP LOCKED
+  ), leased AS (
+    UPDATE public.webhook_deliveries d
+    SET next_attempt_at = NOW() + INTERVAL '5 minutes',
+        attempt_count = d.attempt_count + 1
+    FROM due
+    WHERE d.id = due.id
+    RETURNING d.id, d.webhook_id, d.event_type, d.payload, d.attempt_count
+  )
+  SELECT leased.id, leased.event_type, leased.payload, leased.attempt_count, w.url, w.secret
+  FROM leased
+  JOIN public.webhooks w ON w.id = leased.webhook_id;
+END;
+$$;
+
+-- Record the outcome of a delivery attempt. Failures are retried after
+-- 1, 2, 4 ... minutes (capped at six hours) and given up after 10 attempts.
+CREATE OR REPLACE FUNCTION public.record_webhook_attempt(
+  delivery_uuid UUID,
+  succeeded BOOLEAN,
+  http_status INTEGER DEFAULT NULL,
+  error_message TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.webhook_deliveries
+  SET last_attempt_at = NOW(),
+      response_status = http_status,
+      last_error = CASE WHEN succeeded THEN NULL ELSE left(error_message, 500) END,
+      status = CASE
+        WHEN succeeded THEN 'delivered'
+        WHEN attempt_count >= 10 THEN 'failed'
+        ELSE 'pending'
+      END,
+      delivered_at = CASE WHEN succeeded THEN NOW() ELSE NULL END,
+      next_attempt_at = CASE
+        WHEN succeeded THEN next_attempt_at
+        ELSE NOW() + LEAST(INTERVAL '1 minute' * power(2, attempt_count - 1), INTERVAL '6 hours')
+      END
+  WHERE id = delivery_uuid;
+END;
+$$;
+
+-- Queue a failed delivery again from the dashboard (webhook owner or admin)
+CREATE OR REPLACE FUNCTION public.retry_webhook_delivery(delivery_uuid UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.webhook_deliveries d
+    JOIN public.webhooks w ON w.id = d.webhook_id
+    WHERE d.id = delivery_uuid
+    AND (w.owner_id = auth.uid() OR (w.scope = 'global' AND public.is_admin()))
+  ) THEN
+    RAISE EXCEPTION 'Delivery not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.webhook_deliveries
+  SET status = 'pending', attempt_count = 0, next_attempt_at = NOW()
+  WHERE id = delivery_uuid
+  AND status = 'failed';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only failed deliveries can be retried' USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_webhook_event(TEXT, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.enqueue_webhook_event(TEXT, UUID, TEXT) TO anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION public.claim_webhook_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER) TO service_role;
+REVOKE ALL ON FUNCTION public.record_webhook_attempt(UUID, BOOLEAN, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_webhook_attempt(UUID, BOOLEAN, INTEGER, TEXT) TO service_role;
+REVOKE ALL ON FUNCTION public.retry_webhook_delivery(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.retry_webhook_delivery(UUID) TO authenticated;
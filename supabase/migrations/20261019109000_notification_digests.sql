@@ -0,0 +1,71 @@
+-- Notification digests
+--
+-- Users whose notification_frequency is 'daily' or 'weekly' no longer get
+-- one email per poll event. The poll-notifications edge function queues the
+-- event in notification_digest_items instead, and its digest run sends one
+-- summary email per user covering the queued items plus the new votes on
+-- their own polls since their previous digest.
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS last_digest_sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.notification_digest_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  poll_id UUID NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('opened', 'closing_soon', 'results')),
+  -- The email_notifications type this item stands in for, e.g. 'expiring_2h'
+  notification_type TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  digested_at TIMESTAMP WITH TIME ZONE,
+  -- Each event is queued once per user, like email_notifications
+  UNIQUE (user_id, poll_id, notification_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_digest_items_pending
+  ON public.notification_digest_items(user_id, created_at)
+  WHERE digested_at IS NULL;
+
+ALTER TABLE public.notification_digest_items ENABLE ROW LEVEL SECURITY;
+
+-- Items are written by the edge function (service role); users can only read theirs
+CREATE POLICY "Users can view their digest items" ON public.notification_digest_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Votes and open answers on a user's published polls since a point in
+-- time, counted per voter so multi-select and ranked ballots count once
+CREATE OR REPLACE FUNCTION public.get_digest_vote_activity(user_uuid UUID, since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  poll_id UUID,
+  poll_title TEXT,
+  new_voters BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH ballots AS (
+    SELECT v.poll_id, COALESCE(v.user_id::TEXT, host(v.ip_address)) AS voter
+    FROM public.votes v
+    WHERE v.created_at > since
+    UNION
+    SELECT a.poll_id, COALESCE(a.user_id::TEXT, host(a.ip_address)) AS voter
+    FROM public.poll_text_answers a
+    WHERE a.created_at > since
+    AND a.kind = 'text'
+  )
+  SELECT p.id, p.title, COUNT(DISTINCT b.voter)
+  FROM public.polls p
+  JOIN ballots b ON b.poll_id = p.id
+  WHERE p.creator_id = user_uuid
+  AND p.status = 'published'
+  AND (b.voter IS NULL OR b.voter <> user_uuid::TEXT)
+  GROUP BY p.id, p.title
+  ORDER BY COUNT(DISTINCT b.voter) DESC, p.title;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_digest_vote_activity(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_digest_vote_activity(UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
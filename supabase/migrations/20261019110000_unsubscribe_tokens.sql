@@ -0,0 +1,206 @@
+-- One-click unsubscribe
+--
+-- Every notification email carries a signed, expiring token that turns
+-- off either that poll's emails (poll_interests) or all of the user's
+-- emails (profiles) without signing in. Tokens look like
+-- '<user id>.<poll id or "all">.<expiry epoch>.<hmac>' and are signed with
+-- a per-user secret, so deleting the secret revokes every outstanding link.
+
+CREATE TABLE IF NOT EXISTS public.email_unsubscribe_secrets (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  secret BYTEA NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Only the functions below read secrets
+ALTER TABLE public.email_unsubscribe_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.unsubscribe_signature(user_uuid UUID, scope TEXT, expires_epoch BIGINT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT encode(hmac(user_uuid::TEXT || ':' || scope || ':' || expires_epoch::TEXT, s.secret, 'sha256'), 'hex')
+  FROM public.email_unsubscribe_secrets s
+  WHERE s.user_id = user_uuid;
+$$;
+
+-- Creates an unsubscribe token for a poll's emails, or for all emails when
+-- poll_uuid is NULL. Called by the notification senders (service role) or
+-- by users for themselves.
+CREATE OR REPLACE FUNCTION public.create_unsubscribe_token(
+  user_uuid UUID,
+  poll_uuid UUID DEFAULT NULL,
+  valid_days INTEGER DEFAULT 90
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  scope TEXT := COALESCE(poll_uuid::TEXT, 'all');
+  expires_epoch BIGINT;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND user_uuid IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to create unsubscribe links for this user' USING ERRCODE = '42501';
+  END IF;
+
+  IF valid_days IS NULL OR valid_days < 1 OR valid_days > 365 THEN
+    RAISE EXCEPTION 'Unsubscribe links must be valid for between 1 and 365 days' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.email_unsubscribe_secrets (user_id, secret)
+  VALUES (user_uuid, gen_random_bytes(32))
+  ON CONFLICT (user_id) DO NOTHING;
+
+  expires_epoch := floor(extract(epoch FROM NOW()))::BIGINT + valid_days * 86400;
+
+  RETURN user_uuid::TEXT || '.' || scope || '.' || expires_epoch::TEXT || '.'
+    || public.unsubscribe_signature(user_uuid, scope, expires_epoch);
+END;
+$$;
+
+-- Checks a token without acting on it, for the confirmation page.
+-- status is 'valid', 'invalid' or 'expired'; poll_id is NULL for
+-- all-email tokens.
+CREATE OR REPLACE FUNCTION public.check_unsubscribe_token(token TEXT)
+RETURNS TABLE (
+  status TEXT,
+  poll_id UUID,
+  poll_title TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_uuid UUID;
+  scope TEXT;
+  expires_epoch BIGINT;
+  expected_signature TEXT;
+BEGIN
+  IF token IS NULL OR token !~ '^[0-9a-f-]{36}\.([0-9a-f-]{36}|all)\.[0-9]{1,12}\.[0-9a-f]{64}$' THEN
+    RETURN QUERY SELECT 'invalid'::TEXT, NULL::UUID, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  BEGIN
+    user_uuid := split_part(token, '.', 1)::UUID;
+    scope := split_part(token, '.', 2);
+    IF scope <> 'all' THEN
+      poll_id := scope::UUID;
+    END IF;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN QUERY SELECT 'invalid'::TEXT, NULL::UUID, NULL::TEXT;
+    RETURN;
+  END;
+
+  expires_epoch := split_part(token, '.', 3)::BIGINT;
+  expected_signature := public.unsubscribe_signature(user_uuid, scope, expires_epoch);
+
+  IF expected_signature IS NULL OR expected_signature <> split_part(token, '.', 4) THEN
+    RETURN QUERY SELECT 'invalid'::TEXT, NULL::UUID, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF expires_epoch < extract(epoch FROM NOW()) THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::UUID, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT 'valid'::TEXT, check_unsubscribe_token.poll_id,
+    (SELECT p.title FROM public.polls p WHERE p.id = check_unsubscribe_token.poll_id);
+END;
+$$;
+
+-- Applies a token: turns off the poll's emails, or every email when the
+-- token is for all emails or all_emails is set. Returns 'unsubscribed',
+-- 'unsubscribed_all', 'invalid' or 'expired'.
+CREATE OR REPLACE FUNCTION public.unsubscribe_with_token(token TEXT, all_emails BOOLEAN DEFAULT FALSE)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  checked RECORD;
+  user_uuid UUID;
+BEGIN
+  SELECT * INTO checked FROM public.check_unsubscribe_token(token);
+
+  IF checked.status <> 'valid' THEN
+    RETURN checked.status;
+  END IF;
+
+  user_uuid := split_part(token, '.', 1)::UUID;
+
+  IF all_emails OR checked.poll_id IS NULL THEN
+    UPDATE public.profiles
+    SET email_notifications_enabled = FALSE
+    WHERE id = user_uuid;
+
+    RETURN 'unsubscribed_all';
+  END IF;
+
+  UPDATE public.poll_interests
+  SET email_notifications_enabled = FALSE,
+      updated_at = NOW()
+  WHERE user_id = user_uuid
+  AND poll_interests.poll_id = checked.poll_id;
+
+  RETURN 'unsubscribed';
+END;
+$$;
+
+-- Digests leave out vote activity on polls the creator unsubscribed from
+CREATE OR REPLACE FUNCTION public.get_digest_vote_activity(user_uuid UUID, since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  poll_id UUID,
+  poll_title TEXT,
+  new_voters BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH ballots AS (
+    SELECT v.poll_id, COALESCE(v.user_id::TEXT, host(v.ip_address)) AS voter
+    FROM public.votes v
+    WHERE v.created_at > since
+    UNION
+    SELECT a.poll_id, COALESCE(a.user_id::TEXT, host(a.ip_address)) AS voter
+    FROM public.poll_text_answers a
+    WHERE a.created_at > since
+    AND a.kind = 'text'
+  )
+  SELECT p.id, p.title, COUNT(DISTINCT b.voter)
+  FROM public.polls p
+  JOIN ballots b ON b.poll_id = p.id
+  WHERE p.creator_id = user_uuid
+  AND p.status = 'published'
+  AND (b.voter IS NULL OR b.voter <> user_uuid::TEXT)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.poll_interests pi
+    WHERE pi.user_id = user_uuid
+    AND pi.poll_id = p.id
+    AND pi.email_notifications_enabled = FALSE
+  )
+  GROUP BY p.id, p.title
+  ORDER BY COUNT(DISTINCT b.voter) DESC, p.title;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.unsubscribe_signature(UUID, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.create_unsubscribe_token(UUID, UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_unsubscribe_token(UUID, UUID, INTEGER) TO authenticated, service_role;
+REVOKE ALL ON FUNCTION public.check_unsubscribe_token(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.check_unsubscribe_token(TEXT) TO anon, authenticated, service_role;
+REVOKE ALL ON FUNCTION public.unsubscribe_with_token(TEXT, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.unsubscribe_with_token(TEXT, BOOLEAN) TO anon, authenticated, service_role;
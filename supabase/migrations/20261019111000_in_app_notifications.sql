@@ -0,0 +1,255 @@
+-- In-app notification center
+--
+-- Every event that can send an email (poll opened, closing soon, results,
+-- vote removed by an edit) and new votes on a user's own polls also lands
+-- in public.notifications, shown in the navbar bell and pushed to the
+-- client by Realtime.
+--
+-- profiles.notification_channels picks the channel per notification type:
+-- 'email', 'in_app', 'both' or 'none'. Types missing from the map use
+-- 'both'. For new votes, 'email' means the votes section of digests.
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS notification_channels JSONB DEFAULT '{}'::jsonb NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('poll_opened', 'poll_closing', 'poll_results', 'new_vote', 'vote_removed')),
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  -- Type-specific details, e.g. {"voters": 3} for new_vote
+  metadata JSONB DEFAULT '{}'::jsonb NOT NULL,
+  -- Identifies the event a notification was created for, so senders that
+  -- run repeatedly (like the cron edge function) create it once
+  dedupe_key TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON public.notifications(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_unread
+  ON public.notifications(user_id)
+  WHERE read_at IS NULL;
+
+-- New votes collapse into one unread notification per poll
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_unread_votes
+  ON public.notifications(user_id, poll_id, type)
+  WHERE read_at IS NULL AND type = 'new_vote';
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are written by the functions below and marked read through
+-- mark_notifications_read, so users only get read access
+CREATE POLICY "Users can view their notifications" ON public.notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- The channel a user picked for a notification type
+CREATE OR REPLACE FUNCTION public.get_notification_channel(user_uuid UUID, notification_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT p.notification_channels ->> notification_type
+      FROM public.profiles p
+      WHERE p.id = user_uuid
+      AND p.notification_channels ->> notification_type IN ('email', 'in_app', 'both', 'none')
+    ),
+    'both'
+  );
+$$;
+
+-- Creates an in-app notification unless the user turned the type's in-app
+-- channel off. Returns the new notification's id, or NULL when it was
+-- skipped or already created for event_key.
+CREATE OR REPLACE FUNCTION public.create_notification(
+  user_uuid UUID,
+  notification_type TEXT,
+  poll_uuid UUID,
+  notification_title TEXT,
+  notification_body TEXT DEFAULT NULL,
+  notification_link TEXT DEFAULT NULL,
+  event_key TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  notification_id UUID;
+BEGIN
+  IF public.get_notification_channel(user_uuid, notification_type) NOT IN ('in_app', 'both') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, poll_id, title, body, link, dedupe_key)
+  VALUES (user_uuid, notification_type, poll_uuid, notification_title, notification_body, notification_link, event_key)
+  ON CONFLICT ON CONSTRAINT notifications_user_id_dedupe_key_key DO NOTHING
+  RETURNING id INTO notification_id;
+
+  RETURN notification_id;
+END;
+$$;
+
+-- Marks the given notifications, or all of them when notification_ids is
+-- NULL, as read for the signed-in user. Returns the number marked.
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(notification_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  marked_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.notifications
+  SET read_at = NOW()
+  WHERE user_id = auth.uid()
+  AND read_at IS NULL
+  AND (notification_ids IS NULL OR id = ANY(notification_ids));
+
+  GET DIAGNOSTICS marked_count = ROW_COUNT;
+  RETURN marked_count;
+END;
+$$;
+
+
+-- Adds voters to the poll creator's unread new_vote notification, starting
+-- a new one once the previous one was read
+CREATE OR REPLACE FUNCTION public.notify_poll_creator_of_voters(poll_uuid UUID, voter_count INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll RECORD;
+BEGIN
+  SELECT id, title, creator_id INTO target_poll
+  FROM public.polls
+  WHERE id = poll_uuid;
+
+  IF NOT FOUND OR target_poll.creator_id IS NULL OR voter_count < 1 THEN
+    RETURN;
+  END IF;
+
+  IF public.get_notification_channel(target_poll.creator_id, 'new_vote') NOT IN ('in_app', 'both') THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications AS n (user_id, type, poll_id, title, body, link, metadata)
+  VALUES (
+    target_poll.creator_id,
+    'new_vote',
+    target_poll.id,
+    'New votes on "' || target_poll.title || '"',
+    CASE WHEN voter_count = 1 THEN '1 person voted' ELSE voter_count || ' people voted' END,
+    '/polls/' || target_poll.id,
+    jsonb_build_object('voters', voter_count)
+  )
+  ON CONFLICT (user_id, poll_id, type) WHERE read_at IS NULL AND type = 'new_vote'
+  DO UPDATE SET
+    metadata = jsonb_build_object('voters', COALESCE((n.metadata ->> 'voters')::INTEGER, 0) + voter_count),
+    body = (COALESCE((n.metadata ->> 'voters')::INTEGER, 0) + voter_count) || ' people voted',
+    created_at = NOW();
+END;
+$$;
+
+-- A ranked or multiple-choice ballot is several vote rows inserted by one
+-- statement, so voters are counted per statement rather than per row
+CREATE OR REPLACE FUNCTION public.notify_poll_creators_of_votes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ballot RECORD;
+BEGIN
+  FOR ballot IN
+    SELECT b.poll_id, COUNT(DISTINCT COALESCE(b.user_id::TEXT, host(b.ip_address)))::INTEGER AS voters
+    FROM new_votes b
+    JOIN public.polls p ON p.id = b.poll_id
+    WHERE b.user_id IS DISTINCT FROM p.creator_id
+    GROUP BY b.poll_id
+  LOOP
+    PERFORM public.notify_poll_creator_of_voters(ballot.poll_id, ballot.voters);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Open-ended answers count as ballots; write-ins arrive with vote rows
+CREATE OR REPLACE FUNCTION public.notify_poll_creators_of_text_answers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ballot RECORD;
+BEGIN
+  FOR ballot IN
+    SELECT a.poll_id, COUNT(DISTINCT COALESCE(a.user_id::TEXT, host(a.ip_address)))::INTEGER AS voters
+    FROM new_answers a
+    JOIN public.polls p ON p.id = a.poll_id
+    WHERE a.kind = 'text'
+    AND a.user_id IS DISTINCT FROM p.creator_id
+    GROUP BY a.poll_id
+  LOOP
+    PERFORM public.notify_poll_creator_of_voters(ballot.poll_id, ballot.voters);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_poll_creators_of_votes ON public.votes;
+CREATE TRIGGER notify_poll_creators_of_votes
+  AFTER INSERT ON public.votes
+  REFERENCING NEW TABLE AS new_votes
+  FOR EACH STATEMENT EXECUTE FUNCTION public.notify_poll_creators_of_votes();
+
+DROP TRIGGER IF EXISTS notify_poll_creators_of_text_answers ON public.poll_text_answers;
+CREATE TRIGGER notify_poll_creators_of_text_answers
+  AFTER INSERT ON public.poll_text_answers
+  REFERENCING NEW TABLE AS new_answers
+  FOR EACH STATEMENT EXECUTE FUNCTION public.notify_poll_creators_of_text_answers();
+
+-- Push new and updated notifications to the bell; Realtime applies the
+-- SELECT policy, so each user only receives their own rows
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_notification_channel(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_notification_channel(UUID, TEXT) TO service_role;
+REVOKE ALL ON FUNCTION public.create_notification(UUID, TEXT, UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, UUID, TEXT, TEXT, TEXT, TEXT) TO service_role;
+REVOKE ALL ON FUNCTION public.mark_notifications_read(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_notifications_read(UUID[]) TO authenticated;
+REVOKE ALL ON FUNCTION public.notify_poll_creator_of_voters(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,93 @@
+-- Personal API keys
+--
+-- Scripts call /api/v1 with 'Authorization: Bearer polly_...'. Only the
+-- SHA-256 hash of each key is stored; the key itself is shown once when it
+-- is created. The app looks keys up with authenticate_api_key and then acts
+-- as the key's owner, so RLS applies exactly as for a browser session.
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  -- The start of the key, shown in settings so users can tell keys apart
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE CHECK (key_hash ~ '^[0-9a-f]{64}$'),
+  scopes TEXT[] NOT NULL CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['read', 'write']),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON public.api_keys(user_id, created_at);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their API keys" ON public.api_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their API keys" ON public.api_keys
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND revoked_at IS NULL AND last_used_at IS NULL);
+
+-- Keys are revoked through revoke_api_key and never edited, so a key's
+-- hash and scopes cannot change after it is shown to the user
+
+-- Looks up an active key by hash for an API request and records its use.
+-- Returns no rows for unknown or revoked keys.
+CREATE OR REPLACE FUNCTION public.authenticate_api_key(api_key_hash TEXT)
+RETURNS TABLE (
+  api_key_id UUID,
+  user_id UUID,
+  email TEXT,
+  scopes TEXT[]
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  found_key RECORD;
+BEGIN
+  SELECT k.id, k.user_id, k.scopes, k.last_used_at INTO found_key
+  FROM public.api_keys k
+  WHERE k.key_hash = api_key_hash
+  AND k.revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Busy scripts would otherwise write on every request
+  IF found_key.last_used_at IS NULL OR found_key.last_used_at < NOW() - INTERVAL '1 minute' THEN
+    UPDATE public.api_keys SET last_used_at = NOW() WHERE id = found_key.id;
+  END IF;
+
+  RETURN QUERY
+  SELECT found_key.id, found_key.user_id, u.email::TEXT, found_key.scopes
+  FROM auth.users u
+  WHERE u.id = found_key.user_id;
+END;
+$$;
+
+-- Revokes one of the caller's keys. Returns false if it does not exist or
+-- was already revoked.
+CREATE OR REPLACE FUNCTION public.revoke_api_key(key_uuid UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.api_keys
+  SET revoked_at = NOW()
+  WHERE id = key_uuid
+  AND user_id = auth.uid()
+  AND revoked_at IS NULL;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.authenticate_api_key(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.authenticate_api_key(TEXT) TO anon, authenticated;
+REVOKE ALL ON FUNCTION public.revoke_api_key(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_api_key(UUID) TO authenticated;
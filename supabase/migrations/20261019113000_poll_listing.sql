@@ -0,0 +1,89 @@
+-- Cursor-based poll listing
+--
+-- list_polls filters and sorts the public poll listing in the database and
+-- returns one page of poll ids with the sort key of each row. The app turns
+-- the last row's key into an opaque cursor; the next call passes it back as
+-- after_* so later pages are unaffected by polls created in between.
+--
+-- The function runs as the caller, so RLS on polls and votes applies:
+-- vote counts only include votes the caller may see, and voted_only
+-- matches the caller's own votes.
+
+CREATE INDEX IF NOT EXISTS idx_polls_listing_created ON public.polls(created_at DESC, id DESC)
+  WHERE is_active = true AND visibility = 'public' AND status = 'published';
+
+CREATE INDEX IF NOT EXISTS idx_polls_listing_expires ON public.polls(expires_at, id)
+  WHERE is_active = true AND visibility = 'public' AND status = 'published';
+
+-- sort_by: 'newest', 'most_votes' or 'ending_soon' (open deadlines soonest
+-- first, then polls without one; closed polls are left out)
+-- status_filter: 'all', 'open', 'upcoming' or 'closed'
+-- after_time is created_at for 'newest' and expires_at for 'ending_soon';
+-- after_votes is the vote count for 'most_votes'
+CREATE OR REPLACE FUNCTION public.list_polls(
+  sort_by TEXT DEFAULT 'newest',
+  status_filter TEXT DEFAULT 'all',
+  creator_uuid UUID DEFAULT NULL,
+  voted_only BOOLEAN DEFAULT FALSE,
+  created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  after_id UUID DEFAULT NULL,
+  after_time TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  after_votes BIGINT DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  poll_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  vote_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH listed AS (
+    SELECT
+      p.id,
+      p.created_at,
+      p.expires_at,
+      (SELECT COUNT(*) FROM public.votes v WHERE v.poll_id = p.id) AS vote_count
+    FROM public.polls p
+    WHERE p.is_active = true
+    AND p.visibility = 'public'
+    AND p.status = 'published'
+    AND (creator_uuid IS NULL OR p.creator_id = creator_uuid)
+    AND (NOT voted_only OR EXISTS (
+      SELECT 1 FROM public.votes mv WHERE mv.poll_id = p.id AND mv.user_id = auth.uid()
+    ))
+    AND (created_after IS NULL OR p.created_at >= created_after)
+    AND (created_before IS NULL OR p.created_at < created_before)
+    AND CASE status_filter
+      WHEN 'open' THEN (p.opens_at IS NULL OR p.opens_at <= NOW()) AND (p.expires_at IS NULL OR p.expires_at > NOW())
+      WHEN 'upcoming' THEN p.opens_at > NOW()
+      WHEN 'closed' THEN p.expires_at <= NOW()
+      ELSE TRUE
+    END
+    AND (sort_by <> 'ending_soon' OR p.expires_at IS NULL OR p.expires_at > NOW())
+  )
+  SELECT l.id, l.created_at, l.expires_at, l.vote_count
+  FROM listed l
+  WHERE after_id IS NULL OR CASE sort_by
+    WHEN 'most_votes' THEN (l.vote_count, l.id) < (after_votes, after_id)
+    WHEN 'ending_soon' THEN CASE
+      WHEN after_time IS NULL THEN l.expires_at IS NULL AND l.id > after_id
+      ELSE l.expires_at IS NULL OR (l.expires_at, l.id) > (after_time, after_id)
+    END
+    ELSE (l.created_at, l.id) < (after_time, after_id)
+  END
+  ORDER BY
+    CASE WHEN sort_by = 'most_votes' THEN l.vote_count END DESC,
+    CASE WHEN sort_by = 'ending_soon' THEN l.expires_at END ASC NULLS LAST,
+    CASE WHEN sort_by NOT IN ('most_votes', 'ending_soon') THEN l.created_at END DESC,
+    CASE WHEN sort_by = 'ending_soon' THEN l.id END ASC,
+    CASE WHEN sort_by <> 'ending_soon' THEN l.id END DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 51);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_polls(TEXT, TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID, TIMESTAMP WITH TIME ZONE, BIGINT, INTEGER) TO anon, authenticated;
@@ -0,0 +1,218 @@
+-- Full-text poll search
+--
+-- polls.search_vector holds each poll's title (weight A), description (B)
+-- and option texts (C); triggers on polls and poll_options keep it current.
+-- search_polls ranks matches and returns highlighted fragments for the
+-- navbar search box, and list_polls gains a search_query filter so the
+-- poll listing searches every poll rather than the page in the browser.
+
+ALTER TABLE public.polls ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION public.build_poll_search_vector(poll_title TEXT, poll_description TEXT, poll_uuid UUID)
+RETURNS TSVECTOR
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(poll_title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(poll_description, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE((
+      SELECT string_agg(po.text, ' ' ORDER BY po.order_index)
+      FROM public.poll_options po
+      WHERE po.poll_id = poll_uuid
+    ), '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_poll_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := public.build_poll_search_vector(NEW.title, NEW.description, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+-- Option edits change the parent poll's vector
+CREATE OR REPLACE FUNCTION public.refresh_poll_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected_poll UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.poll_id ELSE NEW.poll_id END;
+BEGIN
+  UPDATE public.polls
+  SET search_vector = public.build_poll_search_vector(title, description, id)
+  WHERE id = affected_poll;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_polls_search_vector ON public.polls;
+CREATE TRIGGER update_polls_search_vector
+  BEFORE INSERT OR UPDATE OF title, description ON public.polls
+  FOR EACH ROW EXECUTE FUNCTION public.update_poll_search_vector();
+
+DROP TRIGGER IF EXISTS refresh_poll_search_vector ON public.poll_options;
+CREATE TRIGGER refresh_poll_search_vector
+  AFTER INSERT OR UPDATE OF text OR DELETE ON public.poll_options
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_poll_search_vector();
+
+-- Backfill without touching updated_at
+ALTER TABLE public.polls DISABLE TRIGGER update_polls_updated_at;
+UPDATE public.polls SET search_vector = public.build_poll_search_vector(title, description, id);
+ALTER TABLE public.polls ENABLE TRIGGER update_polls_updated_at;
+
+CREATE INDEX IF NOT EXISTS idx_polls_search_vector ON public.polls USING GIN (search_vector);
+
+-- Turns typed text into a prefix query: every word must match the start of
+-- a word in the poll, so results show up while someone is still typing.
+-- Returns NULL when there are no words to search for.
+CREATE OR REPLACE FUNCTION public.poll_search_query(search_text TEXT)
+RETURNS TSQUERY
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(COALESCE(search_text, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$;
+
+-- Best matches first among the polls the listing shows. Highlights wrap
+-- matched words in <mark></mark>; the app splits on the markers and never
+-- renders the text as HTML.
+CREATE OR REPLACE FUNCTION public.search_polls(search_query TEXT, result_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  poll_id UUID,
+  title TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH matches AS (
+    SELECT
+      p.id,
+      p.title,
+      p.description,
+      p.created_at,
+      p.expires_at,
+      ts_rank_cd(p.search_vector, q.query) AS rank,
+      q.query
+    FROM public.polls p
+    CROSS JOIN (SELECT public.poll_search_query(search_query) AS query) q
+    WHERE p.search_vector @@ q.query
+    AND p.is_active = true
+    AND p.visibility = 'public'
+    AND p.status = 'published'
+    ORDER BY rank DESC, p.created_at DESC
+    LIMIT LEAST(GREATEST(result_limit, 1), 20)
+  )
+  SELECT
+    m.id,
+    m.title,
+    m.created_at,
+    m.expires_at,
+    m.rank,
+    ts_headline('english', m.title, m.query, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>'),
+    ts_headline(
+      'english',
+      concat_ws(' · ', m.description, (
+        SELECT string_agg(po.text, ' · ' ORDER BY po.order_index)
+        FROM public.poll_options po
+        WHERE po.poll_id = m.id
+      )),
+      m.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  FROM matches m
+  ORDER BY m.rank DESC, m.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.poll_search_query(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_polls(TEXT, INTEGER) TO anon, authenticated;
+
+-- list_polls with a search_query filter (same behaviour otherwise)
+DROP FUNCTION IF EXISTS public.list_polls(TEXT, TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID, TIMESTAMP WITH TIME ZONE, BIGINT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.list_polls(
+  sort_by TEXT DEFAULT 'newest',
+  status_filter TEXT DEFAULT 'all',
+  creator_uuid UUID DEFAULT NULL,
+  voted_only BOOLEAN DEFAULT FALSE,
+  created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  search_query TEXT DEFAULT NULL,
+  after_id UUID DEFAULT NULL,
+  after_time TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  after_votes BIGINT DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  poll_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  vote_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH listed AS (
+    SELECT
+      p.id,
+      p.created_at,
+      p.expires_at,
+      (SELECT COUNT(*) FROM public.votes v WHERE v.poll_id = p.id) AS vote_count
+    FROM public.polls p
+    WHERE p.is_active = true
+    AND p.visibility = 'public'
+    AND p.status = 'published'
+    AND (creator_uuid IS NULL OR p.creator_id = creator_uuid)
+    AND (NOT voted_only OR EXISTS (
+      SELECT 1 FROM public.votes mv WHERE mv.poll_id = p.id AND mv.user_id = auth.uid()
+    ))
+    AND (created_after IS NULL OR p.created_at >= created_after)
+    AND (created_before IS NULL OR p.created_at < created_before)
+    AND (search_query IS NULL OR p.search_vector @@ public.poll_search_query(search_query))
+    AND CASE status_filter
+      WHEN 'open' THEN (p.opens_at IS NULL OR p.opens_at <= NOW()) AND (p.expires_at IS NULL OR p.expires_at > NOW())
+      WHEN 'upcoming' THEN p.opens_at > NOW()
+      WHEN 'closed' THEN p.expires_at <= NOW()
+      ELSE TRUE
+    END
+    AND (sort_by <> 'ending_soon' OR p.expires_at IS NULL OR p.expires_at > NOW())
+  )
+  SELECT l.id, l.created_at, l.expires_at, l.vote_count
+  FROM listed l
+  WHERE after_id IS NULL OR CASE sort_by
+    WHEN 'most_votes' THEN (l.vote_count, l.id) < (after_votes, after_id)
+    WHEN 'ending_soon' THEN CASE
+      WHEN after_time IS NULL THEN l.expires_at IS NULL AND l.id > after_id
+      ELSE l.expires_at IS NULL OR (l.expires_at, l.id) > (after_time, after_id)
+    END
+    ELSE (l.created_at, l.id) < (after_time, after_id)
+  END
+  ORDER BY
+    CASE WHEN sort_by = 'most_votes' THEN l.vote_count END DESC,
+    CASE WHEN sort_by = 'ending_soon' THEN l.expires_at END ASC NULLS LAST,
+    CASE WHEN sort_by NOT IN ('most_votes', 'ending_soon') THEN l.created_at END DESC,
+    CASE WHEN sort_by = 'ending_soon' THEN l.id END ASC,
+    CASE WHEN sort_by <> 'ending_soon' THEN l.id END DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 51);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_polls(TEXT, TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID, TIMESTAMP WITH TIME ZONE, BIGINT, INTEGER) TO anon, authenticated;
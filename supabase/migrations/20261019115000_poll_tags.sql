@@ -0,0 +1,278 @@
+-- Poll tags and categories
+--
+-- Creators attach free-form tags to their polls; a tag's slug is its
+-- identity, so "Climate Change" and "climate-change" are the same tag.
+-- Admins promote tags to official categories (is_category), which are
+-- listed first in suggestions and on the poll listing. list_polls gains a
+-- tag_slug filter, and get_tag_stats feeds the admin analytics page.
+
+CREATE TABLE IF NOT EXISTS public.tags (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND char_length(slug) <= 40),
+  is_category BOOLEAN NOT NULL DEFAULT FALSE,
+  description TEXT CHECK (char_length(description) <= 200),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tags_is_category ON public.tags(is_category) WHERE is_category;
+
+CREATE TABLE IF NOT EXISTS public.poll_tags (
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  tag_id UUID REFERENCES public.tags(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (poll_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_poll_tags_tag ON public.poll_tags(tag_id, poll_id);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_tags ENABLE ROW LEVEL SECURITY;
+
+-- Tags are created through set_poll_tags; only admins edit them directly
+CREATE POLICY "Tags are viewable by everyone" ON public.tags
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage tags" ON public.tags
+  FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+CREATE POLICY "Poll tags are viewable with their poll" ON public.poll_tags
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.polls
+      WHERE polls.id = poll_tags.poll_id
+    )
+  );
+
+CREATE POLICY "Admins can manage poll tags" ON public.poll_tags
+  FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- Same rules as slugifyTag in lib/poll-tags.ts
+CREATE OR REPLACE FUNCTION public.tag_slug(tag_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT left(trim(BOTH '-' FROM regexp_replace(lower(COALESCE(tag_name, '')), '[^a-z0-9]+', '-', 'g')), 40);
+$$;
+
+-- Replaces a poll's tags, creating tags that do not exist yet. Only the
+-- poll's creator or an admin may change them.
+CREATE OR REPLACE FUNCTION public.set_poll_tags(poll_uuid UUID, tag_names TEXT[])
+RETURNS SETOF public.tags
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  poll_creator UUID;
+BEGIN
+  SELECT creator_id INTO poll_creator FROM public.polls WHERE id = poll_uuid;
+
+  IF poll_creator IS NULL THEN
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF poll_creator <> auth.uid() AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Not allowed to tag this poll' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(array_length(tag_names, 1), 0) > 5 THEN
+    RAISE EXCEPTION 'A poll can have at most 5 tags' USING ERRCODE = '22023';
+  END IF;
+
+  -- The first spelling of a tag becomes its display name
+  INSERT INTO public.tags (name, slug, created_by)
+  SELECT DISTINCT ON (public.tag_slug(n)) left(trim(n), 40), public.tag_slug(n), auth.uid()
+  FROM unnest(tag_names) WITH ORDINALITY AS names(n, position)
+  WHERE public.tag_slug(n) <> ''
+  ORDER BY public.tag_slug(n), position
+  ON CONFLICT (slug) DO NOTHING;
+
+  DELETE FROM public.poll_tags pt
+  WHERE pt.poll_id = poll_uuid
+  AND pt.tag_id NOT IN (
+    SELECT t.id FROM public.tags t
+    WHERE t.slug IN (SELECT public.tag_slug(n) FROM unnest(tag_names) AS n)
+  );
+
+  INSERT INTO public.poll_tags (poll_id, tag_id)
+  SELECT poll_uuid, t.id
+  FROM public.tags t
+  WHERE t.slug IN (SELECT public.tag_slug(n) FROM unnest(tag_names) AS n)
+  ON CONFLICT (poll_id, tag_id) DO NOTHING;
+
+  RETURN QUERY
+  SELECT t.* FROM public.tags t
+  JOIN public.poll_tags pt ON pt.tag_id = t.id
+  WHERE pt.poll_id = poll_uuid
+  ORDER BY t.is_category DESC, t.name;
+END;
+$$;
+
+-- Autocomplete: categories first, then the tags used on the most listed polls
+CREATE OR REPLACE FUNCTION public.suggest_tags(search_prefix TEXT DEFAULT NULL, result_limit INTEGER DEFAULT 8)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  is_category BOOLEAN,
+  description TEXT,
+  poll_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.name,
+    t.slug,
+    t.is_category,
+    t.description,
+    (
+      SELECT COUNT(*)
+      FROM public.poll_tags pt
+      JOIN public.polls p ON p.id = pt.poll_id
+      WHERE pt.tag_id = t.id
+      AND p.is_active = true
+      AND p.visibility = 'public'
+      AND p.status = 'published'
+    ) AS poll_count
+  FROM public.tags t
+  WHERE public.tag_slug(search_prefix) = ''
+  OR t.slug LIKE public.tag_slug(search_prefix) || '%'
+  OR lower(t.name) LIKE lower(trim(search_prefix)) || '%'
+  ORDER BY t.is_category DESC, poll_count DESC, t.name
+  LIMIT LEAST(GREATEST(result_limit, 1), 20);
+$$;
+
+-- Per-tag activity for the admin analytics page
+CREATE OR REPLACE FUNCTION public.get_tag_stats(since TIMESTAMP WITH TIME ZONE DEFAULT NULL, result_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  tag_id UUID,
+  name TEXT,
+  slug TEXT,
+  is_category BOOLEAN,
+  polls_count BIGINT,
+  votes_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.name,
+    t.slug,
+    t.is_category,
+    (
+      SELECT COUNT(*) FROM public.poll_tags pt
+      JOIN public.polls p ON p.id = pt.poll_id
+      WHERE pt.tag_id = t.id
+      AND (since IS NULL OR p.created_at >= since)
+    ),
+    (
+      SELECT COUNT(*) FROM public.poll_tags pt
+      JOIN public.votes v ON v.poll_id = pt.poll_id
+      WHERE pt.tag_id = t.id
+      AND (since IS NULL OR v.created_at >= since)
+    ) AS votes_total
+  FROM public.tags t
+  ORDER BY votes_total DESC, t.is_category DESC, t.name
+  LIMIT LEAST(GREATEST(result_limit, 1), 50);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.tag_slug(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_poll_tags(UUID, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.suggest_tags(TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_tag_stats(TIMESTAMP WITH TIME ZONE, INTEGER) TO authenticated;
+
+-- list_polls with a tag_slug filter (same behaviour otherwise)
+DROP FUNCTION IF EXISTS public.list_polls(TEXT, TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID, TIMESTAMP WITH TIME ZONE, BIGINT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.list_polls(
+  sort_by TEXT DEFAULT 'newest',
+  status_filter TEXT DEFAULT 'all',
+  creator_uuid UUID DEFAULT NULL,
+  voted_only BOOLEAN DEFAULT FALSE,
+  created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  search_query TEXT DEFAULT NULL,
+  tag_slug TEXT DEFAULT NULL,
+  after_id UUID DEFAULT NULL,
+  after_time TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  after_votes BIGINT DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  poll_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  vote_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH listed AS (
+    SELECT
+      p.id,
+      p.created_at,
+      p.expires_at,
+      (SELECT COUNT(*) FROM public.votes v WHERE v.poll_id = p.id) AS vote_count
+    FROM public.polls p
+    WHERE p.is_active = true
+    AND p.visibility = 'public'
+    AND p.status = 'published'
+    AND (creator_uuid IS NULL OR p.creator_id = creator_uuid)
+    AND (NOT voted_only OR EXISTS (
+      SELECT 1 FROM public.votes mv WHERE mv.poll_id = p.id AND mv.user_id = auth.uid()
+    ))
+    AND (created_after IS NULL OR p.created_at >= created_after)
+    AND (created_before IS NULL OR p.created_at < created_before)
+    AND (search_query IS NULL OR p.search_vector @@ public.poll_search_query(search_query))
+    AND (list_polls.tag_slug IS NULL OR EXISTS (
+      SELECT 1 FROM public.poll_tags pt
+      JOIN public.tags t ON t.id = pt.tag_id
+      WHERE pt.poll_id = p.id AND t.slug = list_polls.tag_slug
+    ))
+    AND CASE status_filter
+      WHEN 'open' THEN (p.opens_at IS NULL OR p.opens_at <= NOW()) AND (p.expires_at IS NULL OR p.expires_at > NOW())
+      WHEN 'upcoming' THEN p.opens_at > NOW()
+      WHEN 'closed' THEN p.expires_at <= NOW()
+      ELSE TRUE
+    END
+    AND (sort_by <> 'ending_soon' OR p.expires_at IS NULL OR p.expires_at > NOW())
+  )
+  SELECT l.id, l.created_at, l.expires_at, l.vote_count
+  FROM listed l
+  WHERE after_id IS NULL OR CASE sort_by
+    WHEN 'most_votes' THEN (l.vote_count, l.id) < (after_votes, after_id)
+    WHEN 'ending_soon' THEN CASE
+      WHEN after_time IS NULL THEN l.expires_at IS NULL AND l.id > after_id
+      ELSE l.expires_at IS NULL OR (l.expires_at, l.id) > (after_time, after_id)
+    END
+    ELSE (l.created_at, l.id) < (after_time, after_id)
+  END
+  ORDER BY
+    CASE WHEN sort_by = 'most_votes' THEN l.vote_count END DESC,
+    CASE WHEN sort_by = 'ending_soon' THEN l.expires_at END ASC NULLS LAST,
+    CASE WHEN sort_by NOT IN ('most_votes', 'ending_soon') THEN l.created_at END DESC,
+    CASE WHEN sort_by = 'ending_soon' THEN l.id END ASC,
+    CASE WHEN sort_by <> 'ending_soon' THEN l.id END DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 51);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_polls(TEXT, TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, UUID, TIMESTAMP WITH TIME ZONE, BIGINT, INTEGER) TO anon, authenticated;
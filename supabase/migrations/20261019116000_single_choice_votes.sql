@@ -0,0 +1,154 @@
+-- One vote per voter on single choice polls
+--
+-- 20261019090000_ranked_choice_polls replaced UNIQUE (poll_id, user_id) with
+-- UNIQUE (poll_id, user_id, option_id) so a ranked ballot can span several
+-- rows, which left nothing in the database stopping a second vote on a
+-- standard poll. Whether a poll takes one choice lives on polls, so a
+-- partial unique index on votes can't express it; a trigger checks instead.
+
+-- Rejects a second row for the same voter (user, or IP address for
+-- anonymous votes) on standard polls that don't allow multiple choices.
+-- The advisory lock serialises concurrent ballots from the same voter,
+-- and rows inserted earlier in the same statement are visible here.
+CREATE OR REPLACE FUNCTION public.enforce_single_choice_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  voter_key TEXT := COALESCE('user:' || NEW.user_id::TEXT, 'ip:' || host(NEW.ip_address));
+BEGIN
+  IF voter_key IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE id = NEW.poll_id
+      AND poll_type = 'standard'
+      AND NOT COALESCE(allow_multiple_choices, false)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended(NEW.poll_id::TEXT || ':' || voter_key, 0));
+
+  IF EXISTS (
+    SELECT 1 FROM public.votes
+    WHERE poll_id = NEW.poll_id
+      AND CASE WHEN NEW.user_id IS NOT NULL THEN user_id = NEW.user_id
+               ELSE user_id IS NULL AND ip_address = NEW.ip_address END
+  ) THEN
+    RAISE EXCEPTION 'This poll only allows one vote per voter'
+      USING ERRCODE = '23505', CONSTRAINT = 'votes_single_choice';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enforce_single_choice_vote() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS votes_single_choice ON public.votes;
+CREATE TRIGGER votes_single_choice
+  BEFORE INSERT ON public.votes
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_single_choice_vote();
+
+-- merge_write_ins relied on ON CONFLICT DO NOTHING to skip voters who
+-- already have a vote, which doesn't catch the trigger's error. It now
+-- leaves them out on single choice polls.
+CREATE OR REPLACE FUNCTION public.merge_write_ins(
+  poll_uuid UUID,
+  answer_ids UUID[],
+  target_option UUID DEFAULT NULL,
+  new_option_text TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll RECORD;
+  option_uuid UUID := target_option;
+  existing_options JSONB;
+  merged_count INTEGER;
+BEGIN
+  SELECT id, creator_id, allow_write_in, allow_multiple_choices INTO target_poll
+  FROM public.polls
+  WHERE id = poll_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF target_poll.creator_id IS DISTINCT FROM auth.uid() AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only the poll creator can merge write-ins' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT target_poll.allow_write_in THEN
+    RAISE EXCEPTION 'This poll does not accept write-ins' USING ERRCODE = '22023';
+  END IF;
+
+  IF (target_option IS NULL) = (NULLIF(trim(COALESCE(new_option_text, '')), '') IS NULL) THEN
+    RAISE EXCEPTION 'Choose an existing option or name a new one' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.poll_text_answers
+    WHERE poll_id = poll_uuid AND id = ANY(answer_ids) AND kind = 'write_in' AND status <> 'merged'
+  ) THEN
+    RAISE EXCEPTION 'No write-ins to merge' USING ERRCODE = '22023';
+  END IF;
+
+  IF option_uuid IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.poll_options WHERE id = option_uuid AND poll_id = poll_uuid) THEN
+      RAISE EXCEPTION 'Option must belong to this poll' USING ERRCODE = '22023';
+    END IF;
+  ELSE
+    SELECT COALESCE(jsonb_agg(jsonb_build_object('id', o.id, 'text', o.text) ORDER BY o.order_index, o.created_at), '[]'::jsonb)
+    INTO existing_options
+    FROM public.poll_options o
+    WHERE o.poll_id = poll_uuid;
+
+    IF jsonb_array_length(existing_options) >= 10 THEN
+      RAISE EXCEPTION 'This poll already has the maximum of 10 options' USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM public.apply_poll_edit(
+      poll_uuid,
+      NULL,
+      NULL,
+      existing_options || jsonb_build_array(jsonb_build_object('text', new_option_text))
+    );
+
+    SELECT id INTO option_uuid
+    FROM public.poll_options
+    WHERE poll_id = poll_uuid
+    ORDER BY order_index DESC, created_at DESC
+    LIMIT 1;
+  END IF;
+
+  -- On single choice polls a voter who has since picked a listed option
+  -- keeps that vote; their write-in is still marked merged below
+  INSERT INTO public.votes (poll_id, option_id, user_id, ip_address, user_agent)
+  SELECT poll_uuid, option_uuid, a.user_id, CASE WHEN a.user_id IS NULL THEN a.ip_address END, a.user_agent
+  FROM public.poll_text_answers a
+  WHERE a.poll_id = poll_uuid AND a.id = ANY(answer_ids) AND a.kind = 'write_in' AND a.status <> 'merged'
+    AND (
+      target_poll.allow_multiple_choices
+      OR NOT EXISTS (
+        SELECT 1 FROM public.votes v
+        WHERE v.poll_id = poll_uuid
+          AND CASE WHEN a.user_id IS NOT NULL THEN v.user_id = a.user_id
+                   ELSE v.user_id IS NULL AND v.ip_address = a.ip_address END
+      )
+    )
+  ON CONFLICT DO NOTHING;
+
+  UPDATE public.poll_text_answers
+  SET status = 'merged', merged_option_id = option_uuid, moderated_at = NOW()
+  WHERE poll_id = poll_uuid AND id = ANY(answer_ids) AND kind = 'write_in' AND status <> 'merged';
+
+  GET DIAGNOSTICS merged_count = ROW_COUNT;
+  RETURN jsonb_build_object('option_id', option_uuid, 'merged', merged_count);
+END;
+$$;
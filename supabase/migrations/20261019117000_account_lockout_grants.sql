@@ -0,0 +1,12 @@
+-- Account lockout helpers are for the login route only
+--
+-- get_account_lockout and record_failed_login were executable by anon and
+-- authenticated, so anyone could lock out any account through PostgREST and
+-- use the lockout check to learn which emails are registered. The login
+-- route now calls them with the service role key.
+
+REVOKE ALL ON FUNCTION public.get_account_lockout(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.record_failed_login(TEXT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.get_account_lockout(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_failed_login(TEXT) TO service_role;
@@ -0,0 +1,319 @@
+-- Enforce two-factor authentication outside the login route
+--
+-- The login route only hands out a session once the second factor passes,
+-- but signing in with the password straight against Supabase Auth gives a
+-- session that worked everywhere, and verify_two_factor_code let such a
+-- session guess codes without limit. Now:
+--   * codes are checked by check_two_factor_code, which pauses checking
+--     after max_login_attempts wrong codes for lockout_duration_minutes
+--     (the account lockout settings);
+--   * login verification is verify_two_factor_login, granted to
+--     service_role only and called by the login route;
+--   * every PostgREST request from a session that skipped the second factor
+--     is refused by a pre-request hook (chained after any hook already
+--     configured), and is_admin() is false for admins who skipped it while
+--     the site requires 2FA for them.
+-- Users who enrolled stay challenged if the site setting is turned off
+-- later; the login route asks every enrolled user for a code.
+
+ALTER TABLE public.user_two_factor
+ADD COLUMN IF NOT EXISTS failed_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Checks a TOTP code, or a single use recovery code when allow_recovery is
+-- set, for any of the user's factors (enabled or pending enrollment).
+-- Wrong codes are counted; once the limit is reached nothing is checked
+-- until the pause ends, so codes cannot be guessed.
+CREATE OR REPLACE FUNCTION public.check_two_factor_code(target_user_id UUID, code TEXT, allow_recovery BOOLEAN)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  factor RECORD;
+  security_settings JSONB;
+  max_attempts INTEGER;
+  lockout_minutes INTEGER;
+  normalized_code TEXT := upper(regexp_replace(COALESCE(code, ''), '[\s-]', '', 'g'));
+  code_hash TEXT;
+  code_valid BOOLEAN := false;
+BEGIN
+  SELECT * INTO factor FROM public.user_two_factor
+  WHERE user_id = target_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR factor.locked_until > NOW() THEN
+    RETURN false;
+  END IF;
+
+  IF normalized_code ~ '^\d{6}$' THEN
+    code_valid := public.check_totp_code(target_user_id, normalized_code);
+  ELSIF allow_recovery AND normalized_code <> '' THEN
+    code_hash := encode(digest(normalized_code, 'sha256'), 'hex');
+
+    UPDATE public.user_two_factor
+    SET recovery_code_hashes = array_remove(recovery_code_hashes, code_hash)
+    WHERE user_id = target_user_id
+    AND code_hash = ANY(recovery_code_hashes);
+
+    code_valid := FOUND;
+  END IF;
+
+  IF code_valid THEN
+    UPDATE public.user_two_factor
+    SET failed_attempts = 0, locked_until = NULL
+    WHERE user_id = target_user_id;
+    RETURN true;
+  END IF;
+
+  SELECT value INTO security_settings FROM public.app_settings WHERE key = 'security';
+  max_attempts := COALESCE((security_settings->>'max_login_attempts')::INTEGER, 5);
+  lockout_minutes := COALESCE((security_settings->>'lockout_duration_minutes')::INTEGER, 30);
+
+  UPDATE public.user_two_factor
+  SET
+    failed_attempts = CASE WHEN failed_attempts + 1 >= max_attempts THEN 0 ELSE failed_attempts + 1 END,
+    locked_until = CASE
+      WHEN failed_attempts + 1 >= max_attempts THEN NOW() + make_interval(mins => lockout_minutes)
+      ELSE NULL
+    END
+  WHERE user_id = target_user_id;
+
+  RETURN false;
+END;
+$$;
+
+-- Verifies the second factor for a session created by the login route and
+-- records the session as verified. Takes the user and session ids from the
+-- route, so it is for service_role only.
+CREATE OR REPLACE FUNCTION public.verify_two_factor_login(target_user_id UUID, target_session_id UUID, code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF target_session_id IS NULL
+     OR NOT EXISTS (SELECT 1 FROM public.user_two_factor WHERE user_id = target_user_id AND enabled) THEN
+    RETURN false;
+  END IF;
+
+  IF NOT public.check_two_factor_code(target_user_id, code, true) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.two_factor_sessions (session_id, user_id)
+  VALUES (target_session_id, target_user_id)
+  ON CONFLICT (session_id) DO UPDATE SET verified_at = NOW();
+
+  RETURN true;
+END;
+$$;
+
+-- Whether the caller's session may be used: anonymous callers, users
+-- without 2FA and sessions that passed the second factor. Tokens minted for
+-- API keys (api_key_id claim) are signed server-side for keys created from
+-- a verified session, so they count as verified.
+CREATE OR REPLACE FUNCTION public.two_factor_verified()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NULL
+    OR COALESCE(auth.jwt() ? 'api_key_id', false)
+    OR NOT EXISTS (
+      SELECT 1 FROM public.user_two_factor
+      WHERE user_id = auth.uid() AND enabled
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.two_factor_sessions
+      WHERE user_id = auth.uid()
+      AND session_id = (auth.jwt() ->> 'session_id')::UUID
+    );
+$$;
+
+-- Refuses every request from a session that skipped the second factor,
+-- except the calls the login route makes before verifying it
+CREATE OR REPLACE FUNCTION public.require_two_factor_request()
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated'
+     AND current_setting('request.path', true) NOT IN ('/rpc/get_two_factor_status', '/rpc/get_app_setting')
+     AND NOT public.two_factor_verified() THEN
+    RAISE EXCEPTION 'Two-factor verification required'
+      USING ERRCODE = '42501', HINT = 'Sign in through the app to complete two-factor authentication';
+  END IF;
+END;
+$$;
+
+-- PostgREST pre-request hook
+CREATE OR REPLACE FUNCTION public.enforce_two_factor_request()
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_two_factor_request();
+END;
+$$;
+
+-- PostgREST runs a single pre-request hook. If another one is already
+-- configured, the hook above calls it first instead of replacing it; a hook
+-- configured later must call public.require_two_factor_request() itself.
+DO $$
+DECLARE
+  existing_hook TEXT;
+BEGIN
+  SELECT substring(setting FROM position('=' IN setting) + 1) INTO existing_hook
+  FROM pg_db_role_setting role_setting
+  CROSS JOIN LATERAL unnest(role_setting.setconfig) AS setting
+  WHERE role_setting.setrole = 'authenticator'::regrole
+  AND setting LIKE 'pgrst.db_pre_request=%'
+  ORDER BY role_setting.setdatabase DESC
+  LIMIT 1;
+
+  IF existing_hook IS NOT NULL
+     AND existing_hook::regproc <> 'public.enforce_two_factor_request'::regproc THEN
+    EXECUTE format(
+      $hook$
+      CREATE OR REPLACE FUNCTION public.enforce_two_factor_request()
+      RETURNS VOID
+      LANGUAGE plpgsql
+      SET search_path = public
+      AS $body$
+      BEGIN
+        PERFORM %s();
+        PERFORM public.require_two_factor_request();
+      END;
+      $body$
+      $hook$,
+      existing_hook::regproc
+    );
+  END IF;
+END;
+$$;
+
+ALTER ROLE authenticator SET pgrst.db_pre_request TO 'public.enforce_two_factor_request';
+NOTIFY pgrst, 'reload config';
+
+-- Realtime doesn't go through PostgREST; keep unverified sessions from
+-- subscribing to notifications
+DROP POLICY IF EXISTS "Notifications require two-factor verification" ON public.notifications;
+CREATE POLICY "Notifications require two-factor verification" ON public.notifications
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (public.two_factor_verified());
+
+-- Admins only hold admin rights in sessions that passed the second factor
+-- while the security settings require 2FA for admins
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  security_settings JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RETURN false;
+  END IF;
+
+  SELECT value INTO security_settings FROM public.app_settings WHERE key = 'security';
+
+  IF COALESCE((security_settings->>'enable_two_factor')::BOOLEAN, false)
+     AND COALESCE((security_settings->>'require_two_factor_for_admins')::BOOLEAN, false) THEN
+    RETURN EXISTS (SELECT 1 FROM public.user_two_factor WHERE user_id = auth.uid() AND enabled)
+      AND public.two_factor_verified();
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Enrollment, recovery code and disable checks go through the limited check
+
+CREATE OR REPLACE FUNCTION public.confirm_two_factor_enrollment(code TEXT)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.user_two_factor WHERE user_id = auth.uid() AND NOT enabled) THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT public.check_two_factor_code(auth.uid(), code, false) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.user_two_factor
+  SET enabled = true, enabled_at = NOW()
+  WHERE user_id = auth.uid();
+
+  PERFORM public.mark_two_factor_session();
+
+  RETURN public.generate_two_factor_recovery_codes(auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.regenerate_two_factor_recovery_codes(code TEXT)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.user_two_factor WHERE user_id = auth.uid() AND enabled) THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT public.check_two_factor_code(auth.uid(), code, false) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN public.generate_two_factor_recovery_codes(auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.disable_two_factor(code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.user_two_factor WHERE user_id = auth.uid() AND enabled)
+     OR NOT public.two_factor_verified() THEN
+    RETURN false;
+  END IF;
+
+  IF NOT public.check_two_factor_code(auth.uid(), code, true) THEN
+    RETURN false;
+  END IF;
+
+  DELETE FROM public.user_two_factor WHERE user_id = auth.uid();
+  DELETE FROM public.two_factor_sessions WHERE user_id = auth.uid();
+  RETURN true;
+END;
+$$;
+
+-- Replaced by verify_two_factor_login
+DROP FUNCTION IF EXISTS public.verify_two_factor_code(TEXT);
+
+REVOKE ALL ON FUNCTION public.check_two_factor_code(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.verify_two_factor_login(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_two_factor_login(UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.two_factor_verified() TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.require_two_factor_request() TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.enforce_two_factor_request() TO anon, authenticated, service_role;
@@ -0,0 +1,47 @@
+-- Per-poll broadcasts for deleted votes
+--
+-- Realtime can't filter DELETE changes on poll_id, and with RLS on votes
+-- the old row carries only the primary key, so every open poll page
+-- refetched its results whenever any vote on the site was deleted. Deletes
+-- are now announced by a statement trigger as a public broadcast on the
+-- poll's own topic (poll-votes:<poll id>, the channel the poll page already
+-- joins), once per poll per statement. The payload is just the poll id.
+-- Inserts stay on postgres_changes, which filters them by poll_id.
+
+CREATE OR REPLACE FUNCTION public.broadcast_vote_deletes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_poll_id UUID;
+BEGIN
+  FOR deleted_poll_id IN SELECT DISTINCT poll_id FROM deleted_votes LOOP
+    BEGIN
+      PERFORM realtime.send(
+        jsonb_build_object('poll_id', deleted_poll_id),
+        'vote_deleted',
+        'poll-votes:' || deleted_poll_id::TEXT,
+        false
+      );
+    EXCEPTION WHEN OTHERS THEN
+      -- Live results fall back to polling; never fail the delete itself
+      RAISE WARNING 'Could not broadcast vote delete for poll %: %', deleted_poll_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.broadcast_vote_deletes() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS votes_broadcast_deletes ON public.votes;
+CREATE TRIGGER votes_broadcast_deletes
+  AFTER DELETE ON public.votes
+  REFERENCING OLD TABLE AS deleted_votes
+  FOR EACH STATEMENT EXECUTE FUNCTION public.broadcast_vote_deletes();
+
+-- The full old row was only replicated for DELETE events
+ALTER TABLE public.votes REPLICA IDENTITY DEFAULT;
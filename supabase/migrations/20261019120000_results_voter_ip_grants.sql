@@ -0,0 +1,85 @@
+-- Voter IP addresses for results visibility only come from server code
+--
+-- can_view_poll_results, get_voter_votes and get_vote_audit take the voter's
+-- IP from the caller and were executable by anon, so anyone could claim any
+-- address and see an after_vote poll's results (or another voter's ballot).
+-- They are now for authenticated users, who are identified by auth.uid() and
+-- never by the IP, and for service_role, which server code uses to pass the
+-- request's IP for anonymous viewers.
+--
+-- RLS can't see the IP either, so the votes and text answer policies and the
+-- poll_results view move to poll_results_visible, the same rules without an
+-- IP. An anonymous voter on an after_vote poll is therefore shown results by
+-- server code, which reads the counts with the service client once
+-- can_view_poll_results allowed it, instead of getting zero counts from RLS.
+
+CREATE OR REPLACE FUNCTION public.poll_results_visible(poll_uuid UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.can_view_poll_results(poll_uuid, NULL);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.poll_results_visible(UUID) TO anon, authenticated, service_role;
+
+DROP POLICY IF EXISTS "Votes are viewable when results are visible" ON public.votes;
+CREATE POLICY "Votes are viewable when results are visible" ON public.votes
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR public.poll_results_visible(poll_id)
+  );
+
+DROP POLICY IF EXISTS "Text answers are viewable by author, creator, admins and with results" ON public.poll_text_answers;
+CREATE POLICY "Text answers are viewable by author, creator, admins and with results" ON public.poll_text_answers
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR public.is_admin()
+    OR EXISTS (SELECT 1 FROM public.polls p WHERE p.id = poll_id AND p.creator_id = auth.uid())
+    OR (status = 'approved' AND public.poll_results_visible(poll_id))
+  );
+
+-- Only list polls whose results the caller may see
+CREATE OR REPLACE VIEW public.poll_results AS
+SELECT
+  p.id as poll_id,
+  p.title,
+  p.description,
+  p.creator_id,
+  p.is_active,
+  p.allow_multiple_choices,
+  p.created_at as poll_created_at,
+  po.id as option_id,
+  po.text as option_text,
+  po.order_index,
+  COALESCE(vote_counts.vote_count, 0) as vote_count,
+  COALESCE(total_votes.total, 0) as total_poll_votes,
+  p.results_visibility
+FROM public.polls p
+LEFT JOIN public.poll_options po ON p.id = po.poll_id
+LEFT JOIN (
+  SELECT
+    option_id,
+    COUNT(*) as vote_count
+  FROM public.votes
+  GROUP BY option_id
+) vote_counts ON po.id = vote_counts.option_id
+LEFT JOIN (
+  SELECT
+    poll_id,
+    COUNT(*) as total
+  FROM public.votes
+  GROUP BY poll_id
+) total_votes ON p.id = total_votes.poll_id
+WHERE public.poll_results_visible(p.id)
+ORDER BY p.created_at DESC, po.order_index ASC;
+
+REVOKE ALL ON FUNCTION public.can_view_poll_results(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_voter_votes(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_vote_audit(UUID, TEXT) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.can_view_poll_results(UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_voter_votes(UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_vote_audit(UUID, TEXT) TO authenticated, service_role;
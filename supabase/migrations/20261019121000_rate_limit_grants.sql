@@ -0,0 +1,10 @@
+-- rate_limit_hit is for the app server only
+--
+-- The function takes the bucket key, window and limit from its caller and
+-- was executable by anon and authenticated, so anyone could fill another
+-- client's bucket (locking them out of login or voting) or write rows with
+-- arbitrary keys. The rate limiter now calls it with the service role key.
+
+REVOKE ALL ON FUNCTION public.rate_limit_hit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.rate_limit_hit(TEXT, INTEGER, INTEGER) TO service_role;
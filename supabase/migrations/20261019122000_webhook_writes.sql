@@ -0,0 +1,10 @@
+-- Webhooks are registered and changed by the app server only
+--
+-- The INSERT and UPDATE policies let users write any URL straight through
+-- PostgREST, skipping the checks that keep endpoints off private networks
+-- and cloud metadata addresses. The webhook server actions now check the
+-- URL (resolving its host) and write with the service role; owners and
+-- admins can still view and delete their webhooks directly.
+
+DROP POLICY IF EXISTS "Users can create webhooks, admins global ones" ON public.webhooks;
+DROP POLICY IF EXISTS "Users can update their webhooks, admins global ones" ON public.webhooks;
@@ -0,0 +1,162 @@
+-- Webhook events are reported by the app server only
+--
+-- enqueue_webhook_event was executable by anon and took the voter's IP from
+-- its caller, so anyone could report vote.cast as another anonymous voter
+-- (the IP-taking functions were revoked from anon for results visibility).
+-- It is now granted to service_role only. The app server passes the user
+-- who acted (actor_id) or, for anonymous votes, the request IP; the
+-- poll-notifications scheduler passes neither.
+
+DROP FUNCTION IF EXISTS public.enqueue_webhook_event(TEXT, UUID, TEXT);
+
+-- Queue an event for every active webhook subscribed to it: the poll
+-- creator's own webhooks and admins' global ones. poll.created, poll.closed
+-- and poll.reopened are reported for the creator or an admin (or by the
+-- scheduler for expiry closes); vote.cast for the actor's or anonymous
+-- voter's latest ballot; poll.closing_soon only by the scheduler.
+-- Returns the number of deliveries queued.
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(
+  event_name TEXT,
+  poll_uuid UUID,
+  actor_id UUID DEFAULT NULL,
+  voter_ip TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_poll RECORD;
+  is_scheduler BOOLEAN := actor_id IS NULL AND voter_ip IS NULL;
+  is_manager BOOLEAN;
+  latest_vote_id UUID;
+  event_key TEXT;
+  event_payload JSONB;
+  queued_count INTEGER;
+BEGIN
+  SELECT id, title, creator_id, poll_type, status, is_active, opens_at, expires_at, updated_at
+  INTO target_poll
+  FROM public.polls
+  WHERE id = poll_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  is_manager := is_scheduler
+    OR target_poll.creator_id = actor_id
+    OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = actor_id AND p.role = 'admin');
+
+  event_payload := jsonb_build_object(
+    'event', event_name,
+    'occurred_at', NOW(),
+    'poll', jsonb_build_object(
+      'id', target_poll.id,
+      'title', target_poll.title,
+      'poll_type', target_poll.poll_type,
+      'status', target_poll.status,
+      'is_active', target_poll.is_active,
+      'opens_at', target_poll.opens_at,
+      'expires_at', target_poll.expires_at,
+      'total_votes', (
+        SELECT COUNT(DISTINCT COALESCE(v.user_id::TEXT, host(v.ip_address)))
+        FROM public.votes v
+        WHERE v.poll_id = poll_uuid
+      )
+    )
+  );
+
+  CASE event_name
+    WHEN 'poll.created' THEN
+      IF NOT is_manager THEN
+        RAISE EXCEPTION 'Only the poll creator can report this event' USING ERRCODE = '42501';
+      END IF;
+      IF target_poll.status <> 'published' THEN
+        RAISE EXCEPTION 'Drafts are reported once published' USING ERRCODE = '22023';
+      END IF;
+      event_key := 'poll.created:' || poll_uuid;
+
+    WHEN 'poll.closed' THEN
+      IF NOT is_manager THEN
+        RAISE EXCEPTION 'Only the poll creator can report this event' USING ERRCODE = '42501';
+      END IF;
+      IF NOT target_poll.is_active THEN
+        event_key := 'poll.closed:' || poll_uuid || ':' || extract(epoch FROM target_poll.updated_at);
+      ELSIF target_poll.expires_at IS NOT NULL AND target_poll.expires_at <= NOW() THEN
+        event_key := 'poll.closed:' || poll_uuid || ':expired:' || extract(epoch FROM target_poll.expires_at);
+      ELSE
+        RAISE EXCEPTION 'Poll is still open' USING ERRCODE = '22023';
+      END IF;
+
+    WHEN 'poll.reopened' THEN
+      IF NOT is_manager THEN
+        RAISE EXCEPTION 'Only the poll creator can report this event' USING ERRCODE = '42501';
+      END IF;
+      IF NOT target_poll.is_active THEN
+        RAISE EXCEPTION 'Poll is closed' USING ERRCODE = '22023';
+      END IF;
+      event_key := 'poll.reopened:' || poll_uuid || ':' || extract(epoch FROM target_poll.updated_at);
+
+    WHEN 'poll.closing_soon' THEN
+      IF NOT is_scheduler THEN
+        RAISE EXCEPTION 'This event is reported by the scheduler' USING ERRCODE = '42501';
+      END IF;
+      IF target_poll.expires_at IS NULL OR target_poll.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'Poll is not closing' USING ERRCODE = '22023';
+      END IF;
+      event_key := 'poll.closing_soon:' || poll_uuid || ':' || extract(epoch FROM target_poll.expires_at);
+
+    WHEN 'vote.cast' THEN
+      -- The caller's latest ballot; voters are never identified in the payload
+      SELECT v.id INTO latest_vote_id
+      FROM public.votes v
+      WHERE v.poll_id = poll_uuid
+      AND (
+        (actor_id IS NOT NULL AND v.user_id = actor_id)
+        OR (actor_id IS NULL AND voter_ip IS NOT NULL AND v.user_id IS NULL AND host(v.ip_address) = voter_ip)
+      )
+      ORDER BY v.created_at DESC
+      LIMIT 1;
+
+      IF latest_vote_id IS NULL THEN
+        RAISE EXCEPTION 'No vote to report' USING ERRCODE = '22023';
+      END IF;
+
+      event_key := 'vote.cast:' || latest_vote_id;
+      event_payload := event_payload || jsonb_build_object('vote', jsonb_build_object(
+        'option_ids', (
+          SELECT COALESCE(jsonb_agg(v.option_id ORDER BY v.rank NULLS LAST, v.created_at), '[]'::jsonb)
+          FROM public.votes v
+          WHERE v.poll_id = poll_uuid
+          AND (
+            (actor_id IS NOT NULL AND v.user_id = actor_id)
+            OR (actor_id IS NULL AND v.user_id IS NULL AND host(v.ip_address) = voter_ip)
+          )
+        )
+      ));
+
+    ELSE
+      RAISE EXCEPTION 'Unknown webhook event' USING ERRCODE = '22023';
+  END CASE;
+
+  INSERT INTO public.webhook_deliveries (webhook_id, event_type, dedupe_key, payload)
+  SELECT w.id, event_name, event_key, event_payload
+  FROM public.webhooks w
+  WHERE w.is_active
+  AND event_name = ANY(w.events)
+  AND (
+    (w.scope = 'own' AND w.owner_id = target_poll.creator_id)
+    OR (w.scope = 'global' AND EXISTS (
+      SELECT 1 FROM public.profiles p WHERE p.id = w.owner_id AND p.role = 'admin'
+    ))
+  )
+  ON CONFLICT (webhook_id, dedupe_key) DO NOTHING;
+
+  GET DIAGNOSTICS queued_count = ROW_COUNT;
+  RETURN queued_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_webhook_event(TEXT, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_webhook_event(TEXT, UUID, UUID, TEXT) TO service_role;
@@ -0,0 +1,95 @@
+-- list_polls filter fixes
+--
+-- * 'closed' also lists polls their creator closed (is_active = false), not
+--   only expired ones; 'all' lists open and closed polls, and only 'open',
+--   'upcoming' and the ending_soon sort require an active poll.
+-- * The viewer's own polls ("mine") and the polls they voted on include
+--   unlisted and private ones; other listings stay public only.
+-- * vote_count (the most_votes sort) counts ballots rather than vote rows,
+--   which ranked and multiple choice polls store one per option.
+
+CREATE OR REPLACE FUNCTION public.list_polls(
+  sort_by TEXT DEFAULT 'newest',
+  status_filter TEXT DEFAULT 'all',
+  creator_uuid UUID DEFAULT NULL,
+  voted_only BOOLEAN DEFAULT FALSE,
+  created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  search_query TEXT DEFAULT NULL,
+  tag_slug TEXT DEFAULT NULL,
+  after_id UUID DEFAULT NULL,
+  after_time TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  after_votes BIGINT DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  poll_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  vote_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH listed AS (
+    SELECT
+      p.id,
+      p.created_at,
+      p.expires_at,
+      -- Ballots: ranked and multiple choice votes store a row per option
+      (
+        SELECT COUNT(DISTINCT COALESCE('user:' || v.user_id::TEXT, 'ip:' || host(v.ip_address)))
+        FROM public.votes v
+        WHERE v.poll_id = p.id
+      ) AS vote_count
+    FROM public.polls p
+    WHERE p.status = 'published'
+    -- The viewer's own polls and the polls they voted on include unlisted
+    -- and private ones (row level security still applies)
+    AND (
+      p.visibility = 'public'
+      OR (creator_uuid IS NOT NULL AND creator_uuid = auth.uid())
+      OR voted_only
+    )
+    AND (creator_uuid IS NULL OR p.creator_id = creator_uuid)
+    AND (NOT voted_only OR EXISTS (
+      SELECT 1 FROM public.votes mv WHERE mv.poll_id = p.id AND mv.user_id = auth.uid()
+    ))
+    AND (created_after IS NULL OR p.created_at >= created_after)
+    AND (created_before IS NULL OR p.created_at < created_before)
+    AND (search_query IS NULL OR p.search_vector @@ public.poll_search_query(search_query))
+    AND (list_polls.tag_slug IS NULL OR EXISTS (
+      SELECT 1 FROM public.poll_tags pt
+      JOIN public.tags t ON t.id = pt.tag_id
+      WHERE pt.poll_id = p.id AND t.slug = list_polls.tag_slug
+    ))
+    AND CASE status_filter
+      WHEN 'open' THEN p.is_active
+        AND (p.opens_at IS NULL OR p.opens_at <= NOW())
+        AND (p.expires_at IS NULL OR p.expires_at > NOW())
+      WHEN 'upcoming' THEN p.is_active AND p.opens_at > NOW()
+      WHEN 'closed' THEN NOT p.is_active OR p.expires_at <= NOW()
+      ELSE TRUE
+    END
+    AND (sort_by <> 'ending_soon' OR (p.is_active AND (p.expires_at IS NULL OR p.expires_at > NOW())))
+  )
+  SELECT l.id, l.created_at, l.expires_at, l.vote_count
+  FROM listed l
+  WHERE after_id IS NULL OR CASE sort_by
+    WHEN 'most_votes' THEN (l.vote_count, l.id) < (after_votes, after_id)
+    WHEN 'ending_soon' THEN CASE
+      WHEN after_time IS NULL THEN l.expires_at IS NULL AND l.id > after_id
+      ELSE l.expires_at IS NULL OR (l.expires_at, l.id) > (after_time, after_id)
+    END
+    ELSE (l.created_at, l.id) < (after_time, after_id)
+  END
+  ORDER BY
+    CASE WHEN sort_by = 'most_votes' THEN l.vote_count END DESC,
+    CASE WHEN sort_by = 'ending_soon' THEN l.expires_at END ASC NULLS LAST,
+    CASE WHEN sort_by NOT IN ('most_votes', 'ending_soon') THEN l.created_at END DESC,
+    CASE WHEN sort_by = 'ending_soon' THEN l.id END ASC,
+    CASE WHEN sort_by <> 'ending_soon' THEN l.id END DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 51);
+$$;
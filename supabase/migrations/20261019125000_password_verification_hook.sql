@@ -0,0 +1,64 @@
+-- Enforce account lockout inside Supabase Auth
+--
+-- The lockout was only checked by /api/auth/login, so calling
+-- signInWithPassword directly with the anon key skipped it: locked accounts
+-- could still sign in and wrong passwords were never counted. This function
+-- is a Supabase Auth "password verification attempt" hook. Auth calls it
+-- after checking every password; it counts wrong passwords with
+-- record_failed_login and rejects sign-ins, right or wrong, while the
+-- account is locked.
+--
+-- Hooks are not enabled by migrations. Turn it on under Authentication >
+-- Hooks (Password Verification Attempt, Postgres function
+-- public.hook_password_verification_attempt), or in supabase/config.toml:
+--
+--   [auth.hook.password_verification_attempt]
+--   enabled = true
+--   uri = "pg-functions://postgres/public/hook_password_verification_attempt"
+--
+-- and set AUTH_PASSWORD_HOOK_ENABLED=true so the login route stops counting
+-- failures itself. Until the hook is enabled, the lockout only applies to
+-- sign-ins through /api/auth/login.
+--
+-- Successful passwords do not reset the counter here: the login route resets
+-- it once the whole sign-in (including two-factor) succeeds, so wrong
+-- two-factor codes still add up to a lockout.
+
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  account_email TEXT;
+  lockout TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT email INTO account_email
+  FROM public.profiles
+  WHERE id = (event->>'user_id')::UUID;
+
+  IF account_email IS NULL THEN
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  lockout := public.get_account_lockout(account_email);
+
+  IF lockout IS NULL AND NOT COALESCE((event->>'valid')::BOOLEAN, FALSE) THEN
+    lockout := public.record_failed_login(account_email);
+  END IF;
+
+  IF lockout IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Account temporarily locked due to too many failed login attempts',
+      'should_logout_user', FALSE
+    );
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.hook_password_verification_attempt(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
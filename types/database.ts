@@ -1,3 +1,18 @@
+import type { z } from 'zod';
+import type {
+  ApiErrorSchema,
+  CreatePollRequestSchema,
+  HighlightSegmentSchema,
+  ListPollsResponseSchema,
+  PollDetailSchema,
+  PollSearchResultSchema,
+  PollSummarySchema,
+  SearchPollsResponseSchema,
+  UpdatePollRequestSchema,
+  VoteRequestSchema,
+  VoteResponseSchema,
+} from '@/lib/api-schemas';
+
 // Database types that match Supabase schema
 export interface Profile {
   id: string;
@@ -9,6 +24,19 @@ export interface Profile {
   updated_at: string;
 }
 
+// 'text' polls have no options; voters write an open-ended answer
+export type PollType = 'standard' | 'ranked' | 'text';
+
+// Who can see a poll's results (creators and admins always can)
+export type ResultsVisibility = 'always' | 'after_vote' | 'after_close' | 'creator_only';
+
+// Who can open a poll: unlisted polls are left out of listings, private polls
+// are limited to the creator, admins and eligible voters
+export type PollVisibility = 'public' | 'unlisted' | 'private';
+
+// Drafts are only visible to their creator; published polls open at opens_at (if set)
+export type PollStatus = 'draft' | 'published';
+
 export interface Poll {
   id: string;
   title: string;
@@ -17,11 +45,21 @@ export interface Poll {
   creator?: Profile;
   is_active: boolean;
   allow_multiple_choices: boolean;
+  poll_type?: PollType;
+  allow_write_in?: boolean; // adds an "Other (please specify)" choice to standard polls
+  results_visibility?: ResultsVisibility;
+  visibility?: PollVisibility;
+  status?: PollStatus;
+  opens_at?: string;
   expires_at?: string;
+  edited_at?: string; // set when the title, description or options change after creation
   created_at: string;
   updated_at: string;
   options: PollOption[];
   total_votes?: number;
+  runoff?: RunoffResult;
+  results_hidden?: boolean; // true when counts were withheld from the current viewer
+  tags?: PollTag[];
 }
 
 export interface PollOption {
@@ -41,16 +79,279 @@ export interface Vote {
   user_id?: string;
   ip_address?: string;
   user_agent?: string;
+  rank?: number;
   created_at: string;
 }
 
+// Instant-runoff result types for ranked-choice polls
+export interface RunoffRound {
+  round: number;
+  tallies: Record<string, number>; // option_id -> ballots counted for it this round
+  eliminated: string[]; // option_ids eliminated at the end of this round
+  exhausted: number; // ballots with no remaining ranked option
+}
+
+export interface RunoffResult {
+  rounds: RunoffRound[];
+  winner_id: string | null; // null when the final round ends in a tie
+  total_ballots: number;
+}
+
 // API types for creating polls
 export interface CreatePollData {
   title: string;
   description?: string;
   options: string[];
   allow_multiple_choices: boolean;
+  poll_type?: PollType;
+  allow_write_in?: boolean;
+  results_visibility?: ResultsVisibility;
+  visibility?: PollVisibility;
+  eligible_voters?: string[]; // emails or user ids, for private polls
+  status?: PollStatus;
+  opens_at?: string;
+  expires_at?: string;
+}
+
+// Entry on a private poll's eligible-voter list
+export interface PollVoter {
+  id: string;
+  poll_id: string;
+  user_id?: string;
+  email?: string;
+  added_via: 'list' | 'invite';
+  created_at: string;
+}
+
+// Versioned state of a poll, stored on every edit
+export interface PollRevisionSnapshot {
+  title: string;
+  description: string | null;
+  options: { id: string; text: string; order_index: number }[];
+}
+
+export interface PollRevision {
+  id: string;
+  poll_id: string;
+  revision_number: number; // 0 is the poll as originally created
+  editor_id: string | null;
+  snapshot: PollRevisionSnapshot;
+  created_at: string;
+}
+
+// A registered voter's vote removed because its option was deleted in an edit
+export interface PollVoteInvalidation {
+  id: string;
+  poll_id: string;
+  revision_id: string;
+  user_id: string;
+  option_text: string;
+  created_at: string;
+  acknowledged_at?: string;
+}
+
+// Open-ended answer: the whole answer on a text poll, or an "Other" write-in
+export type TextAnswerKind = 'text' | 'write_in';
+
+// Moderated by the poll creator; merged write-ins have been turned into votes
+export type TextAnswerStatus = 'pending' | 'approved' | 'rejected' | 'merged';
+
+export interface PollTextAnswer {
+  id: string;
+  poll_id: string;
+  user_id?: string;
+  kind: TextAnswerKind;
+  text: string;
+  status: TextAnswerStatus;
+  merged_option_id?: string;
+  moderated_at?: string;
+  created_at: string;
+}
+
+// Vote audit log: one hash-chained entry per vote added or removed
+export type VoteEventType = 'cast' | 'changed' | 'retracted' | 'invalidated';
+
+export type VoteEventReason = 'option_removed' | 'poll_deleted' | 'voter_deleted' | 'removed_by_admin';
+
+export interface VoteEvent {
+  sequence_number: number;
+  event_type: VoteEventType;
+  voter_hash: string; // Salted per poll; never a user id or IP
+  option_id: string;
+  rank: number | null;
+  reason: VoteEventReason | null;
+  occurred_at: string;
+  prev_hash: string;
+  hash: string;
+}
+
+export interface VoteAuditLog {
+  poll_id: string;
+  event_count: number;
+  head_hash: string;
+  events: VoteEvent[] | null; // null while the viewer may not see results
+}
+
+// Site-wide announcement banner managed by admins
+export type AnnouncementStatus = 'draft' | 'scheduled' | 'active' | 'archived';
+
+export type AnnouncementAudience = 'all' | 'registered' | 'admins';
+
+export interface Announcement {
+  id: string;
+  title: string;
+  content: string;
+  status: AnnouncementStatus;
+  target_audience: AnnouncementAudience;
+  starts_at: string | null; // Required for scheduled announcements
+  ends_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Multi-question survey: questions are answered one step at a time and submitted together
+export interface Survey {
+  id: string;
+  title: string;
+  description?: string;
+  creator_id: string;
+  is_active: boolean;
+  expires_at?: string;
+  created_at: string;
+  updated_at: string;
+  questions: SurveyQuestion[];
+}
+
+export interface SurveyQuestion {
+  id: string;
+  survey_id: string;
+  position: number; // 1-based order within the survey
+  text: string;
+  allow_multiple_choices: boolean;
+  is_required: boolean;
+  options: SurveyQuestionOption[];
+}
+
+export interface SurveyQuestionOption {
+  id: string;
+  question_id: string;
+  text: string;
+  order_index: number;
+}
+
+export interface SurveyAnswer {
+  question_id: string;
+  option_ids: string[];
+}
+
+// The current visitor's progress on a survey
+export interface SurveyResponseStatus {
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface SurveyQuestionResult {
+  question_id: string;
+  position: number;
+  text: string;
+  allow_multiple_choices: boolean;
+  is_required: boolean;
+  respondents: number; // completed responses that answered this question
+  options: { id: string; text: string; count: number }[];
+}
+
+export interface SurveyResults {
+  survey_id: string;
+  title: string;
+  started: number;
+  completed: number;
+  completion_rate: number; // 0-100, completed / started
+  questions: SurveyQuestionResult[];
+}
+
+// Dashboard row for a survey the user created
+export interface SurveySummary {
+  id: string;
+  title: string;
+  description?: string;
+  is_active: boolean;
   expires_at?: string;
+  created_at: string;
+  question_count: number;
+  started: number;
+  completed: number;
+  completion_rate: number;
+}
+
+// Outgoing webhooks: 'own' endpoints receive the owner's polls' events,
+// 'global' ones (admins only) receive events for every poll
+export type WebhookEvent = 'poll.created' | 'vote.cast' | 'poll.closing_soon' | 'poll.closed' | 'poll.reopened';
+
+export type WebhookScope = 'own' | 'global';
+
+export interface Webhook {
+  id: string;
+  owner_id: string;
+  scope: WebhookScope;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  secret: string; // HMAC-SHA256 signing key, shown only to the owner
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One queued event for one webhook, with the outcome of its latest attempt
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event_type: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: string;
+  last_attempt_at?: string;
+  response_status?: number;
+  last_error?: string;
+  delivered_at?: string;
+  created_at: string;
+}
+
+// Personal API keys for /api/v1; only a hash of the key is stored
+export type ApiKeyScope = 'read' | 'write';
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string; // The first characters of the key, e.g. polly_3fa9c1
+  scopes: ApiKeyScope[];
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// In-app notifications shown in the navbar bell; each type can be sent by
+// email, in-app, both or neither (profiles.notification_channels)
+export type AppNotificationType = 'poll_opened' | 'poll_closing' | 'poll_results' | 'new_vote' | 'vote_removed';
+
+export type NotificationChannel = 'email' | 'in_app' | 'both' | 'none';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: AppNotificationType;
+  poll_id: string | null;
+  title: string;
+  body: string | null;
+  link: string | null; // App-relative path, e.g. /polls/<id>
+  metadata: Record<string, unknown>;
+  read_at: string | null;
+  created_at: string;
 }
 
 // API types for voting
@@ -114,6 +415,61 @@ export interface PaginatedResponse<T> {
   hasMore: boolean;
 }
 
+// Poll listing (lib/poll-listing.ts): 'ending_soon' leaves out closed polls
+// Tags group polls by topic; admin-curated tags are categories
+export interface Tag {
+  id: string;
+  name: string;
+  slug: string;
+  is_category: boolean;
+  description?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export type PollTag = Pick<Tag, 'id' | 'name' | 'slug' | 'is_category'>;
+
+export interface TagSuggestion extends PollTag {
+  description?: string | null;
+  poll_count: number;
+}
+
+export type PollListSort = 'newest' | 'most_votes' | 'ending_soon';
+export type PollListStatus = 'all' | 'open' | 'upcoming' | 'closed';
+
+export interface PollListFilters {
+  sort?: PollListSort;
+  status?: PollListStatus;
+  creator_id?: string;
+  mine?: boolean; // polls created by the signed-in user
+  voted?: boolean; // polls the signed-in user has voted on
+  created_after?: string;
+  created_before?: string;
+  search?: string; // full-text, matching word prefixes in the title, description and options
+  tag?: string; // tag slug
+}
+
+// One page of a cursor-paginated listing; pass nextCursor to get the next page
+export interface PollListPage {
+  polls: Poll[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// REST API request and response bodies, inferred from the zod schemas the
+// route handlers validate with (lib/api-schemas.ts)
+export type CreatePollRequest = z.input<typeof CreatePollRequestSchema>;
+export type UpdatePollRequest = z.input<typeof UpdatePollRequestSchema>;
+export type VoteRequest = z.input<typeof VoteRequestSchema>;
+export type ApiError = z.infer<typeof ApiErrorSchema>;
+export type ApiPollSummary = z.infer<typeof PollSummarySchema>;
+export type ApiPollDetail = z.infer<typeof PollDetailSchema>;
+export type ListPollsResponse = z.infer<typeof ListPollsResponseSchema>;
+export type VoteResponse = z.infer<typeof VoteResponseSchema>;
+export type HighlightSegment = z.infer<typeof HighlightSegmentSchema>;
+export type PollSearchResult = z.infer<typeof PollSearchResultSchema>;
+export type SearchPollsResponse = z.infer<typeof SearchPollsResponseSchema>;
+
 // Legacy types for backward compatibility (to be gradually removed)
 export interface User {
   id: string;